@@ -0,0 +1,49 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditTrail, GENESIS_HASH } from './AuditTrail';
+
+describe('AuditTrail', () => {
+  let dir: string;
+  let trail: AuditTrail;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-trail-'));
+    trail = new AuditTrail(path.join(dir, 'audit-trail.jsonl'));
+    await trail.append('key.loaded', 'security:SecureWalletManager', { address: '0x00000000000000000000000000000000000000b0' });
+    await trail.append('emergency.proposed', 'bot:refundbot', { amount: BigInt(1000000), note: undefined });
+    await trail.append('emergency.signed', '0x00000000000000000000000000000000000000a1');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('chains appended entries and stores details as hashed', () => {
+    const [first, second] = trail.read();
+
+    expect(first).toMatchObject({ seq: 1, prevHash: GENESIS_HASH });
+    expect(second).toMatchObject({ seq: 2, prevHash: first.hash, details: { amount: '1000000' } });
+    expect(trail.verify()).toMatchObject({ valid: true, entries: 3, head: { seq: 3 } });
+  });
+
+  it('reports the line of an edited entry', () => {
+    const lines = trail.export().split('\n');
+    lines[1] = lines[1].replace('bot:refundbot', 'bot:other');
+    fs.writeFileSync(trail.getPath(), lines.join('\n'));
+
+    expect(trail.verify().issues).toEqual([
+      { line: 2, seq: 2, problem: 'hash-mismatch', message: 'entry 2 was modified after it was written' }
+    ]);
+  });
+
+  it('reports entries removed from the end after an anchored head', () => {
+    const { head } = trail.verify();
+    const lines = trail.export().split('\n');
+    fs.writeFileSync(trail.getPath(), `${lines.slice(0, 2).join('\n')}\n`);
+
+    expect(trail.verify(head!).issues).toEqual([
+      expect.objectContaining({ seq: 3, problem: 'anchor-mismatch' })
+    ]);
+  });
+});
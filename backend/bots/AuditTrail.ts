@@ -0,0 +1,185 @@
+/**
+ * AuditTrail - Append-only, hash-chained log of the privileged operations of the bot processes
+ * Key loads, key rotations, emergency release proposals, bot configuration changes and operations
+ * daemon job changes are appended as one JSON line each. Every entry carries the hash of the entry
+ * before it and its own hash (sha256 of the entry without the hash, keys sorted), so editing,
+ * removing or reordering a line breaks the chain. verify() walks the file and reports where.
+ * Appends from all bot processes go through a lock file, like the other shared state.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withFileLock } from './FileLock';
+import {
+  AuditChainEntry,
+  AuditChainHead,
+  AuditChainIssue,
+  AuditChainProblem,
+  AuditChainVerification,
+  AuditChainVerifier,
+  chainEntry
+} from '../src/utils/auditChain';
+
+// The chain format is shared with the API's audit log (src/utils/auditChain)
+export { GENESIS_HASH, hashChainEntry as hashAuditEntry } from '../src/utils/auditChain';
+
+export type AuditTrailEntry = AuditChainEntry; // action e.g. key.loaded, key.rotation.completed, emergency.signed, config.changed
+export type AuditTrailProblem = AuditChainProblem;
+export type AuditTrailIssue = AuditChainIssue;
+export type AuditTrailVerification = AuditChainVerification;
+
+const DEFAULT_TRAIL_PATH = './data/audit-trail.jsonl';
+const TAIL_CHUNK = 64 * 1024;
+
+/**
+ * Actor for entries written by a bot process on its own account: the script it was started with
+ */
+export function processActor(): string {
+  const script = process.argv[1] || '';
+  return `process:${path.basename(script, path.extname(script)) || 'node'}`;
+}
+
+/**
+ * Check a trail (the live file or an export) line by line. anchor is a head reported by an
+ * earlier verification; the entry at its seq must still be there with the same hash.
+ */
+export function verifyAuditLines(lines: string[], anchor?: AuditChainHead): AuditTrailVerification {
+  const verifier = new AuditChainVerifier(anchor);
+
+  for (const [index, text] of lines.entries()) {
+    if (!text.trim()) continue;
+
+    let entry: AuditTrailEntry;
+    try {
+      entry = JSON.parse(text);
+    } catch {
+      verifier.unparsable(index + 1);
+      continue;
+    }
+    verifier.check(entry, index + 1);
+  }
+
+  return verifier.result(lines.length);
+}
+
+export class AuditTrail {
+  private trailPath: string;
+  private lockPath: string;
+
+  constructor(trailPath: string = process.env.AUDIT_TRAIL_PATH || DEFAULT_TRAIL_PATH) {
+    this.trailPath = trailPath;
+    this.lockPath = `${trailPath}.lock`;
+  }
+
+  public getPath(): string {
+    return this.trailPath;
+  }
+
+  /**
+   * Append an entry, chained to the last one in the file
+   */
+  public async append(action: string, actor: string, details: Record<string, unknown> = {}): Promise<AuditTrailEntry> {
+    fs.mkdirSync(path.dirname(this.trailPath), { recursive: true });
+
+    return withFileLock(this.lockPath, `${actor}:${process.pid}`, () => {
+      const entry = chainEntry(this.readLastEntry(), {
+        timestamp: new Date().toISOString(),
+        actor,
+        action,
+        // Stored exactly as hashed: bigints as decimal strings, undefined fields dropped
+        details: JSON.parse(JSON.stringify(details, (_key, value) => typeof value === 'bigint' ? value.toString() : value))
+      });
+
+      fs.appendFileSync(this.trailPath, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+      return entry;
+    });
+  }
+
+  public verify(anchor?: AuditChainHead): AuditTrailVerification {
+    return verifyAuditLines(this.readLines(), anchor);
+  }
+
+  /**
+   * Entries after seq `after`, oldest first, for exports
+   */
+  public read(options: { after?: number; limit?: number } = {}): AuditTrailEntry[] {
+    const entries: AuditTrailEntry[] = [];
+    for (const text of this.readLines()) {
+      if (!text.trim()) continue;
+      try {
+        const entry: AuditTrailEntry = JSON.parse(text);
+        if (entry.seq > (options.after || 0)) entries.push(entry);
+      } catch {
+        // reported by verify()
+      }
+    }
+    return options.limit ? entries.slice(0, options.limit) : entries;
+  }
+
+  /**
+   * The trail as written, one JSON entry per line
+   */
+  public export(): string {
+    return fs.existsSync(this.trailPath) ? fs.readFileSync(this.trailPath, 'utf8') : '';
+  }
+
+  /**
+   * Record a configuration file the process loaded: config.loaded the first time its content is
+   * seen, config.changed (with the previous hash) when it differs from what was last recorded
+   */
+  public async recordFileVersion(kind: string, filePath: string, actor: string, details: Record<string, unknown> = {}): Promise<void> {
+    const source = path.resolve(filePath);
+    const sha256 = crypto.createHash('sha256').update(fs.readFileSync(source)).digest('hex');
+
+    const previous = this.read()
+      .reverse()
+      .find(entry => entry.details.kind === kind && entry.details.source === source && /^config\.(loaded|changed)$/.test(entry.action));
+    if (previous?.details.sha256 === sha256) return;
+
+    await this.append(previous ? 'config.changed' : 'config.loaded', actor, {
+      kind,
+      source,
+      sha256,
+      ...(previous && { previousSha256: previous.details.sha256 }),
+      ...details
+    });
+  }
+
+  private readLines(): string[] {
+    if (!fs.existsSync(this.trailPath)) return [];
+    return fs.readFileSync(this.trailPath, 'utf8').split('\n');
+  }
+
+  // Only the end of the file is read; the chain continues from its last complete line
+  private readLastEntry(): AuditTrailEntry | null {
+    if (!fs.existsSync(this.trailPath)) return null;
+
+    const fd = fs.openSync(this.trailPath, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+      let chunk = TAIL_CHUNK;
+      while (true) {
+        const start = Math.max(0, size - chunk);
+        const buffer = Buffer.alloc(size - start);
+        fs.readSync(fd, buffer, 0, buffer.length, start);
+        const lines = buffer.toString('utf8').split('\n').filter(line => line.trim());
+
+        // The first line of a partial read may be cut off
+        if (lines.length > (start > 0 ? 1 : 0)) {
+          try {
+            return JSON.parse(lines[lines.length - 1]);
+          } catch {
+            throw new Error(`The last line of ${this.trailPath} is not a valid entry; run the audit trail verification`);
+          }
+        }
+        if (start === 0) return null;
+        chunk *= 2;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+export const auditTrail = new AuditTrail();
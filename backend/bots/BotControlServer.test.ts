@@ -0,0 +1,136 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { BotControlServer } from './BotControlServer';
+import { DailyPaymentBotV8 } from './DailyPaymentBotV8';
+import { ExecutionHistory } from './ExecutionHistory';
+import { ExecutionRecordV8 } from './V8Types';
+
+const PORT = 47831;
+const TOKEN = 'control-token';
+
+const execution = (id: string, success: boolean = true): ExecutionRecordV8 => ({
+  id,
+  startTime: 1700000000000,
+  endTime: 1700000060000,
+  success,
+  isManual: false,
+  totalProcessed: 2,
+  successfulPayments: success ? 2 : 1,
+  failedPayments: success ? 0 : 1,
+  error: success ? null : 'insufficient funds'
+});
+
+/**
+ * Bot double with the scheduler state the control routes act on
+ */
+function botWith(history: ExecutionHistory) {
+  let paused = false;
+  const bot = {
+    getEmergencyProposals: () => ({}),
+    isSchedulerPaused: () => paused,
+    isExecuting: () => false,
+    isDryRun: () => false,
+    pauseScheduler: () => { paused = true; },
+    resumeScheduler: () => { paused = false; },
+    getSchedulerStatus: () => ({ isPaused: paused, lastExecution: history.getLast() }),
+    getExecutionHistory: (limit: number) => history.getRecent(limit),
+    executeDaily: jest.fn().mockResolvedValue(null)
+  };
+  return bot;
+}
+
+function request(method: string, urlPath: string, token: string | null = TOKEN): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port: PORT,
+      method,
+      path: urlPath,
+      agent: false,
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('ExecutionHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'execution-history-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the newest executions across restarts', () => {
+    const file = path.join(dir, 'history.json');
+    const history = new ExecutionHistory(file, 2);
+    history.add(execution('exec-1'));
+    history.add(execution('exec-2', false));
+    history.add(execution('exec-3'));
+
+    const reloaded = new ExecutionHistory(file, 2);
+
+    expect(reloaded.getRecent(10).map(record => record.id)).toEqual(['exec-3', 'exec-2']);
+    expect(reloaded.getSummary()).toEqual({ totalExecutions: 2, successfulExecutions: 1, failedExecutions: 1 });
+  });
+});
+
+describe('BotControlServer', () => {
+  let dir: string;
+  let bot: ReturnType<typeof botWith>;
+  let server: BotControlServer;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-control-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const history = new ExecutionHistory(path.join(dir, 'history.json'));
+    history.add(execution('exec-1'));
+    history.add(execution('exec-2'));
+    bot = botWith(history);
+    server = new BotControlServer(bot as unknown as DailyPaymentBotV8, { port: PORT, host: '127.0.0.1', token: TOKEN });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses requests without the shared token', async () => {
+    await expect(request('GET', '/history', null)).resolves.toMatchObject({ status: 401 });
+    await expect(request('GET', '/history', 'wrong-token')).resolves.toMatchObject({ status: 401 });
+  });
+
+  it('returns the persisted history, newest first and up to the limit', async () => {
+    const { status, body } = await request('GET', '/history?limit=1');
+
+    expect(status).toBe(200);
+    expect(body.executions.map((record: ExecutionRecordV8) => record.id)).toEqual(['exec-2']);
+  });
+
+  it('refuses a manual run while paused and starts one once resumed', async () => {
+    await expect(request('POST', '/pause')).resolves.toMatchObject({ status: 200, body: { status: { isPaused: true } } });
+    await expect(request('POST', '/execute')).resolves.toMatchObject({ status: 409, body: { error: 'Bot is paused' } });
+    expect(bot.executeDaily).not.toHaveBeenCalled();
+
+    await request('POST', '/resume');
+
+    await expect(request('POST', '/execute')).resolves.toMatchObject({ status: 202, body: { started: true } });
+    expect(bot.executeDaily).toHaveBeenCalledWith(true, false);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * BotControlServer - Local HTTP control interface for DailyPaymentBotV8
+ * The backend's admin /api/bot routes proxy to it; every request needs the shared token
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { DailyPaymentBotV8 } from './DailyPaymentBotV8';
+import { SessionStatus } from './V8Types';
+import { SessionClaimedError } from './ProcessingLedger';
+import {
+  ApprovalStatus,
+  ApprovalRequiredError,
+  PolicyViolationError,
+  ApprovalNotFoundError,
+  ApprovalStateError
+} from './SpendingPolicy';
+import {
+  EmergencyProposals,
+  EmergencyProposal,
+  ProposalStatus,
+  ProposalNotFoundError,
+  ProposalStateError,
+  ProposalSignatureError,
+  ProposalPendingError,
+  ProposalRejectedError,
+  emergencyReleaseTypedData
+} from './EmergencyProposals';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from './MetricsRegistry';
+import { auditTrail } from './AuditTrail';
+
+export interface BotControlServerConfig {
+  port: number;
+  host: string;
+  token: string;
+}
+
+const MAX_HISTORY_LIMIT = 500;
+const RECENT_EXECUTIONS = 10;
+const MAX_BODY_SIZE = 16 * 1024;
+
+// POST /sessions/:chainId/:sessionId/:action
+const SESSION_ACTION_PATH = /^\/sessions\/(\d+)\/(0x[0-9a-fA-F]{64})\/(resolve-dispute|recover|emergency-refund)$/;
+
+// POST /approvals/:id/(approve|reject)
+const APPROVAL_DECISION_PATH = /^\/approvals\/(approval_[0-9a-z_]+)\/(approve|reject)$/;
+const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'used', 'expired'];
+const OPERATOR_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// POST /emergency-proposals/:id/(approve|reject)
+const PROPOSAL_DECISION_PATH = /^\/emergency-proposals\/(proposal_[0-9a-z_]+)\/(approve|reject)$/;
+const PROPOSAL_STATUSES: ProposalStatus[] = ['pending', 'approved', 'rejected', 'executed', 'failed', 'expired'];
+const SIGNATURE = /^0x[0-9a-fA-F]{130}$/;
+
+const AUDIT_ANCHOR = /^(\d+):([0-9a-f]{64})$/;
+
+export class BotControlServer {
+  private bot: DailyPaymentBotV8;
+  private config: BotControlServerConfig;
+  private proposals: EmergencyProposals;
+  private server?: http.Server;
+
+  constructor(bot: DailyPaymentBotV8, config: BotControlServerConfig) {
+    if (!config.token) {
+      throw new Error('Bot control token is required');
+    }
+
+    this.bot = bot;
+    this.config = config;
+    this.proposals = bot.getEmergencyProposals();
+  }
+
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          console.error(`[BotControlServer] ${req.method} ${req.url} failed:`, error);
+          this.send(res, 500, { error: 'Internal error' });
+        });
+      });
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host, () => {
+        console.log(`[BotControlServer] Listening on ${this.config.host}:${this.config.port}`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      console.warn(`[BotControlServer] Rejected unauthenticated ${req.method} ${req.url}`);
+      return this.send(res, 401, { error: 'Unauthorized' });
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    const sessionAction = req.method === 'POST' ? SESSION_ACTION_PATH.exec(url.pathname) : null;
+    if (sessionAction) {
+      const [, chainId, sessionId, action] = sessionAction;
+      return this.handleSessionAction(Number(chainId), sessionId, action, await this.readBody(req), res);
+    }
+
+    const approvalDecision = req.method === 'POST' ? APPROVAL_DECISION_PATH.exec(url.pathname) : null;
+    if (approvalDecision) {
+      const [, id, decision] = approvalDecision;
+      return this.handleApprovalDecision(id, decision, await this.readBody(req), res);
+    }
+
+    const proposalDecision = req.method === 'POST' ? PROPOSAL_DECISION_PATH.exec(url.pathname) : null;
+    if (proposalDecision) {
+      const [, id, decision] = proposalDecision;
+      return this.handleProposalDecision(id, decision, await this.readBody(req), res);
+    }
+
+    try {
+      switch (route) {
+        case 'GET /status':
+          return this.send(res, 200, {
+            status: this.bot.getSchedulerStatus(),
+            health: this.bot.getHealthInfo(),
+            execution: {
+              ...this.bot.getExecutionSummary(),
+              recentExecutions: this.bot.getExecutionHistory(RECENT_EXECUTIONS)
+            },
+            metrics: this.bot.getMetrics()
+          });
+
+        // Prometheus scrape of the bot process (the backend's /metrics includes it)
+        case 'GET /metrics':
+          res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+          res.end(await metrics.render());
+          return;
+
+        case 'GET /history': {
+          const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), MAX_HISTORY_LIMIT);
+          return this.send(res, 200, { executions: this.bot.getExecutionHistory(limit) });
+        }
+
+        case 'POST /execute':
+          if (this.bot.isSchedulerPaused()) {
+            return this.send(res, 409, { error: 'Bot is paused' });
+          }
+          if (this.bot.isExecuting()) {
+            return this.send(res, 409, { error: 'Execution already in progress' });
+          }
+
+          // Runs can take minutes; callers poll /status (and /plans/latest for dry runs) for the result
+          const dryRun = url.searchParams.get('dryRun') === 'true' || this.bot.isDryRun();
+          console.log(`[BotControlServer] Manual ${dryRun ? 'dry run' : 'execution'} requested`);
+          this.bot.executeDaily(true, dryRun).catch(error => {
+            console.error('[BotControlServer] Manual execution failed:', error);
+          });
+          return this.send(res, 202, { started: true, status: this.bot.getSchedulerStatus() });
+
+        case 'GET /plans/latest': {
+          const plan = this.bot.getLastPlan();
+          if (!plan) {
+            return this.send(res, 404, { error: 'No dry run has been made yet' });
+          }
+          return this.send(res, 200, { plan });
+        }
+
+        case 'POST /pause':
+          this.bot.pauseScheduler();
+          return this.send(res, 200, { status: this.bot.getSchedulerStatus() });
+
+        case 'POST /resume':
+          this.bot.resumeScheduler();
+          return this.send(res, 200, { status: this.bot.getSchedulerStatus() });
+
+        // Spending policy approval requests from every bot sharing the policy state
+        case 'GET /approvals': {
+          const status = url.searchParams.get('status') as ApprovalStatus | null;
+          if (status && !APPROVAL_STATUSES.includes(status)) {
+            return this.send(res, 400, { error: `status must be one of ${APPROVAL_STATUSES.join(', ')}` });
+          }
+          return this.send(res, 200, { approvals: this.bot.getSpendingPolicy().getApprovals(status || undefined) });
+        }
+
+        // Emergency releases waiting for (or signed by) the approvers, with the message to sign
+        case 'GET /emergency-proposals': {
+          const status = url.searchParams.get('status') as ProposalStatus | null;
+          if (status && !PROPOSAL_STATUSES.includes(status)) {
+            return this.send(res, 400, { error: `status must be one of ${PROPOSAL_STATUSES.join(', ')}` });
+          }
+          return this.send(res, 200, {
+            ...this.proposals.getApprovers(),
+            proposals: this.proposals.getProposals(status || undefined).map(proposal => this.withTypedData(proposal))
+          });
+        }
+
+        // The audit trail as written (one JSON entry per line), for auditors to verify offline
+        case 'GET /audit-trail':
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          res.end(auditTrail.export());
+          return;
+
+        case 'GET /audit-trail/verify': {
+          const anchor = url.searchParams.get('anchor');
+          const match = anchor ? AUDIT_ANCHOR.exec(anchor) : null;
+          if (anchor && !match) {
+            return this.send(res, 400, { error: 'anchor must be <seq>:<hash>' });
+          }
+          return this.send(res, 200, auditTrail.verify(match ? { seq: Number(match[1]), hash: match[2] } : undefined));
+        }
+
+        default:
+          return this.send(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error(`[BotControlServer] ${route} failed:`, error);
+      return this.send(res, 500, { error: 'Internal error' });
+    }
+  }
+
+  /**
+   * Owner-only escrow calls. Reverts and unknown chains are reported as 422 with the reason,
+   * sessions a bot run is currently acting on as 409 and spending policy violations as 403.
+   * Above the approval threshold nothing is sent: 202 with the approval request. An emergency
+   * refund waits for its emergency proposal the same way (202 with the proposal, 409 once rejected).
+   */
+  private async handleSessionAction(
+    chainId: number,
+    sessionId: string,
+    action: string,
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+  ): Promise<void> {
+    let transactionHash: string;
+    const requestedBy = typeof body.requestedBy === 'string' && OPERATOR_ADDRESS.test(body.requestedBy) ? body.requestedBy : undefined;
+
+    try {
+      switch (action) {
+        case 'resolve-dispute': {
+          const resolution = body.resolution === 'Completed' ? SessionStatus.Completed
+            : body.resolution === 'Cancelled' ? SessionStatus.Cancelled
+            : null;
+          if (resolution === null) {
+            return this.send(res, 400, { error: 'resolution must be Completed or Cancelled' });
+          }
+          transactionHash = await this.bot.resolveDispute(chainId, sessionId, resolution, requestedBy);
+          break;
+        }
+
+        case 'recover':
+          transactionHash = await this.bot.executeRecovery(chainId, sessionId, requestedBy);
+          break;
+
+        default: {
+          if (typeof body.reason !== 'string' || !body.reason.trim()) {
+            return this.send(res, 400, { error: 'reason is required' });
+          }
+          transactionHash = await this.bot.emergencyRefund(chainId, sessionId, body.reason.trim(), requestedBy);
+        }
+      }
+    } catch (error) {
+      if (error instanceof SessionClaimedError) {
+        return this.send(res, 409, { error: error.message });
+      }
+      if (error instanceof ApprovalRequiredError) {
+        return this.send(res, 202, { approvalRequired: true, approval: error.approval });
+      }
+      if (error instanceof ProposalPendingError) {
+        return this.send(res, 202, { approvalRequired: true, proposal: this.withTypedData(error.proposal) });
+      }
+      if (error instanceof ProposalRejectedError) {
+        return this.send(res, 409, { error: error.message });
+      }
+      if (error instanceof PolicyViolationError) {
+        return this.send(res, 403, { error: error.message, rule: error.rule });
+      }
+      const reason = (error as { shortMessage?: string }).shortMessage || (error instanceof Error ? error.message : String(error));
+      console.error(`[BotControlServer] ${action} for ${sessionId} on chain ${chainId} failed: ${reason}`);
+      return this.send(res, 422, { error: reason });
+    }
+
+    return this.send(res, 200, { transactionHash });
+  }
+
+  /**
+   * An operator's decision on an approval request. The operator must not be the one who
+   * requested the action (409).
+   */
+  private async handleApprovalDecision(
+    id: string,
+    decision: string,
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (typeof body.operator !== 'string' || !OPERATOR_ADDRESS.test(body.operator)) {
+      return this.send(res, 400, { error: 'operator must be the deciding operator\'s address' });
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+
+    try {
+      const policy = this.bot.getSpendingPolicy();
+      const approval = decision === 'approve'
+        ? await policy.approve(id, body.operator, note)
+        : await policy.reject(id, body.operator, note);
+      return this.send(res, 200, { approval });
+    } catch (error) {
+      if (error instanceof ApprovalNotFoundError) {
+        return this.send(res, 404, { error: error.message });
+      }
+      if (error instanceof ApprovalStateError) {
+        return this.send(res, 409, { error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * An approver's EIP-712 signature on an emergency proposal, or their rejection of it.
+   * Signatures that are not from the operator (or not from an approver) are refused with 400.
+   */
+  private async handleProposalDecision(
+    id: string,
+    decision: string,
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (typeof body.operator !== 'string' || !OPERATOR_ADDRESS.test(body.operator)) {
+      return this.send(res, 400, { error: 'operator must be the deciding operator\'s address' });
+    }
+    if (decision === 'approve' && (typeof body.signature !== 'string' || !SIGNATURE.test(body.signature))) {
+      return this.send(res, 400, { error: 'signature must be the operator\'s EIP-712 signature of the proposal' });
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+
+    try {
+      const proposal = decision === 'approve'
+        ? await this.proposals.sign(id, body.operator, body.signature as string)
+        : await this.proposals.reject(id, body.operator, note);
+      return this.send(res, 200, { proposal: this.withTypedData(proposal) });
+    } catch (error) {
+      if (error instanceof ProposalNotFoundError) {
+        return this.send(res, 404, { error: error.message });
+      }
+      if (error instanceof ProposalStateError) {
+        return this.send(res, 409, { error: error.message });
+      }
+      if (error instanceof ProposalSignatureError) {
+        return this.send(res, 400, { error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  private withTypedData(proposal: EmergencyProposal) {
+    return { ...proposal, typedData: emergencyReleaseTypedData(proposal) };
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => {
+        raw += chunk.toString();
+        if (raw.length > MAX_BODY_SIZE) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => {
+        try {
+          const parsed = raw ? JSON.parse(raw) : {};
+          resolve(parsed && typeof parsed === 'object' ? parsed : {});
+        } catch {
+          resolve({});
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    if (!header.startsWith('Bearer ')) return false;
+
+    const provided = Buffer.from(header.slice('Bearer '.length));
+    const expected = Buffer.from(this.config.token);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+  }
+}
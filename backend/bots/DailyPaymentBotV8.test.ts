@@ -0,0 +1,208 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { DailyPaymentBotV8 } from './DailyPaymentBotV8';
+import { BotConfigV8, ChainConfigV8, PendingPaymentV8, ProcessingMethod } from './V8Types';
+
+const ESCROW_V8 = '0x00000000000000000000000000000000000000e8';
+const escrow = new ethers.Interface([
+  'function autoCompleteSession(bytes32 sessionId) external',
+  'function processNoShowRefund(bytes32 sessionId) external',
+  'event SessionCreated(bytes32 indexed sessionId, address indexed student, address indexed mentor, uint256 totalAmount, address paymentToken, uint256 sessionDuration, uint256 scheduledTime)'
+]);
+
+const method = (functionName: 'autoCompleteSession' | 'processNoShowRefund', sessionId: string): ProcessingMethod => ({
+  method: functionName === 'autoCompleteSession' ? 'autoComplete' : 'processNoShow',
+  functionName,
+  parameters: [sessionId],
+  gasLimit: BigInt(300000),
+  description: functionName
+});
+
+const payment = (label: string, amount: bigint): PendingPaymentV8 => {
+  const sessionId = ethers.id(label);
+  return {
+    sessionId,
+    chainId: 31337,
+    chainName: 'Local',
+    amount,
+    sessionType: 'v8',
+    healthStatus: { healthy: true, details: 'ok', sessionId, lastChecked: 0, issues: [], recoveryRecommended: false },
+    processingStrategy: {
+      primary: method('autoCompleteSession', sessionId),
+      fallbacks: [method('processNoShowRefund', sessionId)],
+      requiresAdmin: false,
+      estimated: { successRate: 0.9, processingTime: 30, gasEstimate: BigInt(300000) }
+    }
+  };
+};
+
+const botConfig = (dir: string, overrides: Partial<BotConfigV8> = {}) => ({
+  name: 'DailyPaymentBotV8',
+  version: '8.0.0',
+  environment: 'test',
+  enabled: true,
+  privateKey: ethers.Wallet.createRandom().privateKey,
+  cronSchedule: '0 0 * * *',
+  discordWebhookUrl: '',
+  enableDiscordNotifications: false,
+  sessionStoragePath: path.join(dir, 'session-tracker.json'),
+  executionHistoryPath: path.join(dir, 'execution-history.json'),
+  processingLedgerPath: path.join(dir, 'ledger.json'),
+  ...overrides
+}) as BotConfigV8;
+
+const localChain = (overrides: Partial<ChainConfigV8> = {}) => ({
+  chainId: 31337,
+  name: 'Local',
+  rpcUrl: 'http://127.0.0.1:8545',
+  contractAddress: ethers.ZeroAddress,
+  contractAddressV8: ESCROW_V8,
+  v8Enabled: true,
+  migrationMode: 'v8-only',
+  rpcSettings: { timeout: 1000, retries: 0, fallbackRpcs: [] },
+  ...overrides
+}) as ChainConfigV8;
+
+describe('DailyPaymentBotV8 dry run', () => {
+  let dir: string;
+  let bot: DailyPaymentBotV8;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-payment-bot-'));
+    process.env.EMERGENCY_PROPOSALS_PATH = path.join(dir, 'emergency-proposals.json');
+    process.env.SPENDING_POLICY_STATE_PATH = path.join(dir, 'spending-policy-state.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    bot = new DailyPaymentBotV8(botConfig(dir, { dryRun: true }), [localChain()]);
+
+    // Sessions labelled "not-ready" revert on autoComplete, "stuck" on every method
+    const reverts = (tx: ethers.TransactionRequest) => {
+      const { name, args } = escrow.parseTransaction({ data: String(tx.data) })!;
+      return args[0] === ethers.id('stuck') || (name === 'autoCompleteSession' && args[0] === ethers.id('not-ready'));
+    };
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'call').mockImplementation(async tx => {
+      if (reverts(tx)) throw Object.assign(new Error('execution reverted'), { reason: 'Session not ready' });
+      return '0x';
+    });
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'estimateGas').mockResolvedValue(BigInt(100000));
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData').mockResolvedValue(new ethers.FeeData(BigInt(2), null, null));
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'broadcastTransaction');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.EMERGENCY_PROPOSALS_PATH;
+    delete process.env.SPENDING_POLICY_STATE_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('plans the first method that would succeed and skips the rest', async () => {
+    const plan = await bot.planPayments([payment('ready', BigInt(1000)), payment('not-ready', BigInt(500))]);
+
+    expect(plan.entries[0]).toMatchObject({
+      chosenMethod: 'autoCompleteSession',
+      methods: [{ outcome: 'success', gasEstimate: '100000', estimatedCost: '200000' }, { outcome: 'skipped' }]
+    });
+    expect(plan.entries[1]).toMatchObject({
+      chosenMethod: 'processNoShowRefund',
+      methods: [{ outcome: 'reverted', error: 'Session not ready' }, { outcome: 'success' }]
+    });
+    expect(plan).toMatchObject({ executable: 2, failing: 0, totalAmount: '1500', totalGasEstimate: '200000' });
+  });
+
+  it('reports a session every method reverts for and never broadcasts', async () => {
+    const plan = await bot.planPayments([payment('ready', BigInt(1000)), payment('stuck', BigInt(700))]);
+
+    expect(plan.entries[1]).toMatchObject({ chosenMethod: null, methods: [{ outcome: 'reverted' }, { outcome: 'reverted' }] });
+    expect(plan).toMatchObject({ executable: 1, failing: 1, totalAmount: '1000' });
+    expect(bot.getLastPlan()).toBe(plan);
+    expect(ethers.JsonRpcProvider.prototype.broadcastTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('DailyPaymentBotV8 session discovery', () => {
+  const STUDENT = '0x0000000000000000000000000000000000000051';
+  const MENTOR = '0x00000000000000000000000000000000000000a1';
+  const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+  // Largest block range the stubbed RPC answers a log query for
+  const RPC_LOG_LIMIT = 500;
+
+  let dir: string;
+  let head: number;
+  let queried: Array<[number, number]>;
+
+  const sessionCreated = (label: string, blockNumber: number) => {
+    const { topics, data } = escrow.encodeEventLog('SessionCreated', [ethers.id(label), STUDENT, MENTOR, 1000000, USDC, 3600, 0]);
+    return {
+      address: ESCROW_V8,
+      topics,
+      data,
+      blockNumber,
+      blockHash: ethers.id(`block-${blockNumber}`),
+      transactionHash: ethers.id(label),
+      index: 0,
+      transactionIndex: 0,
+      removed: false
+    };
+  };
+  const created = [sessionCreated('early', 1200), sessionCreated('late', 4800)];
+
+  const newBot = () => new DailyPaymentBotV8(botConfig(dir, { logChunkSize: 2000 }), [localChain({ deploymentBlocks: { v8: 1000 } })]);
+  const trackerFile = () => JSON.parse(fs.readFileSync(path.join(dir, 'session-tracker.json'), 'utf8'));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-payment-bot-'));
+    process.env.EMERGENCY_PROPOSALS_PATH = path.join(dir, 'emergency-proposals.json');
+    process.env.SPENDING_POLICY_STATE_PATH = path.join(dir, 'spending-policy-state.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    head = 5000;
+    queried = [];
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => head);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlock').mockImplementation(async block => ({ timestamp: 1700000000 + Number(block) * 2 }) as ethers.Block);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getLogs').mockImplementation(async filter => {
+      const fromBlock = Number((filter as ethers.Filter).fromBlock);
+      const toBlock = Number((filter as ethers.Filter).toBlock);
+      if (toBlock - fromBlock + 1 > RPC_LOG_LIMIT) throw new Error('query exceeds max block range');
+      queried.push([fromBlock, toBlock]);
+      return created.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock) as unknown as ethers.Log[];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.EMERGENCY_PROPOSALS_PATH;
+    delete process.env.SPENDING_POLICY_STATE_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('back-fills from the deployment block in chunks the RPC accepts and dates sessions by their block', async () => {
+    await newBot().backfillSessions();
+
+    expect(queried[0]).toEqual([1000, 1499]);
+    expect(queried[queried.length - 1][1]).toBe(5000);
+    expect(queried.every(([from, to], i) => i === 0 || from === queried[i - 1][1] + 1)).toBe(true);
+
+    const saved = trackerFile();
+    expect(saved.sessions.map((session: { sessionId: string; createdAt: number }) => [session.sessionId, session.createdAt])).toEqual([
+      [ethers.id('early'), (1700000000 + 1200 * 2) * 1000],
+      [ethers.id('late'), (1700000000 + 4800 * 2) * 1000]
+    ]);
+    expect(saved.cursors).toEqual([expect.objectContaining({ chainId: 31337, contractVersion: 'v8', lastScannedBlock: 5000 })]);
+  });
+
+  it('resumes after a restart from the block after the saved cursor', async () => {
+    await newBot().backfillSessions();
+    queried = [];
+    head = 5100;
+
+    await newBot().backfillSessions();
+
+    expect(queried).toEqual([[5001, 5100]]);
+    expect(trackerFile().cursors[0].lastScannedBlock).toBe(5100);
+  });
+});
@@ -13,30 +13,90 @@
 
 import { ethers } from 'ethers';
 import cron from 'node-cron';
+import fs from 'fs';
+import path from 'path';
 import { 
   BotConfigV8, 
   ChainConfigV8, 
   PendingPaymentV8, 
   SessionStatus, 
-  RefundType,
   ProgressiveSessionV8,
   SessionHealthInfo,
-  ProcessingStrategy,
   ProcessingMethod,
   BotMetricsV8,
   SessionEventV8,
-  SessionEventType
+  SessionEventType,
+  ExecutionRecordV8,
+  SchedulerStatusV8,
+  SimulatedMethodV8,
+  DryRunPlanEntryV8,
+  DryRunPlanV8
 } from './V8Types';
 import { DiscordNotifier } from './DiscordNotifier';
+import { NotificationRouter, NotificationSeverity, createNotificationRouterFromEnv } from './notifications/NotificationRouter';
 import { SessionTracker } from './SessionTracker';
+import { ExecutionHistory } from './ExecutionHistory';
+import { IndexerClient, IndexedSession } from './IndexerClient';
+import { FailoverRpcProvider, RpcCrossCheckError, getRpcProvider } from './RpcProvider';
+import { TransactionManager, ManagedTransaction, getTransactionManager } from './TransactionManager';
+import { ProcessingLedger, ActionIntent, SessionClaimedError } from './ProcessingLedger';
+import { SpendingPolicy, PolicyViolationError, ApprovalRequiredError } from './SpendingPolicy';
+import { EmergencyProposals, EmergencyProposal } from './EmergencyProposals';
+import { metrics } from './MetricsRegistry';
+import { parseSessionV8, selectProcessingStrategyV8 } from './ProcessingStrategyV8';
+
+// Indexed sessions the bot may still have to settle
+const OPEN_INDEXED_STATUSES: IndexedSession['status'][] = ['CREATED', 'ACTIVE', 'PAUSED', 'COMPLETED', 'DISPUTED'];
+
+// SessionCreated log scanning: lookback on first run (without a deployment block) and chunk bounds
+const INITIAL_SCAN_LOOKBACK = 10000;
+const DEFAULT_LOG_CHUNK_SIZE = 2000;
+const MIN_LOG_CHUNK_SIZE = 10;
+const LOG_CHUNK_GROWTH_AFTER = 5; // successful queries in a row before the chunk size doubles again
+
+type ContractVersion = 'v7' | 'v8';
+
+type ErrorCategory = keyof BotMetricsV8['errorMetrics'];
+
+// Prometheus metrics, served by BotControlServer at GET /metrics
+const paymentsTotal = metrics.counter('chain_academy_bot_payments_total', 'Payments processed by the V8 bot by chain, method and result');
+const paymentDuration = metrics.histogram('chain_academy_bot_payment_duration_seconds', 'Time from claiming a session until its payment settled or failed');
+const botErrorsTotal = metrics.counter('chain_academy_bot_errors_total', 'Payment bot errors by category');
+const runsTotal = metrics.counter('chain_academy_bot_runs_total', 'Daily executions by result');
+const lastRunTimestamp = metrics.gauge('chain_academy_bot_last_run_timestamp_seconds', 'When the last daily execution finished');
+
+const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  bigIntSerializationErrors: 'bigint_serialization',
+  rpcTimeouts: 'rpc_timeout',
+  gasEstimationFailures: 'gas_estimation',
+  contractReverts: 'contract_revert',
+  networkErrors: 'network'
+};
+
+// A payment's transaction in flight: which strategy method was sent, and its key in the chain's TransactionManager
+interface PaymentSubmission {
+  methodIndex: number;
+  transaction: ManagedTransaction;
+  chainConfig: ChainConfigV8;
+}
 
 export class DailyPaymentBotV8 {
   private config: BotConfigV8;
   private chainConfigs: ChainConfigV8[];
   private discord: DiscordNotifier;
+  private notifications: NotificationRouter;
   private sessionTracker: SessionTracker;
+  private ledger: ProcessingLedger;
+  private spendingPolicy: SpendingPolicy;
+  private proposals: EmergencyProposals;
+  private indexer?: IndexerClient;
+  private executionHistory: ExecutionHistory;
   private isRunning: boolean = false;
-  private metrics: BotMetricsV8;
+  private isPaused: boolean = false;
+  private lastPlan: DryRunPlanV8 | null = null;
+  private txManagers: Map<number, TransactionManager> = new Map();
+  private readonly startedAt: number = Date.now();
+  private metrics!: BotMetricsV8; // set in initializeMetrics()
   private cronJob?: cron.ScheduledTask;
 
   // V8: Enhanced ABI with all new functions
@@ -52,6 +112,7 @@ export class DailyPaymentBotV8 {
     'function processPartialRefund(bytes32 sessionId, uint256 completionPercentage) external',
     'function processEmergencyRefund(bytes32 sessionId, string calldata reason) external',
     'function executeAutoRecovery(bytes32 sessionId) external',
+    'function resolveDispute(bytes32 sessionId, uint8 resolution) external',
     
     // V8: Enhanced monitoring
     'function version() external pure returns (string memory)',
@@ -70,7 +131,8 @@ export class DailyPaymentBotV8 {
   private readonly V7_ABI = [
     'function getSession(bytes32 sessionId) external view returns (tuple(bytes32 sessionId, address student, address mentor, address paymentToken, uint256 totalAmount, uint256 releasedAmount, uint256 sessionDuration, uint256 startTime, uint8 status, bool isActive, bool surveyCompleted))',
     'function getAvailablePayment(bytes32 sessionId) external view returns (uint256)',
-    'function autoCompleteSession(bytes32 sessionId) external'
+    'function autoCompleteSession(bytes32 sessionId) external',
+    'event SessionCreated(bytes32 indexed sessionId, address indexed student, address indexed mentor, uint256 amount, address token)'
   ];
 
   constructor(config: BotConfigV8, chainConfigs: ChainConfigV8[]) {
@@ -83,7 +145,15 @@ export class DailyPaymentBotV8 {
       retryDelay: 1000,
       enabled: config.enableDiscordNotifications
     });
+    this.notifications = createNotificationRouterFromEnv(this.discord);
     this.sessionTracker = new SessionTracker(config.sessionStoragePath || './data/session-tracker-v8.json');
+    this.executionHistory = new ExecutionHistory(config.executionHistoryPath || './data/execution-history-v8.json');
+    this.ledger = new ProcessingLedger('DailyPaymentBotV8', config.processingLedgerPath);
+    this.spendingPolicy = new SpendingPolicy('DailyPaymentBotV8', config.spendingPolicyFile);
+    this.proposals = new EmergencyProposals();
+    if (config.indexerApiUrl) {
+      this.indexer = new IndexerClient(config.indexerApiUrl);
+    }
     
     this.initializeMetrics();
     this.logBotInitialization();
@@ -150,7 +220,7 @@ export class DailyPaymentBotV8 {
         allPendingPayments.push(...chainPayments);
       } catch (error) {
         console.error(`[DailyPaymentBotV8] Error scanning chain ${chainConfig.name}:`, error);
-        this.metrics.errorMetrics.networkErrors++;
+        this.countError('networkErrors');
         await this.discord.notifyError(
           `Chain scanning error on ${chainConfig.name}`,
           error instanceof Error ? error.message : 'Unknown error'
@@ -163,33 +233,47 @@ export class DailyPaymentBotV8 {
   }
 
   private async scanChainV8(chainConfig: ChainConfigV8): Promise<PendingPaymentV8[]> {
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+    const provider = this.getChainProvider(chainConfig);
     const pendingPayments: PendingPaymentV8[] = [];
 
     // V8: Support dual mode during migration
-    if (chainConfig.migrationMode === 'dual-support') {
+    const versions = this.getContractVersions(chainConfig);
+    if (versions.includes('v7')) {
       const v7Payments = await this.scanV7Sessions(chainConfig, provider);
-      const v8Payments = await this.scanV8Sessions(chainConfig, provider);
-      pendingPayments.push(...v7Payments, ...v8Payments);
-    } else if (chainConfig.migrationMode === 'v8-only' && chainConfig.v8Enabled) {
+      pendingPayments.push(...v7Payments);
+    }
+    if (versions.includes('v8')) {
       const v8Payments = await this.scanV8Sessions(chainConfig, provider);
       pendingPayments.push(...v8Payments);
-    } else {
-      const v7Payments = await this.scanV7Sessions(chainConfig, provider);
-      pendingPayments.push(...v7Payments);
     }
 
     return pendingPayments;
   }
 
+  private getContractVersions(chainConfig: ChainConfigV8): ContractVersion[] {
+    if (chainConfig.migrationMode === 'dual-support') {
+      return ['v7', 'v8'];
+    }
+    if (chainConfig.migrationMode === 'v8-only' && chainConfig.v8Enabled) {
+      return ['v8'];
+    }
+    return ['v7'];
+  }
+
+  private getScanContract(chainConfig: ChainConfigV8, version: ContractVersion, provider: ethers.Provider): ethers.Contract {
+    return version === 'v8'
+      ? new ethers.Contract(chainConfig.contractAddressV8, this.V8_ABI, provider)
+      : new ethers.Contract(chainConfig.contractAddress, this.V7_ABI, provider);
+  }
+
   private async scanV8Sessions(chainConfig: ChainConfigV8, provider: ethers.Provider): Promise<PendingPaymentV8[]> {
-    const contract = new ethers.Contract(chainConfig.contractAddressV8, this.V8_ABI, provider);
+    const contract = this.getScanContract(chainConfig, 'v8', provider);
     const pendingPayments: PendingPaymentV8[] = [];
 
     console.log(`[DailyPaymentBotV8] Scanning V8 sessions on ${chainConfig.name}`);
 
     // V8: Enhanced session discovery
-    await this.updateSessionTrackerV8(chainConfig, contract);
+    await this.updateSessionTracker(chainConfig, contract, provider, 'v8');
 
     for (const [sessionId, trackedSession] of this.sessionTracker.sessions) {
       if (trackedSession.chainId !== chainConfig.chainId) continue;
@@ -199,7 +283,7 @@ export class DailyPaymentBotV8 {
         if (!sessionData) continue;
 
         const healthInfo = await this.checkSessionHealthV8(contract, sessionId);
-        const processingStrategy = this.determineProcessingStrategyV8(sessionData, healthInfo);
+        const { strategy: processingStrategy, refundType } = selectProcessingStrategyV8(sessionData, healthInfo);
 
         if (processingStrategy.primary.method !== 'none') {
           const pendingPayment: PendingPaymentV8 = {
@@ -207,10 +291,11 @@ export class DailyPaymentBotV8 {
             chainId: chainConfig.chainId,
             chainName: chainConfig.name,
             amount: sessionData.totalAmount - sessionData.releasedAmount,
+            tokenAddress: sessionData.paymentToken,
             sessionType: 'v8',
             healthStatus: healthInfo,
             processingStrategy,
-            refundType: this.determineRefundType(sessionData, healthInfo)
+            refundType
           };
 
           pendingPayments.push(pendingPayment);
@@ -218,7 +303,7 @@ export class DailyPaymentBotV8 {
 
       } catch (error) {
         console.error(`[DailyPaymentBotV8] Error processing session ${sessionId}:`, error);
-        this.metrics.errorMetrics.contractReverts++;
+        this.countError('contractReverts');
       }
     }
 
@@ -227,11 +312,13 @@ export class DailyPaymentBotV8 {
 
   private async scanV7Sessions(chainConfig: ChainConfigV8, provider: ethers.Provider): Promise<PendingPaymentV8[]> {
     // V7 compatibility scanning (simplified for migration support)
-    const contract = new ethers.Contract(chainConfig.contractAddress, this.V7_ABI, provider);
+    const contract = this.getScanContract(chainConfig, 'v7', provider);
     const pendingPayments: PendingPaymentV8[] = [];
 
     console.log(`[DailyPaymentBotV8] Scanning V7 sessions on ${chainConfig.name} (compatibility mode)`);
 
+    await this.updateSessionTracker(chainConfig, contract, provider, 'v7');
+
     for (const [sessionId, trackedSession] of this.sessionTracker.sessions) {
       if (trackedSession.chainId !== chainConfig.chainId) continue;
 
@@ -245,6 +332,7 @@ export class DailyPaymentBotV8 {
             chainId: chainConfig.chainId,
             chainName: chainConfig.name,
             amount: availablePayment,
+            tokenAddress: sessionData.paymentToken,
             sessionType: 'v7',
             healthStatus: {
               healthy: true,
@@ -289,35 +377,7 @@ export class DailyPaymentBotV8 {
     try {
       const sessionData = await contract.getSessionV8(sessionId);
       
-      // V8: Parse the enhanced session structure
-      return {
-        sessionId: sessionData.sessionId,
-        student: sessionData.student,
-        mentor: sessionData.mentor,
-        paymentToken: sessionData.paymentToken,
-        totalAmount: sessionData.totalAmount,
-        releasedAmount: sessionData.releasedAmount,
-        sessionDuration: Number(sessionData.sessionDuration),
-        createdAt: Number(sessionData.createdAt),
-        startTime: Number(sessionData.startTime),
-        lastHeartbeat: Number(sessionData.lastHeartbeat),
-        effectivePausedTime: Number(sessionData.effectivePausedTime),
-        lastActivityTime: Number(sessionData.lastActivityTime),
-        status: Number(sessionData.status) as SessionStatus,
-        isActive: sessionData.isActive,
-        isPaused: sessionData.isPaused,
-        surveyCompleted: sessionData.surveyCompleted,
-        stateTransitionCount: Number(sessionData.stateTransitionCount),
-        lastStateChange: Number(sessionData.lastStateChange),
-        emergencyLocked: sessionData.emergencyLocked,
-        disputeReason: Number(sessionData.disputeReason),
-        disputeCreatedAt: Number(sessionData.disputeCreatedAt),
-        disputeInitiator: sessionData.disputeInitiator,
-        arbitrationRequired: sessionData.arbitrationRequired,
-        recoveryAttempts: Number(sessionData.recoveryAttempts),
-        lastRecoveryAttempt: Number(sessionData.lastRecoveryAttempt),
-        autoRecoveryEnabled: sessionData.autoRecoveryEnabled
-      };
+      return parseSessionV8(sessionData);
 
     } catch (error) {
       console.error(`[DailyPaymentBotV8] Error getting V8 session data:`, error);
@@ -351,299 +411,769 @@ export class DailyPaymentBotV8 {
     }
   }
 
-  // ============ V8 PROCESSING STRATEGY ============
+  // ============ V8 ENHANCED PROCESSING ============
+
+  public async processPayments(pendingPayments: PendingPaymentV8[]): Promise<void> {
+    console.log(`[DailyPaymentBotV8] Processing ${pendingPayments.length} payments with V8 engine`);
 
-  private determineProcessingStrategyV8(sessionData: ProgressiveSessionV8, healthInfo: SessionHealthInfo): ProcessingStrategy {
-    const now = Math.floor(Date.now() / 1000);
-    const cutoffTime = now - (24 * 60 * 60); // 24 hours ago
+    // Send everything first so transactions are pipelined on consecutive nonces, then wait for them together
+    const submissions: { payment: PendingPaymentV8; intent: ActionIntent; submission: PaymentSubmission | null; startTime: number }[] = [];
+    for (const payment of pendingPayments) {
+      const startTime = Date.now();
+      let intent: ActionIntent | null = null;
 
-    // V8: Determine the best processing method based on session state
-    if (sessionData.status === SessionStatus.Created && sessionData.createdAt < cutoffTime) {
-      // No-show scenario
-      return {
-        primary: {
-          method: 'processNoShow',
-          functionName: 'processNoShowRefund',
-          parameters: [sessionData.sessionId],
-          gasLimit: BigInt(200000),
-          description: 'Process no-show refund'
-        },
-        fallbacks: [
-          {
-            method: 'autoComplete',
-            functionName: 'autoCompleteSession',
-            parameters: [sessionData.sessionId],
-            gasLimit: BigInt(200000),
-            description: 'Fallback auto-complete'
-          }
-        ],
-        requiresAdmin: false,
-        estimated: {
-          successRate: 0.98,
-          processingTime: 25000,
-          gasEstimate: BigInt(180000)
-        }
-      };
-    }
+      try {
+        // Skip sessions another run or bot is acting on, or has already settled
+        intent = await this.ledger.claim(payment.sessionId, payment.chainId, payment.processingStrategy.primary.functionName, payment.amount);
+        if (!intent) continue;
 
-    if (sessionData.status === SessionStatus.Disputed) {
-      // Dispute resolution needed
-      return {
-        primary: {
-          method: 'autoComplete',
-          functionName: 'autoCompleteSession',
-          parameters: [sessionData.sessionId],
-          gasLimit: BigInt(250000),
-          description: 'Auto-resolve expired dispute'
-        },
-        fallbacks: [],
-        requiresAdmin: true,
-        estimated: {
-          successRate: 0.90,
-          processingTime: 35000,
-          gasEstimate: BigInt(220000)
+        const submission = await this.submitPaymentV8(payment);
+        if (submission) {
+          await this.ledger.markSubmitted(intent.id, submission.transaction);
+        }
+        submissions.push({ payment, intent, submission, startTime });
+      } catch (error) {
+        if (error instanceof ApprovalRequiredError) {
+          // Nothing was sent; a later run sends it once an operator approves
+          if (intent) await this.ledger.release(intent.id).catch(() => undefined);
+          await this.notifyApprovalRequired(payment, error);
+          continue;
         }
-      };
-    }
 
-    if (!healthInfo.healthy && sessionData.autoRecoveryEnabled) {
-      // Auto-recovery scenario
-      return {
-        primary: {
-          method: 'autoComplete',
-          functionName: 'executeAutoRecovery',
-          parameters: [sessionData.sessionId],
-          gasLimit: BigInt(300000),
-          description: 'Execute auto-recovery'
-        },
-        fallbacks: [
-          {
-            method: 'processEmergency',
-            functionName: 'processEmergencyRefund',
-            parameters: [sessionData.sessionId, 'Auto-recovery triggered by bot'],
-            gasLimit: BigInt(250000),
-            description: 'Emergency refund as fallback'
-          }
-        ],
-        requiresAdmin: false,
-        estimated: {
-          successRate: 0.85,
-          processingTime: 40000,
-          gasEstimate: BigInt(280000)
+        console.error(`[DailyPaymentBotV8] Error processing payment ${payment.sessionId}:`, error);
+        this.metrics.failedPayments++;
+        this.recordPaymentMetrics(payment, 'failure', startTime);
+        this.recordError(error, payment);
+        if (intent) {
+          await this.ledger.fail(intent.id, error instanceof Error ? error.message : String(error)).catch(() => undefined);
         }
-      };
+      }
     }
 
-    // Standard processing for completed/active sessions
-    if (sessionData.status === SessionStatus.Active || sessionData.status === SessionStatus.Completed) {
-      return {
-        primary: {
-          method: 'autoComplete',
-          functionName: 'autoCompleteSession',
-          parameters: [sessionData.sessionId],
-          gasLimit: BigInt(200000),
-          description: 'Standard session completion'
-        },
-        fallbacks: [],
-        requiresAdmin: false,
-        estimated: {
-          successRate: 0.95,
-          processingTime: 30000,
-          gasEstimate: BigInt(150000)
+    await Promise.all(submissions.map(({ payment, intent, submission, startTime }) =>
+      this.settlePaymentV8(payment, intent, submission, startTime)
+    ));
+
+    this.metrics.lastExecutionTime = Date.now();
+    await this.sendMetricsReport();
+  }
+
+  private async settlePaymentV8(
+    payment: PendingPaymentV8,
+    intent: ActionIntent,
+    submission: PaymentSubmission | null,
+    startTime: number
+  ): Promise<void> {
+    try {
+      const transaction = submission ? await this.confirmPaymentV8(payment, submission) : null;
+      
+      if (transaction?.status === 'pending') {
+        // Still in flight: the claim stays until the next run reconciles it
+        await this.ledger.markSubmitted(intent.id, transaction);
+      } else if (transaction) {
+        await this.ledger.settle(intent.id, transaction.confirmedHash!);
+        this.metrics.successfulPayments++;
+        this.metrics.v8Metrics.sessionsProcessedV8++;
+        
+        // V8: Record success metrics by method
+        const method = payment.processingStrategy.primary.method;
+        if (!this.metrics.v8Metrics.successRateByMethod[method]) {
+          this.metrics.v8Metrics.successRateByMethod[method] = 0;
         }
-      };
-    }
+        this.metrics.v8Metrics.successRateByMethod[method]++;
+        this.recordPaymentMetrics(payment, 'success', startTime);
+
+        // V8: Enhanced Discord notification
+        await this.discord.notifyPaymentSuccess(
+          payment.sessionId,
+          'Processed', // We'll get mentor address from session data
+          payment.amount,
+          'Unknown', // We'll get token symbol from session data
+          payment.chainName,
+          transaction.confirmedHash!
+        );
 
-    // No processing needed
-    return {
-      primary: {
-        method: 'none',
-        functionName: 'none',
-        parameters: [],
-        gasLimit: BigInt(0),
-        description: 'No processing required'
-      },
-      fallbacks: [],
-      requiresAdmin: false,
-      estimated: {
-        successRate: 1.0,
-        processingTime: 0,
-        gasEstimate: BigInt(0)
+      } else {
+        await this.ledger.fail(intent.id, 'No processing method succeeded');
+        this.metrics.failedPayments++;
+        this.recordPaymentMetrics(payment, 'failure', startTime);
+        await this.discord.notifyError(
+          `Payment processing failed for session ${payment.sessionId}`,
+          `Failed to process ${payment.processingStrategy.primary.description}`
+        );
       }
-    };
+
+      // Update processing time metrics
+      const processingTime = Date.now() - startTime;
+      this.updateProcessingTimeMetrics(processingTime);
+
+    } catch (error) {
+      console.error(`[DailyPaymentBotV8] Error processing payment ${payment.sessionId}:`, error);
+      this.metrics.failedPayments++;
+      this.recordPaymentMetrics(payment, 'failure', startTime);
+      this.recordError(error, payment);
+    }
   }
 
-  private determineRefundType(sessionData: ProgressiveSessionV8, healthInfo: SessionHealthInfo): RefundType | undefined {
-    if (sessionData.status === SessionStatus.Created && !healthInfo.healthy) {
-      return RefundType.NoShow;
+  /**
+   * Send the first method of the strategy (primary, then fallbacks) that passes gas
+   * estimation, starting at fromIndex. Returns null if none can be sent.
+   */
+  private async submitPaymentV8(payment: PendingPaymentV8, fromIndex: number = 0): Promise<PaymentSubmission | null> {
+    const chainConfig = this.chainConfigs.find(c => c.chainId === payment.chainId);
+    if (!chainConfig) {
+      console.error(`[DailyPaymentBotV8] Chain config not found for ${payment.chainId}`);
+      return null;
     }
-    if (sessionData.status === SessionStatus.Disputed) {
-      return RefundType.Dispute;
+
+    const contract = this.getPaymentContract(chainConfig, payment);
+    const provider = this.getChainProvider(chainConfig);
+    if (fromIndex === 0 && provider.isCrossCheckEnabled()) {
+      await this.crossCheckPayment(provider, contract, payment);
     }
-    if (!healthInfo.healthy) {
-      return RefundType.Technical;
+
+    const methods = [payment.processingStrategy.primary, ...payment.processingStrategy.fallbacks];
+    for (let index = fromIndex; index < methods.length; index++) {
+      if (index > 0) {
+        console.log(`[DailyPaymentBotV8] Trying fallback method: ${methods[index].description}`);
+      }
+
+      const transaction = await this.tryProcessingMethod(chainConfig, contract, methods[index], payment);
+      if (transaction) {
+        return {
+          methodIndex: index,
+          transaction,
+          chainConfig
+        };
+      }
     }
-    return undefined;
+
+    return null;
   }
 
-  // ============ V8 ENHANCED PROCESSING ============
+  /**
+   * Wait for the submitted transaction; if it reverts or is dropped, move on to the
+   * next fallback. Returns the confirmed (or still pending) transaction, or null if
+   * every method failed.
+   */
+  private async confirmPaymentV8(payment: PendingPaymentV8, submission: PaymentSubmission): Promise<ManagedTransaction | null> {
+    let current: PaymentSubmission | null = submission;
+
+    while (current) {
+      const transaction = await this.getTransactionManager(current.chainConfig).wait(current.transaction.key);
+      if (transaction.status === 'confirmed') {
+        return transaction;
+      }
+      if (transaction.status === 'pending') {
+        // Still in flight; the next run resumes it rather than sending another one
+        console.warn(`[DailyPaymentBotV8] ${transaction.description} for ${payment.sessionId} not confirmed yet`);
+        return transaction;
+      }
 
-  public async processPayments(pendingPayments: PendingPaymentV8[]): Promise<void> {
-    console.log(`[DailyPaymentBotV8] Processing ${pendingPayments.length} payments with V8 engine`);
+      console.error(`[DailyPaymentBotV8] ${transaction.description} for ${payment.sessionId} ${transaction.status}: ${transaction.error}`);
+      current = await this.submitPaymentV8(payment, current.methodIndex + 1);
+    }
 
-    for (const payment of pendingPayments) {
-      const startTime = Date.now();
-      
-      try {
-        const success = await this.processPaymentV8(payment);
-        
-        if (success) {
-          this.metrics.successfulPayments++;
-          this.metrics.v8Metrics.sessionsProcessedV8++;
-          
-          // V8: Record success metrics by method
-          const method = payment.processingStrategy.primary.method;
-          if (!this.metrics.v8Metrics.successRateByMethod[method]) {
-            this.metrics.v8Metrics.successRateByMethod[method] = 0;
-          }
-          this.metrics.v8Metrics.successRateByMethod[method]++;
-
-          // V8: Enhanced Discord notification
-          await this.discord.notifyPaymentSuccess(
-            payment.sessionId,
-            'Processed', // We'll get mentor address from session data
-            payment.amount,
-            'Unknown', // We'll get token symbol from session data
-            payment.chainName,
-            'pending' // We'll get actual tx hash after processing
-          );
-
-        } else {
-          this.metrics.failedPayments++;
-          await this.discord.notifyError(
-            `Payment processing failed for session ${payment.sessionId}`,
-            `Failed to process ${payment.processingStrategy.primary.description}`
-          );
-        }
+    return null;
+  }
 
-        // Update processing time metrics
-        const processingTime = Date.now() - startTime;
-        this.updateProcessingTimeMetrics(processingTime);
+  /**
+   * Confirm a second RPC endpoint sees the same session status and available payment
+   * before sending anything for the session
+   */
+  private async crossCheckPayment(provider: FailoverRpcProvider, contract: ethers.Contract, payment: PendingPaymentV8): Promise<void> {
+    const getSession = payment.sessionType === 'v8' ? 'getSessionV8' : 'getSession';
 
-      } catch (error) {
-        console.error(`[DailyPaymentBotV8] Error processing payment ${payment.sessionId}:`, error);
-        this.metrics.failedPayments++;
-        this.recordError(error, payment);
+    try {
+      await provider.crossCheck(`session ${payment.sessionId}`, async (endpoint) => {
+        const reader = contract.connect(endpoint) as ethers.Contract;
+        const [session, availablePayment] = await Promise.all([
+          reader[getSession](payment.sessionId),
+          reader.getAvailablePayment(payment.sessionId)
+        ]);
+        return { status: Number(session.status), availablePayment };
+      });
+    } catch (error) {
+      this.countError('networkErrors');
+      if (error instanceof RpcCrossCheckError) {
+        await this.discord.notifyError(`RPC cross-check failed on ${payment.chainName}`, error.message);
       }
+      throw error;
     }
-
-    this.metrics.lastExecutionTime = Date.now();
-    await this.sendMetricsReport();
   }
 
-  private async processPaymentV8(payment: PendingPaymentV8): Promise<boolean> {
-    const chainConfig = this.chainConfigs.find(c => c.chainId === payment.chainId);
-    if (!chainConfig) {
-      console.error(`[DailyPaymentBotV8] Chain config not found for ${payment.chainId}`);
-      return false;
-    }
+  /**
+   * Shared failover provider for the chain (rpcUrl plus rpcSettings.fallbackRpcs)
+   */
+  private getChainProvider(chainConfig: ChainConfigV8): FailoverRpcProvider {
+    return getRpcProvider(chainConfig.chainId, chainConfig.rpcUrl, chainConfig.rpcSettings);
+  }
 
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+  /**
+   * Escrow contract for the payment's session type, connected to the bot wallet
+   */
+  private getPaymentContract(chainConfig: ChainConfigV8, payment: PendingPaymentV8): ethers.Contract {
+    const provider = this.getChainProvider(chainConfig);
     const wallet = new ethers.Wallet(this.config.privateKey, provider);
 
     // Use appropriate contract and ABI based on session type
     const contractAddress = payment.sessionType === 'v8' ? chainConfig.contractAddressV8 : chainConfig.contractAddress;
     const abi = payment.sessionType === 'v8' ? this.V8_ABI : this.V7_ABI;
-    const contract = new ethers.Contract(contractAddress, abi, wallet);
-
-    const strategy = payment.processingStrategy;
+    return new ethers.Contract(contractAddress, abi, wallet);
+  }
 
-    // Try primary method first
-    let success = await this.tryProcessingMethod(contract, strategy.primary, payment);
-    
-    // Try fallback methods if primary fails
-    if (!success && strategy.fallbacks.length > 0) {
-      for (const fallback of strategy.fallbacks) {
-        console.log(`[DailyPaymentBotV8] Trying fallback method: ${fallback.description}`);
-        success = await this.tryProcessingMethod(contract, fallback, payment);
-        if (success) break;
-      }
+  /**
+   * The bot wallet's transaction manager on the chain, so nonces, fee caps and in-flight
+   * transactions are shared by every payment and admin action (and every other bot using the wallet)
+   */
+  private getTransactionManager(chainConfig: ChainConfigV8): TransactionManager {
+    let manager = this.txManagers.get(chainConfig.chainId);
+    if (!manager) {
+      manager = getTransactionManager(new ethers.Wallet(this.config.privateKey, this.getChainProvider(chainConfig)), {
+        chainId: chainConfig.chainId,
+        storeDir: this.config.transactionStoreDir,
+        maxFeePerGas: chainConfig.maxFeePerGas,
+        maxPriorityFeePerGas: chainConfig.maxPriorityFeePerGas
+      }, this.spendingPolicy);
+      this.txManagers.set(chainConfig.chainId, manager);
     }
+    return manager;
+  }
 
-    return success;
+  /**
+   * Wait on transactions left pending by the previous run, then settle the ledger
+   * intents they (or a crash) left behind
+   */
+  private async resumePendingTransactions(): Promise<void> {
+    await Promise.all(this.chainConfigs.map(async chainConfig => {
+      try {
+        await this.getTransactionManager(chainConfig).resumePending();
+        await this.ledger.reconcile(chainConfig.chainId, this.getChainProvider(chainConfig));
+      } catch (error) {
+        console.error(`[DailyPaymentBotV8] Error resuming transactions on ${chainConfig.name}:`, error);
+      }
+    }));
   }
 
-  private async tryProcessingMethod(contract: ethers.Contract, method: ProcessingMethod, payment: PendingPaymentV8): Promise<boolean> {
+  private async tryProcessingMethod(
+    chainConfig: ChainConfigV8,
+    contract: ethers.Contract,
+    method: ProcessingMethod,
+    payment: PendingPaymentV8
+  ): Promise<ManagedTransaction | null> {
     try {
-      if (method.functionName === 'none') return true;
+      if (method.functionName === 'none') return null;
 
       console.log(`[DailyPaymentBotV8] Executing ${method.description} for session ${payment.sessionId}`);
 
-      // V8: Enhanced transaction with proper gas estimation
-      const gasEstimate = await contract[method.functionName].estimateGas(...method.parameters);
-      const gasLimit = gasEstimate + BigInt(50000); // Add buffer
-
-      const tx = await contract[method.functionName](...method.parameters, {
-        gasLimit: gasLimit
-      });
-
-      console.log(`[DailyPaymentBotV8] Transaction sent: ${tx.hash}`);
-      const receipt = await tx.wait();
-      
-      console.log(`[DailyPaymentBotV8] Transaction confirmed in block ${receipt.blockNumber}`);
-      return true;
+      // Keyed by session and method so a restart never sends the same call twice
+      return await this.getTransactionManager(chainConfig).send(
+        `${method.functionName}:${payment.sessionId}`,
+        contract,
+        method.functionName,
+        method.parameters,
+        method.description,
+        { sessionId: payment.sessionId, token: payment.tokenAddress, amount: payment.amount },
+        this.spendingPolicy
+      );
 
     } catch (error: any) {
+      // Fallbacks move the same funds, so they are not tried either
+      if (error instanceof PolicyViolationError || error instanceof ApprovalRequiredError) {
+        throw error;
+      }
+
       console.error(`[DailyPaymentBotV8] Method ${method.functionName} failed:`, error.reason || error.message);
       
       // V8: Enhanced error classification
       if (error.reason) {
         if (error.reason.includes('Not eligible')) {
-          this.metrics.errorMetrics.contractReverts++;
+          this.countError('contractReverts');
         } else if (error.reason.includes('gas')) {
-          this.metrics.errorMetrics.gasEstimationFailures++;
+          this.countError('gasEstimationFailures');
         }
       } else if (error.message?.includes('timeout')) {
-        this.metrics.errorMetrics.rpcTimeouts++;
+        this.countError('rpcTimeouts');
       }
 
-      return false;
+      return null;
     }
   }
 
+  // ============ V8 DRY RUN ============
+
+  /**
+   * Simulate what processPayments would do: each strategy's primary method, then its
+   * fallbacks, is run as eth_call + estimateGas from the bot wallet. Nothing is broadcast.
+   */
+  public async planPayments(pendingPayments: PendingPaymentV8[]): Promise<DryRunPlanV8> {
+    console.log(`[DailyPaymentBotV8] Simulating ${pendingPayments.length} payments (dry run)`);
+
+    const entries: DryRunPlanEntryV8[] = [];
+    for (const payment of pendingPayments) {
+      entries.push(await this.simulatePaymentV8(payment));
+    }
+
+    const createdAt = new Date();
+    const executable = entries.filter(e => e.chosenMethod !== null);
+    const chosenMethods = executable.map(entry => entry.methods.find(m => m.outcome === 'success'));
+    const sum = (values: Array<string | null | undefined>) => values.reduce((total, value) => total + BigInt(value ?? 0), BigInt(0));
+
+    const plan: DryRunPlanV8 = {
+      id: `plan_${createdAt.getTime()}`,
+      createdAt: createdAt.toISOString(),
+      botAddress: new ethers.Wallet(this.config.privateKey).address,
+      totalSessions: entries.length,
+      executable: executable.length,
+      failing: entries.length - executable.length,
+      totalAmount: sum(executable.map(entry => entry.predictedAmount)).toString(),
+      totalGasEstimate: sum(chosenMethods.map(method => method?.gasEstimate)).toString(),
+      totalEstimatedCost: sum(chosenMethods.map(method => method?.estimatedCost)).toString(),
+      entries
+    };
+
+    this.lastPlan = plan;
+    return plan;
+  }
+
+  private async simulatePaymentV8(payment: PendingPaymentV8): Promise<DryRunPlanEntryV8> {
+    const strategy = payment.processingStrategy;
+    const entry: DryRunPlanEntryV8 = {
+      sessionId: payment.sessionId,
+      chainId: payment.chainId,
+      chainName: payment.chainName,
+      sessionType: payment.sessionType,
+      predictedAmount: payment.amount.toString(),
+      refundType: payment.refundType ?? null,
+      healthy: payment.healthStatus.healthy,
+      requiresAdmin: strategy.requiresAdmin,
+      chosenMethod: null,
+      methods: []
+    };
+
+    const chainConfig = this.chainConfigs.find(c => c.chainId === payment.chainId);
+    const contract = chainConfig ? this.getPaymentContract(chainConfig, payment) : null;
+    const gasPrice = contract ? await this.getGasPrice(contract) : null;
+
+    for (const method of [strategy.primary, ...strategy.fallbacks]) {
+      let result: SimulatedMethodV8;
+
+      if (entry.chosenMethod) {
+        // A real run stops at the first method that succeeds
+        result = this.simulationResult(method, 'skipped');
+      } else if (!contract) {
+        result = this.simulationResult(method, 'reverted', { error: `Chain config not found for ${payment.chainId}` });
+      } else {
+        result = await this.simulateProcessingMethod(contract, method, gasPrice);
+      }
+
+      if (result.outcome === 'success' && !entry.chosenMethod) {
+        entry.chosenMethod = method.functionName;
+      }
+      entry.methods.push(result);
+    }
+
+    return entry;
+  }
+
+  private async simulateProcessingMethod(
+    contract: ethers.Contract,
+    method: ProcessingMethod,
+    gasPrice: bigint | null
+  ): Promise<SimulatedMethodV8> {
+    if (method.functionName === 'none') {
+      return this.simulationResult(method, 'success', { gasEstimate: '0', estimatedCost: '0' });
+    }
+
+    try {
+      await contract[method.functionName].staticCall(...method.parameters);
+      const gasEstimate: bigint = await contract[method.functionName].estimateGas(...method.parameters);
+
+      return this.simulationResult(method, 'success', {
+        gasEstimate: gasEstimate.toString(),
+        estimatedCost: gasPrice !== null ? (gasEstimate * gasPrice).toString() : null
+      });
+
+    } catch (error: any) {
+      return this.simulationResult(method, 'reverted', {
+        error: error.reason || error.shortMessage || error.message || 'Unknown error'
+      });
+    }
+  }
+
+  private simulationResult(
+    method: ProcessingMethod,
+    outcome: SimulatedMethodV8['outcome'],
+    details: Partial<Pick<SimulatedMethodV8, 'gasEstimate' | 'estimatedCost' | 'error'>> = {}
+  ): SimulatedMethodV8 {
+    return {
+      method: method.method,
+      functionName: method.functionName,
+      description: method.description,
+      outcome,
+      gasEstimate: details.gasEstimate ?? null,
+      estimatedCost: details.estimatedCost ?? null,
+      error: details.error ?? null
+    };
+  }
+
+  private async getGasPrice(contract: ethers.Contract): Promise<bigint | null> {
+    try {
+      const feeData = await contract.runner!.provider!.getFeeData();
+      return feeData.gasPrice;
+    } catch (error) {
+      console.error(`[DailyPaymentBotV8] Could not fetch gas price for dry run:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the plan next to the other bot data and return its path
+   */
+  private savePlan(plan: DryRunPlanV8): string {
+    const dir = this.config.dryRunPlanDir || './data/dry-run-plans';
+    const filePath = path.join(dir, `dry-run-${plan.id}.json`);
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(plan, null, 2));
+    console.log(`[DailyPaymentBotV8] Dry-run plan written to ${filePath}`);
+    return filePath;
+  }
+
+  public getLastPlan(): DryRunPlanV8 | null {
+    return this.lastPlan;
+  }
+
   // ============ V8 SESSION TRACKER UPDATES ============
 
-  private async updateSessionTrackerV8(chainConfig: ChainConfigV8, contract: ethers.Contract): Promise<void> {
+  /**
+   * Bring session discovery up to date on every chain. Run on startup so sessions created
+   * while the bot was down are tracked before the first payment run.
+   */
+  public async backfillSessions(): Promise<void> {
+    for (const chainConfig of this.chainConfigs) {
+      const provider = this.getChainProvider(chainConfig);
+
+      for (const version of this.getContractVersions(chainConfig)) {
+        await this.updateSessionTracker(chainConfig, this.getScanContract(chainConfig, version, provider), provider, version);
+      }
+    }
+  }
+
+  private async updateSessionTracker(
+    chainConfig: ChainConfigV8,
+    contract: ethers.Contract,
+    provider: ethers.Provider,
+    version: ContractVersion
+  ): Promise<void> {
+    if (this.indexer && await this.updateSessionTrackerFromIndexer(chainConfig)) {
+      return;
+    }
+
     try {
       // V8: Enhanced session discovery using events
-      const currentBlock = await contract.provider.getBlockNumber();
-      const fromBlock = Math.max(currentBlock - 10000, 0);
+      await this.scanSessionCreatedEvents(chainConfig, contract, provider, version);
+    } catch (error) {
+      console.error(`[DailyPaymentBotV8] Error updating session tracker:`, error);
+    }
+  }
 
-      const sessionCreatedFilter = contract.filters.SessionCreated();
-      const events = await contract.queryFilter(sessionCreatedFilter, fromBlock, currentBlock);
+  /**
+   * Scan SessionCreated events from the block after the saved cursor up to the current
+   * block. Without a cursor the scan starts at the contract's deployment block if configured,
+   * otherwise INITIAL_SCAN_LOOKBACK blocks back. Ranges the RPC rejects are retried in
+   * halved chunks, which grow back after a run of successful queries; the cursor is saved
+   * after every chunk so an interrupted back-fill resumes where it stopped.
+   */
+  private async scanSessionCreatedEvents(
+    chainConfig: ChainConfigV8,
+    contract: ethers.Contract,
+    provider: ethers.Provider,
+    version: ContractVersion
+  ): Promise<void> {
+    const contractAddress = await contract.getAddress();
+    const currentBlock = await provider.getBlockNumber();
+    const cursor = this.sessionTracker.getCursor(chainConfig.chainId, version, contractAddress);
+    const startBlock = cursor
+      ? cursor.lastScannedBlock + 1
+      : chainConfig.deploymentBlocks?.[version] ?? Math.max(currentBlock - INITIAL_SCAN_LOOKBACK, 0);
+
+    if (startBlock > currentBlock) return;
+
+    const maxChunkSize = this.config.logChunkSize || DEFAULT_LOG_CHUNK_SIZE;
+    if (currentBlock - startBlock >= maxChunkSize) {
+      console.log(`[DailyPaymentBotV8] Back-filling ${version.toUpperCase()} sessions on ${chainConfig.name} from block ${startBlock} to ${currentBlock}`);
+    }
 
-      for (const event of events) {
-        if ('args' in event && event.args) {
-          const sessionId = event.args[0];
-          const trackedSession = {
-            sessionId: sessionId,
-            chainId: chainConfig.chainId,
-            createdAt: Date.now(),
-            lastChecked: Date.now(),
-            status: SessionStatus.Created,
-            isTracked: true,
-            completedButNotReleased: false
-          };
+    let chunkSize = maxChunkSize;
+    let successesInARow = 0;
+    let fromBlock = startBlock;
+    let discovered = 0;
 
-          this.sessionTracker.addSession(sessionId, trackedSession);
+    while (fromBlock <= currentBlock) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, currentBlock);
+      let events: Array<ethers.EventLog | ethers.Log>;
+
+      try {
+        events = await contract.queryFilter(contract.filters.SessionCreated(), fromBlock, toBlock);
+      } catch (error) {
+        if (chunkSize <= MIN_LOG_CHUNK_SIZE) {
+          throw error;
         }
+        chunkSize = Math.max(Math.floor(chunkSize / 2), MIN_LOG_CHUNK_SIZE);
+        successesInARow = 0;
+        console.warn(`[DailyPaymentBotV8] Log query for blocks ${fromBlock}-${toBlock} on ${chainConfig.name} failed, retrying in chunks of ${chunkSize}`);
+        continue;
       }
 
+      discovered += await this.trackCreatedSessions(chainConfig, provider, events);
+      this.sessionTracker.setCursor(chainConfig.chainId, version, contractAddress, toBlock);
       await this.sessionTracker.save();
 
+      fromBlock = toBlock + 1;
+      if (++successesInARow >= LOG_CHUNK_GROWTH_AFTER) {
+        chunkSize = Math.min(chunkSize * 2, maxChunkSize);
+        successesInARow = 0;
+      }
+    }
+
+    if (discovered > 0) {
+      console.log(`[DailyPaymentBotV8] Discovered ${discovered} new ${version.toUpperCase()} sessions on ${chainConfig.name}`);
+    }
+  }
+
+  /**
+   * Track the sessions from SessionCreated events, dated by the block they were created in.
+   * Returns how many were new.
+   */
+  private async trackCreatedSessions(
+    chainConfig: ChainConfigV8,
+    provider: ethers.Provider,
+    events: Array<ethers.EventLog | ethers.Log>
+  ): Promise<number> {
+    const blockTimestamps: Map<number, number> = new Map();
+    let added = 0;
+
+    for (const event of events) {
+      if (!('args' in event) || !event.args) continue;
+
+      const sessionId: string = event.args[0];
+      let createdAt = blockTimestamps.get(event.blockNumber);
+      if (createdAt === undefined) {
+        const block = await provider.getBlock(event.blockNumber);
+        createdAt = block ? block.timestamp * 1000 : Date.now();
+        blockTimestamps.set(event.blockNumber, createdAt);
+      }
+
+      if (this.sessionTracker.getSession(sessionId)) {
+        this.sessionTracker.updateSession(sessionId, { createdAt });
+        continue;
+      }
+
+      this.sessionTracker.addSession(sessionId, {
+        sessionId,
+        chainId: chainConfig.chainId,
+        createdAt,
+        lastChecked: Date.now(),
+        status: SessionStatus.Created,
+        isTracked: true,
+        completedButNotReleased: false
+      });
+      added++;
+    }
+
+    return added;
+  }
+
+  /**
+   * Discover sessions from the backend escrow indexer. Returns false if it is unreachable
+   * so the caller falls back to scanning SessionCreated events.
+   */
+  private async updateSessionTrackerFromIndexer(chainConfig: ChainConfigV8): Promise<boolean> {
+    try {
+      const indexed = await this.indexer!.getSessions(chainConfig.chainId, OPEN_INDEXED_STATUSES);
+
+      for (const session of indexed) {
+        // Completed sessions only matter while funds are still held
+        if (session.status === 'COMPLETED' &&
+            BigInt(session.releasedAmount) + BigInt(session.refundedAmount) >= BigInt(session.totalAmount)) {
+          continue;
+        }
+
+        const existing = this.sessionTracker.getSession(session.sessionId);
+        this.sessionTracker.addSession(session.sessionId, {
+          sessionId: session.sessionId,
+          chainId: chainConfig.chainId,
+          createdAt: existing?.createdAt ?? (session.createdAt ? Date.parse(session.createdAt) : Date.now()),
+          lastChecked: Date.now(),
+          status: IndexerClient.toSessionStatus(session.status),
+          isTracked: true,
+          completedButNotReleased: session.status === 'COMPLETED'
+        });
+      }
+
+      console.log(`[DailyPaymentBotV8] ${indexed.length} open sessions on ${chainConfig.name} from the escrow indexer`);
+      await this.sessionTracker.save();
+      return true;
+
     } catch (error) {
-      console.error(`[DailyPaymentBotV8] Error updating session tracker:`, error);
+      console.error(`[DailyPaymentBotV8] Escrow indexer unavailable, scanning events instead:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  // ============ V8 ADMIN SESSION ACTIONS ============
+
+  /**
+   * Owner-only escrow calls requested through the control API. Each returns the
+   * transaction hash once broadcast; the receipt is logged when it is mined.
+   */
+  public async resolveDispute(
+    chainId: number,
+    sessionId: string,
+    resolution: SessionStatus.Completed | SessionStatus.Cancelled,
+    requestedBy?: string
+  ): Promise<string> {
+    return this.sendAdminTransaction(chainId, 'resolveDispute', [sessionId, resolution], requestedBy);
+  }
+
+  public async executeRecovery(chainId: number, sessionId: string, requestedBy?: string): Promise<string> {
+    return this.sendAdminTransaction(chainId, 'executeAutoRecovery', [sessionId], requestedBy);
+  }
+
+  /**
+   * Refunds what the session still holds to the student, so like every emergency release it is only
+   * sent under an emergency proposal the approvers signed. Until then this opens the proposal (or finds
+   * the open one) and throws ProposalPendingError; the operator repeats the request once it is approved.
+   */
+  public async emergencyRefund(chainId: number, sessionId: string, reason: string, requestedBy?: string): Promise<string> {
+    const chainConfig = this.getV8ChainConfig(chainId);
+    const contract = new ethers.Contract(chainConfig.contractAddressV8, this.V8_ABI, this.getChainProvider(chainConfig));
+    const session = parseSessionV8(await contract.getSessionV8(sessionId));
+    if (session.student === ethers.ZeroAddress) {
+      throw new Error('Session does not exist');
+    }
+
+    const proposal = await this.proposals.authorize({
+      chainId,
+      contract: chainConfig.contractAddressV8,
+      sessionId,
+      recipient: session.student,
+      token: session.paymentToken,
+      amount: (session.totalAmount - session.releasedAmount).toString(),
+      reason,
+      evidence: {
+        source: 'BotControlServer',
+        sessionStatus: session.status,
+        totalAmount: session.totalAmount.toString(),
+        releasedAmount: session.releasedAmount.toString(),
+        createdAt: session.createdAt,
+        timeTrapped: Math.floor((Date.now() / 1000 - session.createdAt) / 3600),
+        reason
+      },
+      proposedBy: requestedBy || 'bot:DailyPaymentBotV8'
+    });
+
+    // Sent with the reason that was signed
+    return this.sendAdminTransaction(chainId, 'processEmergencyRefund', [sessionId, proposal.reason], requestedBy, proposal);
+  }
+
+  /**
+   * Approval requests the spending policy opened for any bot (the control API's /approvals)
+   */
+  public getSpendingPolicy(): SpendingPolicy {
+    return this.spendingPolicy;
+  }
+
+  /**
+   * Emergency release proposals of every bot (the control API's /emergency-proposals)
+   */
+  public getEmergencyProposals(): EmergencyProposals {
+    return this.proposals;
+  }
+
+  private getV8ChainConfig(chainId: number): ChainConfigV8 {
+    const chainConfig = this.chainConfigs.find(c => c.chainId === chainId && c.v8Enabled);
+    if (!chainConfig) {
+      throw new Error(`No V8 contract configured for chain ${chainId}`);
+    }
+    return chainConfig;
+  }
+
+  /**
+   * requestedBy is the operator asking for the action; above the approval threshold
+   * a different operator has to approve it before it is sent. An emergency release is sent
+   * under its approved proposal, which records the transaction and its outcome.
+   */
+  private async sendAdminTransaction(
+    chainId: number,
+    functionName: string,
+    parameters: unknown[],
+    requestedBy?: string,
+    proposal?: EmergencyProposal
+  ): Promise<string> {
+    const chainConfig = this.getV8ChainConfig(chainId);
+    const wallet = new ethers.Wallet(this.config.privateKey, this.getChainProvider(chainConfig));
+    const contract = new ethers.Contract(chainConfig.contractAddressV8, this.V8_ABI, wallet);
+    const manager = this.getTransactionManager(chainConfig);
+
+    console.log(`[DailyPaymentBotV8] Admin action ${functionName} for session ${parameters[0]} on ${chainConfig.name}`);
+
+    // Operators may act on a settled session, but not while a bot run is acting on it
+    const sessionId = String(parameters[0]);
+    const intent = await this.ledger.claim(sessionId, chainId, functionName, '0', { allowAfterSettled: true });
+    if (!intent) {
+      throw new SessionClaimedError(sessionId);
+    }
+
+    // Gas estimation reverts here (before broadcasting) when the contract would reject the call.
+    // Operators may repeat an action, so each request gets its own key; a proposal is sent at most once.
+    const key = proposal ? `admin:${functionName}:${proposal.id}` : `admin:${functionName}:${sessionId}:${Date.now()}`;
+    const actor = requestedBy || 'bot:DailyPaymentBotV8';
+    let transaction: ManagedTransaction;
+    try {
+      // Each of these calls can pay out or refund whatever the session still holds
+      const session = parseSessionV8(await contract.getSessionV8(sessionId));
+      transaction = await manager.send(key, contract, functionName, parameters, `Admin ${functionName}`, {
+        sessionId,
+        token: session.paymentToken,
+        amount: session.totalAmount - session.releasedAmount,
+        requestedBy
+      }, this.spendingPolicy);
+      await this.ledger.markSubmitted(intent.id, transaction);
+      if (proposal) {
+        await this.proposals.markSubmitted(proposal.id, transaction.hashes[transaction.hashes.length - 1], actor);
+      }
+    } catch (error) {
+      if (error instanceof ApprovalRequiredError) {
+        await this.ledger.release(intent.id).catch(() => undefined);
+      } else {
+        await this.ledger.fail(intent.id, error instanceof Error ? error.message : String(error)).catch(() => undefined);
+      }
+      throw error;
     }
+
+    manager.wait(key)
+      .then(async result => {
+        console.log(`[DailyPaymentBotV8] ${functionName} ${result.status}: ${result.confirmedHash || transaction.hashes[0]}`);
+        if (result.status === 'confirmed') {
+          await this.ledger.settle(intent.id, result.confirmedHash!);
+          if (proposal) {
+            await this.proposals.markExecuted(proposal.id, result.confirmedHash!, actor);
+          }
+        } else if (result.status !== 'pending') {
+          const failure = result.error || `Transaction ${result.status}`;
+          await this.ledger.fail(intent.id, failure);
+          if (proposal) {
+            await this.proposals.markFailed(proposal.id, failure, actor);
+          }
+        }
+      })
+      .catch((error: unknown) => {
+        console.error(`[DailyPaymentBotV8] ${functionName} transaction error (${transaction.hashes[0]}):`, error);
+      });
+
+    return transaction.hashes[0];
   }
 
   // ============ V8 METRICS & REPORTING ============
@@ -656,6 +1186,17 @@ export class DailyPaymentBotV8 {
       ((currentAvg * (processed - 1)) + processingTime) / processed;
   }
 
+  private recordPaymentMetrics(payment: PendingPaymentV8, result: 'success' | 'failure', startTime: number): void {
+    const labels = { chain: payment.chainName, method: payment.processingStrategy.primary.method };
+    paymentsTotal.inc({ ...labels, result });
+    paymentDuration.observe(labels, (Date.now() - startTime) / 1000);
+  }
+
+  private countError(category: ErrorCategory): void {
+    this.metrics.errorMetrics[category]++;
+    botErrorsTotal.inc({ category: ERROR_CATEGORY_LABELS[category] });
+  }
+
   private recordError(error: any, payment: PendingPaymentV8): void {
     // V8: Enhanced error recording with context
     const errorRecord = {
@@ -671,37 +1212,55 @@ export class DailyPaymentBotV8 {
 
     // V8: Classify errors for better tracking
     if (error.message?.includes('BigInt')) {
-      this.metrics.errorMetrics.bigIntSerializationErrors++;
+      this.countError('bigIntSerializationErrors');
     }
   }
 
   // ============ V8 ENHANCED DISCORD NOTIFICATIONS ============
 
   private async sendMetricsReport(): Promise<void> {
-    if (!this.config.enableDiscordNotifications) return;
-
-    const report = {
-      botVersion: 'V8',
-      timestamp: new Date().toISOString(),
-      totalProcessed: this.metrics.totalProcessed,
-      successfulPayments: this.metrics.successfulPayments,
-      failedPayments: this.metrics.failedPayments,
-      v8Metrics: this.metrics.v8Metrics,
-      errorSummary: {
-        bigIntErrors: this.metrics.errorMetrics.bigIntSerializationErrors,
-        rpcTimeouts: this.metrics.errorMetrics.rpcTimeouts,
-        contractReverts: this.metrics.errorMetrics.contractReverts
-      },
-      performance: this.metrics.performance
-    };
+    if (!this.notifications.isEnabled()) return;
+
+    const { successfulPayments, failedPayments, errorMetrics, v8Metrics } = this.metrics;
+    const severity: NotificationSeverity = this.hasCriticalErrors() ? 'error' : failedPayments > 0 ? 'warning' : 'info';
+
+    await this.notifications.notify({
+      title: '📊 V8 Payment Run Report',
+      message: `${successfulPayments} payments succeeded, ${failedPayments} failed`,
+      severity,
+      source: 'Chain Academy V8 Bot',
+      fields: [
+        { name: 'Processed', value: this.metrics.totalProcessed.toString(), inline: true },
+        { name: 'Successful', value: successfulPayments.toString(), inline: true },
+        { name: 'Failed', value: failedPayments.toString(), inline: true },
+        { name: 'Amount Processed', value: `${ethers.formatEther(this.metrics.totalAmountProcessed)} tokens`, inline: true },
+        { name: 'Avg Processing Time', value: `${Math.round(v8Metrics.averageProcessingTime)}ms`, inline: true },
+        { name: 'Errors', value: `BigInt ${errorMetrics.bigIntSerializationErrors}, RPC timeouts ${errorMetrics.rpcTimeouts}, reverts ${errorMetrics.contractReverts}` }
+      ],
+      dedupKey: `metrics:${this.metrics.lastExecutionTime}`
+    });
+  }
 
-    await this.discord.notifyExecutionSummary(
-      this.metrics.successfulPayments,
-      this.metrics.failedPayments,
-      this.metrics.totalAmountProcessed,
-      JSON.stringify(report, (key, value) => 
-        typeof value === 'bigint' ? value.toString() : value, 2)
-    );
+
+  private async notifyApprovalRequired(payment: PendingPaymentV8, error: ApprovalRequiredError): Promise<void> {
+    const { approval } = error;
+    console.warn(`[DailyPaymentBotV8] ${payment.processingStrategy.primary.description} for ${payment.sessionId} is waiting for operator approval ${approval.id}`);
+    if (!this.notifications.isEnabled()) return;
+
+    await this.notifications.notify({
+      title: '✋ Payment Waiting for Approval',
+      message: `${approval.functionName} for session ${payment.sessionId} is above the approval threshold and needs a second operator`,
+      severity: 'warning',
+      source: 'Chain Academy V8 Bot',
+      fields: [
+        { name: 'Approval', value: approval.id },
+        { name: 'Chain', value: payment.chainName, inline: true },
+        { name: 'Amount', value: approval.amount, inline: true },
+        { name: 'Threshold', value: approval.threshold, inline: true },
+        { name: 'Expires', value: new Date(approval.expiresAt).toISOString() }
+      ],
+      dedupKey: `approval:${approval.id}`
+    });
   }
 
   // ============ V8 HEALTH & MONITORING ============
@@ -757,35 +1316,69 @@ export class DailyPaymentBotV8 {
 
   // ============ V8 EXECUTION CONTROL ============
 
-  public async executeDaily(): Promise<void> {
+  /**
+   * Run one scan-and-process cycle. Returns the execution record, or null if a run
+   * was already in progress. Dry runs (config.dryRun by default) simulate the payments
+   * and write a plan instead of sending transactions.
+   */
+  public async executeDaily(isManual: boolean = false, dryRun: boolean = this.isDryRun()): Promise<ExecutionRecordV8 | null> {
     if (this.isRunning) {
       console.log('[DailyPaymentBotV8] Execution already in progress');
-      return;
+      return null;
     }
 
     this.isRunning = true;
     const startTime = Date.now();
+    const record: ExecutionRecordV8 = {
+      id: `exec_${startTime}_${Math.random().toString(36).slice(2, 11)}`,
+      startTime,
+      endTime: 0,
+      success: false,
+      isManual,
+      totalProcessed: 0,
+      successfulPayments: 0,
+      failedPayments: 0,
+      error: null,
+      dryRun
+    };
+    const successfulBefore = this.metrics.successfulPayments;
+    const failedBefore = this.metrics.failedPayments;
 
     try {
-      console.log('[DailyPaymentBotV8] Starting daily execution with V8 engine...');
+      console.log(`[DailyPaymentBotV8] Starting daily execution with V8 engine${dryRun ? ' (dry run)' : ''}...`);
       
       if (this.config.enableDiscordNotifications) {
         await this.discord.notifyBotStartup('8.0.0', this.chainConfigs.length);
       }
 
+      if (!dryRun) {
+        await this.resumePendingTransactions();
+      }
+
       const pendingPayments = await this.scanPendingPayments();
       
-      if (pendingPayments.length > 0) {
+      if (dryRun) {
+        const plan = await this.planPayments(pendingPayments);
+        record.planPath = this.savePlan(plan);
+
+        if (this.config.enableDiscordNotifications) {
+          await this.discord.notifyDryRunPlan(plan);
+        }
+      } else if (pendingPayments.length > 0) {
         await this.processPayments(pendingPayments);
       } else {
         console.log('[DailyPaymentBotV8] No pending payments found');
       }
 
+      record.totalProcessed = pendingPayments.length;
+      record.success = true;
+
       const executionTime = Date.now() - startTime;
       console.log(`[DailyPaymentBotV8] Daily execution completed in ${executionTime}ms`);
 
     } catch (error) {
       console.error('[DailyPaymentBotV8] Daily execution failed:', error);
+      record.error = error instanceof Error ? error.message : String(error);
       this.recordError(error, {
         sessionId: 'daily-execution',
         chainId: 0,
@@ -804,7 +1397,15 @@ export class DailyPaymentBotV8 {
       }
     } finally {
       this.isRunning = false;
+      record.endTime = Date.now();
+      record.successfulPayments = this.metrics.successfulPayments - successfulBefore;
+      record.failedPayments = this.metrics.failedPayments - failedBefore;
+      this.executionHistory.add(record);
+      runsTotal.inc({ result: record.success ? 'success' : 'failure', dry_run: String(dryRun) });
+      lastRunTimestamp.set({}, record.endTime / 1000);
     }
+
+    return record;
   }
 
   public startScheduler(): void {
@@ -826,9 +1427,71 @@ export class DailyPaymentBotV8 {
 
   public stopScheduler(): void {
     if (this.cronJob) {
-      this.cronJob.destroy();
+      this.cronJob.stop();
+      // Note: destroy() may not be available in all versions of node-cron
+      if (typeof (this.cronJob as any).destroy === 'function') {
+        (this.cronJob as any).destroy();
+      }
       this.cronJob = undefined;
+      this.isPaused = false;
       console.log('[DailyPaymentBotV8] Scheduler stopped');
     }
   }
+
+  /**
+   * Stop scheduled runs without tearing down the scheduler (manual runs are refused too)
+   */
+  public pauseScheduler(): void {
+    if (this.isPaused) return;
+
+    this.cronJob?.stop();
+    this.isPaused = true;
+    console.log('[DailyPaymentBotV8] Scheduler paused');
+  }
+
+  public resumeScheduler(): void {
+    if (!this.isPaused) return;
+
+    this.cronJob?.start();
+    this.isPaused = false;
+    console.log('[DailyPaymentBotV8] Scheduler resumed');
+  }
+
+  public isSchedulerPaused(): boolean {
+    return this.isPaused;
+  }
+
+  public isExecuting(): boolean {
+    return this.isRunning;
+  }
+
+  public isDryRun(): boolean {
+    return !!this.config.dryRun;
+  }
+
+  public getSchedulerStatus(): SchedulerStatusV8 {
+    let nextExecution = 'Not scheduled';
+    if (this.isPaused) {
+      nextExecution = 'Paused';
+    } else if (this.cronJob) {
+      nextExecution = `${this.config.cronSchedule} (UTC)`;
+    }
+
+    return {
+      isRunning: this.isRunning,
+      isPaused: this.isPaused,
+      dryRun: this.isDryRun(),
+      lastExecution: this.executionHistory.getLast(),
+      nextExecution,
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000)
+    };
+  }
+
+  public getExecutionHistory(limit: number): ExecutionRecordV8[] {
+    return this.executionHistory.getRecent(limit);
+  }
+
+  public getExecutionSummary(): { totalExecutions: number; successfulExecutions: number; failedExecutions: number } {
+    return this.executionHistory.getSummary();
+  }
 }
\ No newline at end of file
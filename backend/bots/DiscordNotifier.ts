@@ -11,6 +11,7 @@
 
 import { ethers } from 'ethers';
 import axios from 'axios';
+import { DryRunPlanV8 } from './V8Types';
 
 export interface DiscordWebhookConfig {
   webhookUrl: string;
@@ -186,7 +187,8 @@ export class DiscordNotifier {
     amount: bigint,
     tokenSymbol: string,
     chainName: string,
-    reason: string
+    reason: string,
+    txHash?: string
   ): Promise<boolean> {
     const embed: DiscordEmbed = {
       title: '🔄 Refund Processed',
@@ -217,7 +219,12 @@ export class DiscordNotifier {
           name: '📝 Reason',
           value: reason,
           inline: false
-        }
+        },
+        ...(txHash ? [{
+          name: '🔗 Transaction',
+          value: `[View on Explorer](https://explorer.example.com/tx/${txHash})`,
+          inline: false
+        }] : [])
       ],
       footer: {
         text: 'Chain Academy Payment Bot',
@@ -286,6 +293,63 @@ export class DiscordNotifier {
     return await this.sendEmbed(embed);
   }
 
+  /**
+   * Dry-run plan notification (nothing was broadcast)
+   */
+  async notifyDryRunPlan(plan: DryRunPlanV8): Promise<boolean> {
+    const lines = plan.entries.slice(0, 10).map(entry => {
+      const session = `\`${entry.sessionId.slice(0, 10)}…\` ${entry.chainName}`;
+      if (!entry.chosenMethod) {
+        const lastError = entry.methods[entry.methods.length - 1]?.error || 'reverted';
+        return `❌ ${session}: ${lastError}`;
+      }
+      const fallback = entry.chosenMethod !== entry.methods[0]?.functionName ? ' (fallback)' : '';
+      return `✅ ${session}: ${entry.chosenMethod}${fallback}`;
+    });
+    if (plan.entries.length > lines.length) {
+      lines.push(`…and ${plan.entries.length - lines.length} more`);
+    }
+
+    const embed: DiscordEmbed = {
+      title: '🧪 Dry Run Plan',
+      description: `Simulated run from ${plan.botAddress} - no transactions were sent`,
+      color: plan.failing > 0 ? AlertType.WARNING : AlertType.INFO,
+      fields: [
+        {
+          name: '📦 Sessions',
+          value: plan.totalSessions.toString(),
+          inline: true
+        },
+        {
+          name: '✅ Would Succeed',
+          value: plan.executable.toString(),
+          inline: true
+        },
+        {
+          name: '❌ Would Revert',
+          value: plan.failing.toString(),
+          inline: true
+        },
+        {
+          name: '⛽ Estimated Gas',
+          value: plan.totalGasEstimate,
+          inline: true
+        },
+        {
+          name: '📋 Plan',
+          value: lines.length > 0 ? lines.join('\n').substring(0, 1024) : 'No pending payments',
+          inline: false
+        }
+      ],
+      footer: {
+        text: `Chain Academy Payment Bot - ${plan.id}`,
+      },
+      timestamp: plan.createdAt
+    };
+
+    return await this.sendEmbed(embed);
+  }
+
   /**
    * Error notification
    */
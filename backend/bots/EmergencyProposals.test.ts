@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { auditTrail } from './AuditTrail';
+import {
+  EmergencyProposal,
+  EmergencyProposals,
+  ProposalPendingError,
+  ProposalRejectedError,
+  ProposalSignatureError,
+  ProposalStateError,
+  ReleaseRequest,
+  emergencyReleaseTypedData
+} from './EmergencyProposals';
+
+const ESCROW = '0x00000000000000000000000000000000000000e5';
+const STUDENT = '0x0000000000000000000000000000000000000051';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71B54bdA02913';
+
+const release = (amount: string = '1000000'): ReleaseRequest => ({
+  chainId: 8453,
+  contract: ESCROW,
+  sessionId: ethers.id('session-1'),
+  recipient: STUDENT,
+  token: USDC,
+  amount,
+  reason: 'No-show refund - trapped funds',
+  evidence: { source: 'TrappedFundsMonitor', sessionStatus: 0, totalAmount: amount, releasedAmount: '0', createdAt: 1700000000, timeTrapped: 30 },
+  proposedBy: 'bot:EmergencyRefundBot'
+});
+
+const sign = (wallet: ethers.Wallet, proposal: EmergencyProposal) => {
+  const { domain, types, message } = emergencyReleaseTypedData(proposal);
+  return wallet.signTypedData(domain, types, message);
+};
+
+// The proposal authorize() opened, from the pending error it throws
+async function open(proposals: EmergencyProposals, request: ReleaseRequest = release()): Promise<EmergencyProposal> {
+  const error = await proposals.authorize(request).catch(caught => caught);
+  expect(error).toBeInstanceOf(ProposalPendingError);
+  return (error as ProposalPendingError).proposal;
+}
+
+describe('EmergencyProposals', () => {
+  const approvers = [0, 1, 2].map(() => new ethers.Wallet(ethers.Wallet.createRandom().privateKey));
+  let dir: string;
+  let proposals: EmergencyProposals;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'emergency-proposals-'));
+    proposals = new EmergencyProposals(approvers.map(wallet => wallet.address), 2, 3600, path.join(dir, 'proposals.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(auditTrail, 'append').mockResolvedValue(undefined as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('opens one proposal for a release and keeps it pending until enough approvers sign', async () => {
+    const proposal = await open(proposals);
+    await expect(proposals.authorize(release())).rejects.toMatchObject({ created: false, proposal: { id: proposal.id } });
+
+    await proposals.sign(proposal.id, approvers[0].address, await sign(approvers[0], proposal));
+    await expect(proposals.authorize(release())).rejects.toThrow(ProposalPendingError);
+
+    await proposals.sign(proposal.id, approvers[1].address, await sign(approvers[1], proposal));
+    await expect(proposals.authorize(release())).resolves.toMatchObject({ id: proposal.id, status: 'approved' });
+  });
+
+  it('needs new signatures when the amount changes', async () => {
+    const proposal = await open(proposals);
+    for (const approver of approvers.slice(0, 2)) {
+      await proposals.sign(proposal.id, approver.address, await sign(approver, proposal));
+    }
+
+    const error = await proposals.authorize(release('2000000')).catch(caught => caught);
+
+    expect(error).toMatchObject({ name: 'ProposalPendingError', created: true });
+    expect(error.proposal.id).not.toBe(proposal.id);
+  });
+
+  it('only counts signatures of the proposal by configured approvers, once each', async () => {
+    const proposal = await open(proposals);
+    const outsider = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+
+    await expect(proposals.sign(proposal.id, outsider.address, await sign(outsider, proposal))).rejects.toThrow(ProposalSignatureError);
+    await expect(proposals.sign(proposal.id, approvers[0].address, await sign(approvers[1], proposal))).rejects.toThrow(/not 0x/);
+
+    await proposals.sign(proposal.id, approvers[0].address, await sign(approvers[0], proposal));
+    await expect(proposals.sign(proposal.id, approvers[0].address, await sign(approvers[0], proposal))).rejects.toThrow(ProposalStateError);
+  });
+
+  it('refuses a rejected release until the rejection lapses', async () => {
+    const proposal = await open(proposals);
+
+    await proposals.reject(proposal.id, approvers[2].address, 'student attended');
+
+    await expect(proposals.authorize(release())).rejects.toThrow(ProposalRejectedError);
+    expect(proposals.getProposals('rejected')[0].history.map(event => event.event)).toEqual(['proposed', 'rejected']);
+  });
+
+  it('records every step on the audit trail before saving it', async () => {
+    const proposal = await open(proposals);
+    expect(auditTrail.append).toHaveBeenCalledWith('emergency.proposed', 'bot:emergencyrefundbot', expect.objectContaining({ proposalId: proposal.id }));
+
+    jest.spyOn(auditTrail, 'append').mockRejectedValue(new Error('ENOSPC: no space left on device'));
+
+    await expect(proposals.sign(proposal.id, approvers[0].address, await sign(approvers[0], proposal))).rejects.toThrow('ENOSPC');
+    expect(proposals.getProposals()[0].signatures).toHaveLength(0);
+  });
+
+  it('lets a proposal lapse at its expiry', async () => {
+    const proposal = await open(proposals);
+    jest.spyOn(Date, 'now').mockReturnValue(proposal.expiresAt + 1);
+
+    expect(proposals.getProposals()[0].status).toBe('expired');
+    await expect(proposals.sign(proposal.id, approvers[0].address, await sign(approvers[0], proposal))).rejects.toThrow(/is expired/);
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * EmergencyProposals - Multi-operator approval of emergency releases
+ * An emergencyRelease moves escrowed funds on the owner's say alone, so no bot sends one on its own
+ * decision. The bot opens a proposal instead (session, recipient, amount, reason and the evidence that
+ * the funds are trapped) and sends the release only once enough of the configured approvers have
+ * signed the proposal's EIP-712 message in the admin UI. Proposals lapse at expiresAt and keep every
+ * step in their history. They are kept in one JSON file shared by the bot processes and guarded by a
+ * lock file, like the spending policy state. Every step is also appended to the audit trail before
+ * it is saved; a step that cannot be recorded is not saved and fails.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { withFileLock } from './FileLock';
+import { auditTrail } from './AuditTrail';
+
+export type ProposalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed' | 'expired';
+
+export type ProposalEventType = 'proposed' | 'signed' | 'approved' | 'rejected' | 'submitted' | 'executed' | 'failed' | 'expired';
+
+/**
+ * Why the funds are considered trapped, as found by the trapped-funds scan (or the bot's own check)
+ */
+export interface ReleaseEvidence {
+  source: string; // TrappedFundsMonitor, RefundBot, EmergencyRefundBot...
+  sessionStatus: number;
+  totalAmount: string;
+  releasedAmount: string;
+  createdAt: number; // session creation, unix seconds
+  timeTrapped: number; // hours
+  severity?: string;
+  reason?: string;
+  suggestedAction?: string;
+}
+
+export interface ReleaseRequest {
+  chainId: number;
+  contract: string;
+  sessionId: string;
+  recipient: string;
+  token: string;
+  amount: bigint | string;
+  reason: string; // passed to emergencyRelease
+  evidence: ReleaseEvidence;
+  proposedBy: string; // bot:<name>, or the operator address
+}
+
+export interface ProposalSignature {
+  signer: string;
+  signature: string;
+  signedAt: number;
+}
+
+export interface ProposalEvent {
+  at: number;
+  event: ProposalEventType;
+  actor: string;
+  detail: string | null;
+}
+
+export interface EmergencyProposal {
+  id: string;
+  chainId: number;
+  contract: string;
+  sessionId: string;
+  recipient: string;
+  token: string;
+  amount: string;
+  reason: string;
+  evidence: ReleaseEvidence;
+  evidenceHash: string; // keccak256 of the evidence JSON, part of the signed message
+  threshold: number; // signatures needed, fixed when the proposal is opened
+  proposedBy: string;
+  createdAt: number;
+  expiresAt: number;
+  status: ProposalStatus;
+  signatures: ProposalSignature[];
+  transactionHash: string | null;
+  error: string | null;
+  history: ProposalEvent[];
+}
+
+// The release waits for signatures; it can be attempted again once the proposal is approved
+export class ProposalPendingError extends Error {
+  constructor(public readonly proposal: EmergencyProposal, public readonly created: boolean) {
+    super(`Emergency release of session ${proposal.sessionId} on chain ${proposal.chainId} needs ${proposal.threshold} approver signatures, has ${proposal.signatures.length} (${proposal.id})`);
+    this.name = 'ProposalPendingError';
+  }
+}
+
+// An approver rejected the release; nothing is proposed again for it until the proposal expires
+export class ProposalRejectedError extends Error {
+  constructor(public readonly proposal: EmergencyProposal) {
+    super(`Emergency release of session ${proposal.sessionId} on chain ${proposal.chainId} was rejected (${proposal.id})`);
+    this.name = 'ProposalRejectedError';
+  }
+}
+
+export class ProposalNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Unknown emergency proposal ${id}`);
+    this.name = 'ProposalNotFoundError';
+  }
+}
+
+// The proposal is no longer open for signatures, or the operator already signed it
+export class ProposalStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProposalStateError';
+  }
+}
+
+// The signer is not an approver or the signature does not match the proposal
+export class ProposalSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProposalSignatureError';
+  }
+}
+
+export const EMERGENCY_RELEASE_TYPES = {
+  EmergencyRelease: [
+    { name: 'proposalId', type: 'string' },
+    { name: 'sessionId', type: 'bytes32' },
+    { name: 'recipient', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'reason', type: 'string' },
+    { name: 'evidenceHash', type: 'bytes32' },
+    { name: 'expiresAt', type: 'uint256' }
+  ]
+};
+
+/**
+ * The EIP-712 message approvers sign for a proposal, bound to the escrow contract and its chain
+ */
+export function emergencyReleaseTypedData(proposal: EmergencyProposal) {
+  return {
+    domain: {
+      name: 'Chain Academy Emergency Release',
+      version: '1',
+      chainId: proposal.chainId,
+      verifyingContract: proposal.contract
+    },
+    types: EMERGENCY_RELEASE_TYPES,
+    primaryType: 'EmergencyRelease' as const,
+    message: {
+      proposalId: proposal.id,
+      sessionId: proposal.sessionId,
+      recipient: proposal.recipient,
+      token: proposal.token,
+      amount: proposal.amount,
+      reason: proposal.reason,
+      evidenceHash: proposal.evidenceHash,
+      expiresAt: Math.floor(proposal.expiresAt / 1000).toString()
+    }
+  };
+}
+
+const DEFAULT_STATE_PATH = './data/emergency-proposals.json';
+const DEFAULT_THRESHOLD = 2;
+const DEFAULT_PROPOSAL_TTL = 24 * 60 * 60; // seconds
+
+export class EmergencyProposals {
+  private approvers: string[];
+  private threshold: number;
+  private ttl: number;
+  private statePath: string;
+  private lockPath: string;
+  private owner: string;
+  private proposals: Map<string, EmergencyProposal> = new Map();
+  private unrecorded: Array<{ action: string; actor: string; details: Record<string, unknown> }> = [];
+
+  /**
+   * @param approvers addresses whose signatures count (EMERGENCY_APPROVER_ADDRESSES, comma separated)
+   * @param threshold signatures needed (EMERGENCY_APPROVAL_THRESHOLD)
+   * @param ttl seconds a proposal stays open, and an approved one stays executable (EMERGENCY_PROPOSAL_TTL)
+   */
+  constructor(
+    approvers: string[] = (process.env.EMERGENCY_APPROVER_ADDRESSES || '').split(',').map(address => address.trim()).filter(Boolean),
+    threshold: number = parseInt(process.env.EMERGENCY_APPROVAL_THRESHOLD || '') || DEFAULT_THRESHOLD,
+    ttl: number = parseInt(process.env.EMERGENCY_PROPOSAL_TTL || '') || DEFAULT_PROPOSAL_TTL,
+    statePath: string = process.env.EMERGENCY_PROPOSALS_PATH || DEFAULT_STATE_PATH
+  ) {
+    const invalid = approvers.filter(address => !ethers.isAddress(address));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid emergency approver addresses: ${invalid.join(', ')}`);
+    }
+    if (threshold < 1) {
+      throw new Error('The emergency approval threshold must be at least 1');
+    }
+
+    this.approvers = Array.from(new Set(approvers.map(address => address.toLowerCase())));
+    this.threshold = threshold;
+    this.ttl = ttl * 1000;
+    this.statePath = statePath;
+    this.lockPath = `${statePath}.lock`;
+    this.owner = `EmergencyProposals:${process.pid}`;
+
+    if (this.approvers.length < this.threshold) {
+      console.warn(`[EmergencyProposals] ${this.approvers.length} approvers configured (EMERGENCY_APPROVER_ADDRESSES) for a threshold of ${this.threshold}, no emergency release can be approved`);
+    }
+
+    const dir = path.dirname(this.statePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  public getApprovers(): { approvers: string[]; threshold: number } {
+    return { approvers: [...this.approvers], threshold: this.threshold };
+  }
+
+  // ============ RELEASES ============
+
+  /**
+   * The approved proposal for this release. Otherwise opens a proposal (or finds the open one) and
+   * throws ProposalPendingError; throws ProposalRejectedError while a rejection of it stands.
+   * A proposal matches on chain, contract, session, recipient, token and amount, so a release whose
+   * amount changed needs new signatures.
+   */
+  public async authorize(request: ReleaseRequest): Promise<EmergencyProposal> {
+    const { proposal, created } = await this.withLock(() => {
+      const now = Date.now();
+      const existing = this.findProposal(request, now);
+      return existing ? { proposal: existing, created: false } : { proposal: this.openProposal(request, now), created: true };
+    });
+
+    if (proposal.status === 'rejected') {
+      throw new ProposalRejectedError(proposal);
+    }
+    if (proposal.status === 'pending') {
+      throw new ProposalPendingError(proposal, created);
+    }
+    console.log(`[EmergencyProposals] Releasing session ${proposal.sessionId} under ${proposal.id} (signed by ${proposal.signatures.map(entry => entry.signer).join(', ')})`);
+    return proposal;
+  }
+
+  // The release transaction was broadcast; the proposal stays approved until it confirms
+  public markSubmitted(id: string, transactionHash: string, actor: string): Promise<void> {
+    return this.update(id, actor, proposal => {
+      proposal.transactionHash = transactionHash;
+      return { event: 'submitted', detail: transactionHash };
+    });
+  }
+
+  public markExecuted(id: string, transactionHash: string, actor: string): Promise<void> {
+    return this.update(id, actor, proposal => {
+      Object.assign(proposal, { status: 'executed', transactionHash, error: null });
+      return { event: 'executed', detail: transactionHash };
+    });
+  }
+
+  // The release reverted or was dropped; the funds need a new proposal
+  public markFailed(id: string, error: string, actor: string): Promise<void> {
+    return this.update(id, actor, proposal => {
+      Object.assign(proposal, { status: 'failed', error });
+      return { event: 'failed', detail: error };
+    });
+  }
+
+  // ============ APPROVERS ============
+
+  /**
+   * Proposals of every bot, newest first
+   */
+  public getProposals(status?: ProposalStatus): EmergencyProposal[] {
+    this.load();
+    const now = Date.now();
+    return Array.from(this.proposals.values())
+      .map(proposal => ({ ...proposal, status: this.currentStatus(proposal, now) }))
+      .filter(proposal => !status || proposal.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Add an approver's EIP-712 signature (see emergencyReleaseTypedData). The proposal is approved
+   * once it has threshold signatures from distinct approvers.
+   */
+  public sign(id: string, signer: string, signature: string): Promise<EmergencyProposal> {
+    return this.withLock(() => {
+      const proposal = this.getOpenProposal(id, signer, ['pending']);
+      const address = signer.toLowerCase();
+      if (proposal.signatures.some(entry => entry.signer === address)) {
+        throw new ProposalStateError(`${signer} already signed ${id}`);
+      }
+
+      const { domain, types, message } = emergencyReleaseTypedData(proposal);
+      let recovered: string;
+      try {
+        recovered = ethers.verifyTypedData(domain, types, message, signature);
+      } catch (error) {
+        throw new ProposalSignatureError(`Invalid signature: ${(error as Error).message}`);
+      }
+      if (recovered.toLowerCase() !== address) {
+        throw new ProposalSignatureError(`The signature is from ${recovered}, not ${signer}`);
+      }
+
+      const now = Date.now();
+      proposal.signatures.push({ signer: address, signature, signedAt: now });
+      this.record(proposal, 'signed', address, `${proposal.signatures.length} of ${proposal.threshold}`, now);
+      console.log(`[EmergencyProposals] ${id} signed by ${address} (${proposal.signatures.length}/${proposal.threshold})`);
+
+      if (proposal.signatures.length >= proposal.threshold) {
+        proposal.status = 'approved';
+        this.record(proposal, 'approved', address, null, now);
+        console.log(`[EmergencyProposals] ${id} approved`);
+      }
+      return { ...proposal };
+    });
+  }
+
+  /**
+   * Any approver can reject a proposal that has not been executed yet, approved or not
+   */
+  public reject(id: string, operator: string, note?: string): Promise<EmergencyProposal> {
+    return this.withLock(() => {
+      const proposal = this.getOpenProposal(id, operator, ['pending', 'approved']);
+      if (proposal.status === 'approved' && proposal.transactionHash) {
+        throw new ProposalStateError(`The release for ${id} was already sent (${proposal.transactionHash})`);
+      }
+
+      proposal.status = 'rejected';
+      this.record(proposal, 'rejected', operator.toLowerCase(), note || null, Date.now());
+      console.log(`[EmergencyProposals] ${id} rejected by ${operator.toLowerCase()}`);
+      return { ...proposal };
+    });
+  }
+
+  private getOpenProposal(id: string, operator: string, statuses: ProposalStatus[]): EmergencyProposal {
+    const proposal = this.proposals.get(id);
+    if (!proposal) {
+      throw new ProposalNotFoundError(id);
+    }
+    if (!this.approvers.includes(operator.toLowerCase())) {
+      throw new ProposalSignatureError(`${operator} is not an emergency approver`);
+    }
+
+    const current = this.currentStatus(proposal, Date.now());
+    if (!statuses.includes(current)) {
+      throw new ProposalStateError(`Emergency proposal ${id} is ${current}`);
+    }
+    return proposal;
+  }
+
+  private findProposal(request: ReleaseRequest, now: number): EmergencyProposal | undefined {
+    return Array.from(this.proposals.values()).find(proposal =>
+      proposal.chainId === request.chainId &&
+      proposal.contract === request.contract.toLowerCase() &&
+      proposal.sessionId === request.sessionId.toLowerCase() &&
+      proposal.recipient === request.recipient.toLowerCase() &&
+      proposal.token === request.token.toLowerCase() &&
+      proposal.amount === request.amount.toString() &&
+      proposal.expiresAt >= now &&
+      (proposal.status === 'pending' || proposal.status === 'approved' || proposal.status === 'rejected')
+    );
+  }
+
+  private openProposal(request: ReleaseRequest, now: number): EmergencyProposal {
+    const proposal: EmergencyProposal = {
+      id: `proposal_${now}_${Math.random().toString(36).slice(2, 11)}`,
+      chainId: request.chainId,
+      contract: request.contract.toLowerCase(),
+      sessionId: request.sessionId.toLowerCase(),
+      recipient: request.recipient.toLowerCase(),
+      token: request.token.toLowerCase(),
+      amount: request.amount.toString(),
+      reason: request.reason,
+      evidence: request.evidence,
+      evidenceHash: ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(request.evidence))),
+      threshold: this.threshold,
+      proposedBy: request.proposedBy.toLowerCase(),
+      createdAt: now,
+      expiresAt: now + this.ttl,
+      status: 'pending',
+      signatures: [],
+      transactionHash: null,
+      error: null,
+      history: []
+    };
+    this.record(proposal, 'proposed', proposal.proposedBy, request.reason, now);
+    this.proposals.set(proposal.id, proposal);
+    console.warn(`[EmergencyProposals] ${proposal.id} opened: release ${proposal.amount} of ${proposal.token} from session ${proposal.sessionId} on chain ${proposal.chainId} to ${proposal.recipient}`);
+    return proposal;
+  }
+
+  // Pending and approved proposals lapse at expiresAt
+  private currentStatus(proposal: EmergencyProposal, now: number): ProposalStatus {
+    return (proposal.status === 'pending' || proposal.status === 'approved') && proposal.expiresAt < now ? 'expired' : proposal.status;
+  }
+
+  // Appended to the audit trail by withLock, before the state is saved
+  private record(proposal: EmergencyProposal, event: ProposalEventType, actor: string, detail: string | null, at: number): void {
+    proposal.history.push({ at, event, actor, detail });
+    const details = {
+      proposalId: proposal.id,
+      chainId: proposal.chainId,
+      sessionId: proposal.sessionId,
+      recipient: proposal.recipient,
+      token: proposal.token,
+      amount: proposal.amount,
+      evidenceHash: proposal.evidenceHash,
+      detail
+    };
+    this.unrecorded.push({ action: `emergency.${event}`, actor, details });
+  }
+
+  private update(id: string, actor: string, fn: (proposal: EmergencyProposal) => { event: ProposalEventType; detail: string | null }): Promise<void> {
+    return this.withLock(() => {
+      const proposal = this.proposals.get(id);
+      if (!proposal) {
+        throw new ProposalNotFoundError(id);
+      }
+      const { event, detail } = fn(proposal);
+      this.record(proposal, event, actor, detail, Date.now());
+    });
+  }
+
+  // ============ PERSISTENCE ============
+
+  /**
+   * Run fn against the latest state while holding the lock file, record its steps on the audit
+   * trail, then save. Nothing is saved if fn throws or a step cannot be recorded; an entry may then
+   * record a step that was not saved, but no step is saved unrecorded.
+   */
+  private withLock<T>(fn: () => T): Promise<T> {
+    return withFileLock(this.lockPath, this.owner, async () => {
+      this.load();
+      this.unrecorded = [];
+      const result = fn();
+      this.expireLapsed(Date.now());
+
+      for (const { action, actor, details } of this.unrecorded.splice(0)) {
+        await auditTrail.append(action, actor, details);
+      }
+      this.save();
+      return result;
+    });
+  }
+
+  // Throws on an unreadable state file rather than proposing over lost signatures
+  private load(): void {
+    this.proposals.clear();
+    if (fs.existsSync(this.statePath)) {
+      const parsed = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      for (const proposal of (parsed.proposals || []) as EmergencyProposal[]) {
+        this.proposals.set(proposal.id, proposal);
+      }
+    }
+  }
+
+  private expireLapsed(now: number): void {
+    for (const proposal of this.proposals.values()) {
+      if (this.currentStatus(proposal, now) === 'expired' && proposal.status !== 'expired') {
+        proposal.status = 'expired';
+        this.record(proposal, 'expired', 'system', null, now);
+      }
+    }
+  }
+
+  // Proposals are the audit trail of emergency releases and are never removed
+  private save(): void {
+    const data = {
+      version: '8.0.0',
+      lastSaved: Date.now(),
+      proposals: Array.from(this.proposals.values())
+    };
+
+    // Write then rename so a crash never leaves a truncated state file behind
+    const tempPath = `${this.statePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.statePath);
+  }
+}
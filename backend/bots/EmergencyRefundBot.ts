@@ -5,8 +5,17 @@
  * Uses emergencyRelease function to free funds from broken sessions
  */
 
+import dotenv from 'dotenv';
 import { ethers } from 'ethers';
 import { DiscordNotifier, DiscordWebhookConfig } from './DiscordNotifier';
+import { FailoverRpcProvider, getRpcProvider } from './RpcProvider';
+import { TransactionManager, TransactionPendingError, getTransactionManager } from './TransactionManager';
+import { ProcessingLedger, ActionIntent, SessionClaimedError } from './ProcessingLedger';
+import { SpendingPolicy, ApprovalRequiredError } from './SpendingPolicy';
+import { EmergencyProposals, EmergencyProposal, ProposalStatus, ReleaseEvidence, ProposalPendingError } from './EmergencyProposals';
+import { ChainConfig } from './types';
+import { loadBotConfig } from './config/BotConfigLoader';
+import { resolveRotatedKey } from './config/rotatedKey';
 
 // V7 Emergency ABI
 const EMERGENCY_ABI = [
@@ -15,29 +24,24 @@ const EMERGENCY_ABI = [
   'function owner() external view returns (address)'
 ];
 
-// Contract addresses for V7
-const V7_CONTRACTS = {
-  8453: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3', // Base
-  10: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3',   // Optimism  
-  42161: '0x2a9d167e30195ba5fd29cfc09622be0d02da91be', // Arbitrum
-  137: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3'   // Polygon
-};
-
-const RPC_URLS = {
-  8453: 'https://mainnet.base.org',
-  10: 'https://mainnet.optimism.io', 
-  42161: 'https://arb1.arbitrum.io/rpc',
-  137: 'https://polygon-rpc.com'
-};
-
 export class EmergencyRefundBot {
-  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  private providers: Map<number, FailoverRpcProvider> = new Map();
   private contracts: Map<number, ethers.Contract> = new Map();
+  private txManagers: Map<number, TransactionManager> = new Map();
+  private chainNames: Map<number, string> = new Map();
   private wallet: ethers.Wallet;
   private discordNotifier: DiscordNotifier;
+  private ledger: ProcessingLedger = new ProcessingLedger('EmergencyRefundBot');
+  private spendingPolicy: SpendingPolicy = new SpendingPolicy('EmergencyRefundBot');
+  private proposals: EmergencyProposals = new EmergencyProposals();
 
-  constructor() {
-    const privateKey = process.env.BOT_OWNER_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY;
+  /**
+   * @param chainConfigs chains whose V7 escrow (contractAddress) is refunded from, from the bot configuration
+   */
+  constructor(
+    chainConfigs: ChainConfig[],
+    privateKey: string | undefined = process.env.BOT_OWNER_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY
+  ) {
     if (!privateKey) {
       throw new Error('BOT_OWNER_PRIVATE_KEY environment variable required for emergency operations');
     }
@@ -54,32 +58,43 @@ export class EmergencyRefundBot {
     };
     this.discordNotifier = new DiscordNotifier(discordConfig);
 
-    this.initializeChains();
+    this.initializeChains(chainConfigs);
   }
 
-  private initializeChains(): void {
-    Object.entries(V7_CONTRACTS).forEach(([chainIdStr, contractAddress]) => {
-      const chainId = parseInt(chainIdStr);
-      const rpcUrl = RPC_URLS[chainId as keyof typeof RPC_URLS];
-      
-      if (rpcUrl) {
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const connectedWallet = this.wallet.connect(provider);
-        const contract = new ethers.Contract(contractAddress, EMERGENCY_ABI, connectedWallet);
-        
-        this.providers.set(chainId, provider);
-        this.contracts.set(chainId, contract);
-        
-        console.log(`[Emergency] Initialized chain ${chainId}: ${contractAddress}`);
-      }
+  private initializeChains(chainConfigs: ChainConfig[]): void {
+    chainConfigs.forEach(({ chainId, name, rpcUrl, rpcSettings, contractAddress, maxFeePerGas, maxPriorityFeePerGas }) => {
+      const provider = getRpcProvider(chainId, rpcUrl, rpcSettings);
+      const connectedWallet = this.wallet.connect(provider);
+      const contract = new ethers.Contract(contractAddress, EMERGENCY_ABI, connectedWallet);
+
+      this.providers.set(chainId, provider);
+      this.contracts.set(chainId, contract);
+      this.chainNames.set(chainId, name);
+      this.txManagers.set(chainId, getTransactionManager(connectedWallet, {
+        chainId,
+        maxFeePerGas,
+        maxPriorityFeePerGas
+      }, this.spendingPolicy));
+
+      console.log(`[Emergency] Initialized chain ${chainId}: ${contractAddress}`);
     });
   }
 
   /**
    * Execute emergency refund for a specific trapped session
+   * The refund is only sent under an emergency proposal the approvers signed; until then this opens
+   * the proposal (with the evidence given, e.g. from the trapped-funds scan) and throws ProposalPendingError.
+   * Returns the confirmed transaction hash, or null if the session has nothing left to refund
    */
-  async emergencyRefund(sessionId: string, chainId: number, reason: string = 'No-show refund - trapped funds'): Promise<void> {
+  async emergencyRefund(
+    sessionId: string,
+    chainId: number,
+    reason: string = 'No-show refund - trapped funds',
+    evidence: Partial<ReleaseEvidence> = {},
+    proposedBy: string = 'bot:EmergencyRefundBot'
+  ): Promise<string | null> {
     console.log(`🚨 [Emergency] Processing refund for session ${sessionId} on chain ${chainId}`);
+    let intent: ActionIntent | null = null;
     
     try {
       const contract = this.contracts.get(chainId);
@@ -87,8 +102,11 @@ export class EmergencyRefundBot {
         throw new Error(`No contract found for chain ${chainId}`);
       }
 
-      // Get session details
-      const session = await contract.getSession(sessionId);
+      // Get session details (the refund amount is taken from it, so confirm it on a second RPC if enabled)
+      const provider = this.providers.get(chainId)!;
+      const session = provider.isCrossCheckEnabled()
+        ? await provider.crossCheck(`session ${sessionId}`, endpoint => (contract.connect(endpoint) as ethers.Contract).getSession(sessionId))
+        : await contract.getSession(sessionId);
       
       console.log('📋 Session Details:');
       console.log('  Student:', session.student);
@@ -104,20 +122,20 @@ export class EmergencyRefundBot {
 
       const now = Math.floor(Date.now() / 1000);
       const timeSinceCreated = now - Number(session.createdAt);
-      const refundAmount = session.totalAmount - session.releasedAmount;
+      const refundAmount = (session.totalAmount as bigint) - (session.releasedAmount as bigint);
 
       console.log(`⏰ Time since created: ${Math.floor(timeSinceCreated / 3600)} hours`);
       console.log(`💰 Refund amount: ${ethers.formatEther(refundAmount)} tokens`);
 
       if (refundAmount <= 0) {
         console.log('❌ No funds available for refund');
-        return;
+        return null;
       }
 
       // Conditions for emergency refund:
       // 1. Session in Created status for > 15 minutes (no-show)
       // 2. Session stuck in any status with time passed
-      const isNoShow = session.status === 0 && timeSinceCreated > 900; // 15 minutes
+      const isNoShow = Number(session.status) === 0 && timeSinceCreated > 900; // 15 minutes
       const isStuck = timeSinceCreated > 3600; // 1 hour for any stuck session
 
       if (!isNoShow && !isStuck) {
@@ -136,25 +154,63 @@ export class EmergencyRefundBot {
 
       console.log('🔐 Confirmed contract ownership');
 
+      // Only a release the approvers signed is sent (throws ProposalPendingError until then)
+      const proposal = await this.proposals.authorize({
+        chainId,
+        contract: contract.target as string,
+        sessionId,
+        recipient: session.student,
+        token: session.paymentToken,
+        amount: refundAmount.toString(),
+        reason,
+        evidence: {
+          source: 'EmergencyRefundBot',
+          sessionStatus: Number(session.status),
+          totalAmount: session.totalAmount.toString(),
+          releasedAmount: session.releasedAmount.toString(),
+          createdAt: Number(session.createdAt),
+          timeTrapped: Math.floor(timeSinceCreated / 3600),
+          ...evidence
+        },
+        proposedBy
+      });
+      console.log(`🗳️  Approved by ${proposal.signatures.length} of ${proposal.threshold} approvers (${proposal.id})`);
+
+      // Claim the session so no other run or bot refunds it at the same time
+      await this.ledger.reconcile(chainId, provider);
+      intent = await this.ledger.claim(sessionId, chainId, 'emergencyRelease', refundAmount.toString());
+      if (!intent) {
+        throw new SessionClaimedError(sessionId);
+      }
+
       // Execute emergency refund
       console.log(`🚀 Executing emergency refund to student: ${session.student}`);
       
-      const tx = await contract.emergencyRelease(
-        sessionId,
-        session.student, // Refund to student
-        refundAmount,
-        reason,
-        {
-          gasLimit: 200000 // Conservative gas limit
-        }
+      // Keyed by session so a retry after a restart waits on the refund already sent
+      const manager = this.txManagers.get(chainId)!;
+      const sent = await manager.send(
+        `emergencyRelease:${sessionId}`,
+        contract,
+        'emergencyRelease',
+        [sessionId, session.student, refundAmount, proposal.reason], // Refund to student, with the reason that was signed
+        'Emergency refund',
+        { sessionId, token: session.paymentToken, amount: refundAmount.toString() },
+        this.spendingPolicy
       );
 
-      console.log(`📝 Transaction sent: ${tx.hash}`);
+      console.log(`📝 Transaction sent: ${sent.hashes[sent.hashes.length - 1]}`);
+      await this.ledger.markSubmitted(intent.id, sent);
+      await this.proposals.markSubmitted(proposal.id, sent.hashes[sent.hashes.length - 1], 'bot:EmergencyRefundBot');
       
-      const receipt = await tx.wait();
+      const tx = await manager.wait(sent.key);
       
-      if (receipt.status === 1) {
+      if (tx.status === 'pending') {
+        // Left claimed until the next run reconciles the receipt
+        throw new TransactionPendingError(tx);
+      } else if (tx.status === 'confirmed') {
         console.log('✅ Emergency refund successful!');
+        await this.ledger.settle(intent.id, tx.confirmedHash!);
+        await this.proposals.markExecuted(proposal.id, tx.confirmedHash!, 'bot:EmergencyRefundBot');
         
         // Send Discord notification
         if (this.discordNotifier.isEnabled()) {
@@ -164,17 +220,35 @@ export class EmergencyRefundBot {
             refundAmount,
             'ETH',
             this.getChainName(chainId),
-            tx.hash,
-            reason
+            proposal.reason,
+            tx.confirmedHash!
           );
         }
-        
+
+        return tx.confirmedHash!;
       } else {
-        throw new Error('Transaction failed');
+        const failure = `Transaction ${tx.status}${tx.error ? `: ${tx.error}` : ''}`;
+        await this.proposals.markFailed(proposal.id, failure, 'bot:EmergencyRefundBot');
+        throw new Error(failure);
       }
 
     } catch (error) {
+      if (error instanceof ProposalPendingError) {
+        console.log(`🗳️  ${error.message}`);
+        if (error.created) {
+          await this.notifyProposalOpened(error.proposal);
+        }
+        throw error;
+      }
+
       console.error('❌ Emergency refund failed:', error);
+
+      if (intent && error instanceof ApprovalRequiredError) {
+        // Nothing was sent; retry once an operator approves
+        await this.ledger.release(intent.id).catch(() => undefined);
+      } else if (intent && !(error instanceof TransactionPendingError)) {
+        await this.ledger.fail(intent.id, (error as Error).message).catch(() => undefined);
+      }
       
       // Send error notification
       if (this.discordNotifier.isEnabled()) {
@@ -206,7 +280,7 @@ export class EmergencyRefundBot {
     // 2. Use the session tracker from the main bot
     // 3. Manually provide session IDs to check
     
-    console.log('⚠️  Manual session ID input required - V7 doesn't support full session enumeration');
+    console.log('⚠️  Manual session ID input required - V7 does not support full session enumeration');
     console.log('📋 To check specific session: emergencyBot.emergencyRefund(sessionId, chainId)');
     
     return trappedSessions;
@@ -226,10 +300,10 @@ export class EmergencyRefundBot {
       
       const now = Math.floor(Date.now() / 1000);
       const timeSinceCreated = now - Number(session.createdAt);
-      const refundAmount = session.totalAmount - session.releasedAmount;
+      const refundAmount = (session.totalAmount as bigint) - (session.releasedAmount as bigint);
       
       // Conditions for trapped session:
-      const isNoShow = session.status === 0 && timeSinceCreated > 900; // 15+ minutes in Created status
+      const isNoShow = Number(session.status) === 0 && timeSinceCreated > 900; // 15+ minutes in Created status
       const hasUnreleasedFunds = refundAmount > 0;
       const isOldEnough = timeSinceCreated > 900; // At least 15 minutes old
       
@@ -241,14 +315,44 @@ export class EmergencyRefundBot {
     }
   }
 
+  /**
+   * Send the emergency refunds the approvers have signed for on this bot's chains.
+   * Returns the number sent; a proposal whose session changed since is left to expire.
+   */
+  async executeApprovedProposals(): Promise<number> {
+    const approved = this.proposals.getProposals('approved')
+      .filter(proposal => this.contracts.has(proposal.chainId) && !proposal.transactionHash);
+    let executed = 0;
+
+    for (const proposal of approved) {
+      try {
+        if (await this.emergencyRefund(proposal.sessionId, proposal.chainId, proposal.reason)) {
+          executed++;
+        }
+      } catch (error) {
+        console.error(`[Emergency] Approved proposal ${proposal.id} was not executed: ${(error as Error).message}`);
+      }
+    }
+    return executed;
+  }
+
+  getProposals(): EmergencyProposals {
+    return this.proposals;
+  }
+
+  private async notifyProposalOpened(proposal: EmergencyProposal): Promise<void> {
+    if (!this.discordNotifier.isEnabled()) return;
+
+    const { approvers, threshold } = this.proposals.getApprovers();
+    await this.discordNotifier.notifyCritical(
+      'Emergency release needs approval',
+      `Release ${proposal.amount} of ${proposal.token} from session ${proposal.sessionId} on ${this.getChainName(proposal.chainId)} to ${proposal.recipient}: ${proposal.reason}`,
+      `${threshold} of ${approvers.length} approvers must sign ${proposal.id} in the admin dashboard before ${new Date(proposal.expiresAt).toISOString()}`
+    );
+  }
+
   private getChainName(chainId: number): string {
-    const names: Record<number, string> = {
-      8453: 'Base',
-      10: 'Optimism',
-      42161: 'Arbitrum',
-      137: 'Polygon'
-    };
-    return names[chainId] || `Chain ${chainId}`;
+    return this.chainNames.get(chainId) || `Chain ${chainId}`;
   }
 
   /**
@@ -273,8 +377,10 @@ async function main() {
 🚨 Emergency Refund Bot - Chain Academy V7
 
 Commands:
-  refund <sessionId> <chainId> [reason]     Execute emergency refund
+  refund <sessionId> <chainId> [reason]     Propose, or once approved execute, an emergency refund
   check <sessionId> <chainId>               Check if session is trapped
+  proposals [status]                        List emergency proposals and their signatures
+  execute-approved                          Execute the refunds the approvers have signed for
   status                                    Show bot status
 
 Examples:
@@ -284,12 +390,23 @@ Examples:
 
 Environment Variables Required:
   BOT_OWNER_PRIVATE_KEY          Private key with contract owner permissions
+  BOT_CONFIG_FILE, BOT_PROFILE   Bot configuration with the chains to refund on (otherwise .env.v8)
   EMERGENCY_DISCORD_WEBHOOK_URL  Discord webhook for notifications (optional)
+  EMERGENCY_APPROVER_ADDRESSES   Operators whose EIP-712 signatures approve a refund
+  EMERGENCY_APPROVAL_THRESHOLD   Signatures a refund needs (default 2)
+
+A refund first opens a proposal; run refund (or execute-approved) again once it is approved.
 `);
     process.exit(1);
   }
 
-  const bot = new EmergencyRefundBot();
+  // Refund from the V7 escrows of the configured chains
+  dotenv.config({ path: '.env.v8' });
+  const { chains } = await loadBotConfig();
+  const bot = new EmergencyRefundBot(
+    chains.filter(chain => chain.contractAddress),
+    await resolveRotatedKey(process.env.BOT_OWNER_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY || '')
+  );
   const command = args[0];
 
   switch (command) {
@@ -317,6 +434,19 @@ Environment Variables Required:
       console.log(`Session ${checkSessionId} on chain ${checkChainId}: ${isTrapped ? '🚨 TRAPPED' : '✅ OK'}`);
       break;
 
+    case 'proposals': {
+      const proposals = bot.getProposals().getProposals(args[1] as ProposalStatus | undefined);
+      for (const proposal of proposals) {
+        console.log(`${proposal.id}  ${proposal.status.padEnd(8)}  chain ${proposal.chainId}  session ${proposal.sessionId}  ${proposal.amount} to ${proposal.recipient}  ${proposal.signatures.length}/${proposal.threshold} signatures`);
+      }
+      console.log(`${proposals.length} proposals`);
+      break;
+    }
+
+    case 'execute-approved':
+      console.log(`✅ Executed ${await bot.executeApprovedProposals()} approved emergency refunds`);
+      break;
+
     case 'status':
       console.log('🤖 Emergency Refund Bot Status:');
       console.log(JSON.stringify(bot.getStatus(), null, 2));
@@ -0,0 +1,86 @@
+/**
+ * ExecutionHistory - Persisted record of V8 bot executions
+ * Survives restarts so the admin dashboard can show past runs
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ExecutionRecordV8 } from './V8Types';
+
+export class ExecutionHistory {
+  private records: ExecutionRecordV8[] = [];
+  private filePath: string;
+  private maxRecords: number;
+
+  constructor(filePath: string = './data/execution-history-v8.json', maxRecords: number = 500) {
+    this.filePath = filePath;
+    this.maxRecords = maxRecords;
+    this.ensureDirectoryExists();
+    this.load();
+  }
+
+  private ensureDirectoryExists(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+
+        if (Array.isArray(parsed.executions)) {
+          this.records = parsed.executions.slice(0, this.maxRecords);
+          console.log(`[ExecutionHistory] Loaded ${this.records.length} executions from ${this.filePath}`);
+        }
+      }
+    } catch (error) {
+      console.error(`[ExecutionHistory] Error loading execution history:`, error);
+      this.records = [];
+    }
+  }
+
+  private save(): void {
+    try {
+      const data = {
+        version: '8.0.0',
+        lastSaved: Date.now(),
+        executions: this.records
+      };
+
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error(`[ExecutionHistory] Error saving execution history:`, error);
+    }
+  }
+
+  /**
+   * Record a finished execution (newest first)
+   */
+  public add(record: ExecutionRecordV8): void {
+    this.records.unshift(record);
+    if (this.records.length > this.maxRecords) {
+      this.records = this.records.slice(0, this.maxRecords);
+    }
+    this.save();
+  }
+
+  public getLast(): ExecutionRecordV8 | null {
+    return this.records[0] ?? null;
+  }
+
+  public getRecent(limit: number): ExecutionRecordV8[] {
+    return this.records.slice(0, limit);
+  }
+
+  public getSummary(): { totalExecutions: number; successfulExecutions: number; failedExecutions: number } {
+    const successfulExecutions = this.records.filter(r => r.success).length;
+    return {
+      totalExecutions: this.records.length,
+      successfulExecutions,
+      failedExecutions: this.records.length - successfulExecutions
+    };
+  }
+}
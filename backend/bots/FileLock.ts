@@ -0,0 +1,53 @@
+/**
+ * FileLock - Cross-process lock for the JSON files the bot processes share
+ * The lock is a file created exclusively next to the data. A lock left behind by a
+ * crashed process is removed once it is stale.
+ */
+
+import fs from 'fs';
+
+const LOCK_TIMEOUT = 10000;
+const LOCK_RETRY_DELAY = 50;
+const LOCK_STALE_AFTER = 30000; // a lock this old was left by a crashed process
+
+/**
+ * Run fn while holding lockPath. owner is written into the lock file for debugging.
+ * An async fn holds the lock until it settles.
+ */
+export async function withFileLock<T>(lockPath: string, owner: string, fn: () => T | Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT;
+
+  while (true) {
+    try {
+      fs.writeFileSync(lockPath, owner, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      if (isLockStale(lockPath)) {
+        console.warn(`[FileLock] Removing stale lock ${lockPath}`);
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the lock ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function isLockStale(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_AFTER;
+  } catch {
+    return false; // released in the meantime
+  }
+}
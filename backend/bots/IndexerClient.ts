@@ -0,0 +1,97 @@
+/**
+ * IndexerClient - Reads escrow sessions from the backend event indexer
+ * Session discovery without scanning block ranges from each bot
+ */
+
+import axios from 'axios';
+import { SessionStatus } from './V8Types';
+
+export interface IndexedSession {
+  chainId: number;
+  sessionId: string;
+  status: keyof typeof STATUS_CODES;
+  studentAddress?: string;
+  mentorAddress?: string;
+  totalAmount: string;
+  releasedAmount: string;
+  refundedAmount: string;
+  lastEventBlock: number;
+  createdAt?: string;
+}
+
+export interface IndexedEvent {
+  eventName: string;
+  contractAddress: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | number>;
+}
+
+// Indexer status names -> contract enum
+const STATUS_CODES = {
+  CREATED: SessionStatus.Created,
+  ACTIVE: SessionStatus.Active,
+  PAUSED: SessionStatus.Paused,
+  COMPLETED: SessionStatus.Completed,
+  CANCELLED: SessionStatus.Cancelled,
+  EXPIRED: SessionStatus.Expired,
+  DISPUTED: SessionStatus.Disputed,
+  ABANDONED: SessionStatus.Abandoned,
+  EMERGENCY: SessionStatus.Emergency
+};
+
+const PAGE_SIZE = 100;
+
+export class IndexerClient {
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor(baseUrl: string, timeout: number = 15000) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.timeout = timeout;
+  }
+
+  public static toSessionStatus(status: IndexedSession['status']): SessionStatus {
+    return STATUS_CODES[status];
+  }
+
+  /**
+   * All indexed sessions on a chain in the given states
+   */
+  public async getSessions(chainId: number, statuses: IndexedSession['status'][]): Promise<IndexedSession[]> {
+    const sessions: IndexedSession[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await axios.get(`${this.baseUrl}/sessions`, {
+        params: { chainId, status: statuses.join(','), page, limit: PAGE_SIZE },
+        timeout: this.timeout
+      });
+
+      sessions.push(...response.data.sessions);
+      totalPages = response.data.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return sessions;
+  }
+
+  /**
+   * Last block indexed per chain (undefined if the indexer has not reached it yet)
+   */
+  public async getIndexedBlock(chainId: number): Promise<number | undefined> {
+    const response = await axios.get(`${this.baseUrl}/status`, { timeout: this.timeout });
+    const chain = response.data.chains.find((c: { chainId: number }) => c.chainId === chainId);
+    return chain?.indexedBlock;
+  }
+
+  /**
+   * Indexed events of one session, oldest first
+   */
+  public async getSessionTimeline(chainId: number, sessionId: string): Promise<IndexedEvent[]> {
+    const response = await axios.get(`${this.baseUrl}/sessions/${chainId}/${sessionId}`, { timeout: this.timeout });
+    return response.data.timeline;
+  }
+}
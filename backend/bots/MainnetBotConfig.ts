@@ -1,23 +1,16 @@
 // MainnetBotConfig.ts - Configuration for Chain Academy Payment Bot on Mainnet L2s
 
 import { BotConfig, ChainConfig } from './types';
-
-// Environment variable validation
-function requireEnv(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Required environment variable ${name} is not set`);
-  }
-  return value;
-}
+import { ConfigError } from './config/BotConfigLoader';
 
 // Mainnet L2 Chain Configurations
+// Missing escrow addresses are reported together by validateMainnetConfig() at startup
 export const MAINNET_CHAIN_CONFIGS: ChainConfig[] = [
   {
     chainId: 8453, // Base
     name: 'Base',
     rpcUrl: process.env.BOT_BASE_RPC_URL || 'https://mainnet.base.org',
-    contractAddress: requireEnv('BASE_PROGRESSIVE_ESCROW_V8'),
+    contractAddress: process.env.BASE_PROGRESSIVE_ESCROW_V8 || '',
     gasLimit: BigInt(300000),
     maxFeePerGas: BigInt(50000000000), // 50 gwei
     maxPriorityFeePerGas: BigInt(2000000000), // 2 gwei
@@ -33,7 +26,7 @@ export const MAINNET_CHAIN_CONFIGS: ChainConfig[] = [
     chainId: 10, // Optimism
     name: 'Optimism',
     rpcUrl: process.env.BOT_OPTIMISM_RPC_URL || 'https://mainnet.optimism.io',
-    contractAddress: requireEnv('OPTIMISM_PROGRESSIVE_ESCROW_V8'),
+    contractAddress: process.env.OPTIMISM_PROGRESSIVE_ESCROW_V8 || '',
     gasLimit: BigInt(300000),
     maxFeePerGas: BigInt(30000000000), // 30 gwei
     maxPriorityFeePerGas: BigInt(1000000000), // 1 gwei
@@ -49,7 +42,7 @@ export const MAINNET_CHAIN_CONFIGS: ChainConfig[] = [
     chainId: 42161, // Arbitrum
     name: 'Arbitrum',
     rpcUrl: process.env.BOT_ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-    contractAddress: requireEnv('ARBITRUM_PROGRESSIVE_ESCROW_V8'),
+    contractAddress: process.env.ARBITRUM_PROGRESSIVE_ESCROW_V8 || '',
     gasLimit: BigInt(300000),
     maxFeePerGas: BigInt(10000000000), // 10 gwei
     maxPriorityFeePerGas: BigInt(100000000), // 0.1 gwei
@@ -65,7 +58,7 @@ export const MAINNET_CHAIN_CONFIGS: ChainConfig[] = [
     chainId: 137, // Polygon
     name: 'Polygon',
     rpcUrl: process.env.BOT_POLYGON_RPC_URL || 'https://polygon-rpc.com',
-    contractAddress: requireEnv('POLYGON_PROGRESSIVE_ESCROW_V8'),
+    contractAddress: process.env.POLYGON_PROGRESSIVE_ESCROW_V8 || '',
     gasLimit: BigInt(300000),
     maxFeePerGas: BigInt(30000000000), // 30 gwei
     maxPriorityFeePerGas: BigInt(2000000000), // 2 gwei
@@ -143,35 +136,30 @@ export const MAINNET_BOT_CONFIG: BotConfig = {
 export function validateMainnetConfig(): void {
   console.log('🔍 Validating mainnet bot configuration...');
 
-  // Check required environment variables
-  const requiredVars = [
-    'BOT_PRIVATE_KEY',
-    'BASE_PROGRESSIVE_ESCROW_V8',
-    'OPTIMISM_PROGRESSIVE_ESCROW_V8',
-    'ARBITRUM_PROGRESSIVE_ESCROW_V8',
-    'POLYGON_PROGRESSIVE_ESCROW_V8'
-  ];
-
-  const missingVars = requiredVars.filter(varName => !process.env[varName]);
-  if (missingVars.length > 0) {
-    throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
+  const issues: string[] = [];
+
+  // Check bot wallet
+  const botPrivateKey = process.env.BOT_PRIVATE_KEY;
+  if (!botPrivateKey) {
+    issues.push('missing required environment variable BOT_PRIVATE_KEY');
+  } else if (!/^[0-9a-fA-F]{64}$/.test(botPrivateKey)) {
+    issues.push('BOT_PRIVATE_KEY must be a valid 64-character private key without 0x prefix');
   }
 
   // Validate contract addresses
   MAINNET_CHAIN_CONFIGS.forEach(config => {
-    if (!config.contractAddress || config.contractAddress === '0x0000000000000000000000000000000000000000') {
-      throw new Error(`Invalid contract address for ${config.name}: ${config.contractAddress}`);
-    }
-    
-    if (!config.contractAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-      throw new Error(`Invalid contract address format for ${config.name}: ${config.contractAddress}`);
+    const variable = `${config.name.toUpperCase()}_PROGRESSIVE_ESCROW_V8`;
+    if (!config.contractAddress) {
+      issues.push(`missing required environment variable ${variable}`);
+    } else if (!/^0x[a-fA-F0-9]{40}$/.test(config.contractAddress)) {
+      issues.push(`${variable} is not a valid address: ${config.contractAddress}`);
+    } else if (config.contractAddress === '0x0000000000000000000000000000000000000000') {
+      issues.push(`${variable} is the zero address`);
     }
   });
 
-  // Check bot wallet
-  const botPrivateKey = process.env.BOT_PRIVATE_KEY;
-  if (!botPrivateKey || botPrivateKey.length !== 64) {
-    throw new Error('BOT_PRIVATE_KEY must be a valid 64-character private key without 0x prefix');
+  if (issues.length > 0) {
+    throw new ConfigError('environment', issues);
   }
 
   // Emergency controls check
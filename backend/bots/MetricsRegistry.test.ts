@@ -0,0 +1,88 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MetricsRegistry, startMetricsServer } from './MetricsRegistry';
+
+function scrape(server: http.Server, token?: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      path: '/metrics',
+      agent: false,
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }, res => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders counters per label set in the Prometheus text format', async () => {
+    const payments = registry.counter('bot_payments_total', 'Payments processed');
+    payments.inc({ chain: 'Base', method: 'autoComplete', result: 'success' });
+    payments.inc({ result: 'success', method: 'autoComplete', chain: 'Base' }, 2);
+    payments.inc({ chain: 'Optimism "OP"', method: 'processNoShow', result: 'failed' });
+
+    expect(await registry.render()).toBe([
+      '# HELP bot_payments_total Payments processed',
+      '# TYPE bot_payments_total counter',
+      'bot_payments_total{chain="Base",method="autoComplete",result="success"} 3',
+      'bot_payments_total{chain="Optimism \\"OP\\"",method="processNoShow",result="failed"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets with sum and count', async () => {
+    const duration = registry.histogram('bot_execution_duration_seconds', 'Run duration', [1, 10]);
+    duration.observe({ chain: 'Base' }, 0.5);
+    duration.observe({ chain: 'Base' }, 4);
+
+    const rendered = await registry.render();
+
+    expect(rendered).toContain('bot_execution_duration_seconds_bucket{chain="Base",le="1"} 1');
+    expect(rendered).toContain('bot_execution_duration_seconds_bucket{chain="Base",le="10"} 2');
+    expect(rendered).toContain('bot_execution_duration_seconds_bucket{chain="Base",le="+Inf"} 2');
+    expect(rendered).toContain('bot_execution_duration_seconds_sum{chain="Base"} 4.5');
+    expect(rendered).toContain('bot_execution_duration_seconds_count{chain="Base"} 2');
+  });
+
+  it('shares a metric registered twice and still renders when a collector fails', async () => {
+    const first = registry.gauge('trapped_funds_amount', 'Trapped funds per chain');
+    const second = registry.gauge('trapped_funds_amount', 'Trapped funds per chain');
+    registry.addCollector(() => first.set({ chain: 'Base' }, 50));
+    registry.addCollector(() => { throw new Error('RPC down'); });
+
+    expect(second).toBe(first);
+    expect(await registry.render()).toContain('trapped_funds_amount{chain="Base"} 50');
+  });
+
+  it('serves /metrics and asks for the token when one is configured', async () => {
+    registry.gauge('wallet_balance', 'Wallet balance').set({ chain: 'Base' }, 1.5);
+    const server = await startMetricsServer({ port: 0, token: 'scrape-token' }, registry);
+
+    try {
+      await expect(scrape(server)).resolves.toMatchObject({ status: 401 });
+      const { status, body } = await scrape(server, 'scrape-token');
+      expect(status).toBe(200);
+      expect(body).toContain('wallet_balance{chain="Base"} 1.5');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
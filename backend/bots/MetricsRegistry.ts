@@ -0,0 +1,244 @@
+/**
+ * MetricsRegistry - Prometheus text-format metrics for the bot and monitor processes
+ * Metrics register once per process on the shared `metrics` registry; the payment bot
+ * serves them from its control API, standalone monitors through startMetricsServer.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]; // seconds
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.keys(labels).sort().map(key => `${key}="${escapeLabelValue(String(labels[key]))}"`);
+  return entries.length > 0 ? `{${entries.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : value.toString();
+}
+
+abstract class Metric {
+  constructor(public readonly name: string, public readonly help: string, public readonly type: MetricType) {}
+
+  public abstract reset(): void;
+
+  protected abstract samples(): string[];
+
+  public render(): string {
+    return [`# HELP ${this.name} ${this.help.replace(/\n/g, ' ')}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || { labels, value: 0 };
+    series.value += value;
+    this.values.set(key, series);
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.values.set(seriesKey(labels), { labels, value });
+  }
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    const series = this.values.get(seriesKey(labels));
+    this.set(labels, (series?.value || 0) + value);
+  }
+
+  public dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private buckets: number[];
+  private values: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  public startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => void {
+    const start = process.hrtime.bigint();
+    return (extraLabels: MetricLabels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bucket) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run before every scrape, for values that are read rather than recorded (balances, queue sizes)
+   */
+  public addCollector(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  public async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        console.error('[MetricsRegistry] Collector failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  // Registering the same name again returns the existing metric, so several instances can share it
+  private register<T extends Metric>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      return existing as T;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Process-wide registry
+export const metrics = new MetricsRegistry();
+
+export interface MetricsServerConfig {
+  port: number;
+  host?: string;
+  token?: string; // when set, scrapes need Authorization: Bearer <token>
+}
+
+function isAuthorized(header: string, token: string): boolean {
+  const provided = Buffer.from(header);
+  const expected = Buffer.from(`Bearer ${token}`);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Serve GET /metrics for processes without a control API (trapped funds and balance monitors)
+ */
+export function startMetricsServer(config: MetricsServerConfig, registry: MetricsRegistry = metrics): Promise<http.Server> {
+  const host = config.host || '127.0.0.1';
+
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      if (req.method !== 'GET' || (req.url || '').split('?')[0] !== '/metrics') {
+        res.writeHead(404).end();
+        return;
+      }
+      if (config.token && !isAuthorized(req.headers.authorization || '', config.token)) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      registry.render()
+        .then(body => res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }).end(body))
+        .catch(error => {
+          console.error('[MetricsRegistry] Failed to render metrics:', error);
+          res.writeHead(500).end();
+        });
+    });
+
+    server.once('error', reject);
+    server.listen(config.port, host, () => {
+      console.log(`[MetricsRegistry] Serving /metrics on ${host}:${config.port}`);
+      resolve(server);
+    });
+  });
+}
@@ -1,6 +1,8 @@
 // Payment Confirmation Service for Chain Academy
 // Handles manual confirmation by mentors and prevents double-payment
 
+import { ProcessingLedger } from './ProcessingLedger';
+
 export interface SessionToConfirm {
   sessionId: string;
   mentorAddress: string;
@@ -127,9 +129,11 @@ export class PaymentConfirmationService {
   }
 
   /**
-   * Check if a session is eligible for auto-payment (24h+ without manual confirmation)
+   * Check if a session is eligible for auto-payment (24h+ without manual confirmation).
+   * localStorage only knows about confirmations made in this browser; pass the bots'
+   * processing ledger to also rule out sessions a bot has claimed or already paid.
    */
-  static isEligibleForAutoPayment(sessionId: string): boolean {
+  static isEligibleForAutoPayment(sessionId: string, ledger?: ProcessingLedger): boolean {
     const completedSessions = JSON.parse(localStorage.getItem('completed_sessions') || '[]');
     const session = completedSessions.find((s: any) => (s.sessionId || s.id) === sessionId);
     
@@ -137,6 +141,10 @@ export class PaymentConfirmationService {
       return false;
     }
 
+    if (ledger?.isClaimedOrSettled(sessionId, session.chainId || 11155111)) {
+      return false;
+    }
+
     const completedAt = new Date(session.completedAt);
     const hoursElapsed = (Date.now() - completedAt.getTime()) / (1000 * 60 * 60);
     
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ProcessingLedger, SubmittedTransaction } from './ProcessingLedger';
+
+const CHAIN_ID = 31337;
+const BOT = '0x00000000000000000000000000000000000000b0';
+const SESSION = ethers.id('session-1');
+
+const hash = (label: string) => ethers.id(label);
+
+/**
+ * Provider double: `mined` maps hashes to receipt status, `minedNonce` is the wallet's latest nonce
+ */
+function chain(mined: Record<string, number>, minedNonce: number) {
+  return {
+    getTransactionReceipt: async (txHash: string) => (txHash in mined ? { status: mined[txHash] } : null),
+    getTransactionCount: async () => minedNonce
+  } as unknown as ethers.Provider;
+}
+
+describe('ProcessingLedger reconciliation', () => {
+  let dir: string;
+  let ledger: ProcessingLedger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'processing-ledger-'));
+    ledger = new ProcessingLedger('RefundBot', path.join(dir, 'ledger.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const submit = async (transaction: SubmittedTransaction) => {
+    const intent = (await ledger.claim(SESSION, CHAIN_ID, 'refund', '100'))!;
+    await ledger.markSubmitted(intent.id, transaction);
+    return intent;
+  };
+
+  it('settles an intent from the receipt of a fee-bumped replacement', async () => {
+    const intent = await submit({ from: BOT, nonce: 4, hashes: [hash('original')] });
+    // The bot saw the transaction still pending after the manager replaced it
+    await ledger.markSubmitted(intent.id, { from: BOT, nonce: 4, hashes: [hash('original'), hash('replacement')] });
+
+    const result = await ledger.reconcile(CHAIN_ID, chain({ [hash('replacement')]: 1 }, 5));
+
+    expect(result).toEqual({ settled: 1, failed: 0, released: 0 });
+    expect(ledger.getIntents(SESSION, CHAIN_ID)[0]).toMatchObject({ status: 'settled', txHash: hash('replacement') });
+  });
+
+  it('fails an intent whose nonce was mined by a transaction it has no hash for', async () => {
+    // Crashed after the manager replaced the transaction, before the ledger heard of it
+    await submit({ from: BOT, nonce: 4, hashes: [hash('original')] });
+
+    const result = await ledger.reconcile(CHAIN_ID, chain({}, 5));
+
+    expect(result.failed).toBe(1);
+    expect(ledger.getIntents(SESSION, CHAIN_ID)[0].error).toMatch(/Nonce 4 was mined/);
+    expect(ledger.isClaimedOrSettled(SESSION, CHAIN_ID)).toBe(false);
+  });
+
+  it('keeps an intent submitted while its nonce has not been mined', async () => {
+    await submit({ from: BOT, nonce: 4, hashes: [hash('original')] });
+
+    const result = await ledger.reconcile(CHAIN_ID, chain({}, 4));
+
+    expect(result).toEqual({ settled: 0, failed: 0, released: 0 });
+    expect(ledger.isClaimedOrSettled(SESSION, CHAIN_ID)).toBe(true);
+  });
+
+  it('follows a fallback transaction on a new nonce instead of the one it replaced', async () => {
+    const intent = await submit({ from: BOT, nonce: 4, hashes: [hash('reverted')] });
+    await ledger.markSubmitted(intent.id, { from: BOT, nonce: 5, hashes: [hash('fallback')] });
+
+    const result = await ledger.reconcile(CHAIN_ID, chain({ [hash('reverted')]: 0 }, 5));
+
+    expect(result.failed).toBe(0);
+    expect(ledger.getIntents(SESSION, CHAIN_ID)[0]).toMatchObject({ status: 'submitted', txHashes: [hash('fallback')] });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * ProcessingLedger - Durable record of what the bots are doing to each session
+ * Every bot claims a session before sending a payment or refund for it, so overlapping
+ * runs (or different bots) never act on the same session twice. The ledger is one JSON
+ * file shared by the bot processes and guarded by a lock file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { withFileLock } from './FileLock';
+import { ManagedTransaction } from './TransactionManager';
+
+export type IntentStatus = 'claimed' | 'submitted' | 'settled' | 'failed' | 'released';
+
+export interface ActionIntent {
+  id: string;
+  sessionId: string;
+  chainId: number;
+  action: string; // e.g. autoCompleteSession, emergencyRelease
+  amount: string; // wei
+  owner: string; // bot name and pid
+  status: IntentStatus;
+  txHash: string | null; // latest hash sent, or the mined one once settled
+  txHashes: string[]; // every hash sent with the intent's nonce, fee-bumped replacements included
+  from: string | null;
+  nonce: number | null;
+  error: string | null;
+  claimedAt: number;
+  updatedAt: number;
+  expiresAt: number; // a claim that never got a transaction is released after this
+}
+
+// The transaction sent for an intent, as the transaction manager tracks it
+export type SubmittedTransaction = Pick<ManagedTransaction, 'from' | 'nonce' | 'hashes'>;
+
+export interface ClaimOptions {
+  ttl?: number; // ms
+  allowAfterSettled?: boolean; // operator actions may follow a settled payment or refund
+}
+
+export interface ReconcileResult {
+  settled: number;
+  failed: number;
+  released: number;
+}
+
+// How a submitted intent ended, found while reconciling
+interface ReceiptOutcome {
+  hash: string | null;
+  status: 'settled' | 'failed';
+  error: string | null;
+}
+
+// Another run or bot holds an active claim on the session
+export class SessionClaimedError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is already being processed`);
+    this.name = 'SessionClaimedError';
+  }
+}
+
+const DEFAULT_LEDGER_PATH = './data/processing-ledger.json';
+const DEFAULT_CLAIM_TTL = 30 * 60 * 1000;
+const SETTLED_RETENTION = 30 * 24 * 60 * 60 * 1000;
+const FINISHED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+export class ProcessingLedger {
+  private filePath: string;
+  private lockPath: string;
+  private owner: string;
+  private intents: Map<string, ActionIntent> = new Map();
+
+  constructor(botName: string, filePath: string = process.env.PROCESSING_LEDGER_PATH || DEFAULT_LEDGER_PATH) {
+    this.filePath = filePath;
+    this.lockPath = `${filePath}.lock`;
+    this.owner = `${botName}:${process.pid}`;
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  // ============ CLAIMS ============
+
+  /**
+   * Claim a session for an action. Returns null if another intent for the session is
+   * still active, or if the session was already settled (unless allowAfterSettled).
+   */
+  public async claim(
+    sessionId: string,
+    chainId: number,
+    action: string,
+    amount: bigint | string,
+    options: ClaimOptions = {}
+  ): Promise<ActionIntent | null> {
+    return this.withLock(() => {
+      const existing = this.findIntents(sessionId, chainId);
+
+      const active = existing.find(intent => this.isActive(intent));
+      if (active) {
+        console.log(`[ProcessingLedger] Session ${sessionId} is claimed by ${active.owner} for ${active.action} (${active.status}), skipping`);
+        return null;
+      }
+
+      const settled = existing.find(intent => intent.status === 'settled');
+      if (settled && !options.allowAfterSettled) {
+        console.log(`[ProcessingLedger] Session ${sessionId} already settled by ${settled.action} (${settled.txHash}), skipping`);
+        return null;
+      }
+
+      const now = Date.now();
+      const intent: ActionIntent = {
+        id: `intent_${now}_${Math.random().toString(36).slice(2, 11)}`,
+        sessionId: sessionId.toLowerCase(),
+        chainId,
+        action,
+        amount: amount.toString(),
+        owner: this.owner,
+        status: 'claimed',
+        txHash: null,
+        txHashes: [],
+        from: null,
+        nonce: null,
+        error: null,
+        claimedAt: now,
+        updatedAt: now,
+        expiresAt: now + (options.ttl ?? DEFAULT_CLAIM_TTL)
+      };
+      this.intents.set(intent.id, intent);
+      return intent;
+    });
+  }
+
+  /**
+   * Record the transaction sent for the intent. Call again after the transaction manager
+   * replaces it; hashes sent with the same nonce are kept, so whichever one is mined settles it.
+   */
+  public markSubmitted(intentId: string, transaction: SubmittedTransaction): Promise<void> {
+    return this.withLock(() => {
+      const intent = this.intents.get(intentId);
+      if (!intent) {
+        console.warn(`[ProcessingLedger] Unknown intent ${intentId}`);
+        return;
+      }
+
+      // A fallback method is a new transaction on another nonce; only its hashes matter
+      const sameNonce = intent.nonce === transaction.nonce && intent.from?.toLowerCase() === transaction.from.toLowerCase();
+      const hashes = sameNonce ? [...intent.txHashes, ...transaction.hashes] : transaction.hashes;
+      Object.assign(intent, {
+        status: 'submitted',
+        txHash: transaction.hashes[transaction.hashes.length - 1],
+        txHashes: Array.from(new Set(hashes)),
+        from: transaction.from,
+        nonce: transaction.nonce,
+        updatedAt: Date.now()
+      });
+    });
+  }
+
+  public settle(intentId: string, txHash: string): Promise<void> {
+    return this.update(intentId, 'settled', { txHash });
+  }
+
+  /**
+   * The action failed; the session can be claimed again
+   */
+  public fail(intentId: string, error: string): Promise<void> {
+    return this.update(intentId, 'failed', { error });
+  }
+
+  /**
+   * Nothing was sent; give the session back
+   */
+  public release(intentId: string): Promise<void> {
+    return this.update(intentId, 'released', {});
+  }
+
+  // ============ QUERIES ============
+
+  public getIntents(sessionId: string, chainId: number): ActionIntent[] {
+    this.load();
+    return this.findIntents(sessionId, chainId);
+  }
+
+  public isClaimedOrSettled(sessionId: string, chainId: number): boolean {
+    return this.getIntents(sessionId, chainId).some(intent => intent.status === 'settled' || this.isActive(intent));
+  }
+
+  // ============ RECONCILIATION ============
+
+  /**
+   * Settle or fail submitted intents from their receipts and release expired claims.
+   * Run at the start of every bot run so intents left behind by a crash are resolved.
+   * An intent whose nonce was mined by a transaction it has no hash for (a replacement
+   * sent after its last markSubmitted) is failed rather than left submitted forever; the
+   * retry goes through the transaction manager, which returns the mined transaction for
+   * the same key instead of sending again.
+   */
+  public async reconcile(chainId: number, provider: ethers.Provider): Promise<ReconcileResult> {
+    const result: ReconcileResult = { settled: 0, failed: 0, released: 0 };
+
+    this.load();
+    const submitted = Array.from(this.intents.values())
+      .filter(intent => intent.chainId === chainId && intent.status === 'submitted' && intent.txHashes.length > 0);
+
+    const outcomes: Map<string, ReceiptOutcome> = new Map();
+    for (const intent of submitted) {
+      try {
+        let outcome = await this.findReceipt(intent, provider);
+        if (!outcome && intent.from && intent.nonce !== null &&
+            await provider.getTransactionCount(intent.from, 'latest') > intent.nonce) {
+          // Mined between the two lookups, or by a transaction this intent has no hash for
+          outcome = await this.findReceipt(intent, provider) ||
+            { hash: null, status: 'failed', error: `Nonce ${intent.nonce} was mined by a transaction not on record` };
+        }
+        if (outcome) {
+          outcomes.set(intent.id, outcome);
+        }
+      } catch (error) {
+        console.error(`[ProcessingLedger] Error reconciling ${intent.txHash}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    await this.withLock(() => {
+      const now = Date.now();
+
+      for (const intent of this.intents.values()) {
+        if (intent.chainId !== chainId) continue;
+
+        const outcome = outcomes.get(intent.id);
+        if (intent.status === 'submitted' && outcome) {
+          intent.status = outcome.status;
+          intent.txHash = outcome.hash || intent.txHash;
+          intent.error = outcome.error;
+          intent.updatedAt = now;
+          result[outcome.status]++;
+        } else if (intent.status === 'claimed' && intent.expiresAt < now) {
+          intent.status = 'released';
+          intent.error = 'Claim expired without a transaction';
+          intent.updatedAt = now;
+          result.released++;
+        }
+      }
+    });
+
+    if (result.settled + result.failed + result.released > 0) {
+      console.log(`[ProcessingLedger] Reconciled chain ${chainId}: ${result.settled} settled, ${result.failed} failed, ${result.released} expired claims released`);
+    }
+    return result;
+  }
+
+  private async findReceipt(intent: ActionIntent, provider: ethers.Provider): Promise<ReceiptOutcome | null> {
+    for (const hash of intent.txHashes) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt.status === 1
+          ? { hash, status: 'settled', error: null }
+          : { hash, status: 'failed', error: 'Transaction reverted' };
+      }
+    }
+    return null;
+  }
+
+  // ============ PERSISTENCE ============
+
+  private async update(intentId: string, status: IntentStatus, changes: Partial<Pick<ActionIntent, 'txHash' | 'error'>>): Promise<void> {
+    await this.withLock(() => {
+      const intent = this.intents.get(intentId);
+      if (!intent) {
+        console.warn(`[ProcessingLedger] Unknown intent ${intentId}`);
+        return;
+      }
+
+      Object.assign(intent, changes, { status, updatedAt: Date.now() });
+    });
+  }
+
+  private findIntents(sessionId: string, chainId: number): ActionIntent[] {
+    const id = sessionId.toLowerCase();
+    return Array.from(this.intents.values()).filter(intent => intent.sessionId === id && intent.chainId === chainId);
+  }
+
+  // Submitted intents stay active until reconciled; claims without a transaction expire
+  private isActive(intent: ActionIntent): boolean {
+    return intent.status === 'submitted' || (intent.status === 'claimed' && intent.expiresAt >= Date.now());
+  }
+
+  /**
+   * Run fn against the latest ledger while holding the lock file, then save
+   */
+  private withLock<T>(fn: () => T): Promise<T> {
+    return withFileLock(this.lockPath, this.owner, () => {
+      this.load();
+      const result = fn();
+      this.save();
+      return result;
+    });
+  }
+
+  // Throws on an unreadable ledger: acting without knowing the claims is not safe
+  private load(): void {
+    this.intents.clear();
+    if (fs.existsSync(this.filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const intent of (parsed.intents || []) as ActionIntent[]) {
+        // Intents written before replacements were tracked only have their first hash
+        intent.txHashes = intent.txHashes || (intent.txHash ? [intent.txHash] : []);
+        intent.from = intent.from ?? null;
+        intent.nonce = intent.nonce ?? null;
+        this.intents.set(intent.id, intent);
+      }
+    }
+  }
+
+  private save(): void {
+    const now = Date.now();
+    for (const [id, intent] of this.intents) {
+      const retention = intent.status === 'settled' ? SETTLED_RETENTION : FINISHED_RETENTION;
+      if ((intent.status === 'settled' || intent.status === 'failed' || intent.status === 'released') &&
+          now - intent.updatedAt > retention) {
+        this.intents.delete(id);
+      }
+    }
+
+    const data = {
+      version: '8.0.0',
+      lastSaved: now,
+      intents: Array.from(this.intents.values())
+    };
+
+    // Write then rename so a crash never leaves a truncated ledger behind
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
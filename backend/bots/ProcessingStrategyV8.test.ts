@@ -0,0 +1,114 @@
+import { ethers } from 'ethers';
+import { NO_SHOW_AFTER_SECONDS, formatAge, parseSessionV8, selectProcessingStrategyV8 } from './ProcessingStrategyV8';
+import { ProgressiveSessionV8, RefundType, SessionHealthInfo, SessionStatus } from './V8Types';
+
+const NOW = 1700000000;
+const SESSION_ID = ethers.id('session-1');
+
+// Fields of getSessionV8 as ethers decodes them, with uint fields as bigint
+const onChainSession = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  sessionId: SESSION_ID,
+  student: '0x0000000000000000000000000000000000000051',
+  mentor: '0x00000000000000000000000000000000000000a1',
+  paymentToken: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  totalAmount: BigInt(50000000),
+  releasedAmount: BigInt(0),
+  sessionDuration: BigInt(3600),
+  createdAt: BigInt(NOW - 3600),
+  startTime: BigInt(0),
+  lastHeartbeat: BigInt(0),
+  effectivePausedTime: BigInt(0),
+  lastActivityTime: BigInt(0),
+  status: BigInt(SessionStatus.Created),
+  isActive: false,
+  isPaused: false,
+  surveyCompleted: false,
+  stateTransitionCount: BigInt(0),
+  lastStateChange: BigInt(0),
+  emergencyLocked: false,
+  disputeReason: BigInt(0),
+  disputeCreatedAt: BigInt(0),
+  disputeInitiator: ethers.ZeroAddress,
+  arbitrationRequired: false,
+  recoveryAttempts: BigInt(0),
+  lastRecoveryAttempt: BigInt(0),
+  autoRecoveryEnabled: true,
+  ...overrides
+});
+
+const session = (overrides: Record<string, unknown> = {}): ProgressiveSessionV8 => {
+  const fields = onChainSession(overrides);
+  return parseSessionV8(ethers.Result.fromItems(Object.values(fields), Object.keys(fields)));
+};
+
+const health = (healthy: boolean, details: string = healthy ? 'OK' : 'Heartbeat timeout'): SessionHealthInfo => ({
+  healthy,
+  details,
+  sessionId: SESSION_ID,
+  lastChecked: NOW,
+  issues: healthy ? [] : [details],
+  recoveryRecommended: !healthy
+});
+
+describe('selectProcessingStrategyV8', () => {
+  it('refunds a session that never started within a day of creation', () => {
+    const decision = selectProcessingStrategyV8(session({ createdAt: BigInt(NOW - NO_SHOW_AFTER_SECONDS - 7200) }), health(false), NOW);
+
+    expect(decision.strategy.primary.functionName).toBe('processNoShowRefund');
+    expect(decision.strategy.fallbacks.map(method => method.functionName)).toEqual(['autoCompleteSession']);
+    expect(decision.refundType).toBe(RefundType.NoShow);
+    expect(decision.checks).toEqual([{
+      rule: 'no-show',
+      condition: 'status Created (needs Created), created 1d 2h ago (needs more than 1d)',
+      passed: true
+    }]);
+  });
+
+  it('records each rule it walked through before the one that matched', () => {
+    const decision = selectProcessingStrategyV8(session({ status: BigInt(SessionStatus.Paused) }), health(false), NOW);
+
+    expect(decision.strategy.primary.functionName).toBe('executeAutoRecovery');
+    expect(decision.refundType).toBe(RefundType.Technical);
+    expect(decision.checks.map(check => [check.rule, check.passed])).toEqual([
+      ['no-show', false],
+      ['dispute', false],
+      ['auto-recovery', true]
+    ]);
+    expect(decision.checks[2].condition).toContain('unhealthy (Heartbeat timeout)');
+  });
+
+  it('leaves a disputed session to an admin and completes an active one', () => {
+    const disputed = selectProcessingStrategyV8(session({ status: BigInt(SessionStatus.Disputed) }), health(true), NOW);
+    const active = selectProcessingStrategyV8(session({ status: BigInt(SessionStatus.Active) }), health(true), NOW);
+
+    expect(disputed.strategy).toMatchObject({ primary: { functionName: 'autoCompleteSession' }, requiresAdmin: true });
+    expect(disputed.refundType).toBe(RefundType.Dispute);
+    expect(active.strategy).toMatchObject({ primary: { description: 'Standard session completion' }, requiresAdmin: false });
+    expect(active.checks.map(check => check.rule)).toEqual(['no-show', 'dispute', 'auto-recovery', 'completion']);
+  });
+
+  it('does nothing for a healthy session that needs no processing', () => {
+    const decision = selectProcessingStrategyV8(session(), health(true), NOW);
+
+    expect(decision.strategy.primary.functionName).toBe('none');
+    expect(decision.checks.every(check => !check.passed)).toBe(true);
+    expect(decision.refundType).toBeUndefined();
+  });
+});
+
+describe('parseSessionV8', () => {
+  it('turns the uint fields of the on-chain tuple into numbers and keeps amounts as bigint', () => {
+    expect(session({ status: BigInt(SessionStatus.Completed) })).toMatchObject({
+      status: SessionStatus.Completed,
+      createdAt: NOW - 3600,
+      sessionDuration: 3600,
+      totalAmount: BigInt(50000000)
+    });
+  });
+});
+
+describe('formatAge', () => {
+  it('shows the two largest units', () => {
+    expect([30, 45 * 60, 3 * 3600 + 120, 86400, 2 * 86400 + 3 * 3600, -90].map(formatAge)).toEqual(['30s', '45m', '3h 2m', '1d', '2d 3h', '-1m']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * ProcessingStrategyV8 - How the V8 payment bot decides what to do with a session
+ * Pure functions over the session state and its health check, shared by DailyPaymentBotV8 and the
+ * replay tool (replay-session.ts), which re-runs them against historical state. Every rule the
+ * decision walks through is recorded as a check, so a decision can be explained after the fact.
+ */
+
+import { ethers } from 'ethers';
+import {
+  SessionStatus,
+  RefundType,
+  ProgressiveSessionV8,
+  SessionHealthInfo,
+  ProcessingStrategy
+} from './V8Types';
+
+// Sessions still in Created this long after creation are treated as no-shows
+export const NO_SHOW_AFTER_SECONDS = 24 * 60 * 60;
+
+export interface StrategyCheck {
+  rule: string;
+  condition: string; // the condition with the values it was evaluated on
+  passed: boolean;
+}
+
+export interface StrategyDecisionV8 {
+  strategy: ProcessingStrategy;
+  refundType?: RefundType;
+  checks: StrategyCheck[]; // rules in evaluation order, up to the first that matched
+}
+
+/**
+ * Normalize the getSessionV8 tuple: ethers returns uint256/uint8 as bigint
+ */
+export function parseSessionV8(sessionData: ethers.Result): ProgressiveSessionV8 {
+  return {
+    sessionId: sessionData.sessionId,
+    student: sessionData.student,
+    mentor: sessionData.mentor,
+    paymentToken: sessionData.paymentToken,
+    totalAmount: sessionData.totalAmount,
+    releasedAmount: sessionData.releasedAmount,
+    sessionDuration: Number(sessionData.sessionDuration),
+    createdAt: Number(sessionData.createdAt),
+    startTime: Number(sessionData.startTime),
+    lastHeartbeat: Number(sessionData.lastHeartbeat),
+    effectivePausedTime: Number(sessionData.effectivePausedTime),
+    lastActivityTime: Number(sessionData.lastActivityTime),
+    status: Number(sessionData.status) as SessionStatus,
+    isActive: sessionData.isActive,
+    isPaused: sessionData.isPaused,
+    surveyCompleted: sessionData.surveyCompleted,
+    stateTransitionCount: Number(sessionData.stateTransitionCount),
+    lastStateChange: Number(sessionData.lastStateChange),
+    emergencyLocked: sessionData.emergencyLocked,
+    disputeReason: Number(sessionData.disputeReason),
+    disputeCreatedAt: Number(sessionData.disputeCreatedAt),
+    disputeInitiator: sessionData.disputeInitiator,
+    arbitrationRequired: sessionData.arbitrationRequired,
+    recoveryAttempts: Number(sessionData.recoveryAttempts),
+    lastRecoveryAttempt: Number(sessionData.lastRecoveryAttempt),
+    autoRecoveryEnabled: sessionData.autoRecoveryEnabled
+  };
+}
+
+/**
+ * Pick the processing strategy for a session at `now` (unix seconds)
+ */
+export function selectProcessingStrategyV8(
+  sessionData: ProgressiveSessionV8,
+  healthInfo: SessionHealthInfo,
+  now: number = Math.floor(Date.now() / 1000)
+): StrategyDecisionV8 {
+  const checks: StrategyCheck[] = [];
+  const status = SessionStatus[sessionData.status] ?? String(sessionData.status);
+  const decide = (strategy: ProcessingStrategy): StrategyDecisionV8 => ({
+    strategy,
+    refundType: determineRefundType(sessionData, healthInfo),
+    checks
+  });
+
+  // No-show: never started within a day of creation
+  const cutoffTime = now - NO_SHOW_AFTER_SECONDS;
+  const noShow = sessionData.status === SessionStatus.Created && sessionData.createdAt < cutoffTime;
+  checks.push({
+    rule: 'no-show',
+    condition: `status ${status} (needs Created), created ${formatAge(now - sessionData.createdAt)} ago (needs more than ${formatAge(NO_SHOW_AFTER_SECONDS)})`,
+    passed: noShow
+  });
+  if (noShow) {
+    return decide({
+      primary: {
+        method: 'processNoShow',
+        functionName: 'processNoShowRefund',
+        parameters: [sessionData.sessionId],
+        gasLimit: BigInt(200000),
+        description: 'Process no-show refund'
+      },
+      fallbacks: [
+        {
+          method: 'autoComplete',
+          functionName: 'autoCompleteSession',
+          parameters: [sessionData.sessionId],
+          gasLimit: BigInt(200000),
+          description: 'Fallback auto-complete'
+        }
+      ],
+      requiresAdmin: false,
+      estimated: {
+        successRate: 0.98,
+        processingTime: 25000,
+        gasEstimate: BigInt(180000)
+      }
+    });
+  }
+
+  // Dispute resolution needed
+  const disputed = sessionData.status === SessionStatus.Disputed;
+  checks.push({
+    rule: 'dispute',
+    condition: `status ${status} (needs Disputed)`,
+    passed: disputed
+  });
+  if (disputed) {
+    return decide({
+      primary: {
+        method: 'autoComplete',
+        functionName: 'autoCompleteSession',
+        parameters: [sessionData.sessionId],
+        gasLimit: BigInt(250000),
+        description: 'Auto-resolve expired dispute'
+      },
+      fallbacks: [],
+      requiresAdmin: true,
+      estimated: {
+        successRate: 0.90,
+        processingTime: 35000,
+        gasEstimate: BigInt(220000)
+      }
+    });
+  }
+
+  // Auto-recovery scenario
+  const recover = !healthInfo.healthy && sessionData.autoRecoveryEnabled;
+  checks.push({
+    rule: 'auto-recovery',
+    condition: `health check ${healthInfo.healthy ? 'healthy' : `unhealthy (${healthInfo.details})`} (needs unhealthy), auto-recovery ${sessionData.autoRecoveryEnabled ? 'enabled' : 'disabled'} (needs enabled)`,
+    passed: recover
+  });
+  if (recover) {
+    return decide({
+      primary: {
+        method: 'autoComplete',
+        functionName: 'executeAutoRecovery',
+        parameters: [sessionData.sessionId],
+        gasLimit: BigInt(300000),
+        description: 'Execute auto-recovery'
+      },
+      fallbacks: [
+        {
+          method: 'processEmergency',
+          functionName: 'processEmergencyRefund',
+          parameters: [sessionData.sessionId, 'Auto-recovery triggered by bot'],
+          gasLimit: BigInt(250000),
+          description: 'Emergency refund as fallback'
+        }
+      ],
+      requiresAdmin: false,
+      estimated: {
+        successRate: 0.85,
+        processingTime: 40000,
+        gasEstimate: BigInt(280000)
+      }
+    });
+  }
+
+  // Standard processing for completed/active sessions
+  const completable = sessionData.status === SessionStatus.Active || sessionData.status === SessionStatus.Completed;
+  checks.push({
+    rule: 'completion',
+    condition: `status ${status} (needs Active or Completed)`,
+    passed: completable
+  });
+  if (completable) {
+    return decide({
+      primary: {
+        method: 'autoComplete',
+        functionName: 'autoCompleteSession',
+        parameters: [sessionData.sessionId],
+        gasLimit: BigInt(200000),
+        description: 'Standard session completion'
+      },
+      fallbacks: [],
+      requiresAdmin: false,
+      estimated: {
+        successRate: 0.95,
+        processingTime: 30000,
+        gasEstimate: BigInt(150000)
+      }
+    });
+  }
+
+  // No processing needed
+  return decide({
+    primary: {
+      method: 'none',
+      functionName: 'none',
+      parameters: [],
+      gasLimit: BigInt(0),
+      description: 'No processing required'
+    },
+    fallbacks: [],
+    requiresAdmin: false,
+    estimated: {
+      successRate: 1.0,
+      processingTime: 0,
+      gasEstimate: BigInt(0)
+    }
+  });
+}
+
+function determineRefundType(sessionData: ProgressiveSessionV8, healthInfo: SessionHealthInfo): RefundType | undefined {
+  if (sessionData.status === SessionStatus.Created && !healthInfo.healthy) {
+    return RefundType.NoShow;
+  }
+  if (sessionData.status === SessionStatus.Disputed) {
+    return RefundType.Dispute;
+  }
+  if (!healthInfo.healthy) {
+    return RefundType.Technical;
+  }
+  return undefined;
+}
+
+/**
+ * Duration in seconds as "2d 3h", "1d", "45m" or "30s"
+ */
+export function formatAge(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const sign = seconds < 0 ? '-' : '';
+  if (abs >= 86400) return `${sign}${Math.floor(abs / 86400)}d${abs % 86400 >= 3600 ? ` ${Math.floor((abs % 86400) / 3600)}h` : ''}`;
+  if (abs >= 3600) return `${sign}${Math.floor(abs / 3600)}h${abs % 3600 >= 60 ? ` ${Math.floor((abs % 3600) / 60)}m` : ''}`;
+  if (abs >= 60) return `${sign}${Math.floor(abs / 60)}m`;
+  return `${sign}${abs}s`;
+}
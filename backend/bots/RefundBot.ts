@@ -8,6 +8,11 @@ import {
   BotMetrics
 } from './types';
 import { DiscordNotifier, DiscordWebhookConfig } from './DiscordNotifier';
+import { FailoverRpcProvider, getRpcProvider } from './RpcProvider';
+import { TransactionManager, ManagedTransaction, TransactionPendingError, getTransactionManager } from './TransactionManager';
+import { ProcessingLedger, ActionIntent } from './ProcessingLedger';
+import { SpendingPolicy, PolicyViolationError, ApprovalRequiredError } from './SpendingPolicy';
+import { EmergencyProposals, ProposalPendingError, ProposalRejectedError } from './EmergencyProposals';
 
 /**
  * RefundBot - Handles no-show refunds and trapped funds in ProgressiveEscrowV7
@@ -26,20 +31,31 @@ const REFUND_ABI = [
 export class RefundBot {
   private config: BotConfig;
   private chainConfigs: Map<number, ChainConfig>;
-  private providers: Map<number, ethers.JsonRpcProvider>;
+  private providers: Map<number, FailoverRpcProvider>;
   private wallets: Map<number, ethers.Wallet>;
   private contracts: Map<number, ethers.Contract>;
+  private txManagers: Map<number, TransactionManager>;
   private metrics: BotMetrics;
   private discordNotifier: DiscordNotifier;
+  private ledger: ProcessingLedger;
+  private spendingPolicy: SpendingPolicy;
+  private proposals: EmergencyProposals;
   private isRunning: boolean = false;
   private isPaused: boolean = false;
+  private privateKey?: string;
 
-  constructor(config: BotConfig, chainConfigs: ChainConfig[]) {
+  constructor(
+    config: BotConfig,
+    chainConfigs: ChainConfig[],
+    privateKey: string | undefined = process.env.REFUND_BOT_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY
+  ) {
     this.config = config;
+    this.privateKey = privateKey;
     this.chainConfigs = new Map();
     this.providers = new Map();
     this.wallets = new Map();
     this.contracts = new Map();
+    this.txManagers = new Map();
     
     // Initialize Discord notifier
     const discordConfig: DiscordWebhookConfig = {
@@ -50,6 +66,9 @@ export class RefundBot {
       retryDelay: 2000
     };
     this.discordNotifier = new DiscordNotifier(discordConfig);
+    this.ledger = new ProcessingLedger('RefundBot');
+    this.spendingPolicy = new SpendingPolicy('RefundBot');
+    this.proposals = new EmergencyProposals();
     
     // Initialize metrics
     this.metrics = {
@@ -72,18 +91,22 @@ export class RefundBot {
 
   private setupChain(chainConfig: ChainConfig): void {
     try {
-      // Setup provider
-      const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+      // Setup provider (fallback RPCs, timeout and retries from the chain config, otherwise the environment)
+      const provider = getRpcProvider(chainConfig.chainId, chainConfig.rpcUrl, chainConfig.rpcSettings);
       this.providers.set(chainConfig.chainId, provider);
 
       // Setup wallet
-      const privateKey = process.env.REFUND_BOT_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY;
-      if (!privateKey) {
+      if (!this.privateKey) {
         throw new Error('REFUND_BOT_PRIVATE_KEY environment variable not set');
       }
       
-      const wallet = new ethers.Wallet(privateKey, provider);
+      const wallet = new ethers.Wallet(this.privateKey, provider);
       this.wallets.set(chainConfig.chainId, wallet);
+      this.txManagers.set(chainConfig.chainId, getTransactionManager(wallet, {
+        chainId: chainConfig.chainId,
+        maxFeePerGas: chainConfig.maxFeePerGas,
+        maxPriorityFeePerGas: chainConfig.maxPriorityFeePerGas
+      }, this.spendingPolicy));
 
       // Setup contract
       const contract = new ethers.Contract(
@@ -205,8 +228,11 @@ export class RefundBot {
     }
 
     try {
-      // Get session details
-      const session: ProgressiveSession = await contract.getSession(sessionId);
+      // Get session details (the refund amount is taken from it, so confirm it on a second RPC if enabled)
+      const provider = this.providers.get(chainId)!;
+      const session: ProgressiveSession = provider.isCrossCheckEnabled()
+        ? await provider.crossCheck(`session ${sessionId}`, endpoint => (contract.connect(endpoint) as ethers.Contract).getSession(sessionId))
+        : await contract.getSession(sessionId);
       
       if (session.student === ethers.ZeroAddress) {
         throw new Error('Session not found');
@@ -236,8 +262,43 @@ export class RefundBot {
         };
       }
 
+      // Claim the session so no other run or bot refunds it at the same time
+      await this.ledger.reconcile(chainId, provider);
+      const intent = await this.ledger.claim(sessionId, chainId, 'refund', refundAmount);
+      if (!intent) {
+        return {
+          sessionId,
+          success: false,
+          error: 'Session is already being processed or was settled',
+          timestamp: Date.now(),
+          chainId
+        };
+      }
+
       // Determine refund strategy based on session state
-      return await this.executeRefundStrategy(sessionId, session, timeSinceCreated, refundAmount, contract, chainId);
+      try {
+        const result = await this.executeRefundStrategy(sessionId, session, timeSinceCreated, refundAmount, contract, chainId, intent);
+        await this.ledger.settle(intent.id, result.transactionHash!);
+        return result;
+      } catch (error) {
+        if (error instanceof TransactionPendingError) {
+          // Left claimed until the next run reconciles the receipt
+          await this.ledger.markSubmitted(intent.id, error.transaction).catch(() => undefined);
+        } else if (error instanceof ApprovalRequiredError || error instanceof ProposalPendingError) {
+          // Nothing was sent; a later run refunds once the operators approve
+          await this.ledger.release(intent.id).catch(() => undefined);
+          if (error instanceof ProposalPendingError && error.created && this.discordNotifier.isEnabled()) {
+            await this.discordNotifier.notifyCritical(
+              'Emergency release needs approval',
+              `Refund ${refundAmount} from session ${sessionId} on ${this.getChainName(chainId)} to ${session.student}`,
+              `${error.proposal.threshold} approvers must sign ${error.proposal.id} in the admin dashboard`
+            );
+          }
+        } else {
+          await this.ledger.fail(intent.id, (error as Error).message).catch(() => undefined);
+        }
+        throw error;
+      }
 
     } catch (error) {
       console.error(`[RefundBot] Failed to process refund for session ${sessionId}:`, error);
@@ -260,7 +321,8 @@ export class RefundBot {
     timeSinceCreated: number, 
     refundAmount: bigint,
     contract: ethers.Contract,
-    chainId: number
+    chainId: number,
+    intent: ActionIntent
   ): Promise<PaymentResult> {
     
     const SESSION_START_TIMEOUT = 15 * 60; // 15 minutes
@@ -269,17 +331,13 @@ export class RefundBot {
     console.log(`[RefundBot] Session analysis: Status=${session.status}, TimeSinceCreated=${Math.floor(timeSinceCreated/60)}min`);
 
     // Strategy 1: Try normal expiry function for Created sessions
-    if (session.status === SessionStatus.Created && timeSinceCreated > SESSION_START_TIMEOUT) {
+    // ethers decodes the uint8 status as a bigint
+    if (Number(session.status) === SessionStatus.Created && timeSinceCreated > SESSION_START_TIMEOUT) {
       console.log('[RefundBot] Attempting normal session expiry...');
       try {
-        const tx = await contract.checkAndExpireSession(sessionId, {
-          gasLimit: 200000
-        });
-        
-        console.log(`[RefundBot] Expiry transaction: ${tx.hash}`);
-        const receipt = await tx.wait();
+        const tx = await this.sendAndConfirm(chainId, contract, 'checkAndExpireSession', [sessionId], intent, session.paymentToken, 'Expiry');
         
-        if (receipt.status === 1) {
+        if (tx) {
           console.log('[RefundBot] Normal expiry successful');
           
           if (this.discordNotifier.isEnabled()) {
@@ -289,21 +347,22 @@ export class RefundBot {
               refundAmount,
               session.paymentToken === ethers.ZeroAddress ? 'ETH' : 'TOKEN',
               this.getChainName(chainId),
-              tx.hash,
-              'No-show session expired'
+              'No-show session expired',
+              tx.confirmedHash!
             );
           }
           
           return {
             sessionId,
             success: true,
-            transactionHash: tx.hash,
-            gasUsed: receipt.gasUsed,
+            transactionHash: tx.confirmedHash!,
+            gasUsed: BigInt(tx.gasUsed!),
             timestamp: Date.now(),
             chainId
           };
         }
       } catch (expireError) {
+        if (this.isTerminal(expireError)) throw expireError;
         console.log(`[RefundBot] Normal expiry failed: ${(expireError as Error).message}`);
         console.log('[RefundBot] This indicates the fund-trapping bug - proceeding to emergency refund');
       }
@@ -316,27 +375,48 @@ export class RefundBot {
       try {
         // Check if we have owner permissions
         const owner = await contract.owner();
-        const ourAddress = await contract.runner?.getAddress();
+        const ourAddress = this.wallets.get(chainId)?.address;
         
         if (!ourAddress || owner.toLowerCase() !== ourAddress.toLowerCase()) {
           throw new Error(`Not contract owner. Owner: ${owner}, Our address: ${ourAddress}`);
         }
 
-        const tx = await contract.emergencyRelease(
+        // Only a release the approvers signed is sent (throws ProposalPendingError until then)
+        const hoursTrapped = Math.floor(timeSinceCreated / 3600);
+        const proposal = await this.proposals.authorize({
+          chainId,
+          contract: contract.target as string,
+          sessionId,
+          recipient: session.student,
+          token: session.paymentToken,
+          amount: refundAmount,
+          reason: `Emergency refund: No-show session trapped for ${hoursTrapped} hours`,
+          evidence: {
+            source: 'RefundBot',
+            sessionStatus: Number(session.status),
+            totalAmount: session.totalAmount.toString(),
+            releasedAmount: session.releasedAmount.toString(),
+            createdAt: Number(session.createdAt),
+            timeTrapped: hoursTrapped
+          },
+          proposedBy: 'bot:RefundBot'
+        });
+
+        const tx = await this.sendAndConfirm(chainId, contract, 'emergencyRelease', [
           sessionId,
           session.student,
           refundAmount,
-          `Emergency refund: No-show session trapped for ${Math.floor(timeSinceCreated/3600)} hours`,
-          {
-            gasLimit: 250000
+          proposal.reason
+        ], intent, session.paymentToken, 'Emergency refund').catch(async error => {
+          if (error instanceof TransactionPendingError) {
+            await this.proposals.markSubmitted(proposal.id, error.transaction.hashes[error.transaction.hashes.length - 1], 'bot:RefundBot');
           }
-        );
-        
-        console.log(`[RefundBot] Emergency refund transaction: ${tx.hash}`);
-        const receipt = await tx.wait();
-        
-        if (receipt.status === 1) {
+          throw error;
+        });
+
+        if (tx) {
           console.log('[RefundBot] Emergency refund successful');
+          await this.proposals.markExecuted(proposal.id, tx.confirmedHash!, 'bot:RefundBot');
           
           if (this.discordNotifier.isEnabled()) {
             await this.discordNotifier.notifyRefundProcessed(
@@ -345,50 +425,49 @@ export class RefundBot {
               refundAmount,
               session.paymentToken === ethers.ZeroAddress ? 'ETH' : 'TOKEN',
               this.getChainName(chainId),
-              tx.hash,
-              'Emergency refund for trapped funds'
+              'Emergency refund for trapped funds',
+              tx.confirmedHash!
             );
           }
           
           return {
             sessionId,
             success: true,
-            transactionHash: tx.hash,
-            gasUsed: receipt.gasUsed,
+            transactionHash: tx.confirmedHash!,
+            gasUsed: BigInt(tx.gasUsed!),
             timestamp: Date.now(),
             chainId
           };
         }
+        await this.proposals.markFailed(proposal.id, 'Transaction reverted or dropped', 'bot:RefundBot');
       } catch (emergencyError) {
+        if (this.isTerminal(emergencyError)) throw emergencyError;
         console.error(`[RefundBot] Emergency refund failed: ${(emergencyError as Error).message}`);
       }
     }
 
     // Strategy 3: Cancel session if possible (Created status only)
-    if (session.status === SessionStatus.Created) {
+    if (Number(session.status) === SessionStatus.Created) {
       console.log('[RefundBot] Attempting session cancellation...');
       try {
         // Note: cancelSession requires participant to call it
         // This won't work from bot unless bot is student/mentor
         // Leaving this for completeness but it likely won't work
-        const tx = await contract.cancelSession(sessionId, {
-          gasLimit: 200000
-        });
-        
-        const receipt = await tx.wait();
+        const tx = await this.sendAndConfirm(chainId, contract, 'cancelSession', [sessionId], intent, session.paymentToken, 'Cancellation');
         
-        if (receipt.status === 1) {
+        if (tx) {
           console.log('[RefundBot] Session cancellation successful');
           return {
             sessionId,
             success: true,
-            transactionHash: tx.hash,
-            gasUsed: receipt.gasUsed,
+            transactionHash: tx.confirmedHash!,
+            gasUsed: BigInt(tx.gasUsed!),
             timestamp: Date.now(),
             chainId
           };
         }
       } catch (cancelError) {
+        if (this.isTerminal(cancelError)) throw cancelError;
         console.log(`[RefundBot] Session cancellation failed: ${(cancelError as Error).message}`);
       }
     }
@@ -397,6 +476,48 @@ export class RefundBot {
     throw new Error(`All refund strategies failed for session ${sessionId}. Manual intervention required.`);
   }
 
+  /**
+   * Send through the chain's transaction manager (keyed by function and session, so a
+   * restart resumes instead of refunding twice) and wait for it. Returns null if it
+   * reverted or was dropped; throws while it is still pending so no other strategy runs.
+   * Every strategy refunds the intent's amount of the session token.
+   */
+  private async sendAndConfirm(
+    chainId: number,
+    contract: ethers.Contract,
+    functionName: string,
+    args: unknown[],
+    intent: ActionIntent,
+    token: string,
+    description: string
+  ): Promise<ManagedTransaction | null> {
+    const manager = this.txManagers.get(chainId)!;
+    const sent = await manager.send(`${functionName}:${intent.sessionId}`, contract, functionName, args, description, {
+      sessionId: intent.sessionId,
+      token,
+      amount: intent.amount
+    }, this.spendingPolicy);
+    console.log(`[RefundBot] ${description} transaction: ${sent.hashes[sent.hashes.length - 1]}`);
+    await this.ledger.markSubmitted(intent.id, sent);
+
+    const result = await manager.wait(sent.key);
+    if (result.status === 'pending') {
+      throw new TransactionPendingError(result);
+    }
+    return result.status === 'confirmed' ? result : null;
+  }
+
+  // Errors that end the refund instead of moving on to the next strategy: a transaction still in
+  // flight, a spending policy that would stop the other strategies as well, or an emergency release
+  // waiting for (or refused) its approvers
+  private isTerminal(error: unknown): boolean {
+    return error instanceof TransactionPendingError ||
+      error instanceof PolicyViolationError ||
+      error instanceof ApprovalRequiredError ||
+      error instanceof ProposalPendingError ||
+      error instanceof ProposalRejectedError;
+  }
+
   private updateMetrics(results: PaymentResult[]): void {
     this.metrics.totalProcessed += results.length;
     this.metrics.successfulPayments += results.filter(r => r.success).length;
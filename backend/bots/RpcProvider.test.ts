@@ -0,0 +1,112 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FailoverRpcProvider, RpcCrossCheckError, RpcSettings, getRpcProvider } from './RpcProvider';
+
+const CHAIN_ID = 31337;
+
+const settings = (overrides: Partial<RpcSettings> = {}): RpcSettings => ({
+  timeout: 2000,
+  retries: 1,
+  fallbackRpcs: [],
+  ...overrides
+});
+
+/**
+ * Local JSON-RPC endpoint answering eth_blockNumber with `blockNumber`, or failing with HTTP 500
+ */
+async function startEndpoint(blockNumber: number | null): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (blockNumber === null) {
+        res.writeHead(500).end();
+        return;
+      }
+      const payload = JSON.parse(body);
+      const reply = (request: { id: number }) => ({ jsonrpc: '2.0', id: request.id, result: `0x${blockNumber.toString(16)}` });
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(reply) : reply(payload)));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('getRpcProvider', () => {
+  it('shares one provider between callers with the same settings', () => {
+    const a = getRpcProvider(CHAIN_ID, 'http://127.0.0.1:1/shared', settings());
+    const b = getRpcProvider(CHAIN_ID, 'http://127.0.0.1:1/shared', settings());
+
+    expect(a).toBe(b);
+  });
+
+  it('gives callers with other settings their own provider, whoever asked first', () => {
+    const plain = getRpcProvider(CHAIN_ID, 'http://127.0.0.1:1/primary', settings());
+    const configured = getRpcProvider(CHAIN_ID, 'http://127.0.0.1:1/primary', settings({
+      fallbackRpcs: ['http://127.0.0.1:1/fallback'],
+      crossCheck: true
+    }));
+
+    expect(configured).not.toBe(plain);
+    expect(plain.getEndpointHealth().map(endpoint => endpoint.url)).toEqual(['http://127.0.0.1:1/primary']);
+    expect(configured.getEndpointHealth().map(endpoint => endpoint.url)).toEqual([
+      'http://127.0.0.1:1/primary',
+      'http://127.0.0.1:1/fallback'
+    ]);
+    expect(plain.isCrossCheckEnabled()).toBe(false);
+    expect(configured.isCrossCheckEnabled()).toBe(true);
+  });
+});
+
+describe('FailoverRpcProvider', () => {
+  const endpoints: Array<{ close: () => Promise<void> }> = [];
+  const endpoint = async (blockNumber: number | null) => {
+    const started = await startEndpoint(blockNumber);
+    endpoints.push(started);
+    return started.url;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined); // failed attempts are logged
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(endpoints.splice(0).map(started => started.close()));
+  });
+
+  it('moves on to a fallback endpoint when the primary fails', async () => {
+    const down = await endpoint(null);
+    const up = await endpoint(42);
+    const provider = new FailoverRpcProvider(CHAIN_ID, down, settings({ fallbackRpcs: [up] }));
+
+    await expect(provider.getBlockNumber()).resolves.toBe(42);
+
+    const [primary, fallback] = provider.getEndpointHealth();
+    expect(primary).toMatchObject({ url: down, failures: 1, successes: 0 });
+    expect(fallback).toMatchObject({ url: up, failures: 0, successes: 1 });
+  });
+
+  it('gives up after the configured retries', async () => {
+    const down = await endpoint(null);
+    const up = await endpoint(42);
+    const provider = new FailoverRpcProvider(CHAIN_ID, down, settings({ retries: 0, fallbackRpcs: [up] }));
+
+    await expect(provider.getBlockNumber()).rejects.toThrow();
+    expect(provider.getEndpointHealth()[1].successes).toBe(0);
+  });
+
+  it('fails a cross-checked read when two endpoints disagree', async () => {
+    const provider = new FailoverRpcProvider(CHAIN_ID, await endpoint(42), settings({
+      fallbackRpcs: [await endpoint(43)],
+      crossCheck: true
+    }));
+
+    await expect(provider.crossCheck('block number', p => p.getBlockNumber())).rejects.toThrow(RpcCrossCheckError);
+  });
+});
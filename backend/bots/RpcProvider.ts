@@ -0,0 +1,227 @@
+/**
+ * RpcProvider - Failover JSON-RPC provider shared by the payment bots
+ * Rotates through a chain's RPC endpoints by health score, honors the configured
+ * timeout and retries, and can cross-check critical reads against a second endpoint
+ */
+
+import { ethers } from 'ethers';
+
+export interface RpcSettings {
+  timeout: number; // ms per request
+  retries: number; // extra attempts, each on the next healthiest endpoint
+  fallbackRpcs: string[];
+  crossCheck?: boolean; // confirm critical reads on a second endpoint before sending transactions
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  score: number; // 0-100, higher is tried first
+  successes: number;
+  failures: number;
+  averageLatency: number; // ms
+  lastError: string | null;
+  lastFailureAt: number;
+}
+
+export class RpcCrossCheckError extends Error {
+  constructor(label: string, public readonly results: { url: string; value: string }[]) {
+    super(`RPC endpoints disagree on ${label}: ${results.map(r => `${r.url}=${r.value}`).join(', ')}`);
+    this.name = 'RpcCrossCheckError';
+  }
+}
+
+const MAX_SCORE = 100;
+const SUCCESS_REWARD = 5;
+const FAILURE_PENALTY = 25;
+const FAILURE_COOLDOWN = 60000; // recently failed endpoints go to the back of the queue
+
+// Fallback endpoints per chain, comma-separated (used by the bots that don't take chain configs)
+const FALLBACK_RPC_ENV: Record<number, string> = {
+  8453: 'BASE_FALLBACK_RPC_URLS',
+  10: 'OPTIMISM_FALLBACK_RPC_URLS',
+  42161: 'ARBITRUM_FALLBACK_RPC_URLS',
+  137: 'POLYGON_FALLBACK_RPC_URLS'
+};
+
+export class FailoverRpcProvider extends ethers.JsonRpcProvider {
+  private readonly settings: RpcSettings;
+  private readonly chainNetwork: ethers.Network;
+  private readonly endpoints: RpcEndpointHealth[];
+  private readonly endpointProviders: Map<string, ethers.JsonRpcProvider> = new Map();
+
+  constructor(chainId: number, rpcUrl: string, settings: RpcSettings) {
+    const network = ethers.Network.from(chainId);
+    super(rpcUrl, network, { staticNetwork: network });
+
+    this.settings = settings;
+    this.chainNetwork = network;
+    this.endpoints = [...new Set([rpcUrl, ...settings.fallbackRpcs].filter(url => url))].map(url => ({
+      url,
+      score: MAX_SCORE,
+      successes: 0,
+      failures: 0,
+      averageLatency: 0,
+      lastError: null,
+      lastFailureAt: 0
+    }));
+  }
+
+  /**
+   * Send to the healthiest endpoint, moving on to the next one on transport errors
+   * and timeouts. JSON-RPC errors (reverts, nonce errors) come back as results and
+   * are not retried.
+   */
+  public async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const ranked = this.rankEndpoints();
+    const attempts = this.settings.retries + 1;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const endpoint = ranked[attempt % ranked.length];
+      const startTime = Date.now();
+
+      try {
+        const result = await this.sendTo(endpoint.url, payload);
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(endpoint, error);
+        console.warn(`[RpcProvider] ${endpoint.url} failed (attempt ${attempt + 1}/${attempts}): ${this.errorMessage(error)}`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a read on the two healthiest endpoints and fail if they disagree. With a
+   * single endpoint configured the read is just run once.
+   */
+  public async crossCheck<T>(label: string, read: (provider: ethers.Provider) => Promise<T>): Promise<T> {
+    const [first, second] = this.rankEndpoints();
+    if (!second) {
+      return read(this);
+    }
+
+    const [a, b] = await Promise.all([
+      read(this.getEndpointProvider(first.url)),
+      read(this.getEndpointProvider(second.url))
+    ]);
+
+    const valueA = this.serialize(a);
+    const valueB = this.serialize(b);
+    if (valueA !== valueB) {
+      throw new RpcCrossCheckError(label, [
+        { url: first.url, value: valueA },
+        { url: second.url, value: valueB }
+      ]);
+    }
+
+    return a;
+  }
+
+  public isCrossCheckEnabled(): boolean {
+    return !!this.settings.crossCheck;
+  }
+
+  public getEndpointHealth(): RpcEndpointHealth[] {
+    return this.endpoints.map(endpoint => ({ ...endpoint }));
+  }
+
+  private async sendTo(url: string, payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = this.settings.timeout;
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const response = await request.send();
+    response.assertOk();
+
+    const result = response.bodyJson;
+    return Array.isArray(result) ? result : [result];
+  }
+
+  /**
+   * Highest score first; endpoints that failed recently go last but are still tried
+   * when nothing else is left. Ties keep the configured order (primary first).
+   */
+  private rankEndpoints(): RpcEndpointHealth[] {
+    const now = Date.now();
+    const coolingDown = (endpoint: RpcEndpointHealth) => now - endpoint.lastFailureAt < FAILURE_COOLDOWN;
+
+    return [...this.endpoints].sort((a, b) => {
+      if (coolingDown(a) !== coolingDown(b)) {
+        return coolingDown(a) ? 1 : -1;
+      }
+      return b.score - a.score;
+    });
+  }
+
+  private recordSuccess(endpoint: RpcEndpointHealth, latency: number): void {
+    endpoint.successes++;
+    endpoint.score = Math.min(MAX_SCORE, endpoint.score + SUCCESS_REWARD);
+    endpoint.averageLatency = endpoint.averageLatency === 0
+      ? latency
+      : Math.round(endpoint.averageLatency * 0.8 + latency * 0.2);
+  }
+
+  private recordFailure(endpoint: RpcEndpointHealth, error: unknown): void {
+    endpoint.failures++;
+    endpoint.score = Math.max(0, endpoint.score - FAILURE_PENALTY);
+    endpoint.lastError = this.errorMessage(error);
+    endpoint.lastFailureAt = Date.now();
+  }
+
+  private getEndpointProvider(url: string): ethers.JsonRpcProvider {
+    let provider = this.endpointProviders.get(url);
+    if (!provider) {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = this.settings.timeout;
+      provider = new ethers.JsonRpcProvider(request, this.chainNetwork, { staticNetwork: this.chainNetwork });
+      this.endpointProviders.set(url, provider);
+    }
+    return provider;
+  }
+
+  private serialize(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+  }
+
+  private errorMessage(error: unknown): string {
+    return (error as { shortMessage?: string }).shortMessage || (error instanceof Error ? error.message : String(error));
+  }
+}
+
+// One provider per chain, primary RPC and settings so health scores carry over between runs;
+// callers with different timeouts, retries or fallbacks get their own
+const providers: Map<string, FailoverRpcProvider> = new Map();
+
+export function getRpcProvider(chainId: number, rpcUrl: string, settings: RpcSettings = getRpcSettingsFromEnv(chainId)): FailoverRpcProvider {
+  const { timeout, retries, fallbackRpcs, crossCheck = false } = settings;
+  const key = JSON.stringify([chainId, rpcUrl, timeout, retries, fallbackRpcs, crossCheck]);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new FailoverRpcProvider(chainId, rpcUrl, settings);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * RPC_TIMEOUT, RPC_RETRIES, RPC_CROSS_CHECK and the chain's *_FALLBACK_RPC_URLS
+ */
+export function getRpcSettingsFromEnv(chainId: number): RpcSettings {
+  const fallbackEnv = FALLBACK_RPC_ENV[chainId];
+
+  return {
+    timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
+    retries: parseInt(process.env.RPC_RETRIES || '3'),
+    fallbackRpcs: parseRpcUrls(fallbackEnv ? process.env[fallbackEnv] : undefined),
+    crossCheck: process.env.RPC_CROSS_CHECK === 'true'
+  };
+}
+
+export function parseRpcUrls(value: string | undefined): string[] {
+  return (value || '').split(',').map(url => url.trim()).filter(url => url);
+}
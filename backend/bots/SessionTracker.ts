@@ -16,8 +16,18 @@ export interface TrackedSession {
   completedButNotReleased: boolean;
 }
 
+// Last block scanned for SessionCreated events, per chain and contract version
+export interface ScanCursor {
+  chainId: number;
+  contractVersion: 'v7' | 'v8';
+  contractAddress: string;
+  lastScannedBlock: number;
+  updatedAt: number;
+}
+
 export class SessionTracker {
-  private sessions: Map<string, TrackedSession> = new Map();
+  private sessionMap: Map<string, TrackedSession> = new Map();
+  private cursors: Map<string, ScanCursor> = new Map();
   private filePath: string;
   private autoSaveInterval: NodeJS.Timeout | null = null;
 
@@ -42,18 +52,25 @@ export class SessionTracker {
         const parsed = JSON.parse(data);
         
         if (parsed.sessions && Array.isArray(parsed.sessions)) {
-          this.sessions.clear();
+          this.sessionMap.clear();
           for (const session of parsed.sessions) {
-            this.sessions.set(session.sessionId, session);
+            this.sessionMap.set(session.sessionId, session);
+          }
+          console.log(`[SessionTracker] Loaded ${this.sessionMap.size} sessions from ${this.filePath}`);
+        }
+
+        if (parsed.cursors && Array.isArray(parsed.cursors)) {
+          this.cursors.clear();
+          for (const cursor of parsed.cursors as ScanCursor[]) {
+            this.cursors.set(this.cursorKey(cursor.chainId, cursor.contractVersion), cursor);
           }
-          console.log(`[SessionTracker] Loaded ${this.sessions.size} sessions from ${this.filePath}`);
         }
       } else {
         console.log(`[SessionTracker] No existing session file found, starting fresh`);
       }
     } catch (error) {
       console.error(`[SessionTracker] Error loading sessions:`, error);
-      this.sessions.clear();
+      this.sessionMap.clear();
     }
   }
 
@@ -62,28 +79,29 @@ export class SessionTracker {
       const data = {
         version: '8.0.0',
         lastSaved: Date.now(),
-        sessionCount: this.sessions.size,
-        sessions: Array.from(this.sessions.values())
+        sessionCount: this.sessionMap.size,
+        sessions: Array.from(this.sessionMap.values()),
+        cursors: Array.from(this.cursors.values())
       };
 
       fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
-      console.log(`[SessionTracker] Saved ${this.sessions.size} sessions to ${this.filePath}`);
+      console.log(`[SessionTracker] Saved ${this.sessionMap.size} sessions to ${this.filePath}`);
     } catch (error) {
       console.error(`[SessionTracker] Error saving sessions:`, error);
     }
   }
 
   public addSession(sessionId: string, session: TrackedSession): void {
-    this.sessions.set(sessionId, {
+    this.sessionMap.set(sessionId, {
       ...session,
       lastChecked: Date.now()
     });
   }
 
   public updateSession(sessionId: string, updates: Partial<TrackedSession>): void {
-    const existing = this.sessions.get(sessionId);
+    const existing = this.sessionMap.get(sessionId);
     if (existing) {
-      this.sessions.set(sessionId, {
+      this.sessionMap.set(sessionId, {
         ...existing,
         ...updates,
         lastChecked: Date.now()
@@ -92,42 +110,69 @@ export class SessionTracker {
   }
 
   public getSession(sessionId: string): TrackedSession | undefined {
-    return this.sessions.get(sessionId);
+    return this.sessionMap.get(sessionId);
   }
 
   public removeSession(sessionId: string): boolean {
-    return this.sessions.delete(sessionId);
+    return this.sessionMap.delete(sessionId);
   }
 
   public getAllSessions(): TrackedSession[] {
-    return Array.from(this.sessions.values());
+    return Array.from(this.sessionMap.values());
   }
 
   public getSessionsByChain(chainId: number): TrackedSession[] {
-    return Array.from(this.sessions.values()).filter(s => s.chainId === chainId);
+    return Array.from(this.sessionMap.values()).filter(s => s.chainId === chainId);
   }
 
   public getSessionsByStatus(status: number): TrackedSession[] {
-    return Array.from(this.sessions.values()).filter(s => s.status === status);
+    return Array.from(this.sessionMap.values()).filter(s => s.status === status);
   }
 
   public getStaleSessions(maxAge: number = 24 * 60 * 60 * 1000): TrackedSession[] {
     const cutoff = Date.now() - maxAge;
-    return Array.from(this.sessions.values()).filter(s => s.lastChecked < cutoff);
+    return Array.from(this.sessionMap.values()).filter(s => s.lastChecked < cutoff);
   }
 
   public get sessions(): Map<string, TrackedSession> {
-    return this.sessions;
+    return this.sessionMap;
+  }
+
+  /**
+   * Scan cursor for a chain's contract. A cursor saved for a different contract address
+   * (the contract was redeployed) is ignored so the new contract is scanned from the start.
+   */
+  public getCursor(chainId: number, contractVersion: ScanCursor['contractVersion'], contractAddress: string): ScanCursor | undefined {
+    const cursor = this.cursors.get(this.cursorKey(chainId, contractVersion));
+    return cursor && cursor.contractAddress.toLowerCase() === contractAddress.toLowerCase() ? cursor : undefined;
+  }
+
+  public setCursor(chainId: number, contractVersion: ScanCursor['contractVersion'], contractAddress: string, lastScannedBlock: number): void {
+    this.cursors.set(this.cursorKey(chainId, contractVersion), {
+      chainId,
+      contractVersion,
+      contractAddress,
+      lastScannedBlock,
+      updatedAt: Date.now()
+    });
+  }
+
+  public getCursors(): ScanCursor[] {
+    return Array.from(this.cursors.values());
+  }
+
+  private cursorKey(chainId: number, contractVersion: string): string {
+    return `${chainId}:${contractVersion}`;
   }
 
   public getStats(): { total: number; byChain: Record<number, number>; byStatus: Record<number, number> } {
     const stats = {
-      total: this.sessions.size,
+      total: this.sessionMap.size,
       byChain: {} as Record<number, number>,
       byStatus: {} as Record<number, number>
     };
 
-    for (const session of this.sessions.values()) {
+    for (const session of this.sessionMap.values()) {
       // Count by chain
       stats.byChain[session.chainId] = (stats.byChain[session.chainId] || 0) + 1;
       
@@ -139,10 +184,11 @@ export class SessionTracker {
   }
 
   private startAutoSave(): void {
-    // Auto-save every 5 minutes
+    // Auto-save every 5 minutes (the timer alone does not keep one-shot runs alive)
     this.autoSaveInterval = setInterval(() => {
       this.save();
     }, 5 * 60 * 1000);
+    this.autoSaveInterval.unref();
   }
 
   public destroy(): void {
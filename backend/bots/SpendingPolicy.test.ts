@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { auditTrail } from './AuditTrail';
+import { ApprovalRequiredError, PolicyViolationError, SpendingPolicy } from './SpendingPolicy';
+
+const BASE = 8453;
+const BASE_SEPOLIA = 84532;
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71B54bdA02913';
+const SESSION = '0x' + '11'.repeat(32);
+
+describe('SpendingPolicy', () => {
+  let dir: string;
+  let statePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spending-policy-'));
+    statePath = path.join(dir, 'state.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(auditTrail, 'recordFileVersion').mockResolvedValue(undefined as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.SPENDING_POLICY_DISABLED;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('without a policy file', () => {
+    const refund = { chainId: BASE, functionName: 'emergencyRelease', sessionId: SESSION, token: BASE_USDC, amount: '1000000' };
+
+    it('refuses transactions on a mainnet chain', async () => {
+      const policy = new SpendingPolicy('RefundBot', undefined, statePath);
+
+      await expect(policy.reserve('emergencyRelease:1', refund)).rejects.toMatchObject({
+        name: 'PolicyViolationError',
+        rule: 'policy'
+      });
+    });
+
+    it('lets testnet transactions through', async () => {
+      const policy = new SpendingPolicy('RefundBot', undefined, statePath);
+
+      await expect(policy.reserve('emergencyRelease:1', { ...refund, chainId: BASE_SEPOLIA })).resolves.toBeUndefined();
+    });
+
+    it('sends on mainnet once the operator opts out', async () => {
+      process.env.SPENDING_POLICY_DISABLED = 'true';
+      const policy = new SpendingPolicy('RefundBot', undefined, statePath);
+
+      await expect(policy.reserve('emergencyRelease:1', refund)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('with the example policy', () => {
+    const policyFile = path.join(__dirname, 'config', 'spending-policy.example.json');
+    const release = (amount: string, sessionId: string = SESSION) =>
+      ({ chainId: BASE, functionName: 'emergencyRelease', sessionId, token: BASE_USDC, amount });
+
+    it('refuses a function the bot is not allowed to call', async () => {
+      const policy = new SpendingPolicy('EmergencyRefundBot', policyFile, statePath);
+
+      await expect(policy.reserve('k', { ...release('1'), functionName: 'resolveDispute' })).rejects.toThrow(PolicyViolationError);
+    });
+
+    it('refuses an amount above the per-transaction cap', async () => {
+      const policy = new SpendingPolicy('EmergencyRefundBot', policyFile, statePath);
+
+      await expect(policy.reserve('k', release('500000001'))).rejects.toMatchObject({ rule: 'per-transaction' });
+    });
+
+    it('holds an amount above the approval threshold for an operator', async () => {
+      const policy = new SpendingPolicy('EmergencyRefundBot', policyFile, statePath);
+
+      await expect(policy.reserve('k', release('300000000'))).rejects.toThrow(ApprovalRequiredError);
+      expect(policy.getApprovals('pending')).toHaveLength(1);
+    });
+
+    it('sends nothing under a policy whose version is not in the audit trail', async () => {
+      const recordFileVersion = jest.spyOn(auditTrail, 'recordFileVersion').mockRejectedValueOnce(new Error('disk full'));
+      const policy = new SpendingPolicy('EmergencyRefundBot', policyFile, statePath);
+
+      await expect(policy.reserve('k', release('1'))).rejects.toThrow(/could not be recorded in the audit trail/);
+      await expect(policy.reserve('k', release('1'))).resolves.toBeUndefined();
+      expect(recordFileVersion).toHaveBeenCalledTimes(2);
+    });
+
+    it('counts reservations against the session cap until they are released', async () => {
+      const policy = new SpendingPolicy('EmergencyRefundBot', policyFile, statePath);
+      await policy.reserve('first', release('150000000'));
+      await policy.reserve('second', release('150000000'));
+      await policy.reserve('third', release('150000000'));
+
+      await expect(policy.reserve('fourth', release('100000000'))).rejects.toMatchObject({ rule: 'per-session' });
+
+      await policy.release(BASE, 'third');
+      await expect(policy.reserve('fourth', release('100000000'))).resolves.toBeUndefined();
+    });
+  });
+});
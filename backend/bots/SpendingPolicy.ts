@@ -0,0 +1,424 @@
+/**
+ * SpendingPolicy - Limits on what the bot hot wallet may send
+ * TransactionManager checks every transaction here before signing it: the function must be
+ * allow-listed for the bot and the amount it moves must fit the per-transaction, per-session and
+ * rolling 24h caps for its chain and token. Amounts above the approval threshold are held until
+ * an operator approves them through the admin API. Without a policy file, transactions on testnets
+ * are not limited and transactions on any other chain are refused, unless SPENDING_POLICY_DISABLED
+ * opts out. Spends and approvals are kept in one JSON file shared by the bot processes and guarded
+ * by a lock file, like the processing ledger.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { withFileLock } from './FileLock';
+import { auditTrail } from './AuditTrail';
+import { loadSpendingPolicyFile, SpendingPolicyRules, TokenSpendingLimits, NATIVE_TOKEN } from './config/spendingPolicy';
+import { isKnownTestnet, isSpendingPolicyDisabled } from './config/BotConfigLoader';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'used' | 'expired';
+
+export interface SpendRequest {
+  chainId: number;
+  functionName: string;
+  sessionId?: string;
+  token?: string; // defaults to the native token
+  amount?: bigint | string; // what the call moves out of escrow
+  requestedBy?: string; // operator address for admin actions, the bot itself otherwise
+}
+
+export interface SpendRecord {
+  key: string; // bot, chain and transaction key
+  bot: string;
+  chainId: number;
+  sessionId: string | null;
+  functionName: string;
+  token: string;
+  amount: string;
+  reservedAt: number;
+}
+
+export interface SpendApproval {
+  id: string;
+  bot: string;
+  chainId: number;
+  sessionId: string | null;
+  functionName: string;
+  token: string;
+  amount: string;
+  threshold: string;
+  requestedBy: string;
+  requestedAt: number;
+  expiresAt: number; // the request, or once approved the approval, lapses after this
+  status: ApprovalStatus;
+  decidedBy: string | null;
+  decidedAt: number | null;
+  note: string | null;
+}
+
+// The transaction breaks the policy and is not sent
+export class PolicyViolationError extends Error {
+  constructor(public readonly rule: string, message: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+// The amount is above the approval threshold; the transaction can be sent again once an operator approves it
+export class ApprovalRequiredError extends Error {
+  constructor(public readonly approval: SpendApproval) {
+    super(`${approval.functionName} moving ${approval.amount} of ${approval.token} on chain ${approval.chainId} needs an operator approval (${approval.id})`);
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+export class ApprovalNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Unknown approval request ${id}`);
+    this.name = 'ApprovalNotFoundError';
+  }
+}
+
+// The approval was already decided or has lapsed, or the operator may not decide it
+export class ApprovalStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalStateError';
+  }
+}
+
+const DEFAULT_STATE_PATH = './data/spending-policy-state.json';
+const DEFAULT_APPROVAL_TTL = 24 * 60 * 60; // seconds, when no policy is loaded
+const ROLLING_WINDOW = 24 * 60 * 60 * 1000;
+const SPEND_RETENTION = 30 * 24 * 60 * 60 * 1000;
+const APPROVAL_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+export class SpendingPolicy {
+  private bot: string;
+  private rules: SpendingPolicyRules | null;
+  private policyFile: string | undefined;
+  private recorded: Promise<void> | null = null; // the policy file's version in the audit trail
+  private statePath: string;
+  private lockPath: string;
+  private owner: string;
+  private spends: Map<string, SpendRecord> = new Map();
+  private approvals: Map<string, SpendApproval> = new Map();
+
+  /**
+   * @param botName the name the policy's allowedFunctions list the bot under
+   * @param policyFile policy file; without one only testnet transactions are sent (see SPENDING_POLICY_DISABLED)
+   */
+  constructor(
+    botName: string,
+    policyFile: string | undefined = process.env.SPENDING_POLICY_FILE,
+    statePath: string = process.env.SPENDING_POLICY_STATE_PATH || DEFAULT_STATE_PATH
+  ) {
+    this.bot = botName;
+    this.rules = policyFile ? loadSpendingPolicyFile(policyFile) : null;
+    this.policyFile = policyFile;
+    this.statePath = statePath;
+    this.lockPath = `${statePath}.lock`;
+    this.owner = `${botName}:${process.pid}`;
+
+    if (this.rules) {
+      console.log(`[SpendingPolicy] ${botName}: ${this.rules.limits.length} token limits, functions ${(this.rules.allowedFunctions[botName] || []).join(', ') || 'none'}`);
+      this.recordPolicyFile().catch(error => {
+        console.error(`[SpendingPolicy] ${error.message}`);
+      });
+    } else if (isSpendingPolicyDisabled()) {
+      console.warn(`[SpendingPolicy] Spending policy disabled (SPENDING_POLICY_DISABLED), ${botName} transactions are not limited`);
+    } else {
+      console.warn(`[SpendingPolicy] No spending policy configured (SPENDING_POLICY_FILE), ${botName} only sends transactions on testnets`);
+    }
+
+    const dir = path.dirname(this.statePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  public isEnforced(): boolean {
+    return this.rules !== null;
+  }
+
+  public getBot(): string {
+    return this.bot;
+  }
+
+  // ============ TRANSACTIONS ============
+
+  /**
+   * Check a transaction against the policy and count its amount against the caps until it is
+   * released. Throws PolicyViolationError, or ApprovalRequiredError once an approval request is
+   * open for an amount above the threshold.
+   */
+  public async reserve(key: string, request: SpendRequest): Promise<void> {
+    const { chainId, functionName } = request;
+    if (!this.rules) {
+      if (!isKnownTestnet(chainId) && !isSpendingPolicyDisabled()) {
+        throw this.violation('policy', `No spending policy configured: ${this.bot} does not send ${functionName} on chain ${chainId} without one (set SPENDING_POLICY_FILE, or SPENDING_POLICY_DISABLED=true to opt out)`);
+      }
+      return;
+    }
+
+    await this.recordPolicyFile();
+
+    const allowed = this.rules.allowedFunctions[this.bot] || [];
+    if (!allowed.includes(functionName)) {
+      throw this.violation('function', `${this.bot} is not allowed to call ${functionName}`);
+    }
+
+    const amount = BigInt(request.amount ?? 0);
+    if (amount === BigInt(0)) return;
+
+    const token = (request.token || NATIVE_TOKEN).toLowerCase();
+    const limits = this.rules.limits.find(entry => entry.chainId === chainId && entry.token.toLowerCase() === token);
+    if (!limits) {
+      throw this.violation('token', `No spending limits for token ${token} on chain ${chainId}`);
+    }
+    if (amount > BigInt(limits.perTransaction)) {
+      throw this.violation('per-transaction', `${functionName} moves ${amount} of ${token} on chain ${chainId}, above the per-transaction cap of ${limits.perTransaction}`);
+    }
+
+    const sessionId = request.sessionId?.toLowerCase() ?? null;
+    const recordKey = `${this.bot}:${chainId}:${key}`;
+
+    const approvalNeeded = await this.withLock((): SpendApproval | null => {
+      const now = Date.now();
+      // A retry of the same transaction replaces what it reserved before
+      this.spends.delete(recordKey);
+
+      const spent = Array.from(this.spends.values()).filter(spend => spend.chainId === chainId && spend.token === token);
+      if (sessionId) {
+        const sessionTotal = this.sum(spent.filter(spend => spend.sessionId === sessionId));
+        if (sessionTotal + amount > BigInt(limits.perSession)) {
+          throw this.violation('per-session', `Session ${sessionId} would receive ${sessionTotal + amount} of ${token} on chain ${chainId}, above the per-session cap of ${limits.perSession}`);
+        }
+      }
+
+      const dayTotal = this.sum(spent.filter(spend => now - spend.reservedAt < ROLLING_WINDOW));
+      if (dayTotal + amount > BigInt(limits.rolling24h)) {
+        throw this.violation('rolling-24h', `${dayTotal + amount} of ${token} on chain ${chainId} in the last 24h would exceed the cap of ${limits.rolling24h}`);
+      }
+
+      if (limits.approvalThreshold !== undefined && amount > BigInt(limits.approvalThreshold)) {
+        const approval = this.findApproval(sessionId, chainId, functionName, token, amount, now);
+        if (!approval || approval.status === 'pending') {
+          return approval || this.openApproval(request, sessionId, token, amount, limits, now);
+        }
+        if (approval.status === 'rejected') {
+          throw this.violation('approval', `${functionName} for ${sessionId || 'the wallet'} was rejected by ${approval.decidedBy}${approval.note ? `: ${approval.note}` : ''}`);
+        }
+
+        approval.status = 'used';
+        console.log(`[SpendingPolicy] Using approval ${approval.id} (approved by ${approval.decidedBy}) for ${functionName}`);
+      }
+
+      this.spends.set(recordKey, {
+        key: recordKey,
+        bot: this.bot,
+        chainId,
+        sessionId,
+        functionName,
+        token,
+        amount: amount.toString(),
+        reservedAt: now
+      });
+      return null;
+    });
+
+    if (approvalNeeded) {
+      throw new ApprovalRequiredError(approvalNeeded);
+    }
+  }
+
+  /**
+   * The transaction failed or was never sent; its amount no longer counts against the caps
+   */
+  public async release(chainId: number, key: string): Promise<void> {
+    if (!this.rules) return;
+
+    await this.withLock(() => {
+      this.spends.delete(`${this.bot}:${chainId}:${key}`);
+    });
+  }
+
+  // ============ APPROVALS ============
+
+  /**
+   * Approval requests of every bot, newest first
+   */
+  public getApprovals(status?: ApprovalStatus): SpendApproval[] {
+    this.load();
+    const now = Date.now();
+    return Array.from(this.approvals.values())
+      .map(approval => ({ ...approval, status: this.currentStatus(approval, now) }))
+      .filter(approval => !status || approval.status === status)
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  public approve(id: string, operator: string, note?: string): Promise<SpendApproval> {
+    return this.decide(id, 'approved', operator, note);
+  }
+
+  public reject(id: string, operator: string, note?: string): Promise<SpendApproval> {
+    return this.decide(id, 'rejected', operator, note);
+  }
+
+  /**
+   * Record an operator's decision. The operator who asked for an admin action cannot approve it.
+   * An approval is usable for approvalTtl from the moment it is given.
+   */
+  private decide(id: string, status: 'approved' | 'rejected', operator: string, note?: string): Promise<SpendApproval> {
+    return this.withLock(() => {
+      const approval = this.approvals.get(id);
+      if (!approval) {
+        throw new ApprovalNotFoundError(id);
+      }
+
+      const now = Date.now();
+      const current = this.currentStatus(approval, now);
+      if (current !== 'pending') {
+        throw new ApprovalStateError(`Approval request ${id} is ${current}`);
+      }
+      if (operator.toLowerCase() === approval.requestedBy.toLowerCase()) {
+        throw new ApprovalStateError('A second operator has to approve or reject this request');
+      }
+
+      Object.assign(approval, {
+        status,
+        decidedBy: operator.toLowerCase(),
+        decidedAt: now,
+        note: note || null,
+        expiresAt: status === 'approved' ? now + this.approvalTtl() : approval.expiresAt
+      });
+      console.log(`[SpendingPolicy] Approval ${id} ${status} by ${approval.decidedBy}`);
+      return { ...approval };
+    });
+  }
+
+  private findApproval(sessionId: string | null, chainId: number, functionName: string, token: string, amount: bigint, now: number): SpendApproval | undefined {
+    return Array.from(this.approvals.values()).find(approval =>
+      approval.bot === this.bot &&
+      approval.chainId === chainId &&
+      approval.sessionId === sessionId &&
+      approval.functionName === functionName &&
+      approval.token === token &&
+      approval.amount === amount.toString() &&
+      approval.expiresAt >= now &&
+      (approval.status === 'pending' || approval.status === 'approved' || approval.status === 'rejected')
+    );
+  }
+
+  private openApproval(request: SpendRequest, sessionId: string | null, token: string, amount: bigint, limits: TokenSpendingLimits, now: number): SpendApproval {
+    const approval: SpendApproval = {
+      id: `approval_${now}_${Math.random().toString(36).slice(2, 11)}`,
+      bot: this.bot,
+      chainId: request.chainId,
+      sessionId,
+      functionName: request.functionName,
+      token,
+      amount: amount.toString(),
+      threshold: limits.approvalThreshold!,
+      requestedBy: (request.requestedBy || `bot:${this.bot}`).toLowerCase(),
+      requestedAt: now,
+      expiresAt: now + this.approvalTtl(),
+      status: 'pending',
+      decidedBy: null,
+      decidedAt: null,
+      note: null
+    };
+    this.approvals.set(approval.id, approval);
+    console.warn(`[SpendingPolicy] Approval ${approval.id} requested: ${approval.functionName} moving ${approval.amount} (threshold ${approval.threshold}) on chain ${approval.chainId}`);
+    return approval;
+  }
+
+  // Pending and approved requests lapse at expiresAt
+  private currentStatus(approval: SpendApproval, now: number): ApprovalStatus {
+    return (approval.status === 'pending' || approval.status === 'approved') && approval.expiresAt < now ? 'expired' : approval.status;
+  }
+
+  private approvalTtl(): number {
+    return (this.rules?.approvalTtl ?? DEFAULT_APPROVAL_TTL) * 1000;
+  }
+
+  /**
+   * Record the policy file's version in the audit trail. Nothing is sent under the policy until
+   * it is recorded; a failed write is tried again on the next transaction.
+   */
+  private recordPolicyFile(): Promise<void> {
+    if (!this.recorded) {
+      this.recorded = auditTrail.recordFileVersion('spending-policy', this.policyFile!, `bot:${this.bot}`).catch(error => {
+        this.recorded = null;
+        throw new Error(`Spending policy ${this.policyFile} could not be recorded in the audit trail, no transaction is sent under it: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    return this.recorded;
+  }
+
+  private violation(rule: string, message: string): PolicyViolationError {
+    console.error(`[SpendingPolicy] Blocked (${rule}): ${message}`);
+    return new PolicyViolationError(rule, message);
+  }
+
+  private sum(spends: SpendRecord[]): bigint {
+    return spends.reduce((total, spend) => total + BigInt(spend.amount), BigInt(0));
+  }
+
+  // ============ PERSISTENCE ============
+
+  /**
+   * Run fn against the latest state while holding the lock file, then save.
+   * Nothing is saved if fn throws.
+   */
+  private withLock<T>(fn: () => T): Promise<T> {
+    return withFileLock(this.lockPath, this.owner, () => {
+      this.load();
+      const result = fn();
+      this.save();
+      return result;
+    });
+  }
+
+  // Throws on an unreadable state file: checking the caps without the earlier spends is not safe
+  private load(): void {
+    this.spends.clear();
+    this.approvals.clear();
+    if (fs.existsSync(this.statePath)) {
+      const parsed = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      for (const spend of (parsed.spends || []) as SpendRecord[]) {
+        this.spends.set(spend.key, spend);
+      }
+      for (const approval of (parsed.approvals || []) as SpendApproval[]) {
+        this.approvals.set(approval.id, approval);
+      }
+    }
+  }
+
+  private save(): void {
+    const now = Date.now();
+    for (const [key, spend] of this.spends) {
+      if (now - spend.reservedAt > SPEND_RETENTION) {
+        this.spends.delete(key);
+      }
+    }
+    for (const [id, approval] of this.approvals) {
+      approval.status = this.currentStatus(approval, now);
+      if (approval.status !== 'pending' && approval.status !== 'approved' && now - approval.expiresAt > APPROVAL_RETENTION) {
+        this.approvals.delete(id);
+      }
+    }
+
+    const data = {
+      version: '8.0.0',
+      lastSaved: now,
+      spends: Array.from(this.spends.values()),
+      approvals: Array.from(this.approvals.values())
+    };
+
+    // Write then rename so a crash never leaves a truncated state file behind
+    const tempPath = `${this.statePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.statePath);
+  }
+}
@@ -6,12 +6,16 @@
  * and recover ALL trapped funds across all chains and contracts
  */
 
+import dotenv from 'dotenv';
 import { ethers } from 'ethers';
 import { DiscordNotifier, DiscordWebhookConfig } from './DiscordNotifier';
 import { TrappedFundsMonitor } from './TrappedFundsMonitor';
 import { EmergencyRefundBot } from './EmergencyRefundBot';
 import { RefundBot } from './RefundBot';
-import { TrappedFundsTestSuite } from './tests/TrappedFundsTest';
+import { ProposalPendingError } from './EmergencyProposals';
+import { BotConfig, ChainConfig } from './types';
+import { loadBotConfig } from './config/BotConfigLoader';
+import { resolveRotatedKey } from './config/rotatedKey';
 
 // Recovery process interfaces
 interface RecoverySession {
@@ -23,7 +27,8 @@ interface RecoverySession {
   timeTrapped: number; // hours
   recoveryMethod: 'NORMAL_EXPIRY' | 'EMERGENCY_RELEASE' | 'MANUAL_INTERVENTION' | 'V8_ENHANCED';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  status: 'PENDING' | 'IN_PROGRESS' | 'RECOVERED' | 'FAILED' | 'MANUAL_REQUIRED';
+  status: 'PENDING' | 'IN_PROGRESS' | 'RECOVERED' | 'FAILED' | 'MANUAL_REQUIRED' | 'AWAITING_APPROVAL';
+  evidence: { severity: string; reason: string; suggestedAction: string }; // from the trapped-funds scan
   attempts: number;
   lastAttempt?: number;
   error?: string;
@@ -48,38 +53,8 @@ interface RecoveryProgress {
   estimatedCompletion: number;
 }
 
-// Contract configurations
+// Recovery settings (the chains come from the bot configuration)
 const RECOVERY_CONFIG = {
-  chains: {
-    8453: {
-      name: 'Base',
-      rpcUrl: 'https://mainnet.base.org',
-      contractV7: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3',
-      contractV8: null, // To be deployed
-      blockExplorer: 'https://basescan.org'
-    },
-    10: {
-      name: 'Optimism',
-      rpcUrl: 'https://mainnet.optimism.io',
-      contractV7: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3',
-      contractV8: null,
-      blockExplorer: 'https://optimistic.etherscan.io'
-    },
-    42161: {
-      name: 'Arbitrum',
-      rpcUrl: 'https://arb1.arbitrum.io/rpc',
-      contractV7: '0x2a9d167e30195ba5fd29cfc09622be0d02da91be',
-      contractV8: null,
-      blockExplorer: 'https://arbiscan.io'
-    },
-    137: {
-      name: 'Polygon',
-      rpcUrl: 'https://polygon-rpc.com',
-      contractV7: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3',
-      contractV8: null,
-      blockExplorer: 'https://polygonscan.com'
-    }
-  },
   recovery: {
     maxParallel: 3, // Max parallel recovery attempts
     retryAttempts: 3,
@@ -94,14 +69,22 @@ export class SystematicRecovery {
   private discordNotifier: DiscordNotifier;
   private monitor: TrappedFundsMonitor;
   private emergencyBot: EmergencyRefundBot;
-  private refundBot: RefundBot | null = null;
-  private testSuite: TrappedFundsTestSuite;
+  private refundBot: RefundBot | null;
+  private chainConfigs: Map<number, ChainConfig> = new Map();
   
   private recoverySessions: Map<string, RecoverySession> = new Map();
   private recoveryProgress: RecoveryProgress;
   private isRunning: boolean = false;
 
-  constructor() {
+  /**
+   * @param chainConfigs chains whose V7 escrow (contractAddress) is recovered from, from the bot configuration
+   * @param refundBot used to expire sessions normally before falling back to an emergency release
+   * @param emergencyBot the process's EmergencyRefundBot, if it already runs one
+   */
+  constructor(chainConfigs: ChainConfig[], refundBot: RefundBot | null = null, emergencyBot: EmergencyRefundBot | null = null) {
+    chainConfigs.forEach(chainConfig => this.chainConfigs.set(chainConfig.chainId, chainConfig));
+    this.refundBot = refundBot;
+
     // Initialize Discord notifications
     const discordConfig: DiscordWebhookConfig = {
       webhookUrl: process.env.RECOVERY_DISCORD_WEBHOOK_URL || process.env.BOT_DISCORD_WEBHOOK_URL || '',
@@ -113,9 +96,8 @@ export class SystematicRecovery {
     this.discordNotifier = new DiscordNotifier(discordConfig);
 
     // Initialize sub-systems
-    this.monitor = new TrappedFundsMonitor();
-    this.emergencyBot = new EmergencyRefundBot();
-    this.testSuite = new TrappedFundsTestSuite();
+    this.monitor = new TrappedFundsMonitor(chainConfigs);
+    this.emergencyBot = emergencyBot || new EmergencyRefundBot(chainConfigs);
 
     // Initialize progress tracking
     this.recoveryProgress = {
@@ -216,8 +198,7 @@ export class SystematicRecovery {
       
       console.log('   By chain:');
       Object.entries(byChain).forEach(([chainId, count]) => {
-        const chainName = RECOVERY_CONFIG.chains[parseInt(chainId) as keyof typeof RECOVERY_CONFIG.chains]?.name || `Chain ${chainId}`;
-        console.log(`     ${chainName}: ${count} sessions`);
+        console.log(`     ${this.getChainName(parseInt(chainId))}: ${count} sessions`);
       });
       
       // Group by severity
@@ -312,8 +293,13 @@ export class SystematicRecovery {
       amount: trappedFund.amount,
       timeTrapped: trappedFund.timeTrapped,
       recoveryMethod,
-      priority: priorityMap[trappedFund.severity] || 'LOW',
+      priority: priorityMap[trappedFund.severity as keyof typeof priorityMap] || 'LOW',
       status: 'PENDING',
+      evidence: {
+        severity: trappedFund.severity,
+        reason: trappedFund.reason,
+        suggestedAction: trappedFund.suggestedAction
+      },
       attempts: 0
     };
   }
@@ -330,8 +316,7 @@ export class SystematicRecovery {
     
     console.log('\n🌐 Sessions by Chain:');
     Object.entries(plan.sessionsByChain).forEach(([chainId, count]) => {
-      const chainName = RECOVERY_CONFIG.chains[parseInt(chainId) as keyof typeof RECOVERY_CONFIG.chains]?.name;
-      console.log(`  ${chainName}: ${count} sessions`);
+      console.log(`  ${this.getChainName(parseInt(chainId))}: ${count} sessions`);
     });
     
     console.log('\n⚡ Sessions by Priority:');
@@ -421,6 +406,8 @@ export class SystematicRecovery {
           this.recoveryProgress.completed++;
           this.recoveryProgress.totalRecovered += session.amount;
           console.log(`    ✅ ${session.sessionId}: ${ethers.formatEther(session.amount)} ETH recovered`);
+        } else if (result.value.status === 'AWAITING_APPROVAL') {
+          console.log(`    🗳️  ${session.sessionId}: ${result.value.error}`);
         } else {
           this.recoveryProgress.failed++;
           console.log(`    ❌ ${session.sessionId}: Recovery failed - ${result.value.error}`);
@@ -503,6 +490,12 @@ export class SystematicRecovery {
       }
       
     } catch (error) {
+      if (error instanceof ProposalPendingError) {
+        // Recovered on a later run (or by execute-approved) once the approvers have signed
+        session.status = 'AWAITING_APPROVAL';
+        session.error = `Emergency release awaits ${error.proposal.threshold} approver signatures (${error.proposal.id})`;
+        return session;
+      }
       session.status = 'FAILED';
       session.error = (error as Error).message;
     }
@@ -511,35 +504,38 @@ export class SystematicRecovery {
   }
 
   /**
-   * Attempt normal session expiry
+   * Attempt normal session expiry through the RefundBot (checkAndExpireSession first)
    */
   private async attemptNormalExpiry(session: RecoverySession): Promise<{success: boolean, transactionHash?: string}> {
-    // This would call checkAndExpireSession on the contract
-    // For now, we'll simulate based on what we know about the V7 bug
-    
-    if (session.timeTrapped < 1) {
-      // Recent sessions might work with normal expiry
-      return { success: true, transactionHash: '0x' + 'simulation'.padEnd(64, '0') };
-    } else {
-      // Older sessions likely have the V7 bug
-      throw new Error('checkAndExpireSession failed - V7 fund trapping bug');
+    if (!this.refundBot) {
+      throw new Error('No RefundBot configured for normal expiry');
+    }
+
+    const result = await this.refundBot.processSessionRefund(session.sessionId, session.chainId);
+    if (!result.success || !result.transactionHash) {
+      throw new Error(result.error || 'checkAndExpireSession failed');
     }
+    return { success: true, transactionHash: result.transactionHash };
   }
 
   /**
-   * Attempt emergency release
+   * Attempt emergency release. The EmergencyRefundBot proposes it with the scan's evidence and
+   * only sends it once the approvers have signed (ProposalPendingError until then).
    */
   private async attemptEmergencyRelease(session: RecoverySession): Promise<{success: boolean, transactionHash?: string}> {
     try {
-      await this.emergencyBot.emergencyRefund(
+      const transactionHash = await this.emergencyBot.emergencyRefund(
         session.sessionId,
         session.chainId,
-        `Systematic recovery: ${session.timeTrapped}h trapped, ${ethers.formatEther(session.amount)} ETH`
+        `Systematic recovery: ${session.timeTrapped}h trapped, ${ethers.formatEther(session.amount)} ETH`,
+        { source: 'TrappedFundsMonitor', ...session.evidence },
+        'bot:SystematicRecovery'
       );
       
-      return { success: true, transactionHash: '0x' + 'emergency'.padEnd(64, '0') };
+      return { success: !!transactionHash, transactionHash: transactionHash || undefined };
       
     } catch (error) {
+      if (error instanceof ProposalPendingError) throw error;
       throw new Error(`Emergency release failed: ${(error as Error).message}`);
     }
   }
@@ -584,6 +580,7 @@ export class SystematicRecovery {
     console.log(`Successfully Recovered: ${this.recoveryProgress.completed}`);
     console.log(`Failed Recoveries: ${this.recoveryProgress.failed}`);
     console.log(`Manual Intervention Required: ${sessions.filter(s => s.status === 'MANUAL_REQUIRED').length}`);
+    console.log(`Awaiting Emergency Approval: ${sessions.filter(s => s.status === 'AWAITING_APPROVAL').length}`);
     console.log(`Total Value Recovered: ${ethers.formatEther(this.recoveryProgress.totalRecovered)} ETH`);
     console.log(`Recovery Duration: ${Math.floor(duration / 60000)} minutes`);
     console.log(`Success Rate: ${Math.round((this.recoveryProgress.completed / sessions.length) * 100)}%`);
@@ -605,8 +602,7 @@ export class SystematicRecovery {
     });
     
     Object.entries(byChain).forEach(([chainId, stats]) => {
-      const chainName = RECOVERY_CONFIG.chains[parseInt(chainId) as keyof typeof RECOVERY_CONFIG.chains]?.name;
-      console.log(`  ${chainName}: ${stats.recovered} recovered (${ethers.formatEther(stats.value)} ETH), ${stats.failed} failed`);
+      console.log(`  ${this.getChainName(parseInt(chainId))}: ${stats.recovered} recovered (${ethers.formatEther(stats.value)} ETH), ${stats.failed} failed`);
     });
     
     // Failed sessions requiring manual intervention
@@ -614,7 +610,7 @@ export class SystematicRecovery {
     if (failedSessions.length > 0) {
       console.log('\n⚠️  Sessions Requiring Manual Intervention:');
       failedSessions.forEach(session => {
-        console.log(`  ${session.sessionId} (${RECOVERY_CONFIG.chains[session.chainId as keyof typeof RECOVERY_CONFIG.chains]?.name}): ${session.error}`);
+        console.log(`  ${session.sessionId} (${this.getChainName(session.chainId)}): ${session.error}`);
       });
     }
     
@@ -647,8 +643,11 @@ export class SystematicRecovery {
   }
 
   private getContractAddress(chainId: number): string {
-    const config = RECOVERY_CONFIG.chains[chainId as keyof typeof RECOVERY_CONFIG.chains];
-    return config?.contractV7 || config?.contractV8 || '';
+    return this.chainConfigs.get(chainId)?.contractAddress || '';
+  }
+
+  private getChainName(chainId: number): string {
+    return this.chainConfigs.get(chainId)?.name || `Chain ${chainId}`;
   }
 
   private async notifyIndividualRecovery(session: RecoverySession): Promise<void> {
@@ -684,7 +683,8 @@ export class SystematicRecovery {
         inProgress: Array.from(this.recoverySessions.values()).filter(s => s.status === 'IN_PROGRESS').length,
         recovered: Array.from(this.recoverySessions.values()).filter(s => s.status === 'RECOVERED').length,
         failed: Array.from(this.recoverySessions.values()).filter(s => s.status === 'FAILED').length,
-        manualRequired: Array.from(this.recoverySessions.values()).filter(s => s.status === 'MANUAL_REQUIRED').length
+        manualRequired: Array.from(this.recoverySessions.values()).filter(s => s.status === 'MANUAL_REQUIRED').length,
+        awaitingApproval: Array.from(this.recoverySessions.values()).filter(s => s.status === 'AWAITING_APPROVAL').length
       }
     };
   }
@@ -710,12 +710,36 @@ Examples:
 
 Environment Variables Required:
   BOT_OWNER_PRIVATE_KEY           Owner private key for emergency operations
+  BOT_CONFIG_FILE, BOT_PROFILE    Bot configuration with the chains to recover on (otherwise .env.v8)
   RECOVERY_DISCORD_WEBHOOK_URL    Discord webhook for recovery notifications
 `);
     process.exit(1);
   }
 
-  const recovery = new SystematicRecovery();
+  // Recover from the V7 escrows of the configured chains, expiring sessions with the RefundBot first
+  dotenv.config({ path: '.env.v8' });
+  const { bot: config, chains } = await loadBotConfig();
+  const v7Chains = chains.filter(chain => chain.contractAddress);
+  const refundBotConfig: BotConfig = {
+    name: `${config.name}-recovery`,
+    version: config.version,
+    environment: config.environment,
+    enabled: true,
+    cronSchedule: config.cronSchedule,
+    executionTime: '',
+    paymentDelayHours: 0,
+    maxRetryAttempts: 3,
+    supportedChains: v7Chains.map(chain => chain.chainId),
+    notificationEnabled: config.enableDiscordNotifications,
+    emergencyPauseAddress: '',
+    gasLimits: {}
+  };
+  const refundBot = new RefundBot(
+    refundBotConfig,
+    v7Chains,
+    await resolveRotatedKey(process.env.REFUND_BOT_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY || config.privateKey)
+  );
+  const recovery = new SystematicRecovery(v7Chains, refundBot);
   const command = args[0];
 
   switch (command) {
@@ -745,5 +769,3 @@ Environment Variables Required:
 if (require.main === module) {
   main().catch(console.error);
 }
-
-export { SystematicRecovery };
\ No newline at end of file
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { TransactionManager, getTransactionManager } from './TransactionManager';
+
+const CHAIN_ID = 31337;
+const ESCROW = '0x00000000000000000000000000000000000000e5';
+const SESSION = ethers.id('session-1');
+
+/**
+ * Provider double for a node that accepts every transaction and never mines one
+ */
+function pendingNode(networkNonce: number = 7) {
+  const broadcast: ethers.Transaction[] = [];
+  const provider = {
+    estimateGas: async () => BigInt(60000),
+    getTransactionCount: async () => networkNonce,
+    getFeeData: async () => new ethers.FeeData(null, BigInt(2000000000), BigInt(1000000000)),
+    broadcastTransaction: async (signed: string) => {
+      broadcast.push(ethers.Transaction.from(signed));
+      return {};
+    },
+    getTransactionReceipt: async () => null
+  } as unknown as ethers.Provider;
+  return { provider, broadcast };
+}
+
+// A fresh signer on `provider`
+const newWallet = (provider: ethers.Provider) => new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+
+const escrow = (wallet: ethers.Wallet) =>
+  new ethers.Contract(ESCROW, ['function release(bytes32 sessionId)', 'function refund(bytes32 sessionId)'], wallet);
+
+describe('TransactionManager', () => {
+  let storeDir: string;
+
+  beforeEach(() => {
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tx-manager-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it('gives every bot sending from the same wallet on a chain one manager, with consecutive nonces', async () => {
+    const key = ethers.Wallet.createRandom().privateKey;
+    const node = pendingNode();
+    const paymentBot = new ethers.Wallet(key, node.provider);
+    const refundBot = new ethers.Wallet(key, node.provider);
+
+    const a = getTransactionManager(paymentBot, { chainId: CHAIN_ID, storeDir });
+    const b = getTransactionManager(refundBot, { chainId: CHAIN_ID, storeDir });
+    const other = getTransactionManager(newWallet(node.provider), { chainId: CHAIN_ID, storeDir });
+
+    expect(b).toBe(a);
+    expect(other).not.toBe(a);
+
+    const [first, second] = await Promise.all([
+      a.send(`release:${SESSION}`, escrow(paymentBot), 'release', [SESSION], 'Release'),
+      b.send(`refund:${SESSION}`, escrow(refundBot), 'refund', [SESSION], 'Refund')
+    ]);
+    expect([first.nonce, second.nonce].sort()).toEqual([7, 8]);
+  });
+
+  it('keeps in-flight transactions across a restart instead of sending again', async () => {
+    const node = pendingNode();
+    const wallet = newWallet(node.provider);
+    const sent = await new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir })
+      .send(`release:${SESSION}`, escrow(wallet), 'release', [SESSION], 'Release');
+
+    const storePath = path.join(storeDir, `${CHAIN_ID}-${wallet.address.toLowerCase()}.json`);
+    expect(fs.readdirSync(storeDir)).toEqual([path.basename(storePath)]); // no temp file left behind
+
+    const restarted = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+    const again = await restarted.send(`release:${SESSION}`, escrow(wallet), 'release', [SESSION], 'Release');
+
+    expect(again.hashes).toEqual(sent.hashes);
+    expect(node.broadcast).toHaveLength(1);
+    expect(restarted.getPending().map(record => record.key)).toEqual([`release:${SESSION}`]);
+  });
+
+  it('keeps the transactions another process sending from the same wallet added to the store', async () => {
+    const node = pendingNode();
+    const wallet = newWallet(node.provider);
+    // As in two bot processes, each with its own manager
+    const paymentBot = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+    const refundBot = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+
+    await paymentBot.send(`release:${SESSION}`, escrow(wallet), 'release', [SESSION], 'Release');
+    await refundBot.send(`refund:${SESSION}`, escrow(wallet), 'refund', [SESSION], 'Refund');
+    await paymentBot.send(`release:${ethers.id('session-2')}`, escrow(wallet), 'release', [ethers.id('session-2')], 'Release');
+
+    const restarted = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+    expect(restarted.getPending().map(record => record.key).sort()).toEqual([
+      `refund:${SESSION}`,
+      `release:${ethers.id('session-2')}`,
+      `release:${SESSION}`
+    ].sort());
+    // Picked up while saving, so the payment bot would not send it again
+    expect(paymentBot.get(`refund:${SESSION}`)).toMatchObject({ status: 'pending' });
+  });
+
+  it('fills the nonce of a rejected transaction instead of leaving a gap', async () => {
+    const node = pendingNode();
+    const wallet = newWallet(node.provider);
+    const manager = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+    const broadcastTransaction = node.provider.broadcastTransaction.bind(node.provider);
+    jest.spyOn(node.provider, 'broadcastTransaction')
+      .mockImplementationOnce(async signed => broadcastTransaction(signed))
+      .mockRejectedValueOnce(new Error('insufficient funds for gas'));
+
+    const sends = await Promise.allSettled(['one', 'two', 'three'].map(name =>
+      manager.send(`release:${ethers.id(name)}`, escrow(wallet), 'release', [ethers.id(name)], 'Release')));
+
+    expect(sends.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    const next = await manager.send(`release:${ethers.id('four')}`, escrow(wallet), 'release', [ethers.id('four')], 'Release');
+    expect(node.broadcast.map(tx => tx.nonce)).toEqual([7, 9, 8]);
+    expect(next.nonce).toBe(8);
+  });
+
+  it('refuses to start from an unreadable store', () => {
+    const wallet = newWallet(pendingNode().provider);
+    fs.writeFileSync(path.join(storeDir, `${CHAIN_ID}-${wallet.address.toLowerCase()}.json`), '{"transactions": [{"key"');
+
+    expect(() => new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir })).toThrow(/is unreadable/);
+  });
+
+  it('does not broadcast a transaction it could not persist', async () => {
+    const node = pendingNode();
+    const wallet = newWallet(node.provider);
+    const manager = new TransactionManager(wallet, { chainId: CHAIN_ID, storeDir });
+    jest.spyOn(fs, 'renameSync').mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(manager.send(`release:${SESSION}`, escrow(wallet), 'release', [SESSION], 'Release')).rejects.toThrow('disk full');
+    expect(node.broadcast).toHaveLength(0);
+  });
+});
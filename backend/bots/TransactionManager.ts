@@ -0,0 +1,510 @@
+/**
+ * TransactionManager - Transaction sending for the payment bots, one per chain and wallet
+ * Allocates nonces locally so batches can be pipelined, caps fees, replaces stuck
+ * transactions with bumped fees and persists in-flight transactions so a restart
+ * resumes them instead of sending again. With a spending policy, every call is checked
+ * against it before it is signed. Bots get their manager from getTransactionManager(),
+ * so every bot sending from the same wallet on a chain shares its nonces and store. Bot
+ * processes sending from the same wallet share the store file, guarded by a lock file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { withFileLock } from './FileLock';
+import { SpendingPolicy, SpendRequest } from './SpendingPolicy';
+
+export type ManagedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+export interface ManagedTransaction {
+  key: string; // caller's idempotency key, e.g. `${functionName}:${sessionId}`
+  chainId: number;
+  description: string;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  nonce: number;
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  hashes: string[]; // original first, then each replacement
+  replacements: number;
+  spendBot: string | null; // bot whose spending policy counts the amount, released if nothing is sent
+  status: ManagedTransactionStatus;
+  createdAt: number;
+  lastSentAt: number;
+  confirmedHash: string | null;
+  blockNumber: number | null;
+  gasUsed: string | null;
+  error: string | null;
+}
+
+export interface TransactionManagerConfig {
+  chainId: number;
+  storeDir?: string; // the store is <storeDir>/<chainId>-<address>.json
+  storePath?: string; // overrides storeDir
+  maxFeePerGas?: bigint; // caps applied to network fee data
+  maxPriorityFeePerGas?: bigint;
+  gasLimitBuffer?: bigint; // added to estimateGas
+  stuckAfter?: number; // ms without a receipt before the transaction is replaced
+  feeBumpPercent?: number; // per replacement (nodes require at least 10)
+  maxReplacements?: number;
+  pollInterval?: number; // ms between receipt checks
+  confirmationTimeout?: number; // ms wait() blocks before returning a still-pending transaction
+}
+
+// What a call moves, for the spending policy
+export type SpendDetails = Omit<SpendRequest, 'chainId' | 'functionName'>;
+
+// Thrown by callers that must not try anything else for a session while its transaction is in flight
+export class TransactionPendingError extends Error {
+  constructor(public readonly transaction: ManagedTransaction) {
+    super(`${transaction.description} transaction ${transaction.hashes[transaction.hashes.length - 1]} is still pending`);
+    this.name = 'TransactionPendingError';
+  }
+}
+
+const MIN_REPLACEMENT_BUMP = 10; // percent
+const FINISHED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+// One manager per chain and wallet address, so bots sending from the same wallet share nonces
+const managers: Map<string, TransactionManager> = new Map();
+
+/**
+ * The manager for a wallet on a chain. The first caller's fee caps and timings apply; the bots
+ * all take them from the same chain configuration. The caller's spending policy is registered so
+ * transactions it reserved, also in an earlier run, are released under it if they fail.
+ */
+export function getTransactionManager(wallet: ethers.Wallet, config: TransactionManagerConfig, policy?: SpendingPolicy): TransactionManager {
+  const key = `${config.chainId}:${wallet.address.toLowerCase()}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new TransactionManager(wallet, config);
+    managers.set(key, manager);
+  }
+  if (policy) {
+    manager.registerPolicy(policy);
+  }
+  return manager;
+}
+
+export class TransactionManager {
+  private wallet: ethers.Wallet;
+  private provider: ethers.Provider;
+  private config: Required<Omit<TransactionManagerConfig, 'maxFeePerGas' | 'maxPriorityFeePerGas'>> &
+    Pick<TransactionManagerConfig, 'maxFeePerGas' | 'maxPriorityFeePerGas'>;
+  private lockPath: string;
+  private transactions: Map<string, ManagedTransaction> = new Map();
+  private policies: Map<string, SpendingPolicy> = new Map(); // by bot name
+  private nextNonce: number | null = null;
+  private nonceLock: Promise<unknown> = Promise.resolve();
+
+  constructor(wallet: ethers.Wallet, config: TransactionManagerConfig) {
+    if (!wallet.provider) {
+      throw new Error('TransactionManager needs a wallet connected to a provider');
+    }
+
+    const storeDir = config.storeDir || process.env.TRANSACTION_STORE_DIR || './data/transactions';
+    this.wallet = wallet;
+    this.provider = wallet.provider;
+    this.config = {
+      storeDir,
+      storePath: path.join(storeDir, `${config.chainId}-${wallet.address.toLowerCase()}.json`),
+      gasLimitBuffer: BigInt(50000),
+      stuckAfter: 3 * 60 * 1000,
+      feeBumpPercent: 15,
+      maxReplacements: 3,
+      pollInterval: 5000,
+      confirmationTimeout: 10 * 60 * 1000,
+      ...config
+    };
+    this.lockPath = `${this.config.storePath}.lock`;
+
+    this.load();
+  }
+
+  // ============ SENDING ============
+
+  /**
+   * Estimate, sign and broadcast a contract call. If a transaction with the same key is
+   * already pending or confirmed it is returned instead of sending again. Reverts during
+   * estimation, and errors from the caller's spending policy, are thrown before a nonce is used.
+   */
+  public async send(
+    key: string,
+    contract: ethers.Contract,
+    functionName: string,
+    args: unknown[],
+    description: string,
+    spend: SpendDetails = {},
+    policy?: SpendingPolicy
+  ): Promise<ManagedTransaction> {
+    const existing = this.transactions.get(key);
+    if (existing && (existing.status === 'pending' || existing.status === 'confirmed')) {
+      console.log(`[TransactionManager] ${key} already ${existing.status} (${existing.hashes[existing.hashes.length - 1]}), not sending again`);
+      return existing;
+    }
+
+    const populated = await contract[functionName].populateTransaction(...args);
+    const gasEstimate = await this.wallet.estimateGas(populated);
+    const fees = await this.getCappedFees();
+
+    // Checked after estimation so calls that would revert never count against the caps
+    if (policy) {
+      this.registerPolicy(policy);
+      await policy.reserve(key, { ...spend, chainId: this.config.chainId, functionName });
+    }
+    const spendBot = policy ? policy.getBot() : null;
+
+    let nonce: number;
+    try {
+      nonce = await this.allocateNonce();
+    } catch (error) {
+      this.releaseSpend(key, spendBot);
+      throw error;
+    }
+
+    const record: ManagedTransaction = {
+      key,
+      chainId: this.config.chainId,
+      description,
+      from: this.wallet.address,
+      to: populated.to!,
+      data: populated.data!,
+      value: (populated.value ?? BigInt(0)).toString(),
+      nonce,
+      gasLimit: (gasEstimate + this.config.gasLimitBuffer).toString(),
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      hashes: [],
+      replacements: 0,
+      spendBot,
+      status: 'pending',
+      createdAt: Date.now(),
+      lastSentAt: 0,
+      confirmedHash: null,
+      blockNumber: null,
+      gasUsed: null,
+      error: null
+    };
+    this.transactions.set(key, record);
+
+    try {
+      await this.broadcast(record);
+    } catch (error) {
+      // Rejected by the node: the nonce was not used. Later nonces may already be handed
+      // out, so continue from the node's pending count to fill the gap they would wait on.
+      await this.finish(record, 'failed', this.errorMessage(error));
+      await this.resetNonce();
+      throw error;
+    }
+
+    console.log(`[TransactionManager] Sent ${description} (nonce ${nonce}): ${record.hashes[0]}`);
+    return record;
+  }
+
+  /**
+   * Wait until the transaction is mined, replacing it with bumped fees while it is stuck.
+   * Returns the record, which is still pending if confirmationTimeout ran out.
+   */
+  public async wait(key: string, timeout: number = this.config.confirmationTimeout): Promise<ManagedTransaction> {
+    const record = this.transactions.get(key);
+    if (!record) {
+      throw new Error(`Unknown transaction ${key}`);
+    }
+
+    const deadline = Date.now() + timeout;
+    while (record.status === 'pending' && Date.now() < deadline) {
+      try {
+        await this.checkTransaction(record);
+      } catch (error) {
+        console.error(`[TransactionManager] Error checking ${key}:`, this.errorMessage(error));
+      }
+
+      if (record.status === 'pending') {
+        await new Promise(resolve => setTimeout(resolve, this.config.pollInterval));
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Wait for every transaction left pending by a previous run
+   */
+  public async resumePending(): Promise<ManagedTransaction[]> {
+    const pending = this.getPending();
+    if (pending.length > 0) {
+      console.log(`[TransactionManager] Resuming ${pending.length} pending transactions on chain ${this.config.chainId}`);
+    }
+    return Promise.all(pending.map(record => this.wait(record.key)));
+  }
+
+  public registerPolicy(policy: SpendingPolicy): void {
+    this.policies.set(policy.getBot(), policy);
+  }
+
+  public get(key: string): ManagedTransaction | undefined {
+    return this.transactions.get(key);
+  }
+
+  public getPending(): ManagedTransaction[] {
+    return Array.from(this.transactions.values()).filter(record => record.status === 'pending');
+  }
+
+  // ============ MONITORING & REPLACEMENT ============
+
+  private async checkTransaction(record: ManagedTransaction): Promise<void> {
+    if (await this.findReceipt(record)) return;
+
+    // Our nonce was used without any of our hashes being mined
+    const minedNonce = await this.wallet.getNonce('latest');
+    if (minedNonce > record.nonce) {
+      if (await this.findReceipt(record)) return;
+      await this.finish(record, 'dropped', `Nonce ${record.nonce} was used by another transaction`);
+      return;
+    }
+
+    if (Date.now() - record.lastSentAt >= this.config.stuckAfter) {
+      await this.replace(record);
+    }
+  }
+
+  private async findReceipt(record: ManagedTransaction): Promise<boolean> {
+    for (const hash of record.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        record.confirmedHash = hash;
+        record.blockNumber = receipt.blockNumber;
+        record.gasUsed = receipt.gasUsed.toString();
+        await this.finish(record, receipt.status === 1 ? 'confirmed' : 'failed', receipt.status === 1 ? null : 'Transaction reverted');
+        console.log(`[TransactionManager] ${record.description} ${record.status} in block ${receipt.blockNumber}: ${hash}`);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Re-send the same nonce with bumped fees (capped). Gives up bumping once the caps or
+   * maxReplacements are reached and keeps waiting on what was already sent.
+   */
+  private async replace(record: ManagedTransaction): Promise<void> {
+    if (record.replacements >= this.config.maxReplacements) return;
+
+    const bumped = (value: string) => BigInt(value) * BigInt(100 + this.config.feeBumpPercent) / BigInt(100);
+    const network = await this.getCappedFees();
+    const maxFeePerGas = this.cap(this.max(bumped(record.maxFeePerGas), network.maxFeePerGas), this.config.maxFeePerGas);
+    const maxPriorityFeePerGas = this.cap(this.max(bumped(record.maxPriorityFeePerGas), network.maxPriorityFeePerGas), this.config.maxPriorityFeePerGas);
+
+    const minimum = (value: string) => BigInt(value) * BigInt(100 + MIN_REPLACEMENT_BUMP) / BigInt(100);
+    if (maxFeePerGas < minimum(record.maxFeePerGas) || maxPriorityFeePerGas < minimum(record.maxPriorityFeePerGas)) {
+      console.warn(`[TransactionManager] ${record.key} is stuck but fee caps leave no room to replace it`);
+      record.replacements = this.config.maxReplacements;
+      await this.save(record);
+      return;
+    }
+
+    record.maxFeePerGas = this.max(maxFeePerGas, maxPriorityFeePerGas).toString();
+    record.maxPriorityFeePerGas = maxPriorityFeePerGas.toString();
+    record.replacements++;
+
+    try {
+      await this.broadcast(record);
+      console.log(`[TransactionManager] Replaced stuck ${record.description} (nonce ${record.nonce}, replacement ${record.replacements}): ${record.hashes[record.hashes.length - 1]}`);
+    } catch (error) {
+      // The earlier transactions may still be mined; keep waiting on them
+      console.error(`[TransactionManager] Replacement for ${record.key} rejected:`, this.errorMessage(error));
+    }
+  }
+
+  /**
+   * Sign locally and persist the hash before broadcasting, so a crash or a timed-out
+   * broadcast still leaves a record to follow up on instead of a second send.
+   */
+  private async broadcast(record: ManagedTransaction): Promise<void> {
+    const signed = await this.wallet.signTransaction({
+      type: 2,
+      chainId: record.chainId,
+      to: record.to,
+      data: record.data,
+      value: BigInt(record.value),
+      nonce: record.nonce,
+      gasLimit: BigInt(record.gasLimit),
+      maxFeePerGas: BigInt(record.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(record.maxPriorityFeePerGas)
+    });
+
+    const hash = ethers.Transaction.from(signed).hash!;
+    record.hashes.push(hash);
+    record.lastSentAt = Date.now();
+    await this.save(record);
+
+    try {
+      await this.provider.broadcastTransaction(signed);
+    } catch (error) {
+      if (this.isUncertainBroadcast(error)) {
+        console.warn(`[TransactionManager] Broadcast of ${hash} may not have reached the network, will keep checking:`, this.errorMessage(error));
+        return;
+      }
+      record.hashes.pop();
+      await this.save(record);
+      throw error;
+    }
+  }
+
+  // The node may or may not have the transaction; treat it as sent and let wait() find out
+  private isUncertainBroadcast(error: unknown): boolean {
+    return ethers.isError(error, 'TIMEOUT') ||
+      ethers.isError(error, 'NETWORK_ERROR') ||
+      ethers.isError(error, 'SERVER_ERROR') ||
+      /already known/i.test(this.errorMessage(error));
+  }
+
+  // ============ NONCES & FEES ============
+
+  /**
+   * Next nonce for the wallet. Allocations are serialized so concurrent sends get
+   * consecutive nonces; the first one starts from the node's pending count. Nonces
+   * held by our own persisted pending transactions are skipped.
+   */
+  private allocateNonce(): Promise<number> {
+    const allocation = this.nonceLock.then(async () => {
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.wallet.getNonce('pending');
+      }
+      const used = new Set(this.getPending().map(record => record.nonce));
+      while (used.has(this.nextNonce)) {
+        this.nextNonce++;
+      }
+      return this.nextNonce++;
+    });
+
+    this.nonceLock = allocation.catch(() => undefined);
+    return allocation;
+  }
+
+  // Continue from the node's pending count, after allocations already in progress
+  private resetNonce(): Promise<void> {
+    const reset = this.nonceLock.then(async () => {
+      this.nextNonce = await this.wallet.getNonce('pending');
+    });
+
+    this.nonceLock = reset.catch(() => undefined);
+    return reset.catch(error => {
+      // The next allocation fetches it again
+      this.nextNonce = null;
+      console.warn(`[TransactionManager] Could not fetch the pending nonce on chain ${this.config.chainId}:`, this.errorMessage(error));
+    });
+  }
+
+  private async getCappedFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const feeData = await this.provider.getFeeData();
+    const maxFee = feeData.maxFeePerGas ?? feeData.gasPrice;
+    if (maxFee === null) {
+      throw new Error(`No fee data available on chain ${this.config.chainId}`);
+    }
+
+    const maxFeePerGas = this.cap(maxFee, this.config.maxFeePerGas);
+    const maxPriorityFeePerGas = this.cap(feeData.maxPriorityFeePerGas ?? maxFee, this.config.maxPriorityFeePerGas);
+
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas
+    };
+  }
+
+  private cap(value: bigint, limit?: bigint): bigint {
+    return limit !== undefined && value > limit ? limit : value;
+  }
+
+  private max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+  }
+
+  // ============ PERSISTENCE ============
+
+  private async finish(record: ManagedTransaction, status: ManagedTransactionStatus, error: string | null): Promise<void> {
+    record.status = status;
+    record.error = error;
+    await this.save(record);
+
+    // Nothing left the wallet
+    if (status === 'failed' || status === 'dropped') {
+      this.releaseSpend(record.key, record.spendBot);
+    }
+  }
+
+  private releaseSpend(key: string, bot: string | null): void {
+    if (!bot) return;
+
+    const policy = this.policies.get(bot);
+    if (!policy) {
+      console.warn(`[TransactionManager] ${bot} is not running here; its reservation for ${key} stays counted until it ages out`);
+      return;
+    }
+    policy.release(this.config.chainId, key).catch(error => {
+      console.error(`[TransactionManager] Error releasing the policy reservation for ${key}:`, this.errorMessage(error));
+    });
+  }
+
+  private load(): void {
+    for (const record of this.readStore()) {
+      this.transactions.set(record.key, record);
+    }
+    console.log(`[TransactionManager] Loaded ${this.transactions.size} transactions (${this.getPending().length} pending) from ${this.config.storePath}`);
+  }
+
+  // Throws on an unreadable store: starting without the in-flight transactions could send them again
+  private readStore(): ManagedTransaction[] {
+    if (!fs.existsSync(this.config.storePath)) return [];
+
+    let parsed: { transactions?: ManagedTransaction[] };
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.config.storePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Transaction store ${this.config.storePath} is unreadable (${this.errorMessage(error)}); restore or repair it before starting`);
+    }
+
+    const cutoff = Date.now() - FINISHED_RETENTION;
+    return (parsed.transactions || []).filter(record => record.status === 'pending' || record.createdAt >= cutoff);
+  }
+
+  /**
+   * Write record into the latest store while holding the lock file. Records other processes
+   * sending from this wallet wrote are kept as they are on disk, and the ones this manager
+   * did not know yet are picked up so their nonces and keys are not used again.
+   * Throws if the store cannot be written: a transaction is only broadcast once it is on disk.
+   */
+  private async save(record: ManagedTransaction): Promise<void> {
+    fs.mkdirSync(path.dirname(this.config.storePath), { recursive: true });
+
+    await withFileLock(this.lockPath, `${this.wallet.address}:${process.pid}`, () => {
+      const stored = new Map(this.readStore().map(entry => [entry.key, entry]));
+      for (const [key, entry] of stored) {
+        if (!this.transactions.has(key)) {
+          this.transactions.set(key, entry);
+        }
+      }
+      stored.set(record.key, record);
+
+      const data = {
+        version: '8.0.0',
+        chainId: this.config.chainId,
+        from: this.wallet.address,
+        lastSaved: Date.now(),
+        transactions: Array.from(stored.values())
+      };
+
+      // Write then rename so a crash never leaves a truncated store behind
+      const tempPath = `${this.config.storePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, this.config.storePath);
+    });
+  }
+
+  private errorMessage(error: unknown): string {
+    return (error as { shortMessage?: string }).shortMessage || (error instanceof Error ? error.message : String(error));
+  }
+}
@@ -6,10 +6,15 @@
  * Provides early warning system and automated recovery triggers
  */
 
-import { ethers } from 'ethers';
+import { ethers, EventLog } from 'ethers';
 import { DiscordNotifier, DiscordWebhookConfig } from './DiscordNotifier';
-import { SessionStatus, ProgressiveSession } from './types';
+import { NotificationRouter, NotificationField, createNotificationRouterFromEnv } from './notifications/NotificationRouter';
+import { metrics, startMetricsServer } from './MetricsRegistry';
+import { FailoverRpcProvider, getRpcProvider } from './RpcProvider';
+import { SessionStatus, ProgressiveSession, ChainConfig } from './types';
+import { loadBotConfig } from './config/BotConfigLoader';
 import cron from 'node-cron';
+import dotenv from 'dotenv';
 
 // Monitor-specific interfaces
 interface TrappedFund {
@@ -56,31 +61,27 @@ const MONITOR_ABI = [
   'event EmergencyRelease(bytes32 indexed sessionId, uint256 amount, string reason)'
 ];
 
-// Contract addresses
-const V7_CONTRACTS = {
-  8453: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3', // Base
-  10: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3',   // Optimism  
-  42161: '0x2a9d167e30195ba5fd29cfc09622be0d02da91be', // Arbitrum
-  137: '0xc7c306300dfe17b927fab5a5a600a7f3ba6691d3'   // Polygon
-};
-
-const RPC_URLS = {
-  8453: 'https://mainnet.base.org',
-  10: 'https://mainnet.optimism.io',
-  42161: 'https://arb1.arbitrum.io/rpc',
-  137: 'https://polygon-rpc.com'
-};
+// Prometheus metrics (served on TRAPPED_FUNDS_METRICS_PORT when monitoring)
+const trappedFundsGauge = metrics.gauge('chain_academy_trapped_funds', 'Sessions with trapped funds found by the last scan, by chain and severity');
+const trappedValueGauge = metrics.gauge('chain_academy_trapped_funds_value_eth', 'Amount trapped according to the last scan, by chain');
+const scansTotal = metrics.counter('chain_academy_trapped_funds_scans_total', 'Trapped funds scans by result');
+const alertsTotal = metrics.counter('chain_academy_trapped_funds_alerts_total', 'Trapped funds alerts raised, by severity');
 
 export class TrappedFundsMonitor {
-  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  private providers: Map<number, FailoverRpcProvider> = new Map();
   private contracts: Map<number, ethers.Contract> = new Map();
+  private chainNames: Map<number, string> = new Map();
   private discordNotifier: DiscordNotifier;
+  private notifications: NotificationRouter;
   private metrics: MonitorMetrics;
   private knownSessions: Map<string, {chainId: number, lastChecked: number}> = new Map();
   private isRunning: boolean = false;
   private monitorTask: cron.ScheduledTask | null = null;
 
-  constructor() {
+  /**
+   * @param chainConfigs chains whose V7 escrow (contractAddress) is monitored, from the bot configuration
+   */
+  constructor(chainConfigs: ChainConfig[]) {
     // Setup Discord notifications
     const discordConfig: DiscordWebhookConfig = {
       webhookUrl: process.env.MONITOR_DISCORD_WEBHOOK_URL || process.env.BOT_DISCORD_WEBHOOK_URL || '',
@@ -90,6 +91,7 @@ export class TrappedFundsMonitor {
       retryDelay: 2000
     };
     this.discordNotifier = new DiscordNotifier(discordConfig);
+    this.notifications = createNotificationRouterFromEnv(this.discordNotifier);
 
     // Initialize metrics
     this.metrics = {
@@ -101,31 +103,27 @@ export class TrappedFundsMonitor {
       chainMetrics: {}
     };
 
-    this.initializeChains();
+    this.initializeChains(chainConfigs);
     console.log('[TrappedFundsMonitor] Initialized monitoring system');
   }
 
-  private initializeChains(): void {
-    Object.entries(V7_CONTRACTS).forEach(([chainIdStr, contractAddress]) => {
-      const chainId = parseInt(chainIdStr);
-      const rpcUrl = RPC_URLS[chainId as keyof typeof RPC_URLS];
-      
-      if (rpcUrl) {
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const contract = new ethers.Contract(contractAddress, MONITOR_ABI, provider);
-        
-        this.providers.set(chainId, provider);
-        this.contracts.set(chainId, contract);
-        
-        // Initialize chain metrics
-        this.metrics.chainMetrics[chainId] = {
-          scanned: 0,
-          trapped: 0,
-          totalTrappedValue: BigInt(0)
-        };
-        
-        console.log(`[TrappedFundsMonitor] Initialized chain ${chainId}: ${contractAddress}`);
-      }
+  private initializeChains(chainConfigs: ChainConfig[]): void {
+    chainConfigs.forEach(({ chainId, name, rpcUrl, rpcSettings, contractAddress }) => {
+      const provider = getRpcProvider(chainId, rpcUrl, rpcSettings);
+      const contract = new ethers.Contract(contractAddress, MONITOR_ABI, provider);
+
+      this.providers.set(chainId, provider);
+      this.contracts.set(chainId, contract);
+      this.chainNames.set(chainId, name);
+
+      // Initialize chain metrics
+      this.metrics.chainMetrics[chainId] = {
+        scanned: 0,
+        trapped: 0,
+        totalTrappedValue: BigInt(0)
+      };
+
+      console.log(`[TrappedFundsMonitor] Initialized chain ${chainId}: ${contractAddress}`);
     });
   }
 
@@ -154,7 +152,7 @@ export class TrappedFundsMonitor {
     if (this.discordNotifier.isEnabled()) {
       this.discordNotifier.notifyBotStartup(
         'Trapped Funds Monitor v1.0',
-        Object.keys(V7_CONTRACTS).length
+        this.contracts.size
       ).catch(console.error);
     }
 
@@ -201,6 +199,8 @@ export class TrappedFundsMonitor {
         );
       }
 
+      this.recordScanMetrics(allTrappedFunds);
+
       // Update global metrics
       this.metrics.totalScanned++;
       this.metrics.trappedFound += allTrappedFunds.length;
@@ -226,6 +226,7 @@ export class TrappedFundsMonitor {
 
     } catch (error) {
       console.error('[TrappedFundsMonitor] Scan failed:', error);
+      scansTotal.inc({ result: 'failure' });
       
       if (this.discordNotifier.isEnabled()) {
         await this.discordNotifier.notifyError(
@@ -271,7 +272,7 @@ export class TrappedFundsMonitor {
 
       // Check each session for trapped funds
       for (const event of createdEvents) {
-        if (!event.args) continue;
+        if (!(event instanceof EventLog)) continue;
         
         const sessionId = event.args.sessionId;
         const sessionKey = `${chainId}-${sessionId}`;
@@ -316,7 +317,9 @@ export class TrappedFundsMonitor {
   ): Promise<TrappedFund | null> {
     
     try {
-      const session: ProgressiveSession = await contract.getSession(sessionId);
+      const result = await contract.getSession(sessionId);
+      // ethers decodes the uint8 status as a bigint
+      const session: ProgressiveSession = { ...result.toObject(), status: Number(result.status) };
       
       if (session.student === ethers.ZeroAddress) {
         return null; // Session doesn't exist
@@ -374,7 +377,7 @@ export class TrappedFundsMonitor {
     }
     
     // Scenario 2: Session stuck in other states with unreleased funds
-    if ((session.status === SessionStatus.Active || session.status === SessionStatus.Paused) &&
+    if ((session.status === SessionStatus.Started || session.status === SessionStatus.Paused) &&
         timeSinceCreated > 24 * 3600 && // 24 hours old
         refundAmount > 0) {
       // Could be stuck due to bugs or missing heartbeats
@@ -415,7 +418,7 @@ export class TrappedFundsMonitor {
     
     if (session.status === SessionStatus.Created) {
       return `No-show session - Created ${hours} hours ago but never started`;
-    } else if (session.status === SessionStatus.Active || session.status === SessionStatus.Paused) {
+    } else if (session.status === SessionStatus.Started || session.status === SessionStatus.Paused) {
       return `Stuck session - ${session.status} for ${hours} hours with unreleased funds`;
     } else if (session.status === SessionStatus.Completed) {
       return `Completed session with unreleased funds - ${hours} hours ago`;
@@ -444,6 +447,27 @@ export class TrappedFundsMonitor {
     return 'Monitor and escalate if needed';
   }
 
+  /**
+   * Replace the per-chain gauges with the results of a completed scan
+   */
+  private recordScanMetrics(trappedFunds: TrappedFund[]): void {
+    trappedFundsGauge.reset();
+    trappedValueGauge.reset();
+
+    for (const chainId of this.contracts.keys()) {
+      const chain = this.getChainName(chainId);
+      const chainFunds = trappedFunds.filter(fund => fund.chainId === chainId);
+
+      for (const severity of ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const) {
+        trappedFundsGauge.set({ chain, severity }, chainFunds.filter(fund => fund.severity === severity).length);
+      }
+      const value = chainFunds.reduce((sum, fund) => sum + fund.amount, BigInt(0));
+      trappedValueGauge.set({ chain }, parseFloat(ethers.formatEther(value)));
+    }
+
+    scansTotal.inc({ result: 'success' });
+  }
+
   /**
    * Process alerts for trapped funds
    */
@@ -466,67 +490,34 @@ export class TrappedFundsMonitor {
     }
     
     this.metrics.alertsSent += trappedFunds.length;
+    trappedFunds.forEach(fund => alertsTotal.inc({ severity: fund.severity }));
   }
 
   /**
    * Send critical alert for individual trapped fund
    */
   private async sendCriticalAlert(fund: TrappedFund): Promise<void> {
-    if (!this.discordNotifier.isEnabled()) return;
-    
-    const embed = {
+    if (!this.notifications.isEnabled()) return;
+
+    const delivered = await this.notifications.notify({
       title: '🚨 CRITICAL: Trapped Funds Detected',
-      color: 0xFF0000, // Red
+      message: `${ethers.formatEther(fund.amount)} ETH trapped for ${fund.timeTrapped} hours on ${this.getChainName(fund.chainId)}`,
+      severity: 'critical',
+      source: 'Chain Academy Trapped Funds Monitor',
+      dedupKey: `trapped:${fund.chainId}:${fund.sessionId.toLowerCase()}`,
       fields: [
-        {
-          name: '💰 Amount',
-          value: `${ethers.formatEther(fund.amount)} ETH`,
-          inline: true
-        },
-        {
-          name: '⏰ Trapped For',
-          value: `${fund.timeTrapped} hours`,
-          inline: true
-        },
-        {
-          name: '🌐 Chain',
-          value: this.getChainName(fund.chainId),
-          inline: true
-        },
-        {
-          name: '📋 Session ID',
-          value: `\`${fund.sessionId}\``,
-          inline: false
-        },
-        {
-          name: '👤 Student',
-          value: `\`${fund.student}\``,
-          inline: false
-        },
-        {
-          name: '🔍 Reason',
-          value: fund.reason,
-          inline: false
-        },
-        {
-          name: '⚡ Suggested Action',
-          value: fund.suggestedAction,
-          inline: false
-        }
-      ],
-      timestamp: new Date().toISOString(),
-      footer: {
-        text: `Chain Academy Trapped Funds Monitor`
-      }
-    };
+        { name: '💰 Amount', value: `${ethers.formatEther(fund.amount)} ETH`, inline: true },
+        { name: '⏰ Trapped For', value: `${fund.timeTrapped} hours`, inline: true },
+        { name: '🌐 Chain', value: this.getChainName(fund.chainId), inline: true },
+        { name: '📋 Session ID', value: fund.sessionId },
+        { name: '👤 Student', value: fund.student },
+        { name: '🔍 Reason', value: fund.reason },
+        { name: '⚡ Suggested Action', value: fund.suggestedAction }
+      ]
+    });
 
-    try {
-      await this.discordNotifier.sendCustomMessage({
-        embeds: [embed]
-      });
+    if (delivered) {
       console.log(`[TrappedFundsMonitor] Critical alert sent for session ${fund.sessionId}`);
-    } catch (error) {
-      console.error('[TrappedFundsMonitor] Failed to send critical alert:', error);
     }
   }
 
@@ -534,7 +525,7 @@ export class TrappedFundsMonitor {
    * Send summary of all trapped funds found
    */
   private async sendTrappedFundsSummary(trappedFunds: TrappedFund[]): Promise<void> {
-    if (!this.discordNotifier.isEnabled() || trappedFunds.length === 0) return;
+    if (!this.notifications.isEnabled() || trappedFunds.length === 0) return;
     
     const criticalCount = trappedFunds.filter(f => f.severity === 'CRITICAL').length;
     const highCount = trappedFunds.filter(f => f.severity === 'HIGH').length;
@@ -543,79 +534,47 @@ export class TrappedFundsMonitor {
     
     const totalValue = trappedFunds.reduce((sum, f) => sum + f.amount, BigInt(0));
     
-    const embed = {
-      title: '📊 Trapped Funds Scan Results',
-      color: criticalCount > 0 ? 0xFF0000 : highCount > 0 ? 0xFF8000 : 0xFFFF00,
-      fields: [
-        {
-          name: '📈 Total Found',
-          value: trappedFunds.length.toString(),
-          inline: true
-        },
-        {
-          name: '💰 Total Value',
-          value: `${ethers.formatEther(totalValue)} ETH`,
-          inline: true
-        },
-        {
-          name: '⏰ Scan Time',
-          value: new Date().toLocaleTimeString(),
-          inline: true
-        },
-        {
-          name: '🚨 Critical',
-          value: criticalCount.toString(),
-          inline: true
-        },
-        {
-          name: '⚠️ High',
-          value: highCount.toString(),
-          inline: true
-        },
-        {
-          name: '🟡 Medium/Low',
-          value: (mediumCount + lowCount).toString(),
-          inline: true
-        }
-      ],
-      timestamp: new Date().toISOString()
-    };
+    const fields: NotificationField[] = [
+      { name: '📈 Total Found', value: trappedFunds.length.toString(), inline: true },
+      { name: '💰 Total Value', value: `${ethers.formatEther(totalValue)} ETH`, inline: true },
+      { name: '⏰ Scan Time', value: new Date().toLocaleTimeString(), inline: true },
+      { name: '🚨 Critical', value: criticalCount.toString(), inline: true },
+      { name: '⚠️ High', value: highCount.toString(), inline: true },
+      { name: '🟡 Medium/Low', value: (mediumCount + lowCount).toString(), inline: true }
+    ];
     
     // Add chain breakdown if multiple chains have trapped funds
-    const chainBreakdown = {};
+    const chainBreakdown: Map<string, { count: number; value: bigint }> = new Map();
     trappedFunds.forEach(fund => {
       const chainName = this.getChainName(fund.chainId);
-      if (!chainBreakdown[chainName]) {
-        chainBreakdown[chainName] = { count: 0, value: BigInt(0) };
-      }
-      chainBreakdown[chainName].count++;
-      chainBreakdown[chainName].value += fund.amount;
+      const entry = chainBreakdown.get(chainName) || { count: 0, value: BigInt(0) };
+      entry.count++;
+      entry.value += fund.amount;
+      chainBreakdown.set(chainName, entry);
     });
     
-    if (Object.keys(chainBreakdown).length > 1) {
-      const chainField = Object.entries(chainBreakdown)
-        .map(([chain, data]: [string, any]) => 
-          `${chain}: ${data.count} (${ethers.formatEther(data.value)} ETH)`
-        )
+    if (chainBreakdown.size > 1) {
+      const chainField = Array.from(chainBreakdown.entries())
+        .map(([chain, data]) => `${chain}: ${data.count} (${ethers.formatEther(data.value)} ETH)`)
         .join('\n');
       
-      embed.fields.push({
-        name: '🌐 By Chain',
-        value: chainField,
-        inline: false
-      });
+      fields.push({ name: '🌐 By Chain', value: chainField });
     }
 
-    try {
-      await this.discordNotifier.sendCustomMessage({
-        embeds: [embed]
-      });
+    const delivered = await this.notifications.notify({
+      title: '📊 Trapped Funds Scan Results',
+      message: `${trappedFunds.length} sessions with trapped funds (${ethers.formatEther(totalValue)} ETH)`,
+      severity: criticalCount > 0 ? 'error' : 'warning',
+      source: 'Chain Academy Trapped Funds Monitor',
+      fields
+    });
+
+    if (delivered) {
       console.log(`[TrappedFundsMonitor] Summary alert sent for ${trappedFunds.length} trapped funds`);
-    } catch (error) {
-      console.error('[TrappedFundsMonitor] Failed to send summary alert:', error);
     }
   }
 
+
   /**
    * Check a specific session manually
    */
@@ -642,14 +601,8 @@ export class TrappedFundsMonitor {
     };
   }
 
-  private getChainName(chainId: number): string {
-    const names: Record<number, string> = {
-      8453: 'Base',
-      10: 'Optimism',
-      42161: 'Arbitrum',
-      137: 'Polygon'
-    };
-    return names[chainId] || `Chain ${chainId}`;
+  public getChainName(chainId: number): string {
+    return this.chainNames.get(chainId) || `Chain ${chainId}`;
   }
 }
 
@@ -674,19 +627,32 @@ Examples:
   ts-node TrappedFundsMonitor.ts status                 # Show status
 
 Environment Variables:
+  BOT_CONFIG_FILE, BOT_PROFILE  Bot configuration with the chains to monitor (otherwise .env.v8)
   MONITOR_DISCORD_WEBHOOK_URL   Discord webhook for alerts
   BOT_DISCORD_WEBHOOK_URL       Fallback Discord webhook
+  TRAPPED_FUNDS_METRICS_PORT    Serve Prometheus metrics on this port while monitoring
 `);
     process.exit(1);
   }
 
-  const monitor = new TrappedFundsMonitor();
+  // Monitor the V7 escrows of the configured chains
+  dotenv.config({ path: '.env.v8' });
+  const { chains } = await loadBotConfig();
+  const monitor = new TrappedFundsMonitor(chains.filter(chain => chain.contractAddress));
   const command = args[0];
 
   switch (command) {
     case 'start':
       const cronSchedule = args[1] || '*/15 * * * *';
       monitor.startMonitoring(cronSchedule);
+
+      if (process.env.TRAPPED_FUNDS_METRICS_PORT) {
+        await startMetricsServer({
+          port: parseInt(process.env.TRAPPED_FUNDS_METRICS_PORT),
+          host: process.env.METRICS_HOST,
+          token: process.env.METRICS_TOKEN
+        });
+      }
       
       console.log('🔍 Trapped Funds Monitor started');
       console.log('   Press Ctrl+C to stop');
@@ -756,5 +722,3 @@ Environment Variables:
 if (require.main === module) {
   main().catch(console.error);
 }
-
-export { TrappedFundsMonitor };
\ No newline at end of file
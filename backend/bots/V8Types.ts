@@ -108,6 +108,14 @@ export interface BotConfig {
   discordWebhookUrl: string;
   enableDiscordNotifications: boolean;
   sessionStoragePath?: string;
+  indexerApiUrl?: string; // backend escrow indexer (/api/escrow) used for session discovery
+  executionHistoryPath?: string;
+  dryRun?: boolean; // simulate every run and write a plan instead of sending transactions
+  dryRunPlanDir?: string;
+  transactionStoreDir?: string; // in-flight transactions, one file per chain and wallet
+  logChunkSize?: number; // max blocks per SessionCreated log query
+  processingLedgerPath?: string; // shared with RefundBot and EmergencyRefundBot
+  spendingPolicyFile?: string; // caps and allow-lists checked before every transaction
 }
 
 export interface ChainConfig {
@@ -178,18 +186,25 @@ export interface ChainConfigV8 extends ChainConfig {
   // V8 specific settings
   v8Enabled: boolean;
   migrationMode: 'v7-only' | 'dual-support' | 'v8-only';
+  deploymentBlocks?: { v7?: number; v8?: number }; // where session discovery starts without a saved cursor
+
+  // Fee caps for transactions the bot sends
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
   
   // Enhanced RPC settings for V8
   rpcSettings: {
     timeout: number;
     retries: number;
     fallbackRpcs: string[];
+    crossCheck?: boolean; // confirm session status and available payment on a second RPC before sending
   };
 }
 
 // ============ V8 PROCESSING INTERFACES ============
 
 export interface PendingPaymentV8 extends PendingPayment {
+  tokenAddress?: string; // session payment token, for the spending policy
   sessionType: 'v7' | 'v8';
   refundType?: RefundType;
   disputeInfo?: {
@@ -220,6 +235,46 @@ export interface ProcessingMethod {
   description: string;
 }
 
+// ============ V8 DRY RUN ============
+
+// Result of simulating one processing method with eth_call + estimateGas
+export interface SimulatedMethodV8 {
+  method: ProcessingMethod['method'];
+  functionName: string;
+  description: string;
+  outcome: 'success' | 'reverted' | 'skipped'; // skipped: an earlier method would already succeed
+  gasEstimate: string | null;
+  estimatedCost: string | null; // wei at the current gas price
+  error: string | null;
+}
+
+export interface DryRunPlanEntryV8 {
+  sessionId: string;
+  chainId: number;
+  chainName: string;
+  sessionType: 'v7' | 'v8';
+  predictedAmount: string; // wei still held for the session
+  refundType: RefundType | null;
+  healthy: boolean;
+  requiresAdmin: boolean;
+  chosenMethod: string | null; // functionName a real run would use, null if every method reverts
+  methods: SimulatedMethodV8[]; // primary first, then fallbacks in order
+}
+
+// What a run would do, written as JSON instead of broadcasting anything
+export interface DryRunPlanV8 {
+  id: string;
+  createdAt: string;
+  botAddress: string;
+  totalSessions: number;
+  executable: number;
+  failing: number;
+  totalAmount: string;
+  totalGasEstimate: string;
+  totalEstimatedCost: string;
+  entries: DryRunPlanEntryV8[];
+}
+
 // ============ V8 EVENTS & MONITORING ============
 
 export interface SessionEventV8 {
@@ -284,6 +339,30 @@ export interface BotMetricsV8 extends BotMetrics {
   };
 }
 
+// One run of executeDaily, persisted for the admin dashboard
+export interface ExecutionRecordV8 {
+  id: string;
+  startTime: number;
+  endTime: number;
+  success: boolean;
+  isManual: boolean;
+  totalProcessed: number;
+  successfulPayments: number;
+  failedPayments: number;
+  error: string | null;
+  dryRun?: boolean;
+  planPath?: string; // dry runs only
+}
+
+export interface SchedulerStatusV8 {
+  isRunning: boolean;
+  isPaused: boolean;
+  dryRun: boolean;
+  lastExecution: ExecutionRecordV8 | null;
+  nextExecution: string;
+  uptime: number; // seconds
+}
+
 export interface SessionAnalytics {
   sessionId: string;
   creationTime: number;
@@ -382,23 +461,4 @@ export interface DiscordNotificationV8 extends DiscordNotification {
 // Re-export base types (removed dependency)
 
 // V8 specific exports
-export {
-  SessionStatus as SessionStatusV8,
-  DisputeReason,
-  RefundType,
-  ProgressiveSessionV8,
-  PaymentCalculationV8,
-  SessionHealthInfo,
-  BotConfigV8,
-  ChainConfigV8,
-  PendingPaymentV8,
-  ProcessingStrategy,
-  ProcessingMethod,
-  SessionEventV8,
-  SessionEventType,
-  BotMetricsV8,
-  SessionAnalytics,
-  MigrationInfo,
-  MigrationStatus,
-  DiscordNotificationV8
-};
\ No newline at end of file
+export { SessionStatus as SessionStatusV8 };
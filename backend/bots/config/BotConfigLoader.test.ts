@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ConfigError, loadBotConfigFile } from './BotConfigLoader';
+
+const EXAMPLE = path.join(__dirname, 'bot-config.example.json');
+const example = () => JSON.parse(fs.readFileSync(EXAMPLE, 'utf8'));
+
+// The ConfigError a load failed with
+async function configError(file: string, profile: string): Promise<ConfigError> {
+  const error = await loadBotConfigFile(file, profile).catch(caught => caught);
+  expect(error).toBeInstanceOf(ConfigError);
+  return error;
+}
+
+describe('loadBotConfigFile', () => {
+  const key = ethers.Wallet.createRandom().privateKey;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-config-'));
+    // Written without 0x, as in most .env files
+    process.env.BOT_PRIVATE_KEY = key.substring(2);
+  });
+
+  afterEach(() => {
+    delete process.env.BOT_PRIVATE_KEY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => {
+    const file = path.join(dir, 'bot-config.json');
+    fs.writeFileSync(file, JSON.stringify(config));
+    return file;
+  };
+
+  it('merges a profile over the defaults and resolves its secret references', async () => {
+    const { profile, bot, chains, warnings } = await loadBotConfigFile(EXAMPLE, 'testnet');
+
+    expect(profile).toBe('testnet');
+    expect(bot).toMatchObject({
+      name: 'Chain Academy V8 Payment Bot (Hardhat)',
+      environment: 'testnet',
+      cronSchedule: '*/5 * * * *',
+      privateKey: key,
+      enableDiscordNotifications: false,
+      discordWebhookUrl: ''
+    });
+    expect(chains).toEqual([expect.objectContaining({
+      chainId: 31337,
+      v8Enabled: true,
+      migrationMode: 'v8-only',
+      maxFeePerGas: BigInt(50000000000),
+      rpcSettings: { timeout: 30000, retries: 3, fallbackRpcs: [], crossCheck: false }
+    })]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reports every unresolvable secret of a profile at once', async () => {
+    process.env.BASE_RPC_URL = 'https://base.example.com';
+    process.env.DISCORD_WEBHOOK_URL = 'https://discord.com/api/webhooks/1/token';
+
+    try {
+      const error = await configError(EXAMPLE, 'mainnet');
+
+      expect(error.issues).toEqual([
+        'chains[1] (Optimism).rpcUrl: environment variable OPTIMISM_RPC_URL is not set',
+        'chains[2] (Arbitrum).rpcUrl: environment variable ARBITRUM_RPC_URL is not set',
+        'chains[3] (Polygon).rpcUrl: environment variable POLYGON_RPC_URL is not set'
+      ]);
+    } finally {
+      delete process.env.BASE_RPC_URL;
+      delete process.env.DISCORD_WEBHOOK_URL;
+    }
+  });
+
+  it('rejects fields that are inconsistent with each other or with the profile', async () => {
+    const config = example();
+    config.profiles.mainnet = {
+      bot: { enableDiscordNotifications: false },
+      chains: [
+        { ...config.profiles.testnet.chains[0], maxPriorityFeePerGas: '60000000000' },
+        { ...config.profiles.staging.chains[0], rpcUrl: 'https://base.example.com', migrationMode: 'v7-only' }
+      ]
+    };
+
+    const error = await configError(writeConfig(config), 'mainnet');
+
+    expect(error.issues).toEqual([
+      'bot.spendingPolicyFile is not set but Base is a mainnet (set SPENDING_POLICY_DISABLED=true to run without limits)',
+      'chain Hardhat (31337): maxPriorityFeePerGas is higher than maxFeePerGas',
+      'chain Hardhat (31337) is a testnet but the profile is mainnet'
+    ]);
+  });
+
+  it('names the schema violations and unknown profiles', async () => {
+    const config = example();
+    config.profiles.testnet.chains[0].contracts = { v8: 'not-an-address' };
+    const file = writeConfig(config);
+
+    expect((await configError(file, 'testnet')).issues).toEqual([
+      expect.stringMatching(/^profiles\.testnet\.chains\[0\]\.contracts\.v8/)
+    ]);
+    expect((await configError(file, 'production')).issues).toEqual([
+      'unknown profile "production" (use testnet, staging, mainnet)'
+    ]);
+  });
+});
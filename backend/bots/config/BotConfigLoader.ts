@@ -0,0 +1,311 @@
+/**
+ * BotConfigLoader - Loads the bot configuration from a profile file or the environment
+ * With BOT_CONFIG_FILE set, the BOT_PROFILE profile of that file is validated against the
+ * schema, its secret references are resolved and it is checked for inconsistencies.
+ * Without it the .env.v8 variables are used as before. Every problem found is reported
+ * together in one ConfigError. A key that a rotation retired is replaced by the current one
+ * (see rotatedKey.ts). Loads through loadBotConfig() are recorded in the audit trail:
+ * the key's address, and the config file whenever its content changed since it was last loaded.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { auditTrail, processActor } from '../AuditTrail';
+import { BotConfigV8, ChainConfigV8 } from '../V8Types';
+import { BOT_PROFILES, BotProfileName, BotProfile, fileSchema, profileSchema } from './schema';
+import { resolveSecret } from './secrets';
+import { resolveRotatedKey } from './rotatedKey';
+import { findMissingEnvironment, createV8Config, createChainConfigs } from './envConfig';
+
+export * from './schema';
+
+export interface ResolvedBotConfig {
+  source: string; // config file path, or 'environment'
+  profile: string;
+  bot: BotConfigV8;
+  chains: ChainConfigV8[];
+  warnings: string[];
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid bot configuration (${source}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Public testnets and local nodes (Sepolia and the L2 Sepolias, Polygon Amoy, Hardhat)
+const KNOWN_TESTNET_CHAIN_IDS = new Set([11155111, 84532, 11155420, 421614, 80002, 31337]);
+
+export function isKnownTestnet(chainId: number): boolean {
+  return KNOWN_TESTNET_CHAIN_IDS.has(chainId);
+}
+
+// Explicit opt-out of the spending policy on mainnet chains
+export function isSpendingPolicyDisabled(): boolean {
+  return process.env.SPENDING_POLICY_DISABLED === 'true';
+}
+
+const PRIVATE_KEY_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+/**
+ * Load the configuration the bots and the operations daemon start with
+ */
+export async function loadBotConfig(
+  options: { file?: string; profile?: string } = {}
+): Promise<ResolvedBotConfig> {
+  const file = options.file || process.env.BOT_CONFIG_FILE;
+  const config = file
+    ? await loadBotConfigFile(file, options.profile || process.env.BOT_PROFILE || '')
+    : await loadBotConfigFromEnv();
+
+  try {
+    config.bot.privateKey = await resolveRotatedKey(config.bot.privateKey);
+  } catch (error) {
+    throw new ConfigError(config.source, [`bot.privateKey: ${(error as Error).message}`]);
+  }
+
+  await recordConfigLoad(config, file);
+  return config;
+}
+
+// A trail that cannot be written is reported, it does not keep the bots from starting
+async function recordConfigLoad(config: ResolvedBotConfig, file: string | undefined): Promise<void> {
+  const actor = processActor();
+  try {
+    if (file) {
+      await auditTrail.recordFileVersion('bot-config', file, actor, { profile: config.profile });
+    }
+    if (config.bot.privateKey) {
+      await auditTrail.append('key.loaded', actor, {
+        source: config.source,
+        profile: config.profile,
+        address: ethers.computeAddress(config.bot.privateKey)
+      });
+    }
+  } catch (error) {
+    console.error('[BotConfigLoader] Failed to record the configuration load in the audit trail:', error);
+  }
+}
+
+// ============ CONFIGURATION FILE ============
+
+export async function loadBotConfigFile(filePath: string, profileName: string): Promise<ResolvedBotConfig> {
+  const source = path.resolve(filePath);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(source, 'utf8'));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : (error as Error).message;
+    throw new ConfigError(source, [`cannot read configuration: ${reason}`]);
+  }
+
+  const fileResult = fileSchema.validate(raw, { abortEarly: false });
+  if (fileResult.error) {
+    throw new ConfigError(source, fileResult.error.details.map(detail => detail.message));
+  }
+
+  if (!BOT_PROFILES.includes(profileName as BotProfileName)) {
+    throw new ConfigError(source, [
+      profileName ? `unknown profile "${profileName}" (use ${BOT_PROFILES.join(', ')})` : `BOT_PROFILE is not set (use ${BOT_PROFILES.join(', ')})`
+    ]);
+  }
+  const profileConfig = fileResult.value.profiles[profileName as BotProfileName];
+  if (!profileConfig) {
+    throw new ConfigError(source, [`profile "${profileName}" is not defined (defined: ${Object.keys(fileResult.value.profiles).join(', ')})`]);
+  }
+
+  const merged = deepMerge(fileResult.value.defaults || {}, profileConfig);
+  const { error, value } = profileSchema.validate(merged, { abortEarly: false });
+  if (error) {
+    throw new ConfigError(source, error.details.map(detail => `profiles.${profileName}.${detail.message.replace(/^"([^"]+)"/, '$1')}`));
+  }
+
+  const issues: string[] = [];
+  const { bot, chains } = await resolveProfile(value, profileName, issues);
+  const testnetChains = new Set(value.chains.filter(chain => chain.testnet).map(chain => chain.chainId));
+  const warnings = checkConsistency(profileName, bot, chains, testnetChains, issues);
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return { source, profile: profileName, bot, chains, warnings };
+}
+
+async function resolveProfile(
+  profile: BotProfile,
+  profileName: string,
+  issues: string[]
+): Promise<{ bot: BotConfigV8; chains: ChainConfigV8[] }> {
+  const secret = async (label: string, reference: string | undefined): Promise<string> => {
+    if (!reference) return '';
+    try {
+      return await resolveSecret(reference);
+    } catch (error) {
+      issues.push(`${label}: ${(error as Error).message}`);
+      return '';
+    }
+  };
+
+  // Secret references are not re-validated, only resolved; URLs behind them are checked here
+  const url = async (label: string, value: string): Promise<string> => {
+    const resolved = /^[a-z]+:\/\//i.test(value) ? value : await secret(label, value);
+    if (resolved && !/^(https?|wss?):\/\//i.test(resolved)) {
+      issues.push(`${label}: ${value} does not resolve to an http(s)/ws(s) URL`);
+    }
+    return resolved;
+  };
+
+  // The webhook is only needed (and resolved) while Discord notifications are on
+  const { privateKey, discordWebhookUrl, ...settings } = profile.bot;
+  const key = await secret('bot.privateKey', privateKey);
+  const bot: BotConfigV8 = {
+    ...settings,
+    environment: profileName,
+    privateKey: key && !key.startsWith('0x') ? `0x${key}` : key,
+    discordWebhookUrl: settings.enableDiscordNotifications ? await secret('bot.discordWebhookUrl', discordWebhookUrl) : ''
+  };
+
+  const chains: ChainConfigV8[] = [];
+  for (const [index, chain] of profile.chains.entries()) {
+    const label = `chains[${index}] (${chain.name})`;
+    const fallbackRpcs: string[] = [];
+    for (const [fallbackIndex, fallback] of chain.fallbackRpcUrls.entries()) {
+      fallbackRpcs.push(await url(`${label}.fallbackRpcUrls[${fallbackIndex}]`, fallback));
+    }
+
+    chains.push({
+      chainId: chain.chainId,
+      name: chain.name,
+      rpcUrl: await url(`${label}.rpcUrl`, chain.rpcUrl),
+      contractAddress: chain.contracts.v7 || '',
+      contractAddressV8: chain.contracts.v8 || '',
+      v8Enabled: !!chain.contracts.v8,
+      migrationMode: chain.migrationMode,
+      deploymentBlocks: chain.deploymentBlocks,
+      maxFeePerGas: BigInt(chain.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(chain.maxPriorityFeePerGas),
+      rpcSettings: {
+        timeout: profile.rpc.timeout,
+        retries: profile.rpc.retries,
+        fallbackRpcs,
+        crossCheck: profile.rpc.crossCheck
+      }
+    });
+  }
+
+  return { bot, chains };
+}
+
+// Objects merge key by key; arrays and scalars in the profile replace the defaults
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    const isObject = (item: unknown): item is Record<string, unknown> =>
+      !!item && typeof item === 'object' && !Array.isArray(item);
+
+    result[key] = isObject(current) && isObject(value) ? deepMerge(current, value) : value;
+  }
+  return result;
+}
+
+// ============ ENVIRONMENT ============
+
+export async function loadBotConfigFromEnv(): Promise<ResolvedBotConfig> {
+  const source = 'environment';
+  const missing = findMissingEnvironment();
+  if (missing.length > 0) {
+    throw new ConfigError(source, missing.map(name => `missing required environment variable ${name}`));
+  }
+
+  const bot = createV8Config();
+  const chains = createChainConfigs();
+  const issues: string[] = [];
+  const warnings = checkConsistency(bot.environment, bot, chains, new Set(), issues);
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return { source, profile: bot.environment, bot, chains, warnings };
+}
+
+// ============ CONSISTENCY ============
+
+/**
+ * Cross-field checks the schema cannot express. Problems are added to issues;
+ * returns warnings for settings that are allowed but probably unintended.
+ */
+function checkConsistency(
+  profile: string,
+  bot: BotConfigV8,
+  chains: ChainConfigV8[],
+  testnetChains: Set<number>,
+  issues: string[]
+): string[] {
+  const warnings: string[] = [];
+
+  if (bot.privateKey && !PRIVATE_KEY_PATTERN.test(bot.privateKey)) {
+    issues.push('bot.privateKey must be a 32-byte hex private key');
+  }
+  if (bot.enableDiscordNotifications && !bot.discordWebhookUrl) {
+    issues.push('bot.enableDiscordNotifications is true but bot.discordWebhookUrl is not set');
+  }
+  if (profile === 'mainnet' && bot.dryRun) {
+    warnings.push('bot.dryRun is true in the mainnet profile: no payments will be sent');
+  }
+  const mainnetChains = chains.filter(chain => !testnetChains.has(chain.chainId) && !isKnownTestnet(chain.chainId));
+  if (mainnetChains.length > 0 && !bot.spendingPolicyFile) {
+    if (isSpendingPolicyDisabled()) {
+      warnings.push(`SPENDING_POLICY_DISABLED is set: bot transactions on ${mainnetChains.map(chain => chain.name).join(', ')} are not limited`);
+    } else {
+      issues.push(`bot.spendingPolicyFile is not set but ${mainnetChains.map(chain => chain.name).join(', ')} ${mainnetChains.length === 1 ? 'is a mainnet' : 'are mainnets'} (set SPENDING_POLICY_DISABLED=true to run without limits)`);
+    }
+  }
+
+  const seen = new Set<number>();
+  for (const chain of chains) {
+    const label = `chain ${chain.name} (${chain.chainId})`;
+    const isTestnet = testnetChains.has(chain.chainId) || KNOWN_TESTNET_CHAIN_IDS.has(chain.chainId);
+
+    if (seen.has(chain.chainId)) {
+      issues.push(`${label} is configured more than once`);
+    }
+    seen.add(chain.chainId);
+
+    if (chain.migrationMode === 'v8-only' && !chain.contractAddressV8) {
+      issues.push(`${label}: migrationMode v8-only needs a V8 contract`);
+    }
+    if (chain.migrationMode === 'v7-only' && !chain.contractAddress) {
+      issues.push(`${label}: migrationMode v7-only needs a V7 contract`);
+    }
+    if (!chain.contractAddress && !chain.contractAddressV8) {
+      issues.push(`${label} has no contract address`);
+    }
+    if (chain.migrationMode === 'v7-only' && chain.contractAddressV8) {
+      warnings.push(`${label}: migrationMode is v7-only, the V8 contract ${chain.contractAddressV8} is not used for new sessions`);
+    }
+    if (chain.contractAddress && chain.contractAddress.toLowerCase() === chain.contractAddressV8.toLowerCase()) {
+      issues.push(`${label}: the V7 and V8 contracts are the same address`);
+    }
+
+    if (chain.maxFeePerGas !== undefined && chain.maxPriorityFeePerGas !== undefined && chain.maxPriorityFeePerGas > chain.maxFeePerGas) {
+      issues.push(`${label}: maxPriorityFeePerGas is higher than maxFeePerGas`);
+    }
+
+    if (profile === 'mainnet' && isTestnet) {
+      issues.push(`${label} is a testnet but the profile is mainnet`);
+    }
+    if (profile === 'testnet' && !isTestnet) {
+      issues.push(`${label} is not marked as a testnet but the profile is testnet`);
+    }
+
+    if (chain.rpcSettings.fallbackRpcs.includes(chain.rpcUrl)) {
+      warnings.push(`${label}: the primary RPC URL is also listed as a fallback`);
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,176 @@
+/**
+ * Environment configuration - builds the V8 bot configuration from .env.v8 variables
+ * Used when no configuration file (BOT_CONFIG_FILE) is set.
+ */
+
+import { BotConfigV8, ChainConfigV8 } from '../V8Types';
+import { parseRpcUrls } from '../RpcProvider';
+
+// Variables the environment configuration cannot do without
+export function findMissingEnvironment(): string[] {
+  const required = [
+    'BOT_NAME',
+    'PRIVATE_KEY',
+    'DISCORD_WEBHOOK_URL',
+    'BASE_RPC_URL',
+    'OPTIMISM_RPC_URL',
+    'ARBITRUM_RPC_URL',
+    'POLYGON_RPC_URL'
+  ];
+
+  return required.filter(key => !process.env[key]);
+}
+
+export function createV8Config(): BotConfigV8 {
+  return {
+    name: process.env.BOT_NAME || 'ChainAcademy-PaymentBot-V8',
+    version: process.env.BOT_VERSION || '8.0.0',
+    environment: process.env.ENVIRONMENT || 'mainnet',
+    enabled: process.env.BOT_ENABLED === 'true',
+    privateKey: process.env.PRIVATE_KEY!,
+    cronSchedule: process.env.CRON_SCHEDULE || '0 */6 * * *',
+    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL!,
+    enableDiscordNotifications: process.env.ENABLE_DISCORD_NOTIFICATIONS === 'true',
+    
+    // V8 Enhanced features
+    v8Features: {
+      enhancedMonitoring: process.env.V8_FEATURES_ENHANCED_MONITORING === 'true',
+      autoRecovery: process.env.V8_FEATURES_AUTO_RECOVERY === 'true',
+      disputeHandling: process.env.V8_FEATURES_DISPUTE_HANDLING === 'true',
+      multiVersionSupport: process.env.V8_FEATURES_MULTI_VERSION_SUPPORT === 'true',
+      precisionPayments: process.env.V8_FEATURES_PRECISION_PAYMENTS === 'true'
+    },
+    
+    // V8 Processing settings
+    v8Settings: {
+      maxRecoveryAttempts: parseInt(process.env.V8_MAX_RECOVERY_ATTEMPTS || '3'),
+      healthCheckInterval: parseInt(process.env.V8_HEALTH_CHECK_INTERVAL || '300000'),
+      batchProcessingSize: parseInt(process.env.V8_BATCH_PROCESSING_SIZE || '10'),
+      emergencyThresholds: {
+        maxStateTransitions: parseInt(process.env.V8_MAX_STATE_TRANSITIONS || '20'),
+        maxPauseTime: parseInt(process.env.V8_MAX_PAUSE_TIME || '86400'),
+        maxDisputeTime: parseInt(process.env.V8_MAX_DISPUTE_TIME || '604800')
+      }
+    },
+    
+    // V8 Monitoring
+    monitoring: {
+      enableRealTimeAlerts: process.env.V8_ENABLE_REAL_TIME_ALERTS === 'true',
+      enablePredictiveAlerts: process.env.V8_ENABLE_PREDICTIVE_ALERTS === 'true',
+      enablePerformanceMetrics: process.env.V8_ENABLE_PERFORMANCE_METRICS === 'true',
+      healthCheckEndpoints: (process.env.HEALTH_CHECK_ENDPOINTS || '').split(',').filter(url => url.trim())
+    },
+    
+    // Session storage
+    sessionStoragePath: process.env.SESSION_STORAGE_PATH || './data/session-tracker-v8.json',
+
+    // Session discovery through the backend escrow indexer (e.g. http://localhost:3001/api/escrow)
+    indexerApiUrl: process.env.INDEXER_API_URL,
+    executionHistoryPath: process.env.EXECUTION_HISTORY_PATH || './data/execution-history-v8.json',
+
+    // Dry run: simulate payments and write a plan instead of broadcasting
+    dryRun: process.env.DRY_RUN === 'true' || process.argv.includes('--dry-run'),
+    dryRunPlanDir: process.env.DRY_RUN_PLAN_DIR || './data/dry-run-plans',
+    transactionStoreDir: process.env.TRANSACTION_STORE_DIR || './data/transactions',
+    logChunkSize: parseInt(process.env.LOG_CHUNK_SIZE || '2000'),
+    processingLedgerPath: process.env.PROCESSING_LEDGER_PATH || './data/processing-ledger.json',
+    spendingPolicyFile: process.env.SPENDING_POLICY_FILE
+  };
+}
+
+// Where session discovery starts before a scan cursor is saved (e.g. BASE_V8_DEPLOYMENT_BLOCK)
+function getDeploymentBlocks(prefix: string): { v7?: number; v8?: number } {
+  const block = (name: string) => process.env[name] ? parseInt(process.env[name]!) : undefined;
+
+  return {
+    v7: block(`${prefix}_V7_DEPLOYMENT_BLOCK`),
+    v8: block(`${prefix}_V8_DEPLOYMENT_BLOCK`)
+  };
+}
+
+// Fee caps default to the ones in MAINNET_CHAIN_CONFIGS
+export function createChainConfigs(): ChainConfigV8[] {
+  const migrationMode = process.env.MIGRATION_MODE as 'v7-only' | 'dual-support' | 'v8-only' || 'dual-support';
+  
+  return [
+    // Base
+    {
+      chainId: 8453,
+      name: 'Base',
+      rpcUrl: process.env.BASE_RPC_URL!,
+      contractAddress: process.env.BASE_CONTRACT_V7!,
+      contractAddressV8: process.env.BASE_CONTRACT_V8 || '',
+      v8Enabled: !!process.env.BASE_CONTRACT_V8,
+      migrationMode,
+      deploymentBlocks: getDeploymentBlocks('BASE'),
+      maxFeePerGas: BigInt(process.env.BASE_MAX_FEE_PER_GAS || '50000000000'),
+      maxPriorityFeePerGas: BigInt(process.env.BASE_MAX_PRIORITY_FEE_PER_GAS || '2000000000'),
+      rpcSettings: {
+        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
+        retries: parseInt(process.env.RPC_RETRIES || '3'),
+        fallbackRpcs: parseRpcUrls(process.env.BASE_FALLBACK_RPC_URLS),
+        crossCheck: process.env.RPC_CROSS_CHECK === 'true'
+      }
+    },
+    
+    // Optimism
+    {
+      chainId: 10,
+      name: 'Optimism', 
+      rpcUrl: process.env.OPTIMISM_RPC_URL!,
+      contractAddress: process.env.OPTIMISM_CONTRACT_V7!,
+      contractAddressV8: process.env.OPTIMISM_CONTRACT_V8 || '',
+      v8Enabled: !!process.env.OPTIMISM_CONTRACT_V8,
+      migrationMode,
+      deploymentBlocks: getDeploymentBlocks('OPTIMISM'),
+      maxFeePerGas: BigInt(process.env.OPTIMISM_MAX_FEE_PER_GAS || '30000000000'),
+      maxPriorityFeePerGas: BigInt(process.env.OPTIMISM_MAX_PRIORITY_FEE_PER_GAS || '1000000000'),
+      rpcSettings: {
+        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
+        retries: parseInt(process.env.RPC_RETRIES || '3'),
+        fallbackRpcs: parseRpcUrls(process.env.OPTIMISM_FALLBACK_RPC_URLS),
+        crossCheck: process.env.RPC_CROSS_CHECK === 'true'
+      }
+    },
+    
+    // Arbitrum
+    {
+      chainId: 42161,
+      name: 'Arbitrum',
+      rpcUrl: process.env.ARBITRUM_RPC_URL!,
+      contractAddress: process.env.ARBITRUM_CONTRACT_V7!,
+      contractAddressV8: process.env.ARBITRUM_CONTRACT_V8 || '',
+      v8Enabled: !!process.env.ARBITRUM_CONTRACT_V8,
+      migrationMode,
+      deploymentBlocks: getDeploymentBlocks('ARBITRUM'),
+      maxFeePerGas: BigInt(process.env.ARBITRUM_MAX_FEE_PER_GAS || '10000000000'),
+      maxPriorityFeePerGas: BigInt(process.env.ARBITRUM_MAX_PRIORITY_FEE_PER_GAS || '100000000'),
+      rpcSettings: {
+        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
+        retries: parseInt(process.env.RPC_RETRIES || '3'),
+        fallbackRpcs: parseRpcUrls(process.env.ARBITRUM_FALLBACK_RPC_URLS),
+        crossCheck: process.env.RPC_CROSS_CHECK === 'true'
+      }
+    },
+    
+    // Polygon
+    {
+      chainId: 137,
+      name: 'Polygon',
+      rpcUrl: process.env.POLYGON_RPC_URL!,
+      contractAddress: process.env.POLYGON_CONTRACT_V7!,
+      contractAddressV8: process.env.POLYGON_CONTRACT_V8 || '',
+      v8Enabled: !!process.env.POLYGON_CONTRACT_V8,
+      migrationMode,
+      deploymentBlocks: getDeploymentBlocks('POLYGON'),
+      maxFeePerGas: BigInt(process.env.POLYGON_MAX_FEE_PER_GAS || '30000000000'),
+      maxPriorityFeePerGas: BigInt(process.env.POLYGON_MAX_PRIORITY_FEE_PER_GAS || '2000000000'),
+      rpcSettings: {
+        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
+        retries: parseInt(process.env.RPC_RETRIES || '3'),
+        fallbackRpcs: parseRpcUrls(process.env.POLYGON_FALLBACK_RPC_URLS),
+        crossCheck: process.env.RPC_CROSS_CHECK === 'true'
+      }
+    }
+  ];
+}
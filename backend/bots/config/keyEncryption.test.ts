@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { EncryptedEnvelope, decryptSecret, encryptSecret } from './keyEncryption';
+
+const PASSWORD = 'correct horse battery staple';
+
+// Flip one hex digit of a field
+const tamper = (hex: string) => (hex[0] === '0' ? '1' : '0') + hex.slice(1);
+
+describe('AES-256-GCM envelopes', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const envelope = encryptSecret(wallet.privateKey.substring(2), PASSWORD);
+
+  it('round-trips a secret', () => {
+    expect(decryptSecret(envelope, PASSWORD)).toEqual({ secret: wallet.privateKey.substring(2), format: 'aes-256-gcm' });
+  });
+
+  it('uses a fresh salt and IV for every file', () => {
+    const again: EncryptedEnvelope = JSON.parse(encryptSecret(wallet.privateKey.substring(2), PASSWORD));
+    const first: EncryptedEnvelope = JSON.parse(envelope);
+
+    expect(again.kdfparams.salt).not.toBe(first.kdfparams.salt);
+    expect(again.iv).not.toBe(first.iv);
+  });
+
+  it('rejects a wrong password', () => {
+    expect(() => decryptSecret(envelope, 'wrong password')).toThrow('wrong password or corrupted data');
+  });
+
+  it.each(['ciphertext', 'tag', 'iv'] as const)('rejects a tampered %s', field => {
+    const parsed: EncryptedEnvelope = JSON.parse(envelope);
+    parsed[field] = tamper(parsed[field]);
+
+    expect(() => decryptSecret(JSON.stringify(parsed), PASSWORD)).toThrow('wrong password or corrupted data');
+  });
+
+  it('rejects a malformed or unsupported envelope', () => {
+    const { tag: _tag, ...withoutTag } = JSON.parse(envelope);
+    expect(() => decryptSecret(JSON.stringify(withoutTag), PASSWORD)).toThrow('Malformed AES-256-GCM envelope');
+    expect(() => decryptSecret(JSON.stringify({ ...JSON.parse(envelope), version: 2 }), PASSWORD)).toThrow('Unsupported envelope');
+  });
+
+  it('reads an envelope wrapped in the wallet generator output', () => {
+    const generated = JSON.stringify({ address: wallet.address, encryptedPrivateKey: envelope });
+
+    expect(decryptSecret(generated, PASSWORD).secret).toBe(wallet.privateKey.substring(2));
+  });
+});
+
+describe('keystore v3 files', () => {
+  const wallet = ethers.Wallet.createRandom();
+  // Light scrypt parameters keep the test fast; the format is the same
+  const keystore = ethers.encryptKeystoreJsonSync({ address: wallet.address, privateKey: wallet.privateKey }, PASSWORD, {
+    scrypt: { N: 1024 }
+  });
+
+  it('round-trips a private key', () => {
+    expect(decryptSecret(keystore, PASSWORD)).toEqual({ secret: wallet.privateKey.substring(2), format: 'keystore-v3' });
+  });
+
+  it('rejects a wrong password', () => {
+    expect(() => decryptSecret(keystore, 'wrong password')).toThrow('Failed to decrypt keystore: wrong password');
+  });
+
+  it('rejects a tampered ciphertext through the MAC', () => {
+    const parsed = JSON.parse(keystore);
+    parsed.Crypto.ciphertext = tamper(parsed.Crypto.ciphertext); // ethers writes the geth-style "Crypto" key
+
+    expect(() => decryptSecret(JSON.stringify(parsed), PASSWORD)).toThrow(/Failed to decrypt keystore/);
+  });
+});
+
+describe('legacy AES-256-CBC keys', () => {
+  it('still reads files written before envelopes', () => {
+    const key = crypto.scryptSync(PASSWORD, 'salt', 32);
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, Buffer.alloc(16, 0));
+    const legacy = cipher.update('deadbeef', 'utf8', 'hex') + cipher.final('hex');
+
+    expect(decryptSecret(legacy, PASSWORD)).toEqual({ secret: 'deadbeef', format: 'legacy-aes-256-cbc' });
+  });
+});
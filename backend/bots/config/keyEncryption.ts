@@ -0,0 +1,146 @@
+/**
+ * Key encryption - formats secrets and private keys are stored in at rest
+ * Read by the encrypted-file secret provider and SecureWalletManager's file key source:
+ * - Ethereum keystore v3 JSON (scrypt or pbkdf2 + aes-128-ctr + MAC), as written by geth, MetaMask or ethers
+ * - AES-256-GCM envelope JSON with a random salt and IV per file (what encryptSecret writes)
+ * - The wallet generator's JSON ({ encryptedPrivateKey, ... }) around either of the above
+ * - Legacy AES-256-CBC hex (fixed salt, zero IV), still read so existing key files keep working
+ */
+
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+
+export interface EncryptedEnvelope {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  kdfparams: { n: number; r: number; p: number; salt: string };
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+// The wallet generator's output, wrapping one of the other formats
+export interface GeneratedKeyFile {
+  encryptedPrivateKey: string;
+  address?: string;
+}
+
+export type EncryptedKeyFormat = 'keystore-v3' | 'aes-256-gcm' | 'legacy-aes-256-cbc';
+
+const SCRYPT_PARAMS = { n: 32768, r: 8, p: 1 };
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+
+/**
+ * Encrypt a secret into an AES-256-GCM envelope (JSON) with a key derived from the password
+ */
+export function encryptSecret(plaintext: string, password: string): string {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const key = deriveKey(password, salt, SCRYPT_PARAMS);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  const envelope: EncryptedEnvelope = {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    kdfparams: { ...SCRYPT_PARAMS, salt: salt.toString('hex') },
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex')
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Decrypt any supported format; keystore v3 files yield the private key (hex, no 0x prefix)
+ */
+export function decryptSecret(data: string, password: string): { secret: string; format: EncryptedKeyFormat } {
+  const content = data.trim();
+  if (!content.startsWith('{')) {
+    return { secret: decryptLegacy(content, password), format: 'legacy-aes-256-cbc' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Encrypted key is not valid JSON');
+  }
+
+  if (isGeneratedKeyFile(parsed)) {
+    return decryptSecret(parsed.encryptedPrivateKey, password);
+  }
+  if (isRecord(parsed) && parsed.cipher === 'aes-256-gcm') {
+    if (!isEnvelope(parsed)) {
+      throw new Error('Malformed AES-256-GCM envelope');
+    }
+    return { secret: decryptEnvelope(parsed, password), format: 'aes-256-gcm' };
+  }
+  if (ethers.isKeystoreJson(content)) {
+    return { secret: decryptKeystore(content, password), format: 'keystore-v3' };
+  }
+  throw new Error('Unknown encrypted key format');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isGeneratedKeyFile(value: unknown): value is GeneratedKeyFile {
+  return isRecord(value) && typeof value.encryptedPrivateKey === 'string';
+}
+
+// Shape only; the version and KDF are checked when decrypting so they get their own error
+function isEnvelope(value: Record<string, unknown>): value is Record<string, unknown> & EncryptedEnvelope {
+  const params = value.kdfparams;
+  return isRecord(params) &&
+    ['n', 'r', 'p'].every(name => typeof params[name] === 'number') &&
+    typeof params.salt === 'string' &&
+    typeof value.iv === 'string' &&
+    typeof value.tag === 'string' &&
+    typeof value.ciphertext === 'string';
+}
+
+function decryptEnvelope(envelope: EncryptedEnvelope, password: string): string {
+  if (envelope.version !== 1 || envelope.kdf !== 'scrypt') {
+    throw new Error(`Unsupported envelope (version ${envelope.version}, kdf ${envelope.kdf})`);
+  }
+
+  const { n, r, p, salt } = envelope.kdfparams;
+  const key = deriveKey(password, Buffer.from(salt, 'hex'), { n, r, p });
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(envelope.ciphertext, 'hex')), decipher.final()]).toString('utf8');
+  } catch {
+    // GCM authentication covers both a wrong password and a tampered file
+    throw new Error('Failed to decrypt envelope: wrong password or corrupted data');
+  }
+}
+
+function decryptKeystore(json: string, password: string): string {
+  try {
+    // Checks the MAC before decrypting; supports scrypt and pbkdf2 key derivation
+    return ethers.decryptKeystoreJsonSync(json, password).privateKey.substring(2);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(/password/i.test(message) ? 'Failed to decrypt keystore: wrong password' : `Failed to decrypt keystore: ${message}`);
+  }
+}
+
+function decryptLegacy(encryptedKey: string, password: string): string {
+  try {
+    const key = crypto.scryptSync(password, 'salt', 32);
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.alloc(16, 0));
+    return decipher.update(encryptedKey, 'hex', 'utf8') + decipher.final('utf8');
+  } catch {
+    throw new Error('Failed to decrypt private key');
+  }
+}
+
+function deriveKey(password: string, salt: Buffer, params: { n: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(password, salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: SCRYPT_MAX_MEMORY });
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { encryptSecret } from './keyEncryption';
+import { readRotatedKey, resolveRotatedKey, rotatedKeyPath, saveRotatedKey } from './rotatedKey';
+
+const PASSWORD = 'correct horse battery staple';
+
+describe('resolveRotatedKey', () => {
+  const original = ethers.Wallet.createRandom();
+  const rotated = ethers.Wallet.createRandom();
+  let dir: string;
+  let recordPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rotated-key-'));
+    recordPath = rotatedKeyPath(dir);
+    process.env.WALLET_MASTER_PASSWORD = PASSWORD;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    // What KeyRotationSystem leaves behind: the encrypted key and the record pointing at it
+    const keyFile = path.join(dir, `${rotated.address}.key`);
+    fs.writeFileSync(keyFile, encryptSecret(rotated.privateKey.substring(2), PASSWORD));
+    saveRotatedKey({
+      address: rotated.address,
+      reference: `encrypted-file:${keyFile}`,
+      rotationId: 'rotation_1_scheduled',
+      rotatedAt: Date.now(),
+      replaces: [original.address]
+    }, recordPath);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.WALLET_MASTER_PASSWORD;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replaces a key that a rotation retired with the current key', async () => {
+    await expect(resolveRotatedKey(original.privateKey, recordPath)).resolves.toBe(rotated.privateKey);
+    // Environment keys are often written without the 0x prefix
+    await expect(resolveRotatedKey(original.privateKey.substring(2), recordPath)).resolves.toBe(rotated.privateKey);
+  });
+
+  it('keeps a key no rotation retired', async () => {
+    const dedicated = ethers.Wallet.createRandom().privateKey;
+
+    await expect(resolveRotatedKey(dedicated, recordPath)).resolves.toBe(dedicated);
+    await expect(resolveRotatedKey(rotated.privateKey, recordPath)).resolves.toBe(rotated.privateKey);
+  });
+
+  it('refuses to start from an unreadable record', async () => {
+    fs.writeFileSync(recordPath, '{"address": ');
+
+    await expect(resolveRotatedKey(original.privateKey, recordPath)).rejects.toThrow(/is unreadable/);
+  });
+
+  it('refuses a record whose reference holds another key', async () => {
+    saveRotatedKey({ ...readRotatedKey(recordPath)!, address: ethers.Wallet.createRandom().address }, recordPath);
+
+    await expect(resolveRotatedKey(original.privateKey, recordPath)).rejects.toThrow(/does not belong to/);
+  });
+});
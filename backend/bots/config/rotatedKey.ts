@@ -0,0 +1,77 @@
+/**
+ * Rotated keys - which key a key rotation left the bots on
+ * KeyRotationSystem saves each new key under KEY_ROTATION_KEY_STORE_PATH and records it in
+ * current.json there: its address, a secret reference to it and every address it replaced.
+ * A key from the configuration or the environment that a rotation retired is swapped for the
+ * current one when it is loaded, so a restart never brings an old key back.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { resolveSecret } from './secrets';
+
+export interface RotatedKey {
+  address: string;
+  reference: string; // secret reference, e.g. encrypted-file:./data/keys/0xabc....key
+  rotationId: string;
+  rotatedAt: number;
+  replaces: string[]; // addresses of the keys rotated away from, oldest first
+}
+
+export const DEFAULT_KEY_STORE_PATH = './data/keys';
+
+export function rotatedKeyPath(keyStorePath: string = process.env.KEY_ROTATION_KEY_STORE_PATH || DEFAULT_KEY_STORE_PATH): string {
+  return path.join(keyStorePath, 'current.json');
+}
+
+// Throws on an unreadable record: falling back to a retired key would sign with a swept wallet
+export function readRotatedKey(filePath: string = rotatedKeyPath()): RotatedKey | null {
+  if (!fs.existsSync(filePath)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as RotatedKey;
+  } catch (error) {
+    throw new Error(`Rotated key record ${filePath} is unreadable (${(error as Error).message}); restore or repair it before starting`);
+  }
+}
+
+/**
+ * Record the current key, or remove the record (null) when a rollback goes back to a key no rotation produced
+ */
+export function saveRotatedKey(key: RotatedKey | null, filePath: string = rotatedKeyPath()): void {
+  if (!key) {
+    fs.rmSync(filePath, { force: true });
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  // Write then rename so a crash never leaves a truncated record behind
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(key, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * The key to sign with in place of `privateKey`: the current rotated key if a rotation retired
+ * `privateKey`, otherwise `privateKey` itself
+ */
+export async function resolveRotatedKey(privateKey: string, filePath: string = rotatedKeyPath()): Promise<string> {
+  if (!privateKey) return privateKey;
+
+  const rotated = readRotatedKey(filePath);
+  const address = new ethers.Wallet(privateKey).address.toLowerCase();
+  if (!rotated || !rotated.replaces.some(retired => retired.toLowerCase() === address)) {
+    return privateKey;
+  }
+
+  const secret = await resolveSecret(rotated.reference);
+  const current = secret.startsWith('0x') ? secret : `0x${secret}`;
+  if (new ethers.Wallet(current).address.toLowerCase() !== rotated.address.toLowerCase()) {
+    throw new Error(`Rotated key ${rotated.reference} does not belong to ${rotated.address}`);
+  }
+
+  console.log(`[RotatedKey] ${address} was rotated to ${rotated.address} (${rotated.rotationId}), using the new key`);
+  return current;
+}
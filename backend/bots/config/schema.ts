@@ -0,0 +1,182 @@
+/**
+ * Bot configuration file format and its schema
+ * One JSON file holds a profile per environment; `defaults` is merged under every profile.
+ * Field names follow BotConfigV8/ChainConfigV8, except that secrets are references.
+ */
+
+import Joi from 'joi';
+import cron from 'node-cron';
+import { isSecretReference, getSecretProviderNames } from './secrets';
+
+export const BOT_PROFILES = ['testnet', 'staging', 'mainnet'] as const;
+export type BotProfileName = typeof BOT_PROFILES[number];
+
+export type MigrationMode = 'v7-only' | 'dual-support' | 'v8-only';
+
+export interface ChainProfile {
+  chainId: number;
+  name: string;
+  rpcUrl: string; // URL or secret reference (provider URLs often embed an API key)
+  fallbackRpcUrls: string[];
+  contracts: { v7?: string; v8?: string };
+  migrationMode: MigrationMode;
+  deploymentBlocks?: { v7?: number; v8?: number };
+  maxFeePerGas: string; // wei
+  maxPriorityFeePerGas: string; // wei
+  testnet: boolean;
+}
+
+export interface BotProfile {
+  bot: {
+    name: string;
+    version: string;
+    enabled: boolean;
+    privateKey: string; // secret reference
+    cronSchedule: string;
+    discordWebhookUrl?: string; // secret reference
+    enableDiscordNotifications: boolean;
+    dryRun: boolean;
+    indexerApiUrl?: string;
+    sessionStoragePath: string;
+    executionHistoryPath: string;
+    dryRunPlanDir: string;
+    transactionStoreDir: string;
+    processingLedgerPath: string;
+    spendingPolicyFile?: string;
+    logChunkSize: number;
+    v8Features: {
+      enhancedMonitoring: boolean;
+      autoRecovery: boolean;
+      disputeHandling: boolean;
+      multiVersionSupport: boolean;
+      precisionPayments: boolean;
+    };
+    v8Settings: {
+      maxRecoveryAttempts: number;
+      healthCheckInterval: number;
+      batchProcessingSize: number;
+      emergencyThresholds: {
+        maxStateTransitions: number;
+        maxPauseTime: number;
+        maxDisputeTime: number;
+      };
+    };
+    monitoring: {
+      enableRealTimeAlerts: boolean;
+      enablePredictiveAlerts: boolean;
+      enablePerformanceMetrics: boolean;
+      healthCheckEndpoints: string[];
+    };
+  };
+  rpc: {
+    timeout: number;
+    retries: number;
+    crossCheck: boolean;
+  };
+  chains: ChainProfile[];
+}
+
+export interface BotConfigFile {
+  version: 1;
+  defaults?: Record<string, unknown>;
+  profiles: Partial<Record<BotProfileName, Record<string, unknown>>>;
+}
+
+// ============ FIELD TYPES ============
+
+const address = Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/).invalid('0x0000000000000000000000000000000000000000')
+  .messages({ 'string.pattern.base': '{{#label}} must be a 0x-prefixed 20-byte address', 'any.invalid': '{{#label}} must not be the zero address' });
+
+const wei = Joi.string().pattern(/^\d+$/).messages({ 'string.pattern.base': '{{#label}} must be an integer amount of wei, as a string' });
+
+const secretReference = Joi.string().custom((value: string, helpers) => {
+  return isSecretReference(value) ? value : helpers.error('secret.inline');
+}).messages({
+  'secret.inline': `{{#label}} must be a secret reference (${getSecretProviderNames().map(name => `${name}:...`).join(', ')}), not an inline value`
+});
+
+const rpcUrl = Joi.alternatives().try(
+  Joi.string().uri({ scheme: ['http', 'https', 'ws', 'wss'] }),
+  secretReference
+).messages({ 'alternatives.match': '{{#label}} must be an http(s)/ws(s) URL or a secret reference' });
+
+const cronSchedule = Joi.string().custom((value: string, helpers) => {
+  return cron.validate(value) ? value : helpers.error('cron.invalid');
+}).messages({ 'cron.invalid': '{{#label}} is not a valid cron expression' });
+
+// ============ PROFILE SCHEMA ============
+
+const chainSchema = Joi.object<ChainProfile>({
+  chainId: Joi.number().integer().positive().required(),
+  name: Joi.string().required(),
+  rpcUrl: rpcUrl.required(),
+  fallbackRpcUrls: Joi.array().items(rpcUrl).default([]),
+  contracts: Joi.object({
+    v7: address,
+    v8: address
+  }).or('v7', 'v8').required(),
+  migrationMode: Joi.string().valid('v7-only', 'dual-support', 'v8-only').default('dual-support'),
+  deploymentBlocks: Joi.object({
+    v7: Joi.number().integer().min(0),
+    v8: Joi.number().integer().min(0)
+  }),
+  maxFeePerGas: wei.required(),
+  maxPriorityFeePerGas: wei.required(),
+  testnet: Joi.boolean().default(false)
+});
+
+export const profileSchema = Joi.object<BotProfile>({
+  bot: Joi.object({
+    name: Joi.string().required(),
+    version: Joi.string().default('8.0.0'),
+    enabled: Joi.boolean().default(false),
+    privateKey: secretReference.required(),
+    cronSchedule: cronSchedule.default('0 */6 * * *'),
+    discordWebhookUrl: secretReference,
+    enableDiscordNotifications: Joi.boolean().default(false),
+    dryRun: Joi.boolean().default(false),
+    indexerApiUrl: Joi.string().uri({ scheme: ['http', 'https'] }),
+    sessionStoragePath: Joi.string().default('./data/session-tracker-v8.json'),
+    executionHistoryPath: Joi.string().default('./data/execution-history-v8.json'),
+    dryRunPlanDir: Joi.string().default('./data/dry-run-plans'),
+    transactionStoreDir: Joi.string().default('./data/transactions'),
+    processingLedgerPath: Joi.string().default('./data/processing-ledger.json'),
+    spendingPolicyFile: Joi.string(),
+    logChunkSize: Joi.number().integer().min(1).default(2000),
+    v8Features: Joi.object({
+      enhancedMonitoring: Joi.boolean().default(false),
+      autoRecovery: Joi.boolean().default(false),
+      disputeHandling: Joi.boolean().default(false),
+      multiVersionSupport: Joi.boolean().default(false),
+      precisionPayments: Joi.boolean().default(false)
+    }).default(),
+    v8Settings: Joi.object({
+      maxRecoveryAttempts: Joi.number().integer().min(0).default(3),
+      healthCheckInterval: Joi.number().integer().min(1000).default(300000),
+      batchProcessingSize: Joi.number().integer().min(1).default(10),
+      emergencyThresholds: Joi.object({
+        maxStateTransitions: Joi.number().integer().min(1).default(20),
+        maxPauseTime: Joi.number().integer().min(0).default(86400),
+        maxDisputeTime: Joi.number().integer().min(0).default(604800)
+      }).default()
+    }).default(),
+    monitoring: Joi.object({
+      enableRealTimeAlerts: Joi.boolean().default(false),
+      enablePredictiveAlerts: Joi.boolean().default(false),
+      enablePerformanceMetrics: Joi.boolean().default(false),
+      healthCheckEndpoints: Joi.array().items(Joi.string().uri({ scheme: ['http', 'https'] })).default([])
+    }).default()
+  }).required(),
+  rpc: Joi.object({
+    timeout: Joi.number().integer().min(1000).default(30000),
+    retries: Joi.number().integer().min(0).default(3),
+    crossCheck: Joi.boolean().default(false)
+  }).default(),
+  chains: Joi.array().items(chainSchema).min(1).required()
+});
+
+export const fileSchema = Joi.object<BotConfigFile>({
+  version: Joi.number().valid(1).required(),
+  defaults: Joi.object().unknown(true),
+  profiles: Joi.object(Object.fromEntries(BOT_PROFILES.map(name => [name, Joi.object().unknown(true)]))).min(1).required()
+});
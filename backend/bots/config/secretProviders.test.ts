@@ -0,0 +1,98 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { encryptSecret } from './keyEncryption';
+import { createEncryptedFileSecretProvider, createVaultSecretProvider } from './secretProviders';
+
+const TOKEN = 's.test-token';
+
+/**
+ * Local stand-in for Vault's KV HTTP API: serves `secrets` by path to requests carrying TOKEN
+ */
+async function startVault(secrets: Record<string, unknown>) {
+  const requests: http.IncomingHttpHeaders[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.headers);
+    const secret = secrets[req.url!.replace(/^\/v1\//, '')];
+    if (req.headers['x-vault-token'] !== TOKEN) {
+      res.writeHead(403).end(JSON.stringify({ errors: ['permission denied'] }));
+    } else if (!secret) {
+      res.writeHead(404).end(JSON.stringify({ errors: [] }));
+    } else {
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(secret));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    address: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('vault secret provider', () => {
+  let vault: Awaited<ReturnType<typeof startVault>>;
+
+  beforeAll(async () => {
+    vault = await startVault({
+      'secret/data/chain-academy/bot': { data: { data: { privateKey: 'kv2-key' }, metadata: { version: 3 } } },
+      'secret/bot': { data: { privateKey: 'kv1-key', value: 'default-field' } }
+    });
+  });
+
+  afterAll(async () => {
+    await vault.close();
+  });
+
+  const provider = (token: string = TOKEN, namespace?: string) =>
+    createVaultSecretProvider({ address: `${vault.address}/`, token, namespace });
+
+  it('reads a field of a KV v2 secret', async () => {
+    await expect(provider()('secret/data/chain-academy/bot#privateKey')).resolves.toBe('kv2-key');
+  });
+
+  it('reads a KV v1 secret, using the value field by default', async () => {
+    await expect(provider()('secret/bot#privateKey')).resolves.toBe('kv1-key');
+    await expect(provider()('secret/bot')).resolves.toBe('default-field');
+  });
+
+  it('sends the namespace header when one is configured', async () => {
+    await provider(TOKEN, 'admin/bots')('secret/bot#privateKey');
+
+    expect(vault.requests[vault.requests.length - 1]['x-vault-namespace']).toBe('admin/bots');
+  });
+
+  it('explains denied, missing and incomplete secrets', async () => {
+    await expect(provider('s.other')('secret/bot#privateKey')).rejects.toThrow('vault denied access to secret/bot');
+    await expect(provider()('secret/nothing#privateKey')).rejects.toThrow('vault has no secret at secret/nothing');
+    await expect(provider()('secret/bot#mnemonic')).rejects.toThrow('vault secret secret/bot has no field mnemonic');
+  });
+
+  it('needs an address and a token', async () => {
+    await expect(createVaultSecretProvider({ address: '', token: '' })('secret/bot')).rejects.toThrow('VAULT_ADDR and VAULT_TOKEN');
+  });
+});
+
+describe('encrypted-file secret provider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'encrypted-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts the file with the master password', async () => {
+    const file = path.join(dir, 'bot.key');
+    fs.writeFileSync(file, encryptSecret('abc123', 'master'));
+
+    await expect(createEncryptedFileSecretProvider(() => 'master')(file)).resolves.toBe('abc123');
+    await expect(createEncryptedFileSecretProvider(() => 'other')(file)).rejects.toThrow(`${file}: Failed to decrypt envelope`);
+    await expect(createEncryptedFileSecretProvider(() => undefined)(file)).rejects.toThrow('WALLET_MASTER_PASSWORD is not set');
+  });
+});
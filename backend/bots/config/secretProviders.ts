@@ -0,0 +1,97 @@
+/**
+ * Secret providers beyond env: and file: - encrypted files and HashiCorp Vault (or a compatible server)
+ * encrypted-file:<path>     a keystore v3 or AES-GCM envelope file, decrypted with WALLET_MASTER_PASSWORD
+ * vault:<path>#<field>      a KV secret read over HTTP from VAULT_ADDR with VAULT_TOKEN, e.g.
+ *                           vault:secret/data/chain-academy/bot#privateKey (KV v2) or vault:secret/bot#privateKey (KV v1)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { SecretProvider } from './secrets';
+import { decryptSecret } from './keyEncryption';
+
+export interface VaultProviderOptions {
+  address: string;
+  token: string;
+  namespace?: string; // Vault Enterprise namespace (X-Vault-Namespace)
+  timeout?: number;
+}
+
+// GET /v1/<path> of a KV engine; v2 wraps the fields in data.data next to data.metadata
+interface VaultReadResponse {
+  data?: Record<string, unknown> & {
+    data?: Record<string, unknown>;
+    metadata?: unknown;
+  };
+}
+
+const DEFAULT_VAULT_FIELD = 'value';
+const DEFAULT_VAULT_TIMEOUT = 10000;
+
+export function createEncryptedFileSecretProvider(
+  getPassword: () => string | undefined = () => process.env.WALLET_MASTER_PASSWORD
+): SecretProvider {
+  return async (filePath: string) => {
+    const password = getPassword();
+    if (!password) {
+      throw new Error('WALLET_MASTER_PASSWORD is not set');
+    }
+
+    const resolved = path.resolve(filePath);
+    let data: string;
+    try {
+      data = fs.readFileSync(resolved, 'utf8');
+    } catch (error) {
+      throw new Error(`cannot read ${resolved}: ${(error as NodeJS.ErrnoException).code || error}`);
+    }
+
+    try {
+      return decryptSecret(data, password).secret;
+    } catch (error) {
+      throw new Error(`${resolved}: ${(error as Error).message}`);
+    }
+  };
+}
+
+/**
+ * Vault KV reader; options default to the standard VAULT_ADDR, VAULT_TOKEN and VAULT_NAMESPACE variables
+ * when the secret is read, so the provider can be registered before they are set
+ */
+export function createVaultSecretProvider(options?: VaultProviderOptions): SecretProvider {
+  return async (reference: string) => {
+    const { address, token, namespace, timeout } = options || {
+      address: process.env.VAULT_ADDR || '',
+      token: process.env.VAULT_TOKEN || '',
+      namespace: process.env.VAULT_NAMESPACE
+    };
+    if (!address || !token) {
+      throw new Error('VAULT_ADDR and VAULT_TOKEN must be set to read vault: secrets');
+    }
+
+    const [secretPath, field = DEFAULT_VAULT_FIELD] = reference.split('#');
+    const url = `${address.replace(/\/$/, '')}/v1/${secretPath.replace(/^\//, '')}`;
+
+    let body: VaultReadResponse;
+    try {
+      const response = await axios.get<VaultReadResponse>(url, {
+        headers: { 'X-Vault-Token': token, ...(namespace ? { 'X-Vault-Namespace': namespace } : {}) },
+        timeout: timeout || DEFAULT_VAULT_TIMEOUT
+      });
+      body = response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 403) throw new Error(`vault denied access to ${secretPath}`);
+      if (status === 404) throw new Error(`vault has no secret at ${secretPath}`);
+      throw new Error(`vault request for ${secretPath} failed: ${status ? `HTTP ${status}` : (error as Error).message}`);
+    }
+
+    // KV v2 nests the fields under data.data next to data.metadata; KV v1 returns them in data
+    const fields = body?.data?.metadata !== undefined && body.data.data ? body.data.data : body?.data;
+    const value = fields?.[field];
+    if (typeof value !== 'string' || !value) {
+      throw new Error(`vault secret ${secretPath} has no field ${field}`);
+    }
+    return value;
+  };
+}
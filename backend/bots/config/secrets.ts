@@ -0,0 +1,62 @@
+/**
+ * Secret references - configuration files name where a secret lives instead of holding it
+ * A reference is "<provider>:<value>", e.g. env:PRIVATE_KEY, file:/run/secrets/bot-key,
+ * encrypted-file:/run/secrets/bot-key.json or vault:secret/data/bot#privateKey (see secretProviders.ts).
+ * More providers (a cloud secret manager, an HSM) plug in through registerSecretProvider.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createEncryptedFileSecretProvider, createVaultSecretProvider } from './secretProviders';
+
+// Returns the secret or throws with the reason it is unavailable
+export type SecretProvider = (reference: string) => Promise<string>;
+
+const providers: Map<string, SecretProvider> = new Map([
+  ['env', async (name: string) => {
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return value;
+  }],
+  ['file', async (filePath: string) => {
+    const resolved = path.resolve(filePath);
+    let value: string;
+    try {
+      value = fs.readFileSync(resolved, 'utf8').trim();
+    } catch (error) {
+      throw new Error(`cannot read ${resolved}: ${(error as NodeJS.ErrnoException).code || error}`);
+    }
+    if (!value) {
+      throw new Error(`${resolved} is empty`);
+    }
+    return value;
+  }],
+  ['encrypted-file', createEncryptedFileSecretProvider()],
+  ['vault', createVaultSecretProvider()]
+]);
+
+const REFERENCE_PATTERN = /^([a-z][a-z0-9-]*):(.+)$/;
+
+export function registerSecretProvider(scheme: string, provider: SecretProvider): void {
+  providers.set(scheme, provider);
+}
+
+export function getSecretProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function isSecretReference(value: string): boolean {
+  const match = REFERENCE_PATTERN.exec(value);
+  return !!match && providers.has(match[1]);
+}
+
+export async function resolveSecret(reference: string): Promise<string> {
+  const match = REFERENCE_PATTERN.exec(reference);
+  const provider = match && providers.get(match[1]);
+  if (!match || !provider) {
+    throw new Error(`"${reference}" is not a secret reference (use ${getSecretProviderNames().map(name => `${name}:...`).join(' or ')})`);
+  }
+  return provider(match[2]);
+}
@@ -0,0 +1,88 @@
+/**
+ * Spending policy file format and its schema
+ * Lists the escrow functions each bot may call and caps what the bot wallet may move per chain and
+ * token. Amounts are in the token's smallest unit; the zero address stands for the native token.
+ * See spending-policy.example.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import { ConfigError } from './BotConfigLoader';
+
+export const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+export interface TokenSpendingLimits {
+  chainId: number;
+  token: string;
+  perTransaction: string;
+  perSession: string; // everything the bots send for one session
+  rolling24h: string;
+  approvalThreshold?: string; // a transaction above it waits for an operator approval
+}
+
+export interface SpendingPolicyRules {
+  version: 1;
+  allowedFunctions: Record<string, string[]>; // bot name (DailyPaymentBotV8, RefundBot, EmergencyRefundBot) -> functions
+  limits: TokenSpendingLimits[];
+  approvalTtl: number; // seconds an approval request stays open, and an approval stays usable
+}
+
+const amount = Joi.string().pattern(/^\d+$/).messages({ 'string.pattern.base': '{{#label}} must be an integer amount in the token\'s smallest unit, as a string' });
+
+const limitsSchema = Joi.object<TokenSpendingLimits>({
+  chainId: Joi.number().integer().positive().required(),
+  token: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/).required()
+    .messages({ 'string.pattern.base': '{{#label}} must be a 0x-prefixed 20-byte address (the zero address for the native token)' }),
+  perTransaction: amount.required(),
+  perSession: amount.required(),
+  rolling24h: amount.required(),
+  approvalThreshold: amount
+});
+
+export const spendingPolicySchema = Joi.object<SpendingPolicyRules>({
+  version: Joi.number().valid(1).required(),
+  allowedFunctions: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string()).unique()).required(),
+  limits: Joi.array().items(limitsSchema).required(),
+  approvalTtl: Joi.number().integer().min(60).default(24 * 60 * 60)
+});
+
+/**
+ * Read and validate a policy file. Every problem found is reported together in one ConfigError.
+ */
+export function loadSpendingPolicyFile(filePath: string): SpendingPolicyRules {
+  const source = path.resolve(filePath);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(source, 'utf8'));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : (error as Error).message;
+    throw new ConfigError(source, [`cannot read spending policy: ${reason}`]);
+  }
+
+  const { error, value } = spendingPolicySchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw new ConfigError(source, error.details.map(detail => detail.message));
+  }
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  for (const limits of value.limits) {
+    const label = `limits for ${limits.token} on chain ${limits.chainId}`;
+    const id = `${limits.chainId}:${limits.token.toLowerCase()}`;
+    if (seen.has(id)) {
+      issues.push(`${label} are defined more than once`);
+    }
+    seen.add(id);
+
+    if (limits.approvalThreshold !== undefined && BigInt(limits.approvalThreshold) >= BigInt(limits.perTransaction)) {
+      issues.push(`${label}: approvalThreshold must be below perTransaction, or nothing ever needs an approval`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return value;
+}
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { EmailChannel, WebhookChannel } from './channels';
+import { Notification, NotificationChannel, NotificationRouter, NotificationSeverity } from './NotificationRouter';
+
+/**
+ * Channel double recording what it delivered, or failing every delivery
+ */
+function channel(name: string, failing: boolean = false) {
+  const sent: Notification[] = [];
+  const double: NotificationChannel & { sent: Notification[] } = {
+    name,
+    sent,
+    send: async notification => {
+      if (failing) throw new Error(`${name} is down`);
+      sent.push(notification);
+    }
+  };
+  return double;
+}
+
+const alert = (severity: NotificationSeverity, title: string = 'Trapped funds'): Notification => ({
+  title,
+  message: '1 session holds 50 USDC past its deadline',
+  severity,
+  source: 'TrappedFundsMonitor'
+});
+
+describe('NotificationRouter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends each notification only to the channels whose minimum severity it meets', async () => {
+    const discord = channel('discord');
+    const telegram = channel('telegram');
+    const router = new NotificationRouter([
+      { channel: discord, minSeverity: 'info', rateLimit: 0 },
+      { channel: telegram, minSeverity: 'critical', rateLimit: 0 }
+    ]);
+
+    await router.notify(alert('warning', 'Low balance'));
+    await router.notify(alert('critical'));
+
+    expect(discord.sent.map(n => n.title)).toEqual(['Low balance', 'Trapped funds']);
+    expect(telegram.sent.map(n => n.title)).toEqual(['Trapped funds']);
+  });
+
+  it('drops repeats inside the de-duplication window', async () => {
+    const discord = channel('discord');
+    const router = new NotificationRouter([{ channel: discord, minSeverity: 'info', rateLimit: 0 }], 3600);
+
+    await expect(router.notify(alert('critical'))).resolves.toBe(true);
+    await expect(router.notify(alert('critical'))).resolves.toBe(false);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 3600 * 1000);
+    await expect(router.notify(alert('critical'))).resolves.toBe(true);
+  });
+
+  it('rate limits a channel and reports what it dropped with the next delivery', async () => {
+    const slack = channel('slack');
+    const router = new NotificationRouter([{ channel: slack, minSeverity: 'info', rateLimit: 2 }]);
+
+    for (const title of ['one', 'two', 'three', 'four']) {
+      await router.notify(alert('error', title));
+    }
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 1000);
+    await router.notify(alert('error', 'five'));
+
+    expect(slack.sent.map(n => n.title)).toEqual(['one', 'two', 'five']);
+    expect(slack.sent[2].fields).toEqual([{ name: 'Suppressed', value: '2 notifications dropped by the rate limit' }]);
+  });
+
+  it('keeps delivering to the other channels when one fails', async () => {
+    const email = channel('email', true);
+    const webhook = channel('webhook');
+    const router = new NotificationRouter([
+      { channel: email, minSeverity: 'info', rateLimit: 0 },
+      { channel: webhook, minSeverity: 'info', rateLimit: 0 }
+    ]);
+
+    await expect(router.notify(alert('critical'))).resolves.toBe(true);
+    expect(webhook.sent).toHaveLength(1);
+  });
+});
+
+describe('WebhookChannel', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs the timestamp and body with the shared secret', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+
+    await new WebhookChannel('https://hooks.example.com/alerts', 'shared-secret').send(alert('critical'));
+
+    const [, body, config] = post.mock.calls[0];
+    const headers = config!.headers as Record<string, string>;
+    const expected = crypto.createHmac('sha256', 'shared-secret').update(`${headers['X-Timestamp']}.${body}`).digest('hex');
+    expect(headers['X-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body as string)).toMatchObject({ title: 'Trapped funds', severity: 'critical' });
+  });
+});
+
+describe('EmailChannel', () => {
+  it('does not send credentials to a server that offers no STARTTLS', async () => {
+    // Plain-text SMTP server without STARTTLS, as after a downgrade, recording the commands it gets
+    const commands: string[] = [];
+    const server = net.createServer(socket => {
+      socket.write('220 mail.example.com ESMTP\r\n');
+      socket.on('data', chunk => {
+        for (const line of chunk.toString().split('\r\n').filter(Boolean)) {
+          commands.push(line);
+          if (/^EHLO/.test(line)) socket.write('250-mail.example.com\r\n250 AUTH LOGIN PLAIN\r\n');
+          else if (/^STARTTLS/.test(line)) socket.write('502 5.5.1 Unrecognized command\r\n');
+          else socket.write('250 OK\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const email = new EmailChannel({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        secure: false,
+        user: 'alerts@example.com',
+        pass: 'smtp-password',
+        timeout: 2000
+      }, 'alerts@example.com', ['ops@example.com']);
+
+      await expect(email.send(alert('critical'))).rejects.toThrow(/STARTTLS/);
+      expect(commands.some(command => /^AUTH/.test(command))).toBe(false);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
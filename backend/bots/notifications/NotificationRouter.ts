@@ -0,0 +1,168 @@
+/**
+ * NotificationRouter - Fans notifications out to the configured channels
+ * Each channel has its own minimum severity and rate limit, so a critical alert can page
+ * on-call through Telegram or email while routine reports only go to Discord. Repeats of
+ * the same notification inside the de-duplication window are dropped per channel.
+ */
+
+import { DiscordNotifier } from '../DiscordNotifier';
+import { DiscordChannel, SlackChannel, TelegramChannel, EmailChannel, WebhookChannel } from './channels';
+import { ChannelRoute, Notification, NotificationChannel, NotificationSeverity, SEVERITY_ORDER } from './types';
+
+export * from './types';
+
+const RATE_LIMIT_WINDOW = 60 * 1000;
+const DEFAULT_RATE_LIMIT = 20; // per channel per minute
+const DEFAULT_DEDUP_WINDOW = 60 * 60; // seconds
+
+interface RouteState {
+  sentAt: number[]; // delivery times inside the rate limit window
+  lastSent: Map<string, number>; // dedup key -> last delivery
+  suppressed: number; // dropped by the rate limit since the last delivery
+}
+
+export class NotificationRouter {
+  private routes: ChannelRoute[];
+  private state: Map<string, RouteState> = new Map();
+  private dedupWindow: number; // ms
+
+  constructor(routes: ChannelRoute[], dedupWindowSeconds: number = DEFAULT_DEDUP_WINDOW) {
+    this.routes = routes;
+    this.dedupWindow = dedupWindowSeconds * 1000;
+
+    for (const route of routes) {
+      this.state.set(route.channel.name, { sentAt: [], lastSent: new Map(), suppressed: 0 });
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.routes.length > 0;
+  }
+
+  public getChannelNames(): string[] {
+    return this.routes.map(route => route.channel.name);
+  }
+
+  /**
+   * Send to every channel the notification qualifies for.
+   * Returns true if at least one channel delivered it.
+   */
+  public async notify(notification: Notification): Promise<boolean> {
+    const stamped: Notification = { ...notification, timestamp: notification.timestamp || new Date().toISOString() };
+    const key = notification.dedupKey || `${notification.severity}:${notification.title}:${notification.message}`;
+
+    const results = await Promise.all(this.routes.map(route => this.deliver(route, stamped, key)));
+    return results.some(Boolean);
+  }
+
+  private async deliver(route: ChannelRoute, notification: Notification, key: string): Promise<boolean> {
+    const name = route.channel.name;
+    const state = this.state.get(name)!;
+    const now = Date.now();
+
+    if (SEVERITY_ORDER[notification.severity] < SEVERITY_ORDER[route.minSeverity]) {
+      return false;
+    }
+
+    const lastSent = state.lastSent.get(key);
+    if (lastSent !== undefined && now - lastSent < this.dedupWindow) {
+      return false;
+    }
+
+    state.sentAt = state.sentAt.filter(time => now - time < RATE_LIMIT_WINDOW);
+    if (route.rateLimit > 0 && state.sentAt.length >= route.rateLimit) {
+      state.suppressed++;
+      console.warn(`[NotificationRouter] Rate limit reached for ${name}, dropped "${notification.title}"`);
+      return false;
+    }
+
+    // Let the receiver know what the rate limit swallowed since the last delivery
+    const outgoing = state.suppressed > 0
+      ? { ...notification, fields: [...(notification.fields || []), { name: 'Suppressed', value: `${state.suppressed} notifications dropped by the rate limit` }] }
+      : notification;
+
+    try {
+      await route.channel.send(outgoing);
+    } catch (error) {
+      console.error(`[NotificationRouter] ${name} delivery failed:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    state.sentAt.push(now);
+    state.lastSent.set(key, now);
+    state.suppressed = 0;
+    this.pruneDedup(state, now);
+    return true;
+  }
+
+  private pruneDedup(state: RouteState, now: number): void {
+    for (const [key, time] of state.lastSent) {
+      if (now - time >= this.dedupWindow) {
+        state.lastSent.delete(key);
+      }
+    }
+  }
+}
+
+// ============ ENVIRONMENT CONFIGURATION ============
+
+function parseSeverity(value: string | undefined, fallback: NotificationSeverity): NotificationSeverity {
+  if (value && value in SEVERITY_ORDER) {
+    return value as NotificationSeverity;
+  }
+  if (value) {
+    console.warn(`[NotificationRouter] Unknown severity "${value}", using ${fallback}`);
+  }
+  return fallback;
+}
+
+function route(channel: NotificationChannel, defaultSeverity: NotificationSeverity): ChannelRoute {
+  const prefix = `NOTIFY_${channel.name.toUpperCase()}`;
+  return {
+    channel,
+    minSeverity: parseSeverity(process.env[`${prefix}_MIN_SEVERITY`], defaultSeverity),
+    rateLimit: parseInt(process.env[`${prefix}_RATE_LIMIT`] || process.env.NOTIFY_RATE_LIMIT || `${DEFAULT_RATE_LIMIT}`)
+  };
+}
+
+/**
+ * Build a router from NOTIFY_* environment variables. The caller's Discord notifier
+ * is used as the Discord channel when it is enabled.
+ */
+export function createNotificationRouterFromEnv(discord?: DiscordNotifier): NotificationRouter {
+  const env = process.env;
+  const routes: ChannelRoute[] = [];
+
+  if (discord?.isEnabled()) {
+    routes.push(route(new DiscordChannel(discord), 'info'));
+  }
+
+  if (env.NOTIFY_SLACK_WEBHOOK_URL) {
+    routes.push(route(new SlackChannel(env.NOTIFY_SLACK_WEBHOOK_URL), 'warning'));
+  }
+
+  if (env.NOTIFY_TELEGRAM_BOT_TOKEN && env.NOTIFY_TELEGRAM_CHAT_ID) {
+    routes.push(route(new TelegramChannel(env.NOTIFY_TELEGRAM_BOT_TOKEN, env.NOTIFY_TELEGRAM_CHAT_ID), 'critical'));
+  }
+
+  if (env.NOTIFY_SMTP_HOST && env.NOTIFY_EMAIL_TO) {
+    const port = parseInt(env.NOTIFY_SMTP_PORT || '587');
+    const smtp = {
+      host: env.NOTIFY_SMTP_HOST,
+      port,
+      secure: env.NOTIFY_SMTP_SECURE ? env.NOTIFY_SMTP_SECURE === 'true' : port === 465,
+      user: env.NOTIFY_SMTP_USER,
+      pass: env.NOTIFY_SMTP_PASS
+    };
+    const recipients = env.NOTIFY_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean);
+    const from = env.NOTIFY_EMAIL_FROM || env.NOTIFY_SMTP_USER || 'bot@localhost';
+    routes.push(route(new EmailChannel(smtp, from, recipients), 'error'));
+  }
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    routes.push(route(new WebhookChannel(env.NOTIFY_WEBHOOK_URL, env.NOTIFY_WEBHOOK_SECRET), 'info'));
+  }
+
+  const dedupWindow = parseInt(env.NOTIFY_DEDUP_WINDOW || `${DEFAULT_DEDUP_WINDOW}`);
+  return new NotificationRouter(routes, dedupWindow);
+}
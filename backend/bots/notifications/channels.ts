@@ -0,0 +1,173 @@
+/**
+ * Notification channel adapters
+ * Each adapter formats a Notification for one destination and throws if delivery fails
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { DiscordNotifier, AlertType } from '../DiscordNotifier';
+import { Notification, NotificationChannel, NotificationSeverity } from './types';
+
+const REQUEST_TIMEOUT = 10000;
+
+const SEVERITY_LABELS: Record<NotificationSeverity, string> = {
+  info: 'INFO',
+  warning: 'WARNING',
+  error: 'ERROR',
+  critical: 'CRITICAL'
+};
+
+function formatPlainText(notification: Notification): string {
+  const lines = [notification.message];
+  for (const field of notification.fields || []) {
+    lines.push(`${field.name}: ${field.value}`);
+  }
+  lines.push('', `Source: ${notification.source}`);
+  return lines.join('\n');
+}
+
+// ============ DISCORD ============
+
+export class DiscordChannel implements NotificationChannel {
+  public readonly name = 'discord';
+
+  private static readonly COLORS: Record<NotificationSeverity, number> = {
+    info: AlertType.INFO,
+    warning: AlertType.WARNING,
+    error: AlertType.ERROR,
+    critical: AlertType.CRITICAL
+  };
+
+  constructor(private notifier: DiscordNotifier) {}
+
+  public async send(notification: Notification): Promise<void> {
+    const delivered = await this.notifier.sendEmbed({
+      title: notification.title,
+      description: notification.message,
+      color: DiscordChannel.COLORS[notification.severity],
+      fields: notification.fields,
+      footer: { text: notification.source },
+      timestamp: notification.timestamp
+    });
+
+    if (!delivered) {
+      throw new Error('Discord webhook delivery failed');
+    }
+  }
+}
+
+// ============ SLACK ============
+
+/**
+ * Incoming webhook that accepts Slack's {text} payload (Slack, Mattermost, Rocket.Chat)
+ */
+export class SlackChannel implements NotificationChannel {
+  public readonly name = 'slack';
+
+  constructor(private webhookUrl: string) {}
+
+  public async send(notification: Notification): Promise<void> {
+    const lines = [`*[${SEVERITY_LABELS[notification.severity]}] ${notification.title}*`, notification.message];
+    for (const field of notification.fields || []) {
+      lines.push(`• *${field.name}:* ${field.value}`);
+    }
+    lines.push(`_${notification.source}_`);
+
+    await axios.post(this.webhookUrl, { text: lines.join('\n') }, { timeout: REQUEST_TIMEOUT });
+  }
+}
+
+// ============ TELEGRAM ============
+
+export class TelegramChannel implements NotificationChannel {
+  public readonly name = 'telegram';
+
+  constructor(private botToken: string, private chatId: string) {}
+
+  public async send(notification: Notification): Promise<void> {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const lines = [`<b>[${SEVERITY_LABELS[notification.severity]}] ${escape(notification.title)}</b>`, escape(notification.message)];
+    for (const field of notification.fields || []) {
+      lines.push(`<b>${escape(field.name)}:</b> ${escape(field.value)}`);
+    }
+    lines.push(`<i>${escape(notification.source)}</i>`);
+
+    await axios.post(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: lines.join('\n'),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true
+    }, { timeout: REQUEST_TIMEOUT });
+  }
+}
+
+// ============ EMAIL ============
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS; otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  timeout?: number; // ms
+}
+
+/**
+ * Sends plain-text emails over SMTP. Credentials are only sent over TLS: with a user and
+ * no implicit TLS the server must offer STARTTLS, or the message is not sent.
+ */
+export class EmailChannel implements NotificationChannel {
+  public readonly name = 'email';
+  private transport: Transporter;
+
+  constructor(smtp: SmtpConfig, private from: string, private to: string[]) {
+    const timeout = smtp.timeout ?? 15000;
+    this.transport = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      requireTLS: !smtp.secure && Boolean(smtp.user),
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass || '' } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout
+    });
+  }
+
+  public async send(notification: Notification): Promise<void> {
+    await this.transport.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `[${SEVERITY_LABELS[notification.severity]}] ${notification.title}`,
+      text: formatPlainText(notification)
+    });
+  }
+}
+
+// ============ SIGNED WEBHOOK ============
+
+/**
+ * Posts the notification as JSON. When a secret is set the request carries
+ * X-Signature: sha256=HMAC(secret, "<X-Timestamp>.<body>") so receivers can verify it.
+ */
+export class WebhookChannel implements NotificationChannel {
+  public readonly name = 'webhook';
+
+  constructor(private url: string, private secret?: string) {}
+
+  public async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify(notification);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto.createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Timestamp'] = timestamp;
+      headers['X-Signature'] = `sha256=${signature}`;
+    }
+
+    await axios.post(this.url, body, { headers, timeout: REQUEST_TIMEOUT });
+  }
+}
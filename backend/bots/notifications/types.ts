@@ -0,0 +1,42 @@
+/**
+ * Notification types shared by the router and its channel adapters
+ */
+
+export type NotificationSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export const SEVERITY_ORDER: Record<NotificationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  critical: 3
+};
+
+export interface NotificationField {
+  name: string;
+  value: string;
+  inline?: boolean; // layout hint for channels that support it (Discord)
+}
+
+export interface Notification {
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  source: string; // component that raised it, e.g. TrappedFundsMonitor
+  fields?: NotificationField[];
+  dedupKey?: string; // defaults to severity, title and message
+  timestamp?: string;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  /**
+   * Deliver the notification, throwing if it could not be delivered
+   */
+  send(notification: Notification): Promise<void>;
+}
+
+export interface ChannelRoute {
+  channel: NotificationChannel;
+  minSeverity: NotificationSeverity;
+  rateLimit: number; // notifications per minute, 0 for unlimited
+}
@@ -0,0 +1,346 @@
+#!/usr/bin/env ts-node
+
+/**
+ * replay-session - Reconstruct and explain the payment bot's decisions for one V8 session
+ * Fetches the session's events from the V8 contract, then at every block where something happened
+ * (and once more for the current state) reads the session and its health check as of that block and
+ * re-runs the bot's strategy selection (ProcessingStrategyV8). The report lists the inputs, the rules
+ * checked, the method the bot would have chosen and the amounts involved, ready to attach to a
+ * support ticket. Historical reads need an archive RPC node.
+ *
+ * Usage: ts-node bots/replay-session.ts <sessionId> --chain <chainId> [--from-block <n>]
+ *                                      [--file <path>] [--profile <name>] [--json]
+ */
+
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { loadBotConfig, ConfigError, ResolvedBotConfig } from './config/BotConfigLoader';
+import { getRpcProvider } from './RpcProvider';
+import { IndexerClient } from './IndexerClient';
+import { parseSessionV8, selectProcessingStrategyV8, formatAge, StrategyDecisionV8, NO_SHOW_AFTER_SECONDS } from './ProcessingStrategyV8';
+import { ChainConfigV8, ProgressiveSessionV8, SessionHealthInfo, SessionStatus, RefundType } from './V8Types';
+
+dotenv.config({ path: '.env.v8' });
+
+const V8_REPLAY_ABI = [
+  'function getSessionV8(bytes32 sessionId) external view returns (tuple(bytes32 sessionId, address student, address mentor, address paymentToken, uint256 totalAmount, uint256 releasedAmount, uint256 sessionDuration, uint256 createdAt, uint256 startTime, uint256 lastHeartbeat, uint256 effectivePausedTime, uint256 lastActivityTime, uint8 status, bool isActive, bool isPaused, bool surveyCompleted, uint256 stateTransitionCount, uint256 lastStateChange, bool emergencyLocked, uint8 disputeReason, uint256 disputeCreatedAt, address disputeInitiator, bool arbitrationRequired, uint256 recoveryAttempts, uint256 lastRecoveryAttempt, bool autoRecoveryEnabled))',
+  'function getAvailablePayment(bytes32 sessionId) external view returns (uint256)',
+  'function checkSessionHealth(bytes32 sessionId) external view returns (bool healthy, string memory details)',
+  'event SessionCreated(bytes32 indexed sessionId, address indexed student, address indexed mentor, uint256 totalAmount, address paymentToken, uint256 sessionDuration, uint256 scheduledTime)',
+  'event SessionStarted(bytes32 indexed sessionId, uint256 startTime)',
+  'event SessionPaused(bytes32 indexed sessionId, uint256 pauseTime)',
+  'event SessionResumed(bytes32 indexed sessionId, uint256 resumeTime, uint256 pauseDuration)',
+  'event SessionCompleted(bytes32 indexed sessionId, uint256 mentorAmount, uint256 platformFee, uint256 completionTime)',
+  'event SessionCancelled(bytes32 indexed sessionId, uint8 refundType, uint256 refundAmount)',
+  'event SessionExpired(bytes32 indexed sessionId, uint256 expiryTime)',
+  'event SessionStateChanged(bytes32 indexed sessionId, uint8 oldStatus, uint8 newStatus, uint256 timestamp)',
+  'event DisputeRaised(bytes32 indexed sessionId, address indexed initiator, uint8 reason, uint256 timestamp)',
+  'event DisputeResolved(bytes32 indexed sessionId, uint8 resolution, uint256 timestamp)',
+  'event EmergencyAction(bytes32 indexed sessionId, string action, address admin, uint256 timestamp)',
+  'event AutoRecoveryExecuted(bytes32 indexed sessionId, string recoveryAction, uint256 timestamp)',
+  'event ProgressivePaymentReleased(bytes32 indexed sessionId, uint256 amount, uint256 totalReleased, uint256 timestamp)',
+  'event HeartbeatReceived(bytes32 indexed sessionId, uint256 timestamp)',
+  'event RefundProcessed(bytes32 indexed sessionId, address recipient, uint256 amount, uint8 refundType)',
+  'event SessionHealthCheck(bytes32 indexed sessionId, bool healthy, string details)'
+];
+
+const V7_SESSION_ABI = [
+  'function getSession(bytes32 sessionId) external view returns (tuple(bytes32 sessionId, address student, address mentor, address paymentToken, uint256 totalAmount, uint256 releasedAmount, uint256 sessionDuration, uint256 startTime, uint8 status, bool isActive, bool surveyCompleted))',
+  'function getAvailablePayment(bytes32 sessionId) external view returns (uint256)'
+];
+
+const DEFAULT_LOG_CHUNK_SIZE = 2000;
+const MIN_LOG_CHUNK_SIZE = 10;
+
+interface SessionEvent {
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string>;
+}
+
+// Bot inputs and decision as of one block
+interface ReplayPoint {
+  blockNumber: number;
+  timestamp: number; // the clock the strategy ran with
+  events: SessionEvent[]; // events mined in this block; none for the current state
+  session: ProgressiveSessionV8 | null;
+  health: SessionHealthInfo | null;
+  availablePayment: bigint | null;
+  decision: StrategyDecisionV8 | null;
+  error?: string;
+}
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// ============ ON-CHAIN HISTORY ============
+
+/**
+ * Block to start the log search from: --from-block, the indexer's SessionCreated, or the V8 deployment block
+ */
+async function findStartBlock(config: ResolvedBotConfig, chain: ChainConfigV8, sessionId: string): Promise<number> {
+  const fromBlock = argument('--from-block');
+  if (fromBlock !== undefined) {
+    return Number(fromBlock);
+  }
+
+  if (config.bot.indexerApiUrl) {
+    try {
+      const timeline = await new IndexerClient(config.bot.indexerApiUrl).getSessionTimeline(chain.chainId, sessionId);
+      const created = timeline.find(event => event.eventName === 'SessionCreated');
+      if (created) {
+        return created.blockNumber;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Indexer lookup failed, falling back to the deployment block: ${(error as Error).message}`);
+    }
+  }
+
+  if (chain.deploymentBlocks?.v8 !== undefined) {
+    return chain.deploymentBlocks.v8;
+  }
+  throw new Error(`No start block for ${chain.name}: pass --from-block (the block the session was created in or earlier)`);
+}
+
+async function fetchSessionEvents(
+  contract: ethers.Contract,
+  provider: ethers.Provider,
+  sessionId: string,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number
+): Promise<SessionEvent[]> {
+  const events: SessionEvent[] = [];
+  const address = await contract.getAddress();
+
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ address, topics: [null, sessionId], fromBlock: start, toBlock: end });
+    } catch (error) {
+      if (chunkSize <= MIN_LOG_CHUNK_SIZE) throw error;
+      chunkSize = Math.max(Math.floor(chunkSize / 2), MIN_LOG_CHUNK_SIZE);
+      continue;
+    }
+
+    for (const log of logs) {
+      const parsed = contract.interface.parseLog(log);
+      const args: Record<string, string> = {};
+      parsed?.fragment.inputs.forEach((input, index) => {
+        if (input.name !== 'sessionId') args[input.name] = String(parsed.args[index]);
+      });
+      events.push({
+        name: parsed?.name || `unknown(${log.topics[0].slice(0, 10)})`,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args
+      });
+    }
+    start = end + 1;
+  }
+
+  return events;
+}
+
+// ============ REPLAY ============
+
+/**
+ * Read the session as of `blockTag` and run the bot's strategy selection with the clock at `now`
+ */
+async function replayAt(
+  contract: ethers.Contract,
+  sessionId: string,
+  blockTag: number,
+  now: number,
+  events: SessionEvent[]
+): Promise<ReplayPoint> {
+  const point: ReplayPoint = { blockNumber: blockTag, timestamp: now, events, session: null, health: null, availablePayment: null, decision: null };
+
+  try {
+    const session = parseSessionV8(await contract.getSessionV8(sessionId, { blockTag }));
+    if (session.student === ethers.ZeroAddress) {
+      point.error = 'session does not exist at this block';
+      return point;
+    }
+
+    const healthResult = await contract.checkSessionHealth(sessionId, { blockTag });
+    point.session = session;
+    point.health = {
+      healthy: healthResult.healthy,
+      details: healthResult.details,
+      sessionId,
+      lastChecked: now * 1000,
+      issues: healthResult.healthy ? [] : [healthResult.details],
+      recoveryRecommended: !healthResult.healthy
+    };
+    point.availablePayment = await contract.getAvailablePayment(sessionId, { blockTag });
+    point.decision = selectProcessingStrategyV8(session, point.health, now);
+  } catch (error) {
+    const message = (error as { shortMessage?: string }).shortMessage || (error as Error).message;
+    point.error = `state unavailable (${message}); historical reads need an archive node`;
+  }
+
+  return point;
+}
+
+async function replaySession(
+  provider: ethers.Provider,
+  chain: ChainConfigV8,
+  config: ResolvedBotConfig,
+  sessionId: string
+): Promise<ReplayPoint[]> {
+  const contract = new ethers.Contract(chain.contractAddressV8, V8_REPLAY_ABI, provider);
+
+  const currentBlock = await provider.getBlockNumber();
+  const fromBlock = await findStartBlock(config, chain, sessionId);
+  console.error(`🔎 Fetching events of ${sessionId} on ${chain.name} from block ${fromBlock} to ${currentBlock}...`);
+  const events = await fetchSessionEvents(contract, provider, sessionId, fromBlock, currentBlock, config.bot.logChunkSize || DEFAULT_LOG_CHUNK_SIZE);
+
+  // One point per block: the state after all of the block's events
+  const byBlock = new Map<number, SessionEvent[]>();
+  for (const event of events) {
+    byBlock.set(event.blockNumber, [...(byBlock.get(event.blockNumber) || []), event]);
+  }
+
+  const points: ReplayPoint[] = [];
+  for (const [blockNumber, blockEvents] of byBlock) {
+    const block = await provider.getBlock(blockNumber);
+    points.push(await replayAt(contract, sessionId, blockNumber, block!.timestamp, blockEvents));
+  }
+
+  // The current state, judged by wall clock like the running bot
+  points.push(await replayAt(contract, sessionId, currentBlock, Math.floor(Date.now() / 1000), []));
+  return points;
+}
+
+/**
+ * Sessions only on the V7 contract get no V8 replay; explain the V7 rule instead
+ */
+async function describeV7Session(provider: ethers.Provider, chain: ChainConfigV8, sessionId: string): Promise<boolean> {
+  if (!chain.contractAddress) return false;
+
+  const contract = new ethers.Contract(chain.contractAddress, V7_SESSION_ABI, provider);
+  const session = await contract.getSession(sessionId);
+  if (session.student === ethers.ZeroAddress) return false;
+
+  const available: bigint = await contract.getAvailablePayment(sessionId);
+  console.log(`ℹ️ ${sessionId} is a V7 session (${chain.contractAddress}), status ${Number(session.status)}`);
+  console.log('   The bot settles V7 sessions with autoCompleteSession whenever getAvailablePayment > 0;');
+  console.log(`   available payment now: ${available} (${available > BigInt(0) ? 'the bot would call autoCompleteSession' : 'nothing to do'})`);
+  return true;
+}
+
+// ============ REPORT ============
+
+function printPoint(point: ReplayPoint, index: number): void {
+  const when = new Date(point.timestamp * 1000).toISOString();
+  const title = point.events.length > 0 ? point.events.map(event => event.name).join(', ') : 'Current state';
+  console.log(`\n#${index + 1} ${title} - block ${point.blockNumber} (${when})`);
+  point.events.forEach(event => {
+    const args = Object.entries(event.args).map(([name, value]) => `${name}=${value}`).join(' ');
+    console.log(`   tx ${event.transactionHash} ${event.name}${args ? ` ${args}` : ''}`);
+  });
+
+  if (point.error || !point.session || !point.health || !point.decision) {
+    console.log(`   ⚠️ ${point.error || 'state unavailable'}`);
+    return;
+  }
+
+  const { session, health, decision } = point;
+  const age = (timestamp: number) => timestamp > 0 ? `${formatAge(point.timestamp - timestamp)} ago` : 'never';
+  console.log('   Inputs:');
+  console.log(`     status ${SessionStatus[session.status] ?? session.status}${session.isPaused ? ' (paused)' : ''}${session.emergencyLocked ? ' (emergency locked)' : ''}`);
+  console.log(`     created ${age(session.createdAt)}, started ${age(session.startTime)}, last heartbeat ${age(session.lastHeartbeat)}`);
+  console.log(`     paused for ${formatAge(session.effectivePausedTime)}, ${session.stateTransitionCount} state transitions, ${session.recoveryAttempts} recovery attempts`);
+  console.log(`     auto-recovery ${session.autoRecoveryEnabled ? 'enabled' : 'disabled'}, survey ${session.surveyCompleted ? 'completed' : 'pending'}`);
+  console.log(`   Health check: ${health.healthy ? '✅' : '❌'} ${health.details}`);
+  console.log('   Rules:');
+  decision.checks.forEach(check => console.log(`     ${check.passed ? '✔' : '✘'} ${check.rule}: ${check.condition}`));
+
+  const { primary, fallbacks, requiresAdmin } = decision.strategy;
+  if (primary.method === 'none') {
+    console.log('   Decision: no processing');
+  } else {
+    console.log(`   Decision: ${primary.functionName} (${primary.description})${requiresAdmin ? ', requires admin' : ''}`);
+    fallbacks.forEach(fallback => console.log(`     fallback: ${fallback.functionName} (${fallback.description})`));
+  }
+  if (decision.refundType !== undefined) {
+    console.log(`   Refund type: ${RefundType[decision.refundType]}`);
+  }
+  console.log(`   Amounts: total ${session.totalAmount}, released ${session.releasedAmount}, remaining ${session.totalAmount - session.releasedAmount}, available ${point.availablePayment} (token ${session.paymentToken})`);
+}
+
+function toJson(chain: ChainConfigV8, sessionId: string, points: ReplayPoint[]): string {
+  return JSON.stringify(
+    { chainId: chain.chainId, chain: chain.name, contract: chain.contractAddressV8, sessionId, generatedAt: new Date().toISOString(), points },
+    (_key, value) => typeof value === 'bigint' ? value.toString() : value,
+    2
+  );
+}
+
+async function main() {
+  const sessionId = process.argv[2];
+  const chainId = Number(argument('--chain'));
+  if (!sessionId || !ethers.isHexString(sessionId, 32) || !chainId) {
+    console.error('Usage: ts-node bots/replay-session.ts <sessionId> --chain <chainId> [--from-block <n>] [--file <path>] [--profile <name>] [--json]');
+    process.exit(1);
+  }
+
+  let config: ResolvedBotConfig;
+  try {
+    config = await loadBotConfig({ file: argument('--file'), profile: argument('--profile') });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const chain = config.chains.find(c => c.chainId === chainId);
+  if (!chain) {
+    console.error(`❌ Chain ${chainId} is not configured (${config.chains.map(c => c.chainId).join(', ')})`);
+    process.exit(1);
+  }
+
+  const provider = getRpcProvider(chain.chainId, chain.rpcUrl, chain.rpcSettings);
+  try {
+    if (!chain.contractAddressV8) {
+      if (!await describeV7Session(provider, chain, sessionId)) {
+        console.error(`❌ ${chain.name} has no V8 contract configured and ${sessionId} is not a V7 session`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    const points = await replaySession(provider, chain, config, sessionId);
+    if (points.every(point => !point.session) && await describeV7Session(provider, chain, sessionId)) {
+      return;
+    }
+
+    if (process.argv.includes('--json')) {
+      console.log(toJson(chain, sessionId, points));
+      return;
+    }
+
+    console.log(`📋 Replay of session ${sessionId} on ${chain.name} (${chain.chainId}), V8 contract ${chain.contractAddressV8}`);
+    console.log(`   Generated ${new Date().toISOString()}; the bot treats sessions still Created after ${formatAge(NO_SHOW_AFTER_SECONDS)} as no-shows`);
+    points.forEach(printPoint);
+  } finally {
+    provider.destroy();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ replay-session failed:', error);
+    process.exit(1);
+  });
+}
@@ -2,7 +2,8 @@
 
 // start-mainnet-bot.ts - Launch script for Chain Academy Payment Bot on Mainnet
 
-import dotenv from 'dotenv';
+// Loaded before MainnetBotConfig reads the environment
+import 'dotenv/config';
 import { DailyPaymentBot } from './DailyPaymentBot';
 import { 
   MAINNET_BOT_CONFIG, 
@@ -11,9 +12,6 @@ import {
   getConfigSummary 
 } from './MainnetBotConfig';
 
-// Load environment variables
-dotenv.config();
-
 // ASCII Art Banner
 const BANNER = `
 ╔═══════════════════════════════════════════════════╗
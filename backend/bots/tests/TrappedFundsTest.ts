@@ -6,7 +6,6 @@
  */
 
 import { ethers } from 'ethers';
-import { expect } from 'chai';
 
 // Test interfaces
 interface TestSession {
@@ -392,7 +391,7 @@ export class TrappedFundsTestSuite {
     
     // Use a different wallet (not owner) to trigger refund
     const randomWallet = ethers.Wallet.createRandom().connect(this.provider);
-    const contractAsRandom = contract.connect(randomWallet);
+    const contractAsRandom = contract.connect(randomWallet) as ethers.Contract;
     
     await this.simulateTimePass(16 * 60);
     await contractAsRandom.triggerEligibleRefund(session.sessionId);
@@ -595,6 +594,4 @@ Environment:
 
 if (require.main === module) {
   main().catch(console.error);
-}
-
-export { TrappedFundsTestSuite };
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * DiscordStub - Local stand-in for a Discord webhook that records what the bots post
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface DiscordMessage {
+  username?: string;
+  content?: string;
+  embeds?: { title?: string; description?: string; fields?: { name: string; value: string }[] }[];
+}
+
+export class DiscordStub {
+  public readonly messages: DiscordMessage[] = [];
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        try {
+          this.messages.push(JSON.parse(body));
+          res.writeHead(204).end();
+        } catch {
+          res.writeHead(400).end();
+        }
+      });
+    });
+  }
+
+  /**
+   * Listen on a free local port; returns the webhook URL
+   */
+  public async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/webhooks/e2e`;
+  }
+
+  public async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  public titles(): string[] {
+    return this.messages.flatMap(message => (message.embeds || []).map(embed => embed.title || ''));
+  }
+
+  public clear(): void {
+    this.messages.length = 0;
+  }
+}
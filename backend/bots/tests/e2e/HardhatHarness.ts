@@ -0,0 +1,180 @@
+/**
+ * HardhatHarness - Local Hardhat node with the escrow contracts deployed, for the bot end-to-end tests
+ * Compiles contracts/e2e with hardhat.e2e.config.js, starts `hardhat node` as a child process,
+ * deploys ProgressiveEscrowV8, ProgressiveEscrowV7 and MockERC20 and hands out the node's
+ * funded accounts. Block time can be moved forward to age sessions on-chain.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawn, execFileSync, ChildProcess } from 'child_process';
+import { ethers } from 'ethers';
+
+export const CONTRACTS_DIR = path.resolve(__dirname, '../../../../contracts');
+const HARDHAT_CONFIG = 'hardhat.e2e.config.js';
+const ARTIFACTS_DIR = path.join(CONTRACTS_DIR, 'artifacts-e2e');
+
+// Accounts of `hardhat node` (10000 ETH each)
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const COMPILE_TIMEOUT = 10 * 60 * 1000;
+const NODE_START_TIMEOUT = 60 * 1000;
+
+export interface HarnessContracts {
+  escrowV8: ethers.Contract;
+  escrowV7: ethers.Contract;
+  token: ethers.Contract; // MockERC20 with 6 decimals, like USDC
+}
+
+export class HardhatHarness {
+  public readonly rpcUrl: string;
+  public readonly chainId = 31337;
+  public readonly provider: ethers.JsonRpcProvider;
+
+  private node: ChildProcess | null = null;
+  private nodeOutput: string = '';
+
+  constructor(private port: number = 8545 + Math.floor(Math.random() * 1000)) {
+    this.rpcUrl = `http://127.0.0.1:${port}`;
+    const network = ethers.Network.from(this.chainId);
+    this.provider = new ethers.JsonRpcProvider(this.rpcUrl, network, { staticNetwork: network, pollingInterval: 500 });
+  }
+
+  // ============ NODE LIFECYCLE ============
+
+  public async start(): Promise<void> {
+    if (!fs.existsSync(path.join(CONTRACTS_DIR, 'node_modules', 'hardhat'))) {
+      throw new Error(`Hardhat is not installed in ${CONTRACTS_DIR}: run "npm install" there before the end-to-end tests`);
+    }
+
+    console.log('[HardhatHarness] Compiling contracts...');
+    execFileSync('npx', ['hardhat', 'compile', '--config', HARDHAT_CONFIG], {
+      cwd: CONTRACTS_DIR,
+      stdio: 'inherit',
+      timeout: COMPILE_TIMEOUT
+    });
+
+    console.log(`[HardhatHarness] Starting hardhat node on port ${this.port}...`);
+    // Own process group, so stop() ends npx and the node it starts together
+    this.node = spawn('npx', ['hardhat', 'node', '--config', HARDHAT_CONFIG, '--port', String(this.port)], {
+      cwd: CONTRACTS_DIR,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    this.node.stdout!.on('data', data => this.nodeOutput = (this.nodeOutput + data).slice(-4000));
+    this.node.stderr!.on('data', data => this.nodeOutput = (this.nodeOutput + data).slice(-4000));
+
+    await this.waitForNode();
+    console.log(`[HardhatHarness] Node ready at ${this.rpcUrl}`);
+  }
+
+  public async stop(): Promise<void> {
+    this.provider.destroy();
+
+    const node = this.node;
+    this.node = null;
+    if (!node?.pid || node.exitCode !== null) return;
+
+    const exited = new Promise(resolve => node.once('exit', resolve));
+    process.kill(-node.pid, 'SIGTERM');
+    await Promise.race([exited, new Promise(resolve => setTimeout(resolve, 5000))]);
+    if (node.exitCode === null) {
+      process.kill(-node.pid, 'SIGKILL');
+    }
+  }
+
+  private async waitForNode(): Promise<void> {
+    const deadline = Date.now() + NODE_START_TIMEOUT;
+
+    while (Date.now() < deadline) {
+      if (this.node && this.node.exitCode !== null) {
+        throw new Error(`hardhat node exited with code ${this.node.exitCode}:\n${this.nodeOutput}`);
+      }
+      try {
+        await this.provider.getBlockNumber();
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+
+    await this.stop();
+    throw new Error(`hardhat node did not answer within ${NODE_START_TIMEOUT / 1000}s:\n${this.nodeOutput}`);
+  }
+
+  // ============ ACCOUNTS & CONTRACTS ============
+
+  /**
+   * Funded account of the node: 0 deploys and owns the contracts
+   */
+  public account(index: number): ethers.HDNodeWallet {
+    return ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).connect(this.provider);
+  }
+
+  public async deployContracts(platformWallet: string): Promise<HarnessContracts> {
+    const owner = this.account(0);
+
+    const escrowV8 = await this.deploy('ProgressiveEscrowV8', owner, platformWallet);
+    const escrowV7 = await this.deploy('ProgressiveEscrowV7', owner, platformWallet);
+    const token = await this.deploy('MockERC20', owner, 'Mock USD Coin', 'mUSDC', 6);
+
+    const tokenAddress = await token.getAddress();
+    await (await escrowV8.addSupportedToken(tokenAddress)).wait();
+    await (await escrowV7.addSupportedToken(tokenAddress)).wait();
+
+    return { escrowV8, escrowV7, token };
+  }
+
+  private async deploy(name: string, signer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+    const artifact = this.readArtifact(name);
+    const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer);
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+
+    console.log(`[HardhatHarness] Deployed ${name} at ${await contract.getAddress()}`);
+    return contract as ethers.Contract;
+  }
+
+  private readArtifact(name: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+    const find = (dir: string): string | null => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          const found = find(entryPath);
+          if (found) return found;
+        } else if (entry.name === `${name}.json`) {
+          return entryPath;
+        }
+      }
+      return null;
+    };
+
+    const artifactPath = fs.existsSync(ARTIFACTS_DIR) ? find(ARTIFACTS_DIR) : null;
+    if (!artifactPath) {
+      throw new Error(`No artifact for ${name} in ${ARTIFACTS_DIR}`);
+    }
+    return JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+  }
+
+  // ============ BLOCK TIME ============
+
+  public async latestTimestamp(): Promise<number> {
+    const block = await this.provider.getBlock('latest');
+    return block!.timestamp;
+  }
+
+  /**
+   * Move block time forward and mine a block
+   */
+  public async increaseTime(seconds: number): Promise<void> {
+    await this.provider.send('evm_increaseTime', [seconds]);
+    await this.provider.send('evm_mine', []);
+  }
+
+  /**
+   * Timestamp of the next mined block (the next transaction)
+   */
+  public async setNextBlockTimestamp(timestamp: number): Promise<void> {
+    await this.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Points every state file the bots write at a temporary directory, so an e2e run never touches ./data.
+ * Imported before the bots: the audit trail reads AUDIT_TRAIL_PATH when its module loads.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bots-e2e-'));
+
+process.env.PROCESSING_LEDGER_PATH = path.join(dataDir, 'processing-ledger.json');
+process.env.TRANSACTION_STORE_DIR = path.join(dataDir, 'transactions');
+process.env.EMERGENCY_PROPOSALS_PATH = path.join(dataDir, 'emergency-proposals.json');
+process.env.AUDIT_TRAIL_PATH = path.join(dataDir, 'audit-trail.jsonl');
+process.env.SPENDING_POLICY_STATE_PATH = path.join(dataDir, 'spending-policy-state.json');
+process.env.KEY_ROTATION_KEY_STORE_PATH = path.join(dataDir, 'keys');
@@ -0,0 +1,344 @@
+#!/usr/bin/env ts-node
+
+/**
+ * End-to-end tests for the payment bots against a local Hardhat node
+ * Deploys ProgressiveEscrowV8, ProgressiveEscrowV7 and MockERC20, fabricates sessions in each
+ * state (no-show, partial, disputed, expired, paused too long), runs DailyPaymentBotV8, RefundBot
+ * and SystematicRecovery against them with a stub Discord webhook, and checks the resulting
+ * balances, events and notifications. Emergency releases are signed off by two stand-in approvers.
+ *
+ * Usage: npm run test:e2e (needs `npm install` in contracts/)
+ */
+
+import { dataDir } from './isolatedState';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { HardhatHarness, HarnessContracts } from './HardhatHarness';
+import { DiscordStub } from './DiscordStub';
+import { loadBotConfigFile, ResolvedBotConfig } from '../../config/BotConfigLoader';
+import { DailyPaymentBotV8 } from '../../DailyPaymentBotV8';
+import { RefundBot } from '../../RefundBot';
+import { SystematicRecovery } from '../../SystematicRecovery';
+import { EmergencyProposal, EmergencyProposals, ProposalPendingError, emergencyReleaseTypedData } from '../../EmergencyProposals';
+import { BotConfig, SessionStatus as V7SessionStatus } from '../../types';
+import { SessionStatus, RefundType, DisputeReason } from '../../V8Types';
+
+const ETH = ethers.ZeroAddress;
+const USDC = (amount: number) => ethers.parseUnits(String(amount), 6);
+
+// Accounts: 0 owns the contracts and runs the bots, 1 collects platform fees, 2 mentors,
+// every scenario has its own student from 3 on
+const OWNER = 0;
+const PLATFORM = 1;
+const MENTOR = 2;
+let nextStudent = 3;
+
+describe('payment bots end-to-end', () => {
+  const harness = new HardhatHarness();
+  const discord = new DiscordStub();
+
+  let contracts: HarnessContracts;
+  let config: ResolvedBotConfig;
+  let mentor: ethers.HDNodeWallet;
+  let platform: ethers.HDNodeWallet;
+
+  // Emergency approvers only sign proposals off-chain, so they need no funded account
+  const approvers = [0, 1].map(() => new ethers.Wallet(ethers.Wallet.createRandom().privateKey));
+
+  before(async () => {
+    await harness.start();
+
+    mentor = harness.account(MENTOR);
+    platform = harness.account(PLATFORM);
+    contracts = await harness.deployContracts(platform.address);
+
+    const webhookUrl = await discord.start();
+    process.env.BOT_PRIVATE_KEY = harness.account(OWNER).privateKey;
+    process.env.BOT_OWNER_PRIVATE_KEY = harness.account(OWNER).privateKey;
+    process.env.BOT_DISCORD_WEBHOOK_URL = webhookUrl;
+    process.env.BOT_ENABLE_DISCORD_NOTIFICATIONS = 'true';
+    process.env.EMERGENCY_APPROVER_ADDRESSES = approvers.map(approver => approver.address).join(',');
+    process.env.EMERGENCY_APPROVAL_THRESHOLD = String(approvers.length);
+
+    config = await loadBotConfigFile(await writeConfigFile(), 'testnet');
+  });
+
+  after(async () => {
+    await harness.stop();
+    await discord.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // ============ DailyPaymentBotV8 ============
+
+  it('refunds a no-show session and an abandoned partial session on V8', async () => {
+    // No-show: created and never started
+    const noShowStudent = student();
+    const noShow = await createV8Session(noShowStudent, ETH, ethers.parseEther('1'));
+
+    // Partial: started, paid half way by a heartbeat, then the heartbeats stopped
+    const partialStudent = student();
+    await fundWithTokens(partialStudent, USDC(100));
+    const partial = await createV8Session(partialStudent, await contracts.token.getAddress(), USDC(100));
+    const created = await harness.latestTimestamp();
+    await harness.setNextBlockTimestamp(created + 60);
+    await send(contracts.escrowV8.connect(partialStudent) as ethers.Contract, 'startProgressiveSession', partial);
+    await harness.setNextBlockTimestamp(created + 60 + 1800);
+    await send(contracts.escrowV8.connect(partialStudent) as ethers.Contract, 'updateHeartbeat', partial);
+    await harness.increaseTime(600);
+
+    const partialSession = await contracts.escrowV8.getSessionV8(partial);
+    assert.equal(partialSession.releasedAmount, USDC(45));
+
+    const noShowBefore = await harness.provider.getBalance(noShowStudent.address);
+    const partialBefore = await contracts.token.balanceOf(partialStudent.address);
+
+    const record = await new DailyPaymentBotV8(config.bot, config.chains).executeDaily(true, false);
+    assert.ok(record?.success, record?.error || 'execution did not run');
+    assert.equal(record!.successfulPayments, 2);
+
+    // processNoShowRefund returns everything to the student
+    assert.equal(await harness.provider.getBalance(noShowStudent.address) - noShowBefore, ethers.parseEther('1'));
+    await assertRefund(noShow, noShowStudent.address, ethers.parseEther('1'), RefundType.NoShow);
+
+    // executeAutoRecovery is not due yet, so the emergency refund fallback returns what was not released
+    assert.equal(await contracts.token.balanceOf(partialStudent.address) - partialBefore, USDC(55));
+    await assertRefund(partial, partialStudent.address, USDC(55), RefundType.Emergency);
+
+    assert.equal(discord.titles().filter(title => title === '💰 Payment Processed Successfully').length, 2);
+  });
+
+  it('auto-resolves an expired dispute on V8 in favour of the mentor', async () => {
+    const disputeStudent = student();
+    await fundWithTokens(disputeStudent, USDC(100));
+    const disputed = await createV8Session(disputeStudent, await contracts.token.getAddress(), USDC(100));
+    const created = await harness.latestTimestamp();
+    await harness.setNextBlockTimestamp(created + 60);
+    await send(contracts.escrowV8.connect(disputeStudent) as ethers.Contract, 'startProgressiveSession', disputed);
+    await harness.setNextBlockTimestamp(created + 60 + 600);
+    await send(contracts.escrowV8.connect(disputeStudent) as ethers.Contract, 'updateHeartbeat', disputed);
+    await harness.setNextBlockTimestamp(created + 60 + 660);
+    await send(contracts.escrowV8.connect(disputeStudent) as ethers.Contract, 'raiseDispute', disputed, DisputeReason.ServiceQuality);
+    await harness.increaseTime(7 * 24 * 3600 + 3600);
+
+    assert.equal(Number((await contracts.escrowV8.getSessionV8(disputed)).status), SessionStatus.Disputed);
+    const mentorBefore = await contracts.token.balanceOf(mentor.address);
+    const platformBefore = await contracts.token.balanceOf(platform.address);
+
+    const record = await new DailyPaymentBotV8(config.bot, config.chains).executeDaily(true, false);
+    assert.ok(record?.success, record?.error || 'execution did not run');
+    assert.equal(record!.successfulPayments, 1);
+
+    // Completion is measured up to now, so an expired dispute always finalizes the session:
+    // the 85 left after the heartbeat go to the mentor, less the 10% platform fee
+    assert.equal(await contracts.token.balanceOf(mentor.address) - mentorBefore, USDC(76.5));
+    assert.equal(await contracts.token.balanceOf(platform.address) - platformBefore, USDC(8.5));
+
+    const session = await contracts.escrowV8.getSessionV8(disputed);
+    assert.equal(Number(session.status), SessionStatus.Completed);
+    assert.equal(session.releasedAmount, USDC(100));
+    assert.equal((await contracts.escrowV8.queryFilter(contracts.escrowV8.filters.SessionCompleted(disputed))).length, 1);
+  });
+
+  it('sends an operator\'s V8 emergency refund only once the approvers have signed it', async () => {
+    const refundStudent = student();
+    const amount = ethers.parseEther('0.3');
+    const sessionId = await createV8Session(refundStudent, ETH, amount);
+    const operator = harness.account(OWNER).address;
+    const bot = new DailyPaymentBotV8(config.bot, config.chains);
+
+    await assert.rejects(bot.emergencyRefund(harness.chainId, sessionId, 'Mentor unreachable', operator), ProposalPendingError);
+    assert.equal((await contracts.escrowV8.queryFilter(contracts.escrowV8.filters.RefundProcessed(sessionId))).length, 0);
+
+    await approve(pendingProposal(sessionId));
+    const balanceBefore = await harness.provider.getBalance(refundStudent.address);
+
+    const transactionHash = await bot.emergencyRefund(harness.chainId, sessionId, 'Mentor unreachable', operator);
+    await harness.provider.waitForTransaction(transactionHash);
+
+    assert.equal(await harness.provider.getBalance(refundStudent.address) - balanceBefore, amount);
+    await assertRefund(sessionId, refundStudent.address, amount, RefundType.Emergency);
+  });
+
+  // ============ RefundBot ============
+
+  it('expires a V7 session that was never started through RefundBot', async () => {
+    const expiredStudent = student();
+    const amount = ethers.parseEther('0.5');
+    const expired = await createV7Session(expiredStudent, amount);
+    await harness.increaseTime(16 * 60);
+
+    const balanceBefore = await harness.provider.getBalance(expiredStudent.address);
+    discord.clear();
+
+    const result = await new RefundBot(refundBotConfig(), config.chains).processSessionRefund(expired, harness.chainId);
+    assert.ok(result.success, result.error);
+
+    assert.equal(await harness.provider.getBalance(expiredStudent.address) - balanceBefore, amount);
+    assert.equal(Number((await contracts.escrowV7.getSession(expired)).status), V7SessionStatus.Expired);
+
+    const events = await contracts.escrowV7.queryFilter(contracts.escrowV7.filters.SessionExpired(expired));
+    assert.equal(events.length, 1);
+    assert.equal((events[0] as ethers.EventLog).args.refundAmount, amount);
+    assert.ok(discord.titles().includes('🔄 Refund Processed'));
+  });
+
+  // ============ SystematicRecovery ============
+
+  it('releases a V7 session paused for too long through SystematicRecovery', async () => {
+    const pausedStudent = student();
+    const amount = ethers.parseEther('0.5');
+    const paused = await createV7Session(pausedStudent, amount);
+    await send(contracts.escrowV7.connect(pausedStudent) as ethers.Contract, 'startProgressiveSession', paused);
+    await send(contracts.escrowV7.connect(pausedStudent) as ethers.Contract, 'pauseSession', paused);
+    assert.equal(Number((await contracts.escrowV7.getSession(paused)).status), V7SessionStatus.Paused);
+
+    const balanceBefore = await harness.provider.getBalance(pausedStudent.address);
+    discord.clear();
+
+    // The first run only proposes the release
+    const refundBot = new RefundBot(refundBotConfig(), config.chains);
+    await new SystematicRecovery(config.chains, refundBot).executeSystematicRecovery();
+    assert.equal((await contracts.escrowV7.queryFilter(contracts.escrowV7.filters.EmergencyRelease(paused))).length, 0);
+    assert.equal(await harness.provider.getBalance(pausedStudent.address), balanceBefore);
+
+    // The next run after the approvers signed sends it
+    await approve(pendingProposal(paused));
+    await new SystematicRecovery(config.chains, refundBot).executeSystematicRecovery();
+
+    assert.equal(await harness.provider.getBalance(pausedStudent.address) - balanceBefore, amount);
+    const session = await contracts.escrowV7.getSession(paused);
+    assert.equal(session.releasedAmount, session.totalAmount);
+
+    const events = await contracts.escrowV7.queryFilter(contracts.escrowV7.filters.EmergencyRelease(paused));
+    assert.equal(events.length, 1);
+    assert.equal((events[0] as ethers.EventLog).args.amount, amount);
+    assert.ok(discord.titles().includes('🔄 Refund Processed'));
+  });
+
+  // ============ HELPERS ============
+
+  function student(): ethers.HDNodeWallet {
+    return harness.account(nextStudent++);
+  }
+
+  async function send(contract: ethers.Contract, method: string, ...args: unknown[]): Promise<void> {
+    await (await contract[method](...args)).wait();
+  }
+
+  async function fundWithTokens(wallet: ethers.HDNodeWallet, amount: bigint): Promise<void> {
+    const token = contracts.token.connect(wallet) as ethers.Contract;
+    await send(token, 'mint', wallet.address, amount);
+    await send(token, 'approve', await contracts.escrowV8.getAddress(), amount);
+  }
+
+  async function createV8Session(wallet: ethers.HDNodeWallet, paymentToken: string, amount: bigint): Promise<string> {
+    const sessionId = ethers.id(`e2e-v8-${wallet.address}-${Date.now()}`);
+    const escrow = contracts.escrowV8.connect(wallet) as ethers.Contract;
+    await (await escrow.createProgressiveSession(sessionId, mentor.address, paymentToken, amount, 3600, {
+      value: paymentToken === ETH ? amount : 0
+    })).wait();
+    return sessionId;
+  }
+
+  async function createV7Session(wallet: ethers.HDNodeWallet, amount: bigint): Promise<string> {
+    const sessionId = ethers.id(`e2e-v7-${wallet.address}-${Date.now()}`);
+    const escrow = contracts.escrowV7.connect(wallet) as ethers.Contract;
+    const nonce = await escrow.getUserNonce(wallet.address);
+    await (await escrow.createProgressiveSession(sessionId, mentor.address, ETH, amount, 60, nonce, { value: amount })).wait();
+    return sessionId;
+  }
+
+  function pendingProposal(sessionId: string): EmergencyProposal {
+    const proposal = new EmergencyProposals().getProposals('pending').find(entry => entry.sessionId === sessionId.toLowerCase());
+    assert.ok(proposal, `no pending emergency proposal for ${sessionId}`);
+    return proposal;
+  }
+
+  // Every approver signs the proposal's EIP-712 message, as in the admin UI
+  async function approve(proposal: EmergencyProposal): Promise<void> {
+    const proposals = new EmergencyProposals();
+    const { domain, types, message } = emergencyReleaseTypedData(proposal);
+    for (const approver of approvers) {
+      await proposals.sign(proposal.id, approver.address, await approver.signTypedData(domain, types, message));
+    }
+  }
+
+  async function assertRefund(sessionId: string, recipient: string, amount: bigint, refundType: RefundType): Promise<void> {
+    const events = await contracts.escrowV8.queryFilter(contracts.escrowV8.filters.RefundProcessed(sessionId));
+    assert.equal(events.length, 1);
+
+    const { args } = events[0] as ethers.EventLog;
+    assert.equal(args.recipient, recipient);
+    assert.equal(args.amount, amount);
+    assert.equal(Number(args.refundType), refundType);
+    assert.equal(Number((await contracts.escrowV8.getSessionV8(sessionId)).status), SessionStatus.Cancelled);
+  }
+
+  // RefundBot takes the V7 bot settings; the chains come from the same configuration
+  function refundBotConfig(): BotConfig {
+    return {
+      name: 'e2e-refund-bot',
+      version: config.bot.version,
+      environment: config.bot.environment,
+      enabled: true,
+      cronSchedule: config.bot.cronSchedule,
+      executionTime: '',
+      paymentDelayHours: 0,
+      maxRetryAttempts: 3,
+      supportedChains: [harness.chainId],
+      notificationEnabled: true,
+      emergencyPauseAddress: '',
+      gasLimits: {}
+    };
+  }
+
+  // Testnet profile pointing at the local node, with every data file in the temporary directory
+  async function writeConfigFile(): Promise<string> {
+    const file = path.join(dataDir, 'bot-config.json');
+    fs.writeFileSync(file, JSON.stringify({
+      version: 1,
+      profiles: {
+        testnet: {
+          bot: {
+            name: 'e2e-payment-bot',
+            enabled: true,
+            privateKey: 'env:BOT_PRIVATE_KEY',
+            discordWebhookUrl: 'env:BOT_DISCORD_WEBHOOK_URL',
+            enableDiscordNotifications: true,
+            sessionStoragePath: path.join(dataDir, 'session-tracker-v8.json'),
+            executionHistoryPath: path.join(dataDir, 'execution-history-v8.json'),
+            dryRunPlanDir: path.join(dataDir, 'dry-run-plans'),
+            transactionStoreDir: path.join(dataDir, 'transactions'),
+            processingLedgerPath: path.join(dataDir, 'processing-ledger.json'),
+            v8Features: {
+              enhancedMonitoring: true,
+              autoRecovery: true,
+              disputeHandling: true,
+              multiVersionSupport: true,
+              precisionPayments: true
+            }
+          },
+          rpc: { timeout: 10000, retries: 1 },
+          chains: [{
+            chainId: harness.chainId,
+            name: 'Hardhat',
+            rpcUrl: harness.rpcUrl,
+            contracts: {
+              v7: await contracts.escrowV7.getAddress(),
+              v8: await contracts.escrowV8.getAddress()
+            },
+            migrationMode: 'v8-only',
+            maxFeePerGas: ethers.parseUnits('100', 'gwei').toString(),
+            maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei').toString(),
+            testnet: true
+          }]
+        }
+      }
+    }, null, 2));
+    return file;
+  }
+});
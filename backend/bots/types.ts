@@ -1,5 +1,7 @@
 // Bot-specific types for Chain Academy Payment Automation
 
+import { RpcSettings } from './RpcProvider';
+
 // Session status enum from ProgressiveEscrowV7 contract
 export enum SessionStatus {
   Created = 0,
@@ -119,6 +121,7 @@ export interface ChainConfig {
   gasPrice?: bigint;
   maxFeePerGas?: bigint;
   maxPriorityFeePerGas?: bigint;
+  rpcSettings?: RpcSettings; // timeout, retries and fallbacks (otherwise from the environment)
   isTestnet?: boolean;
   explorerUrl?: string;
   nativeCurrency?: {
@@ -0,0 +1,151 @@
+#!/usr/bin/env ts-node
+
+/**
+ * validate-config - Check the bot configuration before deploying it
+ * Validates the configuration (schema, secrets, consistency) and the spending policy it points to,
+ * then checks every chain on-chain:
+ * the RPC answers with the configured chain id, each contract address has code and the
+ * contracts report the expected version().
+ *
+ * Usage: ts-node bots/validate-config.ts [--file <path>] [--profile <name>] [--offline]
+ */
+
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { loadBotConfig, ConfigError, ResolvedBotConfig } from './config/BotConfigLoader';
+import { loadSpendingPolicyFile, SpendingPolicyRules } from './config/spendingPolicy';
+import { ChainConfigV8 } from './V8Types';
+
+dotenv.config({ path: '.env.v8' });
+
+const VERSION_ABI = ['function version() external pure returns (string memory)'];
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function checkContract(
+  provider: ethers.Provider,
+  label: string,
+  address: string,
+  expectedMajor: '7' | '8',
+  issues: string[]
+): Promise<void> {
+  const code = await provider.getCode(address);
+  if (code === '0x') {
+    issues.push(`${label}: no contract deployed at ${address}`);
+    return;
+  }
+
+  let version: string | null = null;
+  try {
+    version = await new ethers.Contract(address, VERSION_ABI, provider).version();
+  } catch {
+    // ProgressiveEscrowV7 has no version()
+  }
+
+  if (expectedMajor === '8' && !version?.startsWith('8.')) {
+    issues.push(`${label}: ${address} is not a ProgressiveEscrowV8 contract (version() ${version ? `returned ${version}` : 'is not available'})`);
+  } else if (expectedMajor === '7' && version?.startsWith('8.')) {
+    issues.push(`${label}: ${address} is a V8 contract (version ${version}) configured as the V7 contract`);
+  } else {
+    console.log(`   ✅ ${label}: ${address} (${version ? `version ${version}` : 'no version()'})`);
+  }
+}
+
+async function checkChain(chain: ChainConfigV8, walletAddress: string, issues: string[]): Promise<void> {
+  const label = `${chain.name} (${chain.chainId})`;
+  const provider = new ethers.JsonRpcProvider(chain.rpcUrl);
+
+  try {
+    const network = await provider.getNetwork();
+    if (Number(network.chainId) !== chain.chainId) {
+      issues.push(`${label}: the RPC URL serves chain ${network.chainId}`);
+      return;
+    }
+
+    if (chain.contractAddress) {
+      await checkContract(provider, `${label} V7`, chain.contractAddress, '7', issues);
+    }
+    if (chain.contractAddressV8) {
+      await checkContract(provider, `${label} V8`, chain.contractAddressV8, '8', issues);
+    }
+
+    const balance = await provider.getBalance(walletAddress);
+    console.log(`   💰 ${label}: bot wallet balance ${ethers.formatEther(balance)}`);
+    if (balance === BigInt(0)) {
+      console.warn(`   ⚠️ ${label}: the bot wallet has no gas funds`);
+    }
+  } catch (error) {
+    issues.push(`${label}: RPC check failed: ${(error as { shortMessage?: string }).shortMessage || (error as Error).message}`);
+  } finally {
+    provider.destroy();
+  }
+}
+
+function checkSpendingPolicy(config: ResolvedBotConfig): void {
+  if (!config.bot.spendingPolicyFile) return;
+
+  let policy: SpendingPolicyRules;
+  try {
+    policy = loadSpendingPolicyFile(config.bot.spendingPolicyFile);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  console.log(`   Spending policy: ${config.bot.spendingPolicyFile} (${policy.limits.length} token limits)`);
+  for (const chain of config.chains) {
+    if (!policy.limits.some(limits => limits.chainId === chain.chainId)) {
+      console.warn(`⚠️ The spending policy has no limits for ${chain.name} (${chain.chainId}): the bots cannot move funds there`);
+    }
+  }
+}
+
+async function main() {
+  let config: ResolvedBotConfig;
+  try {
+    config = await loadBotConfig({ file: argument('--file'), profile: argument('--profile') });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const walletAddress = new ethers.Wallet(config.bot.privateKey).address;
+  console.log(`✅ Configuration is valid (${config.source}, profile ${config.profile})`);
+  console.log(`   Bot wallet: ${walletAddress}`);
+  console.log(`   Chains: ${config.chains.map(chain => `${chain.name} (${chain.chainId})`).join(', ')}`);
+  config.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+  checkSpendingPolicy(config);
+
+  if (process.argv.includes('--offline')) {
+    return;
+  }
+
+  console.log('\n🔗 Checking chains...');
+  const issues: string[] = [];
+  for (const chain of config.chains) {
+    await checkChain(chain, walletAddress, issues);
+  }
+
+  if (issues.length > 0) {
+    console.error(`\n❌ ${issues.length} on-chain check(s) failed:`);
+    issues.forEach(issue => console.error(`  - ${issue}`));
+    process.exit(1);
+  }
+  console.log('\n✅ All chains and contracts check out');
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ validate-config failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,62 @@
+#!/usr/bin/env ts-node
+
+/**
+ * verify-audit-trail - Check that an audit trail is complete and unmodified
+ * Walks the chain entry by entry: sequence numbers without gaps, each prevHash equal to the hash of
+ * the entry before and each hash matching the entry's content. Works on the bots' trail and on the
+ * exports of the admin API (GET /api/admin/audit-log/export, GET /api/admin/audit-trail/export),
+ * which use the same entry format. --anchor takes a head printed by an earlier run, so entries cut
+ * off the end since then are found too. Exits with 1 when anything is wrong.
+ *
+ * Usage: ts-node bots/verify-audit-trail.ts [--file <path>] [--anchor <seq>:<hash>] [--json]
+ */
+
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { auditTrail, verifyAuditLines } from './AuditTrail';
+
+dotenv.config({ path: '.env.v8' });
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function parseAnchor(value: string | undefined): { seq: number; hash: string } | undefined {
+  if (!value) return undefined;
+
+  const match = /^(\d+):([0-9a-f]{64})$/.exec(value);
+  if (!match) {
+    console.error('❌ --anchor must be <seq>:<hash>, as printed by an earlier verification');
+    process.exit(1);
+  }
+  return { seq: Number(match[1]), hash: match[2] };
+}
+
+function main() {
+  const file = argument('--file') || auditTrail.getPath();
+  if (!fs.existsSync(file)) {
+    console.error(`❌ Audit trail not found: ${file}`);
+    process.exit(1);
+  }
+
+  const result = verifyAuditLines(fs.readFileSync(file, 'utf8').split('\n'), parseAnchor(argument('--anchor')));
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (result.valid) {
+    console.log(`✅ ${file}: ${result.entries} entries, chain intact`);
+  } else {
+    console.error(`❌ ${file}: ${result.issues.length} problem(s) in ${result.entries} entries:`);
+    result.issues.forEach(issue => console.error(`  - line ${issue.line}: [${issue.problem}] ${issue.message}`));
+  }
+  if (result.head && !process.argv.includes('--json')) {
+    console.log(`   Head: ${result.head.seq}:${result.head.hash}`);
+  }
+
+  process.exit(result.valid ? 0 : 1);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,130 @@
+/**
+ * DaemonControlServer - Local HTTP status and control interface for the operations daemon
+ * Lists the registered jobs and enables, disables or triggers them; every request needs the token.
+ * Job changes and manual runs are recorded in the audit trail.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { OperationsSupervisor, JobStateError, UnknownJobError } from './OperationsSupervisor';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from '../bots/MetricsRegistry';
+import { auditTrail } from '../bots/AuditTrail';
+
+export interface DaemonControlServerConfig {
+  port: number;
+  host: string;
+  token: string;
+}
+
+// GET /jobs/:name, POST /jobs/:name/:action
+const JOB_PATH = /^\/jobs\/([a-z0-9-]+)(?:\/(enable|disable|run))?$/;
+
+export class DaemonControlServer {
+  private supervisor: OperationsSupervisor;
+  private config: DaemonControlServerConfig;
+  private server?: http.Server;
+
+  constructor(supervisor: OperationsSupervisor, config: DaemonControlServerConfig) {
+    if (!config.token) {
+      throw new Error('Daemon control token is required');
+    }
+
+    this.supervisor = supervisor;
+    this.config = config;
+  }
+
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          console.error(`[DaemonControlServer] ${req.method} ${req.url} failed:`, error);
+          this.send(res, 500, { error: 'Internal error' });
+        });
+      });
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host, () => {
+        console.log(`[DaemonControlServer] Listening on ${this.config.host}:${this.config.port}`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      console.warn(`[DaemonControlServer] Rejected unauthenticated ${req.method} ${req.url}`);
+      return this.send(res, 401, { error: 'Unauthorized' });
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'GET /status') {
+      return this.send(res, 200, this.supervisor.getStatus());
+    }
+
+    if (route === 'GET /metrics') {
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(await metrics.render());
+      return;
+    }
+
+    const jobRoute = JOB_PATH.exec(url.pathname);
+    if (!jobRoute || req.method !== (jobRoute[2] ? 'POST' : 'GET')) {
+      return this.send(res, 404, { error: 'Not found' });
+    }
+
+    const [, name, action] = jobRoute;
+    const actor = `daemon-control:${req.socket.remoteAddress || 'unknown'}`;
+    try {
+      switch (action) {
+        case 'enable':
+        case 'disable': {
+          const job = action === 'enable' ? await this.supervisor.enable(name) : await this.supervisor.disable(name);
+          await auditTrail.append(`daemon.job.${action}`, actor, { job: name });
+          return this.send(res, 200, { job });
+        }
+
+        // Runs can take minutes; callers poll GET /jobs/:name for the result
+        case 'run': {
+          console.log(`[DaemonControlServer] Manual run of ${name} requested`);
+          const job = this.supervisor.runNow(name);
+          await auditTrail.append('daemon.job.run', actor, { job: name });
+          return this.send(res, 202, { started: true, job });
+        }
+
+        default:
+          return this.send(res, 200, { job: this.supervisor.getJobStatus(name) });
+      }
+    } catch (error) {
+      if (error instanceof UnknownJobError) {
+        return this.send(res, 404, { error: error.message });
+      }
+      if (error instanceof JobStateError) {
+        return this.send(res, 409, { error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    if (!header.startsWith('Bearer ')) return false;
+
+    const provided = Buffer.from(header.slice('Bearer '.length));
+    const expected = Buffer.from(this.config.token);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+  }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotificationRouter } from '../bots/notifications/NotificationRouter';
+import { DaemonJob, JobStateError, OperationsSupervisor, UnknownJobError } from './OperationsSupervisor';
+
+// Daily at midnight, so nothing fires on its own during a test
+const SCHEDULE = '0 0 * * *';
+
+/**
+ * Job double whose runs finish when the test says so
+ */
+function job(name: string, overrides: Partial<DaemonJob> = {}) {
+  let finish: (error?: Error) => void = () => undefined;
+  const double = {
+    name,
+    description: `${name} job`,
+    schedule: SCHEDULE,
+    enabledByDefault: true,
+    start: jest.fn().mockResolvedValue(undefined),
+    stop: jest.fn().mockResolvedValue(undefined),
+    run: jest.fn(() => new Promise<void>((resolve, reject) => {
+      finish = error => (error ? reject(error) : resolve());
+    })),
+    finish: (error?: Error) => finish(error),
+    ...overrides
+  };
+  return double;
+}
+
+// Let a finished run's callbacks settle
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('OperationsSupervisor', () => {
+  let dir: string;
+  let statePath: string;
+  let supervisor: OperationsSupervisor;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ops-supervisor-'));
+    statePath = path.join(dir, 'daemon-state.json');
+    supervisor = new OperationsSupervisor({ statePath });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await supervisor.stop(100);
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts enabled jobs only and keeps the others running when one fails to start', async () => {
+    const payments = job('payment-bot');
+    const refunds = job('refund-bot', { start: jest.fn().mockRejectedValue(new Error('missing REFUND_BOT_PRIVATE_KEY')) });
+    const balances = job('balance-monitor', { enabledByDefault: false });
+    [payments, refunds, balances].forEach(entry => supervisor.register(entry));
+
+    await supervisor.start();
+
+    expect(supervisor.getStatus().jobs.map(status => [status.name, status.enabled, status.started])).toEqual([
+      ['payment-bot', true, true],
+      ['refund-bot', true, false],
+      ['balance-monitor', false, false]
+    ]);
+    expect(balances.start).not.toHaveBeenCalled();
+  });
+
+  it('remembers jobs disabled through the control API across restarts', async () => {
+    const payments = job('payment-bot');
+    supervisor.register(payments);
+    await supervisor.start();
+
+    await supervisor.disable('payment-bot');
+    expect(payments.stop).toHaveBeenCalled();
+
+    const restarted = new OperationsSupervisor({ statePath });
+    restarted.register(job('payment-bot'), true);
+    expect(restarted.getJobStatus('payment-bot').enabled).toBe(false);
+    await expect(restarted.enable('unknown')).rejects.toThrow(UnknownJobError);
+  });
+
+  it('refuses to overlap runs and records failures', async () => {
+    const payments = job('payment-bot');
+    supervisor.register(payments);
+    await supervisor.start();
+
+    expect(supervisor.runNow('payment-bot')).toMatchObject({ running: true, runs: 1 });
+    expect(() => supervisor.runNow('payment-bot')).toThrow(JobStateError);
+
+    payments.finish(new Error('RPC unavailable'));
+    await settle();
+
+    expect(supervisor.getJobStatus('payment-bot')).toMatchObject({
+      running: false,
+      failures: 1,
+      lastRun: { success: false, error: 'RPC unavailable', trigger: 'manual' }
+    });
+  });
+
+  it('notifies when a run fails', async () => {
+    const notifications = new NotificationRouter([]);
+    jest.spyOn(notifications, 'isEnabled').mockReturnValue(true);
+    const notify = jest.spyOn(notifications, 'notify').mockResolvedValue(true);
+    const notified = new OperationsSupervisor({ statePath, notifications });
+    const refunds = job('refund-bot');
+    notified.register(refunds);
+    await notified.start();
+
+    notified.runNow('refund-bot');
+    refunds.finish(new Error('insufficient funds'));
+    await settle();
+    await notified.stop(100);
+
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ title: '⚠️ Job refund-bot failed', severity: 'error' }));
+  });
+
+  it('waits for a running job before stopping it on shutdown', async () => {
+    const payments = job('payment-bot');
+    supervisor.register(payments);
+    await supervisor.start();
+    supervisor.runNow('payment-bot');
+
+    const stopped = supervisor.stop(5000);
+    await settle();
+    expect(payments.stop).not.toHaveBeenCalled();
+
+    payments.finish();
+    await stopped;
+
+    expect(payments.stop).toHaveBeenCalled();
+    expect(supervisor.getJobStatus('payment-bot').lastRun).toMatchObject({ success: true });
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * OperationsSupervisor - Runs the bots and monitors as scheduled jobs in one process
+ * Each job is registered once with its cron schedule; the supervisor owns scheduling,
+ * prevents overlapping runs, persists which jobs are enabled and stops everything
+ * gracefully on shutdown.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import cron from 'node-cron';
+import { NotificationRouter } from '../bots/notifications/NotificationRouter';
+import { metrics } from '../bots/MetricsRegistry';
+
+export interface DaemonJob {
+  name: string;
+  description: string;
+  schedule: string; // cron expression (UTC)
+  enabledByDefault: boolean;
+  /**
+   * One-time setup before the first run (back-fills, control servers)
+   */
+  start?(): Promise<void>;
+  /**
+   * One scheduled execution; throws if the run failed
+   */
+  run(): Promise<void>;
+  /**
+   * Release timers, servers and connections on shutdown
+   */
+  stop?(): Promise<void>;
+}
+
+export interface JobRun {
+  startedAt: number;
+  finishedAt: number | null;
+  success: boolean | null; // null while running
+  error: string | null;
+  trigger: 'schedule' | 'manual';
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  enabled: boolean;
+  started: boolean;
+  running: boolean;
+  runs: number;
+  failures: number;
+  lastRun: JobRun | null;
+}
+
+export interface SupervisorStatus {
+  startedAt: number;
+  uptime: number; // seconds
+  stopping: boolean;
+  jobs: JobStatus[];
+}
+
+interface JobEntry {
+  job: DaemonJob;
+  enabled: boolean;
+  started: boolean;
+  task: cron.ScheduledTask | null;
+  current: Promise<void> | null;
+  runs: number;
+  failures: number;
+  lastRun: JobRun | null;
+}
+
+export class UnknownJobError extends Error {
+  constructor(name: string) {
+    super(`Unknown job ${name}`);
+    this.name = 'UnknownJobError';
+  }
+}
+
+// The job cannot do what was asked in its current state (disabled, already running)
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+const DEFAULT_STATE_PATH = './data/daemon-state.json';
+const DEFAULT_SHUTDOWN_TIMEOUT = 120000;
+
+const jobRunsTotal = metrics.counter('chain_academy_daemon_job_runs_total', 'Supervisor job runs by job and result');
+const jobDuration = metrics.histogram('chain_academy_daemon_job_duration_seconds', 'Supervisor job run duration by job', [1, 5, 15, 30, 60, 120, 300, 600, 1800]);
+const jobEnabled = metrics.gauge('chain_academy_daemon_job_enabled', 'Whether a supervisor job is enabled');
+const jobRunning = metrics.gauge('chain_academy_daemon_job_running', 'Whether a supervisor job is running');
+
+export class OperationsSupervisor {
+  private jobs: Map<string, JobEntry> = new Map();
+  private statePath: string;
+  private notifications?: NotificationRouter;
+  private readonly startedAt: number = Date.now();
+  private stopping: boolean = false;
+
+  constructor(options: { statePath?: string; notifications?: NotificationRouter } = {}) {
+    this.statePath = options.statePath || process.env.DAEMON_STATE_PATH || DEFAULT_STATE_PATH;
+    this.notifications = options.notifications;
+
+    metrics.addCollector(() => {
+      for (const entry of this.jobs.values()) {
+        jobEnabled.set({ job: entry.job.name }, entry.enabled ? 1 : 0);
+        jobRunning.set({ job: entry.job.name }, entry.current ? 1 : 0);
+      }
+    });
+  }
+
+  // ============ REGISTRY ============
+
+  /**
+   * Register a job. enabledOverride (from configuration) wins over the job's default;
+   * a state saved through enable/disable wins over both.
+   */
+  public register(job: DaemonJob, enabledOverride?: boolean): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`Job ${job.name} has an invalid cron schedule: ${job.schedule}`);
+    }
+
+    const saved = this.loadState()[job.name];
+    this.jobs.set(job.name, {
+      job,
+      enabled: saved?.enabled ?? enabledOverride ?? job.enabledByDefault,
+      started: false,
+      task: null,
+      current: null,
+      runs: 0,
+      failures: 0,
+      lastRun: null
+    });
+  }
+
+  public getJobNames(): string[] {
+    return Array.from(this.jobs.keys());
+  }
+
+  // ============ LIFECYCLE ============
+
+  /**
+   * Start and schedule every enabled job. A job whose start() fails is left
+   * disabled for this process and reported; the others keep running.
+   */
+  public async start(): Promise<void> {
+    for (const entry of this.jobs.values()) {
+      if (entry.enabled) {
+        await this.startJob(entry);
+      } else {
+        console.log(`[OperationsSupervisor] ${entry.job.name} is disabled`);
+      }
+    }
+  }
+
+  /**
+   * Stop scheduling, wait for running jobs (up to the timeout) and stop every job
+   */
+  public async stop(timeout: number = parseInt(process.env.DAEMON_SHUTDOWN_TIMEOUT || `${DEFAULT_SHUTDOWN_TIMEOUT}`)): Promise<void> {
+    if (this.stopping) return;
+    this.stopping = true;
+
+    for (const entry of this.jobs.values()) {
+      entry.task?.stop();
+      entry.task = null;
+    }
+
+    const running = Array.from(this.jobs.values()).filter(entry => entry.current);
+    if (running.length > 0) {
+      console.log(`[OperationsSupervisor] Waiting for ${running.map(entry => entry.job.name).join(', ')} to finish...`);
+      const finished = await Promise.race([
+        Promise.all(running.map(entry => entry.current)).then(() => true),
+        new Promise<boolean>(resolve => setTimeout(() => resolve(false), timeout).unref())
+      ]);
+      if (!finished) {
+        console.warn(`[OperationsSupervisor] Jobs still running after ${timeout}ms, stopping anyway`);
+      }
+    }
+
+    for (const entry of this.jobs.values()) {
+      await this.stopJob(entry);
+    }
+    console.log('[OperationsSupervisor] All jobs stopped');
+  }
+
+  // ============ CONTROL ============
+
+  public async enable(name: string): Promise<JobStatus> {
+    const entry = this.getEntry(name);
+    if (!entry.enabled) {
+      entry.enabled = true;
+      this.saveState();
+      if (!this.stopping) {
+        await this.startJob(entry);
+      }
+      console.log(`[OperationsSupervisor] ${name} enabled`);
+    }
+    return this.toStatus(entry);
+  }
+
+  /**
+   * Disable a job: no new runs are scheduled; a run in progress finishes
+   */
+  public async disable(name: string): Promise<JobStatus> {
+    const entry = this.getEntry(name);
+    if (entry.enabled) {
+      entry.enabled = false;
+      this.saveState();
+      entry.task?.stop();
+      entry.task = null;
+      if (entry.current) {
+        await entry.current;
+      }
+      await this.stopJob(entry);
+      console.log(`[OperationsSupervisor] ${name} disabled`);
+    }
+    return this.toStatus(entry);
+  }
+
+  /**
+   * Stop and start an enabled job again, e.g. to pick up a new key; a run in progress finishes first
+   */
+  public async restart(name: string): Promise<JobStatus> {
+    const entry = this.getEntry(name);
+    if (!entry.enabled || this.stopping) {
+      return this.toStatus(entry);
+    }
+
+    entry.task?.stop();
+    entry.task = null;
+    if (entry.current) {
+      await entry.current;
+    }
+    await this.stopJob(entry);
+    await this.startJob(entry);
+    if (!entry.started) {
+      throw new JobStateError(`Job ${name} failed to restart`);
+    }
+
+    console.log(`[OperationsSupervisor] ${name} restarted`);
+    return this.toStatus(entry);
+  }
+
+  /**
+   * Start a run now, outside the schedule. Resolves once it has started.
+   */
+  public runNow(name: string): JobStatus {
+    const entry = this.getEntry(name);
+    if (!entry.enabled || !entry.started) {
+      throw new JobStateError(`Job ${name} is not enabled`);
+    }
+    if (entry.current) {
+      throw new JobStateError(`Job ${name} is already running`);
+    }
+
+    this.execute(entry, 'manual');
+    return this.toStatus(entry);
+  }
+
+  public getStatus(): SupervisorStatus {
+    return {
+      startedAt: this.startedAt,
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+      stopping: this.stopping,
+      jobs: Array.from(this.jobs.values()).map(entry => this.toStatus(entry))
+    };
+  }
+
+  public getJobStatus(name: string): JobStatus {
+    return this.toStatus(this.getEntry(name));
+  }
+
+  // ============ EXECUTION ============
+
+  private async startJob(entry: JobEntry): Promise<void> {
+    const { job } = entry;
+
+    if (!entry.started) {
+      try {
+        await job.start?.();
+        entry.started = true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[OperationsSupervisor] ${job.name} failed to start:`, message);
+        await this.notifyFailure(job.name, `failed to start: ${message}`);
+        return;
+      }
+    }
+
+    entry.task = cron.schedule(job.schedule, () => {
+      if (entry.current) {
+        console.log(`[OperationsSupervisor] ${job.name} is still running, skipping scheduled run`);
+        return;
+      }
+      this.execute(entry, 'schedule');
+    }, { timezone: 'UTC' });
+
+    console.log(`[OperationsSupervisor] ${job.name} scheduled: ${job.schedule} (UTC)`);
+  }
+
+  private async stopJob(entry: JobEntry): Promise<void> {
+    if (!entry.started) return;
+
+    try {
+      await entry.job.stop?.();
+    } catch (error) {
+      console.error(`[OperationsSupervisor] ${entry.job.name} failed to stop cleanly:`, error);
+    }
+    entry.started = false;
+  }
+
+  private execute(entry: JobEntry, trigger: JobRun['trigger']): void {
+    const run: JobRun = { startedAt: Date.now(), finishedAt: null, success: null, error: null, trigger };
+    entry.lastRun = run;
+    entry.runs++;
+
+    entry.current = entry.job.run()
+      .then(() => {
+        run.success = true;
+      })
+      .catch(async (error) => {
+        run.success = false;
+        run.error = error instanceof Error ? error.message : String(error);
+        entry.failures++;
+        console.error(`[OperationsSupervisor] ${entry.job.name} run failed:`, run.error);
+        await this.notifyFailure(entry.job.name, run.error);
+      })
+      .finally(() => {
+        run.finishedAt = Date.now();
+        entry.current = null;
+        jobRunsTotal.inc({ job: entry.job.name, result: run.success ? 'success' : 'failure' });
+        jobDuration.observe({ job: entry.job.name }, (run.finishedAt - run.startedAt) / 1000);
+      });
+  }
+
+  private async notifyFailure(name: string, error: string): Promise<void> {
+    if (!this.notifications?.isEnabled()) return;
+
+    await this.notifications.notify({
+      title: `⚠️ Job ${name} failed`,
+      message: error,
+      severity: 'error',
+      source: 'Chain Academy Operations Daemon',
+      dedupKey: `daemon:${name}:${error}`
+    });
+  }
+
+  // ============ STATE ============
+
+  private getEntry(name: string): JobEntry {
+    const entry = this.jobs.get(name);
+    if (!entry) {
+      throw new UnknownJobError(name);
+    }
+    return entry;
+  }
+
+  private toStatus(entry: JobEntry): JobStatus {
+    return {
+      name: entry.job.name,
+      description: entry.job.description,
+      schedule: entry.job.schedule,
+      enabled: entry.enabled,
+      started: entry.started,
+      running: entry.current !== null,
+      runs: entry.runs,
+      failures: entry.failures,
+      lastRun: entry.lastRun ? { ...entry.lastRun } : null
+    };
+  }
+
+  private loadState(): Record<string, { enabled: boolean }> {
+    try {
+      if (fs.existsSync(this.statePath)) {
+        return JSON.parse(fs.readFileSync(this.statePath, 'utf8')).jobs || {};
+      }
+    } catch (error) {
+      console.error('[OperationsSupervisor] Error loading daemon state, using configured defaults:', error);
+    }
+    return {};
+  }
+
+  private saveState(): void {
+    try {
+      const dir = path.dirname(this.statePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const jobs: Record<string, { enabled: boolean }> = {};
+      for (const entry of this.jobs.values()) {
+        jobs[entry.job.name] = { enabled: entry.enabled };
+      }
+
+      fs.writeFileSync(this.statePath, JSON.stringify({ version: '8.0.0', lastSaved: Date.now(), jobs }, null, 2));
+    } catch (error) {
+      console.error('[OperationsSupervisor] Error saving daemon state:', error);
+    }
+  }
+}
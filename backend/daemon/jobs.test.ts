@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { KeyRotationSystem, KeySwitchHandler } from '../security/KeyRotationSystem';
+import { BotConfigV8 } from '../bots/V8Types';
+import { DiscordLogMonitor } from '../monitoring/DiscordLogMonitor';
+import { DaemonContext, createKeyRotationJob } from './jobs';
+
+describe('key rotation job', () => {
+  const botKey = ethers.Wallet.createRandom().privateKey;
+  const dedicatedOwnerKey = ethers.Wallet.createRandom().privateKey;
+  const newWallet = ethers.Wallet.createRandom();
+
+  let context: DaemonContext;
+  let switchKey: KeySwitchHandler;
+
+  beforeEach(async () => {
+    jest.spyOn(KeyRotationSystem.prototype as any, 'loadRotationHistory').mockImplementation(() => undefined);
+    jest.spyOn(KeyRotationSystem.prototype, 'onKeySwitch').mockImplementation(handler => {
+      switchKey = handler;
+    });
+
+    context = {
+      config: { name: 'bot', privateKey: botKey, chains: [] } as unknown as BotConfigV8,
+      chainConfigs: [],
+      // The refund key is the bot key written without 0x, as in .env files
+      keys: { refund: botKey.substring(2), owner: dedicatedOwnerKey },
+      walletAddress: new ethers.Wallet(botKey).address,
+      logMonitor: {} as DiscordLogMonitor,
+      restartJobs: jest.fn().mockResolvedValue(undefined)
+    };
+    await createKeyRotationJob(context).start!();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves every job signing with the rotated key to the new key and restarts them', async () => {
+    await switchKey({ address: newWallet.address, privateKey: newWallet.privateKey });
+
+    expect(context.config.privateKey).toBe(newWallet.privateKey);
+    expect(context.keys.refund).toBe(newWallet.privateKey);
+    expect(context.walletAddress).toBe(newWallet.address);
+    expect(context.restartJobs).toHaveBeenCalledWith(['payment', 'refund', 'emergency-release', 'balance']);
+  });
+
+  it('leaves a dedicated key that was not rotated', async () => {
+    await switchKey({ address: newWallet.address, privateKey: newWallet.privateKey });
+
+    expect(context.keys.owner).toBe(dedicatedOwnerKey);
+  });
+});
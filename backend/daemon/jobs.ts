@@ -0,0 +1,337 @@
+/**
+ * Operations daemon jobs - the bots and monitors that used to run as separate PM2 processes
+ * All jobs share the V8 configuration, the bot wallet and the per-chain RPC providers
+ * (getRpcProvider caches one failover provider per chain for the whole process).
+ */
+
+import { ethers } from 'ethers';
+import { DaemonJob } from './OperationsSupervisor';
+import { DailyPaymentBotV8 } from '../bots/DailyPaymentBotV8';
+import { BotControlServer } from '../bots/BotControlServer';
+import { RefundBot } from '../bots/RefundBot';
+import { EmergencyRefundBot } from '../bots/EmergencyRefundBot';
+import { TrappedFundsMonitor } from '../bots/TrappedFundsMonitor';
+import { BotConfigV8, ChainConfigV8 } from '../bots/V8Types';
+import { BotConfig, ChainConfig } from '../bots/types';
+import { WalletBalanceMonitor, NetworkConfig } from '../monitoring/WalletBalanceMonitor';
+import { DiscordLogMonitor } from '../monitoring/DiscordLogMonitor';
+import { KeyRotationSystem } from '../security/KeyRotationSystem';
+import { resolveRotatedKey } from '../bots/config/rotatedKey';
+
+export interface DaemonContext {
+  config: BotConfigV8; // config.privateKey is the bot key the payment bot signs with
+  chainConfigs: ChainConfigV8[];
+  keys: DaemonKeys;
+  walletAddress: string;
+  logMonitor: DiscordLogMonitor;
+  restartJobs?: (names: string[]) => Promise<void>; // stop and start jobs again, set once the supervisor exists
+}
+
+// Keys the other signing jobs use; each is the bot key unless a dedicated key is set
+export interface DaemonKeys {
+  refund: string; // REFUND_BOT_PRIVATE_KEY, or BOT_PRIVATE_KEY
+  owner: string; // BOT_OWNER_PRIVATE_KEY, sends the approved emergency releases
+}
+
+/**
+ * The jobs' keys, with any key a rotation retired replaced by the current one
+ */
+export async function resolveDaemonKeys(config: BotConfigV8): Promise<DaemonKeys> {
+  return {
+    refund: await resolveRotatedKey(process.env.REFUND_BOT_PRIVATE_KEY || process.env.BOT_PRIVATE_KEY || config.privateKey),
+    owner: await resolveRotatedKey(process.env.BOT_OWNER_PRIVATE_KEY || config.privateKey)
+  };
+}
+
+// Low balance thresholds per native token (alert, critical)
+const BALANCE_THRESHOLDS: Record<string, { alert: string; critical: string }> = {
+  ETH: { alert: '0.01', critical: '0.005' },
+  MATIC: { alert: '20.0', critical: '10.0' }
+};
+
+// DAEMON_<JOB>_SCHEDULE overrides a job's cron schedule (e.g. DAEMON_TRAPPED_FUNDS_SCHEDULE)
+function jobSchedule(name: string, fallback: string): string {
+  return process.env[`DAEMON_${name.toUpperCase().replace(/-/g, '_')}_SCHEDULE`] || fallback;
+}
+
+function nativeToken(chainId: number): string {
+  return chainId === 137 ? 'MATIC' : 'ETH';
+}
+
+// ============ PAYMENT BOT ============
+
+export function createPaymentJob(context: DaemonContext): DaemonJob {
+  let bot: DailyPaymentBotV8 | undefined;
+  let controlServer: BotControlServer | undefined;
+
+  return {
+    name: 'payment',
+    description: 'Release due mentor payments (DailyPaymentBotV8)',
+    schedule: jobSchedule('payment', context.config.cronSchedule),
+    enabledByDefault: true,
+
+    async start() {
+      bot = new DailyPaymentBotV8(context.config, context.chainConfigs);
+
+      const health = bot.getHealthInfo();
+      if (!health.healthy) {
+        await context.logMonitor.logSecurity('warning', 'Health check found issues', {
+          issues: health.issues,
+          details: health.details
+        });
+      }
+
+      await bot.backfillSessions();
+
+      // Control interface for the backend admin API (/api/bot)
+      if (process.env.BOT_CONTROL_PORT) {
+        controlServer = new BotControlServer(bot, {
+          port: parseInt(process.env.BOT_CONTROL_PORT),
+          host: process.env.BOT_CONTROL_HOST || '127.0.0.1',
+          token: process.env.BOT_CONTROL_TOKEN || ''
+        });
+        await controlServer.start();
+      }
+    },
+
+    async run() {
+      // Pausing through the control API still applies to scheduled runs
+      if (!bot || bot.isSchedulerPaused()) {
+        console.log('[OperationsDaemon] Payment bot is paused, skipping run');
+        return;
+      }
+
+      const record = await bot.executeDaily();
+      if (record && !record.success) {
+        throw new Error(record.error || 'Payment run failed');
+      }
+    },
+
+    async stop() {
+      await controlServer?.stop();
+      controlServer = undefined;
+      bot = undefined;
+    }
+  };
+}
+
+// ============ REFUND BOT ============
+
+export function createRefundJob(context: DaemonContext): DaemonJob {
+  const schedule = jobSchedule('refund', '*/30 * * * *');
+  let bot: RefundBot | undefined;
+
+  return {
+    name: 'refund',
+    description: 'Refund no-show and trapped V7 sessions (RefundBot)',
+    schedule,
+    enabledByDefault: true,
+
+    async start() {
+      const chains: ChainConfig[] = context.chainConfigs
+        .filter(chain => chain.contractAddress)
+        .map(chain => ({
+          chainId: chain.chainId,
+          name: chain.name,
+          rpcUrl: chain.rpcUrl,
+          rpcSettings: chain.rpcSettings,
+          contractAddress: chain.contractAddress,
+          maxFeePerGas: chain.maxFeePerGas,
+          maxPriorityFeePerGas: chain.maxPriorityFeePerGas
+        }));
+
+      const config: BotConfig = {
+        name: `${context.config.name}-refunds`,
+        version: context.config.version,
+        environment: context.config.environment,
+        enabled: true,
+        cronSchedule: schedule,
+        executionTime: '',
+        paymentDelayHours: 0,
+        maxRetryAttempts: 3,
+        supportedChains: chains.map(chain => chain.chainId),
+        notificationEnabled: context.config.enableDiscordNotifications,
+        emergencyPauseAddress: '',
+        gasLimits: {}
+      };
+
+      bot = new RefundBot(config, chains, context.keys.refund);
+    },
+
+    async run() {
+      await bot?.executeRefundCheck();
+    },
+
+    async stop() {
+      bot = undefined;
+    }
+  };
+}
+
+// ============ TRAPPED FUNDS MONITOR ============
+
+export function createTrappedFundsJob(context: DaemonContext): DaemonJob {
+  let monitor: TrappedFundsMonitor | undefined;
+
+  return {
+    name: 'trapped-funds',
+    description: 'Scan V7 escrows for trapped funds and alert (TrappedFundsMonitor)',
+    schedule: jobSchedule('trapped-funds', '*/15 * * * *'),
+    enabledByDefault: true,
+
+    async start() {
+      monitor = new TrappedFundsMonitor(context.chainConfigs.filter(chain => chain.contractAddress));
+    },
+
+    async run() {
+      await monitor?.scanForTrappedFunds();
+    },
+
+    async stop() {
+      monitor = undefined;
+    }
+  };
+}
+
+// ============ EMERGENCY RELEASES ============
+
+export function createEmergencyReleaseJob(context: DaemonContext): DaemonJob {
+  let bot: EmergencyRefundBot | undefined;
+
+  return {
+    name: 'emergency-release',
+    description: 'Send the emergency refunds the approvers have signed for (EmergencyRefundBot)',
+    schedule: jobSchedule('emergency-release', '*/5 * * * *'),
+    enabledByDefault: true,
+
+    async start() {
+      // Proposals are only opened by the bots; this job never sends a release nobody signed
+      bot = new EmergencyRefundBot(
+        context.chainConfigs.filter(chain => chain.contractAddress),
+        context.keys.owner
+      );
+    },
+
+    async run() {
+      await bot?.executeApprovedProposals();
+    },
+
+    async stop() {
+      bot = undefined;
+    }
+  };
+}
+
+// ============ WALLET BALANCE MONITOR ============
+
+export function createBalanceJob(context: DaemonContext): DaemonJob {
+  const networks: NetworkConfig[] = context.chainConfigs.map(chain => {
+    const token = nativeToken(chain.chainId);
+    return {
+      name: chain.name,
+      chainId: chain.chainId,
+      rpcUrl: chain.rpcUrl,
+      nativeToken: token,
+      alertThreshold: BALANCE_THRESHOLDS[token].alert,
+      criticalThreshold: BALANCE_THRESHOLDS[token].critical
+    };
+  });
+  let monitor: WalletBalanceMonitor | undefined;
+
+  return {
+    name: 'balance',
+    description: `Check the bot wallet balance on ${networks.length} networks (WalletBalanceMonitor)`,
+    schedule: jobSchedule('balance', '*/30 * * * *'),
+    enabledByDefault: true,
+
+    async start() {
+      monitor = new WalletBalanceMonitor(context.walletAddress, networks, context.logMonitor);
+    },
+
+    async run() {
+      if (!monitor) return;
+
+      const balances = await monitor.checkAllBalances();
+      if (balances.length < networks.length) {
+        throw new Error(`Balance check failed on ${networks.length - balances.length} of ${networks.length} networks`);
+      }
+    }
+  };
+}
+
+// ============ KEY ROTATION ============
+
+// Jobs that sign with (or watch) the bot wallet, restarted on a key switch
+const BOT_WALLET_JOBS = ['payment', 'refund', 'emergency-release', 'balance'];
+
+const sameKey = (a: string, b: string) => !!a && !!b && new ethers.Wallet(a).address === new ethers.Wallet(b).address;
+
+export function createKeyRotationJob(context: DaemonContext): DaemonJob {
+  let rotation: KeyRotationSystem | undefined;
+
+  return {
+    name: 'key-rotation',
+    description: 'Rotate the bot key once the rotation interval has passed (KeyRotationSystem)',
+    schedule: jobSchedule('key-rotation', '0 * * * *'),
+    enabledByDefault: false,
+
+    async start() {
+      rotation = new KeyRotationSystem({
+        rotationInterval: parseInt(process.env.KEY_ROTATION_INTERVAL_HOURS || '720'),
+        minimumBalance: process.env.KEY_ROTATION_MINIMUM_BALANCE || '0.01',
+        networks: context.chainConfigs.map(chain => chain.name),
+        backupWalletCount: parseInt(process.env.KEY_ROTATION_BACKUP_WALLETS || '2'),
+        enableEmergencyRotation: process.env.KEY_ROTATION_ENABLE_EMERGENCY === 'true',
+        discordWebhook: context.config.discordWebhookUrl,
+        autoSchedule: false,
+        privateKey: context.config.privateKey,
+        chains: context.chainConfigs.map(chain => ({
+          name: chain.name,
+          chainId: chain.chainId,
+          rpcUrl: chain.rpcUrl,
+          contracts: [chain.contractAddress, chain.contractAddressV8].filter(Boolean)
+        })),
+        gasReserve: process.env.KEY_ROTATION_GAS_RESERVE,
+        keyStorePath: process.env.KEY_ROTATION_KEY_STORE_PATH
+      });
+
+      // The bots read their key from the context when their job starts; every job signing
+      // with the rotated key moves with it (a dedicated key that was not rotated stays)
+      rotation.onKeySwitch(async wallet => {
+        const retired = context.config.privateKey;
+        for (const role of Object.keys(context.keys) as (keyof DaemonKeys)[]) {
+          if (sameKey(context.keys[role], retired)) {
+            context.keys[role] = wallet.privateKey;
+          }
+        }
+        context.config.privateKey = wallet.privateKey;
+        context.walletAddress = wallet.address;
+        await context.restartJobs?.(BOT_WALLET_JOBS);
+      });
+    },
+
+    async run() {
+      if (rotation?.isRotationDue()) {
+        await rotation.performRotation('scheduled');
+      }
+    },
+
+    async stop() {
+      rotation = undefined;
+    }
+  };
+}
+
+/**
+ * Every job the daemon knows about, in start order
+ */
+export function createDaemonJobs(context: DaemonContext): DaemonJob[] {
+  return [
+    createPaymentJob(context),
+    createRefundJob(context),
+    createTrappedFundsJob(context),
+    createEmergencyReleaseJob(context),
+    createBalanceJob(context),
+    createKeyRotationJob(context)
+  ];
+}
@@ -0,0 +1,51 @@
+/**
+ * PM2 Ecosystem Configuration for the Chain Academy Operations Daemon
+ * Runs the payment bot, refund bot and monitors as jobs of one process;
+ * use it instead of the separate bot and monitor processes
+ */
+
+module.exports = {
+  apps: [
+    {
+      name: 'chain-academy-ops-daemon',
+      script: 'ts-node',
+      args: 'start-ops-daemon.ts',
+      interpreter: 'node',
+      instances: 1,
+      exec_mode: 'fork',
+
+      env: {
+        NODE_ENV: 'production',
+        TS_NODE_PROJECT: './tsconfig.json',
+        TS_NODE_TRANSPILE_ONLY: 'true'
+      },
+
+      // Auto-restart configuration
+      autorestart: true,
+      max_restarts: 5,
+      min_uptime: '30s',
+      max_memory_restart: '1G',
+
+      // Logging configuration
+      log_file: './logs/ops-daemon-combined.log',
+      out_file: './logs/ops-daemon-out.log',
+      error_file: './logs/ops-daemon-error.log',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss',
+      merge_logs: true,
+
+      node_args: [
+        '--max-old-space-size=2048'
+      ],
+
+      restart_delay: 5000,
+      watch: false,
+
+      // Shutdown waits for running jobs (DAEMON_SHUTDOWN_TIMEOUT, default 120s) before exiting
+      kill_timeout: 130000,
+      listen_timeout: 8000,
+
+      // Environment variables (loaded from .env.v8)
+      env_file: './.env.v8'
+    }
+  ]
+};
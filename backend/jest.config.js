@@ -0,0 +1,21 @@
+/**
+ * Unit tests sit next to the code they cover (*.test.ts). The API server and the bot
+ * processes are separate TypeScript projects, so each gets its own ts-jest settings.
+ * The payment bot end-to-end suite runs on its own: npm run test:e2e
+ */
+const project = (displayName, roots, tsconfig) => ({
+  displayName,
+  testEnvironment: 'node',
+  roots,
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig }],
+  },
+});
+
+module.exports = {
+  projects: [
+    project('api', ['<rootDir>/src'], '<rootDir>/tsconfig.json'),
+    project('bots', ['<rootDir>/bots', '<rootDir>/security', '<rootDir>/daemon'], '<rootDir>/bots/tsconfig.json'),
+  ],
+};
@@ -7,6 +7,13 @@
 
 import { ethers } from 'ethers';
 import { DiscordLogMonitor } from './DiscordLogMonitor';
+import { metrics } from '../bots/MetricsRegistry';
+import { getRpcProvider } from '../bots/RpcProvider';
+
+// Prometheus metrics (served on BALANCE_MONITOR_METRICS_PORT)
+const walletBalanceGauge = metrics.gauge('chain_academy_wallet_balance', 'Native token balance of the bot wallet, by network');
+const walletThresholdGauge = metrics.gauge('chain_academy_wallet_balance_threshold', 'Configured alert and critical balance thresholds, by network');
+const balanceCheckTimestamp = metrics.gauge('chain_academy_wallet_balance_last_check_timestamp_seconds', 'When the balance was last read, by network');
 
 export interface NetworkConfig {
   name: string;
@@ -76,7 +83,7 @@ export class WalletBalanceMonitor {
   /**
    * Verificar saldos em todas as redes
    */
-  private async checkAllBalances(): Promise<void> {
+  async checkAllBalances(): Promise<BalanceInfo[]> {
     console.log(`💰 Checking wallet balances: ${new Date().toLocaleTimeString()}`);
 
     const balanceResults: BalanceInfo[] = [];
@@ -106,13 +113,15 @@ export class WalletBalanceMonitor {
     if (process.env.ENABLE_BALANCE_REPORTS === 'true') {
       await this.sendBalanceReport(balanceResults);
     }
+
+    return balanceResults;
   }
 
   /**
    * Obter saldo de uma rede específica
    */
   private async getNetworkBalance(network: NetworkConfig): Promise<BalanceInfo> {
-    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const provider = getRpcProvider(network.chainId, network.rpcUrl);
     
     try {
       const balanceWei = await provider.getBalance(this.walletAddress);
@@ -122,6 +131,12 @@ export class WalletBalanceMonitor {
       const criticalThreshold = parseFloat(network.criticalThreshold);
       const currentBalance = parseFloat(balance);
 
+      const labels = { network: network.name, chain_id: network.chainId, token: network.nativeToken, wallet: this.walletAddress };
+      walletBalanceGauge.set(labels, currentBalance);
+      walletThresholdGauge.set({ ...labels, level: 'alert' }, alertThreshold);
+      walletThresholdGauge.set({ ...labels, level: 'critical' }, criticalThreshold);
+      balanceCheckTimestamp.set(labels, Date.now() / 1000);
+
       return {
         network: network.name,
         balance,
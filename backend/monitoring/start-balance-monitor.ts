@@ -9,6 +9,7 @@
 
 import { WalletBalanceMonitor, NetworkConfig } from './WalletBalanceMonitor';
 import { DiscordLogMonitor } from './DiscordLogMonitor';
+import { startMetricsServer } from '../bots/MetricsRegistry';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
@@ -109,6 +110,15 @@ class BalanceMonitorService {
       // Iniciar monitoramento contínuo
       this.balanceMonitor.start();
 
+      // Expor saldos para o Prometheus
+      if (process.env.BALANCE_MONITOR_METRICS_PORT) {
+        await startMetricsServer({
+          port: parseInt(process.env.BALANCE_MONITOR_METRICS_PORT),
+          host: process.env.METRICS_HOST,
+          token: process.env.METRICS_TOKEN
+        });
+      }
+
       // Notificar que o serviço está rodando
       await this.logger.logBotStatus('running', 'Balance monitoring service is now active', {
         initialBalances: initialBalances.map(b => ({
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { auditTrail } from '../bots/AuditTrail';
+import { readRotatedKey, resolveRotatedKey, rotatedKeyPath } from '../bots/config/rotatedKey';
+import { KeyRotationSystem } from './KeyRotationSystem';
+
+const ESCROW = '0x00000000000000000000000000000000000000e5';
+
+// The on-chain steps, replaced so the rotation's order and bookkeeping can be followed without a node
+type Steps = Record<'transferBalance' | 'verifyOnChain' | 'transferRoles', jest.SpyInstance>;
+
+function stubSteps(verifyOnChain: () => Promise<void>): Steps {
+  const prototype = KeyRotationSystem.prototype as any;
+  return {
+    transferBalance: jest.spyOn(prototype, 'transferBalance').mockResolvedValue('1.0'),
+    verifyOnChain: jest.spyOn(prototype, 'verifyOnChain').mockImplementation(verifyOnChain),
+    transferRoles: jest.spyOn(prototype, 'transferRoles').mockResolvedValue([ESCROW])
+  };
+}
+
+describe('KeyRotationSystem', () => {
+  const oldWallet = ethers.Wallet.createRandom();
+  let keyStorePath: string;
+  let rotation: KeyRotationSystem;
+
+  beforeEach(() => {
+    keyStorePath = fs.mkdtempSync(path.join(os.tmpdir(), 'key-rotation-'));
+    process.env.WALLET_MASTER_PASSWORD = 'correct horse battery staple';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(auditTrail, 'append').mockResolvedValue(undefined as never);
+    jest.spyOn(KeyRotationSystem.prototype as any, 'loadRotationHistory').mockImplementation(() => undefined);
+    jest.spyOn(KeyRotationSystem.prototype as any, 'saveRotationHistory').mockImplementation(() => undefined);
+
+    rotation = new KeyRotationSystem({
+      rotationInterval: 720,
+      minimumBalance: '0.01',
+      networks: ['hardhat'],
+      backupWalletCount: 0,
+      enableEmergencyRotation: false,
+      autoSchedule: false,
+      privateKey: oldWallet.privateKey,
+      chains: [{ name: 'hardhat', chainId: 31337, rpcUrl: 'http://127.0.0.1:8545', contracts: [ESCROW] }],
+      keyStorePath
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.WALLET_MASTER_PASSWORD;
+    fs.rmSync(keyStorePath, { recursive: true, force: true });
+  });
+
+  it('hands nothing over to a key that cannot get a transaction mined', async () => {
+    const steps = stubSteps(async () => {
+      throw new Error('insufficient funds for gas');
+    });
+    const switchKey = jest.fn();
+    rotation.onKeySwitch(switchKey);
+
+    await expect(rotation.performRotation('manual')).rejects.toThrow('insufficient funds for gas');
+
+    expect(steps.transferRoles).not.toHaveBeenCalled();
+    expect(switchKey).not.toHaveBeenCalled();
+    expect(readRotatedKey(rotatedKeyPath(keyStorePath))).toBeNull();
+    expect(steps.transferBalance).toHaveBeenCalledTimes(2); // swept, then sent back
+    expect(rotation.getRotationHistory()[0].status).toBe('rolled-back');
+  });
+
+  it('records the new key so a restart on the old configuration loads it', async () => {
+    stubSteps(async () => undefined);
+    const switchKey = jest.fn().mockResolvedValue(undefined);
+    rotation.onKeySwitch(switchKey);
+
+    const job = await rotation.performRotation('scheduled');
+
+    const [{ privateKey }] = switchKey.mock.calls[0];
+    expect(readRotatedKey(rotatedKeyPath(keyStorePath))).toMatchObject({ address: job.toWallet, replaces: [oldWallet.address] });
+    await expect(resolveRotatedKey(oldWallet.privateKey, rotatedKeyPath(keyStorePath))).resolves.toBe(privateKey);
+  });
+
+  it('restores the previous key record when switching the bots fails', async () => {
+    stubSteps(async () => undefined);
+    rotation.onKeySwitch(jest.fn().mockRejectedValue(new Error('payment job failed to restart')));
+
+    await expect(rotation.performRotation('scheduled')).rejects.toThrow('payment job failed to restart');
+
+    expect(readRotatedKey(rotatedKeyPath(keyStorePath))).toBeNull();
+  });
+});
@@ -5,14 +5,17 @@
  * - Scheduled automatic key rotation
  * - Safe balance transfer between wallets
  * - Emergency rotation capabilities
- * - Audit logging and monitoring
+ * - Audit logging and monitoring (every rotation step in the hash-chained audit trail)
  * - Multi-network support
  */
 
 import { ethers } from 'ethers';
 import { SecureWalletManager } from './WalletManager';
 import { DiscordNotifier } from '../bots/DiscordNotifier';
+import { auditTrail } from '../bots/AuditTrail';
+import { DEFAULT_KEY_STORE_PATH, RotatedKey, readRotatedKey, rotatedKeyPath, saveRotatedKey } from '../bots/config/rotatedKey';
 import * as fs from 'fs';
+import * as path from 'path';
 
 export interface KeyRotationConfig {
   rotationInterval: number; // hours
@@ -21,35 +24,64 @@ export interface KeyRotationConfig {
   backupWalletCount: number;
   enableEmergencyRotation: boolean;
   discordWebhook?: string;
+  autoSchedule?: boolean; // false when an external scheduler (the operations daemon) triggers rotations
+  privateKey?: string; // key to rotate; KeyRotationSystem.create() defaults it to CHAIN_ACADEMY_BOT_PRIVATE_KEY
+  chains?: RotationChain[]; // RPC and escrow contracts for each name in networks
+  gasReserve?: string; // ETH left on the old key to pay for the role handover (and a rollback)
+  keyStorePath?: string; // where new keys are saved, encrypted with WALLET_MASTER_PASSWORD
+}
+
+export interface RotationChain {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  contracts: string[]; // escrow contracts whose owner role moves with the key
 }
 
 export interface RotationJob {
   id: string;
   scheduledTime: number;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'rolled-back';
   fromWallet: string;
   toWallet: string;
   networks: string[];
   balancesTransferred: { [network: string]: string };
+  rolesTransferred?: { [network: string]: string[] }; // contracts whose ownership moved to the new key
   error?: string;
+  rollbackErrors?: string[]; // steps a rollback could not undo (manual intervention)
 }
 
+/**
+ * Switches a running component (bot, daemon job) to another key
+ */
+export type KeySwitchHandler = (wallet: { address: string; privateKey: string }) => Promise<void>;
+
+const DEFAULT_GAS_RESERVE = '0.001';
+const TRANSFER_GAS_LIMIT = BigInt(21000);
+const ROTATION_ACTOR = 'security:KeyRotationSystem';
+
+const OWNABLE_ABI = [
+  'function owner() external view returns (address)',
+  'function transferOwnership(address newOwner) external'
+];
+
 export class KeyRotationSystem {
   private config: KeyRotationConfig;
-  private currentWallet: SecureWalletManager;
+  private currentWallet: ethers.Wallet;
   private backupWallets: SecureWalletManager[] = [];
   private rotationHistory: RotationJob[] = [];
   private discord?: DiscordNotifier;
   private rotationTimer?: NodeJS.Timeout;
+  private switchHandlers: KeySwitchHandler[] = [];
 
   constructor(config: KeyRotationConfig) {
+    if (!config.privateKey) {
+      throw new Error('KeyRotationSystem needs config.privateKey, or KeyRotationSystem.create() to load CHAIN_ACADEMY_BOT_PRIVATE_KEY');
+    }
     this.config = config;
     
     // Initialize current wallet
-    this.currentWallet = new SecureWalletManager({
-      keySource: 'env',
-      keyIdentifier: 'CHAIN_ACADEMY_BOT_PRIVATE_KEY'
-    });
+    this.currentWallet = new ethers.Wallet(config.privateKey);
 
     // Initialize Discord notifications if configured
     if (config.discordWebhook) {
@@ -61,7 +93,25 @@ export class KeyRotationSystem {
     }
 
     this.loadRotationHistory();
-    this.startRotationScheduler();
+    if (config.autoSchedule !== false) {
+      this.startRotationScheduler();
+    }
+  }
+
+  /**
+   * Create a rotation system, loading CHAIN_ACADEMY_BOT_PRIVATE_KEY (with its audit trail entry)
+   * when no key is passed
+   */
+  public static async create(config: KeyRotationConfig): Promise<KeyRotationSystem> {
+    if (config.privateKey) {
+      return new KeyRotationSystem(config);
+    }
+
+    const manager = await SecureWalletManager.create({
+      keySource: 'env',
+      keyIdentifier: 'CHAIN_ACADEMY_BOT_PRIVATE_KEY'
+    });
+    return new KeyRotationSystem({ ...config, privateKey: manager.getWallet().privateKey });
   }
 
   /**
@@ -82,11 +132,7 @@ export class KeyRotationSystem {
    */
   private async checkAndPerformRotation(): Promise<void> {
     try {
-      const lastRotation = this.getLastRotation();
-      const timeSinceRotation = Date.now() - (lastRotation?.scheduledTime || 0);
-      const rotationIntervalMs = this.config.rotationInterval * 60 * 60 * 1000;
-
-      if (timeSinceRotation >= rotationIntervalMs) {
+      if (this.isRotationDue()) {
         await this.performRotation('scheduled');
       }
     } catch (error) {
@@ -95,88 +141,314 @@ export class KeyRotationSystem {
     }
   }
 
+  /**
+   * Whether the rotation interval has passed since the last rotation
+   */
+  public isRotationDue(): boolean {
+    const lastRotation = this.getLastRotation();
+    const timeSinceRotation = Date.now() - (lastRotation?.scheduledTime || 0);
+    return timeSinceRotation >= this.config.rotationInterval * 60 * 60 * 1000;
+  }
+
+  /**
+   * Register a component to move to the new key once a rotation has been verified on every chain
+   */
+  public onKeySwitch(handler: KeySwitchHandler): void {
+    this.switchHandlers.push(handler);
+  }
+
   /**
    * Perform key rotation
+   * Steps, per network: sweep the native balance to the new key (leaving the gas reserve), check the
+   * new key gets a transaction mined on every chain, hand over the escrow owner role, then record the
+   * new key as current (for restarts) and finally switch the bots.
+   * If any step fails, the completed ones are undone in reverse order.
    */
   public async performRotation(trigger: 'scheduled' | 'manual' | 'emergency'): Promise<RotationJob> {
     const rotationId = `rotation_${Date.now()}_${trigger}`;
+    const oldWallet = this.currentWallet;
     
     const job: RotationJob = {
       id: rotationId,
       scheduledTime: Date.now(),
       status: 'in-progress',
-      fromWallet: this.currentWallet.getAddress(),
+      fromWallet: oldWallet.address,
       toWallet: '', // Will be set when new wallet is generated
       networks: this.config.networks,
-      balancesTransferred: {}
+      balancesTransferred: {},
+      rolesTransferred: {}
     };
 
+    let newWallet: ethers.Wallet | null = null;
+    let previousKey: RotatedKey | null | undefined; // set once the new key is recorded as current
+    const providers = new Map<string, ethers.JsonRpcProvider>();
+    const switched: KeySwitchHandler[] = [];
+
     try {
       console.log(`🔄 Starting ${trigger} key rotation: ${rotationId}`);
+      // Nothing moves unless the rotation is on record
+      await auditTrail.append('key.rotation.started', ROTATION_ACTOR, { rotationId, trigger, fromWallet: job.fromWallet, networks: job.networks });
+      const chains = this.resolveChains();
+      for (const chain of chains) {
+        const network = ethers.Network.from(chain.chainId);
+        providers.set(chain.name, new ethers.JsonRpcProvider(chain.rpcUrl, network, { staticNetwork: network }));
+      }
       
-      // Generate new wallet
-      const newWallet = SecureWalletManager.generateSecureWallet();
-      job.toWallet = newWallet.address;
+      // Generate new wallet, saved before any funds move to it
+      const generated = new ethers.Wallet('0x' + SecureWalletManager.generateSecureWallet().privateKey);
+      job.toWallet = generated.address;
+      this.saveNewKey(generated);
+      newWallet = generated;
 
       // Transfer balances from all networks
-      for (const network of this.config.networks) {
-        const balance = await this.transferBalance(network, newWallet.address);
-        job.balancesTransferred[network] = balance;
+      for (const chain of chains) {
+        job.balancesTransferred[chain.name] = await this.transferBalance(chain, providers.get(chain.name)!, oldWallet, newWallet.address);
       }
 
-      // Update wallet configuration
-      await this.updateWalletConfiguration(newWallet.privateKey);
+      // Nothing is handed over to a key that cannot get a transaction mined
+      for (const chain of chains) {
+        await this.verifyOnChain(chain, providers.get(chain.name)!, newWallet);
+      }
 
-      job.status = 'completed';
-      this.rotationHistory.push(job);
-      this.saveRotationHistory();
+      // Hand over the escrow contracts the old key owns
+      for (const chain of chains) {
+        job.rolesTransferred![chain.name] = await this.transferRoles(chain, providers.get(chain.name)!, oldWallet, newWallet.address);
+      }
 
-      console.log(`✅ Key rotation completed: ${rotationId}`);
-      await this.notifyRotationSuccess(job);
+      previousKey = this.recordCurrentKey(rotationId, oldWallet, newWallet);
 
-      return job;
+      // Update wallet configuration
+      await this.updateWalletConfiguration(newWallet, switched);
+      this.currentWallet = newWallet;
 
+      job.status = 'completed';
     } catch (error) {
-      job.status = 'failed';
       job.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Key rotation failed: ${rotationId}`, error);
+
+      if (newWallet) {
+        job.rollbackErrors = await this.rollback(job, providers, oldWallet, newWallet, switched, previousKey);
+      }
+      job.status = newWallet && !job.rollbackErrors?.length ? 'rolled-back' : 'failed';
       this.rotationHistory.push(job);
       this.saveRotationHistory();
+      // The rotation error is what the caller needs; the missing entry is reported here
+      await this.recordRotation(job, trigger).catch(auditError => {
+        console.error(`❌ Could not record the failed rotation ${rotationId} on the audit trail:`, auditError);
+      });
 
-      console.error(`❌ Key rotation failed: ${rotationId}`, error);
-      await this.notifyRotationError('Key rotation failed', error);
+      await this.notifyRotationError('Key rotation failed', error, job);
       
       throw error;
+    } finally {
+      providers.forEach(provider => provider.destroy());
     }
+
+    this.rotationHistory.push(job);
+    this.saveRotationHistory();
+    // The new key is in use either way; a rotation that cannot be recorded fails rather than passing unnoticed
+    await this.recordRotation(job, trigger);
+
+    console.log(`✅ Key rotation completed: ${rotationId}`);
+    await this.notifyRotationSuccess(job);
+
+    return job;
+  }
+
+  /**
+   * Chain settings for every configured network
+   */
+  private resolveChains(): RotationChain[] {
+    return this.config.networks.map(name => {
+      const chain = this.config.chains?.find(c => c.name === name);
+      if (!chain) {
+        throw new Error(`No RPC configured for network ${name}`);
+      }
+      return chain;
+    });
   }
 
   /**
    * Transfer balance from current wallet to new wallet on specific network
+   * Leaves the gas reserve (plus the transfer's own gas) on the old key; returns the ETH amount sent
    */
-  private async transferBalance(network: string, newWalletAddress: string): Promise<string> {
-    // This would integrate with your network providers
-    // For now, returning placeholder
-    console.log(`💰 Transferring balance on ${network} to ${newWalletAddress}`);
-    
-    // TODO: Implement actual balance transfer logic
-    // 1. Connect to network RPC
-    // 2. Check current wallet balance
-    // 3. Transfer all balance minus gas fees to new wallet
-    // 4. Return transferred amount
-    
-    return '0.0'; // Placeholder
+  private async transferBalance(
+    chain: RotationChain,
+    provider: ethers.Provider,
+    from: ethers.Wallet,
+    to: string,
+    reserve: bigint = ethers.parseEther(this.config.gasReserve || DEFAULT_GAS_RESERVE)
+  ): Promise<string> {
+    const signer = from.connect(provider);
+    const balance = await provider.getBalance(from.address);
+    const feeData = await provider.getFeeData();
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+    const amount = balance - TRANSFER_GAS_LIMIT * maxFeePerGas - reserve;
+
+    if (amount <= BigInt(0)) {
+      console.log(`💰 Nothing to transfer on ${chain.name} (balance ${ethers.formatEther(balance)})`);
+      return '0.0';
+    }
+
+    console.log(`💰 Transferring ${ethers.formatEther(amount)} on ${chain.name} to ${to}`);
+    const tx = await signer.sendTransaction({
+      to,
+      value: amount,
+      gasLimit: TRANSFER_GAS_LIMIT,
+      ...(feeData.maxFeePerGas
+        ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? BigInt(0) }
+        : { gasPrice: feeData.gasPrice ?? undefined })
+    });
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Balance transfer on ${chain.name} failed (${tx.hash})`);
+    }
+
+    return ethers.formatEther(amount);
   }
 
   /**
-   * Update wallet configuration with new private key
+   * Transfer ownership of the escrow contracts owned by `from`; returns the contracts handed over
    */
-  private async updateWalletConfiguration(newPrivateKey: string): Promise<void> {
-    // TODO: Implement secure configuration update
-    // This should update your production environment variables
-    // NOT update files in the codebase
-    
-    console.log('🔧 Configuration update required - manual intervention needed');
-    console.log('   New private key generated - update production environment');
-    console.log('   Private key (SECURE THIS):', newPrivateKey);
+  private async transferRoles(chain: RotationChain, provider: ethers.Provider, from: ethers.Wallet, to: string): Promise<string[]> {
+    const transferred: string[] = [];
+
+    for (const address of chain.contracts) {
+      const contract = new ethers.Contract(address, OWNABLE_ABI, from.connect(provider));
+      const owner: string = await contract.owner();
+      if (owner.toLowerCase() !== from.address.toLowerCase()) continue;
+
+      console.log(`🔑 Transferring ownership of ${address} on ${chain.name} to ${to}`);
+      const tx = await contract.transferOwnership(to);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1 || (await contract.owner()).toLowerCase() !== to.toLowerCase()) {
+        throw new Error(`Ownership transfer of ${address} on ${chain.name} failed (${tx.hash})`);
+      }
+      transferred.push(address);
+    }
+
+    return transferred;
+  }
+
+  /**
+   * Check the new key can be used on the chain: a zero-value transfer to itself has to be
+   * estimated, accepted by the RPC and mined (which needs the balance it was just sent)
+   */
+  private async verifyOnChain(chain: RotationChain, provider: ethers.Provider, wallet: ethers.Wallet): Promise<void> {
+    const signer = wallet.connect(provider);
+    try {
+      await signer.estimateGas({ to: wallet.address, value: 0 });
+      const tx = await signer.sendTransaction({ to: wallet.address, value: 0 });
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`transaction ${tx.hash} failed`);
+      }
+    } catch (error) {
+      throw new Error(`New key ${wallet.address} cannot send transactions on ${chain.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    console.log(`✍️ New key verified on ${chain.name}`);
+  }
+
+  /**
+   * Record the new key as the bots' current key, replacing the old one (and whatever it replaced),
+   * so configurations still naming a retired key load the new one. Returns the previous record.
+   */
+  private recordCurrentKey(rotationId: string, oldWallet: ethers.Wallet, newWallet: ethers.Wallet): RotatedKey | null {
+    const previous = readRotatedKey(rotatedKeyPath(this.keyStorePath()));
+    saveRotatedKey({
+      address: newWallet.address,
+      reference: `encrypted-file:${path.resolve(this.keyFilePath(newWallet))}`,
+      rotationId,
+      rotatedAt: Date.now(),
+      replaces: [...(previous?.replaces || []), oldWallet.address]
+    }, rotatedKeyPath(this.keyStorePath()));
+    return previous;
+  }
+
+  /**
+   * Undo the completed steps of a failed rotation, newest first: switched components go back to
+   * the old key, then on every network the owner role and the balance go back (signed by the new key).
+   * Returns what could not be undone.
+   */
+  private async rollback(
+    job: RotationJob,
+    providers: Map<string, ethers.JsonRpcProvider>,
+    oldWallet: ethers.Wallet,
+    newWallet: ethers.Wallet,
+    switched: KeySwitchHandler[],
+    previousKey: RotatedKey | null | undefined
+  ): Promise<string[]> {
+    const errors: string[] = [];
+    const attempt = async (step: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        errors.push(`${step}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    console.log(`↩️ Rolling back key rotation ${job.id}`);
+    for (const handler of switched.reverse()) {
+      await attempt('switch back to the old key', () => handler({ address: oldWallet.address, privateKey: oldWallet.privateKey }));
+    }
+    if (previousKey !== undefined) {
+      await attempt('restore the current key record', async () => saveRotatedKey(previousKey, rotatedKeyPath(this.keyStorePath())));
+    }
+
+    const chains = this.config.chains || [];
+    for (const name of [...job.networks].reverse()) {
+      const chain = chains.find(c => c.name === name);
+      const provider = providers.get(name);
+      if (!chain || !provider) continue;
+
+      if (job.rolesTransferred?.[name]?.length) {
+        const roles = { ...chain, contracts: job.rolesTransferred[name] };
+        await attempt(`ownership back on ${name}`, () => this.transferRoles(roles, provider, newWallet, oldWallet.address));
+      }
+      if (job.balancesTransferred[name] && job.balancesTransferred[name] !== '0.0') {
+        await attempt(`balance back on ${name}`, () => this.transferBalance(chain, provider, newWallet, oldWallet.address, BigInt(0)));
+      }
+    }
+
+    if (errors.length > 0) {
+      console.error(`❌ Rollback of ${job.id} incomplete, the new key (${newWallet.address}) is saved in ${this.keyStorePath()}:`, errors);
+    } else {
+      console.log(`↩️ Rollback of ${job.id} completed`);
+    }
+    return errors;
+  }
+
+  /**
+   * Switch every registered component to the new key; `switched` collects the ones that moved
+   */
+  private async updateWalletConfiguration(newWallet: ethers.Wallet, switched: KeySwitchHandler[]): Promise<void> {
+    for (const handler of this.switchHandlers) {
+      await handler({ address: newWallet.address, privateKey: newWallet.privateKey });
+      switched.push(handler);
+    }
+
+    console.log(`🔧 Bots switched to ${newWallet.address}; its key is saved in ${this.keyStorePath()} and used after a restart (${rotatedKeyPath(this.keyStorePath())})`);
+  }
+
+  /**
+   * Save the new key encrypted with WALLET_MASTER_PASSWORD (readable by SecureWalletManager's file source)
+   */
+  private saveNewKey(wallet: ethers.Wallet): void {
+    const masterPassword = process.env.WALLET_MASTER_PASSWORD;
+    if (!masterPassword) {
+      throw new Error('WALLET_MASTER_PASSWORD is required to save the new key');
+    }
+
+    fs.mkdirSync(this.keyStorePath(), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.keyFilePath(wallet), SecureWalletManager.encryptPrivateKey(wallet.privateKey.substring(2), masterPassword), { mode: 0o600 });
+  }
+
+  private keyStorePath(): string {
+    return this.config.keyStorePath || process.env.KEY_ROTATION_KEY_STORE_PATH || DEFAULT_KEY_STORE_PATH;
+  }
+
+  private keyFilePath(wallet: ethers.Wallet): string {
+    return path.join(this.keyStorePath(), `${wallet.address}.key`);
   }
 
   /**
@@ -237,6 +509,19 @@ export class KeyRotationSystem {
     }
   }
 
+  private async recordRotation(job: RotationJob, trigger: string): Promise<void> {
+    await auditTrail.append(`key.rotation.${job.status}`, ROTATION_ACTOR, {
+      rotationId: job.id,
+      trigger,
+      fromWallet: job.fromWallet,
+      toWallet: job.toWallet,
+      balancesTransferred: job.balancesTransferred,
+      rolesTransferred: job.rolesTransferred,
+      error: job.error,
+      rollbackErrors: job.rollbackErrors
+    });
+  }
+
   /**
    * Notify successful rotation
    */
@@ -276,21 +561,30 @@ export class KeyRotationSystem {
   /**
    * Notify rotation error
    */
-  private async notifyRotationError(title: string, error: unknown): Promise<void> {
+  private async notifyRotationError(title: string, error: unknown, job?: RotationJob): Promise<void> {
     if (!this.discord) return;
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const rolledBack = job?.status === 'rolled-back';
 
     await this.discord.sendEmbed({
       title: `❌ ${title}`,
       description: errorMessage,
       color: 0xff0000,
       fields: [
-        {
-          name: '⚠️ Action Required',
-          value: 'Manual intervention needed for key rotation',
-          inline: false
-        }
+        rolledBack
+          ? {
+            name: '↩️ Rolled Back',
+            value: `Funds and roles are back on ${job!.fromWallet}; the bots keep the old key`,
+            inline: false
+          }
+          : {
+            name: '⚠️ Action Required',
+            value: job?.rollbackErrors?.length
+              ? `Rollback incomplete:\n${job.rollbackErrors.join('\n').slice(0, 900)}`
+              : 'Manual intervention needed for key rotation',
+            inline: false
+          }
       ],
       timestamp: new Date().toISOString()
     });
@@ -0,0 +1,49 @@
+import { ethers } from 'ethers';
+import { auditTrail } from '../bots/AuditTrail';
+import { SecureWalletManager } from './WalletManager';
+
+const KEY_VARIABLE = 'WALLET_MANAGER_TEST_KEY';
+
+describe('SecureWalletManager', () => {
+  const key = ethers.Wallet.createRandom();
+  let append: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env[KEY_VARIABLE] = key.privateKey.substring(2);
+    append = jest.spyOn(auditTrail, 'append').mockResolvedValue(undefined as never);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env[KEY_VARIABLE];
+  });
+
+  const create = () => SecureWalletManager.create({ keySource: 'env', keyIdentifier: KEY_VARIABLE });
+
+  it('loads the key once the load is in the audit trail', async () => {
+    const manager = await create();
+
+    expect(manager.getAddress()).toBe(key.address);
+    expect(append).toHaveBeenCalledWith('key.loaded', 'security:SecureWalletManager', expect.objectContaining({
+      keySource: 'env',
+      keyIdentifier: KEY_VARIABLE,
+      address: key.address
+    }));
+  });
+
+  it('refuses to load the key when the audit trail cannot be written', async () => {
+    append.mockRejectedValue(new Error('disk full'));
+
+    await expect(create()).rejects.toThrow('Failed to load secure wallet');
+  });
+
+  it('returns a signature only once the trail has it', async () => {
+    const manager = await create();
+    append.mockRejectedValueOnce(new Error('disk full'));
+    const transaction = { to: ethers.ZeroAddress, chainId: 31337, nonce: 0, gasLimit: 21000, gasPrice: 1 };
+
+    await expect(manager.signTransaction(transaction)).rejects.toThrow('Failed to append key.signed to the audit trail: disk full');
+    await expect(manager.signTransaction(transaction)).resolves.toMatch(/^0x/);
+  });
+});
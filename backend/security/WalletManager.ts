@@ -5,16 +5,20 @@
  * - Never stores private keys in plain text
  * - Uses environment variables from secure external sources
  * - Implements key rotation capabilities
- * - Provides audit logging
+ * - Provides audit logging (also appended to the hash-chained audit trail)
  * - Memory-safe key handling
  */
 
 import { ethers } from 'ethers';
-import * as crypto from 'crypto';
 import * as fs from 'fs';
+import { encryptSecret, decryptSecret } from '../bots/config/keyEncryption';
+import { resolveSecret, getSecretProviderNames } from '../bots/config/secrets';
+import { auditTrail } from '../bots/AuditTrail';
 
 export interface SecureWalletConfig {
-  keySource: 'env' | 'file' | 'aws-secrets' | 'azure-keyvault';
+  // 'secret': keyIdentifier is a secret reference (vault:..., encrypted-file:...);
+  // 'aws-secrets' / 'azure-keyvault' need a secret provider registered under that name
+  keySource: 'env' | 'file' | 'secret' | 'aws-secrets' | 'azure-keyvault';
   keyIdentifier: string;
   rotationInterval?: number; // hours
   enableAuditLog?: boolean;
@@ -26,15 +30,33 @@ export class SecureWalletManager {
   private lastKeyRotation: number = 0;
   private auditLog: string[] = [];
 
-  constructor(config: SecureWalletConfig) {
+  private constructor(config: SecureWalletConfig) {
     this.config = config;
-    this.loadWallet();
+  }
+
+  /**
+   * Create a wallet manager for any key source, resolving secret providers first. The key is
+   * only loaded once its load is in the audit trail.
+   */
+  public static async create(config: SecureWalletConfig): Promise<SecureWalletManager> {
+    const manager = new SecureWalletManager(config);
+    if (config.keySource === 'env' || config.keySource === 'file') {
+      await manager.loadWallet();
+      return manager;
+    }
+
+    const reference = config.keySource === 'secret' ? config.keyIdentifier : `${config.keySource}:${config.keyIdentifier}`;
+    if (config.keySource !== 'secret' && !getSecretProviderNames().includes(config.keySource)) {
+      throw new Error(`No secret provider registered for ${config.keySource} (registerSecretProvider('${config.keySource}', ...))`);
+    }
+    await manager.loadWallet(await resolveSecret(reference));
+    return manager;
   }
 
   /**
    * Load wallet from secure source (never from code/logs)
    */
-  private loadWallet(): void {
+  private async loadWallet(resolvedKey?: string): Promise<void> {
     try {
       let privateKey: string;
 
@@ -43,34 +65,40 @@ export class SecureWalletManager {
           privateKey = this.loadFromEnvironment();
           break;
         case 'file':
-          privateKey = this.loadFromSecureFile();
+          privateKey = await this.loadFromSecureFile();
           break;
+        case 'secret':
         case 'aws-secrets':
-          privateKey = this.loadFromAWSSecrets();
-          break;
         case 'azure-keyvault':
-          privateKey = this.loadFromAzureKeyVault();
+          if (!resolvedKey) {
+            throw new Error(`Key source ${this.config.keySource} must be loaded with SecureWalletManager.create()`);
+          }
+          privateKey = resolvedKey;
           break;
         default:
           throw new Error('Invalid key source');
       }
+      privateKey = privateKey.trim().replace(/^0x/, '');
 
       // Validate key format
       if (!privateKey || privateKey.length !== 64) {
         throw new Error('Invalid private key format');
       }
 
-      this.wallet = new ethers.Wallet('0x' + privateKey);
-      this.lastKeyRotation = Date.now();
-      
-      this.auditLog.push(`Wallet loaded successfully: ${this.wallet.address} at ${new Date().toISOString()}`);
+      const wallet = new ethers.Wallet('0x' + privateKey);
       
       // Clear sensitive variable from memory
       privateKey = '';
+
+      await this.audit('key.loaded', `Wallet loaded successfully: ${wallet.address}`, { address: wallet.address });
+      this.wallet = wallet;
+      this.lastKeyRotation = Date.now();
       
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.auditLog.push(`Wallet load failed: ${errorMessage} at ${new Date().toISOString()}`);
+      await this.audit('key.load-failed', `Wallet load failed: ${errorMessage}`, { error: errorMessage }).catch(auditError => {
+        console.error(`[SecureWalletManager] ${auditError.message}`);
+      });
       throw new Error('Failed to load secure wallet');
     }
   }
@@ -87,9 +115,9 @@ export class SecureWalletManager {
   }
 
   /**
-   * Load private key from encrypted file (not in repo)
+   * Load private key from encrypted file (not in repo): keystore v3, AES-GCM envelope or legacy CBC
    */
-  private loadFromSecureFile(): string {
+  private async loadFromSecureFile(): Promise<string> {
     const keyPath = this.config.keyIdentifier;
     
     if (!fs.existsSync(keyPath)) {
@@ -100,44 +128,21 @@ export class SecureWalletManager {
     return this.decryptKey(encryptedKey);
   }
 
-  /**
-   * Load private key from AWS Secrets Manager
-   */
-  private loadFromAWSSecrets(): string {
-    // TODO: Implement AWS Secrets Manager integration
-    throw new Error('AWS Secrets Manager not implemented yet');
-  }
-
-  /**
-   * Load private key from Azure Key Vault
-   */
-  private loadFromAzureKeyVault(): string {
-    // TODO: Implement Azure Key Vault integration
-    throw new Error('Azure Key Vault not implemented yet');
-  }
-
   /**
    * Decrypt private key using master password
    */
-  private decryptKey(encryptedKey: string): string {
+  private async decryptKey(encryptedKey: string): Promise<string> {
     const masterPassword = process.env.WALLET_MASTER_PASSWORD;
     if (!masterPassword) {
       throw new Error('Master password not found in environment');
     }
 
-    try {
-      // Use a more secure encryption method
-      const algorithm = 'aes-256-cbc';
-      const key = crypto.scryptSync(masterPassword, 'salt', 32);
-      const iv = Buffer.alloc(16, 0); // In production, use random IV
-      
-      const decipher = crypto.createDecipheriv(algorithm, key, iv);
-      let decrypted = decipher.update(encryptedKey, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      return decrypted;
-    } catch (error) {
-      throw new Error('Failed to decrypt private key');
+    const { secret, format } = decryptSecret(encryptedKey, masterPassword);
+    await this.audit('key.decrypted', `Key file decrypted (${format})`, { format });
+    if (format === 'legacy-aes-256-cbc') {
+      console.warn('⚠️ Key file uses the legacy AES-CBC format - re-encrypt it with SecureWalletManager.encryptPrivateKey');
     }
+    return secret;
   }
 
   /**
@@ -148,11 +153,6 @@ export class SecureWalletManager {
       throw new Error('Wallet not loaded');
     }
 
-    // Check if key rotation is needed
-    if (this.shouldRotateKey()) {
-      this.rotateKey();
-    }
-
     return this.wallet;
   }
 
@@ -164,13 +164,19 @@ export class SecureWalletManager {
   }
 
   /**
-   * Sign transaction with audit logging
+   * Sign transaction with audit logging. The signature is only returned once the trail has it.
    */
   public async signTransaction(transaction: any): Promise<string> {
     const wallet = this.getWallet();
+
+    // Check if key rotation is needed
+    if (this.shouldRotateKey()) {
+      await this.rotateKey();
+    }
+
     const txHash = await wallet.signTransaction(transaction);
     
-    this.auditLog.push(`Transaction signed by ${wallet.address} at ${new Date().toISOString()}`);
+    await this.audit('key.signed', `Transaction signed by ${wallet.address}`, { address: wallet.address, to: transaction?.to, chainId: transaction?.chainId });
     
     return txHash;
   }
@@ -188,13 +194,30 @@ export class SecureWalletManager {
   /**
    * Rotate private key (implement based on your key management strategy)
    */
-  private rotateKey(): void {
-    this.auditLog.push(`Key rotation triggered at ${new Date().toISOString()}`);
+  private async rotateKey(): Promise<void> {
+    await this.audit('key.rotation.due', 'Key rotation triggered', { address: this.wallet?.address });
     
     // TODO: Implement automatic key rotation
     console.log('⚠️ Key rotation needed - manual intervention required');
   }
 
+  /**
+   * In-memory log of this instance, plus an entry in the audit trail shared by all bot processes.
+   * Throws if the trail cannot be written, so the key operation it records does not go ahead.
+   */
+  private async audit(action: string, message: string, details: Record<string, unknown>): Promise<void> {
+    this.auditLog.push(`${message} at ${new Date().toISOString()}`);
+    try {
+      await auditTrail.append(action, 'security:SecureWalletManager', {
+        keySource: this.config.keySource,
+        keyIdentifier: this.config.keyIdentifier,
+        ...details
+      });
+    } catch (error) {
+      throw new Error(`Failed to append ${action} to the audit trail: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Get audit log for security monitoring
    */
@@ -224,17 +247,18 @@ export class SecureWalletManager {
   }
 
   /**
-   * Encrypt private key for secure storage
+   * Encrypt private key for secure storage (AES-256-GCM envelope, random salt and IV)
    */
   public static encryptPrivateKey(privateKey: string, masterPassword: string): string {
-    const algorithm = 'aes-256-cbc';
-    const key = crypto.scryptSync(masterPassword, 'salt', 32);
-    const iv = Buffer.alloc(16, 0); // In production, use random IV
-    
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(privateKey, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    return encrypted;
+    return encryptSecret(privateKey, masterPassword);
+  }
+
+  /**
+   * Export a private key as an Ethereum keystore v3 file (scrypt + AES-128-CTR), readable by any wallet
+   */
+  public static toKeystore(privateKey: string, password: string): string {
+    const wallet = new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : '0x' + privateKey);
+    return wallet.encryptSync(password);
   }
 }
 
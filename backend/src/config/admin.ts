@@ -0,0 +1,40 @@
+// Admin API access (operator roles allow-listed by wallet address)
+
+import { OperatorRole } from '../types';
+
+// Lowest to highest privilege; a role passes checks for the roles before it
+export const OPERATOR_ROLES: OperatorRole[] = ['viewer', 'operator', 'emergency'];
+
+export interface AdminConfig {
+  roles: Map<string, OperatorRole>; // lowercased wallet address -> role
+}
+
+let cachedConfig: AdminConfig | null = null;
+
+const parseAddresses = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean);
+
+export const getAdminConfig = (): AdminConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  // Listed under several roles, an address gets the highest
+  const roles = new Map<string, OperatorRole>();
+  for (const address of parseAddresses(process.env.ADMIN_VIEWER_ADDRESSES)) roles.set(address, 'viewer');
+  for (const address of parseAddresses(process.env.ADMIN_OPERATOR_ADDRESSES)) roles.set(address, 'operator');
+  for (const address of parseAddresses(process.env.ADMIN_EMERGENCY_ADDRESSES)) roles.set(address, 'emergency');
+
+  cachedConfig = { roles };
+
+  return cachedConfig;
+};
+
+export const getOperatorRole = (address: string): OperatorRole | null =>
+  getAdminConfig().roles.get(address.toLowerCase()) ?? null;
+
+export const roleSatisfies = (role: OperatorRole, requiredRole: OperatorRole): boolean =>
+  OPERATOR_ROLES.indexOf(role) >= OPERATOR_ROLES.indexOf(requiredRole);
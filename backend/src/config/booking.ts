@@ -0,0 +1,27 @@
+// Session booking configuration (slot holds and escrow confirmation)
+
+import { EscrowChainConfig, getEscrowChains } from './escrow';
+
+export interface BookingConfig {
+  holdTtl: number; // seconds a reserved slot is held before payment is sent
+  confirmationTimeout: number; // seconds a slot is held once the escrow transaction is sent
+  sweepInterval: number; // milliseconds between pending-hold checks
+  chains: Map<number, EscrowChainConfig>;
+}
+
+let cachedConfig: BookingConfig | null = null;
+
+export const getBookingConfig = (): BookingConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  cachedConfig = {
+    holdTtl: parseInt(process.env.BOOKING_HOLD_TTL || String(10 * 60)), // 10 minutes
+    confirmationTimeout: parseInt(process.env.BOOKING_CONFIRMATION_TIMEOUT || String(30 * 60)), // 30 minutes
+    sweepInterval: parseInt(process.env.BOOKING_SWEEP_INTERVAL || String(60 * 1000)), // 1 minute
+    chains: getEscrowChains(),
+  };
+
+  return cachedConfig;
+};
@@ -0,0 +1,23 @@
+// Payment bot control (the V8 bot process serves its control API on BOT_CONTROL_PORT)
+
+export interface BotControlConfig {
+  url: string | null; // null when the admin bot API is not connected to a bot
+  token: string;
+  timeout: number; // milliseconds
+}
+
+let cachedConfig: BotControlConfig | null = null;
+
+export const getBotControlConfig = (): BotControlConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  cachedConfig = {
+    url: process.env.BOT_CONTROL_URL ? process.env.BOT_CONTROL_URL.replace(/\/$/, '') : null,
+    token: process.env.BOT_CONTROL_TOKEN || '',
+    timeout: parseInt(process.env.BOT_CONTROL_TIMEOUT || '10000'),
+  };
+
+  return cachedConfig;
+};
@@ -0,0 +1,59 @@
+// ProgressiveEscrowV8 deployments the backend follows (booking confirmation and event indexing)
+
+export type PaymentCurrency = 'USDC' | 'USDT';
+
+export interface PaymentToken {
+  address: string;
+  decimals: number;
+}
+
+export interface EscrowChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  escrowAddress: string; // ProgressiveEscrowV8 contract
+  tokens: Partial<Record<PaymentCurrency, PaymentToken>>; // tokens a booking can be paid in
+}
+
+// Both stablecoins use 6 decimals on every network below
+const STABLECOIN_DECIMALS = 6;
+
+// Same variables as the payment bots (MAINNET_CHAIN_CONFIGS), defaulting to the deployed V8 contracts
+// Token addresses can be overridden with <NAME>_USDC_ADDRESS / <NAME>_USDT_ADDRESS (e.g. SEPOLIA_USDC_ADDRESS)
+const ESCROW_CHAINS = [
+  { chainId: 8453, name: 'Base', rpcEnv: 'BOT_BASE_RPC_URL', rpcUrl: 'https://mainnet.base.org', contractEnv: 'BASE_PROGRESSIVE_ESCROW_V8', contract: '0x2a9d167e30195ba5fd29cfc09622be0d02da91be', usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', usdt: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2' },
+  { chainId: 10, name: 'Optimism', rpcEnv: 'BOT_OPTIMISM_RPC_URL', rpcUrl: 'https://mainnet.optimism.io', contractEnv: 'OPTIMISM_PROGRESSIVE_ESCROW_V8', contract: '0xd5bbf7f5449b805cb5479e6aa04e722c28aa9ba1', usdc: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', usdt: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58' },
+  { chainId: 42161, name: 'Arbitrum', rpcEnv: 'BOT_ARBITRUM_RPC_URL', rpcUrl: 'https://arb1.arbitrum.io/rpc', contractEnv: 'ARBITRUM_PROGRESSIVE_ESCROW_V8', contract: '0x74d6ae04f62fdd2d4942babad924ad6fc693329f', usdc: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', usdt: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9' },
+  { chainId: 137, name: 'Polygon', rpcEnv: 'BOT_POLYGON_RPC_URL', rpcUrl: 'https://polygon-rpc.com', contractEnv: 'POLYGON_PROGRESSIVE_ESCROW_V8', contract: '0x2a9d167e30195ba5fd29cfc09622be0d02da91be', usdc: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', usdt: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F' },
+  { chainId: 11155111, name: 'Sepolia', rpcEnv: 'SEPOLIA_RPC_URL', rpcUrl: 'https://rpc.sepolia.org', contractEnv: 'SEPOLIA_PROGRESSIVE_ESCROW_V8', contract: '', usdc: '0x556C875376950B70E0b5A670c9f15885093002B9', usdt: '0x6D64e4bE5e47d3445F8B6ef5Ed93a2852c19d085' },
+];
+
+let cachedChains: Map<number, EscrowChainConfig> | null = null;
+
+export const getEscrowChains = (): Map<number, EscrowChainConfig> => {
+  if (cachedChains) {
+    return cachedChains;
+  }
+
+  // Only networks with an escrow contract are followed
+  const chains = new Map<number, EscrowChainConfig>();
+  for (const chain of ESCROW_CHAINS) {
+    const escrowAddress = process.env[chain.contractEnv] || chain.contract;
+    if (escrowAddress) {
+      const prefix = chain.name.toUpperCase();
+      chains.set(chain.chainId, {
+        chainId: chain.chainId,
+        name: chain.name,
+        rpcUrl: process.env[chain.rpcEnv] || chain.rpcUrl,
+        escrowAddress,
+        tokens: {
+          USDC: { address: process.env[`${prefix}_USDC_ADDRESS`] || chain.usdc, decimals: STABLECOIN_DECIMALS },
+          USDT: { address: process.env[`${prefix}_USDT_ADDRESS`] || chain.usdt, decimals: STABLECOIN_DECIMALS },
+        },
+      });
+    }
+  }
+
+  cachedChains = chains;
+  return cachedChains;
+};
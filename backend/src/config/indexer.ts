@@ -0,0 +1,46 @@
+// Escrow event indexer configuration
+
+import { EscrowChainConfig, getEscrowChains } from './escrow';
+
+export interface IndexerConfig {
+  enabled: boolean;
+  pollInterval: number; // milliseconds between sync rounds
+  confirmations: number; // blocks behind the head before a block is indexed
+  reorgDepth: number; // blocks re-indexed when the checkpoint block was reorganized away
+  batchSize: number; // blocks per eth_getLogs request
+  initialLookback: number; // blocks scanned on first run when no start block is configured
+  startBlocks: Map<number, number>;
+  chains: Map<number, EscrowChainConfig>;
+}
+
+let cachedConfig: IndexerConfig | null = null;
+
+export const getIndexerConfig = (): IndexerConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const chains = getEscrowChains();
+
+  // INDEXER_START_BLOCK_BASE, INDEXER_START_BLOCK_OPTIMISM, ... (usually the escrow deployment block)
+  const startBlocks = new Map<number, number>();
+  for (const chain of chains.values()) {
+    const startBlock = process.env[`INDEXER_START_BLOCK_${chain.name.toUpperCase()}`];
+    if (startBlock) {
+      startBlocks.set(chain.chainId, parseInt(startBlock));
+    }
+  }
+
+  cachedConfig = {
+    enabled: process.env.INDEXER_ENABLED === 'true',
+    pollInterval: parseInt(process.env.INDEXER_POLL_INTERVAL || String(15 * 1000)), // 15 seconds
+    confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '5'),
+    reorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH || '64'),
+    batchSize: parseInt(process.env.INDEXER_BLOCK_BATCH_SIZE || '2000'),
+    initialLookback: parseInt(process.env.INDEXER_INITIAL_LOOKBACK || '10000'),
+    startBlocks,
+    chains,
+  };
+
+  return cachedConfig;
+};
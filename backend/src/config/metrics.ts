@@ -0,0 +1,21 @@
+// Prometheus scraping of GET /metrics
+
+export interface MetricsConfig {
+  token: string | null; // when set, scrapes need Authorization: Bearer <token>
+  includeBotMetrics: boolean; // append the payment bot's metrics (needs BOT_CONTROL_URL)
+}
+
+let cachedConfig: MetricsConfig | null = null;
+
+export const getMetricsConfig = (): MetricsConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  cachedConfig = {
+    token: process.env.METRICS_TOKEN || null,
+    includeBotMetrics: process.env.METRICS_INCLUDE_BOT !== 'false',
+  };
+
+  return cachedConfig;
+};
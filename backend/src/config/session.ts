@@ -0,0 +1,53 @@
+// HTTP session configuration
+
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+
+export type SessionStoreType = 'memory' | 'database';
+
+export interface SessionConfig {
+  name: string;
+  secret: string;
+  store: SessionStoreType;
+  maxAge: number; // milliseconds
+  secure: boolean;
+  sameSite: 'lax' | 'strict' | 'none';
+  pruneInterval: number; // milliseconds
+}
+
+let cachedConfig: SessionConfig | null = null;
+
+export const getSessionConfig = (): SessionConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const isProduction = process.env.NODE_ENV === 'production';
+  let secret = process.env.SESSION_SECRET;
+
+  if (!secret) {
+    if (isProduction) {
+      throw new Error('SESSION_SECRET must be set in production');
+    }
+    // Sessions will not survive a restart without a fixed secret
+    secret = crypto.randomBytes(32).toString('hex');
+    logger.warn('SESSION_SECRET not set - using a random secret for this process');
+  }
+
+  const store = (process.env.SESSION_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'database')) as SessionStoreType;
+  if (store !== 'memory' && store !== 'database') {
+    throw new Error(`Invalid SESSION_STORE "${store}" - expected "memory" or "database"`);
+  }
+
+  cachedConfig = {
+    name: process.env.SESSION_COOKIE_NAME || 'chain_academy.sid',
+    secret,
+    store,
+    maxAge: parseInt(process.env.SESSION_MAX_AGE || String(24 * 60 * 60 * 1000)), // 24 hours
+    secure: isProduction,
+    sameSite: (process.env.SESSION_SAME_SITE as SessionConfig['sameSite']) || 'lax',
+    pruneInterval: parseInt(process.env.SESSION_PRUNE_INTERVAL || String(15 * 60 * 1000)), // 15 minutes
+  };
+
+  return cachedConfig;
+};
@@ -0,0 +1,39 @@
+// Signed token configuration (backend-issued credentials)
+
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+
+export interface TokenConfig {
+  secret: string;
+  issuer: string;
+  accessTokenTtl: number; // seconds
+  refreshTokenTtl: number; // seconds
+}
+
+let cachedConfig: TokenConfig | null = null;
+
+export const getTokenConfig = (): TokenConfig => {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  let secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET must be set in production');
+    }
+    // Tokens will not survive a restart without a fixed secret
+    secret = crypto.randomBytes(32).toString('hex');
+    logger.warn('JWT_SECRET not set - using a random secret for this process');
+  }
+
+  cachedConfig = {
+    secret,
+    issuer: process.env.JWT_ISSUER || 'chain-academy-v2',
+    accessTokenTtl: parseInt(process.env.ACCESS_TOKEN_TTL || String(15 * 60)), // 15 minutes
+    refreshTokenTtl: parseInt(process.env.REFRESH_TOKEN_TTL || String(7 * 24 * 60 * 60)), // 7 days
+  };
+
+  return cachedConfig;
+};
@@ -0,0 +1,275 @@
+import { Response, NextFunction } from 'express';
+import { AuditOutcome, AuthRequest } from '../types';
+import { logger } from '../utils/logger';
+import { auditRepository } from '../repositories';
+import { BotApprovalStatus, BotControlService, BotProposalStatus } from '../services/botControl.service';
+
+class AdminController {
+  /**
+   * Privileged actions and denied attempts, newest first
+   */
+  public getAuditLog = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { actor, action, outcome, page, limit } = req.query;
+
+      const { items, total } = await auditRepository.findEntries({
+        actor: actor as string | undefined,
+        action: action as string | undefined,
+        outcome: outcome as AuditOutcome | undefined,
+        page: Number(page) || 1,
+        limit: Number(limit) || 50,
+      });
+
+      res.json({
+        success: true,
+        entries: items,
+        pagination: {
+          page: Number(page) || 1,
+          limit: Number(limit) || 50,
+          total,
+          totalPages: Math.ceil(total / (Number(limit) || 50)),
+        },
+      });
+    } catch (error) {
+      logger.error('Error getting audit log:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Check the audit log's hash chain. anchor (seq:hash) is a head from an earlier verification.
+   */
+  public verifyAuditLog = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const verification = await auditRepository.verifyChain(this.parseAnchor(req.query.anchor as string | undefined));
+
+      if (!verification.valid) {
+        logger.error(`🔒 Audit log chain verification failed: ${verification.issues.length} problem(s)`);
+      }
+
+      res.json({
+        success: true,
+        verification,
+      });
+    } catch (error) {
+      logger.error('Error verifying audit log:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * The chained audit log for auditors, one JSON entry per line (verify with npm run audit:verify)
+   */
+  public exportAuditLog = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.jsonl"`);
+
+      await auditRepository.exportChain(entries => {
+        res.write(entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+      });
+      res.end();
+    } catch (error) {
+      logger.error('Error exporting audit log:', error);
+      if (res.headersSent) {
+        // A cut-off export must not pass for a complete one
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * Check the payment bots' audit trail (key loads, rotations, emergency releases, config changes)
+   */
+  public verifyAuditTrail = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const verification = await BotControlService.getInstance().verifyAuditTrail(req.query.anchor as string | undefined);
+
+      if (!verification.valid) {
+        logger.error(`🔒 Bot audit trail verification failed: ${verification.issues.length} problem(s)`);
+      }
+
+      res.json({
+        success: true,
+        verification,
+      });
+    } catch (error) {
+      logger.error('Error verifying bot audit trail:', error);
+      next(error);
+    }
+  };
+
+  public exportAuditTrail = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const trail = await BotControlService.getInstance().exportAuditTrail();
+
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="bot-audit-trail-${new Date().toISOString().slice(0, 10)}.jsonl"`);
+      res.send(trail);
+    } catch (error) {
+      logger.error('Error exporting bot audit trail:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Spending policy approval requests from the payment bots, newest first
+   */
+  public getApprovals = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const approvals = await BotControlService.getInstance().getApprovals(req.query.status as BotApprovalStatus | undefined);
+
+      res.json({
+        success: true,
+        approvals,
+      });
+    } catch (error) {
+      logger.error('Error getting bot approval requests:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Approve a held bot transaction. The bot refuses approvals from the operator who requested it (409).
+   */
+  public approve = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const approval = await BotControlService.getInstance().decideApproval(req.params.id, 'approve', req.user!.address, req.body.note);
+
+      res.json({
+        success: true,
+        message: 'Approved; the bot sends the transaction on its next attempt',
+        approval,
+      });
+    } catch (error) {
+      logger.error('Error approving bot transaction:', error);
+      next(error);
+    }
+  };
+
+  public reject = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const approval = await BotControlService.getInstance().decideApproval(req.params.id, 'reject', req.user!.address, req.body.note);
+
+      res.json({
+        success: true,
+        message: 'Rejected',
+        approval,
+      });
+    } catch (error) {
+      logger.error('Error rejecting bot transaction:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Emergency release proposals with the EIP-712 message each approver signs, newest first
+   */
+  public getEmergencyProposals = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { approvers, threshold, proposals } = await BotControlService.getInstance().getEmergencyProposals(
+        req.query.status as BotProposalStatus | undefined,
+      );
+
+      res.json({
+        success: true,
+        approvers,
+        threshold,
+        proposals,
+      });
+    } catch (error) {
+      logger.error('Error getting emergency proposals:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Sign an emergency release. The signature must be the signed-in operator's, over the proposal's typedData.
+   */
+  public signEmergencyProposal = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const proposal = await BotControlService.getInstance().signEmergencyProposal(req.params.id, req.user!.address, req.body.signature);
+
+      res.json({
+        success: true,
+        message: proposal.status === 'approved'
+          ? 'Approved; the bot sends the emergency release on its next run'
+          : `Signed (${proposal.signatures.length} of ${proposal.threshold})`,
+        proposal,
+      });
+    } catch (error) {
+      logger.error('Error signing emergency proposal:', error);
+      next(error);
+    }
+  };
+
+  public rejectEmergencyProposal = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const proposal = await BotControlService.getInstance().rejectEmergencyProposal(req.params.id, req.user!.address, req.body.note);
+
+      res.json({
+        success: true,
+        message: 'Rejected',
+        proposal,
+      });
+    } catch (error) {
+      logger.error('Error rejecting emergency proposal:', error);
+      next(error);
+    }
+  };
+
+  // seq:hash, already validated by the route
+  private parseAnchor(anchor: string | undefined): { seq: number; hash: string } | undefined {
+    if (!anchor) return undefined;
+    const [seq, hash] = anchor.split(':');
+    return { seq: Number(seq), hash };
+  }
+}
+
+export const adminController = new AdminController();
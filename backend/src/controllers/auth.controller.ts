@@ -1,13 +1,20 @@
 import { Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
+import { TokenService } from '../services/token.service';
+import { getBearerToken } from '../middlewares/auth';
 import { AuthRequest } from '../types';
 import { logger } from '../utils/logger';
+import { getSessionConfig } from '../config/session';
+import { getOperatorRole } from '../config/admin';
+import { userRepository } from '../repositories';
 
 class AuthController {
   private authService: AuthService;
+  private tokenService: TokenService;
 
   constructor() {
     this.authService = AuthService.getInstance();
+    this.tokenService = TokenService.getInstance();
   }
 
   /**
@@ -42,9 +49,8 @@ class AuthController {
       // Generate nonce
       const nonce = this.authService.generateNonce();
 
-      // Store nonce in session
+      // Store nonce in session - the address is only set once the signature is verified
       req.session.nonce = nonce;
-      req.session.address = address;
       req.session.chainId = chainId;
 
       // Create SIWE message
@@ -90,13 +96,26 @@ class AuthController {
         return;
       }
 
-      // Verify signature
+      const expectedNonce = req.session.nonce;
+      if (!expectedNonce) {
+        res.status(400).json({
+          success: false,
+          message: 'No pending nonce - request a new one',
+        });
+        return;
+      }
+
+      // Verify signature against the nonce issued to this session
       const verificationResult = await this.authService.verifySiweSignature(
         message,
         signature,
+        expectedNonce,
       );
 
-      if (!verificationResult.success) {
+      // Nonces are single-use
+      delete req.session.nonce;
+
+      if (!verificationResult.success || !verificationResult.siwe) {
         res.status(401).json({
           success: false,
           message: verificationResult.error || 'Authentication failed',
@@ -104,19 +123,45 @@ class AuthController {
         return;
       }
 
+      const siwe = verificationResult.siwe;
+      await userRepository.ensure(siwe.address, siwe.chainId);
+
+      // 🔒 SECURITY: Issue a fresh session id on login to prevent session fixation
+      await new Promise<void>((resolve, reject) => {
+        req.session.regenerate((err) => (err ? reject(err) : resolve()));
+      });
+
       // Store authentication info in session
-      req.session.address = verificationResult.address;
-      req.session.siwe = JSON.parse(message);
+      req.session.address = siwe.address;
+      req.session.chainId = siwe.chainId;
+      req.session.siwe = {
+        domain: siwe.domain,
+        address: siwe.address,
+        statement: siwe.statement || '',
+        uri: siwe.uri,
+        version: siwe.version,
+        chainId: siwe.chainId,
+        nonce: siwe.nonce,
+        issuedAt: siwe.issuedAt || new Date().toISOString(),
+        expirationTime: siwe.expirationTime,
+      };
+      req.session.expirationTime = new Date(Date.now() + getSessionConfig().maxAge).toISOString();
+      req.session.lastIP = req.ip;
+      req.session.lastActivity = new Date();
+
+      logger.info(`User authenticated: ${siwe.address}`);
 
-      logger.info(`User authenticated: ${verificationResult.address}`);
+      // Signed credentials for REST (Authorization: Bearer) and the WebRTC socket
+      const tokens = await this.tokenService.issueTokenPair(siwe.address, siwe.chainId);
 
       res.json({
         success: true,
         message: 'Authentication successful',
         user: {
-          address: verificationResult.address,
-          chainId: req.session.chainId,
+          address: siwe.address,
+          chainId: siwe.chainId,
         },
+        ...tokens,
       });
     } catch (error) {
       logger.error('Error verifying signature:', error);
@@ -133,7 +178,13 @@ class AuthController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const address = req.session.address;
+      const address = req.session.address || req.user?.address;
+
+      // Revoke the presented credentials (access token goes on the revocation list)
+      await this.tokenService.revokeTokens({
+        accessToken: getBearerToken(req) || undefined,
+        refreshToken: req.body?.refreshToken,
+      });
       
       // Destroy session
       req.session.destroy((err) => {
@@ -147,6 +198,7 @@ class AuthController {
         }
 
         logger.info(`User logged out: ${address}`);
+        res.clearCookie(getSessionConfig().name);
         res.json({
           success: true,
           message: 'Logout successful',
@@ -167,7 +219,8 @@ class AuthController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      if (!req.session.address) {
+      const address = req.user?.address || req.session.address;
+      if (!address) {
         res.status(401).json({
           success: false,
           message: 'Not authenticated',
@@ -178,8 +231,9 @@ class AuthController {
       res.json({
         success: true,
         user: {
-          address: req.session.address,
-          chainId: req.session.chainId,
+          address,
+          chainId: req.user?.chainId ?? req.session.chainId,
+          operatorRole: getOperatorRole(address), // null unless allow-listed for the admin API
         },
       });
     } catch (error) {
@@ -187,6 +241,36 @@ class AuthController {
       next(error);
     }
   };
+
+  /**
+   * Exchange a refresh token for a new access/refresh pair (rotation)
+   */
+  public refreshTokens = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      const tokens = await this.tokenService.rotateRefreshToken(refreshToken);
+      if (!tokens) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid or expired refresh token',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...tokens,
+      });
+    } catch (error) {
+      logger.error('Error refreshing tokens:', error);
+      next(error);
+    }
+  };
 }
 
 export const authController = new AuthController();
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import { logger } from '../utils/logger';
+import { BotControlService } from '../services/botControl.service';
+
+class BotController {
+  /**
+   * Scheduler state and last execution (what the dashboard polls)
+   */
+  public getHealth = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { status, health } = await BotControlService.getInstance().getStatus();
+
+      res.json({
+        success: true,
+        ...status,
+        health,
+      });
+    } catch (error) {
+      logger.error('Error getting payment bot health:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Execution summary and bot metrics
+   */
+  public getStatus = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { execution, health, metrics } = await BotControlService.getInstance().getStatus();
+
+      res.json({
+        success: true,
+        execution,
+        health,
+        metrics,
+      });
+    } catch (error) {
+      logger.error('Error getting payment bot status:', error);
+      next(error);
+    }
+  };
+
+  public getHistory = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const executions = await BotControlService.getInstance().getHistory(Number(req.params.limit) || 50);
+
+      res.json({
+        success: true,
+        executions,
+      });
+    } catch (error) {
+      logger.error('Error getting payment bot history:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Plan from the bot's most recent dry run
+   */
+  public getLatestPlan = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const plan = await BotControlService.getInstance().getLatestPlan();
+
+      res.json({
+        success: true,
+        plan,
+      });
+    } catch (error) {
+      logger.error('Error getting payment bot dry-run plan:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Trigger a run now (runs in the background on the bot). Dry runs only simulate.
+   */
+  public execute = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const dryRun = req.body?.dryRun === true;
+      const status = await BotControlService.getInstance().execute(dryRun);
+
+      res.status(202).json({
+        success: true,
+        message: dryRun ? 'Dry run started' : 'Execution started',
+        status,
+      });
+    } catch (error) {
+      logger.error('Error triggering payment bot execution:', error);
+      next(error);
+    }
+  };
+
+  public pause = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const status = await BotControlService.getInstance().pause();
+
+      res.json({
+        success: true,
+        message: 'Payment bot paused',
+        status,
+      });
+    } catch (error) {
+      logger.error('Error pausing payment bot:', error);
+      next(error);
+    }
+  };
+
+  public resume = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const status = await BotControlService.getInstance().resume();
+
+      res.json({
+        success: true,
+        message: 'Payment bot resumed',
+        status,
+      });
+    } catch (error) {
+      logger.error('Error resuming payment bot:', error);
+      next(error);
+    }
+  };
+}
+
+export const botController = new BotController();
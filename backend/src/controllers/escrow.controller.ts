@@ -0,0 +1,218 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, EscrowSessionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { escrowRepository } from '../repositories';
+import { getIndexerConfig } from '../config/indexer';
+import { EscrowIndexerService } from '../services/indexer.service';
+import { BotControlService, BotSessionActionResult } from '../services/botControl.service';
+
+class EscrowController {
+  /**
+   * List indexed escrow sessions
+   */
+  public listSessions = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { chainId, status, student, mentor, sinceBlock, page, limit } = req.query;
+
+      const { items, total } = await escrowRepository.findSessions({
+        chainId: chainId !== undefined ? Number(chainId) : undefined,
+        status: status ? (String(status).split(',') as EscrowSessionStatus[]) : undefined,
+        student: student as string | undefined,
+        mentor: mentor as string | undefined,
+        updatedSinceBlock: sinceBlock !== undefined ? Number(sinceBlock) : undefined,
+        page: Number(page) || 1,
+        limit: Number(limit) || 20,
+      });
+
+      res.json({
+        success: true,
+        sessions: items,
+        pagination: {
+          page: Number(page) || 1,
+          limit: Number(limit) || 20,
+          total,
+          totalPages: Math.ceil(total / (Number(limit) || 20)),
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing escrow sessions:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Get an escrow session with its event timeline
+   */
+  public getSession = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const chainId = Number(req.params.chainId);
+      const { sessionId } = req.params;
+
+      const session = await escrowRepository.findSession(chainId, sessionId);
+      if (!session) {
+        throw StandardApiError.notFound('Escrow session not found');
+      }
+
+      const timeline = await escrowRepository.findEventsForSession(chainId, sessionId);
+
+      res.json({
+        success: true,
+        session,
+        timeline,
+      });
+    } catch (error) {
+      logger.error('Error getting escrow session:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Indexer progress per chain
+   */
+  public getIndexerStatus = async (
+    _req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const checkpoints = await escrowRepository.listCheckpoints();
+      const indexer = EscrowIndexerService.getInstance();
+
+      res.json({
+        success: true,
+        enabled: getIndexerConfig().enabled,
+        running: indexer.isRunning(),
+        chains: indexer.getStatus().map(status => {
+          const checkpoint = checkpoints.find(c => c.chainId === status.chainId);
+          return {
+            ...status,
+            indexedBlock: status.indexedBlock ?? checkpoint?.blockNumber,
+            checkpointUpdatedAt: checkpoint?.updatedAt,
+          };
+        }),
+      });
+    } catch (error) {
+      logger.error('Error getting indexer status:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Settle a disputed session (operator). Completed pays the mentor, Cancelled refunds the student.
+   */
+  public resolveDispute = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const chainId = Number(req.params.chainId);
+      const { sessionId } = req.params;
+
+      // The contract enforces this too; checking the index first avoids a pointless transaction
+      const session = await escrowRepository.findSession(chainId, sessionId);
+      if (session && session.status !== EscrowSessionStatus.DISPUTED) {
+        throw StandardApiError.conflict(`Escrow session is ${session.status}, not DISPUTED`);
+      }
+
+      const result = await BotControlService.getInstance().resolveDispute(
+        chainId,
+        sessionId,
+        req.body.resolution,
+        req.user!.address,
+      );
+
+      this.sendActionResult(res, result, 'Dispute resolution sent');
+    } catch (error) {
+      logger.error('Error resolving escrow dispute:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Run the contract's auto-recovery for a stuck session (operator)
+   */
+  public recoverSession = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const result = await BotControlService.getInstance().recoverSession(
+        Number(req.params.chainId),
+        req.params.sessionId,
+        req.user!.address,
+      );
+
+      this.sendActionResult(res, result, 'Recovery sent');
+    } catch (error) {
+      logger.error('Error recovering escrow session:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Refund everything not yet released to the student (emergency). The bot sends it only once
+   * enough approvers have signed its emergency proposal; until then the response is the proposal.
+   */
+  public emergencyRefund = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const result = await BotControlService.getInstance().emergencyRefund(
+        Number(req.params.chainId),
+        req.params.sessionId,
+        req.body.reason,
+        req.user!.address,
+      );
+
+      this.sendActionResult(res, result, 'Emergency refund sent');
+    } catch (error) {
+      logger.error('Error sending emergency refund:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Above the spending policy's approval threshold the bot sends nothing until a second
+   * operator approves the request (POST /api/admin/approvals/:id/approve); repeat the action then
+   */
+  private sendActionResult(res: Response, result: BotSessionActionResult, sentMessage: string): void {
+    if (result.proposal) {
+      res.status(202).json({
+        success: true,
+        message: `Waiting for ${result.proposal.threshold} emergency approvers to sign`,
+        proposal: result.proposal,
+      });
+      return;
+    }
+
+    if (result.approval) {
+      res.status(202).json({
+        success: true,
+        message: 'Waiting for a second operator to approve',
+        approval: result.approval,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: sentMessage,
+      transactionHash: result.transactionHash,
+    });
+  }
+}
+
+export const escrowController = new EscrowController();
@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest, Earnings, EarningRecord } from '../types';
 import { logger } from '../utils/logger';
+import { earningRepository, profileRepository, sessionRepository } from '../repositories';
+import { EarningFilters } from '../repositories/earning.repository';
 
 class FinancialsController {
   /**
@@ -12,58 +14,30 @@ class FinancialsController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const userAddress = req.session.address!;
-      const { currency, status, startDate, endDate, page, limit } = req.query;
+      const userAddress = req.user!.address;
+      const filters = this.parseFilters(req);
 
-      // TODO: Implement database query with filters
-      // Mock earnings data
-      const mockEarningRecords: EarningRecord[] = [
-        {
-          sessionId: '1',
-          amount: 100,
-          currency: 'USDT',
-          platformFee: 10,
-          netAmount: 90,
-          status: 'completed',
-          transactionHash: '0xabcdef1234567890',
-          earnedAt: new Date(),
-        },
-        {
-          sessionId: '2',
-          amount: 80,
-          currency: 'USDC',
-          platformFee: 8,
-          netAmount: 72,
-          status: 'pending',
-          earnedAt: new Date(),
-        },
-      ];
+      const [{ items, total }, totals] = await Promise.all([
+        earningRepository.findForAddress(userAddress, filters),
+        earningRepository.getTotals(userAddress),
+      ]);
 
       const earnings: Earnings = {
         address: userAddress,
-        totalEarnings: {
-          USDT: 90,
-          USDC: 72,
-        },
-        pendingEarnings: {
-          USDT: 0,
-          USDC: 72,
-        },
-        withdrawnEarnings: {
-          USDT: 90,
-          USDC: 0,
-        },
-        earnings: mockEarningRecords,
+        totalEarnings: totals.total,
+        pendingEarnings: totals.pending,
+        withdrawnEarnings: totals.withdrawn,
+        earnings: items.map(({ id: _id, mentorshipTitle: _title, ...record }) => record),
       };
 
       res.json({
         success: true,
         earnings,
         pagination: {
-          page: Number(page) || 1,
-          limit: Number(limit) || 10,
-          total: mockEarningRecords.length,
-          totalPages: Math.ceil(mockEarningRecords.length / (Number(limit) || 10)),
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
         },
       });
     } catch (error) {
@@ -81,29 +55,28 @@ class FinancialsController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const userAddress = req.session.address!;
+      const userAddress = req.user!.address;
+      const now = new Date();
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+      const [totals, monthTotals, stats, profile] = await Promise.all([
+        earningRepository.getTotals(userAddress),
+        earningRepository.getTotals(userAddress, monthStart),
+        sessionRepository.getMentorStats(userAddress, monthStart),
+        profileRepository.findByAddress(userAddress),
+      ]);
 
-      // TODO: Implement database aggregation queries
       const summary = {
-        totalEarnings: {
-          USDT: 500,
-          USDC: 320,
-        },
-        totalSessions: 12,
-        averageRating: 4.8,
-        thisMonthEarnings: {
-          USDT: 180,
-          USDC: 160,
-        },
-        thisMonthSessions: 4,
-        pendingPayments: {
-          USDT: 0,
-          USDC: 72,
-        },
+        totalEarnings: totals.total,
+        totalSessions: stats.completedSessions,
+        averageRating: profile?.rating || 0,
+        thisMonthEarnings: monthTotals.total,
+        thisMonthSessions: stats.sessionsSince,
+        pendingPayments: totals.pending,
         lifetimeStats: {
-          totalStudents: 18,
-          repeatCustomers: 6,
-          averageSessionDuration: 105, // minutes
+          totalStudents: stats.totalStudents,
+          repeatCustomers: stats.repeatCustomers,
+          averageSessionDuration: stats.averageSessionDuration, // minutes
         },
       };
 
@@ -126,42 +99,31 @@ class FinancialsController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const userAddress = req.session.address!;
-      const { currency, status, startDate, endDate, page, limit } = req.query;
+      const userAddress = req.user!.address;
+      const filters = this.parseFilters(req);
 
-      // TODO: Implement database query with filters
-      const mockTransactions = [
-        {
-          id: '1',
-          type: 'earning',
-          sessionId: '1',
-          amount: 90,
-          currency: 'USDT',
-          status: 'completed',
-          transactionHash: '0xabcdef1234567890',
-          timestamp: new Date(),
-          description: 'Payment for Solidity Smart Contract session',
-        },
-        {
-          id: '2',
-          type: 'earning',
-          sessionId: '2',
-          amount: 72,
-          currency: 'USDC',
-          status: 'pending',
-          timestamp: new Date(),
-          description: 'Payment for DeFi Protocol Design session',
-        },
-      ];
+      const { items, total } = await earningRepository.findForAddress(userAddress, filters);
+
+      const transactions = items.map(earning => ({
+        id: earning.id,
+        type: 'earning',
+        sessionId: earning.sessionId,
+        amount: earning.netAmount,
+        currency: earning.currency,
+        status: earning.status,
+        transactionHash: earning.transactionHash,
+        timestamp: earning.earnedAt,
+        description: `Payment for ${earning.mentorshipTitle || 'mentorship'} session`,
+      }));
 
       res.json({
         success: true,
-        transactions: mockTransactions,
+        transactions,
         pagination: {
-          page: Number(page) || 1,
-          limit: Number(limit) || 10,
-          total: mockTransactions.length,
-          totalPages: Math.ceil(mockTransactions.length / (Number(limit) || 10)),
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
         },
       });
     } catch (error) {
@@ -169,6 +131,22 @@ class FinancialsController {
       next(error);
     }
   };
+
+  /**
+   * Convert validated query parameters into repository filters
+   */
+  private parseFilters(req: AuthRequest): EarningFilters {
+    const { currency, status, startDate, endDate, page, limit } = req.query;
+
+    return {
+      currency: currency as EarningRecord['currency'] | undefined,
+      status: status as EarningRecord['status'] | undefined,
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+    };
+  }
 }
 
-export const financialsController = new FinancialsController();
\ No newline at end of file
+export const financialsController = new FinancialsController();
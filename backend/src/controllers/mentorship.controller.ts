@@ -1,6 +1,14 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest, Mentorship, MentorshipSession } from '../types';
+import { AuthRequest, Mentorship, MentorshipSession, SessionStatus } from '../types';
 import { logger } from '../utils/logger';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { mentorshipRepository, sessionRepository } from '../repositories';
+import { BookingService } from '../services/booking.service';
+
+const bookingService = BookingService.getInstance();
+
+// Longest range the availability endpoint returns
+const MAX_AVAILABILITY_RANGE = 31 * 24 * 60 * 60 * 1000;
 
 class MentorshipController {
   /**
@@ -24,49 +32,26 @@ class MentorshipController {
         sortOrder,
       } = req.query;
 
-      // TODO: Implement database query with filters
-      // Mock mentorships data
-      const mockMentorships: Mentorship[] = [
-        {
-          id: '1',
-          mentorAddress: '0x1234567890123456789012345678901234567890',
-          title: 'Solidity Smart Contract Development',
-          description: 'Learn to build secure smart contracts with Solidity',
-          category: 'Development',
-          skills: ['Solidity', 'Smart Contracts', 'Security'],
-          duration: 120,
-          price: 100,
-          currency: 'USDT',
-          maxStudents: 1,
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          id: '2',
-          mentorAddress: '0x2345678901234567890123456789012345678901',
-          title: 'DeFi Protocol Design',
-          description: 'Master the fundamentals of DeFi protocol architecture',
-          category: 'DeFi',
-          skills: ['DeFi', 'Protocol Design', 'Tokenomics'],
-          duration: 90,
-          price: 80,
-          currency: 'USDC',
-          maxStudents: 2,
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
+      const { items, total } = await mentorshipRepository.search({
+        category: category as string | undefined,
+        skills: skills ? String(skills).split(',').map(skill => skill.trim()).filter(Boolean) : undefined,
+        minPrice: minPrice !== undefined ? Number(minPrice) : undefined,
+        maxPrice: maxPrice !== undefined ? Number(maxPrice) : undefined,
+        currency: currency as 'USDT' | 'USDC' | undefined,
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        sortBy: sortBy as 'price' | 'rating' | 'created' | 'updated' | undefined,
+        sortOrder: sortOrder as 'asc' | 'desc' | undefined,
+      });
 
       res.json({
         success: true,
-        mentorships: mockMentorships,
+        mentorships: items,
         pagination: {
           page: Number(page) || 1,
           limit: Number(limit) || 10,
-          total: mockMentorships.length,
-          totalPages: Math.ceil(mockMentorships.length / (Number(limit) || 10)),
+          total,
+          totalPages: Math.ceil(total / (Number(limit) || 10)),
         },
       });
     } catch (error) {
@@ -84,18 +69,10 @@ class MentorshipController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const mentorAddress = req.session.address!;
+      const mentorAddress = req.user!.address;
       const mentorshipData = req.body;
 
-      // TODO: Implement database creation
-      const newMentorship: Mentorship = {
-        id: Date.now().toString(), // Mock ID
-        mentorAddress,
-        ...mentorshipData,
-        isActive: true,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      const newMentorship = await mentorshipRepository.create(mentorAddress, mentorshipData);
 
       logger.info(`Mentorship created by ${mentorAddress}:`, newMentorship);
 
@@ -121,26 +98,14 @@ class MentorshipController {
     try {
       const { id } = req.params;
 
-      // TODO: Implement database query
-      const mockMentorship: Mentorship = {
-        id,
-        mentorAddress: '0x1234567890123456789012345678901234567890',
-        title: 'Solidity Smart Contract Development',
-        description: 'Learn to build secure smart contracts with Solidity',
-        category: 'Development',
-        skills: ['Solidity', 'Smart Contracts', 'Security'],
-        duration: 120,
-        price: 100,
-        currency: 'USDT',
-        maxStudents: 1,
-        isActive: true,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      const mentorship = await mentorshipRepository.findById(id);
+      if (!mentorship) {
+        throw StandardApiError.notFound('Mentorship not found');
+      }
 
       res.json({
         success: true,
-        mentorship: mockMentorship,
+        mentorship,
       });
     } catch (error) {
       logger.error('Error getting mentorship:', error);
@@ -158,15 +123,18 @@ class MentorshipController {
   ): Promise<void> => {
     try {
       const { id } = req.params;
-      const mentorAddress = req.session.address!;
+      const mentorAddress = req.user!.address;
       const updateData = req.body;
 
-      // TODO: Implement ownership check and database update
+      await this.findOwnedMentorship(id, mentorAddress);
+      const mentorship = await mentorshipRepository.update(id, updateData);
+
       logger.info(`Mentorship ${id} updated by ${mentorAddress}:`, updateData);
 
       res.json({
         success: true,
         message: 'Mentorship updated successfully',
+        mentorship,
       });
     } catch (error) {
       logger.error('Error updating mentorship:', error);
@@ -184,14 +152,18 @@ class MentorshipController {
   ): Promise<void> => {
     try {
       const { id } = req.params;
-      const mentorAddress = req.session.address!;
+      const mentorAddress = req.user!.address;
+
+      await this.findOwnedMentorship(id, mentorAddress);
+      const result = await mentorshipRepository.delete(id);
 
-      // TODO: Implement ownership check and database deletion
-      logger.info(`Mentorship ${id} deleted by ${mentorAddress}`);
+      logger.info(`Mentorship ${id} ${result} by ${mentorAddress}`);
 
       res.json({
         success: true,
-        message: 'Mentorship deleted successfully',
+        message: result === 'deleted'
+          ? 'Mentorship deleted successfully'
+          : 'Mentorship has booked sessions and was deactivated instead of deleted',
       });
     } catch (error) {
       logger.error('Error deleting mentorship:', error);
@@ -200,7 +172,42 @@ class MentorshipController {
   };
 
   /**
-   * Book a mentorship session
+   * Get the mentor's open schedule windows and occupied slots for a mentorship
+   */
+  public getAvailability = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+
+      if (to <= from || to.getTime() - from.getTime() > MAX_AVAILABILITY_RANGE) {
+        throw StandardApiError.badRequest('The availability range must be positive and at most 31 days');
+      }
+
+      const mentorship = await mentorshipRepository.findById(id);
+      if (!mentorship || !mentorship.isActive) {
+        throw StandardApiError.notFound('Mentorship not found');
+      }
+
+      const availability = await bookingService.getAvailability(mentorship, from, to);
+
+      res.json({
+        success: true,
+        duration: mentorship.duration,
+        ...availability,
+      });
+    } catch (error) {
+      logger.error('Error getting mentorship availability:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Book a mentorship session - holds the slot until the escrow payment is confirmed
    */
   public bookSession = async (
     req: AuthRequest,
@@ -208,7 +215,7 @@ class MentorshipController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const studentAddress = req.session.address!;
+      const studentAddress = req.user!.address;
       const { mentorshipId, scheduledAt } = req.body;
 
       // Validate scheduled time is in the future
@@ -220,26 +227,22 @@ class MentorshipController {
         return;
       }
 
-      // TODO: Implement mentorship lookup, availability check, and session creation
-      const newSession: MentorshipSession = {
-        id: Date.now().toString(),
-        mentorshipId,
-        mentorAddress: '0x1234567890123456789012345678901234567890', // Mock
-        studentAddress,
-        scheduledAt: new Date(scheduledAt),
-        duration: 120,
-        price: 100,
-        currency: 'USDT',
-        status: 'SCHEDULED' as any,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      logger.info(`Session booked by ${studentAddress}:`, newSession);
+      const mentorship = await mentorshipRepository.findById(mentorshipId);
+      if (!mentorship || !mentorship.isActive) {
+        throw StandardApiError.notFound('Mentorship not found');
+      }
+
+      if (mentorship.mentorAddress.toLowerCase() === studentAddress.toLowerCase()) {
+        throw StandardApiError.badRequest('You cannot book your own mentorship');
+      }
+
+      const newSession = await bookingService.reserve(studentAddress, mentorship, new Date(scheduledAt));
+
+      logger.info(`Session slot held by ${studentAddress}:`, newSession);
 
       res.status(201).json({
         success: true,
-        message: 'Session booked successfully',
+        message: 'Time slot held - complete the escrow payment to confirm the session',
         session: newSession,
       });
     } catch (error) {
@@ -247,6 +250,106 @@ class MentorshipController {
       next(error);
     }
   };
+
+  /**
+   * Get the current state of one of the student's bookings
+   */
+  public getBooking = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const session = await this.findOwnBooking(req.params.sessionId, req.user!.address);
+
+      res.json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      logger.error('Error getting booking:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Attach the escrow createProgressiveSession transaction to a held slot
+   */
+  public attachBookingTransaction = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const { transactionHash, chainId } = req.body;
+      const session = await this.findOwnBooking(req.params.sessionId, req.user!.address);
+
+      const updated = await bookingService.attachTransaction(session, transactionHash, chainId);
+
+      res.json({
+        success: true,
+        message: updated.status === SessionStatus.SCHEDULED
+          ? 'Payment confirmed - session booked'
+          : 'Payment pending - the slot is held until the transaction is confirmed',
+        session: updated,
+      });
+    } catch (error) {
+      logger.error('Error attaching booking transaction:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Release a held slot (payment cancelled or failed)
+   */
+  public releaseBooking = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const session = await this.findOwnBooking(req.params.sessionId, req.user!.address);
+
+      if (session.status !== SessionStatus.PENDING_PAYMENT) {
+        throw StandardApiError.conflict('Only held slots awaiting payment can be released');
+      }
+
+      await bookingService.release(session, 'released by student');
+
+      res.json({
+        success: true,
+        message: 'Time slot released',
+      });
+    } catch (error) {
+      logger.error('Error releasing booking:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Load a session and verify it was booked by the given student
+   */
+  private async findOwnBooking(sessionId: string, studentAddress: string): Promise<MentorshipSession> {
+    const session = await sessionRepository.findById(sessionId);
+    if (!session || session.studentAddress.toLowerCase() !== studentAddress.toLowerCase()) {
+      throw StandardApiError.notFound('Booking not found');
+    }
+    return session;
+  }
+
+  /**
+   * Load a mentorship and verify it belongs to the given mentor
+   */
+  private async findOwnedMentorship(id: string, mentorAddress: string): Promise<Mentorship> {
+    const mentorship = await mentorshipRepository.findById(id);
+    if (!mentorship) {
+      throw StandardApiError.notFound('Mentorship not found');
+    }
+    if (mentorship.mentorAddress.toLowerCase() !== mentorAddress.toLowerCase()) {
+      throw StandardApiError.forbidden('You can only modify your own mentorships');
+    }
+    return mentorship;
+  }
 }
 
 export const mentorshipController = new MentorshipController();
\ No newline at end of file
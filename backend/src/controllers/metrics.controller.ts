@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../utils/metrics';
+import { getMetricsConfig } from '../config/metrics';
+import { getBotControlConfig } from '../config/bot';
+import { BotControlService } from '../services/botControl.service';
+
+const botUp = metricsRegistry.gauge('chain_academy_bot_up', 'Whether the payment bot answered the last metrics scrape');
+
+class MetricsController {
+  /**
+   * API server metrics, followed by the payment bot's own when it is connected
+   */
+  public getMetrics = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const botMetrics = await this.getBotMetrics();
+      const body = await metricsRegistry.render();
+
+      res.set('Content-Type', PROMETHEUS_CONTENT_TYPE);
+      res.send(botMetrics ? `${body}${botMetrics}` : body);
+    } catch (error) {
+      logger.error('Error rendering metrics:', error);
+      next(error);
+    }
+  };
+
+  // The scrape still succeeds without the bot; chain_academy_bot_up reports it as down
+  private async getBotMetrics(): Promise<string | null> {
+    if (!getMetricsConfig().includeBotMetrics || !getBotControlConfig().url) {
+      return null;
+    }
+
+    try {
+      const text = await BotControlService.getInstance().getMetrics();
+      botUp.set({}, 1);
+      return text;
+    } catch (error) {
+      logger.warn(`Payment bot metrics unavailable: ${(error as Error).message}`);
+      botUp.set({}, 0);
+      return null;
+    }
+  }
+}
+
+export const metricsController = new MetricsController();
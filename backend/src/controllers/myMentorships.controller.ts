@@ -1,6 +1,25 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest, MentorshipSession, Mentorship, SessionStatus } from '../types';
+import { AuthRequest, MentorshipSession, SessionFeedback, SessionStatus } from '../types';
 import { logger } from '../utils/logger';
+import { PLATFORM_FEE_PERCENTAGE } from '../utils/constants';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { getDatabase } from '../database';
+import {
+  earningRepository,
+  mentorshipRepository,
+  profileRepository,
+  sessionRepository,
+} from '../repositories';
+
+// Allowed status transitions for participants
+const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  [SessionStatus.PENDING_PAYMENT]: [], // held slots are confirmed or released by the booking service
+  [SessionStatus.SCHEDULED]: [SessionStatus.IN_PROGRESS, SessionStatus.CANCELLED],
+  [SessionStatus.IN_PROGRESS]: [SessionStatus.COMPLETED, SessionStatus.CANCELLED],
+  [SessionStatus.COMPLETED]: [],
+  [SessionStatus.CANCELLED]: [],
+  [SessionStatus.DISPUTED]: [],
+};
 
 class MyMentorshipsController {
   /**
@@ -12,55 +31,24 @@ class MyMentorshipsController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const userAddress = req.session.address!;
+      const userAddress = req.user!.address;
       const { status, role, page, limit } = req.query;
 
-      // TODO: Implement database query with filters
-      // Mock sessions data
-      const mockSessions: MentorshipSession[] = [
-        {
-          id: '1',
-          mentorshipId: '1',
-          mentorAddress: '0x1234567890123456789012345678901234567890',
-          studentAddress: userAddress,
-          scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
-          duration: 120,
-          price: 100,
-          currency: 'USDT',
-          status: SessionStatus.SCHEDULED,
-          roomId: 'room_1',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          id: '2',
-          mentorshipId: '2',
-          mentorAddress: userAddress,
-          studentAddress: '0x2345678901234567890123456789012345678901',
-          scheduledAt: new Date(Date.now() - 24 * 60 * 60 * 1000), // Yesterday
-          duration: 90,
-          price: 80,
-          currency: 'USDC',
-          status: SessionStatus.COMPLETED,
-          feedback: {
-            rating: 5,
-            comment: 'Excellent session!',
-            submittedBy: '0x2345678901234567890123456789012345678901',
-            submittedAt: new Date(),
-          },
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
+      const { items, total } = await sessionRepository.findForUser(userAddress, {
+        status: status as SessionStatus | undefined,
+        role: role as 'mentor' | 'student' | undefined,
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+      });
 
       res.json({
         success: true,
-        sessions: mockSessions,
+        sessions: items,
         pagination: {
           page: Number(page) || 1,
           limit: Number(limit) || 10,
-          total: mockSessions.length,
-          totalPages: Math.ceil(mockSessions.length / (Number(limit) || 10)),
+          total,
+          totalPages: Math.ceil(total / (Number(limit) || 10)),
         },
       });
     } catch (error) {
@@ -78,30 +66,13 @@ class MyMentorshipsController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const mentorAddress = req.session.address!;
-
-      // TODO: Implement database query
-      const mockMentorships: Mentorship[] = [
-        {
-          id: '1',
-          mentorAddress,
-          title: 'Solidity Smart Contract Development',
-          description: 'Learn to build secure smart contracts with Solidity',
-          category: 'Development',
-          skills: ['Solidity', 'Smart Contracts', 'Security'],
-          duration: 120,
-          price: 100,
-          currency: 'USDT',
-          maxStudents: 1,
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
+      const mentorAddress = req.user!.address;
+
+      const mentorships = await mentorshipRepository.findByMentor(mentorAddress);
 
       res.json({
         success: true,
-        mentorships: mockMentorships,
+        mentorships,
       });
     } catch (error) {
       logger.error('Error getting user mentorships:', error);
@@ -119,15 +90,49 @@ class MyMentorshipsController {
   ): Promise<void> => {
     try {
       const { sessionId } = req.params;
-      const { status } = req.body;
-      const userAddress = req.session.address!;
+      const { status } = req.body as { status: SessionStatus };
+      const userAddress = req.user!.address;
+
+      const session = await this.findParticipantSession(sessionId, userAddress);
+
+      if (!STATUS_TRANSITIONS[session.status].includes(status)) {
+        throw StandardApiError.conflict(`Cannot change session status from ${session.status} to ${status}`);
+      }
+
+      // Only the mentor can mark a session as completed
+      if (status === SessionStatus.COMPLETED && !this.isSameAddress(session.mentorAddress, userAddress)) {
+        throw StandardApiError.forbidden('Only the mentor can complete a session');
+      }
+
+      const updatedSession = await getDatabase().transaction(async (tx) => {
+        const updated = await sessionRepository.updateStatus(sessionId, status, tx);
+
+        if (status === SessionStatus.COMPLETED) {
+          const platformFee = (session.price * PLATFORM_FEE_PERCENTAGE) / 100;
+          await earningRepository.create({
+            sessionId,
+            address: session.mentorAddress,
+            amount: session.price,
+            currency: session.currency,
+            platformFee,
+            netAmount: session.price - platformFee,
+            status: 'pending',
+            transactionHash: session.transactionHash,
+          }, tx);
+
+          const stats = await sessionRepository.getMentorStats(session.mentorAddress, new Date(0), tx);
+          await profileRepository.updateStats(session.mentorAddress, { totalSessions: stats.completedSessions }, tx);
+        }
+
+        return updated;
+      });
 
-      // TODO: Implement ownership check and database update
       logger.info(`Session ${sessionId} status updated to ${status} by ${userAddress}`);
 
       res.json({
         success: true,
         message: 'Session status updated successfully',
+        session: updatedSession,
       });
     } catch (error) {
       logger.error('Error updating session status:', error);
@@ -146,16 +151,35 @@ class MyMentorshipsController {
     try {
       const { sessionId } = req.params;
       const { rating, comment } = req.body;
-      const userAddress = req.session.address!;
+      const userAddress = req.user!.address;
+
+      const session = await this.findParticipantSession(sessionId, userAddress);
+
+      if (!this.isSameAddress(session.studentAddress, userAddress)) {
+        throw StandardApiError.forbidden('Only the student can submit feedback for a session');
+      }
+      if (session.status !== SessionStatus.COMPLETED) {
+        throw StandardApiError.conflict('Feedback can only be submitted for completed sessions');
+      }
+      if (session.feedback) {
+        throw StandardApiError.conflict('Feedback has already been submitted for this session');
+      }
 
-      // TODO: Implement session validation and feedback storage
-      const feedback = {
+      const feedback: SessionFeedback = {
         rating,
         comment,
         submittedBy: userAddress,
         submittedAt: new Date(),
       };
 
+      await getDatabase().transaction(async (tx) => {
+        await sessionRepository.setFeedback(sessionId, feedback, tx);
+
+        const ratings = await sessionRepository.getMentorRatings(session.mentorAddress, tx);
+        const average = ratings.reduce((sum, value) => sum + value, 0) / ratings.length;
+        await profileRepository.updateStats(session.mentorAddress, { rating: Math.round(average * 10) / 10 }, tx);
+      });
+
       logger.info(`Feedback submitted for session ${sessionId} by ${userAddress}:`, feedback);
 
       res.json({
@@ -179,34 +203,37 @@ class MyMentorshipsController {
   ): Promise<void> => {
     try {
       const { sessionId } = req.params;
-      const userAddress = req.session.address!;
-
-      // TODO: Implement database query with access control
-      const mockSession: MentorshipSession = {
-        id: sessionId,
-        mentorshipId: '1',
-        mentorAddress: '0x1234567890123456789012345678901234567890',
-        studentAddress: userAddress,
-        scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        duration: 120,
-        price: 100,
-        currency: 'USDT',
-        status: SessionStatus.SCHEDULED,
-        roomId: `room_${sessionId}`,
-        transactionHash: '0xabcdef...',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      const userAddress = req.user!.address;
+
+      const session = await this.findParticipantSession(sessionId, userAddress);
 
       res.json({
         success: true,
-        session: mockSession,
+        session,
       });
     } catch (error) {
       logger.error('Error getting session details:', error);
       next(error);
     }
   };
+
+  /**
+   * Load a session and verify the user is its mentor or student
+   */
+  private async findParticipantSession(sessionId: string, userAddress: string): Promise<MentorshipSession> {
+    const session = await sessionRepository.findById(sessionId);
+    if (!session) {
+      throw StandardApiError.notFound('Session not found');
+    }
+    if (!this.isSameAddress(session.mentorAddress, userAddress) && !this.isSameAddress(session.studentAddress, userAddress)) {
+      throw StandardApiError.forbidden('You are not a participant in this session');
+    }
+    return session;
+  }
+
+  private isSameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
 }
 
-export const myMentorshipsController = new MyMentorshipsController();
\ No newline at end of file
+export const myMentorshipsController = new MyMentorshipsController();
@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest, UserProfile } from '../types';
 import { logger } from '../utils/logger';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { profileRepository } from '../repositories';
 
 class ProfileController {
   /**
@@ -12,11 +14,9 @@ class ProfileController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const address = req.session.address!;
+      const address = req.user!.address;
 
-      // TODO: Implement database query
-      // For now, return mock data
-      const profile: UserProfile = {
+      const profile: UserProfile = (await profileRepository.findByAddress(address)) || {
         address,
         username: `user_${address.slice(2, 8)}`,
         bio: '',
@@ -54,31 +54,12 @@ class ProfileController {
     next: NextFunction,
   ): Promise<void> => {
     try {
-      const address = req.session.address!;
+      const address = req.user!.address;
       const updateData = req.body;
 
-      // TODO: Implement database update
-      logger.info(`Profile update for ${address}:`, updateData);
+      const updatedProfile = await profileRepository.upsert(address, updateData);
 
-      // Mock updated profile
-      const updatedProfile: UserProfile = {
-        address,
-        username: updateData.username || `user_${address.slice(2, 8)}`,
-        bio: updateData.bio || '',
-        avatar: updateData.avatar || '',
-        isMentor: updateData.isMentor || false,
-        skills: updateData.skills || [],
-        hourlyRate: updateData.hourlyRate || 0,
-        currency: updateData.currency || 'USDT',
-        availability: updateData.availability || {
-          timezone: 'UTC',
-          schedule: [],
-        },
-        rating: 0,
-        totalSessions: 0,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      logger.info(`Profile update for ${address}:`, updateData);
 
       res.json({
         success: true,
@@ -111,26 +92,23 @@ class ProfileController {
         return;
       }
 
-      // TODO: Implement database query
-      // For now, return mock public profile
+      const profile = await profileRepository.findByAddress(address);
+      if (!profile) {
+        throw StandardApiError.notFound('Profile not found');
+      }
+
       const publicProfile = {
-        address,
-        username: `user_${address.slice(2, 8)}`,
-        bio: 'Blockchain enthusiast and mentor.',
-        avatar: '',
-        isMentor: true,
-        skills: ['Solidity', 'Web3', 'DeFi'],
-        hourlyRate: 50,
-        currency: 'USDT' as const,
-        availability: {
-          timezone: 'UTC',
-          schedule: [
-            { dayOfWeek: 1, startTime: '09:00', endTime: '17:00' },
-            { dayOfWeek: 2, startTime: '09:00', endTime: '17:00' },
-          ],
-        },
-        rating: 4.8,
-        totalSessions: 25,
+        address: profile.address,
+        username: profile.username,
+        bio: profile.bio,
+        avatar: profile.avatar,
+        isMentor: profile.isMentor,
+        skills: profile.skills,
+        hourlyRate: profile.hourlyRate,
+        currency: profile.currency,
+        availability: profile.availability,
+        rating: profile.rating,
+        totalSessions: profile.totalSessions,
       };
 
       res.json({
@@ -0,0 +1,105 @@
+import { createConnection, DatabaseConnection } from './connection';
+
+const sqlite = (): DatabaseConnection => createConnection({
+  client: 'sqlite',
+  filename: ':memory:',
+  host: '',
+  port: 0,
+  database: '',
+  username: '',
+  password: '',
+  maxConnections: 1,
+});
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SqliteConnection', () => {
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    db = sqlite();
+    await db.execute('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('binds booleans and undefined', async () => {
+    await db.execute('CREATE TABLE flags (value INTEGER, note TEXT)');
+    await db.execute('INSERT INTO flags (value, note) VALUES (?, ?)', [true, undefined]);
+
+    expect(await db.queryOne('SELECT value, note FROM flags')).toEqual({ value: 1, note: null });
+  });
+
+  it('commits the transaction work', async () => {
+    await db.transaction(async tx => {
+      await tx.execute('INSERT INTO items (name) VALUES (?)', ['a']);
+      await tx.execute('INSERT INTO items (name) VALUES (?)', ['b']);
+    });
+
+    expect(await db.query('SELECT name FROM items ORDER BY id')).toEqual([{ name: 'a' }, { name: 'b' }]);
+  });
+
+  it('rolls back when the work throws', async () => {
+    await expect(db.transaction(async tx => {
+      await tx.execute('INSERT INTO items (name) VALUES (?)', ['a']);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await db.query('SELECT * FROM items')).toEqual([]);
+  });
+
+  it('keeps statements from other callers out of an open transaction', async () => {
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+
+    const failing = db.transaction(async tx => {
+      await tx.execute('INSERT INTO items (name) VALUES (?)', ['in-transaction']);
+      await held;
+      throw new Error('rolled back');
+    });
+    await tick();
+
+    // Issued while the transaction awaits: must neither see nor share its fate
+    const outside = db.execute('INSERT INTO items (name) VALUES (?)', ['outside']);
+    await tick();
+    release();
+
+    await expect(failing).rejects.toThrow('rolled back');
+    await outside;
+    expect(await db.query('SELECT name FROM items')).toEqual([{ name: 'outside' }]);
+  });
+
+  it('runs concurrent transactions one after the other', async () => {
+    const order: string[] = [];
+    const run = (name: string) => db.transaction(async tx => {
+      order.push(`${name}:begin`);
+      await tick();
+      await tx.execute('INSERT INTO items (name) VALUES (?)', [name]);
+      order.push(`${name}:end`);
+    });
+
+    await Promise.all([run('first'), run('second')]);
+
+    expect(order).toEqual(['first:begin', 'first:end', 'second:begin', 'second:end']);
+    expect(await db.query('SELECT name FROM items ORDER BY id')).toEqual([{ name: 'first' }, { name: 'second' }]);
+  });
+
+  it('joins a nested transaction, like the PostgreSQL driver', async () => {
+    await db.transaction(async tx => {
+      await tx.execute('INSERT INTO items (name) VALUES (?)', ['outer']);
+      await tx.transaction(async inner => {
+        await inner.execute('INSERT INTO items (name) VALUES (?)', ['inner']);
+      });
+      // A call on the connection itself from inside the transaction joins it instead of waiting for it
+      await db.execute('INSERT INTO items (name) VALUES (?)', ['same-context']);
+    });
+
+    expect(await db.query('SELECT name FROM items ORDER BY id')).toEqual([
+      { name: 'outer' },
+      { name: 'inner' },
+      { name: 'same-context' },
+    ]);
+  });
+});
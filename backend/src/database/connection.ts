@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import BetterSqlite3 from 'better-sqlite3';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseClient, DatabaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+export type SqlParam = string | number | boolean | null | undefined;
+
+export interface ExecuteResult {
+  changes: number;
+}
+
+/**
+ * Minimal async database interface shared by the SQLite and PostgreSQL drivers.
+ * Queries are written with `?` placeholders and portable SQL.
+ */
+export interface DatabaseConnection {
+  readonly client: DatabaseClient;
+  query<T = any>(sql: string, params?: SqlParam[]): Promise<T[]>;
+  queryOne<T = any>(sql: string, params?: SqlParam[]): Promise<T | undefined>;
+  execute(sql: string, params?: SqlParam[]): Promise<ExecuteResult>;
+  transaction<T>(work: (tx: DatabaseConnection) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * Embedded SQLite driver used for local development and tests.
+ * There is a single connection, so BEGIN/COMMIT would take in every statement run while a
+ * transaction awaits. Statements and transactions therefore run one at a time through a queue;
+ * statements issued from inside a transaction (including nested transaction() calls) join it.
+ */
+class SqliteConnection implements DatabaseConnection {
+  public readonly client: DatabaseClient = 'sqlite';
+  private db: BetterSqlite3.Database;
+  private queue: Promise<unknown> = Promise.resolve();
+  private currentTransaction = new AsyncLocalStorage<{ open: boolean }>();
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      const dir = path.dirname(filename);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = new BetterSqlite3(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  public query<T = any>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    return this.run(() => this.db.prepare(sql).all(...this.bind(params)) as T[]);
+  }
+
+  public queryOne<T = any>(sql: string, params: SqlParam[] = []): Promise<T | undefined> {
+    return this.run(() => this.db.prepare(sql).get(...this.bind(params)) as T | undefined);
+  }
+
+  public execute(sql: string, params: SqlParam[] = []): Promise<ExecuteResult> {
+    return this.run(() => ({ changes: this.db.prepare(sql).run(...this.bind(params)).changes }));
+  }
+
+  public transaction<T>(work: (tx: DatabaseConnection) => Promise<T>): Promise<T> {
+    if (this.inTransaction()) {
+      // Already inside a transaction
+      return work(this);
+    }
+
+    return this.enqueue(() => {
+      const scope = { open: true };
+      return this.currentTransaction.run(scope, async () => {
+        this.db.exec('BEGIN');
+        try {
+          const result = await work(this);
+          this.db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          this.db.exec('ROLLBACK');
+          throw error;
+        } finally {
+          scope.open = false;
+        }
+      });
+    });
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private run<T>(statement: () => T): Promise<T> {
+    if (this.inTransaction()) {
+      return new Promise<T>(resolve => resolve(statement()));
+    }
+    return this.enqueue(async () => statement());
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Work started by a transaction that outlives it (not awaited) queues like any other
+  private inTransaction(): boolean {
+    return !!this.currentTransaction.getStore()?.open;
+  }
+
+  // SQLite cannot bind booleans or undefined
+  private bind(params: SqlParam[]): (string | number | null)[] {
+    return params.map(param => {
+      if (typeof param === 'boolean') return param ? 1 : 0;
+      if (param === undefined) return null;
+      return param;
+    });
+  }
+}
+
+/**
+ * PostgreSQL driver backed by a connection pool
+ */
+class PostgresConnection implements DatabaseConnection {
+  public readonly client: DatabaseClient = 'postgres';
+
+  constructor(private pool: Pool, private txClient?: PoolClient) {}
+
+  public async query<T = any>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    const result = await (this.txClient || this.pool).query(this.toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  public async queryOne<T = any>(sql: string, params: SqlParam[] = []): Promise<T | undefined> {
+    const rows = await this.query<T>(sql, params);
+    return rows[0];
+  }
+
+  public async execute(sql: string, params: SqlParam[] = []): Promise<ExecuteResult> {
+    const result = await (this.txClient || this.pool).query(this.toPositional(sql), params);
+    return { changes: result.rowCount || 0 };
+  }
+
+  public async transaction<T>(work: (tx: DatabaseConnection) => Promise<T>): Promise<T> {
+    if (this.txClient) {
+      // Already inside a transaction
+      return work(this);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(new PostgresConnection(this.pool, client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Convert `?` placeholders to PostgreSQL's `$1, $2, ...`
+  private toPositional(sql: string): string {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  }
+}
+
+/**
+ * Create a database connection for the configured client
+ */
+export const createConnection = (config: DatabaseConfig): DatabaseConnection => {
+  if (config.client === 'postgres') {
+    const pool = new Pool(
+      config.connectionString
+        ? { connectionString: config.connectionString, max: config.maxConnections }
+        : {
+            host: config.host,
+            port: config.port,
+            database: config.database,
+            user: config.username,
+            password: config.password,
+            ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+            max: config.maxConnections,
+          },
+    );
+
+    pool.on('error', (error) => {
+      logger.error('PostgreSQL pool error:', error);
+    });
+
+    logger.info(`Database: using PostgreSQL (${config.connectionString ? 'DATABASE_URL' : `${config.host}:${config.port}/${config.database}`})`);
+    return new PostgresConnection(pool);
+  }
+
+  logger.info(`Database: using embedded SQLite (${config.filename})`);
+  return new SqliteConnection(config.filename);
+};
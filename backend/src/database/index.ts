@@ -0,0 +1,44 @@
+import { getDatabaseConfig, DatabaseConfig } from '../config/database';
+import { createConnection, DatabaseConnection } from './connection';
+import { runMigrations } from './migrations';
+
+export type { DatabaseConnection, SqlParam } from './connection';
+
+let connection: DatabaseConnection | null = null;
+
+/**
+ * Open the database connection and apply pending migrations.
+ * Safe to call more than once; subsequent calls return the open connection.
+ */
+export const initializeDatabase = async (
+  config: DatabaseConfig = getDatabaseConfig(),
+): Promise<DatabaseConnection> => {
+  if (connection) {
+    return connection;
+  }
+
+  const db = createConnection(config);
+  await runMigrations(db);
+  connection = db;
+  return connection;
+};
+
+/**
+ * Get the open database connection
+ */
+export const getDatabase = (): DatabaseConnection => {
+  if (!connection) {
+    throw new Error('Database not initialized - call initializeDatabase() first');
+  }
+  return connection;
+};
+
+/**
+ * Close the database connection (used on shutdown and between tests)
+ */
+export const closeDatabase = async (): Promise<void> => {
+  if (connection) {
+    await connection.close();
+    connection = null;
+  }
+};
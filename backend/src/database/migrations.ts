@@ -0,0 +1,259 @@
+import { DatabaseConnection } from './connection';
+import { logger } from '../utils/logger';
+
+export interface Migration {
+  id: string;
+  statements: string[];
+}
+
+/**
+ * Ordered schema migrations. Never edit an applied migration - append a new one.
+ * Timestamps are stored as ISO-8601 text and JSON columns as text so the same
+ * SQL runs on SQLite and PostgreSQL.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    id: '001_initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS users (
+        address TEXT PRIMARY KEY,
+        chain_id INTEGER,
+        nonce TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS profiles (
+        address TEXT PRIMARY KEY REFERENCES users(address),
+        username TEXT,
+        bio TEXT,
+        avatar TEXT,
+        is_mentor BOOLEAN NOT NULL DEFAULT FALSE,
+        skills TEXT NOT NULL DEFAULT '[]',
+        hourly_rate DOUBLE PRECISION NOT NULL DEFAULT 0,
+        currency TEXT NOT NULL DEFAULT 'USDT',
+        availability TEXT,
+        rating DOUBLE PRECISION NOT NULL DEFAULT 0,
+        total_sessions INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS mentorships (
+        id TEXT PRIMARY KEY,
+        mentor_address TEXT NOT NULL REFERENCES users(address),
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        category TEXT NOT NULL,
+        skills TEXT NOT NULL DEFAULT '[]',
+        duration INTEGER NOT NULL,
+        price DOUBLE PRECISION NOT NULL,
+        currency TEXT NOT NULL,
+        max_students INTEGER NOT NULL DEFAULT 1,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_mentorships_mentor ON mentorships (mentor_address)',
+      'CREATE INDEX IF NOT EXISTS idx_mentorships_category ON mentorships (category)',
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        mentorship_id TEXT NOT NULL REFERENCES mentorships(id),
+        mentor_address TEXT NOT NULL REFERENCES users(address),
+        student_address TEXT NOT NULL REFERENCES users(address),
+        scheduled_at TEXT NOT NULL,
+        duration INTEGER NOT NULL,
+        price DOUBLE PRECISION NOT NULL,
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL,
+        transaction_hash TEXT,
+        room_id TEXT,
+        feedback TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sessions_mentor ON sessions (mentor_address)',
+      'CREATE INDEX IF NOT EXISTS idx_sessions_student ON sessions (student_address)',
+      'CREATE INDEX IF NOT EXISTS idx_sessions_mentorship ON sessions (mentorship_id)',
+      `CREATE TABLE IF NOT EXISTS earnings (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id),
+        address TEXT NOT NULL REFERENCES users(address),
+        amount DOUBLE PRECISION NOT NULL,
+        currency TEXT NOT NULL,
+        platform_fee DOUBLE PRECISION NOT NULL,
+        net_amount DOUBLE PRECISION NOT NULL,
+        status TEXT NOT NULL,
+        transaction_hash TEXT,
+        earned_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_earnings_address ON earnings (address)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_earnings_session_address ON earnings (session_id, address)',
+    ],
+  },
+  {
+    id: '002_http_sessions',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS http_sessions (
+        sid TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_http_sessions_expires ON http_sessions (expires_at)',
+    ],
+  },
+  {
+    id: '003_auth_tokens',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id TEXT PRIMARY KEY,
+        family_id TEXT NOT NULL,
+        address TEXT NOT NULL REFERENCES users(address),
+        chain_id INTEGER,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT,
+        replaced_by TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens (family_id)',
+      'CREATE INDEX IF NOT EXISTS idx_refresh_tokens_address ON refresh_tokens (address)',
+      `CREATE TABLE IF NOT EXISTS revoked_tokens (
+        jti TEXT PRIMARY KEY,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires ON revoked_tokens (expires_at)',
+    ],
+  },
+  {
+    id: '004_mentorship_catalog',
+    statements: [
+      'ALTER TABLE mentorships ADD COLUMN price_eth DOUBLE PRECISION',
+      "ALTER TABLE mentorships ADD COLUMN preferred_token TEXT NOT NULL DEFAULT 'USDC'",
+      'ALTER TABLE mentorships ADD COLUMN prerequisites TEXT',
+    ],
+  },
+  {
+    id: '005_session_booking_holds',
+    statements: [
+      'ALTER TABLE sessions ADD COLUMN escrow_session_id TEXT',
+      'ALTER TABLE sessions ADD COLUMN chain_id INTEGER',
+      'ALTER TABLE sessions ADD COLUMN hold_expires_at TEXT',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_escrow_session ON sessions (escrow_session_id)',
+      'CREATE INDEX IF NOT EXISTS idx_sessions_mentor_schedule ON sessions (mentor_address, scheduled_at)',
+    ],
+  },
+  {
+    id: '006_escrow_indexer',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS escrow_events (
+        id TEXT PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        contract_address TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        event_name TEXT NOT NULL,
+        args TEXT NOT NULL DEFAULT '{}',
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        occurred_at TEXT,
+        indexed_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_escrow_events_session ON escrow_events (chain_id, session_id, block_number, log_index)',
+      'CREATE INDEX IF NOT EXISTS idx_escrow_events_block ON escrow_events (chain_id, block_number)',
+      `CREATE TABLE IF NOT EXISTS escrow_sessions (
+        chain_id INTEGER NOT NULL,
+        session_id TEXT NOT NULL,
+        contract_address TEXT NOT NULL,
+        student_address TEXT,
+        mentor_address TEXT,
+        payment_token TEXT,
+        total_amount TEXT NOT NULL DEFAULT '0',
+        released_amount TEXT NOT NULL DEFAULT '0',
+        refunded_amount TEXT NOT NULL DEFAULT '0',
+        session_duration INTEGER,
+        scheduled_time TEXT,
+        status TEXT NOT NULL,
+        dispute_reason TEXT,
+        created_block BIGINT,
+        last_event_block BIGINT NOT NULL,
+        created_at TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (chain_id, session_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_escrow_sessions_student ON escrow_sessions (student_address)',
+      'CREATE INDEX IF NOT EXISTS idx_escrow_sessions_mentor ON escrow_sessions (mentor_address)',
+      'CREATE INDEX IF NOT EXISTS idx_escrow_sessions_status ON escrow_sessions (chain_id, status)',
+      `CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+        chain_id INTEGER PRIMARY KEY,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    id: '007_audit_log',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        actor_address TEXT NOT NULL,
+        actor_role TEXT,
+        action TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        details TEXT NOT NULL DEFAULT '{}',
+        outcome TEXT NOT NULL,
+        status_code INTEGER,
+        ip TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor_address, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log (action, created_at)',
+    ],
+  },
+  {
+    // Hash chain over the audit log; rows written before it keep seq NULL
+    id: '008_audit_log_chain',
+    statements: [
+      'ALTER TABLE audit_log ADD COLUMN seq INTEGER',
+      'ALTER TABLE audit_log ADD COLUMN prev_hash TEXT',
+      'ALTER TABLE audit_log ADD COLUMN hash TEXT',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_seq ON audit_log (seq)',
+    ],
+  },
+];
+
+/**
+ * Apply all pending migrations in order, each inside its own transaction
+ */
+export const runMigrations = async (db: DatabaseConnection): Promise<string[]> => {
+  await db.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    id TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL
+  )`);
+
+  const applied = new Set(
+    (await db.query<{ id: string }>('SELECT id FROM schema_migrations')).map(row => row.id),
+  );
+
+  const newlyApplied: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.id)) continue;
+
+    await db.transaction(async (tx) => {
+      for (const statement of migration.statements) {
+        await tx.execute(statement);
+      }
+      await tx.execute('INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)', [
+        migration.id,
+        new Date().toISOString(),
+      ]);
+    });
+
+    logger.info(`Database migration applied: ${migration.id}`);
+    newlyApplied.push(migration.id);
+  }
+
+  return newlyApplied;
+};
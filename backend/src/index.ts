@@ -5,13 +5,30 @@ import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import { WebRTCService } from './services/webrtc.service';
-import { generalLimiter, authLimiter, webrtcLimiter } from './middlewares/rateLimiter';
-import { requireAuth, requireWebRTCAuth, validateSessionSecurity } from './middlewares/auth';
+import { generalLimiter, webrtcLimiter } from './middlewares/rateLimiter';
+import { authenticateBearer, requireWebRTCAuth } from './middlewares/auth';
 import { errorHandler } from './middlewares/errorHandler';
-import { sanitizeInput, validateRequest, securityHeaders, apiVersioning, validateWebRTCAccess } from './middlewares/security';
+import { notFoundHandler } from './middlewares/notFoundHandler';
+import { createSessionMiddleware } from './middlewares/session';
 import { serveAPIDocs } from './middlewares/documentation';
+import { recordRequestMetrics } from './middlewares/metrics';
 import { logger } from './utils/logger';
+import { metricsRegistry } from './utils/metrics';
+import { initializeDatabase } from './database';
+import { sessionRepository, tokenRepository } from './repositories';
+import { SessionStatus } from './types';
+import { BookingService } from './services/booking.service';
+import { EscrowIndexerService } from './services/indexer.service';
+import authRoutes from './routes/auth.routes';
+import profileRoutes from './routes/profile.routes';
+import mentorshipRoutes from './routes/mentorship.routes';
+import myMentorshipsRoutes from './routes/myMentorships.routes';
+import financialsRoutes from './routes/financials.routes';
 import rpcRoutes from './routes/rpc.routes';
+import escrowRoutes from './routes/escrow.routes';
+import botRoutes from './routes/bot.routes';
+import adminRoutes from './routes/admin.routes';
+import metricsRoutes from './routes/metrics.routes';
 
 // Load environment variables
 dotenv.config();
@@ -34,6 +51,9 @@ const io = new SocketIOServer(server, {
 const webrtcService = WebRTCService.getInstance();
 webrtcService.initializeSocketIO(io);
 
+const webrtcActiveRooms = metricsRegistry.gauge('webrtc_active_rooms', 'Active WebRTC rooms');
+metricsRegistry.addCollector(() => webrtcActiveRooms.set({}, webrtcService.getActiveRooms().length));
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -52,6 +72,10 @@ app.use(helmet({
   }
 }));
 
+// 📈 Request latency, and Prometheus scrapes (mounted ahead of CORS and rate limiting: scrapers send no Origin)
+app.use(recordRequestMetrics);
+app.use('/metrics', metricsRoutes);
+
 // CORS configuration with validation
 const allowedOrigins = (process.env.ALLOWED_ORIGINS || '').split(',').filter(Boolean);
 if (allowedOrigins.length === 0) {
@@ -80,6 +104,15 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// 🔒 Server-side sessions (SIWE auth state)
+if (process.env.TRUST_PROXY === 'true') {
+  app.set('trust proxy', 1);
+}
+app.use(createSessionMiddleware());
+
+// 🔒 Access tokens (Authorization: Bearer) issued by /api/auth/verify and /api/auth/refresh
+app.use(authenticateBearer);
+
 // Apply general rate limiter to all routes
 app.use(generalLimiter);
 
@@ -87,7 +120,15 @@ app.use(generalLimiter);
 app.use('/api', serveAPIDocs);
 
 // API Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/profile', profileRoutes);
+app.use('/api/mentorships', mentorshipRoutes);
+app.use('/api/my-mentorships', myMentorshipsRoutes);
+app.use('/api/financials', financialsRoutes);
 app.use('/api/rpc', rpcRoutes);
+app.use('/api/escrow', escrowRoutes);
+app.use('/api/bot', botRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Basic route
 app.get('/api/health', (_req, res) => {
@@ -102,39 +143,51 @@ app.get('/api/health', (_req, res) => {
 });
 
 // WebRTC room management routes with authentication and rate limiting
-app.post('/api/webrtc/rooms', webrtcLimiter, requireWebRTCAuth, (req, res) => {
+// A room belongs to a booking; only its mentor and student can open or read it
+app.post('/api/webrtc/rooms', webrtcLimiter, requireWebRTCAuth, async (req: any, res: any) => {
   try {
     const { sessionId, participants } = req.body;
+    const userAddress: string = req.user.address;
     
-    // Input validation
-    if (!sessionId || !Array.isArray(participants) || participants.length !== 2) {
+    // Input validation (the auth middleware checks the caller is in participants)
+    if (typeof sessionId !== 'string' || !sessionId || !Array.isArray(participants) || participants.length === 0) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Invalid request: sessionId and 2 participants required' 
+        error: 'Invalid request: sessionId and participants required' 
       });
     }
+
+    const session = await sessionRepository.findById(sessionId);
+    const parties = session ? [session.mentorAddress, session.studentAddress].map(address => address.toLowerCase()) : [];
+    if (!session || !parties.includes(userAddress.toLowerCase())) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
     
-    // Validate participant addresses
-    const addressRegex = /^0x[a-fA-F0-9]{40}$/;
-    if (!participants.every(addr => addressRegex.test(addr))) {
+    // Validate participant addresses against the booking
+    if (!participants.every((address: string) => parties.includes(address.toLowerCase()))) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Invalid participant addresses' 
+        error: 'Participants must be the mentor and student of the session' 
       });
     }
+
+    if (session.status !== SessionStatus.SCHEDULED && session.status !== SessionStatus.IN_PROGRESS) {
+      return res.status(409).json({ success: false, error: `Session is ${session.status}` });
+    }
     
-    const room = webrtcService.createRoom(sessionId, participants);
-    res.json({ success: true, room });
+    const room = webrtcService.openSessionRoom(session);
+    return res.json({ success: true, room });
   } catch (error) {
     console.error('Room creation error:', error);
-    res.status(500).json({ success: false, error: 'Failed to create room' });
+    return res.status(500).json({ success: false, error: 'Failed to create room' });
   }
 });
 
-app.get('/api/webrtc/rooms/:roomId', requireAuth, (req: any, res: any) => {
+app.get('/api/webrtc/rooms/:roomId', requireWebRTCAuth, (req: any, res: any) => {
   try {
     const { roomId } = req.params;
-    const room = webrtcService.getRoom(roomId);
+    // Not found for anyone outside the room, so room ids cannot be probed
+    const room = webrtcService.getRoomForParticipant(roomId, req.user.address);
     if (!room) {
       return res.status(404).json({ success: false, error: 'Room not found' });
     }
@@ -156,31 +209,35 @@ app.get('/api/webrtc/rooms/:roomId', requireAuth, (req: any, res: any) => {
   }
 });
 
-// Cleanup old rooms every hour
-setInterval(() => {
-  webrtcService.cleanupOldRooms();
-}, 60 * 60 * 1000);
-
-// Start server
-server.listen(PORT, () => {
-  console.log(`🚀 Chain Academy V2 Backend running on port ${PORT}`);
-  console.log(`📡 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔌 Socket.io server initialized`);
-  console.log(`📹 WebRTC service ready`);
-});
+// 🔒 SECURITY: 404 handler
+app.use(notFoundHandler);
 
 // 🔒 ENHANCED: Error handling middleware (must be last)
 app.use(errorHandler);
 
-// 🔒 SECURITY: 404 handler
-app.use('*', (req, res) => {
-  logger.warn(`🔒 404 - Route not found: ${req.method} ${req.originalUrl} from ${req.ip}`);
-  res.status(404).json({
-    success: false,
-    message: 'Route not found',
-    timestamp: new Date().toISOString()
+// Cleanup old rooms and expired tokens every hour
+setInterval(() => {
+  webrtcService.cleanupOldRooms();
+  tokenRepository.pruneExpired().catch((error) => logger.error('Token prune error:', error));
+}, 60 * 60 * 1000);
+
+// Start server once the database is ready
+initializeDatabase()
+  .then(() => {
+    BookingService.getInstance().start();
+    EscrowIndexerService.getInstance().start();
+    server.listen(PORT, () => {
+      console.log(`🚀 Chain Academy V2 Backend running on port ${PORT}`);
+      console.log(`📡 Environment: ${process.env.NODE_ENV || 'development'}`);
+      console.log(`🗄️ Database ready`);
+      console.log(`🔌 Socket.io server initialized`);
+      console.log(`📹 WebRTC service ready`);
+    });
+  })
+  .catch((error) => {
+    logger.error('Failed to initialize database:', error);
+    process.exit(1);
   });
-});
 
 export default app;
 export { server, webrtcService };
\ No newline at end of file
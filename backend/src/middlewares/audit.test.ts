@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { closeDatabase, initializeDatabase } from '../database';
+import { auditRepository } from '../repositories';
+import { AuthRequest } from '../types';
+import { auditAction } from './audit';
+
+const OPERATOR = '0x1111111111111111111111111111111111111111';
+
+const operatorRequest = () => ({
+  user: { address: OPERATOR, authenticated: true, sessionId: 's1', operatorRole: 'operator' },
+  params: { chainId: '8453' },
+  body: { reason: 'stuck session' },
+  method: 'POST',
+  originalUrl: '/api/bot/pause',
+  ip: '127.0.0.1',
+}) as unknown as AuthRequest;
+
+// Enough of a response for the middleware: a status code and the finish event
+const response = () => Object.assign(new EventEmitter(), { statusCode: 200 }) as unknown as Response;
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+const entriesFor = async (action: string) =>
+  (await auditRepository.findEntries({ action, page: 1, limit: 10 })).items;
+
+describe('auditAction', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records the attempt before the action runs and the outcome once the response is sent', async () => {
+    const res = response();
+    const next = jest.fn(async () => {
+      // The action sees its attempt already on record
+      expect((await entriesFor('bot.pause')).map(entry => entry.outcome)).toEqual(['attempted']);
+    });
+
+    await auditAction('bot.pause')(operatorRequest(), res, next);
+    expect(next).toHaveBeenCalledWith();
+    await next.mock.results[0].value;
+
+    res.emit('finish');
+    await flush();
+
+    const entries = await entriesFor('bot.pause');
+    const attempt = entries.find(entry => entry.outcome === 'attempted')!;
+    const outcome = entries.find(entry => entry.outcome !== 'attempted');
+    expect(attempt).toMatchObject({ outcome: 'attempted', actorAddress: OPERATOR, details: { body: { reason: 'stuck session' } } });
+    expect(outcome).toMatchObject({ outcome: 'success', statusCode: 200, details: { attemptId: attempt.id } });
+  });
+
+  it('refuses the request when the attempt cannot be recorded', async () => {
+    jest.spyOn(auditRepository, 'record').mockRejectedValue(new Error('disk full'));
+    const next = jest.fn();
+
+    await auditAction('bot.resume')(operatorRequest(), response(), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 500 });
+  });
+});
@@ -0,0 +1,63 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import { logger } from '../utils/logger';
+import { auditRepository } from '../repositories';
+import { StandardApiError } from './errorHandler';
+
+/**
+ * 🔒 Write a privileged action to the audit log. The attempt is recorded before
+ * the action runs and the request is refused if that write fails; the outcome
+ * (from the response status) is recorded once the response is sent.
+ * Mount after requireOperator so the actor's role is known.
+ */
+export const auditAction = (action: string) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      next();
+      return;
+    }
+
+    const user = req.user;
+    // Route params are reset once the router is done with the request
+    const params = { ...req.params };
+    const entry = {
+      actorAddress: user.address,
+      actorRole: user.operatorRole,
+      action,
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip,
+    };
+
+    let attemptId: string;
+    try {
+      const attempt = await auditRepository.record({
+        ...entry,
+        details: {
+          params,
+          ...(req.body && Object.keys(req.body).length > 0 && { body: req.body }),
+        },
+        outcome: 'attempted',
+      });
+      attemptId = attempt.id;
+    } catch (error) {
+      logger.error(`🔒 Refusing ${action}: the audit log entry could not be written:`, error);
+      next(StandardApiError.internal('The action could not be recorded in the audit log'));
+      return;
+    }
+
+    res.on('finish', () => {
+      auditRepository.record({
+        ...entry,
+        details: { params, attemptId },
+        outcome: res.statusCode < 400 ? 'success' : 'failure',
+        statusCode: res.statusCode,
+      })
+        .then(() => logger.info(`🔒 Audit: ${user.address} ${action} -> ${res.statusCode}`))
+        // The attempt is already on record; the outcome can be read from the application log
+        .catch((error) => logger.error(`🔒 Failed to write audit log outcome for ${action} (${res.statusCode}):`, error));
+    });
+
+    next();
+  };
+};
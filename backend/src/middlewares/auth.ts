@@ -3,6 +3,59 @@ import { AuthRequest } from '../types';
 import { logger } from '../utils/logger';
 import { ResponseHandler } from '../utils/responses';
 import { AuthService } from '../services/auth.service';
+import { TokenService } from '../services/token.service';
+import { getOperatorRole, roleSatisfies } from '../config/admin';
+import { auditRepository } from '../repositories';
+import { OperatorRole } from '../types';
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+/**
+ * 🔒 Authenticate requests carrying a backend-issued access token.
+ * Requests without an Authorization header fall through to session auth.
+ */
+export const authenticateBearer = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const token = getBearerToken(req);
+  if (!token) {
+    next();
+    return;
+  }
+
+  TokenService.getInstance()
+    .verifyAccessToken(token)
+    .then((payload) => {
+      if (!payload) {
+        logger.warn(`🔒 Invalid or expired access token from ${req.ip} to ${req.path}`);
+        ResponseHandler.error(res, 'Invalid or expired access token', 401);
+        return;
+      }
+
+      req.user = {
+        address: payload.sub,
+        chainId: payload.chainId,
+        authenticated: true,
+        sessionId: payload.jti,
+      };
+      next();
+    })
+    .catch((error) => {
+      logger.error('🔒 Access token verification error:', error);
+      ResponseHandler.error(res, 'Authentication error', 500);
+    });
+};
 
 export const requireAuth = (
   req: AuthRequest,
@@ -12,6 +65,12 @@ export const requireAuth = (
   const authService = AuthService.getInstance();
   
   try {
+    // Already authenticated by access token
+    if (req.user?.authenticated) {
+      next();
+      return;
+    }
+
     // 🔒 SECURITY: Enhanced authentication validation
     if (!req.session || !req.session.address) {
       logger.warn(`🔒 Unauthorized access attempt from ${req.ip} to ${req.path}`);
@@ -74,12 +133,18 @@ export const requireAuth = (
 
 export const optionalAuth = (
   req: AuthRequest,
-  res: Response,
+  _res: Response,
   next: NextFunction,
 ): void => {
   const authService = AuthService.getInstance();
   
   try {
+    // Already authenticated by access token
+    if (req.user?.authenticated) {
+      next();
+      return;
+    }
+
     // 🔒 SECURITY: Safely check auth without blocking
     if (req.session && req.session.address && authService.isValidAddress(req.session.address)) {
       // Session exists and is valid
@@ -125,31 +190,32 @@ export const requireWebRTCAuth = (
   const authService = AuthService.getInstance();
   
   try {
-    // 🔒 SECURITY: Enhanced WebRTC authentication
-    if (!req.session || !req.session.address) {
+    // 🔒 SECURITY: Enhanced WebRTC authentication (access token or session)
+    const address = req.user?.authenticated ? req.user.address : req.session?.address;
+    if (!address) {
       logger.warn(`🔒 WebRTC access denied: No authentication for ${req.ip}`);
       ResponseHandler.error(res, 'Authentication required for WebRTC', 401);
       return;
     }
 
     // 🔒 SECURITY: Validate address format
-    if (!authService.isValidAddress(req.session.address)) {
-      logger.warn(`🔒 WebRTC access denied: Invalid address ${req.session.address}`);
+    if (!authService.isValidAddress(address)) {
+      logger.warn(`🔒 WebRTC access denied: Invalid address ${address}`);
       ResponseHandler.error(res, 'Invalid authentication data', 401);
       return;
     }
 
     // 🔒 SECURITY: Check session expiration
-    const sessionExpiry = req.session.expirationTime;
+    const sessionExpiry = req.user?.authenticated ? undefined : req.session.expirationTime;
     if (sessionExpiry && new Date(sessionExpiry) < new Date()) {
-      logger.warn(`🔒 WebRTC access denied: Expired session for ${req.session.address}`);
+      logger.warn(`🔒 WebRTC access denied: Expired session for ${address}`);
       ResponseHandler.error(res, 'Session expired', 401);
       return;
     }
 
     // 🔒 SECURITY: Enhanced participant validation for room operations
     if (req.body.participants && Array.isArray(req.body.participants)) {
-      const userAddress = req.session.address.toLowerCase();
+      const userAddress = address.toLowerCase();
       
       // Validate all participant addresses
       const invalidParticipants = req.body.participants.filter((p: string) => 
@@ -182,18 +248,20 @@ export const requireWebRTCAuth = (
     // 🔒 SECURITY: For room access, verify user is authorized
     if (req.params.roomId) {
       // This will be validated against the actual room participants in the route
-      logger.debug(`🔒 WebRTC room access request: ${req.session.address} -> ${req.params.roomId}`);
+      logger.debug(`🔒 WebRTC room access request: ${address} -> ${req.params.roomId}`);
     }
 
     // Add user context
-    req.user = {
-      address: req.session.address,
-      chainId: req.session.chainId,
-      authenticated: true,
-      sessionId: req.sessionID
-    };
+    if (!req.user?.authenticated) {
+      req.user = {
+        address,
+        chainId: req.session.chainId,
+        authenticated: true,
+        sessionId: req.sessionID
+      };
+    }
 
-    logger.debug(`🔒 WebRTC authentication successful for ${req.session.address}`);
+    logger.debug(`🔒 WebRTC authentication successful for ${address}`);
     next();
   } catch (error) {
     logger.error('🔒 WebRTC auth middleware error:', error);
@@ -224,6 +292,47 @@ export const requireRole = (requiredRole: 'mentor' | 'student' | 'admin') => {
   };
 };
 
+/**
+ * 🔒 Operator authorization for the admin API. Operators are allow-listed by
+ * wallet address (see config/admin.ts); a higher role passes lower checks.
+ * Denied attempts by signed-in users are written to the audit log.
+ */
+export const requireOperator = (requiredRole: OperatorRole) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    try {
+      if (!req.user?.authenticated) {
+        ResponseHandler.error(res, 'Authentication required', 401);
+        return;
+      }
+
+      const role = getOperatorRole(req.user.address);
+      if (!role || !roleSatisfies(role, requiredRole)) {
+        logger.warn(`🔒 Operator access denied: ${req.user.address} (${role || 'no role'}) requires ${requiredRole} for ${req.method} ${req.originalUrl}`);
+        auditRepository.record({
+          actorAddress: req.user.address,
+          actorRole: role ?? undefined,
+          action: 'access.denied',
+          method: req.method,
+          path: req.originalUrl,
+          details: { requiredRole },
+          outcome: 'denied',
+          statusCode: 403,
+          ip: req.ip,
+        }).catch((error) => logger.error('🔒 Failed to write audit log entry:', error));
+
+        ResponseHandler.error(res, 'Insufficient permissions', 403);
+        return;
+      }
+
+      req.user.operatorRole = role;
+      next();
+    } catch (error) {
+      logger.error('🔒 Operator authorization error:', error);
+      ResponseHandler.error(res, 'Authorization error', 500);
+    }
+  };
+};
+
 /**
  * 🔒 NEW: Rate limiting by user address
  */
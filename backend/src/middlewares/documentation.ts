@@ -1,5 +1,4 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '../utils/logger';
 
 /**
  * 📚 API Documentation middleware
@@ -280,8 +279,8 @@ function generateHTMLDocs(docs: any): string {
 /**
  * Decorator to document API endpoints
  */
-export function documentEndpoint(config: Omit<APIEndpoint, 'method' | 'path'>) {
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+export function documentEndpoint(_config: Omit<APIEndpoint, 'method' | 'path'>) {
+  return function (_target: any, _propertyKey: string, _descriptor: PropertyDescriptor) {
     // This would be used with route decorators in a more advanced setup
     // For now, endpoints are registered manually
   };
@@ -363,7 +362,7 @@ APIDocumentation.registerEndpoint({
 APIDocumentation.registerEndpoint({
   method: 'POST',
   path: '/webrtc/rooms',
-  description: 'Create a new WebRTC room for mentorship session',
+  description: 'Open the WebRTC room of a scheduled or in-progress booking; the caller must be its mentor or student and participants may only list them',
   auth: true,
   rateLimit: 'WebRTC rate limit (30 per minute)',
   parameters: {
@@ -391,7 +390,7 @@ APIDocumentation.registerEndpoint({
 APIDocumentation.registerEndpoint({
   method: 'GET',
   path: '/webrtc/rooms/:roomId',
-  description: 'Get WebRTC room information and participants',
+  description: 'Get WebRTC room information and participants (404 unless the caller is a participant)',
   auth: true,
   parameters: {
     params: {
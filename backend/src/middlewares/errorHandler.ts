@@ -1,6 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
-import { ResponseHandler } from '../utils/responses';
 import { AuthRequest } from '../types';
 
 export interface ApiError extends Error {
@@ -17,7 +16,7 @@ export const errorHandler = (
   error: ApiError,
   req: AuthRequest,
   res: Response,
-  next: NextFunction,
+  _next: NextFunction,
 ): void => {
   const { statusCode = 500, message, code, details } = error;
   const isProduction = process.env.NODE_ENV === 'production';
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration } from '../utils/metrics';
+import { ResponseHandler } from '../utils/responses';
+import { getMetricsConfig } from '../config/metrics';
+
+/**
+ * Record the latency of every request. Routes are labelled by their pattern
+ * (/api/escrow/sessions/:chainId/:sessionId), not the raw URL, to keep series bounded.
+ */
+export const recordRequestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const start = process.hrtime.bigint();
+
+  // Express resets req.baseUrl when an error leaves a router, so take the pattern when the route matches
+  let matchedRoute: Request['route'];
+  let routePattern = 'unmatched';
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => matchedRoute,
+    set: (route: Request['route']) => {
+      matchedRoute = route;
+      routePattern = route.path === '/' && req.baseUrl ? req.baseUrl : `${req.baseUrl}${route.path}`;
+    },
+  });
+
+  res.on('finish', () => {
+    httpRequestDuration.observe(
+      { method: req.method, route: routePattern, status: res.statusCode },
+      Number(process.hrtime.bigint() - start) / 1e9,
+    );
+  });
+
+  next();
+};
+
+/**
+ * 🔒 Require METRICS_TOKEN as a bearer token on scrapes when it is configured
+ */
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  const { token } = getMetricsConfig();
+  if (!token) {
+    next();
+    return;
+  }
+
+  const provided = Buffer.from(req.headers.authorization || '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    ResponseHandler.error(res, 'Unauthorized', 401);
+    return;
+  }
+
+  next();
+};
@@ -1,4 +1,5 @@
 import rateLimit from 'express-rate-limit';
+import { AuthRequest } from '../types';
 
 // 🔒 SECURITY: Enhanced rate limiting with user-based identification
 const createSecureKeyGenerator = (fallbackToIP: boolean = true) => {
@@ -53,7 +54,7 @@ export const webrtcLimiter = rateLimit({
   legacyHeaders: false,
   // Skip if no user identification available
   skip: (req) => {
-    const userAddress = req.user?.address || req.body?.userAddress || req.query?.userAddress;
+    const userAddress = (req as AuthRequest).user?.address || req.body?.userAddress || req.query?.userAddress;
     return !userAddress;
   },
 });
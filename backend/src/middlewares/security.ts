@@ -6,7 +6,7 @@ import { ResponseHandler } from '../utils/responses';
 /**
  * 🔒 SECURITY: Advanced input sanitization middleware
  */
-export const sanitizeInput = (req: Request, res: Response, next: NextFunction): void => {
+export const sanitizeInput = (req: Request, _res: Response, next: NextFunction): void => {
   try {
     // Recursively sanitize all string inputs
     const sanitizeValue = (value: any): any => {
@@ -92,7 +92,7 @@ export const validateRequest = (req: Request, res: Response, next: NextFunction)
 /**
  * 🔒 SECURITY: Enhanced security headers middleware
  */
-export const securityHeaders = (req: Request, res: Response, next: NextFunction): void => {
+export const securityHeaders = (_req: Request, res: Response, next: NextFunction): void => {
   // Set comprehensive security headers
   res.setHeader('X-Content-Type-Options', 'nosniff');
   res.setHeader('X-Frame-Options', 'DENY');
@@ -115,7 +115,7 @@ export const apiVersioning = (req: Request, res: Response, next: NextFunction):
   try {
     // Extract API version from path or header
     const pathVersion = req.path.match(/^\/api\/v(\d+)\//)?.[1];
-    const headerVersion = req.headers['api-version'];
+    const headerVersion = [req.headers['api-version']].flat()[0];
     
     const version = pathVersion || headerVersion || '1';
     
@@ -237,7 +237,7 @@ export const validateBlockchainData = (req: Request, res: Response, next: NextFu
 /**
  * 🔒 SECURITY: Request timing attack prevention
  */
-export const preventTimingAttacks = (req: Request, res: Response, next: NextFunction): void => {
+export const preventTimingAttacks = (_req: Request, res: Response, next: NextFunction): void => {
   const startTime = Date.now();
   
   // Override res.json to add random delay
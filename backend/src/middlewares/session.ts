@@ -0,0 +1,42 @@
+import session from 'express-session';
+import { RequestHandler } from 'express';
+import { getSessionConfig, SessionConfig } from '../config/session';
+import { DatabaseSessionStore } from '../services/sessionStore.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Create the session store for the configured backend
+ */
+export const createSessionStore = (config: SessionConfig): session.Store => {
+  if (config.store === 'memory') {
+    if (process.env.NODE_ENV === 'production') {
+      logger.warn('🔒 In-memory session store in production - sessions are lost on restart and not shared between instances');
+    }
+    return new session.MemoryStore();
+  }
+
+  return new DatabaseSessionStore(config.maxAge, config.pruneInterval);
+};
+
+/**
+ * 🔒 Server-side session middleware (SIWE authentication state)
+ */
+export const createSessionMiddleware = (config: SessionConfig = getSessionConfig()): RequestHandler => {
+  logger.info(`Session store: ${config.store}`);
+
+  return session({
+    name: config.name,
+    secret: config.secret,
+    store: createSessionStore(config),
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    proxy: process.env.TRUST_PROXY === 'true',
+    cookie: {
+      httpOnly: true,
+      secure: config.secure,
+      sameSite: config.sameSite,
+      maxAge: config.maxAge,
+    },
+  });
+};
@@ -1,15 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { logger } from '../utils/logger';
-import { ResponseHandler } from '../utils/responses';
 import { StandardApiError } from './errorHandler';
 import { AuthRequest } from '../types';
 
+/**
+ * Replace the parsed query object - req.query is a getter in Express 5
+ */
+const setQuery = (req: Request, value: unknown): void => {
+  Object.defineProperty(req, 'query', {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: true,
+  });
+};
+
 /**
  * 🔒 Enhanced body validation with security logging
  */
 export const validateBody = (schema: Joi.ObjectSchema, options?: Joi.ValidationOptions) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
     try {
       const validationOptions = {
         abortEarly: false, // Collect all errors
@@ -44,6 +55,88 @@ export const validateBody = (schema: Joi.ObjectSchema, options?: Joi.ValidationO
   };
 };
 
+/**
+ * 🔒 NEW: Common validation schemas
+ */
+export const ValidationSchemas = {
+  // Ethereum address validation
+  ethereumAddress: Joi.string()
+    .pattern(/^0x[a-fA-F0-9]{40}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Must be a valid Ethereum address (0x followed by 40 hex characters)',
+    }),
+
+  // Transaction hash validation
+  transactionHash: Joi.string()
+    .pattern(/^0x[a-fA-F0-9]{64}$/)
+    .messages({
+      'string.pattern.base': 'Must be a valid transaction hash (0x followed by 64 hex characters)',
+    }),
+
+  // Chain ID validation
+  chainId: Joi.number()
+    .integer()
+    .valid(1, 137, 42161, 10, 8453) // Supported chains
+    .messages({
+      'any.only': 'Chain ID must be one of: 1 (Ethereum), 137 (Polygon), 42161 (Arbitrum), 10 (Optimism), 8453 (Base)',
+    }),
+
+  // Currency validation
+  currency: Joi.string()
+    .valid('USDT', 'USDC')
+    .required()
+    .messages({
+      'any.only': 'Currency must be either USDT or USDC',
+    }),
+
+  // Pagination validation
+  pagination: {
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(10),
+    sortBy: Joi.string().optional(),
+    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+  },
+
+  // Common string validations
+  safeString: (minLength: number = 1, maxLength: number = 1000) =>
+    Joi.string()
+      .min(minLength)
+      .max(maxLength)
+      .pattern(/^[^<>"'&]*$/) // Prevent basic XSS
+      .messages({
+        'string.pattern.base': 'String contains invalid characters',
+      }),
+
+  // ID validation (UUID or similar)
+  id: Joi.string()
+    .pattern(/^[a-zA-Z0-9_-]+$/)
+    .min(1)
+    .max(100)
+    .required(),
+
+  // Date validation
+  futureDate: Joi.date()
+    .greater('now')
+    .required()
+    .messages({
+      'date.greater': 'Date must be in the future',
+    }),
+
+  // Price validation
+  price: Joi.number()
+    .positive()
+    .precision(6) // Support up to 6 decimal places for tokens
+    .required(),
+
+  // Duration validation (in minutes)
+  duration: Joi.number()
+    .integer()
+    .min(30) // Minimum 30 minutes
+    .max(480) // Maximum 8 hours
+    .required(),
+};
+
 /**
  * 🔒 NEW: Business logic validation helpers
  */
@@ -166,7 +259,7 @@ declare global {
  * 🔒 Enhanced query validation with security logging
  */
 export const validateQuery = (schema: Joi.ObjectSchema, options?: Joi.ValidationOptions) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
     try {
       const validationOptions = {
         abortEarly: false,
@@ -193,7 +286,7 @@ export const validateQuery = (schema: Joi.ObjectSchema, options?: Joi.Validation
       }
 
       // Replace query with validated/sanitized value
-      req.query = value;
+      setQuery(req, value);
       next();
     } catch (error) {
       next(error);
@@ -205,7 +298,7 @@ export const validateQuery = (schema: Joi.ObjectSchema, options?: Joi.Validation
  * 🔒 NEW: Params validation
  */
 export const validateParams = (schema: Joi.ObjectSchema, options?: Joi.ValidationOptions) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
     try {
       const validationOptions = {
         abortEarly: false,
@@ -247,7 +340,7 @@ export const validateRequest = (schemas: {
   query?: Joi.ObjectSchema;
   params?: Joi.ObjectSchema;
 }) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
     try {
       const errors: any[] = [];
 
@@ -255,7 +348,7 @@ export const validateRequest = (schemas: {
       if (schemas.body) {
         const { error, value } = schemas.body.validate(req.body, { abortEarly: false, stripUnknown: true });
         if (error) {
-          errors.push(...error.details.map(d => ({ type: 'body', ...d })));
+          errors.push(...error.details.map(d => ({ ...d, type: 'body' })));
         } else {
           req.body = value;
         }
@@ -265,9 +358,9 @@ export const validateRequest = (schemas: {
       if (schemas.query) {
         const { error, value } = schemas.query.validate(req.query, { abortEarly: false, stripUnknown: true });
         if (error) {
-          errors.push(...error.details.map(d => ({ type: 'query', ...d })));
+          errors.push(...error.details.map(d => ({ ...d, type: 'query' })));
         } else {
-          req.query = value;
+          setQuery(req, value);
         }
       }
 
@@ -275,7 +368,7 @@ export const validateRequest = (schemas: {
       if (schemas.params) {
         const { error, value } = schemas.params.validate(req.params, { abortEarly: false });
         if (error) {
-          errors.push(...error.details.map(d => ({ type: 'params', ...d })));
+          errors.push(...error.details.map(d => ({ ...d, type: 'params' })));
         } else {
           req.params = value;
         }
@@ -304,86 +397,9 @@ export const validateRequest = (schemas: {
   };
 };
 
-/**
- * 🔒 NEW: Common validation schemas
- */
-export const ValidationSchemas = {
-  // Ethereum address validation
-  ethereumAddress: Joi.string()
-    .pattern(/^0x[a-fA-F0-9]{40}$/)
-    .required()
-    .messages({
-      'string.pattern.base': 'Must be a valid Ethereum address (0x followed by 40 hex characters)',
-    }),
-
-  // Transaction hash validation
-  transactionHash: Joi.string()
-    .pattern(/^0x[a-fA-F0-9]{64}$/)
-    .messages({
-      'string.pattern.base': 'Must be a valid transaction hash (0x followed by 64 hex characters)',
-    }),
-
-  // Chain ID validation
-  chainId: Joi.number()
-    .integer()
-    .valid(1, 137, 42161, 10, 8453) // Supported chains
-    .messages({
-      'any.only': 'Chain ID must be one of: 1 (Ethereum), 137 (Polygon), 42161 (Arbitrum), 10 (Optimism), 8453 (Base)',
-    }),
-
-  // Currency validation
-  currency: Joi.string()
-    .valid('USDT', 'USDC')
-    .required()
-    .messages({
-      'any.only': 'Currency must be either USDT or USDC',
-    }),
-
-  // Pagination validation
-  pagination: {
-    page: Joi.number().integer().min(1).default(1),
-    limit: Joi.number().integer().min(1).max(100).default(10),
-    sortBy: Joi.string().optional(),
-    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
-  },
-
-  // Common string validations
-  safeString: (minLength: number = 1, maxLength: number = 1000) =>
-    Joi.string()
-      .min(minLength)
-      .max(maxLength)
-      .pattern(/^[^<>"'&]*$/) // Prevent basic XSS
-      .messages({
-        'string.pattern.base': 'String contains invalid characters',
-      }),
-
-  // ID validation (UUID or similar)
-  id: Joi.string()
-    .pattern(/^[a-zA-Z0-9_-]+$/)
-    .min(1)
-    .max(100)
-    .required(),
-
-  // Date validation
-  futureDate: Joi.date()
-    .greater('now')
-    .required()
-    .messages({
-      'date.greater': 'Date must be in the future',
-    }),
-
-  // Price validation
-  price: Joi.number()
-    .positive()
-    .precision(6) // Support up to 6 decimal places for tokens
-    .required(),
-
-  // Duration validation (in minutes)
-  duration: Joi.number()
-    .integer()
-    .min(30) // Minimum 30 minutes
-    .max(480) // Maximum 8 hours
-    .required(),
+// The file an upload middleware (multer) attached to the request
+type UploadRequest = Request & {
+  file?: { size: number; mimetype: string; originalname: string };
 };
 
 /**
@@ -394,7 +410,7 @@ export const validateFileUpload = (options: {
   allowedTypes?: string[];
   required?: boolean;
 }) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return (req: UploadRequest, _res: Response, next: NextFunction): void => {
     try {
       const { maxSize = 5 * 1024 * 1024, allowedTypes = ['image/jpeg', 'image/png', 'image/webp'], required = false } = options;
 
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { DatabaseConnection, SqlParam } from '../database';
+import { AuditChainEntry, AuditChainVerification, AuditEntry, AuditOutcome, OperatorRole } from '../types';
+import { AuditChainVerifier, chainEntry } from '../utils/auditChain';
+import { BaseRepository, PageOptions, PageResult } from './base.repository';
+
+const CHAIN_BATCH_SIZE = 500;
+const RECORD_ATTEMPTS = 3;
+
+interface AuditRow {
+  id: string;
+  actor_address: string;
+  actor_role: string | null;
+  action: string;
+  method: string;
+  path: string;
+  details: string;
+  outcome: string;
+  status_code: number | null;
+  ip: string | null;
+  created_at: string;
+  seq: number | null;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export interface AuditLogFilters extends PageOptions {
+  actor?: string;
+  action?: string;
+  outcome?: AuditOutcome;
+}
+
+/**
+ * Audit log entries are hash-chained: each row stores its sequence number, the hash of the row
+ * before it and its own hash, so rows edited, deleted or inserted in the database are found by
+ * verifyChain().
+ */
+class AuditRepository extends BaseRepository {
+  // One chained insert at a time in this process; the unique seq index turns away a concurrent
+  // insert from another instance, which is then retried on the new head
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  public record(entry: Omit<AuditEntry, 'id' | 'createdAt'>, tx?: DatabaseConnection): Promise<AuditEntry> {
+    const write = this.writeQueue.then(() => this.recordWithRetry(entry, tx));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async recordWithRetry(entry: Omit<AuditEntry, 'id' | 'createdAt'>, tx?: DatabaseConnection): Promise<AuditEntry> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.db(tx).transaction(db => this.insertChained(entry, db));
+      } catch (error) {
+        if (attempt >= RECORD_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  private async insertChained(entry: Omit<AuditEntry, 'id' | 'createdAt'>, db: DatabaseConnection): Promise<AuditEntry> {
+    const id = crypto.randomUUID();
+    const createdAt = this.now();
+    const details = this.toJson(entry.details);
+
+    const head = await db.queryOne<{ seq: number; hash: string }>(
+      'SELECT seq, hash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1',
+    );
+    const row: AuditRow = {
+      id,
+      actor_address: this.normalizeAddress(entry.actorAddress),
+      actor_role: entry.actorRole ?? null,
+      action: entry.action,
+      method: entry.method,
+      path: entry.path,
+      details,
+      outcome: entry.outcome,
+      status_code: entry.statusCode ?? null,
+      ip: entry.ip ?? null,
+      created_at: createdAt,
+      seq: null,
+      prev_hash: null,
+      hash: null,
+    };
+    const chained = chainEntry(head ? { seq: Number(head.seq), hash: head.hash } : null, this.toUnchainedEntry(row));
+    Object.assign(row, { seq: chained.seq, prev_hash: chained.prevHash, hash: chained.hash });
+
+    await db.execute(
+      `INSERT INTO audit_log (id, actor_address, actor_role, action, method, path, details, outcome, status_code, ip, created_at, seq, prev_hash, hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        row.id,
+        row.actor_address,
+        row.actor_role,
+        row.action,
+        row.method,
+        row.path,
+        row.details,
+        row.outcome,
+        row.status_code,
+        row.ip,
+        row.created_at,
+        row.seq,
+        row.prev_hash,
+        row.hash,
+      ],
+    );
+
+    return { ...entry, id, createdAt: new Date(createdAt) };
+  }
+
+  /**
+   * Walk the chain in seq order: no gaps, each prev_hash equal to the hash of the row before and
+   * each hash matching the row's content. anchor is a head reported by an earlier verification;
+   * the row at its seq must still be there with the same hash (catches rows cut off the end).
+   */
+  public async verifyChain(anchor?: { seq: number; hash: string }): Promise<AuditChainVerification> {
+    const verifier = new AuditChainVerifier(anchor);
+    await this.forEachChained(rows => rows.forEach(row => verifier.check(this.toChainEntry(row))));
+
+    const unchained = await this.db().queryOne<{ total: number | string }>('SELECT COUNT(*) AS total FROM audit_log WHERE seq IS NULL');
+    return { ...verifier.result(), unchained: Number(unchained?.total || 0) };
+  }
+
+  /**
+   * The chained entries in seq order, in batches, as stored (hashes are not recomputed)
+   */
+  public async exportChain(write: (entries: AuditChainEntry[]) => void | Promise<void>): Promise<void> {
+    await this.forEachChained(rows => write(rows.map(row => this.toChainEntry(row))));
+  }
+
+  private async forEachChained(fn: (rows: AuditRow[]) => void | Promise<void>): Promise<void> {
+    let after = 0;
+    while (true) {
+      const rows = await this.db().query<AuditRow>(
+        'SELECT * FROM audit_log WHERE seq IS NOT NULL AND seq > ? ORDER BY seq ASC LIMIT ?',
+        [after, CHAIN_BATCH_SIZE],
+      );
+      if (rows.length === 0) return;
+
+      await fn(rows);
+      after = Number(rows[rows.length - 1].seq);
+    }
+  }
+
+  // The row in the audit trail entry format, as stored
+  private toChainEntry(row: AuditRow): AuditChainEntry {
+    return {
+      ...this.toUnchainedEntry(row),
+      seq: Number(row.seq),
+      prevHash: row.prev_hash || '',
+      hash: row.hash || '',
+    };
+  }
+
+  private toUnchainedEntry(row: AuditRow): Omit<AuditChainEntry, 'seq' | 'prevHash' | 'hash'> {
+    return {
+      timestamp: row.created_at,
+      actor: row.actor_address,
+      action: row.action,
+      details: {
+        id: row.id,
+        actorRole: row.actor_role,
+        method: row.method,
+        path: row.path,
+        request: this.parseJson<unknown>(row.details, null),
+        outcome: row.outcome,
+        statusCode: row.status_code,
+        ip: row.ip,
+      },
+    };
+  }
+
+  /**
+   * Audit entries, newest first
+   */
+  public async findEntries(filters: AuditLogFilters, tx?: DatabaseConnection): Promise<PageResult<AuditEntry>> {
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+
+    if (filters.actor) {
+      conditions.push('actor_address = ?');
+      params.push(this.normalizeAddress(filters.actor));
+    }
+
+    if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+
+    if (filters.outcome) {
+      conditions.push('outcome = ?');
+      params.push(filters.outcome);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const db = this.db(tx);
+    const countRow = await db.queryOne<{ total: number | string }>(`SELECT COUNT(*) AS total FROM audit_log ${where}`, params);
+    const rows = await db.query<AuditRow>(
+      `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id ASC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, this.offset(filters)],
+    );
+
+    return {
+      items: rows.map(row => this.toEntry(row)),
+      total: Number(countRow?.total || 0),
+    };
+  }
+
+  private toEntry(row: AuditRow): AuditEntry {
+    return {
+      id: row.id,
+      actorAddress: row.actor_address,
+      actorRole: (row.actor_role as OperatorRole | null) ?? undefined,
+      action: row.action,
+      method: row.method,
+      path: row.path,
+      details: this.parseJson<Record<string, unknown>>(row.details, {}),
+      outcome: row.outcome as AuditOutcome,
+      statusCode: row.status_code ?? undefined,
+      ip: row.ip ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+export const auditRepository = new AuditRepository();
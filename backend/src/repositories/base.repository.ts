@@ -0,0 +1,46 @@
+import { getDatabase, DatabaseConnection } from '../database';
+
+export interface PageOptions {
+  page: number;
+  limit: number;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * Shared helpers for repositories. Every write method accepts an optional
+ * transaction connection so callers can compose several writes atomically.
+ */
+export abstract class BaseRepository {
+  protected db(tx?: DatabaseConnection): DatabaseConnection {
+    return tx || getDatabase();
+  }
+
+  protected now(): string {
+    return new Date().toISOString();
+  }
+
+  protected normalizeAddress(address: string): string {
+    return address.toLowerCase();
+  }
+
+  protected toJson(value: unknown): string {
+    return JSON.stringify(value ?? null);
+  }
+
+  protected parseJson<T>(value: string | null | undefined, fallback: T): T {
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  protected offset({ page, limit }: PageOptions): number {
+    return (Math.max(page, 1) - 1) * limit;
+  }
+}
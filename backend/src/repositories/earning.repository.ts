@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { DatabaseConnection, SqlParam } from '../database';
+import { EarningRecord } from '../types';
+import { BaseRepository, PageOptions, PageResult } from './base.repository';
+
+interface EarningRow {
+  id: string;
+  session_id: string;
+  address: string;
+  amount: number;
+  currency: string;
+  platform_fee: number;
+  net_amount: number;
+  status: string;
+  transaction_hash: string | null;
+  earned_at: string;
+  mentorship_title?: string | null;
+}
+
+export interface EarningFilters extends PageOptions {
+  currency?: EarningRecord['currency'];
+  status?: EarningRecord['status'];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export type EarningWithDetails = EarningRecord & { id: string; mentorshipTitle?: string };
+
+export type CurrencyTotals = Record<EarningRecord['currency'], number>;
+
+export interface EarningTotals {
+  total: CurrencyTotals;
+  pending: CurrencyTotals;
+  withdrawn: CurrencyTotals;
+}
+
+const emptyTotals = (): CurrencyTotals => ({ USDT: 0, USDC: 0 });
+
+class EarningRepository extends BaseRepository {
+  /**
+   * Record an earning for a completed session. Recording the same session
+   * twice for the same address is a no-op.
+   */
+  public async create(
+    input: Omit<EarningRecord, 'earnedAt'> & { address: string; earnedAt?: Date },
+    tx?: DatabaseConnection,
+  ): Promise<void> {
+    const db = this.db(tx);
+    const address = this.normalizeAddress(input.address);
+
+    const existing = await db.queryOne<{ id: string }>(
+      'SELECT id FROM earnings WHERE session_id = ? AND address = ?',
+      [input.sessionId, address],
+    );
+    if (existing) return;
+
+    await db.execute(
+      `INSERT INTO earnings (id, session_id, address, amount, currency, platform_fee, net_amount, status,
+        transaction_hash, earned_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        crypto.randomUUID(),
+        input.sessionId,
+        address,
+        input.amount,
+        input.currency,
+        input.platformFee,
+        input.netAmount,
+        input.status,
+        input.transactionHash ?? null,
+        (input.earnedAt || new Date()).toISOString(),
+      ],
+    );
+  }
+
+  /**
+   * List a user's earnings with filters and pagination
+   */
+  public async findForAddress(
+    address: string,
+    filters: EarningFilters,
+    tx?: DatabaseConnection,
+  ): Promise<PageResult<EarningWithDetails>> {
+    const conditions: string[] = ['e.address = ?'];
+    const params: SqlParam[] = [this.normalizeAddress(address)];
+
+    if (filters.currency) {
+      conditions.push('e.currency = ?');
+      params.push(filters.currency);
+    }
+    if (filters.status) {
+      conditions.push('e.status = ?');
+      params.push(filters.status);
+    }
+    if (filters.startDate) {
+      conditions.push('e.earned_at >= ?');
+      params.push(filters.startDate.toISOString());
+    }
+    if (filters.endDate) {
+      conditions.push('e.earned_at <= ?');
+      params.push(filters.endDate.toISOString());
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const db = this.db(tx);
+    const countRow = await db.queryOne<{ total: number | string }>(`SELECT COUNT(*) AS total FROM earnings e ${where}`, params);
+    const rows = await db.query<EarningRow>(
+      `SELECT e.*, m.title AS mentorship_title FROM earnings e
+        LEFT JOIN sessions s ON s.id = e.session_id
+        LEFT JOIN mentorships m ON m.id = s.mentorship_id
+        ${where} ORDER BY e.earned_at DESC, e.id ASC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, this.offset(filters)],
+    );
+
+    return {
+      items: rows.map(row => this.toModel(row)),
+      total: Number(countRow?.total || 0),
+    };
+  }
+
+  /**
+   * Sum net earnings per currency, split by status
+   */
+  public async getTotals(address: string, since?: Date, tx?: DatabaseConnection): Promise<EarningTotals> {
+    const params: SqlParam[] = [this.normalizeAddress(address)];
+    let sinceCondition = '';
+    if (since) {
+      sinceCondition = 'AND earned_at >= ?';
+      params.push(since.toISOString());
+    }
+
+    const rows = await this.db(tx).query<{ currency: string; status: string; total: number | string }>(
+      `SELECT currency, status, SUM(net_amount) AS total FROM earnings
+        WHERE address = ? ${sinceCondition} GROUP BY currency, status`,
+      params,
+    );
+
+    const totals: EarningTotals = { total: emptyTotals(), pending: emptyTotals(), withdrawn: emptyTotals() };
+    for (const row of rows) {
+      const currency = row.currency as EarningRecord['currency'];
+      if (!(currency in totals.total)) continue;
+
+      const amount = Number(row.total || 0);
+      totals.total[currency] += amount;
+      if (row.status === 'pending') totals.pending[currency] += amount;
+      if (row.status === 'withdrawn') totals.withdrawn[currency] += amount;
+    }
+
+    return totals;
+  }
+
+  private toModel(row: EarningRow): EarningWithDetails {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      amount: Number(row.amount),
+      currency: row.currency as EarningRecord['currency'],
+      platformFee: Number(row.platform_fee),
+      netAmount: Number(row.net_amount),
+      status: row.status as EarningRecord['status'],
+      transactionHash: row.transaction_hash ?? undefined,
+      earnedAt: new Date(row.earned_at),
+      mentorshipTitle: row.mentorship_title ?? undefined,
+    };
+  }
+}
+
+export const earningRepository = new EarningRepository();
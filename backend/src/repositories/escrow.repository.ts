@@ -0,0 +1,292 @@
+import { DatabaseConnection, SqlParam } from '../database';
+import { EscrowEvent, EscrowEventName, EscrowSession, EscrowSessionStatus, IndexerCheckpoint } from '../types';
+import { BaseRepository, PageOptions, PageResult } from './base.repository';
+
+interface EscrowEventRow {
+  id: string;
+  chain_id: number;
+  contract_address: string;
+  session_id: string;
+  event_name: string;
+  args: string;
+  block_number: number | string;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  occurred_at: string | null;
+  indexed_at: string;
+}
+
+interface EscrowSessionRow {
+  chain_id: number;
+  session_id: string;
+  contract_address: string;
+  student_address: string | null;
+  mentor_address: string | null;
+  payment_token: string | null;
+  total_amount: string;
+  released_amount: string;
+  refunded_amount: string;
+  session_duration: number | null;
+  scheduled_time: string | null;
+  status: string;
+  dispute_reason: string | null;
+  created_block: number | string | null;
+  last_event_block: number | string;
+  created_at: string | null;
+  updated_at: string;
+}
+
+interface CheckpointRow {
+  chain_id: number;
+  block_number: number | string;
+  block_hash: string;
+  updated_at: string;
+}
+
+export interface EscrowSessionFilters extends PageOptions {
+  chainId?: number;
+  status?: EscrowSessionStatus[];
+  student?: string;
+  mentor?: string;
+  updatedSinceBlock?: number;
+}
+
+class EscrowRepository extends BaseRepository {
+  public async getCheckpoint(chainId: number, tx?: DatabaseConnection): Promise<IndexerCheckpoint | null> {
+    const row = await this.db(tx).queryOne<CheckpointRow>('SELECT * FROM indexer_checkpoints WHERE chain_id = ?', [chainId]);
+    return row ? this.toCheckpoint(row) : null;
+  }
+
+  public async listCheckpoints(tx?: DatabaseConnection): Promise<IndexerCheckpoint[]> {
+    const rows = await this.db(tx).query<CheckpointRow>('SELECT * FROM indexer_checkpoints ORDER BY chain_id ASC');
+    return rows.map(row => this.toCheckpoint(row));
+  }
+
+  /**
+   * Record the last block indexed for a chain (and its hash, for reorg detection)
+   */
+  public async saveCheckpoint(chainId: number, blockNumber: number, blockHash: string, tx?: DatabaseConnection): Promise<void> {
+    const db = this.db(tx);
+    const existing = await db.queryOne('SELECT chain_id FROM indexer_checkpoints WHERE chain_id = ?', [chainId]);
+
+    if (existing) {
+      await db.execute(
+        'UPDATE indexer_checkpoints SET block_number = ?, block_hash = ?, updated_at = ? WHERE chain_id = ?',
+        [blockNumber, blockHash, this.now(), chainId],
+      );
+    } else {
+      await db.execute(
+        'INSERT INTO indexer_checkpoints (chain_id, block_number, block_hash, updated_at) VALUES (?, ?, ?, ?)',
+        [chainId, blockNumber, blockHash, this.now()],
+      );
+    }
+  }
+
+  /**
+   * Store an event. Returns false if it was already indexed.
+   */
+  public async insertEvent(event: EscrowEvent, tx?: DatabaseConnection): Promise<boolean> {
+    const db = this.db(tx);
+    const existing = await db.queryOne('SELECT id FROM escrow_events WHERE id = ?', [event.id]);
+    if (existing) return false;
+
+    await db.execute(
+      `INSERT INTO escrow_events (id, chain_id, contract_address, session_id, event_name, args, block_number,
+        block_hash, transaction_hash, log_index, occurred_at, indexed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.id,
+        event.chainId,
+        this.normalizeAddress(event.contractAddress),
+        event.sessionId.toLowerCase(),
+        event.eventName,
+        this.toJson(event.args),
+        event.blockNumber,
+        event.blockHash,
+        event.transactionHash,
+        event.logIndex,
+        event.occurredAt?.toISOString() ?? null,
+        this.now(),
+      ],
+    );
+    return true;
+  }
+
+  /**
+   * Timeline of a session in chain order
+   */
+  public async findEventsForSession(chainId: number, sessionId: string, tx?: DatabaseConnection): Promise<EscrowEvent[]> {
+    const rows = await this.db(tx).query<EscrowEventRow>(
+      'SELECT * FROM escrow_events WHERE chain_id = ? AND session_id = ? ORDER BY block_number ASC, log_index ASC',
+      [chainId, sessionId.toLowerCase()],
+    );
+    return rows.map(row => this.toEvent(row));
+  }
+
+  /**
+   * Drop events above a block (reorg). Returns the ids of the sessions they belonged to.
+   */
+  public async deleteEventsAfter(chainId: number, blockNumber: number, tx?: DatabaseConnection): Promise<string[]> {
+    const db = this.db(tx);
+    const affected = await db.query<{ session_id: string }>(
+      'SELECT DISTINCT session_id FROM escrow_events WHERE chain_id = ? AND block_number > ?',
+      [chainId, blockNumber],
+    );
+    await db.execute('DELETE FROM escrow_events WHERE chain_id = ? AND block_number > ?', [chainId, blockNumber]);
+    return affected.map(row => row.session_id);
+  }
+
+  public async findSession(chainId: number, sessionId: string, tx?: DatabaseConnection): Promise<EscrowSession | null> {
+    const row = await this.db(tx).queryOne<EscrowSessionRow>(
+      'SELECT * FROM escrow_sessions WHERE chain_id = ? AND session_id = ?',
+      [chainId, sessionId.toLowerCase()],
+    );
+    return row ? this.toSession(row) : null;
+  }
+
+  public async findSessions(filters: EscrowSessionFilters, tx?: DatabaseConnection): Promise<PageResult<EscrowSession>> {
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+
+    if (filters.chainId !== undefined) {
+      conditions.push('chain_id = ?');
+      params.push(filters.chainId);
+    }
+
+    if (filters.status?.length) {
+      conditions.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+
+    if (filters.student) {
+      conditions.push('student_address = ?');
+      params.push(this.normalizeAddress(filters.student));
+    }
+
+    if (filters.mentor) {
+      conditions.push('mentor_address = ?');
+      params.push(this.normalizeAddress(filters.mentor));
+    }
+
+    if (filters.updatedSinceBlock !== undefined) {
+      conditions.push('last_event_block >= ?');
+      params.push(filters.updatedSinceBlock);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const db = this.db(tx);
+    const countRow = await db.queryOne<{ total: number | string }>(`SELECT COUNT(*) AS total FROM escrow_sessions ${where}`, params);
+    const rows = await db.query<EscrowSessionRow>(
+      `SELECT * FROM escrow_sessions ${where} ORDER BY last_event_block DESC, session_id ASC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, this.offset(filters)],
+    );
+
+    return {
+      items: rows.map(row => this.toSession(row)),
+      total: Number(countRow?.total || 0),
+    };
+  }
+
+  /**
+   * Insert or replace the folded state of a session
+   */
+  public async saveSession(session: EscrowSession, tx?: DatabaseConnection): Promise<void> {
+    const db = this.db(tx);
+    const values: SqlParam[] = [
+      this.normalizeAddress(session.contractAddress),
+      session.studentAddress ? this.normalizeAddress(session.studentAddress) : null,
+      session.mentorAddress ? this.normalizeAddress(session.mentorAddress) : null,
+      session.paymentToken ? this.normalizeAddress(session.paymentToken) : null,
+      session.totalAmount,
+      session.releasedAmount,
+      session.refundedAmount,
+      session.sessionDuration ?? null,
+      session.scheduledTime?.toISOString() ?? null,
+      session.status,
+      session.disputeReason ?? null,
+      session.createdBlock ?? null,
+      session.lastEventBlock,
+      session.createdAt?.toISOString() ?? null,
+      this.now(),
+    ];
+
+    const existing = await db.queryOne(
+      'SELECT session_id FROM escrow_sessions WHERE chain_id = ? AND session_id = ?',
+      [session.chainId, session.sessionId.toLowerCase()],
+    );
+
+    if (existing) {
+      await db.execute(
+        `UPDATE escrow_sessions SET contract_address = ?, student_address = ?, mentor_address = ?, payment_token = ?,
+          total_amount = ?, released_amount = ?, refunded_amount = ?, session_duration = ?, scheduled_time = ?,
+          status = ?, dispute_reason = ?, created_block = ?, last_event_block = ?, created_at = ?, updated_at = ?
+          WHERE chain_id = ? AND session_id = ?`,
+        [...values, session.chainId, session.sessionId.toLowerCase()],
+      );
+    } else {
+      await db.execute(
+        `INSERT INTO escrow_sessions (contract_address, student_address, mentor_address, payment_token, total_amount,
+          released_amount, refunded_amount, session_duration, scheduled_time, status, dispute_reason, created_block,
+          last_event_block, created_at, updated_at, chain_id, session_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [...values, session.chainId, session.sessionId.toLowerCase()],
+      );
+    }
+  }
+
+  public async deleteSession(chainId: number, sessionId: string, tx?: DatabaseConnection): Promise<void> {
+    await this.db(tx).execute('DELETE FROM escrow_sessions WHERE chain_id = ? AND session_id = ?', [
+      chainId,
+      sessionId.toLowerCase(),
+    ]);
+  }
+
+  private toCheckpoint(row: CheckpointRow): IndexerCheckpoint {
+    return {
+      chainId: Number(row.chain_id),
+      blockNumber: Number(row.block_number),
+      blockHash: row.block_hash,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toEvent(row: EscrowEventRow): EscrowEvent {
+    return {
+      id: row.id,
+      chainId: Number(row.chain_id),
+      contractAddress: row.contract_address,
+      sessionId: row.session_id,
+      eventName: row.event_name as EscrowEventName,
+      args: this.parseJson<EscrowEvent['args']>(row.args, {}),
+      blockNumber: Number(row.block_number),
+      blockHash: row.block_hash,
+      transactionHash: row.transaction_hash,
+      logIndex: Number(row.log_index),
+      occurredAt: row.occurred_at ? new Date(row.occurred_at) : undefined,
+    };
+  }
+
+  private toSession(row: EscrowSessionRow): EscrowSession {
+    return {
+      chainId: Number(row.chain_id),
+      sessionId: row.session_id,
+      contractAddress: row.contract_address,
+      studentAddress: row.student_address ?? undefined,
+      mentorAddress: row.mentor_address ?? undefined,
+      paymentToken: row.payment_token ?? undefined,
+      totalAmount: row.total_amount,
+      releasedAmount: row.released_amount,
+      refundedAmount: row.refunded_amount,
+      sessionDuration: row.session_duration ?? undefined,
+      scheduledTime: row.scheduled_time ? new Date(row.scheduled_time) : undefined,
+      status: row.status as EscrowSessionStatus,
+      disputeReason: row.dispute_reason ?? undefined,
+      createdBlock: row.created_block !== null ? Number(row.created_block) : undefined,
+      lastEventBlock: Number(row.last_event_block),
+      createdAt: row.created_at ? new Date(row.created_at) : undefined,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const escrowRepository = new EscrowRepository();
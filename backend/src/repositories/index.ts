@@ -0,0 +1,9 @@
+export { userRepository } from './user.repository';
+export { profileRepository } from './profile.repository';
+export { mentorshipRepository } from './mentorship.repository';
+export { sessionRepository } from './session.repository';
+export { earningRepository } from './earning.repository';
+export { tokenRepository } from './token.repository';
+export { escrowRepository } from './escrow.repository';
+export { auditRepository } from './audit.repository';
+export type { PageOptions, PageResult } from './base.repository';
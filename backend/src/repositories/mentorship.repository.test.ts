@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { closeDatabase, initializeDatabase } from '../database';
+import { MentorshipInput, mentorshipRepository } from './mentorship.repository';
+import { profileRepository } from './profile.repository';
+
+const input = (overrides: Partial<MentorshipInput> = {}): MentorshipInput => ({
+  title: 'Solidity from zero',
+  description: 'Write, test and deploy your first contract',
+  category: 'Development',
+  skills: ['Solidity', 'Hardhat'],
+  duration: 60,
+  price: 50,
+  currency: 'USDC',
+  maxStudents: 1,
+  ...overrides,
+});
+
+describe('MentorshipRepository', () => {
+  const mentor = ethers.Wallet.createRandom().address;
+  const otherMentor = ethers.Wallet.createRandom().address;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    await profileRepository.upsert(mentor, { username: 'alice', bio: 'Smart contract auditor', isMentor: true });
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('creates a mentorship with its mentor profile joined in', async () => {
+    const created = await mentorshipRepository.create(mentor, input({ priceEth: 0.02, prerequisites: 'Basic JavaScript' }));
+
+    expect(created).toMatchObject({
+      mentorAddress: mentor.toLowerCase(),
+      skills: ['Solidity', 'Hardhat'],
+      priceEth: 0.02,
+      preferredToken: 'USDC',
+      prerequisites: 'Basic JavaScript',
+      isActive: true,
+      mentor: { username: 'alice', bio: 'Smart contract auditor' },
+    });
+    await expect(mentorshipRepository.findById(created.id)).resolves.toEqual(created);
+  });
+
+  it('is visible to every caller through search, filtered by skill, price and mentor', async () => {
+    await mentorshipRepository.create(otherMentor, input({ title: 'Rust for auditors', skills: ['Rust'], price: 120 }));
+
+    const bySkill = await mentorshipRepository.search({ skills: ['rust'], page: 1, limit: 10 });
+    const byPrice = await mentorshipRepository.search({ maxPrice: 100, page: 1, limit: 10 });
+    const byMentor = await mentorshipRepository.search({ mentorAddress: otherMentor, page: 1, limit: 10 });
+
+    expect(bySkill.items.map(item => item.title)).toEqual(['Rust for auditors']);
+    expect(byPrice.items.every(item => item.price <= 100)).toBe(true);
+    expect(byMentor.total).toBe(1);
+  });
+
+  it('applies a partial update and hides deactivated mentorships from search', async () => {
+    const created = await mentorshipRepository.create(mentor, input({ title: 'Gas optimisation' }));
+
+    const updated = await mentorshipRepository.update(created.id, { price: 75, skills: ['EVM'], isActive: false });
+
+    expect(updated).toMatchObject({ title: 'Gas optimisation', price: 75, skills: ['EVM'], isActive: false });
+    const active = await mentorshipRepository.search({ mentorAddress: mentor, page: 1, limit: 10 });
+    expect(active.items.map(item => item.id)).not.toContain(created.id);
+    await expect(mentorshipRepository.findByMentor(mentor)).resolves.toContainEqual(expect.objectContaining({ id: created.id }));
+  });
+
+  it('deletes a mentorship without booked sessions', async () => {
+    const created = await mentorshipRepository.create(mentor, input({ title: 'Temporary' }));
+
+    await expect(mentorshipRepository.delete(created.id)).resolves.toBe('deleted');
+    await expect(mentorshipRepository.findById(created.id)).resolves.toBeNull();
+  });
+});
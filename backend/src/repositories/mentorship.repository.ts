@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import { DatabaseConnection, SqlParam } from '../database';
+import { Mentorship } from '../types';
+import { BaseRepository, PageOptions, PageResult } from './base.repository';
+import { userRepository } from './user.repository';
+
+interface MentorshipRow {
+  id: string;
+  mentor_address: string;
+  title: string;
+  description: string;
+  category: string;
+  skills: string;
+  duration: number;
+  price: number;
+  currency: string;
+  price_eth: number | null;
+  preferred_token: string;
+  prerequisites: string | null;
+  max_students: number;
+  is_active: boolean | number;
+  created_at: string;
+  updated_at: string;
+  mentor_username?: string | null;
+  mentor_bio?: string | null;
+  mentor_avatar?: string | null;
+  mentor_rating?: number | null;
+  mentor_total_sessions?: number | null;
+}
+
+export interface MentorshipSearchFilters extends PageOptions {
+  category?: string;
+  skills?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  currency?: 'USDT' | 'USDC';
+  mentorAddress?: string;
+  includeInactive?: boolean;
+  sortBy?: 'price' | 'rating' | 'created' | 'updated';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export type MentorshipInput = Pick<
+  Mentorship,
+  'title' | 'description' | 'category' | 'skills' | 'duration' | 'price' | 'currency' | 'maxStudents'
+> & Partial<Pick<Mentorship, 'priceEth' | 'preferredToken' | 'prerequisites'>>;
+
+export type MentorshipUpdate = Partial<MentorshipInput & { isActive: boolean }>;
+
+const SORT_COLUMNS: Record<NonNullable<MentorshipSearchFilters['sortBy']>, string> = {
+  price: 'm.price',
+  rating: 'COALESCE(p.rating, 0)',
+  created: 'm.created_at',
+  updated: 'm.updated_at',
+};
+
+// Mentorship columns plus the public profile fields of its mentor
+const SELECT_WITH_MENTOR = `SELECT m.*, p.username AS mentor_username, p.bio AS mentor_bio, p.avatar AS mentor_avatar,
+  p.rating AS mentor_rating, p.total_sessions AS mentor_total_sessions
+  FROM mentorships m LEFT JOIN profiles p ON p.address = m.mentor_address`;
+
+class MentorshipRepository extends BaseRepository {
+  /**
+   * Search mentorships with filters, sorting and pagination
+   */
+  public async search(filters: MentorshipSearchFilters, tx?: DatabaseConnection): Promise<PageResult<Mentorship>> {
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+
+    if (!filters.includeInactive) {
+      conditions.push('m.is_active = ?');
+      params.push(true);
+    }
+    if (filters.mentorAddress) {
+      conditions.push('m.mentor_address = ?');
+      params.push(this.normalizeAddress(filters.mentorAddress));
+    }
+    if (filters.category) {
+      conditions.push('LOWER(m.category) = ?');
+      params.push(filters.category.toLowerCase());
+    }
+    if (filters.currency) {
+      conditions.push('m.currency = ?');
+      params.push(filters.currency);
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push('m.price >= ?');
+      params.push(filters.minPrice);
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push('m.price <= ?');
+      params.push(filters.maxPrice);
+    }
+    // Skills are stored as a JSON array; match each requested skill as a quoted element
+    for (const skill of filters.skills || []) {
+      conditions.push('LOWER(m.skills) LIKE ?');
+      params.push(`%${JSON.stringify(skill.toLowerCase())}%`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const orderColumn = SORT_COLUMNS[filters.sortBy || 'created'];
+    const orderDirection = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const db = this.db(tx);
+    const countRow = await db.queryOne<{ total: number | string }>(
+      `SELECT COUNT(*) AS total FROM mentorships m LEFT JOIN profiles p ON p.address = m.mentor_address ${where}`,
+      params,
+    );
+    const rows = await db.query<MentorshipRow>(
+      `${SELECT_WITH_MENTOR} ${where} ORDER BY ${orderColumn} ${orderDirection}, m.id ASC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, this.offset(filters)],
+    );
+
+    return {
+      items: rows.map(row => this.toModel(row)),
+      total: Number(countRow?.total || 0),
+    };
+  }
+
+  /**
+   * Find a mentorship by ID
+   */
+  public async findById(id: string, tx?: DatabaseConnection): Promise<Mentorship | null> {
+    const row = await this.db(tx).queryOne<MentorshipRow>(`${SELECT_WITH_MENTOR} WHERE m.id = ?`, [id]);
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * List every mentorship created by a mentor, including inactive ones
+   */
+  public async findByMentor(mentorAddress: string, tx?: DatabaseConnection): Promise<Mentorship[]> {
+    const rows = await this.db(tx).query<MentorshipRow>(
+      `${SELECT_WITH_MENTOR} WHERE m.mentor_address = ? ORDER BY m.created_at DESC`,
+      [this.normalizeAddress(mentorAddress)],
+    );
+    return rows.map(row => this.toModel(row));
+  }
+
+  /**
+   * Create a new mentorship for a mentor
+   */
+  public async create(mentorAddress: string, input: MentorshipInput, tx?: DatabaseConnection): Promise<Mentorship> {
+    const db = this.db(tx);
+    const id = crypto.randomUUID();
+    const now = this.now();
+
+    await userRepository.ensure(mentorAddress, undefined, db);
+    await db.execute(
+      `INSERT INTO mentorships (id, mentor_address, title, description, category, skills, duration, price,
+        currency, price_eth, preferred_token, prerequisites, max_students, is_active, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        this.normalizeAddress(mentorAddress),
+        input.title,
+        input.description,
+        input.category,
+        this.toJson(input.skills),
+        input.duration,
+        input.price,
+        input.currency,
+        input.priceEth ?? null,
+        input.preferredToken || 'USDC',
+        input.prerequisites || null,
+        input.maxStudents ?? 1,
+        true,
+        now,
+        now,
+      ],
+    );
+
+    return (await this.findById(id, db))!;
+  }
+
+  /**
+   * Apply a partial update to a mentorship
+   */
+  public async update(id: string, update: MentorshipUpdate, tx?: DatabaseConnection): Promise<Mentorship | null> {
+    const columns: Record<keyof MentorshipUpdate, string> = {
+      title: 'title',
+      description: 'description',
+      category: 'category',
+      skills: 'skills',
+      duration: 'duration',
+      price: 'price',
+      currency: 'currency',
+      priceEth: 'price_eth',
+      preferredToken: 'preferred_token',
+      prerequisites: 'prerequisites',
+      maxStudents: 'max_students',
+      isActive: 'is_active',
+    };
+
+    const assignments: string[] = [];
+    const params: SqlParam[] = [];
+
+    for (const [key, column] of Object.entries(columns) as [keyof MentorshipUpdate, string][]) {
+      const value = update[key];
+      if (value === undefined) continue;
+      assignments.push(`${column} = ?`);
+      params.push(key === 'skills' ? this.toJson(value) : (value as SqlParam));
+    }
+
+    const db = this.db(tx);
+    if (assignments.length > 0) {
+      assignments.push('updated_at = ?');
+      params.push(this.now(), id);
+      await db.execute(`UPDATE mentorships SET ${assignments.join(', ')} WHERE id = ?`, params);
+    }
+
+    return this.findById(id, db);
+  }
+
+  /**
+   * Delete a mentorship. Mentorships with booked sessions are deactivated
+   * instead so session history keeps its reference.
+   */
+  public async delete(id: string, tx?: DatabaseConnection): Promise<'deleted' | 'deactivated'> {
+    const db = this.db(tx);
+    const sessions = await db.queryOne<{ total: number | string }>(
+      'SELECT COUNT(*) AS total FROM sessions WHERE mentorship_id = ?',
+      [id],
+    );
+
+    if (Number(sessions?.total || 0) > 0) {
+      await db.execute('UPDATE mentorships SET is_active = ?, updated_at = ? WHERE id = ?', [false, this.now(), id]);
+      return 'deactivated';
+    }
+
+    await db.execute('DELETE FROM mentorships WHERE id = ?', [id]);
+    return 'deleted';
+  }
+
+  private toModel(row: MentorshipRow): Mentorship {
+    return {
+      id: row.id,
+      mentorAddress: row.mentor_address,
+      title: row.title,
+      description: row.description,
+      category: row.category,
+      skills: this.parseJson<string[]>(row.skills, []),
+      duration: Number(row.duration),
+      price: Number(row.price),
+      currency: row.currency as Mentorship['currency'],
+      priceEth: row.price_eth !== null ? Number(row.price_eth) : undefined,
+      preferredToken: (row.preferred_token || 'USDC') as Mentorship['preferredToken'],
+      prerequisites: row.prerequisites ?? undefined,
+      maxStudents: Number(row.max_students),
+      isActive: Boolean(row.is_active),
+      mentor: {
+        username: row.mentor_username ?? undefined,
+        bio: row.mentor_bio ?? undefined,
+        avatar: row.mentor_avatar ?? undefined,
+        rating: Number(row.mentor_rating || 0),
+        totalSessions: Number(row.mentor_total_sessions || 0),
+      },
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const mentorshipRepository = new MentorshipRepository();
@@ -0,0 +1,144 @@
+import { DatabaseConnection } from '../database';
+import { Availability, UserProfile } from '../types';
+import { BaseRepository } from './base.repository';
+import { userRepository } from './user.repository';
+
+interface ProfileRow {
+  address: string;
+  username: string | null;
+  bio: string | null;
+  avatar: string | null;
+  is_mentor: boolean | number;
+  skills: string;
+  hourly_rate: number;
+  currency: string;
+  availability: string | null;
+  rating: number;
+  total_sessions: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProfileUpdate = Partial<
+  Pick<UserProfile, 'username' | 'bio' | 'avatar' | 'isMentor' | 'skills' | 'hourlyRate' | 'currency' | 'availability'>
+>;
+
+class ProfileRepository extends BaseRepository {
+  /**
+   * Find a profile by wallet address
+   */
+  public async findByAddress(address: string, tx?: DatabaseConnection): Promise<UserProfile | null> {
+    const row = await this.db(tx).queryOne<ProfileRow>(
+      'SELECT * FROM profiles WHERE address = ?',
+      [this.normalizeAddress(address)],
+    );
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * Create or update a profile, merging the given fields into the stored row
+   */
+  public async upsert(address: string, update: ProfileUpdate, tx?: DatabaseConnection): Promise<UserProfile> {
+    const db = this.db(tx);
+    const normalized = this.normalizeAddress(address);
+    const now = this.now();
+
+    await userRepository.ensure(normalized, undefined, db);
+    const existing = await this.findByAddress(normalized, db);
+
+    const merged = {
+      username: update.username ?? existing?.username ?? null,
+      bio: update.bio ?? existing?.bio ?? null,
+      avatar: update.avatar ?? existing?.avatar ?? null,
+      isMentor: update.isMentor ?? existing?.isMentor ?? false,
+      skills: update.skills ?? existing?.skills ?? [],
+      hourlyRate: update.hourlyRate ?? existing?.hourlyRate ?? 0,
+      currency: update.currency ?? existing?.currency ?? 'USDT',
+      availability: update.availability ?? existing?.availability ?? null,
+    };
+
+    if (existing) {
+      await db.execute(
+        `UPDATE profiles SET username = ?, bio = ?, avatar = ?, is_mentor = ?, skills = ?, hourly_rate = ?,
+          currency = ?, availability = ?, updated_at = ? WHERE address = ?`,
+        [
+          merged.username,
+          merged.bio,
+          merged.avatar,
+          merged.isMentor,
+          this.toJson(merged.skills),
+          merged.hourlyRate,
+          merged.currency,
+          merged.availability ? this.toJson(merged.availability) : null,
+          now,
+          normalized,
+        ],
+      );
+    } else {
+      await db.execute(
+        `INSERT INTO profiles (address, username, bio, avatar, is_mentor, skills, hourly_rate, currency,
+          availability, rating, total_sessions, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, ?, ?)`,
+        [
+          normalized,
+          merged.username,
+          merged.bio,
+          merged.avatar,
+          merged.isMentor,
+          this.toJson(merged.skills),
+          merged.hourlyRate,
+          merged.currency,
+          merged.availability ? this.toJson(merged.availability) : null,
+          now,
+          now,
+        ],
+      );
+    }
+
+    return (await this.findByAddress(normalized, db))!;
+  }
+
+  /**
+   * Update the aggregated session statistics shown on a mentor's profile
+   */
+  public async updateStats(
+    address: string,
+    stats: { rating?: number; totalSessions?: number },
+    tx?: DatabaseConnection,
+  ): Promise<void> {
+    const db = this.db(tx);
+    const normalized = this.normalizeAddress(address);
+
+    if (!(await this.findByAddress(normalized, db))) {
+      await this.upsert(normalized, {}, db);
+    }
+
+    const existing = (await this.findByAddress(normalized, db))!;
+    await db.execute('UPDATE profiles SET rating = ?, total_sessions = ?, updated_at = ? WHERE address = ?', [
+      stats.rating ?? existing.rating ?? 0,
+      stats.totalSessions ?? existing.totalSessions ?? 0,
+      this.now(),
+      normalized,
+    ]);
+  }
+
+  private toModel(row: ProfileRow): UserProfile {
+    return {
+      address: row.address,
+      username: row.username ?? undefined,
+      bio: row.bio ?? undefined,
+      avatar: row.avatar ?? undefined,
+      isMentor: Boolean(row.is_mentor),
+      skills: this.parseJson<string[]>(row.skills, []),
+      hourlyRate: Number(row.hourly_rate),
+      currency: row.currency as UserProfile['currency'],
+      availability: this.parseJson<Availability | undefined>(row.availability, undefined),
+      rating: Number(row.rating),
+      totalSessions: Number(row.total_sessions),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const profileRepository = new ProfileRepository();
@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import { DatabaseConnection, SqlParam } from '../database';
+import { MentorshipSession, SessionFeedback, SessionStatus } from '../types';
+import { BaseRepository, PageOptions, PageResult } from './base.repository';
+import { userRepository } from './user.repository';
+
+interface SessionRow {
+  id: string;
+  mentorship_id: string;
+  mentor_address: string;
+  student_address: string;
+  scheduled_at: string;
+  duration: number;
+  price: number;
+  currency: string;
+  status: string;
+  transaction_hash: string | null;
+  escrow_session_id: string | null;
+  chain_id: number | null;
+  hold_expires_at: string | null;
+  room_id: string | null;
+  feedback: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SessionFilters extends PageOptions {
+  status?: SessionStatus;
+  role?: 'mentor' | 'student';
+}
+
+export type SessionInput = Pick<
+  MentorshipSession,
+  'mentorshipId' | 'mentorAddress' | 'studentAddress' | 'scheduledAt' | 'duration' | 'price' | 'currency'
+> & {
+  status?: SessionStatus;
+  transactionHash?: string;
+  escrowSessionId?: string;
+  chainId?: number;
+  holdExpiresAt?: Date;
+};
+
+// Longest bookable session (minutes) - bounds the overlap search window
+const MAX_SESSION_DURATION = 480;
+
+export interface MentorSessionStats {
+  completedSessions: number;
+  totalStudents: number;
+  repeatCustomers: number;
+  averageSessionDuration: number;
+  sessionsSince: number;
+}
+
+class SessionRepository extends BaseRepository {
+  /**
+   * Find a session by ID
+   */
+  public async findById(id: string, tx?: DatabaseConnection): Promise<MentorshipSession | null> {
+    const row = await this.db(tx).queryOne<SessionRow>('SELECT * FROM sessions WHERE id = ?', [id]);
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * Find a booking by the bytes32 session id it was paid under on-chain
+   */
+  public async findByEscrowSessionId(escrowSessionId: string, tx?: DatabaseConnection): Promise<MentorshipSession | null> {
+    const row = await this.db(tx).queryOne<SessionRow>('SELECT * FROM sessions WHERE escrow_session_id = ?', [
+      escrowSessionId.toLowerCase(),
+    ]);
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * List sessions where the user is the mentor or the student
+   */
+  public async findForUser(
+    address: string,
+    filters: SessionFilters,
+    tx?: DatabaseConnection,
+  ): Promise<PageResult<MentorshipSession>> {
+    const normalized = this.normalizeAddress(address);
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+
+    if (filters.role === 'mentor') {
+      conditions.push('mentor_address = ?');
+      params.push(normalized);
+    } else if (filters.role === 'student') {
+      conditions.push('student_address = ?');
+      params.push(normalized);
+    } else {
+      conditions.push('(mentor_address = ? OR student_address = ?)');
+      params.push(normalized, normalized);
+    }
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const db = this.db(tx);
+    const countRow = await db.queryOne<{ total: number | string }>(`SELECT COUNT(*) AS total FROM sessions ${where}`, params);
+    const rows = await db.query<SessionRow>(
+      `SELECT * FROM sessions ${where} ORDER BY scheduled_at DESC, id ASC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, this.offset(filters)],
+    );
+
+    return {
+      items: rows.map(row => this.toModel(row)),
+      total: Number(countRow?.total || 0),
+    };
+  }
+
+  /**
+   * Create a new session booking
+   */
+  public async create(input: SessionInput, tx?: DatabaseConnection): Promise<MentorshipSession> {
+    const db = this.db(tx);
+    const id = crypto.randomUUID();
+    const now = this.now();
+
+    await userRepository.ensure(input.studentAddress, undefined, db);
+    await db.execute(
+      `INSERT INTO sessions (id, mentorship_id, mentor_address, student_address, scheduled_at, duration, price,
+        currency, status, transaction_hash, escrow_session_id, chain_id, hold_expires_at, room_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.mentorshipId,
+        this.normalizeAddress(input.mentorAddress),
+        this.normalizeAddress(input.studentAddress),
+        input.scheduledAt.toISOString(),
+        input.duration,
+        input.price,
+        input.currency,
+        input.status || SessionStatus.SCHEDULED,
+        input.transactionHash ?? null,
+        input.escrowSessionId ?? null,
+        input.chainId ?? null,
+        input.holdExpiresAt ? input.holdExpiresAt.toISOString() : null,
+        `room_${id}`,
+        now,
+        now,
+      ],
+    );
+
+    return (await this.findById(id, db))!;
+  }
+
+  /**
+   * Update the status of a session
+   */
+  public async updateStatus(id: string, status: SessionStatus, tx?: DatabaseConnection): Promise<MentorshipSession | null> {
+    const db = this.db(tx);
+    await db.execute('UPDATE sessions SET status = ?, updated_at = ? WHERE id = ?', [status, this.now(), id]);
+    return this.findById(id, db);
+  }
+
+  /**
+   * Lock a mentor's schedule for the rest of the transaction. Touching the
+   * mentor's user row serializes concurrent bookings (row lock on PostgreSQL,
+   * write lock on SQLite) so two students cannot take the same slot.
+   */
+  public async lockMentorSchedule(mentorAddress: string, tx: DatabaseConnection): Promise<void> {
+    await tx.execute('UPDATE users SET updated_at = ? WHERE address = ?', [
+      this.now(),
+      this.normalizeAddress(mentorAddress),
+    ]);
+  }
+
+  /**
+   * Sessions that occupy a mentor's time around [from, to): booked and running
+   * sessions plus unexpired payment holds
+   */
+  public async findBlockingForMentor(
+    mentorAddress: string,
+    from: Date,
+    to: Date,
+    tx?: DatabaseConnection,
+  ): Promise<MentorshipSession[]> {
+    const earliestStart = new Date(from.getTime() - MAX_SESSION_DURATION * 60 * 1000);
+    const rows = await this.db(tx).query<SessionRow>(
+      `SELECT * FROM sessions
+        WHERE mentor_address = ? AND scheduled_at >= ? AND scheduled_at < ?
+          AND (status IN (?, ?) OR (status = ? AND hold_expires_at > ?))
+        ORDER BY scheduled_at ASC`,
+      [
+        this.normalizeAddress(mentorAddress),
+        earliestStart.toISOString(),
+        to.toISOString(),
+        SessionStatus.SCHEDULED,
+        SessionStatus.IN_PROGRESS,
+        SessionStatus.PENDING_PAYMENT,
+        this.now(),
+      ],
+    );
+    return rows.map(row => this.toModel(row));
+  }
+
+  /**
+   * Every session still waiting for its escrow payment
+   */
+  public async findPendingHolds(tx?: DatabaseConnection): Promise<MentorshipSession[]> {
+    const rows = await this.db(tx).query<SessionRow>(
+      'SELECT * FROM sessions WHERE status = ? ORDER BY hold_expires_at ASC',
+      [SessionStatus.PENDING_PAYMENT],
+    );
+    return rows.map(row => this.toModel(row));
+  }
+
+  /**
+   * Record the escrow transaction for a held slot and extend the hold.
+   * Returns false if the session is no longer held.
+   */
+  public async attachTransaction(
+    id: string,
+    transactionHash: string,
+    chainId: number,
+    holdExpiresAt: Date,
+    tx?: DatabaseConnection,
+  ): Promise<boolean> {
+    const result = await this.db(tx).execute(
+      `UPDATE sessions SET transaction_hash = ?, chain_id = ?, hold_expires_at = ?, updated_at = ?
+        WHERE id = ? AND status = ?`,
+      [transactionHash, chainId, holdExpiresAt.toISOString(), this.now(), id, SessionStatus.PENDING_PAYMENT],
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Turn a held slot into a scheduled session. Returns false if it was not held.
+   */
+  public async confirmHold(id: string, tx?: DatabaseConnection): Promise<boolean> {
+    const result = await this.db(tx).execute(
+      'UPDATE sessions SET status = ?, hold_expires_at = NULL, updated_at = ? WHERE id = ? AND status = ?',
+      [SessionStatus.SCHEDULED, this.now(), id, SessionStatus.PENDING_PAYMENT],
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Release a held slot. Returns false if it was not held.
+   */
+  public async releaseHold(id: string, tx?: DatabaseConnection): Promise<boolean> {
+    const result = await this.db(tx).execute(
+      'UPDATE sessions SET status = ?, hold_expires_at = NULL, updated_at = ? WHERE id = ? AND status = ?',
+      [SessionStatus.CANCELLED, this.now(), id, SessionStatus.PENDING_PAYMENT],
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Store participant feedback for a session
+   */
+  public async setFeedback(id: string, feedback: SessionFeedback, tx?: DatabaseConnection): Promise<void> {
+    await this.db(tx).execute('UPDATE sessions SET feedback = ?, updated_at = ? WHERE id = ?', [
+      this.toJson(feedback),
+      this.now(),
+      id,
+    ]);
+  }
+
+  /**
+   * Get every feedback rating a mentor has received
+   */
+  public async getMentorRatings(mentorAddress: string, tx?: DatabaseConnection): Promise<number[]> {
+    const rows = await this.db(tx).query<{ feedback: string }>(
+      'SELECT feedback FROM sessions WHERE mentor_address = ? AND feedback IS NOT NULL',
+      [this.normalizeAddress(mentorAddress)],
+    );
+    return rows
+      .map(row => this.parseJson<SessionFeedback | null>(row.feedback, null)?.rating)
+      .filter((rating): rating is number => typeof rating === 'number');
+  }
+
+  /**
+   * Aggregate completed-session statistics for a mentor
+   */
+  public async getMentorStats(mentorAddress: string, since: Date, tx?: DatabaseConnection): Promise<MentorSessionStats> {
+    const db = this.db(tx);
+    const normalized = this.normalizeAddress(mentorAddress);
+    const completed = SessionStatus.COMPLETED;
+
+    const totals = await db.queryOne<{ sessions: number | string; students: number | string; avg_duration: number | string | null }>(
+      `SELECT COUNT(*) AS sessions, COUNT(DISTINCT student_address) AS students, AVG(duration) AS avg_duration
+        FROM sessions WHERE mentor_address = ? AND status = ?`,
+      [normalized, completed],
+    );
+    const repeat = await db.queryOne<{ total: number | string }>(
+      `SELECT COUNT(*) AS total FROM (
+        SELECT student_address FROM sessions WHERE mentor_address = ? AND status = ?
+        GROUP BY student_address HAVING COUNT(*) > 1
+      ) repeat_students`,
+      [normalized, completed],
+    );
+    const recent = await db.queryOne<{ total: number | string }>(
+      'SELECT COUNT(*) AS total FROM sessions WHERE mentor_address = ? AND status = ? AND scheduled_at >= ?',
+      [normalized, completed, since.toISOString()],
+    );
+
+    return {
+      completedSessions: Number(totals?.sessions || 0),
+      totalStudents: Number(totals?.students || 0),
+      repeatCustomers: Number(repeat?.total || 0),
+      averageSessionDuration: Math.round(Number(totals?.avg_duration || 0)),
+      sessionsSince: Number(recent?.total || 0),
+    };
+  }
+
+  private toModel(row: SessionRow): MentorshipSession {
+    return {
+      id: row.id,
+      mentorshipId: row.mentorship_id,
+      mentorAddress: row.mentor_address,
+      studentAddress: row.student_address,
+      scheduledAt: new Date(row.scheduled_at),
+      duration: Number(row.duration),
+      price: Number(row.price),
+      currency: row.currency as MentorshipSession['currency'],
+      status: row.status as SessionStatus,
+      transactionHash: row.transaction_hash ?? undefined,
+      escrowSessionId: row.escrow_session_id ?? undefined,
+      chainId: row.chain_id ?? undefined,
+      holdExpiresAt: row.hold_expires_at ? new Date(row.hold_expires_at) : undefined,
+      roomId: row.room_id ?? undefined,
+      feedback: this.parseJson<SessionFeedback | undefined>(row.feedback, undefined),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const sessionRepository = new SessionRepository();
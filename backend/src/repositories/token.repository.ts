@@ -0,0 +1,137 @@
+import { DatabaseConnection } from '../database';
+import { BaseRepository } from './base.repository';
+
+export interface RefreshTokenRecord {
+  id: string;
+  familyId: string;
+  address: string;
+  chainId?: number;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  createdAt: Date;
+}
+
+export interface RefreshTokenInput {
+  id: string;
+  familyId: string;
+  address: string;
+  chainId?: number;
+  expiresAt: Date;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  family_id: string;
+  address: string;
+  chain_id: number | null;
+  expires_at: string;
+  revoked_at: string | null;
+  replaced_by: string | null;
+  created_at: string;
+}
+
+class TokenRepository extends BaseRepository {
+  /**
+   * Store a newly issued refresh token
+   */
+  public async createRefreshToken(input: RefreshTokenInput, tx?: DatabaseConnection): Promise<void> {
+    await this.db(tx).execute(
+      `INSERT INTO refresh_tokens (id, family_id, address, chain_id, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        input.id,
+        input.familyId,
+        this.normalizeAddress(input.address),
+        input.chainId ?? null,
+        input.expiresAt.toISOString(),
+        this.now(),
+      ],
+    );
+  }
+
+  public async findRefreshToken(id: string, tx?: DatabaseConnection): Promise<RefreshTokenRecord | null> {
+    const row = await this.db(tx).queryOne<RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE id = ?', [id]);
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * Mark a refresh token as rotated. Returns false if it was already revoked,
+   * so concurrent refreshes with the same token cannot both succeed.
+   */
+  public async rotateRefreshToken(id: string, replacedBy: string, tx?: DatabaseConnection): Promise<boolean> {
+    const result = await this.db(tx).execute(
+      'UPDATE refresh_tokens SET revoked_at = ?, replaced_by = ? WHERE id = ? AND revoked_at IS NULL',
+      [this.now(), replacedBy, id],
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Revoke every token issued from the same sign-in
+   */
+  public async revokeFamily(familyId: string, tx?: DatabaseConnection): Promise<number> {
+    const result = await this.db(tx).execute(
+      'UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL',
+      [this.now(), familyId],
+    );
+    return result.changes;
+  }
+
+  /**
+   * Revoke all refresh tokens held by a wallet
+   */
+  public async revokeAllForAddress(address: string, tx?: DatabaseConnection): Promise<number> {
+    const result = await this.db(tx).execute(
+      'UPDATE refresh_tokens SET revoked_at = ? WHERE address = ? AND revoked_at IS NULL',
+      [this.now(), this.normalizeAddress(address)],
+    );
+    return result.changes;
+  }
+
+  /**
+   * Add an access token id to the revocation list until it expires
+   */
+  public async revokeAccessToken(jti: string, expiresAt: Date, tx?: DatabaseConnection): Promise<void> {
+    const db = this.db(tx);
+    const existing = await db.queryOne('SELECT jti FROM revoked_tokens WHERE jti = ?', [jti]);
+    if (!existing) {
+      await db.execute('INSERT INTO revoked_tokens (jti, expires_at, revoked_at) VALUES (?, ?, ?)', [
+        jti,
+        expiresAt.toISOString(),
+        this.now(),
+      ]);
+    }
+  }
+
+  public async isAccessTokenRevoked(jti: string, tx?: DatabaseConnection): Promise<boolean> {
+    const row = await this.db(tx).queryOne('SELECT jti FROM revoked_tokens WHERE jti = ?', [jti]);
+    return Boolean(row);
+  }
+
+  /**
+   * Delete expired refresh tokens and revocation entries
+   */
+  public async pruneExpired(tx?: DatabaseConnection): Promise<number> {
+    const db = this.db(tx);
+    const now = this.now();
+    const refresh = await db.execute('DELETE FROM refresh_tokens WHERE expires_at <= ?', [now]);
+    const revoked = await db.execute('DELETE FROM revoked_tokens WHERE expires_at <= ?', [now]);
+    return refresh.changes + revoked.changes;
+  }
+
+  private toModel(row: RefreshTokenRow): RefreshTokenRecord {
+    return {
+      id: row.id,
+      familyId: row.family_id,
+      address: row.address,
+      chainId: row.chain_id ?? undefined,
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      replacedBy: row.replaced_by ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+export const tokenRepository = new TokenRepository();
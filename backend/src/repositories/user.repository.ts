@@ -0,0 +1,67 @@
+import { DatabaseConnection } from '../database';
+import { User } from '../types';
+import { BaseRepository } from './base.repository';
+
+interface UserRow {
+  address: string;
+  chain_id: number | null;
+  nonce: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+class UserRepository extends BaseRepository {
+  /**
+   * Find a user by wallet address
+   */
+  public async findByAddress(address: string, tx?: DatabaseConnection): Promise<User | null> {
+    const row = await this.db(tx).queryOne<UserRow>(
+      'SELECT * FROM users WHERE address = ?',
+      [this.normalizeAddress(address)],
+    );
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * Create the user row if it does not exist yet, optionally updating the chain
+   */
+  public async ensure(address: string, chainId?: number, tx?: DatabaseConnection): Promise<void> {
+    const db = this.db(tx);
+    const normalized = this.normalizeAddress(address);
+    const now = this.now();
+
+    const existing = await db.queryOne<UserRow>('SELECT address FROM users WHERE address = ?', [normalized]);
+    if (!existing) {
+      await db.execute(
+        'INSERT INTO users (address, chain_id, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [normalized, chainId ?? null, now, now],
+      );
+    } else if (chainId !== undefined) {
+      await db.execute('UPDATE users SET chain_id = ?, updated_at = ? WHERE address = ?', [chainId, now, normalized]);
+    }
+  }
+
+  /**
+   * Store the latest SIWE nonce issued to a user
+   */
+  public async setNonce(address: string, nonce: string | null, tx?: DatabaseConnection): Promise<void> {
+    await this.ensure(address, undefined, tx);
+    await this.db(tx).execute('UPDATE users SET nonce = ?, updated_at = ? WHERE address = ?', [
+      nonce,
+      this.now(),
+      this.normalizeAddress(address),
+    ]);
+  }
+
+  private toModel(row: UserRow): User {
+    return {
+      address: row.address,
+      chainId: row.chain_id ?? 0,
+      nonce: row.nonce ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const userRepository = new UserRepository();
@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller';
+import { requireAuth, requireOperator } from '../middlewares/auth';
+import { auditAction } from '../middlewares/audit';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const auditLogQuerySchema = Joi.object({
+  actor: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).optional(),
+  action: Joi.string().max(100).optional(),
+  outcome: Joi.string().valid('attempted', 'success', 'failure', 'denied').optional(),
+  page: Joi.number().integer().min(1).optional().default(1),
+  limit: Joi.number().integer().min(1).max(200).optional().default(50),
+});
+
+const auditVerifyQuerySchema = Joi.object({
+  anchor: Joi.string().pattern(/^\d+:[0-9a-f]{64}$/).optional(),
+});
+
+const approvalsQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected', 'used', 'expired').optional(),
+});
+
+const approvalParamsSchema = Joi.object({
+  id: Joi.string().pattern(/^approval_[0-9a-z_]+$/).required(),
+});
+
+const approvalDecisionSchema = Joi.object({
+  note: Joi.string().trim().max(500).optional(),
+});
+
+const proposalsQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected', 'executed', 'failed', 'expired').optional(),
+});
+
+const proposalParamsSchema = Joi.object({
+  id: Joi.string().pattern(/^proposal_[0-9a-z_]+$/).required(),
+});
+
+const proposalSignatureSchema = Joi.object({
+  signature: Joi.string().pattern(/^0x[a-fA-F0-9]{130}$/).required(),
+});
+
+// Routes
+router.get('/audit-log', requireAuth, requireOperator('operator'), validateQuery(auditLogQuerySchema), adminController.getAuditLog);
+
+// Hash-chain verification and exports for auditors, of this log and of the bots' audit trail (exports audited)
+router.get('/audit-log/verify', requireAuth, requireOperator('operator'), validateQuery(auditVerifyQuerySchema), adminController.verifyAuditLog);
+router.get('/audit-log/export', requireAuth, requireOperator('operator'), auditAction('audit.export'), adminController.exportAuditLog);
+router.get('/audit-trail/verify', requireAuth, requireOperator('operator'), validateQuery(auditVerifyQuerySchema), adminController.verifyAuditTrail);
+router.get('/audit-trail/export', requireAuth, requireOperator('operator'), auditAction('audit.bot-trail.export'), adminController.exportAuditTrail);
+
+// Bot transactions above the spending policy's approval threshold need a second operator (audited)
+router.get('/approvals', requireAuth, requireOperator('viewer'), validateQuery(approvalsQuerySchema), adminController.getApprovals);
+router.post(
+  '/approvals/:id/approve',
+  requireAuth,
+  requireOperator('operator'),
+  auditAction('bot.approval.approve'),
+  validateParams(approvalParamsSchema),
+  validateBody(approvalDecisionSchema),
+  adminController.approve,
+);
+router.post(
+  '/approvals/:id/reject',
+  requireAuth,
+  requireOperator('operator'),
+  auditAction('bot.approval.reject'),
+  validateParams(approvalParamsSchema),
+  validateBody(approvalDecisionSchema),
+  adminController.reject,
+);
+
+// Emergency releases wait for N-of-M approver signatures (EIP-712, signed in the admin UI; audited)
+router.get('/emergency-proposals', requireAuth, requireOperator('viewer'), validateQuery(proposalsQuerySchema), adminController.getEmergencyProposals);
+router.post(
+  '/emergency-proposals/:id/approve',
+  requireAuth,
+  requireOperator('emergency'),
+  auditAction('bot.emergency.sign'),
+  validateParams(proposalParamsSchema),
+  validateBody(proposalSignatureSchema),
+  adminController.signEmergencyProposal,
+);
+router.post(
+  '/emergency-proposals/:id/reject',
+  requireAuth,
+  requireOperator('emergency'),
+  auditAction('bot.emergency.reject'),
+  validateParams(proposalParamsSchema),
+  validateBody(approvalDecisionSchema),
+  adminController.rejectEmergencyProposal,
+);
+
+export default router;
@@ -17,10 +17,19 @@ const verifySignatureSchema = Joi.object({
   signature: Joi.string().required(),
 });
 
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required(),
+});
+
+const logoutSchema = Joi.object({
+  refreshToken: Joi.string().optional(),
+});
+
 // Routes with rate limiting
 router.post('/nonce', authLimiter, validateBody(nonceRequestSchema), authController.getNonce);
 router.post('/verify', authLimiter, validateBody(verifySignatureSchema), authController.verifySignature);
-router.post('/logout', authController.logout);
+router.post('/refresh', authLimiter, validateBody(refreshTokenSchema), authController.refreshTokens);
+router.post('/logout', validateBody(logoutSchema), authController.logout);
 router.get('/me', authController.getCurrentUser);
 
 export default router;
\ No newline at end of file
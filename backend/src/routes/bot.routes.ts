@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { botController } from '../controllers/bot.controller';
+import { requireAuth, requireOperator } from '../middlewares/auth';
+import { auditAction } from '../middlewares/audit';
+import { validateBody, validateParams } from '../middlewares/validation';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const historyParamsSchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).required(),
+});
+
+const executeSchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+});
+
+// Viewers can watch the bot; operators control it (audited)
+router.use(requireAuth);
+
+router.get('/health', requireOperator('viewer'), botController.getHealth);
+router.get('/status', requireOperator('viewer'), botController.getStatus);
+router.get('/history/:limit', requireOperator('viewer'), validateParams(historyParamsSchema), botController.getHistory);
+router.get('/plans/latest', requireOperator('viewer'), botController.getLatestPlan);
+router.post('/execute', requireOperator('operator'), auditAction('bot.execute'), validateBody(executeSchema), botController.execute);
+router.post('/pause', requireOperator('operator'), auditAction('bot.pause'), botController.pause);
+router.post('/resume', requireOperator('operator'), auditAction('bot.resume'), botController.resume);
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { escrowController } from '../controllers/escrow.controller';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validation';
+import { requireAuth, requireOperator } from '../middlewares/auth';
+import { auditAction } from '../middlewares/audit';
+import Joi from 'joi';
+
+const router = Router();
+
+const ESCROW_STATUSES = ['CREATED', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED', 'EXPIRED', 'DISPUTED', 'ABANDONED', 'EMERGENCY'];
+
+// Validation schemas
+const listSessionsQuerySchema = Joi.object({
+  chainId: Joi.number().integer().positive().optional(),
+  status: Joi.string().pattern(new RegExp(`^(${ESCROW_STATUSES.join('|')})(,(${ESCROW_STATUSES.join('|')}))*$`)).optional(),
+  student: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).optional(),
+  mentor: Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/).optional(),
+  sinceBlock: Joi.number().integer().min(0).optional(),
+  page: Joi.number().integer().min(1).optional().default(1),
+  limit: Joi.number().integer().min(1).max(100).optional().default(20),
+});
+
+const sessionParamsSchema = Joi.object({
+  chainId: Joi.number().integer().positive().required(),
+  sessionId: Joi.string().pattern(/^0x[a-fA-F0-9]{64}$/).required(),
+});
+
+const resolveDisputeSchema = Joi.object({
+  resolution: Joi.string().valid('Completed', 'Cancelled').required(),
+});
+
+const emergencyRefundSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(500).required(),
+});
+
+// Routes (on-chain data is public)
+router.get('/status', escrowController.getIndexerStatus);
+router.get('/sessions', validateQuery(listSessionsQuerySchema), escrowController.listSessions);
+router.get('/sessions/:chainId/:sessionId', validateParams(sessionParamsSchema), escrowController.getSession);
+
+// Owner-only contract actions, signed by the payment bot (audited)
+router.post(
+  '/sessions/:chainId/:sessionId/resolve-dispute',
+  requireAuth,
+  requireOperator('operator'),
+  auditAction('escrow.resolve-dispute'),
+  validateParams(sessionParamsSchema),
+  validateBody(resolveDisputeSchema),
+  escrowController.resolveDispute,
+);
+router.post(
+  '/sessions/:chainId/:sessionId/recover',
+  requireAuth,
+  requireOperator('operator'),
+  auditAction('escrow.recover'),
+  validateParams(sessionParamsSchema),
+  escrowController.recoverSession,
+);
+router.post(
+  '/sessions/:chainId/:sessionId/emergency-refund',
+  requireAuth,
+  requireOperator('emergency'),
+  auditAction('escrow.emergency-refund'),
+  validateParams(sessionParamsSchema),
+  validateBody(emergencyRefundSchema),
+  escrowController.emergencyRefund,
+);
+
+export default router;
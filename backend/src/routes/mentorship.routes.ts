@@ -15,6 +15,9 @@ const createMentorshipSchema = Joi.object({
   duration: Joi.number().integer().min(30).max(480).required(), // 30 minutes to 8 hours
   price: Joi.number().positive().required(),
   currency: Joi.string().valid('USDT', 'USDC').required(),
+  priceEth: Joi.number().positive().optional(),
+  preferredToken: Joi.string().valid('USDC', 'ETH').optional().default('USDC'),
+  prerequisites: Joi.string().allow('').max(500).optional(),
   maxStudents: Joi.number().integer().min(1).max(10).optional().default(1),
 });
 
@@ -26,6 +29,9 @@ const updateMentorshipSchema = Joi.object({
   duration: Joi.number().integer().min(30).max(480).optional(),
   price: Joi.number().positive().optional(),
   currency: Joi.string().valid('USDT', 'USDC').optional(),
+  priceEth: Joi.number().positive().optional(),
+  preferredToken: Joi.string().valid('USDC', 'ETH').optional(),
+  prerequisites: Joi.string().allow('').max(500).optional(),
   maxStudents: Joi.number().integer().min(1).max(10).optional(),
   isActive: Joi.boolean().optional(),
 });
@@ -47,12 +53,26 @@ const bookSessionSchema = Joi.object({
   scheduledAt: Joi.date().iso().required(),
 });
 
+const bookingTransactionSchema = Joi.object({
+  transactionHash: Joi.string().pattern(/^0x[a-fA-F0-9]{64}$/).required(),
+  chainId: Joi.number().integer().positive().required(),
+});
+
+const availabilityQuerySchema = Joi.object({
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().required(),
+});
+
 // Routes
 router.get('/', optionalAuth, validateQuery(searchQuerySchema), mentorshipController.searchMentorships);
 router.post('/', requireAuth, validateBody(createMentorshipSchema), mentorshipController.createMentorship);
+router.post('/book', requireAuth, validateBody(bookSessionSchema), mentorshipController.bookSession);
+router.get('/book/:sessionId', requireAuth, mentorshipController.getBooking);
+router.post('/book/:sessionId/transaction', requireAuth, validateBody(bookingTransactionSchema), mentorshipController.attachBookingTransaction);
+router.delete('/book/:sessionId', requireAuth, mentorshipController.releaseBooking);
 router.get('/:id', optionalAuth, mentorshipController.getMentorship);
+router.get('/:id/availability', optionalAuth, validateQuery(availabilityQuerySchema), mentorshipController.getAvailability);
 router.put('/:id', requireAuth, validateBody(updateMentorshipSchema), mentorshipController.updateMentorship);
 router.delete('/:id', requireAuth, mentorshipController.deleteMentorship);
-router.post('/book', requireAuth, validateBody(bookSessionSchema), mentorshipController.bookSession);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { metricsController } from '../controllers/metrics.controller';
+import { requireMetricsToken } from '../middlewares/metrics';
+
+const router = Router();
+
+// Prometheus scrape endpoint (bearer METRICS_TOKEN when configured)
+router.get('/', requireMetricsToken, metricsController.getMetrics);
+
+export default router;
@@ -8,7 +8,7 @@ const router = Router();
 
 // Validation schemas
 const getSessionsQuerySchema = Joi.object({
-  status: Joi.string().valid('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'DISPUTED').optional(),
+  status: Joi.string().valid('PENDING_PAYMENT', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'DISPUTED').optional(),
   role: Joi.string().valid('mentor', 'student').optional(),
   page: Joi.number().integer().min(1).optional().default(1),
   limit: Joi.number().integer().min(1).max(50).optional().default(10),
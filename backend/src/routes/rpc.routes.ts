@@ -48,10 +48,11 @@ router.post('/proxy', requireAuth, validateRPCRequest, async (req, res) => {
 
     // Security check: only allow whitelisted methods
     if (!allowedMethods.includes(method)) {
-      return res.status(403).json({
+      res.status(403).json({
         success: false,
         error: `Method ${method} is not allowed`
       });
+      return;
     }
 
     const result = await rpcService.makeRPCCall(chainId, {
@@ -98,10 +99,11 @@ router.get('/balance/:chainId/:address', requireAuth, async (req, res) => {
     
     // Validate Ethereum address format
     if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return res.status(400).json({
+      res.status(400).json({
         success: false,
         error: 'Invalid address format'
       });
+      return;
     }
     
     const balance = await rpcService.getBalance(chainId, address);
@@ -1,4 +1,4 @@
-import { SiweMessage } from 'siwe';
+import { SiweMessage, generateNonce } from 'siwe';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 
@@ -16,7 +16,8 @@ export class AuthService {
    * Generate a random nonce for SIWE authentication
    */
   public generateNonce(): string {
-    return ethers.randomBytes(32).toString();
+    // SIWE nonces must be alphanumeric (EIP-4361)
+    return generateNonce();
   }
 
   /**
@@ -50,18 +51,20 @@ export class AuthService {
   public async verifySiweSignature(
     message: string,
     signature: string,
-  ): Promise<{ success: boolean; address?: string; error?: string }> {
+    nonce?: string,
+  ): Promise<{ success: boolean; address?: string; siwe?: SiweMessage; error?: string }> {
     try {
       const siweMessage = new SiweMessage(message);
       
-      // Verify the signature
-      const result = await siweMessage.verify({ signature });
+      // Verify the signature (and the session nonce when provided)
+      const result = await siweMessage.verify({ signature, nonce }, { suppressExceptions: true });
       
       if (result.success) {
         logger.info(`SIWE verification successful for address: ${siweMessage.address}`);
         return {
           success: true,
           address: siweMessage.address,
+          siwe: siweMessage,
         };
       } else {
         logger.warn(`SIWE verification failed: ${result.error?.type}`);
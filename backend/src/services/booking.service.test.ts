@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import { closeDatabase, initializeDatabase } from '../database';
+import { mentorshipRepository, sessionRepository } from '../repositories';
+import { Mentorship, MentorshipSession, SessionStatus } from '../types';
+import { BookingService } from './booking.service';
+
+const BASE = 8453;
+const BASE_ESCROW = '0x2a9d167e30195ba5fd29cfc09622be0d02da91be';
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const BASE_USDT = '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2';
+
+const SESSION_CREATED = ethers.id('SessionCreated(bytes32,address,address,uint256,address,uint256,uint256)');
+
+const mentor = ethers.Wallet.createRandom().address;
+const student = ethers.Wallet.createRandom().address;
+
+// Stablecoin amount in base units (6 decimals)
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+/**
+ * Receipt of a createProgressiveSession transaction for a booking
+ */
+function escrowReceipt(session: MentorshipSession, amount: bigint, token: string) {
+  return {
+    status: 1,
+    logs: [{
+      address: BASE_ESCROW,
+      topics: [
+        SESSION_CREATED,
+        session.escrowSessionId!,
+        ethers.zeroPadValue(session.studentAddress, 32),
+        ethers.zeroPadValue(session.mentorAddress, 32),
+      ],
+      data: ethers.AbiCoder.defaultAbiCoder().encode(
+        ['uint256', 'address', 'uint256', 'uint256'],
+        [amount, token, 60 * 60, 0],
+      ),
+    }],
+  } as unknown as ethers.TransactionReceipt;
+}
+
+describe('BookingService payment confirmation', () => {
+  const bookings = new BookingService();
+  let mentorship: Mentorship;
+  let hold: MentorshipSession;
+  let slot = 0;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    mentorship = await mentorshipRepository.create(mentor, {
+      title: 'Solidity review',
+      description: 'One hour code review',
+      category: 'development',
+      skills: ['solidity'],
+      duration: 60,
+      price: 50,
+      currency: 'USDC',
+      maxStudents: 1,
+    });
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    // A different slot per test so holds do not overlap
+    hold = await bookings.reserve(student, mentorship, new Date(Date.UTC(2030, 0, 1, slot++)));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const indexedEvent = (amount: bigint, paymentToken: string) => ({
+    chainId: BASE,
+    escrowSessionId: hold.escrowSessionId!,
+    transactionHash: ethers.hexlify(ethers.randomBytes(32)),
+    studentAddress: student,
+    mentorAddress: mentor,
+    amount: amount.toString(),
+    paymentToken,
+  });
+
+  it('confirms a hold from an indexed event that pays the price in the booked token', async () => {
+    // 50 USDC plus the 10% platform fee the payment page adds
+    await expect(bookings.confirmFromEscrowEvent(indexedEvent(usdc('55'), BASE_USDC))).resolves.toBe(true);
+
+    expect((await sessionRepository.findById(hold.id))?.status).toBe(SessionStatus.SCHEDULED);
+  });
+
+  it('does not confirm an indexed event that escrows less than the price', async () => {
+    await expect(bookings.confirmFromEscrowEvent(indexedEvent(BigInt(1), BASE_USDC))).resolves.toBe(false);
+
+    expect((await sessionRepository.findById(hold.id))?.status).toBe(SessionStatus.PENDING_PAYMENT);
+  });
+
+  it('does not confirm an indexed event paid in another token', async () => {
+    await expect(bookings.confirmFromEscrowEvent(indexedEvent(usdc('55'), BASE_USDT))).resolves.toBe(false);
+
+    expect((await sessionRepository.findById(hold.id))?.status).toBe(SessionStatus.PENDING_PAYMENT);
+  });
+
+  it('confirms a reported transaction that escrows the price', async () => {
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransactionReceipt')
+      .mockResolvedValue(escrowReceipt(hold, usdc('55'), BASE_USDC));
+
+    const session = await bookings.attachTransaction(hold, ethers.hexlify(ethers.randomBytes(32)), BASE);
+
+    expect(session.status).toBe(SessionStatus.SCHEDULED);
+  });
+
+  it('releases the hold when the reported transaction escrows 1 wei', async () => {
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransactionReceipt')
+      .mockResolvedValue(escrowReceipt(hold, BigInt(1), BASE_USDC));
+
+    await expect(bookings.attachTransaction(hold, ethers.hexlify(ethers.randomBytes(32)), BASE))
+      .rejects.toThrow('The slot hold has expired or the payment failed');
+    expect((await sessionRepository.findById(hold.id))?.status).toBe(SessionStatus.CANCELLED);
+  });
+});
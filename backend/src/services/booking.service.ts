@@ -0,0 +1,426 @@
+import { ethers } from 'ethers';
+import { getBookingConfig } from '../config/booking';
+import { EscrowChainConfig } from '../config/escrow';
+import { getDatabase } from '../database';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { profileRepository, sessionRepository } from '../repositories';
+import { Availability, Mentorship, MentorshipSession, SessionStatus } from '../types';
+import { logger } from '../utils/logger';
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface MentorAvailability {
+  timezone?: string;
+  openWindows: TimeWindow[] | null; // null when the mentor has no schedule (any time is bookable)
+  busy: TimeWindow[];
+}
+
+export type PaymentCheck = 'confirmed' | 'failed' | 'pending';
+
+// SessionCreated as emitted by ProgressiveEscrowV8 (and the shorter form in older ABIs).
+// sessionId, student and mentor are indexed in both; the data starts with the amount and token.
+const SESSION_CREATED_TOPICS = [
+  ethers.id('SessionCreated(bytes32,address,address,uint256,address,uint256,uint256)'),
+  ethers.id('SessionCreated(bytes32,address,address,uint256,address)'),
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const overlaps = (a: TimeWindow, b: TimeWindow): boolean => a.start < b.end && b.start < a.end;
+
+const sessionWindow = (session: Pick<MentorshipSession, 'scheduledAt' | 'duration'>): TimeWindow => ({
+  start: session.scheduledAt,
+  end: new Date(session.scheduledAt.getTime() + session.duration * 60 * 1000),
+});
+
+/**
+ * Reserves mentor time slots. A booking holds its slot while the student's
+ * createProgressiveSession transaction is pending, becomes SCHEDULED once the
+ * escrow SessionCreated event is seen and is released on timeout or failure.
+ */
+export class BookingService {
+  private static instance: BookingService;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+
+  public static getInstance(): BookingService {
+    if (!BookingService.instance) {
+      BookingService.instance = new BookingService();
+    }
+    return BookingService.instance;
+  }
+
+  /**
+   * Periodically confirm or release pending holds
+   */
+  public start(): void {
+    const { sweepInterval } = getBookingConfig();
+    if (this.sweepTimer || sweepInterval <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.processPendingHolds().catch((error) => logger.error('Booking hold sweep error:', error));
+    }, sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  public stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Open schedule windows and occupied slots for a mentorship's mentor in [from, to)
+   */
+  public async getAvailability(mentorship: Mentorship, from: Date, to: Date): Promise<MentorAvailability> {
+    const profile = await profileRepository.findByAddress(mentorship.mentorAddress);
+    const availability = profile?.availability;
+    const blocking = await sessionRepository.findBlockingForMentor(mentorship.mentorAddress, from, to);
+
+    return {
+      timezone: availability?.timezone,
+      openWindows: availability?.schedule?.length ? this.scheduleWindows(availability, from, to) : null,
+      busy: blocking.map(sessionWindow).filter(window => window.end > from),
+    };
+  }
+
+  /**
+   * Hold a slot for a student. Fails with 409 if it overlaps another booking or hold.
+   */
+  public async reserve(studentAddress: string, mentorship: Mentorship, scheduledAt: Date): Promise<MentorshipSession> {
+    const requested = sessionWindow({ scheduledAt, duration: mentorship.duration });
+
+    const profile = await profileRepository.findByAddress(mentorship.mentorAddress);
+    if (profile?.availability?.schedule?.length) {
+      const windows = this.scheduleWindows(profile.availability, requested.start, requested.end);
+      if (!windows.some(window => window.start <= requested.start && requested.end <= window.end)) {
+        throw StandardApiError.conflict('The mentor is not available at this time');
+      }
+    }
+
+    const { holdTtl } = getBookingConfig();
+
+    const session = await getDatabase().transaction(async (tx) => {
+      await sessionRepository.lockMentorSchedule(mentorship.mentorAddress, tx);
+
+      const blocking = await sessionRepository.findBlockingForMentor(
+        mentorship.mentorAddress,
+        requested.start,
+        requested.end,
+        tx,
+      );
+      if (blocking.some(existing => overlaps(sessionWindow(existing), requested))) {
+        throw StandardApiError.conflict('This time slot is no longer available');
+      }
+
+      return sessionRepository.create({
+        mentorshipId: mentorship.id,
+        mentorAddress: mentorship.mentorAddress,
+        studentAddress,
+        scheduledAt,
+        duration: mentorship.duration,
+        price: mentorship.price,
+        currency: mentorship.currency,
+        status: SessionStatus.PENDING_PAYMENT,
+        escrowSessionId: ethers.hexlify(ethers.randomBytes(32)),
+        holdExpiresAt: new Date(Date.now() + holdTtl * 1000),
+      }, tx);
+    });
+
+    logger.info(`Slot held for session ${session.id} (${mentorship.mentorAddress} at ${scheduledAt.toISOString()})`);
+    return session;
+  }
+
+  /**
+   * Record the student's escrow transaction, keep the slot while it is pending
+   * and confirm right away if it is already mined
+   */
+  public async attachTransaction(
+    session: MentorshipSession,
+    transactionHash: string,
+    chainId: number,
+  ): Promise<MentorshipSession> {
+    const { chains, confirmationTimeout } = getBookingConfig();
+    if (!chains.has(chainId)) {
+      throw StandardApiError.badRequest(`Escrow payments on chain ${chainId} are not supported`);
+    }
+
+    if (session.status === SessionStatus.PENDING_PAYMENT) {
+      const holdExpiresAt = new Date(Date.now() + confirmationTimeout * 1000);
+      const attached = await sessionRepository.attachTransaction(session.id, transactionHash, chainId, holdExpiresAt);
+      if (attached) {
+        await this.settle({ ...session, transactionHash, chainId, holdExpiresAt });
+      }
+    }
+
+    const current = await sessionRepository.findById(session.id);
+    if (current?.status === SessionStatus.CANCELLED) {
+      throw StandardApiError.conflict('The slot hold has expired or the payment failed');
+    }
+    return current!;
+  }
+
+  /**
+   * Confirm a hold from an indexed SessionCreated event, even if the student
+   * never reported the transaction. Returns false if no held booking matched.
+   */
+  public async confirmFromEscrowEvent(event: {
+    chainId: number;
+    escrowSessionId: string;
+    transactionHash: string;
+    studentAddress: string;
+    mentorAddress: string;
+    amount: string; // escrowed amount in the token's base units
+    paymentToken: string;
+  }): Promise<boolean> {
+    const session = await sessionRepository.findByEscrowSessionId(event.escrowSessionId);
+    if (!session) {
+      return false;
+    }
+
+    if (!sameAddress(session.studentAddress, event.studentAddress) || !sameAddress(session.mentorAddress, event.mentorAddress)) {
+      logger.warn(`🔒 Escrow session ${event.escrowSessionId} does not match the parties of booking ${session.id}`);
+      return false;
+    }
+
+    const chain = getBookingConfig().chains.get(event.chainId);
+    if (!chain || !this.coversPrice(session, chain, event.paymentToken, BigInt(event.amount))) {
+      logger.warn(`🔒 Escrow session ${event.escrowSessionId} (${event.amount} of ${event.paymentToken}) does not pay booking ${session.id}`);
+      return false;
+    }
+
+    if (session.status !== SessionStatus.PENDING_PAYMENT) {
+      if (session.status === SessionStatus.CANCELLED) {
+        logger.warn(`Escrow payment for booking ${session.id} arrived after its hold was released (${event.transactionHash})`);
+      }
+      return false;
+    }
+
+    const confirmed = await getDatabase().transaction(async (tx) => {
+      await sessionRepository.attachTransaction(
+        session.id,
+        event.transactionHash,
+        event.chainId,
+        session.holdExpiresAt ?? new Date(),
+        tx,
+      );
+      return sessionRepository.confirmHold(session.id, tx);
+    });
+
+    if (confirmed) {
+      logger.info(`Session ${session.id} confirmed by indexed escrow event (${event.transactionHash})`);
+    }
+    return confirmed;
+  }
+
+  /**
+   * Release a hold (payment cancelled or failed). Returns false if it was not held.
+   */
+  public async release(session: MentorshipSession, reason: string): Promise<boolean> {
+    const released = await sessionRepository.releaseHold(session.id);
+    if (released) {
+      logger.info(`Slot hold released for session ${session.id}: ${reason}`);
+    }
+    return released;
+  }
+
+  /**
+   * Confirm holds whose payment landed and release failed or expired ones
+   */
+  public async processPendingHolds(): Promise<{ confirmed: number; released: number }> {
+    const holds = await sessionRepository.findPendingHolds();
+    let confirmed = 0;
+    let released = 0;
+
+    for (const hold of holds) {
+      const result = await this.settle(hold);
+      if (result === 'confirmed') confirmed++;
+      if (result === 'failed') released++;
+    }
+
+    if (confirmed > 0 || released > 0) {
+      logger.info(`Booking holds processed: ${confirmed} confirmed, ${released} released`);
+    }
+    return { confirmed, released };
+  }
+
+  /**
+   * Check a hold's payment and confirm or release it. Expired holds without a
+   * confirmed payment are released.
+   */
+  private async settle(hold: MentorshipSession): Promise<PaymentCheck> {
+    const payment = await this.checkPayment(hold);
+
+    if (payment === 'confirmed') {
+      if (await sessionRepository.confirmHold(hold.id)) {
+        logger.info(`Session ${hold.id} confirmed by escrow transaction ${hold.transactionHash}`);
+      }
+      return 'confirmed';
+    }
+
+    const expired = !hold.holdExpiresAt || hold.holdExpiresAt <= new Date();
+    if (payment === 'failed' || expired) {
+      await this.release(hold, payment === 'failed' ? 'escrow transaction failed' : 'hold expired');
+      return 'failed';
+    }
+
+    return 'pending';
+  }
+
+  /**
+   * Look for the escrow SessionCreated event matching this hold in its transaction receipt
+   */
+  private async checkPayment(hold: MentorshipSession): Promise<PaymentCheck> {
+    const chain = hold.chainId ? getBookingConfig().chains.get(hold.chainId) : undefined;
+    if (!chain || !hold.transactionHash || !hold.escrowSessionId) {
+      return 'pending';
+    }
+
+    try {
+      const receipt = await this.getProvider(chain).getTransactionReceipt(hold.transactionHash);
+      if (!receipt) {
+        return 'pending';
+      }
+      if (receipt.status === 0) {
+        return 'failed';
+      }
+
+      const created = receipt.logs.find(log =>
+        sameAddress(log.address, chain.escrowAddress) &&
+        SESSION_CREATED_TOPICS.includes(log.topics[0]) &&
+        log.topics[1]?.toLowerCase() === hold.escrowSessionId!.toLowerCase() &&
+        sameAddress(ethers.dataSlice(log.topics[2], 12), hold.studentAddress) &&
+        sameAddress(ethers.dataSlice(log.topics[3], 12), hold.mentorAddress),
+      );
+
+      if (!created) {
+        logger.warn(`🔒 Transaction ${hold.transactionHash} has no matching SessionCreated event for session ${hold.id}`);
+        return 'failed';
+      }
+
+      const [amount, paymentToken] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['uint256', 'address'],
+        ethers.dataSlice(created.data, 0, 64),
+      );
+      if (!this.coversPrice(hold, chain, paymentToken, amount)) {
+        logger.warn(`🔒 Transaction ${hold.transactionHash} escrowed ${amount} of ${paymentToken}, which does not pay session ${hold.id}`);
+        return 'failed';
+      }
+      return 'confirmed';
+    } catch (error) {
+      logger.warn(`Could not check escrow transaction ${hold.transactionHash} on ${chain.name}:`, error);
+      return 'pending';
+    }
+  }
+
+  /**
+   * An escrow deposit pays a booking if it is in the booking's currency on that chain and
+   * holds at least its price (the platform fee the student pays comes on top)
+   */
+  private coversPrice(session: MentorshipSession, chain: EscrowChainConfig, paymentToken: string, amount: bigint): boolean {
+    const token = chain.tokens[session.currency];
+    if (!token || !sameAddress(token.address, paymentToken)) {
+      return false;
+    }
+    return amount >= ethers.parseUnits(session.price.toFixed(token.decimals), token.decimals);
+  }
+
+  private getProvider(chain: EscrowChainConfig): ethers.JsonRpcProvider {
+    let provider = this.providers.get(chain.chainId);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+      this.providers.set(chain.chainId, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Expand a weekly schedule (in the mentor's timezone) into absolute windows overlapping [from, to)
+   */
+  private scheduleWindows(availability: Availability, from: Date, to: Date): TimeWindow[] {
+    const timezone = this.resolveTimezone(availability.timezone);
+    const windows: TimeWindow[] = [];
+    const seenDays = new Set<string>();
+
+    // Walk every calendar day (in the mentor's timezone) touching the range
+    for (let t = from.getTime() - DAY_MS; t <= to.getTime() + DAY_MS; t += DAY_MS / 2) {
+      const day = this.zonedParts(new Date(t), timezone);
+      const key = `${day.year}-${day.month}-${day.day}`;
+      if (seenDays.has(key)) continue;
+      seenDays.add(key);
+
+      const dayOfWeek = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+      for (const slot of availability.schedule.filter(s => s.dayOfWeek === dayOfWeek)) {
+        const start = this.zonedTime(day.year, day.month, day.day, slot.startTime, timezone);
+        let end = this.zonedTime(day.year, day.month, day.day, slot.endTime, timezone);
+        if (end <= start) {
+          // Slot runs past midnight
+          end = new Date(end.getTime() + DAY_MS);
+        }
+        if (start < to && end > from) {
+          windows.push({ start, end });
+        }
+      }
+    }
+
+    return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private resolveTimezone(timezone: string | undefined): string {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone || 'UTC' });
+      return timezone || 'UTC';
+    } catch {
+      logger.warn(`Unknown mentor timezone "${timezone}", using UTC`);
+      return 'UTC';
+    }
+  }
+
+  private zonedParts(instant: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute'),
+      second: get('second'),
+    };
+  }
+
+  /**
+   * Absolute instant of a wall-clock time (HH:mm) on a given day in a timezone
+   */
+  private zonedTime(year: number, month: number, day: number, time: string, timezone: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Offset of the timezone at that moment, applied twice to settle around DST changes
+    let instant = wallClock;
+    for (let i = 0; i < 2; i++) {
+      const parts = this.zonedParts(new Date(instant), timezone);
+      const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+      instant = wallClock - offset;
+    }
+    return new Date(instant);
+  }
+}
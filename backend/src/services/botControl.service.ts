@@ -0,0 +1,350 @@
+import axios, { AxiosError, Method, ResponseType } from 'axios';
+import { getBotControlConfig } from '../config/bot';
+import { StandardApiError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { AuditChainVerification } from '../types';
+
+export interface BotExecutionRecord {
+  id: string;
+  startTime: number;
+  endTime: number;
+  success: boolean;
+  isManual: boolean;
+  totalProcessed: number;
+  successfulPayments: number;
+  failedPayments: number;
+  error: string | null;
+  dryRun?: boolean;
+  planPath?: string;
+}
+
+export interface BotSimulatedMethod {
+  method: string;
+  functionName: string;
+  description: string;
+  outcome: 'success' | 'reverted' | 'skipped';
+  gasEstimate: string | null;
+  estimatedCost: string | null; // wei
+  error: string | null;
+}
+
+/**
+ * What a run would do, as simulated by a dry run on the bot (nothing broadcast)
+ */
+export interface BotDryRunPlan {
+  id: string;
+  createdAt: string;
+  botAddress: string;
+  totalSessions: number;
+  executable: number;
+  failing: number;
+  totalAmount: string; // wei
+  totalGasEstimate: string;
+  totalEstimatedCost: string; // wei
+  entries: Array<{
+    sessionId: string;
+    chainId: number;
+    chainName: string;
+    sessionType: 'v7' | 'v8';
+    predictedAmount: string; // wei
+    refundType: string | null;
+    healthy: boolean;
+    requiresAdmin: boolean;
+    chosenMethod: string | null;
+    methods: BotSimulatedMethod[];
+  }>;
+}
+
+export interface BotSchedulerStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  dryRun: boolean;
+  lastExecution: BotExecutionRecord | null;
+  nextExecution: string;
+  uptime: number; // seconds
+}
+
+export interface BotHealthInfo {
+  healthy: boolean;
+  details: string;
+  issues: string[];
+}
+
+export type BotApprovalStatus = 'pending' | 'approved' | 'rejected' | 'used' | 'expired';
+
+/**
+ * A bot transaction above the spending policy's approval threshold, waiting for (or decided by) an operator
+ */
+export interface BotSpendApproval {
+  id: string;
+  bot: string;
+  chainId: number;
+  sessionId: string | null;
+  functionName: string;
+  token: string;
+  amount: string; // smallest token unit
+  threshold: string;
+  requestedBy: string; // operator address, or bot:<name> for scheduled runs
+  requestedAt: number;
+  expiresAt: number;
+  status: BotApprovalStatus;
+  decidedBy: string | null;
+  decidedAt: number | null;
+  note: string | null;
+}
+
+export type BotProposalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed' | 'expired';
+
+/**
+ * An emergency release the bots will only send once enough approvers have signed its EIP-712 message
+ * (typedData, exactly as the bot verifies it)
+ */
+export interface BotEmergencyProposal {
+  id: string;
+  chainId: number;
+  contract: string;
+  sessionId: string;
+  recipient: string;
+  token: string;
+  amount: string; // smallest token unit
+  reason: string;
+  evidence: Record<string, unknown>; // what the trapped-funds scan found
+  evidenceHash: string;
+  threshold: number;
+  proposedBy: string;
+  createdAt: number;
+  expiresAt: number;
+  status: BotProposalStatus;
+  signatures: { signer: string; signature: string; signedAt: number }[];
+  transactionHash: string | null;
+  error: string | null;
+  history: { at: number; event: string; actor: string; detail: string | null }[];
+  typedData: {
+    domain: Record<string, unknown>;
+    types: Record<string, { name: string; type: string }[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+  };
+}
+
+/**
+ * Outcome of an owner-only session action: the transaction, or the approval request or emergency
+ * proposal it is waiting on
+ */
+export interface BotSessionActionResult {
+  transactionHash?: string;
+  approval?: BotSpendApproval;
+  proposal?: BotEmergencyProposal;
+}
+
+export interface BotEmergencyProposalList {
+  approvers: string[];
+  threshold: number;
+  proposals: BotEmergencyProposal[];
+}
+
+export interface BotStatusReport {
+  status: BotSchedulerStatus;
+  health: BotHealthInfo;
+  execution: {
+    totalExecutions: number;
+    successfulExecutions: number;
+    failedExecutions: number;
+    recentExecutions: BotExecutionRecord[];
+  };
+  metrics: Record<string, unknown>; // DailyPaymentBotV8.getMetrics(), amounts as strings
+}
+
+/**
+ * Talks to the control API served by the DailyPaymentBotV8 process
+ * (bots/BotControlServer.ts). The bot runs separately from the API server,
+ * so every call is a request to BOT_CONTROL_URL with the shared token.
+ */
+export class BotControlService {
+  private static instance: BotControlService;
+
+  public static getInstance(): BotControlService {
+    if (!BotControlService.instance) {
+      BotControlService.instance = new BotControlService();
+    }
+    return BotControlService.instance;
+  }
+
+  public getStatus(): Promise<BotStatusReport> {
+    return this.request<BotStatusReport>('GET', '/status');
+  }
+
+  public async getHistory(limit: number): Promise<BotExecutionRecord[]> {
+    const { executions } = await this.request<{ executions: BotExecutionRecord[] }>('GET', `/history?limit=${limit}`);
+    return executions;
+  }
+
+  /**
+   * Start a run. The bot answers as soon as it has started; poll getStatus for the result
+   * (and getLatestPlan for a dry run).
+   */
+  public async execute(dryRun: boolean = false): Promise<BotSchedulerStatus> {
+    const { status } = await this.request<{ status: BotSchedulerStatus }>('POST', `/execute${dryRun ? '?dryRun=true' : ''}`);
+    return status;
+  }
+
+  public async getLatestPlan(): Promise<BotDryRunPlan> {
+    const { plan } = await this.request<{ plan: BotDryRunPlan }>('GET', '/plans/latest');
+    return plan;
+  }
+
+  public async pause(): Promise<BotSchedulerStatus> {
+    const { status } = await this.request<{ status: BotSchedulerStatus }>('POST', '/pause');
+    return status;
+  }
+
+  public async resume(): Promise<BotSchedulerStatus> {
+    const { status } = await this.request<{ status: BotSchedulerStatus }>('POST', '/resume');
+    return status;
+  }
+
+  /**
+   * The bot process's Prometheus metrics, in text exposition format
+   */
+  public getMetrics(): Promise<string> {
+    return this.request<string>('GET', '/metrics', undefined, 'text');
+  }
+
+  /**
+   * Owner-only escrow calls signed by the bot, requested by an operator. Each resolves with the
+   * transaction hash once broadcast, or with the approval request when the amount is above the
+   * spending policy's approval threshold. An emergency refund resolves with its emergency proposal
+   * until enough approvers have signed it.
+   */
+  public resolveDispute(
+    chainId: number,
+    sessionId: string,
+    resolution: 'Completed' | 'Cancelled',
+    requestedBy: string,
+  ): Promise<BotSessionActionResult> {
+    return this.sessionAction(chainId, sessionId, 'resolve-dispute', { resolution, requestedBy });
+  }
+
+  public recoverSession(chainId: number, sessionId: string, requestedBy: string): Promise<BotSessionActionResult> {
+    return this.sessionAction(chainId, sessionId, 'recover', { requestedBy });
+  }
+
+  public emergencyRefund(chainId: number, sessionId: string, reason: string, requestedBy: string): Promise<BotSessionActionResult> {
+    return this.sessionAction(chainId, sessionId, 'emergency-refund', { reason, requestedBy });
+  }
+
+  public async getApprovals(status?: BotApprovalStatus): Promise<BotSpendApproval[]> {
+    const { approvals } = await this.request<{ approvals: BotSpendApproval[] }>('GET', `/approvals${status ? `?status=${status}` : ''}`);
+    return approvals;
+  }
+
+  /**
+   * Decide an approval request; the bot refuses decisions by the operator who requested the action
+   */
+  public async decideApproval(id: string, decision: 'approve' | 'reject', operator: string, note?: string): Promise<BotSpendApproval> {
+    const { approval } = await this.request<{ approval: BotSpendApproval }>(
+      'POST',
+      `/approvals/${encodeURIComponent(id)}/${decision}`,
+      { operator, note },
+    );
+    return approval;
+  }
+
+  public getEmergencyProposals(status?: BotProposalStatus): Promise<BotEmergencyProposalList> {
+    return this.request<BotEmergencyProposalList>('GET', `/emergency-proposals${status ? `?status=${status}` : ''}`);
+  }
+
+  /**
+   * Add an approver's signature of the proposal's typedData; the bot checks it was made by the operator
+   */
+  public async signEmergencyProposal(id: string, operator: string, signature: string): Promise<BotEmergencyProposal> {
+    const { proposal } = await this.request<{ proposal: BotEmergencyProposal }>(
+      'POST',
+      `/emergency-proposals/${encodeURIComponent(id)}/approve`,
+      { operator, signature },
+    );
+    return proposal;
+  }
+
+  public async rejectEmergencyProposal(id: string, operator: string, note?: string): Promise<BotEmergencyProposal> {
+    const { proposal } = await this.request<{ proposal: BotEmergencyProposal }>(
+      'POST',
+      `/emergency-proposals/${encodeURIComponent(id)}/reject`,
+      { operator, note },
+    );
+    return proposal;
+  }
+
+  /**
+   * The bots' hash-chained audit trail as written, one JSON entry per line
+   */
+  public exportAuditTrail(): Promise<string> {
+    return this.request<string>('GET', '/audit-trail', undefined, 'text');
+  }
+
+  public verifyAuditTrail(anchor?: string): Promise<AuditChainVerification> {
+    return this.request<AuditChainVerification>('GET', `/audit-trail/verify${anchor ? `?anchor=${anchor}` : ''}`);
+  }
+
+  private async sessionAction(chainId: number, sessionId: string, action: string, data: object): Promise<BotSessionActionResult> {
+    const { transactionHash, approval, proposal } = await this.request<BotSessionActionResult>(
+      'POST',
+      `/sessions/${chainId}/${sessionId.toLowerCase()}/${action}`,
+      data,
+    );
+    return { transactionHash, approval, proposal };
+  }
+
+  private async request<T>(method: Method, path: string, data?: object, responseType: ResponseType = 'json'): Promise<T> {
+    const config = getBotControlConfig();
+    if (!config.url) {
+      throw new StandardApiError('Payment bot control is not configured', 503, 'BOT_NOT_CONFIGURED');
+    }
+
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${config.url}${path}`,
+        headers: { Authorization: `Bearer ${config.token}` },
+        data,
+        timeout: config.timeout,
+        responseType,
+      });
+      return response.data;
+    } catch (error) {
+      throw this.toApiError(error as AxiosError<{ error?: string; rule?: string }>, `${method} ${path}`);
+    }
+  }
+
+  private toApiError(error: AxiosError<{ error?: string; rule?: string }>, route: string): StandardApiError {
+    if (!error.response) {
+      logger.error(`Payment bot unreachable (${route}): ${error.message}`);
+      return new StandardApiError('Payment bot is unreachable', 503, 'BOT_UNAVAILABLE');
+    }
+
+    const { status, data } = error.response;
+    if (status === 404) {
+      return StandardApiError.notFound(data?.error || 'Not found');
+    }
+    if (status === 409) {
+      return StandardApiError.conflict(data?.error || 'Payment bot is busy');
+    }
+    if (status === 400) {
+      return StandardApiError.badRequest(data?.error || 'Invalid request');
+    }
+    if (status === 403) {
+      // The bot's spending policy refused the transaction
+      return new StandardApiError(data?.error || 'Blocked by the spending policy', 403, 'SPENDING_POLICY_VIOLATION', { rule: data?.rule });
+    }
+    if (status === 422) {
+      // The escrow contract (or the bot's chain config) rejected the call
+      return new StandardApiError(data?.error || 'Transaction rejected', 422, 'TRANSACTION_REJECTED');
+    }
+    if (status === 401) {
+      logger.error(`🔒 Payment bot rejected the control token (${route}) - check BOT_CONTROL_TOKEN`);
+    } else {
+      logger.error(`Payment bot request failed (${route}): ${status} ${data?.error || ''}`);
+    }
+    return new StandardApiError('Payment bot request failed', 502, 'BOT_ERROR');
+  }
+}
@@ -0,0 +1,132 @@
+import { ethers } from 'ethers';
+import { getIndexerConfig } from '../config/indexer';
+import { closeDatabase, initializeDatabase } from '../database';
+import { escrowRepository } from '../repositories';
+import { EscrowSessionStatus } from '../types';
+import { EscrowIndexerService } from './indexer.service';
+
+const BASE = 8453;
+
+const escrow = new ethers.Interface([
+  'event SessionCreated(bytes32 indexed sessionId, address indexed student, address indexed mentor, uint256 totalAmount, address paymentToken, uint256 sessionDuration, uint256 scheduledTime)',
+  'event SessionStateChanged(bytes32 indexed sessionId, uint8 oldStatus, uint8 newStatus, uint256 timestamp)',
+  'event ProgressivePaymentReleased(bytes32 indexed sessionId, uint256 amount, uint256 totalReleased, uint256 timestamp)',
+]);
+
+const sessionId = ethers.id('escrow-session-1');
+const student = ethers.Wallet.createRandom().address;
+const mentor = ethers.Wallet.createRandom().address;
+const usdc = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+/**
+ * A chain the indexer polls through a stubbed JsonRpcProvider. Blocks hash
+ * differently per fork, so switching forks looks like a reorg.
+ */
+class FakeChain {
+  public head = 120;
+  private fork = 'a';
+  private forkedAt = Infinity;
+  private logs: ethers.Log[] = [];
+
+  constructor(private escrowAddress: string) {
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => this.head);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlock').mockImplementation(async block => this.block(Number(block)));
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getLogs').mockImplementation(async filter => {
+      const { fromBlock, toBlock } = filter as ethers.Filter;
+      return this.logs.filter(log => log.blockNumber >= Number(fromBlock) && log.blockNumber <= Number(toBlock));
+    });
+  }
+
+  public emit(blockNumber: number, event: string, args: unknown[]): void {
+    const { topics, data } = escrow.encodeEventLog(event, [sessionId, ...args]);
+    this.logs.push({
+      address: this.escrowAddress,
+      topics,
+      data,
+      blockNumber,
+      blockHash: this.hash(blockNumber),
+      transactionHash: ethers.id(`${this.fork}:${blockNumber}:${event}`),
+      index: 0,
+    } as unknown as ethers.Log);
+  }
+
+  // Replace every block from `blockNumber` on with a new fork that has no logs yet
+  public reorg(blockNumber: number, fork: string): void {
+    this.logs = this.logs.filter(log => log.blockNumber < blockNumber);
+    this.fork = fork;
+    this.forkedAt = blockNumber;
+  }
+
+  private hash(blockNumber: number): string {
+    return ethers.id(`${blockNumber < this.forkedAt ? 'a' : this.fork}:${blockNumber}`);
+  }
+
+  private block(blockNumber: number) {
+    return { hash: this.hash(blockNumber), timestamp: 1700000000 + blockNumber * 2 } as unknown as ethers.Block;
+  }
+}
+
+describe('EscrowIndexerService', () => {
+  const base = getIndexerConfig().chains.get(BASE)!;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('folds confirmed events into the session state and checkpoints the last indexed block', async () => {
+    const indexer = new EscrowIndexerService();
+    const chain = new FakeChain(base.escrowAddress);
+    chain.emit(100, 'SessionCreated', [student, mentor, 50_000000, usdc, 3600, 0]);
+    chain.emit(105, 'ProgressivePaymentReleased', [10_000000, 10_000000, 1700000210]);
+    chain.emit(110, 'SessionStateChanged', [0, 1, 1700000220]);
+    // Not yet `confirmations` deep
+    chain.emit(118, 'ProgressivePaymentReleased', [10_000000, 20_000000, 1700000236]);
+
+    await indexer.syncChain(base);
+
+    await expect(escrowRepository.findSession(BASE, sessionId)).resolves.toMatchObject({
+      studentAddress: student.toLowerCase(),
+      totalAmount: '50000000',
+      releasedAmount: '10000000',
+      status: EscrowSessionStatus.ACTIVE,
+      createdBlock: 100,
+      lastEventBlock: 110,
+    });
+    const timeline = await escrowRepository.findEventsForSession(BASE, sessionId);
+    expect(timeline.map(event => event.eventName)).toEqual(['SessionCreated', 'ProgressivePaymentReleased', 'SessionStateChanged']);
+    expect(timeline[2].args).toMatchObject({ oldStatus: 'CREATED', newStatus: 'ACTIVE' });
+    await expect(escrowRepository.getCheckpoint(BASE)).resolves.toMatchObject({ blockNumber: 115 });
+  });
+
+  it('rolls back and rebuilds sessions when the checkpoint block was reorganized away', async () => {
+    const indexer = new EscrowIndexerService();
+    const chain = new FakeChain(base.escrowAddress);
+    // The chain indexed by the previous test, checkpointed at block 115
+    chain.emit(100, 'SessionCreated', [student, mentor, 50_000000, usdc, 3600, 0]);
+    chain.emit(105, 'ProgressivePaymentReleased', [10_000000, 10_000000, 1700000210]);
+    chain.emit(110, 'SessionStateChanged', [0, 1, 1700000220]);
+    chain.emit(118, 'ProgressivePaymentReleased', [10_000000, 20_000000, 1700000236]);
+
+    // The state change and the second release never made it onto the canonical chain
+    chain.reorg(108, 'b');
+    chain.head = 130;
+    await indexer.syncChain(base);
+
+    await expect(escrowRepository.findSession(BASE, sessionId)).resolves.toMatchObject({
+      releasedAmount: '10000000',
+      status: EscrowSessionStatus.CREATED,
+      lastEventBlock: 105,
+    });
+    await expect(escrowRepository.findEventsForSession(BASE, sessionId)).resolves.toHaveLength(2);
+    await expect(escrowRepository.getCheckpoint(BASE)).resolves.toMatchObject({ blockNumber: 125 });
+    expect(indexer.getStatus().find(status => status.chainId === BASE)).toMatchObject({ reorgs: 1, indexedBlock: 125 });
+  });
+});
@@ -0,0 +1,390 @@
+import { ethers } from 'ethers';
+import { EscrowChainConfig } from '../config/escrow';
+import { getIndexerConfig } from '../config/indexer';
+import { getDatabase, DatabaseConnection } from '../database';
+import { escrowRepository } from '../repositories';
+import { EscrowEvent, EscrowEventName, EscrowSession, EscrowSessionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { BookingService } from './booking.service';
+
+export interface ChainIndexStatus {
+  chainId: number;
+  name: string;
+  indexedBlock?: number;
+  headBlock?: number;
+  lastSyncAt?: Date;
+  lastError?: string;
+  reorgs: number;
+}
+
+// ProgressiveEscrowV8 events followed by the indexer
+const ESCROW_EVENTS_ABI = [
+  'event SessionCreated(bytes32 indexed sessionId, address indexed student, address indexed mentor, uint256 totalAmount, address paymentToken, uint256 sessionDuration, uint256 scheduledTime)',
+  'event SessionStateChanged(bytes32 indexed sessionId, uint8 oldStatus, uint8 newStatus, uint256 timestamp)',
+  'event DisputeRaised(bytes32 indexed sessionId, address indexed initiator, uint8 reason, uint256 timestamp)',
+  'event RefundProcessed(bytes32 indexed sessionId, address recipient, uint256 amount, uint8 refundType)',
+  'event AutoRecoveryExecuted(bytes32 indexed sessionId, string recoveryAction, uint256 timestamp)',
+  'event ProgressivePaymentReleased(bytes32 indexed sessionId, uint256 amount, uint256 totalReleased, uint256 timestamp)',
+];
+
+const escrowInterface = new ethers.Interface(ESCROW_EVENTS_ABI);
+const ESCROW_TOPICS: string[] = [];
+escrowInterface.forEachEvent(event => ESCROW_TOPICS.push(event.topicHash));
+
+// Contract enums, in declaration order
+const STATUS_BY_CODE = [
+  EscrowSessionStatus.CREATED,
+  EscrowSessionStatus.ACTIVE,
+  EscrowSessionStatus.PAUSED,
+  EscrowSessionStatus.COMPLETED,
+  EscrowSessionStatus.CANCELLED,
+  EscrowSessionStatus.EXPIRED,
+  EscrowSessionStatus.DISPUTED,
+  EscrowSessionStatus.ABANDONED,
+  EscrowSessionStatus.EMERGENCY,
+];
+const DISPUTE_REASONS = ['PaymentAmount', 'ServiceQuality', 'TechnicalIssues', 'TimeDiscrepancy', 'Other'];
+const REFUND_TYPES = ['NoShow', 'Partial', 'Emergency', 'Dispute', 'Technical'];
+
+const enumName = (names: readonly string[], code: bigint): string => names[Number(code)] ?? `UNKNOWN_${code}`;
+
+/**
+ * Follows ProgressiveEscrowV8 events on every configured chain and keeps a
+ * normalized session timeline (escrow_events) and current state (escrow_sessions).
+ * Blocks are indexed once they are `confirmations` deep; the checkpoint block hash
+ * is re-checked on every round and a mismatch rolls back `reorgDepth` blocks.
+ */
+export class EscrowIndexerService {
+  private static instance: EscrowIndexerService;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  private status: Map<number, ChainIndexStatus> = new Map();
+
+  public static getInstance(): EscrowIndexerService {
+    if (!EscrowIndexerService.instance) {
+      EscrowIndexerService.instance = new EscrowIndexerService();
+    }
+    return EscrowIndexerService.instance;
+  }
+
+  public start(): void {
+    const { enabled, pollInterval, chains } = getIndexerConfig();
+    if (!enabled || this.pollTimer) {
+      return;
+    }
+
+    logger.info(`Escrow indexer following ${chains.size} chains every ${pollInterval}ms`);
+    this.pollTimer = setInterval(() => {
+      this.syncAll().catch((error) => logger.error('Escrow indexer error:', error));
+    }, pollInterval);
+    this.pollTimer.unref();
+    this.syncAll().catch((error) => logger.error('Escrow indexer error:', error));
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  public getStatus(): ChainIndexStatus[] {
+    return Array.from(getIndexerConfig().chains.values()).map(chain => this.chainStatus(chain));
+  }
+
+  /**
+   * Run one sync round on every chain. A failing chain does not block the others.
+   */
+  public async syncAll(): Promise<void> {
+    if (this.syncing) {
+      return;
+    }
+
+    this.syncing = true;
+    try {
+      for (const chain of getIndexerConfig().chains.values()) {
+        const status = this.chainStatus(chain);
+        try {
+          await this.syncChain(chain);
+          status.lastError = undefined;
+        } catch (error) {
+          status.lastError = (error as Error).message;
+          logger.warn(`Escrow indexer could not sync ${chain.name}:`, error);
+        }
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Index confirmed blocks since the chain's checkpoint
+   */
+  public async syncChain(chain: EscrowChainConfig): Promise<void> {
+    const { confirmations, batchSize } = getIndexerConfig();
+    const provider = this.getProvider(chain);
+    const status = this.chainStatus(chain);
+
+    const head = await provider.getBlockNumber();
+    const safeHead = head - confirmations;
+    status.headBlock = head;
+
+    let from = await this.nextBlock(chain, head);
+
+    while (from <= safeHead) {
+      const to = Math.min(from + batchSize - 1, safeHead);
+      const [logs, toBlock] = await Promise.all([
+        provider.getLogs({ address: chain.escrowAddress, topics: [ESCROW_TOPICS], fromBlock: from, toBlock: to }),
+        provider.getBlock(to),
+      ]);
+      if (!toBlock?.hash) {
+        throw new Error(`Block ${to} not available on ${chain.name}`);
+      }
+
+      const events = await this.decodeLogs(chain, logs);
+
+      await getDatabase().transaction(async (tx) => {
+        for (const event of events) {
+          if (await escrowRepository.insertEvent(event, tx)) {
+            await this.applyToSession(event, tx);
+          }
+        }
+        await escrowRepository.saveCheckpoint(chain.chainId, to, toBlock.hash!, tx);
+      });
+
+      if (events.length > 0) {
+        logger.info(`Indexed ${events.length} escrow events on ${chain.name} (blocks ${from}-${to})`);
+      }
+      await this.confirmBookings(events);
+
+      status.indexedBlock = to;
+      from = to + 1;
+    }
+
+    status.lastSyncAt = new Date();
+  }
+
+  /**
+   * First block to index: after the checkpoint, rolling back if the checkpoint
+   * block is no longer canonical
+   */
+  private async nextBlock(chain: EscrowChainConfig, head: number): Promise<number> {
+    const { reorgDepth, startBlocks, initialLookback } = getIndexerConfig();
+    const checkpoint = await escrowRepository.getCheckpoint(chain.chainId);
+    const status = this.chainStatus(chain);
+
+    if (!checkpoint) {
+      return startBlocks.get(chain.chainId) ?? Math.max(head - initialLookback, 0);
+    }
+
+    const block = await this.getProvider(chain).getBlock(checkpoint.blockNumber);
+    if (block?.hash === checkpoint.blockHash) {
+      status.indexedBlock = checkpoint.blockNumber;
+      return checkpoint.blockNumber + 1;
+    }
+
+    const rewindTo = Math.max(checkpoint.blockNumber - reorgDepth, 0);
+    const rewindBlock = await this.getProvider(chain).getBlock(rewindTo);
+    if (!rewindBlock?.hash) {
+      throw new Error(`Block ${rewindTo} not available on ${chain.name}`);
+    }
+
+    await this.rollback(chain, rewindTo, rewindBlock.hash);
+    status.reorgs++;
+    status.indexedBlock = rewindTo;
+    return rewindTo + 1;
+  }
+
+  /**
+   * Drop everything indexed above a block and rebuild the sessions it touched
+   */
+  private async rollback(chain: EscrowChainConfig, blockNumber: number, blockHash: string): Promise<void> {
+    const affected = await getDatabase().transaction(async (tx) => {
+      const sessionIds = await escrowRepository.deleteEventsAfter(chain.chainId, blockNumber, tx);
+      for (const sessionId of sessionIds) {
+        await this.rebuildSession(chain.chainId, sessionId, tx);
+      }
+      await escrowRepository.saveCheckpoint(chain.chainId, blockNumber, blockHash, tx);
+      return sessionIds;
+    });
+
+    logger.warn(`⚠️ Reorg on ${chain.name}: rolled back to block ${blockNumber}, rebuilt ${affected.length} sessions`);
+  }
+
+  /**
+   * Recompute a session's state from its remaining events
+   */
+  private async rebuildSession(chainId: number, sessionId: string, tx: DatabaseConnection): Promise<void> {
+    const events = await escrowRepository.findEventsForSession(chainId, sessionId, tx);
+    if (events.length === 0) {
+      await escrowRepository.deleteSession(chainId, sessionId, tx);
+      return;
+    }
+
+    const session = events.reduce<EscrowSession | null>((current, event) => this.foldEvent(current, event), null);
+    await escrowRepository.saveSession(session!, tx);
+  }
+
+  private async applyToSession(event: EscrowEvent, tx: DatabaseConnection): Promise<void> {
+    const current = await escrowRepository.findSession(event.chainId, event.sessionId, tx);
+    await escrowRepository.saveSession(this.foldEvent(current, event), tx);
+  }
+
+  /**
+   * Apply one event to a session's state. Sessions first seen through a later
+   * event (created before the indexed range) start out with unknown details.
+   */
+  private foldEvent(current: EscrowSession | null, event: EscrowEvent): EscrowSession {
+    const session: EscrowSession = current ? { ...current } : {
+      chainId: event.chainId,
+      sessionId: event.sessionId,
+      contractAddress: event.contractAddress,
+      totalAmount: '0',
+      releasedAmount: '0',
+      refundedAmount: '0',
+      status: EscrowSessionStatus.CREATED,
+      lastEventBlock: event.blockNumber,
+      updatedAt: new Date(),
+    };
+    const { args } = event;
+
+    switch (event.eventName) {
+      case 'SessionCreated':
+        session.studentAddress = String(args.student);
+        session.mentorAddress = String(args.mentor);
+        session.paymentToken = String(args.paymentToken);
+        session.totalAmount = String(args.totalAmount);
+        session.sessionDuration = Number(args.sessionDuration);
+        session.scheduledTime = Number(args.scheduledTime) > 0 ? new Date(Number(args.scheduledTime) * 1000) : undefined;
+        session.createdBlock = event.blockNumber;
+        session.createdAt = event.occurredAt;
+        break;
+      case 'SessionStateChanged':
+        session.status = args.newStatus as EscrowSessionStatus;
+        break;
+      case 'DisputeRaised':
+        session.status = EscrowSessionStatus.DISPUTED;
+        session.disputeReason = String(args.reason);
+        break;
+      case 'RefundProcessed':
+        session.refundedAmount = (BigInt(session.refundedAmount) + BigInt(args.amount)).toString();
+        break;
+      case 'ProgressivePaymentReleased':
+        session.releasedAmount = String(args.totalReleased);
+        break;
+      case 'AutoRecoveryExecuted':
+        // Timeline only - the resulting state change has its own event
+        break;
+    }
+
+    session.lastEventBlock = event.blockNumber;
+    return session;
+  }
+
+  private async decodeLogs(chain: EscrowChainConfig, logs: ethers.Log[]): Promise<EscrowEvent[]> {
+    const blockTimes = new Map<number, Date>();
+    const events: EscrowEvent[] = [];
+
+    const sorted = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of sorted) {
+      const parsed = escrowInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const args = this.normalizeArgs(parsed);
+      let occurredAt = args.timestamp ? new Date(Number(args.timestamp) * 1000) : blockTimes.get(log.blockNumber);
+      if (!occurredAt) {
+        const block = await this.getProvider(chain).getBlock(log.blockNumber);
+        occurredAt = block ? new Date(block.timestamp * 1000) : undefined;
+        if (occurredAt) blockTimes.set(log.blockNumber, occurredAt);
+      }
+
+      events.push({
+        id: `${chain.chainId}:${log.transactionHash}:${log.index}`,
+        chainId: chain.chainId,
+        contractAddress: log.address,
+        sessionId: String(parsed.args.sessionId).toLowerCase(),
+        eventName: parsed.name as EscrowEventName,
+        args,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        occurredAt,
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Event arguments as JSON-safe values (amounts as decimal strings, enums by name)
+   */
+  private normalizeArgs(parsed: ethers.LogDescription): EscrowEvent['args'] {
+    const args: EscrowEvent['args'] = {};
+
+    parsed.fragment.inputs.forEach((input, i) => {
+      if (input.name === 'sessionId') return;
+      const value = parsed.args[i];
+
+      if (parsed.name === 'SessionStateChanged' && (input.name === 'oldStatus' || input.name === 'newStatus')) {
+        args[input.name] = enumName(STATUS_BY_CODE, value);
+      } else if (parsed.name === 'DisputeRaised' && input.name === 'reason') {
+        args[input.name] = enumName(DISPUTE_REASONS, value);
+      } else if (parsed.name === 'RefundProcessed' && input.name === 'refundType') {
+        args[input.name] = enumName(REFUND_TYPES, value);
+      } else if (input.type === 'address') {
+        args[input.name] = String(value).toLowerCase();
+      } else {
+        args[input.name] = typeof value === 'bigint' ? value.toString() : String(value);
+      }
+    });
+
+    return args;
+  }
+
+  /**
+   * Confirm slot holds whose escrow session was just created on-chain
+   */
+  private async confirmBookings(events: EscrowEvent[]): Promise<void> {
+    for (const event of events) {
+      if (event.eventName !== 'SessionCreated') continue;
+
+      try {
+        await BookingService.getInstance().confirmFromEscrowEvent({
+          chainId: event.chainId,
+          escrowSessionId: event.sessionId,
+          transactionHash: event.transactionHash,
+          studentAddress: String(event.args.student),
+          mentorAddress: String(event.args.mentor),
+          amount: String(event.args.totalAmount),
+          paymentToken: String(event.args.paymentToken),
+        });
+      } catch (error) {
+        logger.warn(`Could not confirm booking for escrow session ${event.sessionId}:`, error);
+      }
+    }
+  }
+
+  private chainStatus(chain: EscrowChainConfig): ChainIndexStatus {
+    let status = this.status.get(chain.chainId);
+    if (!status) {
+      status = { chainId: chain.chainId, name: chain.name, reorgs: 0 };
+      this.status.set(chain.chainId, status);
+    }
+    return status;
+  }
+
+  private getProvider(chain: EscrowChainConfig): ethers.JsonRpcProvider {
+    let provider = this.providers.get(chain.chainId);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+      this.providers.set(chain.chainId, provider);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,56 @@
+import { SessionData } from 'express-session';
+import { closeDatabase, initializeDatabase } from '../database';
+import { DatabaseSessionStore } from './sessionStore.service';
+
+const HOUR = 60 * 60 * 1000;
+
+const sessionData = (expires: Date, address: string = '0x1111111111111111111111111111111111111111') =>
+  ({ cookie: { originalMaxAge: HOUR, expires }, address }) as unknown as SessionData;
+
+describe('DatabaseSessionStore', () => {
+  // Pruning on a timer is left to the test of pruneExpired
+  const store = new DatabaseSessionStore(HOUR, 0);
+
+  const get = (sid: string) => new Promise<SessionData | null | undefined>((resolve, reject) =>
+    store.get(sid, (err, session) => (err ? reject(err) : resolve(session))));
+  const set = (sid: string, data: SessionData) => new Promise<void>((resolve, reject) =>
+    store.set(sid, data, err => (err ? reject(err) : resolve())));
+  const length = () => new Promise<number | undefined>((resolve, reject) =>
+    store.length((err, total) => (err ? reject(err) : resolve(total))));
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    store.close();
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    await new Promise<void>(resolve => store.clear(() => resolve()));
+  });
+
+  it('stores a session and replaces it on the next save', async () => {
+    await set('sid-1', sessionData(new Date(Date.now() + HOUR)));
+    await set('sid-1', sessionData(new Date(Date.now() + HOUR), '0x2222222222222222222222222222222222222222'));
+
+    expect(await get('sid-1')).toMatchObject({ address: '0x2222222222222222222222222222222222222222' });
+    expect(await length()).toBe(1);
+  });
+
+  it('does not return an expired session and removes it', async () => {
+    await set('sid-1', sessionData(new Date(Date.now() - 1000)));
+
+    expect(await get('sid-1')).toBeNull();
+    expect(await length()).toBe(0);
+  });
+
+  it('prunes expired sessions only', async () => {
+    await set('expired', sessionData(new Date(Date.now() - 1000)));
+    await set('current', sessionData(new Date(Date.now() + HOUR)));
+
+    expect(await store.pruneExpired()).toBe(1);
+    expect(await get('current')).not.toBeNull();
+  });
+});
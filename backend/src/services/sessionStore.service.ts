@@ -0,0 +1,121 @@
+import session, { SessionData } from 'express-session';
+import { getDatabase } from '../database';
+import { logger } from '../utils/logger';
+
+/**
+ * express-session store backed by the application database (SQLite or PostgreSQL)
+ */
+export class DatabaseSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(private defaultMaxAge: number, pruneInterval: number) {
+    super();
+
+    if (pruneInterval > 0) {
+      this.pruneTimer = setInterval(() => {
+        this.pruneExpired().catch((error) => logger.error('Session prune error:', error));
+      }, pruneInterval);
+      this.pruneTimer.unref();
+    }
+  }
+
+  public get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    getDatabase()
+      .queryOne<{ data: string; expires_at: string }>('SELECT data, expires_at FROM http_sessions WHERE sid = ?', [sid])
+      .then((row) => {
+        if (!row) {
+          return callback(null, null);
+        }
+        if (new Date(row.expires_at) <= new Date()) {
+          return this.destroy(sid, (err) => callback(err, null));
+        }
+        callback(null, JSON.parse(row.data) as SessionData);
+      })
+      .catch((error) => callback(error));
+  }
+
+  public set(sid: string, sessionData: SessionData, callback?: (err?: any) => void): void {
+    const expiresAt = this.getExpiry(sessionData);
+    const db = getDatabase();
+
+    db.transaction(async (tx) => {
+      const existing = await tx.queryOne('SELECT sid FROM http_sessions WHERE sid = ?', [sid]);
+      if (existing) {
+        await tx.execute('UPDATE http_sessions SET data = ?, expires_at = ? WHERE sid = ?', [
+          JSON.stringify(sessionData),
+          expiresAt,
+          sid,
+        ]);
+      } else {
+        await tx.execute('INSERT INTO http_sessions (sid, data, expires_at) VALUES (?, ?, ?)', [
+          sid,
+          JSON.stringify(sessionData),
+          expiresAt,
+        ]);
+      }
+    })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  public destroy(sid: string, callback?: (err?: any) => void): void {
+    getDatabase()
+      .execute('DELETE FROM http_sessions WHERE sid = ?', [sid])
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  public touch(sid: string, sessionData: SessionData, callback?: () => void): void {
+    getDatabase()
+      .execute('UPDATE http_sessions SET expires_at = ? WHERE sid = ?', [this.getExpiry(sessionData), sid])
+      .then(() => callback?.())
+      .catch((error) => {
+        logger.error('Session touch error:', error);
+        callback?.();
+      });
+  }
+
+  public clear(callback?: (err?: any) => void): void {
+    getDatabase()
+      .execute('DELETE FROM http_sessions')
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  public length(callback: (err: any, length?: number) => void): void {
+    getDatabase()
+      .queryOne<{ total: number | string }>('SELECT COUNT(*) AS total FROM http_sessions WHERE expires_at > ?', [
+        new Date().toISOString(),
+      ])
+      .then((row) => callback(null, Number(row?.total || 0)))
+      .catch((error) => callback(error));
+  }
+
+  /**
+   * Remove expired sessions
+   */
+  public async pruneExpired(): Promise<number> {
+    const result = await getDatabase().execute('DELETE FROM http_sessions WHERE expires_at <= ?', [
+      new Date().toISOString(),
+    ]);
+    if (result.changes > 0) {
+      logger.debug(`Pruned ${result.changes} expired sessions`);
+    }
+    return result.changes;
+  }
+
+  public close(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private getExpiry(sessionData: SessionData): string {
+    const expires = sessionData.cookie?.expires;
+    if (expires) {
+      return new Date(expires).toISOString();
+    }
+    return new Date(Date.now() + this.defaultMaxAge).toISOString();
+  }
+}
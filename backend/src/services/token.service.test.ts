@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+import { closeDatabase, initializeDatabase } from '../database';
+import { userRepository } from '../repositories';
+import { TokenService } from './token.service';
+
+describe('TokenService', () => {
+  const tokens = TokenService.getInstance();
+  const address = ethers.Wallet.createRandom().address;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    // Signed in through SIWE, which creates the user
+    await userRepository.ensure(address, 8453);
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('issues an access token bound to the signed-in address', async () => {
+    const pair = await tokens.issueTokenPair(address.toLowerCase(), 8453);
+
+    await expect(tokens.verifyAccessToken(pair.accessToken)).resolves.toMatchObject({ sub: address, chainId: 8453, typ: 'access' });
+  });
+
+  it('does not accept a refresh token as an access token', async () => {
+    const pair = await tokens.issueTokenPair(address);
+
+    await expect(tokens.verifyAccessToken(pair.refreshToken)).resolves.toBeNull();
+    await expect(tokens.verifyAccessToken(`${pair.accessToken.slice(0, -2)}xx`)).resolves.toBeNull();
+  });
+
+  it('rotates a refresh token once and revokes the family when it is presented again', async () => {
+    const pair = await tokens.issueTokenPair(address);
+
+    const rotated = await tokens.rotateRefreshToken(pair.refreshToken);
+    expect(rotated).not.toBeNull();
+
+    // The old token again: treated as stolen, so the token it was rotated into stops working too
+    await expect(tokens.rotateRefreshToken(pair.refreshToken)).resolves.toBeNull();
+    await expect(tokens.rotateRefreshToken(rotated!.refreshToken)).resolves.toBeNull();
+  });
+
+  it('revokes the presented tokens on logout', async () => {
+    const pair = await tokens.issueTokenPair(address);
+
+    await tokens.revokeTokens(pair);
+
+    await expect(tokens.verifyAccessToken(pair.accessToken)).resolves.toBeNull();
+    await expect(tokens.rotateRefreshToken(pair.refreshToken)).resolves.toBeNull();
+  });
+});
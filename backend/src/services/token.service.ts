@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ethers } from 'ethers';
+import { getTokenConfig } from '../config/token';
+import { getDatabase, DatabaseConnection } from '../database';
+import { tokenRepository } from '../repositories';
+import { logger } from '../utils/logger';
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenPayload {
+  sub: string; // SIWE-verified wallet address (checksummed)
+  chainId?: number;
+  typ: TokenType;
+  jti: string;
+  fam?: string; // refresh token family (one per sign-in)
+  exp: number; // seconds since epoch
+}
+
+export interface TokenPair {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+export class TokenService {
+  private static instance: TokenService;
+
+  public static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  /**
+   * Issue an access/refresh token pair for a SIWE-verified address (new token family)
+   */
+  public async issueTokenPair(address: string, chainId?: number): Promise<TokenPair> {
+    return this.createPair(address, chainId, crypto.randomUUID(), crypto.randomUUID());
+  }
+
+  /**
+   * Verify an access token (signature, expiry, type and revocation list)
+   */
+  public async verifyAccessToken(token: string): Promise<TokenPayload | null> {
+    const payload = this.decode(token, 'access');
+    if (!payload) {
+      return null;
+    }
+
+    if (await tokenRepository.isAccessTokenRevoked(payload.jti)) {
+      logger.warn(`🔒 Revoked access token presented for ${payload.sub}`);
+      return null;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. The presented token is revoked;
+   * presenting an already rotated token revokes its whole family (token theft).
+   */
+  public async rotateRefreshToken(token: string): Promise<TokenPair | null> {
+    const payload = this.decode(token, 'refresh');
+    if (!payload || !payload.fam) {
+      return null;
+    }
+
+    const record = await tokenRepository.findRefreshToken(payload.jti);
+    if (!record || record.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // Revoked by logout rather than rotated
+    if (record.revokedAt && !record.replacedBy) {
+      return null;
+    }
+
+    const nextRefreshId = crypto.randomUUID();
+    const pair = await getDatabase().transaction(async (tx) => {
+      const rotated = !record.revokedAt && await tokenRepository.rotateRefreshToken(record.id, nextRefreshId, tx);
+      if (!rotated) {
+        return null;
+      }
+      return this.createPair(payload.sub, payload.chainId, record.familyId, nextRefreshId, tx);
+    });
+
+    if (!pair) {
+      const revoked = await tokenRepository.revokeFamily(record.familyId);
+      logger.warn(`🔒 Refresh token reuse detected for ${record.address} - revoked ${revoked} tokens in family ${record.familyId}`);
+    }
+
+    return pair;
+  }
+
+  /**
+   * Revoke the given credentials (logout). Invalid tokens are ignored.
+   */
+  public async revokeTokens(tokens: { accessToken?: string; refreshToken?: string }): Promise<void> {
+    if (tokens.accessToken) {
+      const access = this.decode(tokens.accessToken, 'access');
+      if (access) {
+        await tokenRepository.revokeAccessToken(access.jti, new Date(access.exp * 1000));
+      }
+    }
+
+    if (tokens.refreshToken) {
+      const refresh = this.decode(tokens.refreshToken, 'refresh');
+      if (refresh?.fam) {
+        await tokenRepository.revokeFamily(refresh.fam);
+      }
+    }
+  }
+
+  private async createPair(
+    address: string,
+    chainId: number | undefined,
+    familyId: string,
+    refreshId: string,
+    tx?: DatabaseConnection,
+  ): Promise<TokenPair> {
+    const { accessTokenTtl, refreshTokenTtl } = getTokenConfig();
+    const subject = ethers.getAddress(address);
+
+    const access = this.sign({ sub: subject, chainId, typ: 'access' }, crypto.randomUUID(), accessTokenTtl);
+    const refresh = this.sign({ sub: subject, chainId, typ: 'refresh', fam: familyId }, refreshId, refreshTokenTtl);
+
+    await tokenRepository.createRefreshToken({
+      id: refreshId,
+      familyId,
+      address: subject,
+      chainId,
+      expiresAt: refresh.expiresAt,
+    }, tx);
+
+    return {
+      accessToken: access.token,
+      accessTokenExpiresAt: access.expiresAt.toISOString(),
+      refreshToken: refresh.token,
+      refreshTokenExpiresAt: refresh.expiresAt.toISOString(),
+    };
+  }
+
+  private sign(
+    claims: { sub: string; chainId?: number; typ: TokenType; fam?: string },
+    jwtid: string,
+    ttl: number,
+  ): { token: string; expiresAt: Date } {
+    const { secret, issuer } = getTokenConfig();
+    const token = jwt.sign(claims, secret, {
+      algorithm: 'HS256',
+      issuer,
+      jwtid,
+      expiresIn: ttl,
+    });
+
+    return { token, expiresAt: new Date(Date.now() + ttl * 1000) };
+  }
+
+  /**
+   * Check signature, issuer, expiry and type. Returns null for any invalid token.
+   */
+  private decode(token: string, expectedType: TokenType): TokenPayload | null {
+    const { secret, issuer } = getTokenConfig();
+
+    try {
+      const decoded = jwt.verify(token, secret, { algorithms: ['HS256'], issuer });
+      if (typeof decoded !== 'object' || decoded === null) {
+        return null;
+      }
+
+      const payload = decoded as jwt.JwtPayload & Partial<TokenPayload>;
+      if (payload.typ !== expectedType || !payload.sub || !ethers.isAddress(payload.sub) || !payload.jti || !payload.exp) {
+        logger.warn(`🔒 Token rejected: unexpected type or claims (${payload.typ})`);
+        return null;
+      }
+
+      return {
+        sub: ethers.getAddress(payload.sub),
+        chainId: payload.chainId,
+        typ: payload.typ,
+        jti: payload.jti,
+        fam: payload.fam,
+        exp: payload.exp,
+      };
+    } catch (error) {
+      logger.debug(`🔒 Token verification failed: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { MentorshipSession, SessionStatus } from '../types';
+import { WebRTCService } from './webrtc.service';
+
+const MENTOR = '0x1111111111111111111111111111111111111111';
+const STUDENT = '0x2222222222222222222222222222222222222222';
+const OUTSIDER = '0x3333333333333333333333333333333333333333';
+
+type Handler = (data: any) => void;
+
+/**
+ * A connected socket as far as the service sees it: authenticated as `address`,
+ * with everything it emits recorded (to itself, and to a room or socket id)
+ */
+function connectSocket(service: WebRTCService, id: string, address: string) {
+  const handlers = new Map<string, Handler>();
+  const relayed: Array<{ target: string; event: string; payload: any }> = [];
+  const socket = {
+    id,
+    data: { userAddress: address, authenticated: true },
+    on: (event: string, handler: Handler) => handlers.set(event, handler),
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    to: (target: string) => ({
+      emit: (event: string, payload: any) => relayed.push({ target, event, payload }),
+    }),
+  };
+
+  let onConnection: (socket: unknown) => void = () => undefined;
+  service.initializeSocketIO({
+    use: () => undefined,
+    on: (_event: string, handler: (socket: unknown) => void) => { onConnection = handler; },
+  } as any);
+  onConnection(socket);
+
+  return {
+    socket,
+    relayed,
+    send: (event: string, data: any) => handlers.get(event)!(data),
+  };
+}
+
+describe('WebRTCService', () => {
+  let service: WebRTCService;
+  let roomId: string;
+
+  beforeEach(() => {
+    service = new WebRTCService();
+    roomId = service.createRoom('session-1', [MENTOR, STUDENT]).roomId;
+  });
+
+  it('relays signals from a participant to the room', () => {
+    const mentor = connectSocket(service, 'socket-mentor', MENTOR);
+    mentor.send('join-room', { roomId, userAddress: MENTOR });
+
+    mentor.send('webrtc-signal', { roomId, type: 'offer', data: { sdp: 'x' } });
+
+    expect(mentor.relayed).toContainEqual(expect.objectContaining({
+      target: roomId,
+      event: 'webrtc-signal',
+      payload: expect.objectContaining({ type: 'offer', from: MENTOR }),
+    }));
+  });
+
+  it('rejects signals from a socket that has not joined the room', () => {
+    const outsider = connectSocket(service, 'socket-outsider', OUTSIDER);
+
+    outsider.send('webrtc-signal', { roomId, type: 'offer', data: { sdp: 'x' } });
+    outsider.send('webrtc-signal', { roomId, to: STUDENT, type: 'offer', data: { sdp: 'x' } });
+
+    expect(outsider.relayed).toHaveLength(0);
+    expect(outsider.socket.emit).toHaveBeenCalledWith('error', { message: 'Unauthorized: Not a room participant' });
+  });
+
+  it('announces a screen share under the authenticated address only', () => {
+    const student = connectSocket(service, 'socket-student', STUDENT);
+    student.send('join-room', { roomId, userAddress: STUDENT });
+
+    student.send('screen-share', { roomId, userAddress: MENTOR, sharing: true });
+    expect(student.relayed.filter(r => r.event === 'screen-share-changed')).toHaveLength(0);
+
+    student.send('screen-share', { roomId, userAddress: STUDENT.toUpperCase().replace('0X', '0x'), sharing: true });
+    expect(student.relayed).toContainEqual({
+      target: roomId,
+      event: 'screen-share-changed',
+      payload: { userAddress: STUDENT, sharing: true },
+    });
+  });
+
+  it('rejects a screen share in a room the user has not joined', () => {
+    const outsider = connectSocket(service, 'socket-outsider', OUTSIDER);
+
+    outsider.send('screen-share', { roomId, userAddress: OUTSIDER, sharing: true });
+
+    expect(outsider.relayed).toHaveLength(0);
+  });
+
+  it('refuses a signal whose target is not an address instead of throwing', () => {
+    const mentor = connectSocket(service, 'socket-mentor', MENTOR);
+    mentor.send('join-room', { roomId, userAddress: MENTOR });
+
+    expect(() => mentor.send('webrtc-signal', { roomId, to: { toLowerCase: 1 }, type: 'offer' })).not.toThrow();
+    expect(() => mentor.send('webrtc-signal', { roomId, to: 'not-an-address', type: 'offer' })).not.toThrow();
+    expect(() => mentor.send('chat-message', { roomId, from: 42, message: 'hi' })).not.toThrow();
+    expect(() => mentor.send('webrtc-signal', null)).not.toThrow();
+
+    expect(mentor.relayed.filter(r => r.event !== 'user-joined')).toHaveLength(0);
+    expect(mentor.socket.emit).toHaveBeenCalledWith('error', { message: 'Invalid signal target' });
+  });
+
+  it('shows a room only to its participants', () => {
+    expect(service.getRoomForParticipant(roomId, STUDENT.toUpperCase().replace('0X', '0x'))).toMatchObject({ roomId });
+    expect(service.getRoomForParticipant(roomId, OUTSIDER)).toBeUndefined();
+  });
+
+  it('opens one room per booking for its mentor and student', () => {
+    const booking = {
+      id: 'booking-1',
+      mentorAddress: MENTOR,
+      studentAddress: STUDENT,
+      status: SessionStatus.SCHEDULED,
+      roomId: 'room_booking-1',
+    } as MentorshipSession;
+
+    const room = service.openSessionRoom(booking);
+
+    expect(room).toMatchObject({ roomId: 'room_booking-1', sessionId: 'booking-1', participants: [MENTOR, STUDENT] });
+    expect(service.openSessionRoom(booking)).toBe(room);
+  });
+
+  it('removes a participant whose address differs only in case when they leave', () => {
+    const mentor = connectSocket(service, 'socket-mentor', MENTOR);
+    mentor.send('join-room', { roomId, userAddress: MENTOR });
+    mentor.socket.data.userAddress = MENTOR.toUpperCase().replace('0X', '0x');
+
+    mentor.send('leave-room', { roomId, userAddress: MENTOR });
+
+    expect(service.getRoomParticipants(roomId)).toHaveLength(0);
+  });
+});
@@ -1,6 +1,8 @@
 import { Server as SocketIOServer } from 'socket.io';
-import { WebRTCRoom, WebRTCMessage, ChatMessage, RoomParticipant, MediaState } from '../types';
+import { ethers } from 'ethers';
+import { WebRTCRoom, WebRTCMessage, ChatMessage, RoomParticipant, MediaState, MentorshipSession } from '../types';
 import { logger } from '../utils/logger';
+import { TokenService } from './token.service';
 
 export class WebRTCService {
   private static instance: WebRTCService;
@@ -27,23 +29,34 @@ export class WebRTCService {
         const userAddress = socket.handshake.auth.userAddress;
         
         // Validate required authentication parameters
-        if (!token || !userAddress) {
+        if (!token) {
           logger.warn(`🔒 WebRTC authentication failed: Missing credentials for ${socket.id}`);
           return next(new Error('Authentication required'));
         }
         
-        // TODO: Implement proper SIWE token validation here
-        // For now, we'll do basic validation
-        if (typeof token !== 'string' || typeof userAddress !== 'string') {
+        if (typeof token !== 'string' || (userAddress !== undefined && typeof userAddress !== 'string')) {
           logger.warn(`🔒 WebRTC authentication failed: Invalid credentials format for ${socket.id}`);
           return next(new Error('Invalid credentials format'));
         }
+
+        // 🔒 SECURITY: Verify the backend-issued access token bound to the SIWE-verified address
+        const payload = await TokenService.getInstance().verifyAccessToken(token);
+        if (!payload) {
+          logger.warn(`🔒 WebRTC authentication failed: Invalid or expired token for ${socket.id}`);
+          return next(new Error('Invalid or expired token'));
+        }
+
+        if (userAddress && !this.isSameAddress(userAddress, payload.sub)) {
+          logger.warn(`🔒 WebRTC authentication failed: ${userAddress} presented a token for ${payload.sub} (${socket.id})`);
+          return next(new Error('Token does not match user address'));
+        }
         
-        // Store authenticated user info in socket
-        socket.data.userAddress = userAddress;
+        // Store authenticated user info in socket (address always comes from the token)
+        socket.data.userAddress = payload.sub;
+        socket.data.chainId = payload.chainId;
         socket.data.authenticated = true;
         
-        logger.info(`🔒 WebRTC authentication successful for ${userAddress} (${socket.id})`);
+        logger.info(`🔒 WebRTC authentication successful for ${payload.sub} (${socket.id})`);
         next();
       } catch (error) {
         logger.error(`🔒 WebRTC authentication error for ${socket.id}:`, error);
@@ -56,12 +69,13 @@ export class WebRTCService {
 
       // Handle joining a room
       socket.on('join-room', (data: { roomId: string; userAddress: string }) => {
-        this.handleJoinRoom(socket, data.roomId, data.userAddress);
+        this.handleJoinRoom(socket, data?.roomId, data?.userAddress);
       });
 
       // Handle leaving a room
       socket.on('leave-room', (data: { roomId: string; userAddress: string }) => {
-        this.handleLeaveRoom(socket, data.roomId, data.userAddress);
+        // 🔒 SECURITY: A socket can only remove its own authenticated user
+        this.handleLeaveRoom(socket, data?.roomId, socket.data.userAddress);
       });
 
       // Handle WebRTC signaling
@@ -94,8 +108,7 @@ export class WebRTCService {
   /**
    * Create a new WebRTC room for a mentorship session
    */
-  public createRoom(sessionId: string, participants: string[]): WebRTCRoom {
-    const roomId = `room_${sessionId}_${Date.now()}`;
+  public createRoom(sessionId: string, participants: string[], roomId: string = `room_${sessionId}_${Date.now()}`): WebRTCRoom {
     
     const room: WebRTCRoom = {
       roomId,
@@ -123,6 +136,14 @@ export class WebRTCService {
     return room;
   }
 
+  /**
+   * Open the room of a booking for its mentor and student, creating it on first use
+   */
+  public openSessionRoom(session: MentorshipSession): WebRTCRoom {
+    const roomId = session.roomId || `room_${session.id}`;
+    return this.rooms.get(roomId) || this.createRoom(session.id, [session.mentorAddress, session.studentAddress], roomId);
+  }
+
   /**
    * Get room by ID
    */
@@ -130,6 +151,14 @@ export class WebRTCService {
     return this.rooms.get(roomId);
   }
 
+  /**
+   * Get a room for one of its participants; for anyone else it does not exist
+   */
+  public getRoomForParticipant(roomId: string, address: string): WebRTCRoom | undefined {
+    const room = this.rooms.get(roomId);
+    return room && room.participants.some(p => this.isSameAddress(p, address)) ? room : undefined;
+  }
+
   /**
    * Add participant to room
    */
@@ -199,11 +228,12 @@ export class WebRTCService {
    */
   private handleJoinRoom(socket: any, roomId: string, userAddress: string): void {
     // 🔒 SECURITY: Verify authenticated user matches the requested user address
-    if (!socket.data.authenticated || socket.data.userAddress !== userAddress) {
+    if (!this.isAuthenticatedAs(socket, userAddress)) {
       logger.warn(`🔒 Unauthorized join attempt: ${socket.data.userAddress} tried to join as ${userAddress}`);
       socket.emit('error', { message: 'Unauthorized: User address mismatch' });
       return;
     }
+    userAddress = socket.data.userAddress;
 
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -212,7 +242,7 @@ export class WebRTCService {
     }
 
     // Check if user is authorized to join the room
-    if (!room.participants.includes(userAddress)) {
+    if (!room.participants.some(p => this.isSameAddress(p, userAddress))) {
       logger.warn(`🔒 User ${userAddress} not authorized for room ${roomId}`);
       socket.emit('error', { message: 'Unauthorized to join room' });
       return;
@@ -266,10 +296,14 @@ export class WebRTCService {
   }
 
   private handleLeaveRoom(socket: any, roomId: string, userAddress: string): void {
+    if (typeof roomId !== 'string') {
+      return;
+    }
+
     socket.leave(roomId);
 
     const participants = this.roomParticipants.get(roomId) || [];
-    const updatedParticipants = participants.filter(p => p.address !== userAddress);
+    const updatedParticipants = participants.filter(p => !this.isSameAddress(p.address, userAddress));
     this.roomParticipants.set(roomId, updatedParticipants);
 
     // Notify other participants
@@ -285,16 +319,34 @@ export class WebRTCService {
   }
 
   private handleWebRTCSignal(socket: any, message: WebRTCMessage): void {
+    if (!message || typeof message !== 'object') {
+      socket.emit('error', { message: 'Invalid signal' });
+      return;
+    }
     const { roomId, to, type } = message;
 
+    // 🔒 SECURITY: Only participants who joined the room may signal in it
+    if (!this.isRoomParticipant(socket, roomId)) {
+      logger.warn(`🔒 Unauthorized WebRTC signal: ${socket.data.userAddress} is not a participant of room ${roomId}`);
+      socket.emit('error', { message: 'Unauthorized: Not a room participant' });
+      return;
+    }
+
+    // 🔒 SECURITY: The target comes from the client; anything but an address is refused
+    if (to !== undefined && to !== null && (typeof to !== 'string' || !ethers.isAddress(to))) {
+      socket.emit('error', { message: 'Invalid signal target' });
+      return;
+    }
+
     if (to) {
       // Send to specific participant
       const participants = this.roomParticipants.get(roomId) || [];
-      const targetParticipant = participants.find(p => p.address === to);
+      const targetParticipant = participants.find(p => this.isSameAddress(p.address, to));
       
       if (targetParticipant) {
         socket.to(targetParticipant.socketId).emit('webrtc-signal', {
           ...message,
+          from: socket.data.userAddress,
           timestamp: new Date()
         });
       }
@@ -302,6 +354,7 @@ export class WebRTCService {
       // Broadcast to room
       socket.to(roomId).emit('webrtc-signal', {
         ...message,
+        from: socket.data.userAddress,
         timestamp: new Date()
       });
     }
@@ -310,14 +363,20 @@ export class WebRTCService {
   }
 
   private handleChatMessage(socket: any, data: { roomId: string; from: string; message: string }): void {
-    const { roomId, from, message } = data;
+    if (!data || typeof data !== 'object') {
+      socket.emit('error', { message: 'Invalid message content' });
+      return;
+    }
+    const { roomId, message } = data;
+    let { from } = data;
 
     // 🔒 SECURITY: Verify authenticated user matches sender
-    if (!socket.data.authenticated || socket.data.userAddress !== from) {
+    if (!this.isAuthenticatedAs(socket, from)) {
       logger.warn(`🔒 Unauthorized chat message: ${socket.data.userAddress} tried to send as ${from}`);
       socket.emit('error', { message: 'Unauthorized: User address mismatch' });
       return;
     }
+    from = socket.data.userAddress;
 
     // 🔒 SECURITY: Sanitize message content (basic validation)
     if (!message || typeof message !== 'string' || message.trim().length === 0) {
@@ -330,7 +389,7 @@ export class WebRTCService {
     
     // Verify user is in the room
     const participants = this.roomParticipants.get(roomId) || [];
-    const isParticipant = participants.some(p => p.address === from);
+    const isParticipant = participants.some(p => this.isSameAddress(p.address, from));
     
     if (!isParticipant) {
       logger.warn(`🔒 User ${from} not a participant of room ${roomId}`);
@@ -365,27 +424,61 @@ export class WebRTCService {
   }
 
   private handleMediaStateChange(socket: any, data: { roomId: string; userAddress: string; mediaState: MediaState }): void {
-    const { roomId, userAddress, mediaState } = data;
+    if (!data || typeof data !== 'object') {
+      socket.emit('error', { message: 'Invalid request' });
+      return;
+    }
+    const { roomId, mediaState } = data;
+    let { userAddress } = data;
+
+    // 🔒 SECURITY: Only the authenticated user may change their own media state
+    if (!this.isAuthenticatedAs(socket, userAddress)) {
+      logger.warn(`🔒 Unauthorized media state change: ${socket.data.userAddress} tried to act as ${userAddress}`);
+      socket.emit('error', { message: 'Unauthorized: User address mismatch' });
+      return;
+    }
+    userAddress = socket.data.userAddress;
 
     const participants = this.roomParticipants.get(roomId) || [];
-    const participant = participants.find(p => p.address === userAddress);
+    const participant = participants.find(p => this.isSameAddress(p.address, userAddress));
     
-    if (participant) {
-      participant.mediaState = mediaState;
-      this.roomParticipants.set(roomId, participants);
+    if (!participant) {
+      socket.emit('error', { message: 'Unauthorized: Not a room participant' });
+      return;
+    }
 
-      // Broadcast media state change to room
-      socket.to(roomId).emit('media-state-changed', {
-        userAddress,
-        mediaState
-      });
+    participant.mediaState = mediaState;
+    this.roomParticipants.set(roomId, participants);
 
-      logger.info(`Media state changed for ${userAddress} in room ${roomId}`);
-    }
+    // Broadcast media state change to room
+    socket.to(roomId).emit('media-state-changed', {
+      userAddress,
+      mediaState
+    });
+
+    logger.info(`Media state changed for ${userAddress} in room ${roomId}`);
   }
 
   private handleScreenShare(socket: any, data: { roomId: string; userAddress: string; sharing: boolean }): void {
-    const { roomId, userAddress, sharing } = data;
+    if (!data || typeof data !== 'object') {
+      socket.emit('error', { message: 'Invalid request' });
+      return;
+    }
+    const { roomId, sharing } = data;
+    let { userAddress } = data;
+
+    // 🔒 SECURITY: Only the authenticated user may announce their own screen share
+    if (!this.isAuthenticatedAs(socket, userAddress)) {
+      logger.warn(`🔒 Unauthorized screen share: ${socket.data.userAddress} tried to act as ${userAddress}`);
+      socket.emit('error', { message: 'Unauthorized: User address mismatch' });
+      return;
+    }
+    userAddress = socket.data.userAddress;
+
+    if (!this.isRoomParticipant(socket, roomId)) {
+      socket.emit('error', { message: 'Unauthorized: Not a room participant' });
+      return;
+    }
 
     // Broadcast screen share state to room
     socket.to(roomId).emit('screen-share-changed', {
@@ -409,6 +502,33 @@ export class WebRTCService {
     logger.info(`Socket disconnected: ${socket.id}`);
   }
 
+  /**
+   * Check that the socket is authenticated as the given wallet address
+   */
+  private isAuthenticatedAs(socket: any, address: string): boolean {
+    return Boolean(
+      socket.data.authenticated &&
+      typeof address === 'string' &&
+      this.isSameAddress(socket.data.userAddress, address)
+    );
+  }
+
+  /**
+   * Check that the socket's authenticated user has joined the room
+   */
+  private isRoomParticipant(socket: any, roomId: string): boolean {
+    if (!socket.data.authenticated) {
+      return false;
+    }
+    const participants = this.roomParticipants.get(roomId) || [];
+    return participants.some(p => this.isSameAddress(p.address, socket.data.userAddress));
+  }
+
+  // Addresses from client payloads may be anything; only two strings can match
+  private isSameAddress(a: unknown, b: unknown): boolean {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+  }
+
   /**
    * Get chat messages for a room
    */
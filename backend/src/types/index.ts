@@ -47,12 +47,25 @@ export interface Mentorship {
   duration: number; // in minutes
   price: number;
   currency: 'USDT' | 'USDC';
+  priceEth?: number; // ETH price shown alongside the stablecoin price
+  preferredToken: 'USDC' | 'ETH'; // token the mentor prefers to be paid in
+  prerequisites?: string;
   maxStudents: number;
   isActive: boolean;
+  mentor?: MentorSummary;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Public mentor profile fields returned with each mentorship
+export interface MentorSummary {
+  username?: string;
+  bio?: string;
+  avatar?: string;
+  rating: number;
+  totalSessions: number;
+}
+
 export interface MentorshipSession {
   id: string;
   mentorshipId: string;
@@ -64,6 +77,9 @@ export interface MentorshipSession {
   currency: 'USDT' | 'USDC';
   status: SessionStatus;
   transactionHash?: string;
+  escrowSessionId?: string; // bytes32 id passed to createProgressiveSession
+  chainId?: number;
+  holdExpiresAt?: Date; // end of the slot hold while payment is pending
   roomId?: string;
   feedback?: SessionFeedback;
   createdAt: Date;
@@ -71,6 +87,7 @@ export interface MentorshipSession {
 }
 
 export enum SessionStatus {
+  PENDING_PAYMENT = 'PENDING_PAYMENT', // slot held until the escrow payment is confirmed
   SCHEDULED = 'SCHEDULED',
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
@@ -114,9 +131,109 @@ export interface EarningRecord {
   earnedAt: Date;
 }
 
+// Escrow indexer types (ProgressiveEscrowV8 on-chain sessions)
+export enum EscrowSessionStatus {
+  CREATED = 'CREATED',
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+  DISPUTED = 'DISPUTED',
+  ABANDONED = 'ABANDONED',
+  EMERGENCY = 'EMERGENCY',
+}
+
+export type EscrowEventName =
+  | 'SessionCreated'
+  | 'SessionStateChanged'
+  | 'DisputeRaised'
+  | 'RefundProcessed'
+  | 'AutoRecoveryExecuted'
+  | 'ProgressivePaymentReleased';
+
+// Current state of an escrow session, folded from its indexed events
+export interface EscrowSession {
+  chainId: number;
+  sessionId: string; // bytes32
+  contractAddress: string;
+  studentAddress?: string;
+  mentorAddress?: string;
+  paymentToken?: string;
+  totalAmount: string; // token base units
+  releasedAmount: string;
+  refundedAmount: string;
+  sessionDuration?: number; // as passed to createProgressiveSession
+  scheduledTime?: Date;
+  status: EscrowSessionStatus;
+  disputeReason?: string;
+  createdBlock?: number;
+  lastEventBlock: number;
+  createdAt?: Date;
+  updatedAt: Date;
+}
+
+// One entry of an escrow session's timeline
+export interface EscrowEvent {
+  id: string; // chainId:transactionHash:logIndex
+  chainId: number;
+  contractAddress: string;
+  sessionId: string;
+  eventName: EscrowEventName;
+  args: Record<string, string | number>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  occurredAt?: Date;
+}
+
+export interface IndexerCheckpoint {
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  updatedAt: Date;
+}
+
 // Auth types
+
+// Admin API roles, lowest to highest privilege (a role includes the ones below it)
+export type OperatorRole = 'viewer' | 'operator' | 'emergency';
+
 export interface AuthRequest extends Request {
-  session: {
+  user?: {
+    address: string;
+    chainId?: number;
+    authenticated: boolean;
+    sessionId: string;
+    operatorRole?: OperatorRole; // set by requireOperator
+  };
+}
+
+// Audit log types (privileged admin API actions)
+export type AuditOutcome = 'attempted' | 'success' | 'failure' | 'denied'; // attempted: written before the action runs
+
+export interface AuditEntry {
+  id: string;
+  actorAddress: string;
+  actorRole?: OperatorRole;
+  action: string; // e.g. bot.pause, escrow.resolve-dispute
+  method: string;
+  path: string;
+  details: Record<string, unknown>; // route params and request body
+  outcome: AuditOutcome;
+  statusCode?: number;
+  ip?: string;
+  createdAt: Date;
+}
+
+// An audit log entry as chained and exported: the same format as the bots' audit trail, so
+// `npm run audit:verify -- --file <export>` checks either
+export type { AuditChainEntry, AuditChainIssue, AuditChainVerification } from '../utils/auditChain';
+
+// Server-side session state (express-session)
+declare module 'express-session' {
+  interface SessionData {
     siwe?: SiweMessage;
     nonce?: string;
     address?: string;
@@ -125,16 +242,7 @@ export interface AuthRequest extends Request {
     lastIP?: string;
     lastActivity?: Date;
     switchCount?: number;
-    touch?: () => void;
-    destroy?: (callback?: (err?: any) => void) => void;
-  };
-  user?: {
-    address: string;
-    chainId?: number;
-    authenticated: boolean;
-    sessionId: string;
-  };
-  sessionID?: string;
+  }
 }
 
 export interface SiweMessage {
@@ -158,7 +266,7 @@ export interface WebRTCRoom {
   sessionId: string;
   participants: string[];
   createdAt: Date;
-  config: RTCConfiguration;
+  config: { iceServers: Array<{ urls: string | string[]; username?: string; credential?: string }> };
 }
 
 export interface WebRTCMessage {
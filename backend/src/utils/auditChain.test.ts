@@ -0,0 +1,64 @@
+import { AuditChainEntry, AuditChainVerifier, GENESIS_HASH, canonicalJson, chainEntry } from './auditChain';
+
+// Three linked entries, as the audit log or the bots' trail would store them
+const buildChain = (): AuditChainEntry[] => {
+  const entries: AuditChainEntry[] = [];
+  for (const action of ['key.loaded', 'emergency.proposed', 'emergency.signed']) {
+    const head = entries.length ? entries[entries.length - 1] : null;
+    entries.push(chainEntry(head, {
+      timestamp: `2026-01-0${entries.length + 1}T00:00:00.000Z`,
+      actor: 'bot:EmergencyRefundBot',
+      action,
+      details: { proposalId: 'proposal_1', detail: null },
+    }));
+  }
+  return entries;
+};
+
+const verify = (entries: AuditChainEntry[], anchor?: { seq: number; hash: string }) => {
+  const verifier = new AuditChainVerifier(anchor);
+  entries.forEach(entry => verifier.check(entry));
+  return verifier.result();
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined fields', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: true, e: null }], c: undefined } }))
+      .toBe('{"a":{"d":[2,{"e":null,"f":true}]},"b":1}');
+  });
+});
+
+describe('audit chain', () => {
+  it('links each entry to the one before it', () => {
+    const [first, second] = buildChain();
+
+    expect(first).toMatchObject({ seq: 1, prevHash: GENESIS_HASH });
+    expect(second).toMatchObject({ seq: 2, prevHash: first.hash });
+    expect(verify(buildChain())).toMatchObject({ valid: true, entries: 3, head: { seq: 3 } });
+  });
+
+  it('finds an entry edited after it was written', () => {
+    const entries = buildChain();
+    entries[1] = { ...entries[1], actor: '0x0000000000000000000000000000000000000bad' };
+
+    expect(verify(entries).issues).toEqual([
+      { seq: 2, problem: 'hash-mismatch', message: 'entry 2 was modified after it was written' },
+    ]);
+  });
+
+  it('finds a removed entry', () => {
+    const [first, , third] = buildChain();
+
+    expect(verify([first, third]).issues.map(issue => issue.problem)).toEqual(['gap', 'broken-link']);
+  });
+
+  it('finds entries cut off after an anchored head', () => {
+    const entries = buildChain();
+    const { head } = verify(entries);
+
+    const result = verify(entries.slice(0, 2), head!);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]).toMatchObject({ seq: 3, problem: 'anchor-mismatch' });
+  });
+});
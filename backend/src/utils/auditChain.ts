@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+
+/**
+ * The hash chain shared by the audit log (audit_log rows) and the bots' audit trail (a JSONL file).
+ * Every entry carries its sequence number, the hash of the entry before it and its own hash: sha256
+ * over the entry without the hash, serialized with sorted keys. Editing, removing or reordering an
+ * entry breaks the chain. Both are written and verified here, so `npm run audit:verify` checks an
+ * export of either. Kept free of API imports: the bots use it too.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditChainEntry {
+  seq: number; // 1 for the first entry, no gaps
+  timestamp: string; // ISO-8601
+  actor: string;
+  action: string;
+  details: Record<string, unknown>;
+  prevHash: string;
+  hash: string; // sha256 of the entry without hash, keys sorted
+}
+
+export interface AuditChainHead {
+  seq: number;
+  hash: string;
+}
+
+export type AuditChainProblem = 'unparsable' | 'gap' | 'broken-link' | 'hash-mismatch' | 'anchor-mismatch';
+
+export interface AuditChainIssue {
+  seq: number | null;
+  line?: number; // file-based trails only
+  problem: AuditChainProblem;
+  message: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries: number;
+  unchained?: number; // audit log rows written before the chain was introduced
+  head: AuditChainHead | null; // keep it to detect later truncation (anchor)
+  issues: AuditChainIssue[];
+}
+
+/**
+ * JSON with sorted keys and without undefined fields, so equal content always hashes the same
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashChainEntry = (entry: Omit<AuditChainEntry, 'hash'>): string => {
+  const { seq, timestamp, actor, action, details, prevHash } = entry;
+  return crypto.createHash('sha256')
+    .update(canonicalJson({ seq, timestamp, actor, action, details, prevHash }))
+    .digest('hex');
+};
+
+/**
+ * The entry that follows head (null for the first entry), with its hash
+ */
+export const chainEntry = (
+  head: AuditChainHead | null,
+  entry: Omit<AuditChainEntry, 'seq' | 'prevHash' | 'hash'>,
+): AuditChainEntry => {
+  const unhashed = { ...entry, seq: head ? head.seq + 1 : 1, prevHash: head ? head.hash : GENESIS_HASH };
+  return { ...unhashed, hash: hashChainEntry(unhashed) };
+};
+
+/**
+ * Walks a chain in seq order, fed entry by entry (in batches if need be): no gaps, each prevHash
+ * equal to the hash of the entry before and each hash matching the entry's content. anchor is a head
+ * reported by an earlier verification; the entry at its seq must still be there with the same hash
+ * (catches entries cut off the end).
+ */
+export class AuditChainVerifier {
+  private readonly issues: AuditChainIssue[] = [];
+  private previous: AuditChainHead | null = null;
+  private entries = 0;
+  private anchorSeen = false;
+
+  constructor(private readonly anchor?: AuditChainHead) {}
+
+  /**
+   * Check an entry as stored; line is its line in a file-based trail
+   */
+  public check(entry: AuditChainEntry, line?: number): void {
+    this.entries++;
+    const expectedSeq = this.previous ? this.previous.seq + 1 : 1;
+    const expectedPrev = this.previous ? this.previous.hash : GENESIS_HASH;
+
+    if (entry.seq !== expectedSeq) {
+      this.report(line, entry.seq, 'gap', `expected seq ${expectedSeq}, found ${entry.seq}`);
+    }
+    if (entry.prevHash !== expectedPrev) {
+      this.report(line, entry.seq, 'broken-link', `prevHash does not match the hash of the entry before (${expectedPrev})`);
+    }
+    if (hashChainEntry(entry) !== entry.hash) {
+      this.report(line, entry.seq, 'hash-mismatch', `entry ${entry.seq} was modified after it was written`);
+    }
+    if (this.anchor && entry.seq === this.anchor.seq) {
+      this.anchorSeen = true;
+      if (entry.hash !== this.anchor.hash) {
+        this.report(line, entry.seq, 'anchor-mismatch', `entry ${entry.seq} no longer has the anchored hash ${this.anchor.hash}`);
+      }
+    }
+
+    // Carry on from what is stored, so one edit is reported once
+    this.previous = { seq: entry.seq, hash: entry.hash };
+  }
+
+  public unparsable(line: number): void {
+    this.report(line, null, 'unparsable', `line ${line} is not valid JSON`);
+  }
+
+  /**
+   * lastLine is the length of a file-based trail, where a missing anchor is reported
+   */
+  public result(lastLine?: number): AuditChainVerification {
+    if (this.anchor && !this.anchorSeen) {
+      this.report(lastLine, this.anchor.seq, 'anchor-mismatch', `entry ${this.anchor.seq} is missing (the chain was truncated)`);
+    }
+    return { valid: this.issues.length === 0, entries: this.entries, head: this.previous, issues: [...this.issues] };
+  }
+
+  private report(line: number | undefined, seq: number | null, problem: AuditChainProblem, message: string): void {
+    this.issues.push({ ...(line !== undefined && { line }), seq, problem, message });
+  }
+}
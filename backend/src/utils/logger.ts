@@ -13,6 +13,7 @@ export const logger = winston.createLogger({
     winston.format.json(),
   ),
   defaultMeta: { service: 'chain-academy-backend' },
+  silent: process.env.NODE_ENV === 'test', // jest sets NODE_ENV=test
   transports: [
     // Write all logs with importance level of 'error' or less to error.log
     new winston.transports.File({ filename: 'logs/error.log', level: 'error' }),
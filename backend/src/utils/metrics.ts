@@ -0,0 +1,115 @@
+// Prometheus text-format metrics for the API server (GET /metrics)
+
+export type MetricLabels = Record<string, string | number>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // seconds
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const seriesKey = (labels: MetricLabels): string =>
+  Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.keys(labels).sort().map((key) => `${key}="${escapeLabelValue(String(labels[key]))}"`);
+  return entries.length > 0 ? `{${entries.join(',')}}` : '';
+};
+
+interface Metric {
+  render(): string;
+}
+
+const header = (name: string, help: string, type: string): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+export class Gauge implements Metric {
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  public set(labels: MetricLabels, value: number): void {
+    this.values.set(seriesKey(labels), { labels, value });
+  }
+
+  public render(): string {
+    const samples = Array.from(this.values.values())
+      .map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    return [...header(this.name, this.help, 'gauge'), ...samples].join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private values = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  public observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  public render(): string {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bucket })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run before every scrape, for values read on demand (e.g. active WebRTC rooms)
+   */
+  public addCollector(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  public async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collector) => collector()));
+    return this.metrics.map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const httpRequestDuration = metricsRegistry.histogram(
+  'http_request_duration_seconds',
+  'API request latency by method, route and status code',
+);
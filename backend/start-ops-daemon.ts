@@ -0,0 +1,134 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Chain Academy Operations Daemon
+ * One supervised process for the payment bot, refund bot, trapped funds monitor,
+ * wallet balance monitor and key rotation, replacing their separate PM2 processes
+ */
+
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { loadBotConfig } from './bots/config/BotConfigLoader';
+import { OperationsSupervisor } from './daemon/OperationsSupervisor';
+import { DaemonControlServer } from './daemon/DaemonControlServer';
+import { createDaemonJobs, resolveDaemonKeys, DaemonContext } from './daemon/jobs';
+import { DiscordNotifier } from './bots/DiscordNotifier';
+import { createNotificationRouterFromEnv } from './bots/notifications/NotificationRouter';
+import { DiscordLogMonitor } from './monitoring/DiscordLogMonitor';
+
+dotenv.config({ path: '.env.v8' });
+
+async function main() {
+  console.log('🛠️  Starting Chain Academy Operations Daemon...\n');
+
+  const logMonitor = new DiscordLogMonitor({
+    discordWebhook: process.env.DISCORD_WEBHOOK_URL || '',
+    logLevel: 'info',
+    enableWalletMonitoring: true,
+    enableTransactionLogs: true,
+    enablePerformanceMetrics: true,
+    walletBalanceThreshold: '0.005',
+    reportInterval: 60
+  });
+
+  try {
+    console.log('🔍 Validating configuration...');
+    const { bot: config, chains: chainConfigs, source, profile, warnings } = await loadBotConfig();
+    warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+
+    const context: DaemonContext = {
+      config,
+      chainConfigs,
+      keys: await resolveDaemonKeys(config),
+      walletAddress: new ethers.Wallet(config.privateKey).address,
+      logMonitor
+    };
+    console.log(`✅ Configured for ${chainConfigs.length} chains (${source}, profile ${profile}), wallet ${context.walletAddress}`);
+
+    // Job failures go through the shared notification channels
+    const discord = new DiscordNotifier({
+      webhookUrl: config.discordWebhookUrl,
+      username: 'Chain Academy Operations Daemon',
+      enabled: config.enableDiscordNotifications
+    });
+    const supervisor = new OperationsSupervisor({ notifications: createNotificationRouterFromEnv(discord) });
+    context.restartJobs = async (names) => {
+      for (const name of names) {
+        await supervisor.restart(name);
+      }
+    };
+
+    // DAEMON_JOBS (e.g. "payment,balance") chooses the enabled jobs; otherwise each job's default applies
+    const enabledJobs = process.env.DAEMON_JOBS?.split(',').map(name => name.trim()).filter(Boolean);
+    const jobs = createDaemonJobs(context);
+    for (const name of enabledJobs || []) {
+      if (!jobs.some(job => job.name === name)) {
+        throw new Error(`❌ Unknown job in DAEMON_JOBS: ${name} (available: ${jobs.map(job => job.name).join(', ')})`);
+      }
+    }
+    for (const job of jobs) {
+      supervisor.register(job, enabledJobs ? enabledJobs.includes(job.name) : undefined);
+    }
+
+    console.log('\n🔄 Starting jobs...');
+    await supervisor.start();
+
+    let controlServer: DaemonControlServer | undefined;
+    if (process.env.DAEMON_CONTROL_PORT) {
+      controlServer = new DaemonControlServer(supervisor, {
+        port: parseInt(process.env.DAEMON_CONTROL_PORT),
+        host: process.env.DAEMON_CONTROL_HOST || '127.0.0.1',
+        token: process.env.DAEMON_CONTROL_TOKEN || ''
+      });
+      await controlServer.start();
+    }
+
+    const status = supervisor.getStatus();
+    await logMonitor.logBotStatus('running', 'Operations daemon is now running', {
+      walletAddress: context.walletAddress,
+      jobs: status.jobs.map(job => `${job.name}: ${job.enabled ? job.schedule : 'disabled'}`)
+    });
+
+    console.log('\n📊 Operations Daemon Status: RUNNING');
+    status.jobs.forEach(job => console.log(`   - ${job.name}: ${job.enabled ? `✅ ${job.schedule}` : '⏸️  disabled'}`));
+    console.log('💡 Use Ctrl+C to gracefully shutdown');
+
+    // Graceful shutdown: stop scheduling, let running jobs finish, then release everything
+    const shutdown = async (signal: string) => {
+      console.log(`\n🛑 Received ${signal}. Waiting for running jobs to finish...`);
+      await logMonitor.logBotStatus('stopping', `Operations daemon shutdown initiated by ${signal}`, {
+        uptime: process.uptime()
+      });
+
+      await controlServer?.stop();
+      await supervisor.stop();
+      logMonitor.stop();
+
+      console.log('✅ Operations daemon stopped successfully');
+      process.exit(0);
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+    process.on('unhandledRejection', async (reason) => {
+      console.error('💥 Unhandled Rejection:', reason);
+      await logMonitor.logError(new Error(String(reason)), 'Unhandled Promise Rejection');
+    });
+
+  } catch (error) {
+    console.error('❌ Operations daemon startup failed:', error);
+
+    await logMonitor.logError(error as Error, 'Operations daemon startup failure');
+    await logMonitor.logSecurity('critical', 'Operations daemon failed to start - manual intervention required', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { main };
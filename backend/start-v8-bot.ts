@@ -7,145 +7,13 @@
 
 import dotenv from 'dotenv';
 import { DailyPaymentBotV8 } from './bots/DailyPaymentBotV8';
-import { BotConfigV8, ChainConfigV8 } from './bots/V8Types';
+import { BotControlServer } from './bots/BotControlServer';
+import { loadBotConfig } from './bots/config/BotConfigLoader';
 import { DiscordLogMonitor } from './monitoring/DiscordLogMonitor';
 
 // Load V8 environment configuration
 dotenv.config({ path: '.env.v8' });
 
-function validateEnvironment() {
-  const required = [
-    'BOT_NAME',
-    'PRIVATE_KEY',
-    'DISCORD_WEBHOOK_URL',
-    'BASE_RPC_URL',
-    'OPTIMISM_RPC_URL', 
-    'ARBITRUM_RPC_URL',
-    'POLYGON_RPC_URL'
-  ];
-
-  for (const key of required) {
-    if (!process.env[key]) {
-      throw new Error(`❌ Missing required environment variable: ${key}`);
-    }
-  }
-}
-
-function createV8Config(): BotConfigV8 {
-  return {
-    name: process.env.BOT_NAME || 'ChainAcademy-PaymentBot-V8',
-    version: process.env.BOT_VERSION || '8.0.0',
-    environment: process.env.ENVIRONMENT || 'mainnet',
-    enabled: process.env.BOT_ENABLED === 'true',
-    privateKey: process.env.PRIVATE_KEY!,
-    cronSchedule: process.env.CRON_SCHEDULE || '0 */6 * * *',
-    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL!,
-    enableDiscordNotifications: process.env.ENABLE_DISCORD_NOTIFICATIONS === 'true',
-    
-    // V8 Enhanced features
-    v8Features: {
-      enhancedMonitoring: process.env.V8_FEATURES_ENHANCED_MONITORING === 'true',
-      autoRecovery: process.env.V8_FEATURES_AUTO_RECOVERY === 'true',
-      disputeHandling: process.env.V8_FEATURES_DISPUTE_HANDLING === 'true',
-      multiVersionSupport: process.env.V8_FEATURES_MULTI_VERSION_SUPPORT === 'true',
-      precisionPayments: process.env.V8_FEATURES_PRECISION_PAYMENTS === 'true'
-    },
-    
-    // V8 Processing settings
-    v8Settings: {
-      maxRecoveryAttempts: parseInt(process.env.V8_MAX_RECOVERY_ATTEMPTS || '3'),
-      healthCheckInterval: parseInt(process.env.V8_HEALTH_CHECK_INTERVAL || '300000'),
-      batchProcessingSize: parseInt(process.env.V8_BATCH_PROCESSING_SIZE || '10'),
-      emergencyThresholds: {
-        maxStateTransitions: parseInt(process.env.V8_MAX_STATE_TRANSITIONS || '20'),
-        maxPauseTime: parseInt(process.env.V8_MAX_PAUSE_TIME || '86400'),
-        maxDisputeTime: parseInt(process.env.V8_MAX_DISPUTE_TIME || '604800')
-      }
-    },
-    
-    // V8 Monitoring
-    monitoring: {
-      enableRealTimeAlerts: process.env.V8_ENABLE_REAL_TIME_ALERTS === 'true',
-      enablePredictiveAlerts: process.env.V8_ENABLE_PREDICTIVE_ALERTS === 'true',
-      enablePerformanceMetrics: process.env.V8_ENABLE_PERFORMANCE_METRICS === 'true',
-      healthCheckEndpoints: (process.env.HEALTH_CHECK_ENDPOINTS || '').split(',').filter(url => url.trim())
-    },
-    
-    // Session storage
-    sessionStoragePath: process.env.SESSION_STORAGE_PATH || './data/session-tracker-v8.json'
-  };
-}
-
-function createChainConfigs(): ChainConfigV8[] {
-  const migrationMode = process.env.MIGRATION_MODE as 'v7-only' | 'dual-support' | 'v8-only' || 'dual-support';
-  
-  return [
-    // Base
-    {
-      chainId: 8453,
-      name: 'Base',
-      rpcUrl: process.env.BASE_RPC_URL!,
-      contractAddress: process.env.BASE_CONTRACT_V7!,
-      contractAddressV8: process.env.BASE_CONTRACT_V8 || '',
-      v8Enabled: !!process.env.BASE_CONTRACT_V8,
-      migrationMode,
-      rpcSettings: {
-        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
-        retries: parseInt(process.env.RPC_RETRIES || '3'),
-        fallbackRpcs: []
-      }
-    },
-    
-    // Optimism
-    {
-      chainId: 10,
-      name: 'Optimism', 
-      rpcUrl: process.env.OPTIMISM_RPC_URL!,
-      contractAddress: process.env.OPTIMISM_CONTRACT_V7!,
-      contractAddressV8: process.env.OPTIMISM_CONTRACT_V8 || '',
-      v8Enabled: !!process.env.OPTIMISM_CONTRACT_V8,
-      migrationMode,
-      rpcSettings: {
-        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
-        retries: parseInt(process.env.RPC_RETRIES || '3'),
-        fallbackRpcs: []
-      }
-    },
-    
-    // Arbitrum
-    {
-      chainId: 42161,
-      name: 'Arbitrum',
-      rpcUrl: process.env.ARBITRUM_RPC_URL!,
-      contractAddress: process.env.ARBITRUM_CONTRACT_V7!,
-      contractAddressV8: process.env.ARBITRUM_CONTRACT_V8 || '',
-      v8Enabled: !!process.env.ARBITRUM_CONTRACT_V8,
-      migrationMode,
-      rpcSettings: {
-        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
-        retries: parseInt(process.env.RPC_RETRIES || '3'),
-        fallbackRpcs: []
-      }
-    },
-    
-    // Polygon
-    {
-      chainId: 137,
-      name: 'Polygon',
-      rpcUrl: process.env.POLYGON_RPC_URL!,
-      contractAddress: process.env.POLYGON_CONTRACT_V7!,
-      contractAddressV8: process.env.POLYGON_CONTRACT_V8 || '',
-      v8Enabled: !!process.env.POLYGON_CONTRACT_V8,
-      migrationMode,
-      rpcSettings: {
-        timeout: parseInt(process.env.RPC_TIMEOUT || '30000'),
-        retries: parseInt(process.env.RPC_RETRIES || '3'),
-        fallbackRpcs: []
-      }
-    }
-  ];
-}
-
 async function main() {
   console.log(`
 ╔═══════════════════════════════════════════════════╗
@@ -172,14 +40,13 @@ async function main() {
 
   try {
     console.log('🔍 Step 1: Validating V8 configuration...');
-    validateEnvironment();
-    console.log('✅ V8 configuration validation passed');
+    const { bot: config, chains: chainConfigs, source, profile, warnings } = await loadBotConfig();
+    console.log(`✅ V8 configuration validation passed (${source}, profile ${profile})`);
+    warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
 
     await logMonitor.logBotStatus('starting', 'V8 Bot validation completed successfully');
 
     console.log('\n🔧 Step 2: Creating V8 bot instance...');
-    const config = createV8Config();
-    const chainConfigs = createChainConfigs();
 
     console.log(`📊 Configured for ${chainConfigs.length} chains:`);
     const chainSummary = chainConfigs.map(chain => {
@@ -225,12 +92,44 @@ async function main() {
       issues: healthInfo.issues
     });
 
+    console.log('\n🔎 Step 4: Back-filling session discovery...');
+    await bot.backfillSessions();
+
     console.log('\n✅ V8 bot initialization completed successfully!');
-    console.log('🔄 Starting V8 automated payment processing...');
+
+    // --dry-run: simulate a single run, print the plan and exit
+    if (process.argv.includes('--dry-run')) {
+      console.log('🧪 Dry run: simulating one execution, no transactions will be sent...');
+      const record = await bot.executeDaily(true);
+      const plan = bot.getLastPlan();
+
+      if (!record?.success || !plan) {
+        console.error(`❌ Dry run failed: ${record?.error || 'no plan produced'}`);
+        process.exit(1);
+      }
+
+      console.log(`📋 ${plan.executable}/${plan.totalSessions} sessions would be processed, ${plan.failing} would revert`);
+      console.log(`📄 Plan written to ${record.planPath}`);
+      logMonitor.stop();
+      process.exit(0);
+    }
+
+    console.log(`🔄 Starting V8 automated payment processing${config.dryRun ? ' (DRY RUN - nothing will be broadcast)' : ''}...`);
 
     // Start the scheduler
     bot.startScheduler();
 
+    // Control interface for the backend admin API (/api/bot)
+    let controlServer: BotControlServer | undefined;
+    if (process.env.BOT_CONTROL_PORT) {
+      controlServer = new BotControlServer(bot, {
+        port: parseInt(process.env.BOT_CONTROL_PORT),
+        host: process.env.BOT_CONTROL_HOST || '127.0.0.1',
+        token: process.env.BOT_CONTROL_TOKEN || ''
+      });
+      await controlServer.start();
+    }
+
     console.log('\n📊 V8 Bot Status: RUNNING');
     console.log('💡 Use Ctrl+C to gracefully shutdown');
 
@@ -252,6 +151,7 @@ async function main() {
       });
       
       bot.stopScheduler();
+      await controlServer?.stop();
       logMonitor.stop();
       
       setTimeout(async () => {
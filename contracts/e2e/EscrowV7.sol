@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title EscrowV7
+ * @dev Compilation entry point for the backend bot end-to-end tests (hardhat.e2e.config.js)
+ */
+
+import "../contracts/ProgressiveEscrowV7_RemixOptimized.sol";
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockToken
+ * @dev Compilation entry point for the backend bot end-to-end tests (hardhat.e2e.config.js):
+ * the ERC20 used for token sessions
+ */
+
+import "../contracts/MockERC20.sol";
@@ -0,0 +1,49 @@
+require("@nomicfoundation/hardhat-toolbox");
+const { subtask } = require("hardhat/config");
+const { TASK_COMPILE_GET_REMAPPINGS } = require("hardhat/builtin-tasks/task-names");
+
+/**
+ * Hardhat config for the backend bot end-to-end tests (backend/bots/tests/e2e)
+ * Compiles only the contracts the bots talk to (the entry points in e2e/) into their
+ * own artifacts, and runs the local node 30 days in the past: the bots judge session age
+ * by wall clock, the contracts by block time, so sessions can be aged on-chain with
+ * evm_increaseTime without ever getting ahead of the bots.
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+// The V8 escrow is deployed from OpenZeppelin 4 paths (security/Pausable, security/ReentrancyGuard);
+// the installed OpenZeppelin 5 has them under utils/. Remapped here only, so the escrow source
+// stays what was verified on chain.
+subtask(TASK_COMPILE_GET_REMAPPINGS).setAction(async (_args, _hre, runSuper) => ({
+  ...(await runSuper()),
+  "@openzeppelin/contracts/security/": "@openzeppelin/contracts/utils/"
+}));
+
+/** @type import('hardhat/config').HardhatUserConfig */
+module.exports = {
+  solidity: {
+    version: "0.8.30",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 100
+      },
+      viaIR: true,
+      metadata: {
+        bytecodeHash: "none"
+      }
+    }
+  },
+  paths: {
+    sources: "./e2e",
+    artifacts: "./artifacts-e2e",
+    cache: "./cache-e2e"
+  },
+  networks: {
+    hardhat: {
+      chainId: 31337,
+      initialDate: new Date(Date.now() - 30 * DAY).toISOString(),
+      allowUnlimitedContractSize: true
+    }
+  }
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import {
+  ShieldExclamationIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import { useEmergencyProposals } from '../hooks/useEmergencyProposals';
+import { EmergencyProposal, EmergencyProposalStatus } from '../services/emergencyProposalApi';
+
+const STATUS_STYLES: Record<EmergencyProposalStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  executed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-500'
+};
+
+const shorten = (value: string): string => `${value.slice(0, 10)}…${value.slice(-6)}`;
+
+export const EmergencyProposals: React.FC = () => {
+  const {
+    proposals,
+    approvers,
+    threshold,
+    isApprover,
+    loading,
+    error,
+    sign,
+    reject
+  } = useEmergencyProposals();
+
+  const open = proposals.filter(proposal => proposal.status === 'pending' || proposal.status === 'approved');
+  const closed = proposals.filter(proposal => proposal.status !== 'pending' && proposal.status !== 'approved').slice(0, 10);
+
+  const handleReject = (proposal: EmergencyProposal) => {
+    const note = window.prompt(`Reject the emergency release of session ${shorten(proposal.sessionId)}? Reason (optional):`);
+    if (note !== null) {
+      reject(proposal, note.trim() || undefined);
+    }
+  };
+
+  const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+  const renderProposal = (proposal: EmergencyProposal) => {
+    const signed = proposal.signatures.map(entry => entry.signer);
+    const canSign = isApprover && proposal.status === 'pending';
+    const canReject = isApprover && (proposal.status === 'pending' || (proposal.status === 'approved' && !proposal.transactionHash));
+
+    return (
+      <div key={proposal.id} className="border rounded-lg p-4">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <p className="font-medium text-gray-900">{proposal.reason}</p>
+            <p className="text-xs text-gray-500">
+              {proposal.id} · proposed by {proposal.proposedBy} · {formatDate(proposal.createdAt)}
+            </p>
+          </div>
+          <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[proposal.status]}`}>
+            {proposal.status}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+          <div>
+            <span className="text-gray-600">Chain / session:</span>
+            <p className="font-medium">{proposal.chainId} / {shorten(proposal.sessionId)}</p>
+          </div>
+          <div>
+            <span className="text-gray-600">Recipient:</span>
+            <p className="font-medium">{shorten(proposal.recipient)}</p>
+          </div>
+          <div>
+            <span className="text-gray-600">Amount:</span>
+            <p className="font-medium">{proposal.amount} of {shorten(proposal.token)}</p>
+          </div>
+          <div>
+            <span className="text-gray-600">Signatures:</span>
+            <p className="font-medium">
+              {proposal.signatures.length} of {proposal.threshold} · expires {formatDate(proposal.expiresAt)}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded p-3 text-xs text-gray-700 mb-3">
+          <p className="font-medium mb-1">Evidence (hash {shorten(proposal.evidenceHash)})</p>
+          {Object.entries(proposal.evidence).map(([key, value]) => (
+            <p key={key}>{key}: {String(value)}</p>
+          ))}
+        </div>
+
+        <details className="text-xs text-gray-600 mb-3">
+          <summary className="cursor-pointer">History</summary>
+          {proposal.history.map((event, index) => (
+            <p key={index}>
+              {formatDate(event.at)} · {event.event} · {event.actor}{event.detail ? ` · ${event.detail}` : ''}
+            </p>
+          ))}
+        </details>
+
+        {(canSign || canReject) && (
+          <div className="flex space-x-2">
+            {canSign && (
+              <button
+                onClick={() => sign(proposal)}
+                disabled={loading || signed.length >= proposal.threshold}
+                className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <CheckCircleIcon className="w-4 h-4 inline mr-1" />
+                Sign release
+              </button>
+            )}
+            {canReject && (
+              <button
+                onClick={() => handleReject(proposal)}
+                disabled={loading}
+                className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <XCircleIcon className="w-4 h-4 inline mr-1" />
+                Reject
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2 rounded-full border-2 border-red-500 bg-red-50">
+          <ShieldExclamationIcon className="w-5 h-5 text-red-500" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Emergency Releases</h3>
+          <p className="text-sm text-gray-600">
+            {threshold} of {approvers.length} approver signatures required
+            {!isApprover && ' · connect an approver wallet to sign'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-600 mb-4">
+          <ExclamationTriangleIcon className="w-5 h-5" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {open.length === 0 ? (
+        <p className="text-sm text-gray-500">No emergency releases are waiting for approval.</p>
+      ) : (
+        <div className="space-y-4">{open.map(renderProposal)}</div>
+      )}
+
+      {closed.length > 0 && (
+        <div className="border-t pt-4 mt-6">
+          <h4 className="text-md font-semibold text-gray-900 mb-3">Recent Decisions</h4>
+          <div className="space-y-4">{closed.map(renderProposal)}</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { 
   ClockIcon, 
   CheckCircleIcon, 
@@ -7,97 +7,21 @@ import {
   PauseIcon,
   ArrowPathIcon
 } from '@heroicons/react/24/outline';
-
-interface BotStatus {
-  isRunning: boolean;
-  isPaused: boolean;
-  lastExecution: {
-    id: string;
-    startTime: number;
-    endTime: number;
-    success: boolean;
-    totalProcessed: number;
-    successfulPayments: number;
-    failedPayments: number;
-  } | null;
-  nextExecution: string;
-  uptime: number;
-}
-
-interface BotMetrics {
-  totalExecutions: number;
-  successfulExecutions: number;
-  failedExecutions: number;
-  recentExecutions: any[];
-}
+import { usePaymentBot } from '../hooks/usePaymentBot';
 
 export const PaymentBotStatus: React.FC = () => {
-  const [status, setStatus] = useState<BotStatus | null>(null);
-  const [metrics, setMetrics] = useState<BotMetrics | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchBotStatus();
-    const interval = setInterval(fetchBotStatus, 30000); // Update every 30 seconds
-    return () => clearInterval(interval);
-  }, []);
-
-  const fetchBotStatus = async () => {
-    try {
-      const [statusResponse, metricsResponse] = await Promise.all([
-        fetch('/api/bot/health'),
-        fetch('/api/bot/status')
-      ]);
-      
-      if (!statusResponse.ok || !metricsResponse.ok) {
-        throw new Error('Failed to fetch bot status');
-      }
-      
-      const statusData = await statusResponse.json();
-      const metricsData = await metricsResponse.json();
-      
-      setStatus(statusData);
-      setMetrics(metricsData.execution);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleManualExecution = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch('/api/bot/execute', { method: 'POST' });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to execute bot');
-      }
-      
-      // Refresh status after execution
-      await fetchBotStatus();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Execution failed');
-    }
-  };
-
-  const handlePauseResume = async () => {
-    try {
-      const action = status?.isPaused ? 'resume' : 'pause';
-      const response = await fetch(`/api/bot/${action}`, { method: 'POST' });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to ${action} bot`);
-      }
-      
-      await fetchBotStatus();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update bot status');
-    }
-  };
+  const {
+    status,
+    metrics,
+    loading,
+    error,
+    refetch: fetchBotStatus,
+    executeManually: handleManualExecution,
+    pauseBot,
+    resumeBot
+  } = usePaymentBot();
+
+  const handlePauseResume = () => (status?.isPaused ? resumeBot() : pauseBot());
 
   const formatUptime = (seconds: number): string => {
     const days = Math.floor(seconds / 86400);
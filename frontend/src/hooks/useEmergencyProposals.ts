@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useSignTypedData } from 'wagmi';
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  EmergencyProposal,
+  EmergencyProposalList,
+  fetchEmergencyProposals,
+  rejectEmergencyProposal,
+  signEmergencyProposal
+} from '../services/emergencyProposalApi';
+
+interface UseEmergencyProposalsReturn {
+  proposals: EmergencyProposal[];
+  approvers: string[];
+  threshold: number;
+  isApprover: boolean; // the connected wallet's signature counts
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  sign: (proposal: EmergencyProposal) => Promise<void>;
+  reject: (proposal: EmergencyProposal, note?: string) => Promise<void>;
+}
+
+/**
+ * Hook for the emergency release proposals waiting on the approvers
+ * Signing asks the connected wallet for an EIP-712 signature of exactly the message the bot verifies
+ */
+export const useEmergencyProposals = (): UseEmergencyProposalsReturn => {
+  const { getAccessToken } = useAuthContext();
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const [list, setList] = useState<EmergencyProposalList>({ approvers: [], threshold: 0, proposals: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requireAccessToken = useCallback(async (): Promise<string> => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new Error('Sign in with an admin wallet to review emergency releases');
+    }
+    return accessToken;
+  }, [getAccessToken]);
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setList(await fetchEmergencyProposals(await requireAccessToken()));
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch emergency proposals';
+      setError(errorMessage);
+      console.error('Failed to fetch emergency proposals:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [requireAccessToken]);
+
+  const sign = useCallback(async (proposal: EmergencyProposal) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { domain, types, primaryType, message } = proposal.typedData;
+      const signature = await signTypedDataAsync({
+        domain,
+        types,
+        primaryType,
+        message: {
+          ...message,
+          amount: BigInt(message.amount),
+          expiresAt: BigInt(message.expiresAt)
+        }
+      });
+      await signEmergencyProposal(proposal.id, signature, await requireAccessToken());
+
+      await fetchProposals();
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to sign the emergency release';
+      setError(errorMessage);
+      console.error('Sign emergency proposal error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchProposals, requireAccessToken, signTypedDataAsync]);
+
+  const reject = useCallback(async (proposal: EmergencyProposal, note?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      await rejectEmergencyProposal(proposal.id, note, await requireAccessToken());
+
+      await fetchProposals();
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reject the emergency release';
+      setError(errorMessage);
+      console.error('Reject emergency proposal error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchProposals, requireAccessToken]);
+
+  // Initial fetch and polling, like the payment bot status
+  useEffect(() => {
+    fetchProposals();
+
+    const interval = setInterval(fetchProposals, 30000);
+
+    return () => clearInterval(interval);
+  }, [fetchProposals]);
+
+  return {
+    proposals: list.proposals,
+    approvers: list.approvers,
+    threshold: list.threshold,
+    isApprover: !!address && list.approvers.includes(address.toLowerCase()),
+    loading,
+    error,
+    refetch: fetchProposals,
+    sign,
+    reject
+  };
+};
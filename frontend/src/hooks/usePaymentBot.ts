@@ -1,27 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
-
-interface PaymentBotStatus {
-  isRunning: boolean;
-  isPaused: boolean;
-  lastExecution: {
-    id: string;
-    startTime: number;
-    endTime: number;
-    success: boolean;
-    totalProcessed: number;
-    successfulPayments: number;
-    failedPayments: number;
-  } | null;
-  nextExecution: string;
-  uptime: number;
-}
-
-interface PaymentBotMetrics {
-  totalExecutions: number;
-  successfulExecutions: number;
-  failedExecutions: number;
-  recentExecutions: any[];
-}
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  PaymentBotExecution,
+  PaymentBotMetrics,
+  PaymentBotStatus,
+  executeBot,
+  fetchBotHistory,
+  fetchBotMetrics,
+  fetchBotStatus,
+  pauseBot as pauseBotRequest,
+  resumeBot as resumeBotRequest
+} from '../services/botApi';
 
 interface UsePaymentBotReturn {
   status: PaymentBotStatus | null;
@@ -39,34 +28,33 @@ interface UsePaymentBotReturn {
  * Provides real-time bot status, metrics, and control functions
  */
 export const usePaymentBot = (): UsePaymentBotReturn => {
+  const { getAccessToken } = useAuthContext();
   const [status, setStatus] = useState<PaymentBotStatus | null>(null);
   const [metrics, setMetrics] = useState<PaymentBotMetrics | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const requireAccessToken = useCallback(async (): Promise<string> => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new Error('Sign in with an admin wallet to manage the payment bot');
+    }
+    return accessToken;
+  }, [getAccessToken]);
+
   const fetchBotData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const [statusResponse, metricsResponse] = await Promise.all([
-        fetch('/api/bot/health'),
-        fetch('/api/bot/status')
+      const accessToken = await requireAccessToken();
+      const [statusData, metricsData] = await Promise.all([
+        fetchBotStatus(accessToken),
+        fetchBotMetrics(accessToken)
       ]);
       
-      if (!statusResponse.ok) {
-        throw new Error(`Health check failed: ${statusResponse.status}`);
-      }
-      
-      if (!metricsResponse.ok) {
-        throw new Error(`Metrics fetch failed: ${metricsResponse.status}`);
-      }
-      
-      const statusData = await statusResponse.json();
-      const metricsData = await metricsResponse.json();
-      
       setStatus(statusData);
-      setMetrics(metricsData.execution);
+      setMetrics(metricsData);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -75,27 +63,15 @@ export const usePaymentBot = (): UsePaymentBotReturn => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [requireAccessToken]);
 
   const executeManually = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/bot/execute', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Manual execution failed');
-      }
-      
-      const result = await response.json();
-      console.log('Manual execution result:', result);
+      // The bot answers once the run has started; the status shows when it finishes
+      setStatus(await executeBot(await requireAccessToken()));
       
       // Refetch data to get updated status
       await fetchBotData();
@@ -107,27 +83,15 @@ export const usePaymentBot = (): UsePaymentBotReturn => {
     } finally {
       setLoading(false);
     }
-  }, [fetchBotData]);
+  }, [fetchBotData, requireAccessToken]);
 
   const pauseBot = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/bot/pause', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to pause bot');
-      }
-      
-      // Update local status immediately for better UX
-      setStatus(prev => prev ? { ...prev, isPaused: true } : null);
+      // Show the status the bot reported right away
+      setStatus(await pauseBotRequest(await requireAccessToken()));
       
       // Refetch to confirm
       await fetchBotData();
@@ -139,27 +103,15 @@ export const usePaymentBot = (): UsePaymentBotReturn => {
     } finally {
       setLoading(false);
     }
-  }, [fetchBotData]);
+  }, [fetchBotData, requireAccessToken]);
 
   const resumeBot = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/bot/resume', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to resume bot');
-      }
-      
-      // Update local status immediately for better UX
-      setStatus(prev => prev ? { ...prev, isPaused: false } : null);
+      // Show the status the bot reported right away
+      setStatus(await resumeBotRequest(await requireAccessToken()));
       
       // Refetch to confirm
       await fetchBotData();
@@ -171,7 +123,7 @@ export const usePaymentBot = (): UsePaymentBotReturn => {
     } finally {
       setLoading(false);
     }
-  }, [fetchBotData]);
+  }, [fetchBotData, requireAccessToken]);
 
   // Initial fetch and setup polling
   useEffect(() => {
@@ -214,7 +166,8 @@ export const usePaymentBot = (): UsePaymentBotReturn => {
  * Hook for monitoring bot execution history
  */
 export const usePaymentBotHistory = (limit: number = 50) => {
-  const [history, setHistory] = useState<any[]>([]);
+  const { getAccessToken } = useAuthContext();
+  const [history, setHistory] = useState<PaymentBotExecution[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -223,14 +176,12 @@ export const usePaymentBotHistory = (limit: number = 50) => {
       setLoading(true);
       setError(null);
       
-      const response = await fetch(`/api/bot/history/${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch history: ${response.status}`);
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error('Sign in with an admin wallet to view the bot history');
       }
       
-      const data = await response.json();
-      setHistory(data.executions || []);
+      setHistory(await fetchBotHistory(limit, accessToken));
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch history';
@@ -239,7 +190,7 @@ export const usePaymentBotHistory = (limit: number = 50) => {
     } finally {
       setLoading(false);
     }
-  }, [limit]);
+  }, [limit, getAccessToken]);
 
   useEffect(() => {
     fetchHistory();
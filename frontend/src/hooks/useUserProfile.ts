@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
+import { getCachedMentorships } from '../services/mentorshipApi';
 
 export interface UserProfile {
   displayName: string;
@@ -176,14 +177,14 @@ export const useUserProfile = () => {
     });
     
     // Check mentorships
-    const mentorships = JSON.parse(localStorage.getItem('global_mentorships') || '[]');
-    console.log(`📋 Total mentorships: ${mentorships.length}`);
+    const mentorships = getCachedMentorships();
+    console.log(`📋 Total mentorships (cached catalog): ${mentorships.length}`);
     
-    mentorships.forEach((mentorship: any, index: number) => {
+    mentorships.forEach((mentorship, index) => {
       console.log(`${index + 1}. Mentorship ID: ${mentorship.id}`);
       console.log(`   Address: ${mentorship.mentorAddress}`);
-      console.log(`   Saved Name: ${mentorship.mentorName || 'EMPTY'}`);
-      console.log(`   Saved Bio: ${mentorship.mentorBio || 'EMPTY'}`);
+      console.log(`   Server Name: ${mentorship.mentor?.username || 'EMPTY'}`);
+      console.log(`   Server Bio: ${mentorship.mentor?.bio || 'EMPTY'}`);
       console.log('   ---');
     });
     
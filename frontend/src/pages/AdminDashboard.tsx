@@ -1,5 +1,6 @@
 import React from 'react';
 import { PaymentBotStatus } from '../components/PaymentBotStatus';
+import { EmergencyProposals } from '../components/EmergencyProposals';
 import { usePaymentBot, usePaymentBotHealth } from '../hooks/usePaymentBot';
 import {
   ExclamationTriangleIcon,
@@ -69,6 +70,11 @@ const AdminDashboard: React.FC = () => {
           <PaymentBotStatus />
         </div>
 
+        {/* Emergency releases waiting for the approvers' signatures */}
+        <div className="mb-8">
+          <EmergencyProposals />
+        </div>
+
         {/* Quick Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow p-6">
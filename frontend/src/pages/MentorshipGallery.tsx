@@ -18,9 +18,11 @@ import WalletConnectionV2 from '../components/WalletConnectionV2';
 import UserAvatar from '../components/UserAvatar';
 import SelfBookingErrorModal from '../components/SelfBookingErrorModal';
 import { useCurrencyConverter } from '../hooks/useCurrencyConverter';
+import { fetchMentorAvailability, fetchMentorships, getCachedMentorships, subscribeMentorships } from '../services/mentorshipApi';
+import { MentorAvailability, Mentorship } from '../types';
 
 interface Mentor {
-  id: number;
+  id: string;
   name: string;
   avatar?: string;
   bio?: string;
@@ -41,6 +43,17 @@ interface Mentor {
   prerequisites?: string;
 }
 
+// Mentor profile saved locally by the dashboard, used when the backend has no profile
+const getLocalProfile = (mentorAddress: string): { displayName?: string; bio?: string } | null => {
+  try {
+    const savedProfile = localStorage.getItem(`profile_${mentorAddress.toLowerCase()}`);
+    return savedProfile ? JSON.parse(savedProfile) : null;
+  } catch (error) {
+    console.error('Error loading mentor profile:', error);
+    return null;
+  }
+};
+
 const MentorshipGallery: React.FC = () => {
   const navigate = useNavigate();
   const { isConnected, address } = useAccount();
@@ -70,62 +83,6 @@ const MentorshipGallery: React.FC = () => {
     }
   };
   
-  // Force update existing mentorships on component mount
-  React.useEffect(() => {
-    const forceUpdateMentorships = () => {
-      const globalMentorships = JSON.parse(localStorage.getItem('global_mentorships') || '[]');
-      let hasUpdates = false;
-
-      const updatedMentorships = globalMentorships.map((mentorship: any) => {
-        let updated = { ...mentorship };
-        
-        // Force update name if it contains 0x (wallet address)
-        if (mentorship.mentorAddress && (!mentorship.mentorName || mentorship.mentorName.includes('0x'))) {
-          const savedProfile = localStorage.getItem(`profile_${mentorship.mentorAddress.toLowerCase()}`);
-          if (savedProfile) {
-            try {
-              const profile = JSON.parse(savedProfile);
-              if (profile.displayName) {
-                updated.mentorName = profile.displayName;
-                hasUpdates = true;
-                console.log(`🔄 FORCE UPDATE: ${mentorship.mentorAddress} → ${profile.displayName}`);
-              }
-            } catch (error) {
-              console.error('Error parsing profile:', error);
-            }
-          }
-        }
-
-        // Force update bio if missing
-        if (mentorship.mentorAddress && !mentorship.mentorBio) {
-          const savedProfile = localStorage.getItem(`profile_${mentorship.mentorAddress.toLowerCase()}`);
-          if (savedProfile) {
-            try {
-              const profile = JSON.parse(savedProfile);
-              if (profile.bio) {
-                updated.mentorBio = profile.bio;
-                hasUpdates = true;
-                console.log(`🔄 FORCE UPDATE BIO: ${mentorship.mentorAddress}`);
-              }
-            } catch (error) {
-              console.error('Error parsing profile:', error);
-            }
-          }
-        }
-
-        return updated;
-      });
-
-      if (hasUpdates) {
-        console.log('💾 FORCE SAVING updated mentorships');
-        localStorage.setItem('global_mentorships', JSON.stringify(updatedMentorships));
-      }
-    };
-
-    // Run force update on mount
-    forceUpdateMentorships();
-  }, []);
-  
   // Booking modal states
   const [showBookingModal, setShowBookingModal] = useState(false);
   const [selectedMentor, setSelectedMentor] = useState<Mentor | null>(null);
@@ -158,155 +115,81 @@ const MentorshipGallery: React.FC = () => {
     }
   };
 
-  // Load mentorships from localStorage and combine with mock data
-  const [allMentors, setAllMentors] = useState<Mentor[]>([]);
-
-  React.useEffect(() => {
-    const loadMentorships = () => {
-      // Get created mentorships from localStorage
-      const globalMentorships = JSON.parse(localStorage.getItem('global_mentorships') || '[]');
-      
-      // No mock mentors - only show real user-created mentorships
-
-      // Helper function to get mentor display name from profile
-      const getMentorDisplayName = (mentorship: any): string => {
-        // First try: use saved mentorName
-        if (mentorship.mentorName) return mentorship.mentorName;
-        
-        // Second try: load from profile using mentorAddress
-        if (mentorship.mentorAddress) {
-          try {
-            const savedProfile = localStorage.getItem(`profile_${mentorship.mentorAddress.toLowerCase()}`);
-            if (savedProfile) {
-              const profile = JSON.parse(savedProfile);
-              if (profile.displayName) {
-                console.log(`👤 Found profile name for ${mentorship.mentorAddress}: ${profile.displayName}`);
-                return profile.displayName;
-              }
-            }
-          } catch (error) {
-            console.error('Error loading mentor profile:', error);
-          }
-        }
-        
-        // Fallback: truncated wallet address
-        return mentorship.mentorAddress ? 
-          `${mentorship.mentorAddress.slice(0, 6)}...${mentorship.mentorAddress.slice(-4)}` : 
-          'Unknown Mentor';
-      };
-
-      // Helper function to get mentor bio from profile
-      const getMentorBio = (mentorship: any): string => {
-        // First try: use saved mentorBio if exists
-        if (mentorship.mentorBio) return mentorship.mentorBio;
-        
-        // Second try: load from profile using mentorAddress
-        if (mentorship.mentorAddress) {
-          try {
-            const savedProfile = localStorage.getItem(`profile_${mentorship.mentorAddress.toLowerCase()}`);
-            if (savedProfile) {
-              const profile = JSON.parse(savedProfile);
-              if (profile.bio) {
-                console.log(`👤 Found profile bio for ${mentorship.mentorAddress}:`, profile.bio.substring(0, 50) + '...');
-                return profile.bio;
-              }
-            }
-          } catch (error) {
-            console.error('Error loading mentor profile:', error);
-          }
-        }
-        
-        // Fallback: use mentorship description
-        return mentorship.description || 'No bio available';
-      };
-
-      // Update existing mentorships with profile data if missing
-      const updatedGlobalMentorships = globalMentorships.map((mentorship: any) => {
-        let updatedMentorship = { ...mentorship };
-
-        // Update mentorName if missing or outdated
-        if ((!mentorship.mentorName || mentorship.mentorName.includes('0x')) && mentorship.mentorAddress) {
-          const newName = getMentorDisplayName(mentorship);
-          if (newName !== mentorship.mentorName) {
-            updatedMentorship.mentorName = newName;
-            console.log(`🔄 Updating mentor name for ${mentorship.mentorAddress}: ${newName}`);
-          }
-        }
-
-        // Update mentorBio if missing
-        if (!mentorship.mentorBio && mentorship.mentorAddress) {
-          const newBio = getMentorBio(mentorship);
-          if (newBio && newBio !== mentorship.description) {
-            updatedMentorship.mentorBio = newBio;
-            console.log(`🔄 Updating mentor bio for ${mentorship.mentorAddress}`);
-          }
-        }
-
-        return updatedMentorship;
-      });
-
-      // Save updated mentorships if any changes were made
-      const hasChanges = updatedGlobalMentorships.some((mentorship: any, index: number) => 
-        JSON.stringify(mentorship) !== JSON.stringify(globalMentorships[index])
-      );
+  // Shared mentorship catalog, loaded from the backend
+  const [catalog, setCatalog] = useState<Mentorship[]>(getCachedMentorships);
+  const [isLoadingCatalog, setIsLoadingCatalog] = useState(false);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  // Bumped when a local profile changes so mentor names are re-resolved
+  const [profileVersion, setProfileVersion] = useState(0);
 
-      if (hasChanges) {
-        console.log('💾 Saving updated mentorships with profile data');
-        localStorage.setItem('global_mentorships', JSON.stringify(updatedGlobalMentorships));
-      }
+  const loadCatalog = React.useCallback(async (force = false) => {
+    setIsLoadingCatalog(true);
+    try {
+      setCatalog(await fetchMentorships(force));
+      setCatalogError(null);
+    } catch (error) {
+      console.error('Error loading mentorships:', error);
+      setCatalogError(error instanceof Error ? error.message : 'Failed to load mentorships');
+    } finally {
+      setIsLoadingCatalog(false);
+    }
+  }, []);
 
-      // Convert created mentorships to Mentor format
-      const userCreatedMentors: Mentor[] = updatedGlobalMentorships.map((mentorship: any) => {
-        const mentorAddress = mentorship.mentorAddress;
-        const realRating = mentorAddress ? getAverageRatingForMentor(mentorAddress) : 0;
-        const reviewsForMentor = mentorAddress ? getReviewsByMentor(mentorAddress) : [];
-        
-        return {
-          id: mentorship.id,
-          name: getMentorDisplayName(mentorship),
-          bio: getMentorBio(mentorship),
-          title: mentorship.title,
-          description: mentorship.description,
-          rating: realRating, // Use real rating from reviews
-          reviewCount: reviewsForMentor.length, // Use real review count
-          sessionsCompleted: mentorship.sessionsCompleted || 0,
-          priceUSDC: mentorship.priceUSDC,
-          priceETH: mentorship.priceETH, // ULTRATHINK: Add ETH pricing
-          preferredToken: mentorship.preferredToken || 'USDC', // ULTRATHINK: Default to USDC
-          duration: mentorship.duration,
-          category: mentorship.category,
-          skills: mentorship.skills || [],
-          isOnline: mentorship.isOnline !== undefined ? mentorship.isOnline : true,
-          responseTime: mentorship.responseTime || '< 1 hour',
-          mentorAddress: mentorship.mentorAddress, // Add mentor address for profile image lookup
-          prerequisites: mentorship.prerequisites // Add prerequisites from mentorship data
-        };
-      });
+  React.useEffect(() => {
+    const unsubscribe = subscribeMentorships(setCatalog);
+    loadCatalog();
 
-      // Only show real user-created mentors
-      setAllMentors(userCreatedMentors);
+    // Pick up changes made elsewhere when the user comes back to the tab (cache TTL applies)
+    const handleFocus = () => {
+      loadCatalog();
     };
 
-    loadMentorships();
-
-    // Listen for localStorage changes to update in real-time
+    // Reload mentor names when any local profile changes
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'global_mentorships') {
-        loadMentorships();
-      }
-      // Also reload when any profile changes to update mentor names
       if (e.key?.startsWith('profile_')) {
-        console.log('👤 Profile updated, reloading mentorships to update names');
-        loadMentorships();
+        setProfileVersion(version => version + 1);
       }
     };
 
+    window.addEventListener('focus', handleFocus);
     window.addEventListener('storage', handleStorageChange);
 
     return () => {
+      unsubscribe();
+      window.removeEventListener('focus', handleFocus);
       window.removeEventListener('storage', handleStorageChange);
     };
-  }, []);
+  }, [loadCatalog]);
+
+  // Convert catalog entries to the card format, with ratings from reviews
+  const allMentors = React.useMemo<Mentor[]>(() => {
+    return catalog.map((mentorship) => {
+      const localProfile = getLocalProfile(mentorship.mentorAddress);
+      const reviewsForMentor = getReviewsByMentor(mentorship.mentorAddress);
+
+      return {
+        id: mentorship.id,
+        name: mentorship.mentor?.username || localProfile?.displayName ||
+          `${mentorship.mentorAddress.slice(0, 6)}...${mentorship.mentorAddress.slice(-4)}`,
+        bio: mentorship.mentor?.bio || localProfile?.bio || mentorship.description,
+        title: mentorship.title,
+        description: mentorship.description,
+        rating: getAverageRatingForMentor(mentorship.mentorAddress), // Use real rating from reviews
+        reviewCount: reviewsForMentor.length, // Use real review count
+        sessionsCompleted: mentorship.mentor?.totalSessions || 0,
+        priceUSDC: mentorship.price,
+        priceETH: mentorship.priceEth, // ULTRATHINK: Add ETH pricing
+        preferredToken: mentorship.preferredToken || 'USDC', // ULTRATHINK: Default to USDC
+        duration: mentorship.duration,
+        category: mentorship.category,
+        skills: mentorship.skills || [],
+        isOnline: true,
+        responseTime: '< 1 hour',
+        mentorAddress: mentorship.mentorAddress, // Add mentor address for profile image lookup
+        prerequisites: mentorship.prerequisites // Add prerequisites from mentorship data
+      };
+    });
+  }, [catalog, profileVersion, getAverageRatingForMentor, getReviewsByMentor]);
 
   const filteredMentors = allMentors.filter(mentor => {
     const matchesSearch = mentor.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -389,96 +272,66 @@ const MentorshipGallery: React.FC = () => {
     return date >= today;
   };
 
-  // Check if a specific time slot is available for the selected mentor
-  const isTimeSlotAvailable = React.useCallback((date: Date, time: string) => {
-    if (!selectedMentor) return true;
+  // Mentor's schedule and booked slots for the selected day, loaded from the backend
+  const [availability, setAvailability] = useState<MentorAvailability | null>(null);
 
-    try {
-      // Check if the time slot has already passed for today
-      const now = new Date();
-      const selectedDateString = date.toISOString().split('T')[0];
-      const todayString = now.toISOString().split('T')[0];
-      
-      if (selectedDateString === todayString) {
-        const [hours, minutes] = time.split(':').map(Number);
-        if (isNaN(hours) || isNaN(minutes)) return false;
-        
-        // Create a fresh date object for the time comparison to avoid modifying the original date
-        const timeSlotDate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0, 0);
-        
-        // If the time slot is in the past, it's not available
-        // Add 1 minute buffer to account for clock differences
-        const nowWithBuffer = new Date(now.getTime() + 60000);
-        if (timeSlotDate <= nowWithBuffer) {
-          return false;
-        }
-      }
+  React.useEffect(() => {
+    if (!selectedMentor) {
+      setAvailability(null);
+      return;
+    }
 
-      // Get all booked sessions safely
-      let allBookings = [];
-      try {
-        const bookingsData = localStorage.getItem('mentorship_bookings');
-        allBookings = bookingsData ? JSON.parse(bookingsData) : [];
-      } catch (error) {
-        console.warn('Error parsing bookings from localStorage:', error);
-        return true; // If there's an error, assume slot is available
-      }
-      
-      // Check for time conflicts considering session duration
-      const sessionDurationMinutes = selectedMentor.duration || 60;
-      const [startHours, startMinutes] = time.split(':').map(Number);
-      if (isNaN(startHours) || isNaN(startMinutes)) return false;
-      
-      // Create start and end times for the new session
-      const newSessionStart = startHours * 60 + startMinutes; // Convert to minutes from midnight
-      const newSessionEnd = newSessionStart + sessionDurationMinutes;
-      
-      // Check if there's a booking conflict for this mentor at this date/time
-      const conflictingBooking = allBookings.find((booking: any) => {
-        if (!booking || typeof booking !== 'object') return false;
-        
-        const isSameMentor = (
-          booking.mentorAddress === (selectedMentor as any).mentorAddress || // If mentor has an address field
-          booking.mentorName === selectedMentor.name || // Fallback to name comparison
-          booking.mentorId === selectedMentor.id
-        );
-        
-        const isSameDate = booking.date === selectedDateString;
-        const isUpcoming = booking.status === 'upcoming';
-        
-        if (!isSameMentor || !isSameDate || !isUpcoming) {
-          return false;
-        }
-        
-        // Calculate existing booking time range
-        if (!booking.time || typeof booking.time !== 'string') return false;
-        
-        const timeMatch = booking.time.match(/^(\d{1,2}):(\d{2})$/);
-        if (!timeMatch) return false;
-        
-        const existingHours = parseInt(timeMatch[1], 10);
-        const existingMinutes = parseInt(timeMatch[2], 10);
-        
-        if (isNaN(existingHours) || isNaN(existingMinutes)) return false;
-        
-        const existingSessionStart = existingHours * 60 + existingMinutes;
-        const existingSessionDuration = booking.duration || 60; // Default to 60 minutes if not specified
-        const existingSessionEnd = existingSessionStart + existingSessionDuration;
-        
-        // Check for overlap: sessions overlap if one starts before the other ends
-        const hasOverlap = (
-          (newSessionStart < existingSessionEnd && newSessionEnd > existingSessionStart)
-        );
-        
-        return hasOverlap;
+    let cancelled = false;
+    const dayStart = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate());
+    const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+
+    setAvailability(null);
+    fetchMentorAvailability(selectedMentor.id, dayStart, dayEnd)
+      .then(result => {
+        if (!cancelled) setAvailability(result);
+      })
+      .catch(error => {
+        // The backend still rejects taken slots when booking
+        console.warn('Error loading mentor availability:', error);
       });
 
-      return !conflictingBooking;
-    } catch (error) {
-      console.warn('Error in isTimeSlotAvailable:', error);
-      return true; // If there's an error, assume slot is available
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedMentor, selectedDate]);
+
+  // Why a time slot can't be booked for the selected mentor (null when it can)
+  const getSlotConflict = React.useCallback((date: Date, time: string): 'past' | 'unavailable' | 'booked' | null => {
+    if (!selectedMentor) return null;
+
+    const [hours, minutes] = time.split(':').map(Number);
+    if (isNaN(hours) || isNaN(minutes)) return 'unavailable';
+
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0, 0);
+    const end = new Date(start.getTime() + (selectedMentor.duration || 60) * 60 * 1000);
+
+    // Add 1 minute buffer to account for clock differences
+    if (start.getTime() <= Date.now() + 60000) {
+      return 'past';
+    }
+
+    if (!availability) return null;
+
+    const withinSchedule = !availability.openWindows || availability.openWindows.some(window =>
+      new Date(window.start) <= start && end <= new Date(window.end)
+    );
+    if (!withinSchedule) {
+      return 'unavailable';
     }
-  }, [selectedMentor]);
+
+    // Sessions overlap if one starts before the other ends
+    const hasOverlap = availability.busy.some(window =>
+      start < new Date(window.end) && new Date(window.start) < end
+    );
+    return hasOverlap ? 'booked' : null;
+  }, [selectedMentor, availability]);
+
+  const isTimeSlotAvailable = (date: Date, time: string) => getSlotConflict(date, time) === null;
 
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
@@ -506,6 +359,8 @@ const MentorshipGallery: React.FC = () => {
 
   const handlePayment = () => {
     if (!selectedMentor || !selectedTime) return;
+
+    const [hours, minutes] = selectedTime.split(':').map(Number);
     
     // Create booking data to pass to payment page
     const bookingData = {
@@ -523,6 +378,7 @@ const MentorshipGallery: React.FC = () => {
       },
       date: selectedDate.toISOString().split('T')[0], // Format: YYYY-MM-DD
       time: selectedTime,
+      scheduledAt: new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate(), hours, minutes).toISOString(),
       student: address || '',
     };
 
@@ -649,8 +505,23 @@ const MentorshipGallery: React.FC = () => {
           </p>
         </div>
 
+        {catalogError && (
+          <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-center justify-between">
+            <p className="text-sm text-red-700 dark:text-red-300">
+              Could not load mentorships from the server: {catalogError}
+            </p>
+            <button onClick={() => loadCatalog(true)} className="btn-secondary text-sm">
+              Retry
+            </button>
+          </div>
+        )}
+
         {/* Mentor Cards Grid */}
-        {sortedMentors.length === 0 ? (
+        {sortedMentors.length === 0 && isLoadingCatalog ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 dark:text-gray-400">Loading mentorships...</p>
+          </div>
+        ) : sortedMentors.length === 0 ? (
           <div className="text-center py-12">
             <div className="w-16 h-16 bg-gray-200 dark:bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
               <UserIcon className="h-8 w-8 text-gray-400" />
@@ -916,29 +787,15 @@ const MentorshipGallery: React.FC = () => {
                         
                         // Generate tooltip message for unavailable slots
                         const getTooltipMessage = () => {
-                          if (isSlotAvailable) return '';
-                          
-                          try {
-                            const now = new Date();
-                            const selectedDateString = selectedDate.toISOString().split('T')[0];
-                            const todayString = now.toISOString().split('T')[0];
-                            
-                            if (selectedDateString === todayString) {
-                              const [hours, minutes] = time.split(':').map(Number);
-                              if (!isNaN(hours) && !isNaN(minutes)) {
-                                const timeSlotDate = new Date();
-                                timeSlotDate.setHours(hours, minutes, 0, 0);
-                                
-                                if (timeSlotDate <= now) {
-                                  return 'This time has already passed';
-                                }
-                              }
-                            }
-                            
-                            return `This time slot conflicts with an existing ${selectedMentor?.duration || 60}-minute session`;
-                          } catch (error) {
-                            console.warn('Error generating tooltip message:', error);
-                            return 'This time slot is unavailable';
+                          switch (getSlotConflict(selectedDate, time)) {
+                            case 'past':
+                              return 'This time has already passed';
+                            case 'unavailable':
+                              return 'The mentor is not available at this time';
+                            case 'booked':
+                              return `This time slot conflicts with an existing ${selectedMentor?.duration || 60}-minute session`;
+                            default:
+                              return '';
                           }
                         };
                         
@@ -966,7 +823,7 @@ const MentorshipGallery: React.FC = () => {
                     </div>
                     {selectedDate && (
                       <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                        Times shown in your local timezone. Unavailable slots are either booked or have passed.
+                        Times shown in your local timezone. Unavailable slots are booked, outside the mentor's hours or have passed.
                       </p>
                     )}
                   </div>
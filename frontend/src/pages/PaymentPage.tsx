@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAccount, useChainId, useBalance } from 'wagmi';
 import { useReadContract, useWriteContract } from 'wagmi';
@@ -32,6 +32,9 @@ import WalletConnectionV2 from '../components/WalletConnectionV2';
 import UserAvatar from '../components/UserAvatar';
 import TransactionToast from '../components/TransactionToast';
 import { useCurrencyConverter } from '../hooks/useCurrencyConverter';
+import { useAuthContext } from '../contexts/AuthContext';
+import { attachBookingTransaction, releaseBooking, reserveSlot } from '../services/mentorshipApi';
+import { BookedSession } from '../types';
 
 // Helper function to format duration
 const formatDuration = (minutes: number): string => {
@@ -50,7 +53,7 @@ const formatDuration = (minutes: number): string => {
 
 interface BookingData {
   mentor: {
-    id: number;
+    id: string; // mentorship id
     name: string;
     title: string;
     description: string;
@@ -63,6 +66,7 @@ interface BookingData {
   };
   date: string;
   time: string;
+  scheduledAt?: string; // ISO start time of the selected slot
   student: string;
 }
 
@@ -71,6 +75,7 @@ const PaymentPage: React.FC = () => {
   const location = useLocation();
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
+  const { getAccessToken, signIn } = useAuthContext();
   const chain = chainId ? {
     id: chainId,
     name: getChainName(chainId)
@@ -310,6 +315,77 @@ const PaymentPage: React.FC = () => {
   
   // Bulletproof transaction monitoring
   const { startMonitoring, stopMonitoring, markCancelled } = useBulletproofTransactionMonitor();
+
+  // Slot held on the backend while the escrow payment is pending
+  const heldBookingRef = useRef<BookedSession | null>(null);
+
+  // Hold the selected slot, reusing a hold that is still waiting for its payment
+  const holdSlot = useCallback(async (): Promise<BookedSession> => {
+    const held = heldBookingRef.current;
+    if (held && held.status === 'PENDING_PAYMENT' && !held.transactionHash &&
+        held.holdExpiresAt && new Date(held.holdExpiresAt).getTime() > Date.now() + 60000) {
+      return held;
+    }
+
+    if (!bookingData) {
+      throw new Error('No session selected');
+    }
+
+    const accessToken = (await getAccessToken()) || ((await signIn()) ? await getAccessToken() : null);
+    if (!accessToken) {
+      throw new Error('Please sign in with your wallet to book a session.');
+    }
+
+    const scheduledAt = bookingData.scheduledAt
+      ? new Date(bookingData.scheduledAt)
+      : new Date(`${bookingData.date}T${bookingData.time}`);
+
+    const booking = await reserveSlot(bookingData.mentor.id, scheduledAt, accessToken);
+    console.log('🔒 Slot held until', booking.holdExpiresAt);
+    heldBookingRef.current = booking;
+    return booking;
+  }, [bookingData, getAccessToken, signIn]);
+
+  // Report the escrow transaction; the backend confirms the session once it is mined
+  const attachHeldTransaction = useCallback(async (txHash: string) => {
+    const held = heldBookingRef.current;
+    if (!held || held.status !== 'PENDING_PAYMENT') return;
+
+    try {
+      const accessToken = await getAccessToken();
+      if (accessToken) {
+        heldBookingRef.current = await attachBookingTransaction(held.id, txHash, chainId, accessToken);
+      }
+    } catch (error) {
+      console.warn('Failed to attach payment to booking:', error);
+    }
+  }, [chainId, getAccessToken]);
+
+  // Give the slot back (payment cancelled, failed or abandoned)
+  const releaseHeldSlot = useCallback(async () => {
+    const held = heldBookingRef.current;
+    heldBookingRef.current = null;
+    if (!held || held.status !== 'PENDING_PAYMENT') return;
+
+    try {
+      const accessToken = await getAccessToken();
+      if (accessToken) {
+        await releaseBooking(held.id, accessToken);
+        console.log('🔓 Slot hold released');
+      }
+    } catch (error) {
+      console.warn('Failed to release slot hold:', error);
+    }
+  }, [getAccessToken]);
+
+  // Release a hold that never got a payment when leaving the page
+  useEffect(() => {
+    return () => {
+      if (heldBookingRef.current && !heldBookingRef.current.transactionHash) {
+        releaseHeldSlot();
+      }
+    };
+  }, [releaseHeldSlot]);
   
   // Transaction state managed by bulletproof monitor
   const [txState, setTxState] = useState<any>(null);
@@ -358,6 +434,13 @@ const PaymentPage: React.FC = () => {
     return () => {};
   }, [bookData, startMonitoring, stopMonitoring]);
 
+  // Keep the slot held while the transaction is pending
+  useEffect(() => {
+    if (bookData) {
+      attachHeldTransaction(bookData);
+    }
+  }, [bookData, attachHeldTransaction]);
+
   // Handle transaction cancellation - IMMEDIATE reset
   useEffect(() => {
     if (transactionCancelled) {
@@ -374,13 +457,15 @@ const PaymentPage: React.FC = () => {
       if (bookData) {
         markCancelled(bookData);
       }
+
+      releaseHeldSlot();
       
       setIsProcessing(false);
       setPaymentError(null);
       setShowErrorModal(false);
       setTxState(null);
     }
-  }, [transactionCancelled, bookData, markCancelled]);
+  }, [transactionCancelled, bookData, markCancelled, releaseHeldSlot]);
 
   // Handle bulletproof transaction updates
   useEffect(() => {
@@ -404,6 +489,10 @@ const PaymentPage: React.FC = () => {
       setTransactionHash(txHash);
       const newSessionId = Date.now();
       setSessionId(newSessionId);
+
+      // Mined - let the backend confirm the held slot right away
+      const heldBooking = heldBookingRef.current;
+      attachHeldTransaction(txHash);
       
       // Save booking session
       if (bookingData && address) {
@@ -426,6 +515,8 @@ const PaymentPage: React.FC = () => {
             status: 'upcoming',
             transactionHash: txHash,
             blockNumber: txState.receipt.blockNumber,
+            bookingId: heldBooking?.id,
+            escrowSessionId: heldBooking?.escrowSessionId,
             createdAt: new Date().toISOString(),
           };
 
@@ -475,6 +566,8 @@ const PaymentPage: React.FC = () => {
         title: 'Transaction Failed',
         message: txState.error || 'Transaction failed on blockchain.'
       });
+
+      releaseHeldSlot();
       
       setPaymentError({
         title: 'Transaction Failed',
@@ -488,7 +581,7 @@ const PaymentPage: React.FC = () => {
       // Already handled in cancellation effect
     }
     
-  }, [txState, bookingData, address, totalAmount, selectedToken, hasProcessedSuccess, hasProcessedFailure]);
+  }, [txState, bookingData, address, totalAmount, selectedToken, hasProcessedSuccess, hasProcessedFailure, attachHeldTransaction, releaseHeldSlot]);
 
 
   // Check if user has sufficient balance (including gas fees for ETH)
@@ -617,7 +710,9 @@ const PaymentPage: React.FC = () => {
       console.log('🔄 Refreshing nonce before payment...');
       await refetchNonce();
       
-      const sessionId = `0x${Date.now().toString(16).padStart(64, '0')}`;
+      // Hold the slot on the backend; its escrow session id identifies the payment on-chain
+      const booking = await holdSlot();
+      const sessionId = booking.escrowSessionId!;
       const currentNonce = userNonce || BigInt(0);
       
       console.log('📊 Nonce Debug:', {
@@ -668,6 +763,7 @@ const PaymentPage: React.FC = () => {
       
       if (isCancellation) {
         console.log('🚫 Payment cancelled by user in handler');
+        releaseHeldSlot();
         setIsProcessing(false);
         // Don't show error modal for cancellations
         return;
@@ -5,6 +5,7 @@ import SessionRoomV3 from '../components/SessionRoomV3';
 import WalletConnectionV2 from '../components/WalletConnectionV2';
 import { useTheme } from '../contexts/ThemeContext';
 import { safeNavigate } from '../utils/navigation';
+import { getCachedMentorships } from '../services/mentorshipApi';
 
 interface SessionData {
   mentorAddress: string;
@@ -72,19 +73,16 @@ const SessionPage: React.FC = () => {
               isStudent: address !== sessionBooking.mentorAddress
             });
           } else {
-            // Final fallback: try to find in global_mentorships
-            const globalMentorships = JSON.parse(localStorage.getItem('global_mentorships') || '[]');
-            const sessionMentorship = globalMentorships.find((m: any) => 
-              m.sessionId === sessionId || m.id === sessionId
-            );
+            // Final fallback: try to find in the cached mentorship catalog
+            const sessionMentorship = getCachedMentorships().find(m => m.id === sessionId);
             
             if (sessionMentorship) {
               setSessionData({
-                mentorAddress: sessionMentorship.mentorAddress || sessionMentorship.address,
-                mentorName: sessionMentorship.mentorName || sessionMentorship.name || 'Mentor',
+                mentorAddress: sessionMentorship.mentorAddress,
+                mentorName: sessionMentorship.mentor?.username || 'Mentor',
                 sessionTitle: sessionMentorship.title || 'Mentorship Session',
                 sessionDuration: sessionMentorship.duration || 60,
-                totalAmount: sessionMentorship.priceUSDC || 100,
+                totalAmount: sessionMentorship.price || 100,
                 isStudent: address !== sessionMentorship.mentorAddress
               });
             } else {
@@ -25,9 +25,30 @@ import AlertModal from '../components/AlertModal';
 import { useCurrencyConverter } from '../hooks/useCurrencyConverter';
 import ConfirmationModal from '../components/ConfirmationModal';
 import MentorPaymentConfirmation from '../components/MentorPaymentConfirmation';
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  createMentorship,
+  deleteMentorship,
+  fetchMyMentorships,
+  updateMentorship
+} from '../services/mentorshipApi';
+import { Mentorship } from '../types';
 
 type TabType = 'profile' | 'create' | 'mentorships' | 'financial';
 
+// Access token for mentorship API calls, asking the wallet to sign in if needed
+const useMentorshipAccessToken = () => {
+  const { getAccessToken, signIn } = useAuthContext();
+
+  return React.useCallback(async (): Promise<string> => {
+    const token = (await getAccessToken()) || ((await signIn()) ? await getAccessToken() : null);
+    if (!token) {
+      throw new Error('Please sign in with your wallet to manage mentorships.');
+    }
+    return token;
+  }, [getAccessToken, signIn]);
+};
+
 const UserDashboard: React.FC = () => {
   const { isConnected, address } = useAccount();
   const { profile, diagnoseProfiles: _diagnoseProfiles } = useUserProfile();
@@ -497,6 +518,7 @@ Maximum file size: 5MB. Supported formats: JPG, PNG, GIF, WebP
 // Create Mentorship Tab Component
 const CreateMentorshipTab: React.FC = () => {
   const { address } = useAccount();
+  const requireAccessToken = useMentorshipAccessToken();
   const { formatPrice, convertPrice } = useCurrencyConverter(); // ULTRATHINK: Currency conversion
   const [mentorshipData, setMentorshipData] = useState({
     title: '',
@@ -585,40 +607,32 @@ const CreateMentorshipTab: React.FC = () => {
       return;
     }
 
+    // Parse skills from string
+    const skillsArray = mentorshipData.skills
+      ? mentorshipData.skills.split(',').map(skill => skill.trim()).filter(skill => skill.length > 0)
+      : [];
+
+    // Mirror the backend catalog validation
+    if (mentorshipData.title.trim().length < 5) {
+      showAlert('warning', 'Title Too Short', 'The session title must be at least 5 characters long.');
+      return;
+    }
+
+    if (mentorshipData.description.trim().length < 20) {
+      showAlert('warning', 'Description Too Short', 'The description must be at least 20 characters long.');
+      return;
+    }
+
+    if (skillsArray.length === 0) {
+      showAlert('warning', 'Missing Information', 'Please enter at least one skill.');
+      return;
+    }
+
     setIsCreating(true);
     setCreateStatus('idle');
 
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // Generate unique ID
-      const mentorshipId = Date.now();
-      
-      // Get user profile for mentor name and bio
-      const savedProfile = localStorage.getItem(`profile_${address.toLowerCase()}`);
-      let mentorName = `${address.slice(0, 6)}...${address.slice(-4)}`;
-      let mentorBio = '';
-      if (savedProfile) {
-        try {
-          const profile = JSON.parse(savedProfile);
-          if (profile.displayName) {
-            mentorName = profile.displayName;
-            console.log(`👤 Using profile name for new mentorship: ${mentorName}`);
-          }
-          if (profile.bio) {
-            mentorBio = profile.bio;
-            console.log(`👤 Using profile bio for new mentorship:`, profile.bio.substring(0, 50) + '...');
-          }
-        } catch (error) {
-          console.error('Error parsing profile:', error);
-        }
-      }
-
-      // Parse skills from string
-      const skillsArray = mentorshipData.skills
-        ? mentorshipData.skills.split(',').map(skill => skill.trim()).filter(skill => skill.length > 0)
-        : [];
+      const accessToken = await requireAccessToken();
 
       // Calculate both price formats using currency converter
       const priceAmount = parseFloat(mentorshipData.price);
@@ -629,42 +643,19 @@ const CreateMentorshipTab: React.FC = () => {
         ? priceAmount 
         : convertPrice(priceAmount, 'USDC', 'ETH');
 
-      // Create mentorship object
-      const newMentorship = {
-        id: mentorshipId,
-        mentorAddress: address,
-        mentorName: mentorName,
-        mentorBio: mentorBio,
+      // Publish to the shared catalog (shown in the gallery right away, rolled back on failure)
+      await createMentorship({
         title: mentorshipData.title.trim(),
         description: mentorshipData.description.trim(),
         duration: parseInt(mentorshipData.duration),
-        priceUSDC: priceUSDC,
-        priceETH: priceETH,
+        price: priceUSDC,
+        currency: 'USDC',
+        priceEth: priceETH > 0 ? priceETH : undefined,
         preferredToken: mentorshipData.preferredToken,
         category: mentorshipData.category,
         prerequisites: mentorshipData.prerequisites.trim(),
-        skills: skillsArray,
-        rating: 0,
-        reviewCount: 0,
-        sessionsCompleted: 0,
-        isOnline: true,
-        responseTime: '< 1 hour',
-        createdAt: new Date().toISOString(),
-        status: 'active'
-      };
-
-      // Save to localStorage
-      // 1. Save to mentor's created mentorships
-      const mentorKey = `mentorships_created_${address}`;
-      const existingMentorships = JSON.parse(localStorage.getItem(mentorKey) || '[]');
-      existingMentorships.push(newMentorship);
-      localStorage.setItem(mentorKey, JSON.stringify(existingMentorships));
-
-      // 2. Save to global mentorships list (for gallery)
-      const globalKey = 'global_mentorships';
-      const globalMentorships = JSON.parse(localStorage.getItem(globalKey) || '[]');
-      globalMentorships.push(newMentorship);
-      localStorage.setItem(globalKey, JSON.stringify(globalMentorships));
+        skills: skillsArray
+      }, address, accessToken);
 
       // Clear form
       setMentorshipData({
@@ -691,6 +682,7 @@ const CreateMentorshipTab: React.FC = () => {
     } catch (error) {
       console.error('Error creating mentorship:', error);
       setCreateStatus('error');
+      showAlert('error', 'Create Failed', error instanceof Error ? error.message : 'Failed to create mentorship. Please try again.');
       
       // Reset error status after 5 seconds
       setTimeout(() => {
@@ -1005,12 +997,14 @@ const CreateMentorshipTab: React.FC = () => {
 // My Mentorships Tab Component
 const MyMentorshipsTab: React.FC<{ navigate: any; setActiveTab: (tab: TabType) => void }> = ({ navigate, setActiveTab }) => {
   const { address } = useAccount();
+  const { isAuthenticated, getAccessToken } = useAuthContext();
+  const requireAccessToken = useMentorshipAccessToken();
   const [isJoining, setIsJoining] = useState<number | null>(null);
-  const [createdMentorships, setCreatedMentorships] = useState<any[]>([]);
+  const [createdMentorships, setCreatedMentorships] = useState<Mentorship[]>([]);
   const [bookedSessions, setBookedSessions] = useState<any[]>([]);
   const [activeView, setActiveView] = useState<'created' | 'sessions'>('created');
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
-  const [mentorshipToDelete, setMentorshipToDelete] = useState<number | null>(null);
+  const [mentorshipToDelete, setMentorshipToDelete] = useState<string | null>(null);
 
   // Alert Modal state for MyMentorshipsTab
   const [alertModal, setAlertModal] = useState<{
@@ -1038,15 +1032,29 @@ const MyMentorshipsTab: React.FC<{ navigate: any; setActiveTab: (tab: TabType) =
     setAlertModal(prev => ({ ...prev, isOpen: false }));
   };
 
-  // Load mentorships and sessions on component mount and when address changes
+  // Load created mentorships from the backend catalog when address changes
+  React.useEffect(() => {
+    if (!address || !isAuthenticated) return;
+
+    let cancelled = false;
+    getAccessToken()
+      .then(accessToken => (accessToken ? fetchMyMentorships(accessToken) : []))
+      .then(mentorships => {
+        if (!cancelled) setCreatedMentorships(mentorships);
+      })
+      .catch(error => {
+        console.error('Error loading created mentorships:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, isAuthenticated, getAccessToken]);
+
+  // Load booked sessions on component mount and when address changes
   React.useEffect(() => {
     const loadData = () => {
       if (address) {
-        // Load created mentorships
-        const mentorKey = `mentorships_created_${address}`;
-        const created = JSON.parse(localStorage.getItem(mentorKey) || '[]');
-        setCreatedMentorships(created);
-
         // Load booked sessions (from localStorage)
         const bookings = JSON.parse(localStorage.getItem('mentorship_bookings') || '[]');
         
@@ -1086,7 +1094,7 @@ const MyMentorshipsTab: React.FC<{ navigate: any; setActiveTab: (tab: TabType) =
     
     // Listen for localStorage changes to update in real-time
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'mentorship_bookings' || e.key?.startsWith('mentorships_created_')) {
+      if (e.key === 'mentorship_bookings') {
         loadData();
       }
     };
@@ -1170,7 +1178,7 @@ const MyMentorshipsTab: React.FC<{ navigate: any; setActiveTab: (tab: TabType) =
     }
   };
 
-  const handleDeleteMentorship = (mentorshipId: number) => {
+  const handleDeleteMentorship = (mentorshipId: string) => {
     setMentorshipToDelete(mentorshipId);
     setShowDeleteConfirmation(true);
   };
@@ -1178,28 +1186,43 @@ const MyMentorshipsTab: React.FC<{ navigate: any; setActiveTab: (tab: TabType) =
   const confirmDeleteMentorship = async () => {
     if (!address || !mentorshipToDelete) return;
 
+    const previous = createdMentorships;
+    const deletedId = mentorshipToDelete;
+
+    // Optimistic: remove from the list, restore it if the backend refuses
+    setCreatedMentorships(previous.filter(m => m.id !== deletedId));
+    setShowDeleteConfirmation(false);
+    setMentorshipToDelete(null);
+
     try {
-      // Remove from created mentorships
-      const mentorKey = `mentorships_created_${address}`;
-      const created = JSON.parse(localStorage.getItem(mentorKey) || '[]');
-      const updated = created.filter((m: any) => m.id !== mentorshipToDelete);
-      localStorage.setItem(mentorKey, JSON.stringify(updated));
-      setCreatedMentorships(updated);
-
-      // Remove from global mentorships
-      const globalKey = 'global_mentorships';
-      const global = JSON.parse(localStorage.getItem(globalKey) || '[]');
-      const updatedGlobal = global.filter((m: any) => m.id !== mentorshipToDelete);
-      localStorage.setItem(globalKey, JSON.stringify(updatedGlobal));
-
-      setShowDeleteConfirmation(false);
-      setMentorshipToDelete(null);
-      showAlert('success', 'Deleted', 'Mentorship deleted successfully!');
+      const accessToken = await requireAccessToken();
+      const message = await deleteMentorship(deletedId, accessToken);
+
+      // Mentorships with booked sessions are deactivated instead of deleted
+      setCreatedMentorships(await fetchMyMentorships(accessToken));
+      showAlert('success', 'Deleted', message);
     } catch (error) {
       console.error('Error deleting mentorship:', error);
-      showAlert('error', 'Delete Failed', 'Failed to delete mentorship. Please try again.');
-      setShowDeleteConfirmation(false);
-      setMentorshipToDelete(null);
+      setCreatedMentorships(previous);
+      showAlert('error', 'Delete Failed', error instanceof Error ? error.message : 'Failed to delete mentorship. Please try again.');
+    }
+  };
+
+  const handleToggleMentorship = async (mentorship: Mentorship) => {
+    const previous = createdMentorships;
+    const isActive = !mentorship.isActive;
+
+    // Optimistic: flip the status right away
+    setCreatedMentorships(previous.map(m => (m.id === mentorship.id ? { ...m, isActive } : m)));
+
+    try {
+      const accessToken = await requireAccessToken();
+      const updated = await updateMentorship(mentorship.id, { isActive }, accessToken);
+      setCreatedMentorships(current => current.map(m => (m.id === updated.id ? updated : m)));
+    } catch (error) {
+      console.error('Error updating mentorship:', error);
+      setCreatedMentorships(previous);
+      showAlert('error', 'Update Failed', error instanceof Error ? error.message : 'Failed to update mentorship. Please try again.');
     }
   };
 
@@ -1279,7 +1302,7 @@ Booked Sessions ({bookedSessions.length})
                         </div>
                         <div className="flex items-center space-x-1">
                           <CurrencyDollarIcon className="h-4 w-4" />
-                          <span>{mentorship.priceUSDC} USDC</span>
+                          <span>{mentorship.price} USDC</span>
                         </div>
                         <div className="flex items-center space-x-1">
                           <span className="text-xs bg-gray-100 dark:bg-neutral-700 px-2 py-1 rounded">
@@ -1298,9 +1321,17 @@ Booked Sessions ({bookedSessions.length})
                       )}
                     </div>
                     <div className="flex items-center space-x-3">
-                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-Active
-                      </span>
+                      <button
+                        onClick={() => handleToggleMentorship(mentorship)}
+                        title={mentorship.isActive ? 'Hide from the gallery' : 'Show in the gallery'}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${
+                          mentorship.isActive
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                            : 'bg-gray-100 text-gray-600 dark:bg-neutral-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {mentorship.isActive ? 'Active' : 'Paused'}
+                      </button>
                       <button 
                         onClick={() => handleDeleteMentorship(mentorship.id)}
                         className="btn-secondary text-sm flex items-center space-x-1 text-red-600 hover:text-red-700"
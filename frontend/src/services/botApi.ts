@@ -0,0 +1,94 @@
+/**
+ * Payment bot control API client
+ *
+ * The backend proxies /api/bot to the running DailyPaymentBotV8 process. Every
+ * route is admin-only, so each call needs the signed-in admin's access token.
+ */
+
+const API_BASE_URL = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001';
+
+export interface PaymentBotExecution {
+  id: string;
+  startTime: number;
+  endTime: number;
+  success: boolean;
+  isManual: boolean;
+  totalProcessed: number;
+  successfulPayments: number;
+  failedPayments: number;
+  error: string | null;
+}
+
+export interface PaymentBotStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  dryRun: boolean; // runs only simulate payments
+  lastExecution: PaymentBotExecution | null;
+  nextExecution: string;
+  uptime: number; // seconds
+}
+
+export interface PaymentBotMetrics {
+  totalExecutions: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  recentExecutions: PaymentBotExecution[];
+}
+
+export class BotApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BotApiError';
+  }
+}
+
+const request = async <T>(method: string, path: string, accessToken: string): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/api/bot${path}`, {
+    method,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new BotApiError(data.message || `Bot request failed (${response.status})`, response.status);
+  }
+  return data as T;
+};
+
+export const fetchBotStatus = async (accessToken: string): Promise<PaymentBotStatus> => {
+  const { isRunning, isPaused, dryRun, lastExecution, nextExecution, uptime } =
+    await request<PaymentBotStatus>('GET', '/health', accessToken);
+  return { isRunning, isPaused, dryRun, lastExecution, nextExecution, uptime };
+};
+
+export const fetchBotMetrics = async (accessToken: string): Promise<PaymentBotMetrics> => {
+  const data = await request<{ execution: PaymentBotMetrics }>('GET', '/status', accessToken);
+  return data.execution;
+};
+
+export const fetchBotHistory = async (limit: number, accessToken: string): Promise<PaymentBotExecution[]> => {
+  const data = await request<{ executions: PaymentBotExecution[] }>('GET', `/history/${limit}`, accessToken);
+  return data.executions;
+};
+
+/**
+ * Start a run on the bot. Returns as soon as it has started; refetch the status for the result.
+ */
+export const executeBot = async (accessToken: string): Promise<PaymentBotStatus> => {
+  const data = await request<{ status: PaymentBotStatus }>('POST', '/execute', accessToken);
+  return data.status;
+};
+
+export const pauseBot = async (accessToken: string): Promise<PaymentBotStatus> => {
+  const data = await request<{ status: PaymentBotStatus }>('POST', '/pause', accessToken);
+  return data.status;
+};
+
+export const resumeBot = async (accessToken: string): Promise<PaymentBotStatus> => {
+  const data = await request<{ status: PaymentBotStatus }>('POST', '/resume', accessToken);
+  return data.status;
+};
@@ -0,0 +1,102 @@
+/**
+ * Emergency release proposals API client
+ *
+ * The bots send an emergencyRelease only once enough approvers have signed the
+ * proposal's EIP-712 message. The backend's /api/admin routes list the proposals
+ * (with the typed data to sign) and forward signatures and rejections to the bot.
+ */
+
+const API_BASE_URL = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001';
+
+export type EmergencyProposalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed' | 'expired';
+
+export interface EmergencyReleaseTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: `0x${string}`;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: 'EmergencyRelease';
+  message: Record<string, string>; // uint256 fields as decimal strings
+}
+
+export interface EmergencyProposal {
+  id: string;
+  chainId: number;
+  contract: string;
+  sessionId: string;
+  recipient: string;
+  token: string;
+  amount: string; // smallest token unit
+  reason: string;
+  evidence: Record<string, unknown>;
+  evidenceHash: string;
+  threshold: number;
+  proposedBy: string;
+  createdAt: number;
+  expiresAt: number;
+  status: EmergencyProposalStatus;
+  signatures: { signer: string; signature: string; signedAt: number }[];
+  transactionHash: string | null;
+  error: string | null;
+  history: { at: number; event: string; actor: string; detail: string | null }[];
+  typedData: EmergencyReleaseTypedData;
+}
+
+export interface EmergencyProposalList {
+  approvers: string[];
+  threshold: number;
+  proposals: EmergencyProposal[];
+}
+
+export class EmergencyProposalApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'EmergencyProposalApiError';
+  }
+}
+
+const request = async <T>(method: string, path: string, accessToken: string, body?: object): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/api/admin${path}`, {
+    method,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new EmergencyProposalApiError(data.message || `Emergency proposal request failed (${response.status})`, response.status);
+  }
+  return data as T;
+};
+
+export const fetchEmergencyProposals = async (
+  accessToken: string,
+  status?: EmergencyProposalStatus
+): Promise<EmergencyProposalList> => {
+  const { approvers, threshold, proposals } = await request<EmergencyProposalList>(
+    'GET',
+    `/emergency-proposals${status ? `?status=${status}` : ''}`,
+    accessToken
+  );
+  return { approvers, threshold, proposals };
+};
+
+/**
+ * Submit the signed-in approver's signature of the proposal's typedData
+ */
+export const signEmergencyProposal = async (id: string, signature: string, accessToken: string): Promise<EmergencyProposal> => {
+  const data = await request<{ proposal: EmergencyProposal }>('POST', `/emergency-proposals/${id}/approve`, accessToken, { signature });
+  return data.proposal;
+};
+
+export const rejectEmergencyProposal = async (id: string, note: string | undefined, accessToken: string): Promise<EmergencyProposal> => {
+  const data = await request<{ proposal: EmergencyProposal }>('POST', `/emergency-proposals/${id}/reject`, accessToken, { note });
+  return data.proposal;
+};
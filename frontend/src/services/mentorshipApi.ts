@@ -0,0 +1,252 @@
+/**
+ * Mentorship catalog API client
+ *
+ * The catalog lives on the backend (/api/mentorships) so every user sees the same
+ * mentorships. Listings are cached in memory and shared by every subscriber; writes
+ * are applied to the cache optimistically, rolled back on failure and followed by a
+ * refetch so other views pick up the server's version.
+ *
+ * Bookings hold a time slot on the backend while the escrow payment is sent; the
+ * backend confirms the session once it sees the escrow SessionCreated event.
+ */
+
+import { BookedSession, MentorAvailability, Mentorship, MentorshipInput, MentorshipUpdate } from '../types';
+
+const API_BASE_URL = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001';
+
+// Cached catalog is refetched after this long
+const CACHE_TTL = 30 * 1000; // 30 seconds
+// Largest page the search endpoint accepts
+const PAGE_SIZE = 50;
+
+export class MentorshipApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'MentorshipApiError';
+  }
+}
+
+interface CatalogCache {
+  mentorships: Mentorship[];
+  fetchedAt: number;
+}
+
+let cache: CatalogCache | null = null;
+let inflight: Promise<Mentorship[]> | null = null;
+const listeners = new Set<(mentorships: Mentorship[]) => void>();
+
+const request = async <T>(method: string, path: string, body?: unknown, accessToken?: string | null): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/api${path}`, {
+    method,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new MentorshipApiError(data.message || `Mentorship request failed (${response.status})`, response.status);
+  }
+  return data as T;
+};
+
+const setCache = (mentorships: Mentorship[]): void => {
+  cache = { mentorships, fetchedAt: Date.now() };
+  listeners.forEach(listener => listener(mentorships));
+};
+
+// Currently cached catalog (may be stale or empty)
+export const getCachedMentorships = (): Mentorship[] => cache?.mentorships || [];
+
+// Subscribe to catalog changes. Returns the unsubscribe function.
+export const subscribeMentorships = (listener: (mentorships: Mentorship[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Load every active mentorship, served from cache unless stale or forced
+export const fetchMentorships = async (force = false): Promise<Mentorship[]> => {
+  if (!force && cache && Date.now() - cache.fetchedAt < CACHE_TTL) {
+    return cache.mentorships;
+  }
+
+  if (!inflight) {
+    inflight = (async () => {
+      try {
+        const mentorships: Mentorship[] = [];
+        let page = 1;
+        let totalPages = 1;
+
+        do {
+          const data = await request<{ mentorships: Mentorship[]; pagination: { totalPages: number } }>(
+            'GET',
+            `/mentorships?page=${page}&limit=${PAGE_SIZE}&sortBy=created&sortOrder=desc`
+          );
+          mentorships.push(...data.mentorships);
+          totalPages = data.pagination.totalPages;
+          page++;
+        } while (page <= totalPages);
+
+        setCache(mentorships);
+        return mentorships;
+      } finally {
+        inflight = null;
+      }
+    })();
+  }
+
+  return inflight;
+};
+
+// Mark the cache stale and refetch in the background
+export const invalidateMentorships = (): void => {
+  if (cache) {
+    cache = { ...cache, fetchedAt: 0 };
+  }
+  fetchMentorships(true).catch(error => {
+    console.warn('Failed to refresh mentorship catalog:', error);
+  });
+};
+
+// Mentorships created by the signed-in mentor, including inactive ones
+export const fetchMyMentorships = async (accessToken: string): Promise<Mentorship[]> => {
+  const data = await request<{ mentorships: Mentorship[] }>('GET', '/my-mentorships/mentorships', undefined, accessToken);
+  return data.mentorships;
+};
+
+export const createMentorship = async (
+  input: MentorshipInput,
+  mentorAddress: string,
+  accessToken: string
+): Promise<Mentorship> => {
+  const previous = cache?.mentorships;
+  const now = new Date().toISOString();
+  const placeholder: Mentorship = {
+    ...input,
+    id: `pending-${Date.now()}`,
+    mentorAddress: mentorAddress.toLowerCase(),
+    maxStudents: 1,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  // Optimistic: show the new mentorship right away
+  if (previous) {
+    setCache([placeholder, ...previous]);
+  }
+
+  try {
+    const { mentorship } = await request<{ mentorship: Mentorship }>('POST', '/mentorships', input, accessToken);
+    if (cache) {
+      setCache(cache.mentorships.map(m => (m.id === placeholder.id ? mentorship : m)));
+    }
+    invalidateMentorships();
+    return mentorship;
+  } catch (error) {
+    if (previous) {
+      setCache(previous);
+    }
+    throw error;
+  }
+};
+
+export const updateMentorship = async (
+  id: string,
+  update: MentorshipUpdate,
+  accessToken: string
+): Promise<Mentorship> => {
+  const previous = cache?.mentorships;
+
+  // Optimistic: apply the change locally; deactivated mentorships leave the catalog
+  if (previous) {
+    setCache(
+      previous
+        .map(m => (m.id === id ? { ...m, ...update } : m))
+        .filter(m => m.isActive)
+    );
+  }
+
+  try {
+    const { mentorship } = await request<{ mentorship: Mentorship }>('PUT', `/mentorships/${id}`, update, accessToken);
+    invalidateMentorships();
+    return mentorship;
+  } catch (error) {
+    if (previous) {
+      setCache(previous);
+    }
+    throw error;
+  }
+};
+
+// Delete a mentorship. Mentorships with booked sessions are deactivated by the backend instead.
+export const deleteMentorship = async (id: string, accessToken: string): Promise<string> => {
+  const previous = cache?.mentorships;
+
+  if (previous) {
+    setCache(previous.filter(m => m.id !== id));
+  }
+
+  try {
+    const { message } = await request<{ message: string }>('DELETE', `/mentorships/${id}`, undefined, accessToken);
+    invalidateMentorships();
+    return message;
+  } catch (error) {
+    if (previous) {
+      setCache(previous);
+    }
+    throw error;
+  }
+};
+
+// Mentor's open schedule windows and occupied slots in [from, to)
+export const fetchMentorAvailability = async (mentorshipId: string, from: Date, to: Date): Promise<MentorAvailability> => {
+  const query = `from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+  const { duration, timezone, openWindows, busy } = await request<MentorAvailability>(
+    'GET',
+    `/mentorships/${mentorshipId}/availability?${query}`
+  );
+  return { duration, timezone, openWindows, busy };
+};
+
+// Hold a time slot. The returned session carries the escrowSessionId to pay against.
+export const reserveSlot = async (mentorshipId: string, scheduledAt: Date, accessToken: string): Promise<BookedSession> => {
+  const { session } = await request<{ session: BookedSession }>(
+    'POST',
+    '/mentorships/book',
+    { mentorshipId, scheduledAt: scheduledAt.toISOString() },
+    accessToken
+  );
+  return session;
+};
+
+export const fetchBooking = async (sessionId: string, accessToken: string): Promise<BookedSession> => {
+  const { session } = await request<{ session: BookedSession }>('GET', `/mentorships/book/${sessionId}`, undefined, accessToken);
+  return session;
+};
+
+// Report the escrow transaction so the backend keeps the hold until it is confirmed
+export const attachBookingTransaction = async (
+  sessionId: string,
+  transactionHash: string,
+  chainId: number,
+  accessToken: string
+): Promise<BookedSession> => {
+  const { session } = await request<{ session: BookedSession }>(
+    'POST',
+    `/mentorships/book/${sessionId}/transaction`,
+    { transactionHash, chainId },
+    accessToken
+  );
+  return session;
+};
+
+// Give up a held slot (payment cancelled or failed)
+export const releaseBooking = async (sessionId: string, accessToken: string): Promise<void> => {
+  await request('DELETE', `/mentorships/book/${sessionId}`, undefined, accessToken);
+};
@@ -12,18 +12,82 @@ export interface User {
   createdAt: Date;
 }
 
+// Mentorship as returned by the backend catalog API (/api/mentorships)
 export interface Mentorship {
   id: string;
-  mentorId: string;
+  mentorAddress: string;
   title: string;
   description: string;
   category: string;
-  price: number; // in USDC
-  duration: number; // in minutes
   skills: string[];
+  duration: number; // in minutes
+  price: number; // in USDC
+  currency: 'USDT' | 'USDC';
+  priceEth?: number;
+  preferredToken: 'USDC' | 'ETH';
+  prerequisites?: string;
+  maxStudents: number;
   isActive: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  mentor?: MentorSummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Public profile of the mentor, joined in by the backend
+export interface MentorSummary {
+  username?: string;
+  bio?: string;
+  avatar?: string;
+  rating: number;
+  totalSessions: number;
+}
+
+export interface MentorshipInput {
+  title: string;
+  description: string;
+  category: string;
+  skills: string[];
+  duration: number;
+  price: number;
+  currency: 'USDC';
+  priceEth?: number;
+  preferredToken: 'USDC' | 'ETH';
+  prerequisites?: string;
+}
+
+export type MentorshipUpdate = Partial<MentorshipInput & { isActive: boolean }>;
+
+// Booked session as returned by /api/mentorships/book. The slot is held while
+// PENDING_PAYMENT and becomes SCHEDULED once the escrow payment is confirmed.
+export interface BookedSession {
+  id: string;
+  mentorshipId: string;
+  mentorAddress: string;
+  studentAddress: string;
+  scheduledAt: string;
+  duration: number;
+  price: number;
+  currency: string;
+  status: 'PENDING_PAYMENT' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+  escrowSessionId?: string;
+  chainId?: number;
+  transactionHash?: string;
+  holdExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// Mentor schedule for a date range (/api/mentorships/:id/availability)
+export interface MentorAvailability {
+  duration: number;
+  timezone?: string;
+  openWindows: TimeWindow[] | null; // null when the mentor has no schedule
+  busy: TimeWindow[];
 }
 
 export interface Session {
@@ -381,14 +445,18 @@ export interface AuthState {
   address: string | null;
   sessionToken: string | null;
   sessionExpiry: Date | null;
+  accessTokenExpiry: Date | null;
+  refreshToken: string | null;
   isLoading: boolean;
   error: string | null;
   nonce: string | null;
 }
 
 export interface AuthSession {
-  token: string;
-  expiry: string;
+  token: string; // backend-signed access token
+  expiry: string; // access token expiry
+  refreshToken: string;
+  refreshExpiry: string;
   address: string;
   timestamp: number;
 }